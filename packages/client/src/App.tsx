@@ -1,5 +1,7 @@
+import { useEffect } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
 import Shell from './components/layout/Shell';
+import { useDeviceStore } from './stores/deviceStore';
 
 import Dashboard from './pages/Dashboard';
 import Briefing from './pages/Briefing';
@@ -30,8 +32,20 @@ import Archiver from './pages/Archiver';
 import Music from './pages/Music';
 import Covas from './pages/Covas';
 import Chakra from './pages/Chakra';
+import Settings from './pages/Settings';
+import Devices from './pages/Devices';
+import Pair from './pages/Pair';
 
 function App() {
+  const deviceStatus = useDeviceStore((s) => s.status);
+  const checkDevice = useDeviceStore((s) => s.check);
+
+  useEffect(() => { checkDevice(); }, [checkDevice]);
+
+  // Other devices on the LAN must pair before they can use the server
+  if (deviceStatus === 'checking') return null;
+  if (deviceStatus === 'unpaired') return <Pair />;
+
   return (
     <Routes>
       <Route element={<Shell />}>
@@ -65,6 +79,8 @@ function App() {
         <Route path="/music" element={<Music />} />
         <Route path="/covas" element={<Covas />} />
         <Route path="/chakra" element={<Chakra />} />
+        <Route path="/settings" element={<Settings />} />
+        <Route path="/devices" element={<Devices />} />
       </Route>
     </Routes>
   );
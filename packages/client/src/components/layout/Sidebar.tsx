@@ -37,6 +37,8 @@ const NAV_ITEMS: NavItem[] = [
   { path: '/alerts', label: 'Alerts' },
   { path: '/preflight', label: 'Preflight' },
   { path: '/archiver', label: 'Archiver' },
+  { path: '/settings', label: 'Settings' },
+  { path: '/devices', label: 'Devices' },
 ];
 
 export default function Sidebar() {
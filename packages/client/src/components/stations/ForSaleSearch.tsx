@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import type { ForSaleListing, StationItemKind } from '@vayu/shared';
+import { apiFetch } from '../../hooks/useApi';
+import HoloPanel from '../common/HoloPanel';
+import HoloButton from '../common/HoloButton';
+import HoloTable from '../common/HoloTable';
+
+interface ForSaleSearchProps {
+  kind: StationItemKind;
+  placeholder: string;
+}
+
+/** "Where have I seen this for sale?" — searches shipyards/outfitting the commander has opened. */
+export default function ForSaleSearch({ kind, placeholder }: ForSaleSearchProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ForSaleListing[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const doSearch = async () => {
+    if (!query.trim()) return;
+    setSearching(true);
+    setError(null);
+    try {
+      setResults(await apiFetch<ForSaleListing[]>(`/stations/for-sale?q=${encodeURIComponent(query)}&kind=${kind}&limit=20`));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Search failed');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <HoloPanel title="Where to Buy">
+      <div style={{ fontSize: 13, color: 'var(--color-text-muted)', fontStyle: 'italic', padding: '4px 0 12px', borderBottom: '1px solid var(--color-border)', marginBottom: 10 }}>
+        Search every {kind === 'ship' ? 'shipyard' : 'outfitting'} you have opened. Nearest stations first; shorthand like FSD or Mk2 works.
+      </div>
+      <div style={{ display: 'flex', gap: 8, marginBottom: 12 }}>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && doSearch()}
+          placeholder={placeholder}
+          style={{
+            flex: 1, background: 'var(--color-bg-tertiary)', border: '1px solid var(--color-border)',
+            color: '#fff', padding: '6px 10px', fontSize: 13, fontFamily: 'var(--font-mono)', borderRadius: 2,
+          }}
+        />
+        <HoloButton onClick={doSearch} disabled={searching}>
+          {searching ? '...' : 'Search'}
+        </HoloButton>
+      </div>
+      {error && <p style={{ color: 'var(--color-danger)', fontSize: 13 }}>{error}</p>}
+      {results && (
+        <HoloTable
+          columns={[
+            { key: 'name', header: kind === 'ship' ? 'Ship' : 'Module' },
+            {
+              key: 'station',
+              header: 'Station',
+              render: (l: ForSaleListing) => (
+                <div>
+                  <div style={{ fontSize: 12 }}>{l.stationName}</div>
+                  <div style={{ fontSize: 11, color: 'var(--color-text-muted)' }}>{l.starSystem}</div>
+                </div>
+              ),
+            },
+            {
+              key: 'distanceLy',
+              header: 'Distance',
+              align: 'right' as const,
+              render: (l: ForSaleListing) => (l.distanceLy === null ? '—' : `${l.distanceLy.toFixed(1)} LY`),
+            },
+            {
+              key: 'price',
+              header: 'Price',
+              align: 'right' as const,
+              render: (l: ForSaleListing) => (
+                <span style={{ color: 'var(--color-accent-bright)', fontFamily: 'var(--font-mono)', fontSize: 12 }}>
+                  {l.price.toLocaleString()} CR
+                </span>
+              ),
+            },
+            {
+              key: 'seenAt',
+              header: 'Seen',
+              align: 'right' as const,
+              render: (l: ForSaleListing) => (
+                <span style={{ fontSize: 11, color: 'var(--color-text-muted)' }}>{new Date(l.seenAt).toLocaleDateString()}</span>
+              ),
+            },
+          ]}
+          data={results}
+          rowKey={(l: ForSaleListing) => `${l.marketId}-${l.item}`}
+          emptyMessage={`Not seen for sale at any ${kind === 'ship' ? 'shipyard' : 'outfitting'} you have opened.`}
+        />
+      )}
+    </HoloPanel>
+  );
+}
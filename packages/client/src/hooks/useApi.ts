@@ -1,13 +1,20 @@
 import { useState, useCallback } from 'react';
+import type { ApiError } from '@vayu/shared';
+import { authHeaders, useDeviceStore } from '../stores/deviceStore';
 
 const API_BASE = '/api';
 
 export async function apiFetch<T>(path: string, init?: RequestInit): Promise<T> {
   const res = await fetch(`${API_BASE}${path}`, {
-    headers: { 'Content-Type': 'application/json' },
     ...init,
+    headers: { 'Content-Type': 'application/json', ...authHeaders(), ...init?.headers },
   });
-  if (!res.ok) throw new Error(`API ${res.status}: ${res.statusText}`);
+  if (res.status === 401) useDeviceStore.getState().unpaired();
+  if (!res.ok) {
+    // Prefer the server's own message from the error envelope
+    const body = (await res.json().catch(() => null)) as ApiError | null;
+    throw new Error(body?.error ?? `API ${res.status}: ${res.statusText}`);
+  }
   const json = await res.json();
   return json.data !== undefined ? json.data : json;
 }
@@ -1,24 +1,33 @@
 import { useEffect } from 'react';
+import type { WSStateFullPayload, WSStatePatchPayload } from '@vayu/shared';
 import { useGameStateStore } from '../stores/gameStateStore';
 import { useWebSocket } from './useWebSocket';
 
+/**
+ * Keeps the game state store in sync with the server using `state:patch`
+ * deltas. On (re)connect, or when a patch arrives out of sequence, the hook
+ * sends `client:resync` with the last applied sequence; the server replies
+ * with the missed patches or a `state:full`.
+ */
 export function useGameState() {
   const store = useGameStateStore();
-  const { subscribe, connected } = useWebSocket();
+  const { subscribe, send, connected } = useWebSocket();
 
   useEffect(() => {
+    const resync = () => {
+      const { sequence, epoch } = useGameStateStore.getState();
+      send('client:resync', { sequence, epoch });
+    };
+
     const unsubs = [
-      subscribe('state:full', (env) => store.setFullState(env.payload as any)),
-      subscribe('state:commander', (env) => store.updateCommander(env.payload as any)),
-      subscribe('state:ship', (env) => store.updateShip(env.payload as any)),
-      subscribe('state:location', (env) => store.updateLocation(env.payload as any)),
-      subscribe('state:materials', (env) => store.updateMaterials(env.payload as any)),
-      subscribe('state:missions', (env) => store.updateMissions(env.payload as any)),
-      subscribe('state:session', (env) => store.updateSession(env.payload as any)),
-      subscribe('state:carrier', (env) => store.updateCarrier(env.payload as any)),
+      subscribe('connection:open', resync),
+      subscribe('state:full', (env) => useGameStateStore.getState().applyFullState(env.payload as WSStateFullPayload)),
+      subscribe('state:patch', (env) => {
+        if (!useGameStateStore.getState().applyStatePatch(env.payload as WSStatePatchPayload)) resync();
+      }),
     ];
     return () => unsubs.forEach((u) => u());
-  }, [subscribe, store]);
+  }, [subscribe, send]);
 
   return { ...store, connected };
 }
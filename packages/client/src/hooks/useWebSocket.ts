@@ -1,23 +1,56 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
+import type { WSCommandErrorCode, WSCommandResultPayload } from '@vayu/shared';
+import { useDeviceStore, withDeviceToken } from '../stores/deviceStore';
+
+/** Close code the server uses when this device's token is revoked. */
+const CLOSE_UNAUTHORIZED = 4401;
 
 interface WSEnvelope {
   type: string;
   payload: unknown;
   timestamp: string;
+  correlationId?: string;
 }
 
 type MessageHandler = (envelope: WSEnvelope) => void;
 
+/** Rejection reason for {@link useWebSocket}'s `command()`. */
+export class CommandError extends Error {
+  constructor(public readonly code: WSCommandErrorCode | 'DISCONNECTED', message: string) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+interface PendingCommand {
+  resolve: (data: unknown) => void;
+  reject: (err: CommandError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+let nextCorrelationId = 0;
+
 export function useWebSocket(url = `ws://${window.location.hostname}:3001`) {
   const wsRef = useRef<WebSocket | null>(null);
   const handlersRef = useRef<Map<string, Set<MessageHandler>>>(new Map());
   const [connected, setConnected] = useState(false);
   const reconnectTimer = useRef<ReturnType<typeof setTimeout>>();
+  const pendingRef = useRef<Map<string, PendingCommand>>(new Map());
+
+  const settle = useCallback((id: string, result: WSCommandResultPayload | CommandError) => {
+    const pending = pendingRef.current.get(id);
+    if (!pending) return;
+    pendingRef.current.delete(id);
+    clearTimeout(pending.timer);
+    if (result instanceof CommandError) pending.reject(result);
+    else if (result.ok) pending.resolve(result.data);
+    else pending.reject(new CommandError(result.error?.code ?? 'INTERNAL', result.error?.message ?? 'Command failed'));
+  }, []);
 
   const connect = useCallback(() => {
     if (wsRef.current?.readyState === WebSocket.OPEN) return;
 
-    const ws = new WebSocket(url);
+    const ws = new WebSocket(withDeviceToken(url));
 
     ws.onopen = () => {
       setConnected(true);
@@ -27,6 +60,9 @@ export function useWebSocket(url = `ws://${window.location.hostname}:3001`) {
     ws.onmessage = (ev) => {
       try {
         const envelope: WSEnvelope = JSON.parse(ev.data);
+        if (envelope.type === 'command:result' && envelope.correlationId) {
+          settle(envelope.correlationId, envelope.payload as WSCommandResultPayload);
+        }
         // Fire specific handlers
         const specific = handlersRef.current.get(envelope.type);
         specific?.forEach((h) => h(envelope));
@@ -36,8 +72,12 @@ export function useWebSocket(url = `ws://${window.location.hostname}:3001`) {
       } catch { /* ignore bad messages */ }
     };
 
-    ws.onclose = () => {
+    ws.onclose = (ev) => {
       setConnected(false);
+      if (ev.code === CLOSE_UNAUTHORIZED) useDeviceStore.getState().unpaired();
+      for (const id of [...pendingRef.current.keys()]) {
+        settle(id, new CommandError('DISCONNECTED', 'WebSocket disconnected'));
+      }
       console.log('[WS] Disconnected, reconnecting in 3s...');
       reconnectTimer.current = setTimeout(connect, 3000);
     };
@@ -45,7 +85,7 @@ export function useWebSocket(url = `ws://${window.location.hostname}:3001`) {
     ws.onerror = () => ws.close();
 
     wsRef.current = ws;
-  }, [url]);
+  }, [url, settle]);
 
   useEffect(() => {
     connect();
@@ -69,5 +109,36 @@ export function useWebSocket(url = `ws://${window.location.hostname}:3001`) {
     }
   }, []);
 
-  return { connected, subscribe, send };
+  /**
+   * Run a server command over the socket (`client:command`) and resolve
+   * with its result. Rejects with a {@link CommandError} on failure, on
+   * disconnect, or if no reply arrives within `timeoutMs`.
+   */
+  const command = useCallback(<T = unknown>(
+    name: string,
+    args: Record<string, unknown> = {},
+    timeoutMs = 15_000,
+  ): Promise<T> => {
+    const ws = wsRef.current;
+    if (ws?.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new CommandError('DISCONNECTED', 'WebSocket not connected'));
+    }
+
+    const correlationId = `cmd-${++nextCorrelationId}`;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(
+        () => settle(correlationId, new CommandError('TIMEOUT', `No reply to ${name} after ${timeoutMs}ms`)),
+        timeoutMs,
+      );
+      pendingRef.current.set(correlationId, { resolve: resolve as (data: unknown) => void, reject, timer });
+      ws.send(JSON.stringify({
+        type: 'client:command',
+        payload: { command: name, args },
+        timestamp: new Date().toISOString(),
+        correlationId,
+      }));
+    });
+  }, [settle]);
+
+  return { connected, subscribe, send, command };
 }
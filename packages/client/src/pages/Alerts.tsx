@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import type { AlertEvent, AlertRule, AlertRuleUpdateRequest } from '@vayu/shared';
 import { useApi, apiFetch } from '../hooks/useApi';
 import { useWebSocket } from '../hooks/useWebSocket';
 import HoloPanel from '../components/common/HoloPanel';
@@ -11,25 +12,6 @@ const severityVariant = (s: string) =>
 
 const severityColor: Record<string, string> = { info: '#4488cc', warning: '#ffaa00', critical: '#ff4444' };
 
-interface AlertRule {
-  id: string;
-  name: string;
-  enabled: boolean;
-  condition: string;
-  threshold?: number;
-  tts?: boolean;
-}
-
-interface AlertEvent {
-  id: string;
-  ruleId: string;
-  ruleName: string;
-  message: string;
-  severity: 'info' | 'warning' | 'critical';
-  timestamp: string;
-  acknowledged: boolean;
-}
-
 export default function Alerts() {
   const { data, loading, fetch: load } = useApi<any>('/alerts');
   const [history, setHistory] = useState<AlertEvent[]>([]);
@@ -61,7 +43,7 @@ export default function Alerts() {
   const toggleRule = async (id: string, enabled: boolean) => {
     await apiFetch(`/alerts/rules/${id}`, {
       method: 'PUT',
-      body: JSON.stringify({ enabled }),
+      body: JSON.stringify({ enabled } satisfies AlertRuleUpdateRequest),
     });
     await load();
   };
@@ -69,7 +51,7 @@ export default function Alerts() {
   const updateThreshold = async (id: string, threshold: number) => {
     await apiFetch(`/alerts/rules/${id}`, {
       method: 'PUT',
-      body: JSON.stringify({ threshold }),
+      body: JSON.stringify({ threshold } satisfies AlertRuleUpdateRequest),
     });
     await load();
   };
@@ -141,11 +123,11 @@ export default function Alerts() {
                         value={r.threshold}
                         onChange={(e) => updateThreshold(r.id, parseInt(e.target.value) || 0)}
                         style={{
-                          width: 50, background: 'var(--color-bg-tertiary)', border: '1px solid var(--color-border)',
+                          width: r.condition === 'high_value_scan' ? 80 : 50, background: 'var(--color-bg-tertiary)', border: '1px solid var(--color-border)',
                           color: '#fff', padding: '2px 4px', fontSize: 11, fontFamily: 'var(--font-mono)',
                         }}
                       />
-                      {r.condition === 'mission_expiring' ? 'h' : '%'}
+                      {r.condition === 'mission_expiring' ? 'h' : r.condition === 'high_value_scan' ? ' CR' : '%'}
                     </span>
                   )}
                 </div>
@@ -1,15 +1,63 @@
 import { useEffect, useState } from 'react';
+import type { WSJournalBacklogPayload } from '@vayu/shared';
 import { useApi, apiFetch } from '../hooks/useApi';
+import { useWebSocket } from '../hooks/useWebSocket';
 import HoloPanel from '../components/common/HoloPanel';
 import HoloButton from '../components/common/HoloButton';
+import HoloProgress from '../components/common/HoloProgress';
+import HoloTable from '../components/common/HoloTable';
+
+interface CommanderSummary {
+  fid: string;
+  name: string;
+  lastSeen: string;
+  active: boolean;
+  events: number;
+  sessions: number;
+}
+
+interface SessionRow {
+  id: number;
+  startTime: string;
+  endTime: string | null;
+  jumps: number;
+  distance: number;
+}
 
 export default function Archiver() {
   const { data, loading, fetch: load } = useApi<any>('/archiver');
+  const { data: importProgress, fetch: loadImport, setData: setImportProgress } = useApi<WSJournalBacklogPayload | null>('/journal/import');
   const [backing, setBacking] = useState(false);
-  useEffect(() => { load(); }, [load]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const { data: commanders, fetch: loadCommanders } = useApi<CommanderSummary[]>('/commanders');
+  const [commanderFid, setCommanderFid] = useState('');
+  const [sessions, setSessions] = useState<SessionRow[]>([]);
+  const { subscribe } = useWebSocket();
+  useEffect(() => { load(); loadImport(); loadCommanders(); }, [load, loadImport, loadCommanders]);
+
+  // Follow the active commander until another one is picked
+  useEffect(() => subscribe('commander:switched', () => loadCommanders()), [subscribe, loadCommanders]);
+  useEffect(() => {
+    if (!commanderFid && commanders?.length) setCommanderFid((commanders.find((c) => c.active) ?? commanders[0]).fid);
+  }, [commanders, commanderFid]);
+  useEffect(() => {
+    if (!commanderFid) return;
+    apiFetch<SessionRow[]>(`/journal/sessions?fid=${encodeURIComponent(commanderFid)}&limit=20`).then(setSessions).catch(() => setSessions([]));
+  }, [commanderFid]);
+  const selectedCommander = commanders?.find((c) => c.fid === commanderFid);
+
+  // Live import progress
+  useEffect(() => subscribe('journal:backlog', (env) => setImportProgress(env.payload as WSJournalBacklogPayload)), [subscribe, setImportProgress]);
 
   const backup = async () => { setBacking(true); try { await apiFetch('/archiver/backup', { method: 'POST' }); await load(); } finally { setBacking(false); } };
 
+  const startImport = async (full: boolean) => {
+    setImportError(null);
+    try { await apiFetch('/journal/import', { method: 'POST', body: JSON.stringify({ full }) }); }
+    catch (e) { setImportError(e instanceof Error ? e.message : 'Import failed'); }
+  };
+  const importing = importProgress?.status === 'running';
+
   return (
     <div className="page">
       <h1 style={{ fontFamily: 'var(--font-display)', color: 'var(--color-accent-bright)', letterSpacing: 3, marginBottom: 20 }}>JOURNAL ARCHIVER</h1>
@@ -37,6 +85,71 @@ export default function Archiver() {
               </div>
             </HoloPanel>
           </div>
+          <HoloPanel title="Journal History Import" style={{ marginBottom: 20 }}>
+            <div style={{ padding: 8, fontSize: 13, lineHeight: 1.8 }}>
+              <p style={{ color: 'var(--color-text-muted)', margin: '0 0 8px' }}>
+                Imports every journal in the journal and backup directories into the history database. Re-running only reads new or changed files.
+              </p>
+              {importProgress && (
+                <>
+                  <HoloProgress
+                    value={importProgress.filesDone}
+                    max={importProgress.filesTotal || 1}
+                    label={importing ? `IMPORTING ${importProgress.currentFile ?? ''}` : importProgress.status.toUpperCase()}
+                    color={importProgress.status === 'error' ? 'var(--color-danger)' : 'var(--color-accent)'}
+                    style={{ marginBottom: 8 }}
+                  />
+                  <div><span style={{ color: 'var(--color-text-muted)' }}>Files:</span> {importProgress.filesDone} / {importProgress.filesTotal}</div>
+                  <div><span style={{ color: 'var(--color-text-muted)' }}>Events:</span> {importProgress.eventsStored.toLocaleString()} new of {importProgress.eventsRead.toLocaleString()} read</div>
+                  {importProgress.finishedAt && <div><span style={{ color: 'var(--color-text-muted)' }}>Finished:</span> {new Date(importProgress.finishedAt).toLocaleString()}</div>}
+                  {importProgress.error && <div style={{ color: '#ff4444' }}>{importProgress.error}</div>}
+                </>
+              )}
+              {importError && <div style={{ color: '#ff4444' }}>{importError}</div>}
+            </div>
+            <div style={{ padding: '0 8px 8px', display: 'flex', gap: 8 }}>
+              <HoloButton onClick={() => startImport(false)} disabled={importing}>{importing ? 'Importing...' : 'Import History'}</HoloButton>
+              <HoloButton variant="secondary" onClick={() => startImport(true)} disabled={importing}>Full Re-import</HoloButton>
+            </div>
+          </HoloPanel>
+          <HoloPanel title="Commander History" style={{ marginBottom: 20 }}>
+            {commanders && commanders.length > 0 ? (
+              <div style={{ padding: 8 }}>
+                <select
+                  value={commanderFid}
+                  onChange={(e) => setCommanderFid(e.target.value)}
+                  style={{
+                    width: '100%', padding: '6px 8px', fontSize: 12, marginBottom: 8,
+                    background: 'var(--color-bg-tertiary)', color: '#fff',
+                    border: '1px solid var(--color-border)', borderRadius: 2,
+                    fontFamily: 'var(--font-mono)',
+                  }}
+                >
+                  {commanders.map((c) => (
+                    <option key={c.fid} value={c.fid}>CMDR {c.name} ({c.fid}){c.active ? ' — active' : ''}</option>
+                  ))}
+                </select>
+                {selectedCommander && (
+                  <div style={{ fontSize: 13, lineHeight: 1.8, marginBottom: 8 }}>
+                    <span style={{ color: 'var(--color-text-muted)' }}>Sessions:</span> {selectedCommander.sessions.toLocaleString()}
+                    {' · '}<span style={{ color: 'var(--color-text-muted)' }}>Events:</span> {selectedCommander.events.toLocaleString()}
+                    {' · '}<span style={{ color: 'var(--color-text-muted)' }}>Last Seen:</span> {new Date(selectedCommander.lastSeen).toLocaleString()}
+                  </div>
+                )}
+                <HoloTable<SessionRow>
+                  columns={[
+                    { key: 'start', header: 'Started', render: (r) => new Date(r.startTime).toLocaleString() },
+                    { key: 'end', header: 'Ended', render: (r) => (r.endTime ? new Date(r.endTime).toLocaleString() : '—') },
+                    { key: 'jumps', header: 'Jumps', align: 'right', render: (r) => r.jumps },
+                    { key: 'distance', header: 'Distance', align: 'right', render: (r) => `${r.distance.toFixed(1)} ly` },
+                  ]}
+                  data={sessions}
+                  rowKey={(r) => String(r.id)}
+                  emptyMessage="No sessions recorded"
+                />
+              </div>
+            ) : <p style={{ color: 'var(--color-text-muted)', fontSize: 13 }}>No commanders recorded yet</p>}
+          </HoloPanel>
           <HoloPanel title="Backup History">
             {data.history?.length > 0 ? data.history.map((h: any, i: number) => (
               <div key={i} style={{ display: 'flex', justifyContent: 'space-between', padding: '8px 0', borderBottom: '1px solid var(--color-border)', fontSize: 13 }}>
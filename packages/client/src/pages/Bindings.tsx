@@ -20,6 +20,7 @@
 import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useGamepad } from '../hooks/useGamepad';
 import { useWebSocket } from '../hooks/useWebSocket';
+import { authHeaders } from '../stores/deviceStore';
 import { InputMonitor } from '../components/bindings/InputMonitor';
 import { BindingEditor } from '../components/bindings/BindingEditor';
 import { BindingWizard } from '../components/bindings/wizard/BindingWizard';
@@ -1423,9 +1424,9 @@ export default function Bindings() {
     try {
       // Fetch all data in parallel
       const [bindingsRes, conflictsRes, unboundRes] = await Promise.all([
-        fetch('/api/bindings'),
-        fetch('/api/bindings/conflicts'),
-        fetch('/api/bindings/unbound'),
+        fetch('/api/bindings', { headers: authHeaders() }),
+        fetch('/api/bindings/conflicts', { headers: authHeaders() }),
+        fetch('/api/bindings/unbound', { headers: authHeaders() }),
       ]);
 
       if (!bindingsRes.ok) throw new Error(`Server returned ${bindingsRes.status}`);
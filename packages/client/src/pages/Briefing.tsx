@@ -16,6 +16,7 @@
  */
 
 import { useEffect, useState, useCallback } from 'react';
+import { authHeaders } from '../stores/deviceStore';
 
 // ---------------------------------------------------------------------------
 // Types (mirrors server BriefingData)
@@ -648,7 +649,7 @@ export default function Briefing() {
     setError(null);
 
     try {
-      const res = await fetch('/api/dashboard/briefing');
+      const res = await fetch('/api/dashboard/briefing', { headers: authHeaders() });
       if (!res.ok) {
         throw new Error(`Server returned ${res.status}`);
       }
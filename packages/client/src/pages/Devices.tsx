@@ -0,0 +1,155 @@
+import { useEffect, useState, type CSSProperties } from 'react';
+import type { DevicePairingCode, DeviceScope, PairedDevice } from '@vayu/shared';
+import { useApi, apiFetch } from '../hooks/useApi';
+import { useWebSocket } from '../hooks/useWebSocket';
+import { useDeviceStore } from '../stores/deviceStore';
+import HoloPanel from '../components/common/HoloPanel';
+import HoloButton from '../components/common/HoloButton';
+import HoloBadge from '../components/common/HoloBadge';
+import HoloTable from '../components/common/HoloTable';
+
+/** Scope presets offered when pairing or editing a device. */
+const PRESETS: Array<{ id: string; label: string; scopes: DeviceScope[]; description: string }> = [
+  { id: 'read', label: 'Read-only', scopes: ['read'], description: 'Sees everything, changes nothing.' },
+  { id: 'control', label: 'Control', scopes: ['read', 'control'], description: 'Can send COVAS commands and keypresses, edit bindings, control music and alerts.' },
+  { id: 'admin', label: 'Full access', scopes: ['read', 'control', 'admin'], description: 'Also settings, plugins and pairing other devices.' },
+];
+
+const presetOf = (scopes: DeviceScope[]) =>
+  scopes.includes('admin') ? 'admin' : scopes.includes('control') ? 'control' : 'read';
+
+const selectStyle: CSSProperties = {
+  background: 'var(--color-bg-tertiary)', border: '1px solid var(--color-border)', color: '#fff',
+  padding: '4px 8px', fontSize: 12, fontFamily: 'var(--font-mono)', borderRadius: 2,
+};
+
+function formatSeen(iso: string | null): string {
+  if (!iso) return '—';
+  const minutes = Math.round((Date.now() - Date.parse(iso)) / 60_000);
+  if (minutes < 2) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return new Date(iso).toLocaleString();
+}
+
+export default function Devices() {
+  const { data: devices, loading, error, fetch: load } = useApi<PairedDevice[]>('/devices');
+  const identity = useDeviceStore((s) => s.identity);
+  const [preset, setPreset] = useState('read');
+  const [pairing, setPairing] = useState<DevicePairingCode | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const { subscribe } = useWebSocket();
+
+  useEffect(() => {
+    load();
+    apiFetch<DevicePairingCode | null>('/devices/pairing').then(setPairing).catch(() => {});
+  }, [load]);
+
+  useEffect(() => subscribe('device:paired', () => { setPairing(null); load(); }), [subscribe, load]);
+  useEffect(() => subscribe('device:revoked', () => load()), [subscribe, load]);
+
+  // Countdown for the active code
+  useEffect(() => {
+    if (!pairing) return;
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, [pairing]);
+
+  const remaining = pairing ? Math.max(0, Math.round((Date.parse(pairing.expiresAt) - now) / 1000)) : 0;
+  const codeActive = pairing !== null && remaining > 0;
+
+  const createCode = async () => {
+    const scopes = PRESETS.find((p) => p.id === preset)!.scopes;
+    setPairing(await apiFetch<DevicePairingCode>('/devices/pairing', { method: 'POST', body: JSON.stringify({ scopes }) }));
+    setNow(Date.now());
+  };
+
+  const cancelCode = async () => {
+    await apiFetch('/devices/pairing', { method: 'DELETE' });
+    setPairing(null);
+  };
+
+  const changeScopes = async (id: string, presetId: string) => {
+    const scopes = PRESETS.find((p) => p.id === presetId)!.scopes;
+    await apiFetch(`/devices/${id}`, { method: 'PATCH', body: JSON.stringify({ scopes }) });
+    await load();
+  };
+
+  const revoke = async (device: PairedDevice) => {
+    if (!confirm(`Revoke "${device.name}"? It will have to pair again.`)) return;
+    await apiFetch(`/devices/${device.id}`, { method: 'DELETE' });
+    await load();
+  };
+
+  return (
+    <div className="page">
+      <h1 style={{ fontFamily: 'var(--font-display)', color: 'var(--color-accent-bright)', letterSpacing: 3, marginBottom: 8, fontSize: 28 }}>DEVICES</h1>
+      <p style={{ color: 'var(--color-text-muted)', fontSize: 15, marginBottom: 24 }}>
+        Tablets and phones on your network that may use VAYU as a second screen. This PC never needs pairing; every other device does.
+      </p>
+
+      <HoloPanel title="Pair a Device" style={{ marginBottom: 20 }}>
+        {codeActive ? (
+          <div style={{ textAlign: 'center', padding: '12px 0' }}>
+            <div style={{ fontSize: 12, color: 'var(--color-text-muted)', marginBottom: 8 }}>
+              Open VAYU on the new device and enter this code:
+            </div>
+            <div style={{ fontFamily: 'var(--font-mono)', fontSize: 48, letterSpacing: 12, color: 'var(--color-accent-bright)' }}>
+              {pairing.code}
+            </div>
+            <div style={{ fontSize: 12, color: 'var(--color-text-muted)', margin: '8px 0 12px' }}>
+              {PRESETS.find((p) => p.id === presetOf(pairing.scopes))!.label} · expires in {Math.floor(remaining / 60)}:{String(remaining % 60).padStart(2, '0')}
+            </div>
+            <HoloButton variant="secondary" onClick={cancelCode}>Cancel</HoloButton>
+          </div>
+        ) : (
+          <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
+            <select value={preset} onChange={(e) => setPreset(e.target.value)} style={selectStyle}>
+              {PRESETS.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+            <span style={{ fontSize: 12, color: 'var(--color-text-muted)', flex: 1 }}>
+              {PRESETS.find((p) => p.id === preset)!.description}
+            </span>
+            <HoloButton onClick={createCode}>Create Pairing Code</HoloButton>
+          </div>
+        )}
+      </HoloPanel>
+
+      <HoloPanel title="Paired Devices">
+        {loading && !devices && <p style={{ color: 'var(--color-text-muted)' }}>Loading...</p>}
+        {error && <p style={{ color: 'var(--color-danger)' }}>{error}</p>}
+        {devices && (
+          <HoloTable
+            data={devices}
+            rowKey={(d) => d.id}
+            emptyMessage="No devices paired yet"
+            columns={[
+              {
+                key: 'name', header: 'Device', render: (d) => (
+                  <>
+                    {d.name}
+                    {identity?.device?.id === d.id && <HoloBadge variant="info" style={{ marginLeft: 8 }}>This device</HoloBadge>}
+                  </>
+                ),
+              },
+              {
+                key: 'scopes', header: 'Access', render: (d) => (
+                  <select value={presetOf(d.scopes)} onChange={(e) => changeScopes(d.id, e.target.value)} style={selectStyle}>
+                    {PRESETS.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
+                  </select>
+                ),
+              },
+              { key: 'lastSeenAt', header: 'Last Seen', render: (d) => formatSeen(d.lastSeenAt) },
+              { key: 'lastAddress', header: 'Address', render: (d) => <code>{d.lastAddress?.replace(/^::ffff:/, '') ?? '—'}</code> },
+              { key: 'pairedAt', header: 'Paired', render: (d) => new Date(d.pairedAt).toLocaleDateString() },
+              {
+                key: 'actions', header: '', align: 'right', render: (d) => (
+                  <HoloButton variant="danger" onClick={() => revoke(d)} style={{ padding: '2px 10px', fontSize: 10 }}>Revoke</HoloButton>
+                ),
+              },
+            ]}
+          />
+        )}
+      </HoloPanel>
+    </div>
+  );
+}
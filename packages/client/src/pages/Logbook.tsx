@@ -1,35 +1,16 @@
 import { useEffect, useState } from 'react';
+import type { LogbookCreateRequest, LogbookEntry, LogbookStats, LogbookUpdateRequest } from '@vayu/shared';
 import { useApi, apiFetch } from '../hooks/useApi';
 import HoloPanel from '../components/common/HoloPanel';
 import HoloButton from '../components/common/HoloButton';
 import HoloBadge from '../components/common/HoloBadge';
 
-interface LogEntry {
-  id: string;
-  content: string;
-  timestamp: string;
-  system: string;
-  body: string | null;
-  station: string | null;
-  ship: string;
-  shipName: string;
-  tags: string[];
-  source: 'text' | 'voice';
-}
-
-interface LogStats {
-  totalEntries: number;
-  voiceEntries: number;
-  textEntries: number;
-  systemsCovered: number;
-}
-
 export default function Logbook() {
   const { data, loading, fetch: load } = useApi<any>('/logbook');
   const [newEntry, setNewEntry] = useState('');
   const [newTags, setNewTags] = useState('');
   const [search, setSearch] = useState('');
-  const [searchResults, setSearchResults] = useState<LogEntry[] | null>(null);
+  const [searchResults, setSearchResults] = useState<LogbookEntry[] | null>(null);
   const [saving, setSaving] = useState(false);
   const [searching, setSearching] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -39,15 +20,15 @@ export default function Logbook() {
 
   useEffect(() => { load(); }, [load]);
 
-  const entries: LogEntry[] = data?.entries || [];
-  const stats: LogStats = data?.stats || { totalEntries: 0, voiceEntries: 0, textEntries: 0, systemsCovered: 0 };
+  const entries: LogbookEntry[] = data?.entries || [];
+  const stats: LogbookStats = data?.stats || { totalEntries: 0, voiceEntries: 0, textEntries: 0, systemsCovered: 0 };
 
   const save = async () => {
     if (!newEntry.trim()) return;
     setSaving(true);
     try {
       const tags = newTags.trim() ? newTags.split(',').map(t => t.trim()).filter(Boolean) : [];
-      await apiFetch('/logbook', { method: 'POST', body: JSON.stringify({ content: newEntry, source: 'text', tags }) });
+      await apiFetch('/logbook', { method: 'POST', body: JSON.stringify({ content: newEntry, source: 'text', tags } satisfies LogbookCreateRequest) });
       setNewEntry('');
       setNewTags('');
       await load();
@@ -62,7 +43,7 @@ export default function Logbook() {
     await load();
   };
 
-  const startEdit = (entry: LogEntry) => {
+  const startEdit = (entry: LogbookEntry) => {
     setEditingId(entry.id);
     setEditContent(entry.content);
     setEditTags(entry.tags.join(', '));
@@ -71,7 +52,7 @@ export default function Logbook() {
   const saveEdit = async () => {
     if (!editingId || !editContent.trim()) return;
     const tags = editTags.trim() ? editTags.split(',').map(t => t.trim()).filter(Boolean) : [];
-    await apiFetch(`/logbook/${editingId}`, { method: 'PUT', body: JSON.stringify({ content: editContent, tags }) });
+    await apiFetch(`/logbook/${editingId}`, { method: 'PUT', body: JSON.stringify({ content: editContent, tags } satisfies LogbookUpdateRequest) });
     setEditingId(null);
     setEditContent('');
     setEditTags('');
@@ -91,7 +72,7 @@ export default function Logbook() {
     }
     setSearching(true);
     try {
-      const results = await apiFetch<LogEntry[]>(`/logbook/search?q=${encodeURIComponent(search)}`);
+      const results = await apiFetch<LogbookEntry[]>(`/logbook/search?q=${encodeURIComponent(search)}`);
       setSearchResults(Array.isArray(results) ? results : []);
     } catch {
       setSearchResults([]);
@@ -106,7 +87,7 @@ export default function Logbook() {
     }
     setSearching(true);
     try {
-      const results = await apiFetch<LogEntry[]>(`/logbook/system/${encodeURIComponent(system)}`);
+      const results = await apiFetch<LogbookEntry[]>(`/logbook/system/${encodeURIComponent(system)}`);
       setSearchResults(Array.isArray(results) ? results : []);
     } catch {
       setSearchResults([]);
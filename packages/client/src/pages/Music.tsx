@@ -1,5 +1,6 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { useApi, apiFetch } from '../hooks/useApi';
+import { withDeviceToken } from '../stores/deviceStore';
 import HoloPanel from '../components/common/HoloPanel';
 import HoloButton from '../components/common/HoloButton';
 import HoloProgress from '../components/common/HoloProgress';
@@ -20,7 +21,7 @@ export default function Music() {
   const isPlaying = data?.playing ?? false;
 
   // Compute the stream URL declaratively
-  const streamUrl = np?.id ? `/api/music/stream/${np.id}` : '';
+  const streamUrl = np?.id ? withDeviceToken(`/api/music/stream/${np.id}`) : '';
 
   // Sync volume from server state
   useEffect(() => {
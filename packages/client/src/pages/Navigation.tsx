@@ -1,6 +1,266 @@
-import { useEffect } from 'react';
-import { useApi } from '../hooks/useApi';
+import { useEffect, useState, type CSSProperties } from 'react';
+import type {
+  ExplorationOverview,
+  ExploredSystem,
+  LocationState,
+  NavRouteProgress,
+  NearestServiceResult,
+  PlottedRoute,
+  StationServiceKind,
+  SystemBody,
+  UnsoldExplorationData,
+} from '@vayu/shared';
+import { apiFetch, useApi } from '../hooks/useApi';
+import { useWebSocket } from '../hooks/useWebSocket';
 import HoloPanel from '../components/common/HoloPanel';
+import HoloProgress from '../components/common/HoloProgress';
+import HoloBadge from '../components/common/HoloBadge';
+import HoloButton from '../components/common/HoloButton';
+
+function formatEta(eta: string | null, averageJumpSeconds: number | null): string {
+  if (!eta) return 'Calculating...';
+  const minutes = Math.max(0, Math.round((new Date(eta).getTime() - Date.now()) / 60000));
+  const pace = averageJumpSeconds ? ` (${averageJumpSeconds}s/jump)` : '';
+  return minutes < 60 ? `${minutes} min${pace}` : `${Math.floor(minutes / 60)}h ${minutes % 60}m${pace}`;
+}
+
+function RoutePanel() {
+  const { subscribe } = useWebSocket();
+  const { data: route, fetch: load, setData } = useApi<NavRouteProgress | null>('/navigation/route');
+
+  useEffect(() => { load(); }, [load]);
+  useEffect(() => subscribe('nav:route', (env) => setData(env.payload as NavRouteProgress)), [subscribe, setData]);
+  useEffect(() => subscribe('nav:routeClear', () => setData(null)), [subscribe, setData]);
+  useEffect(() => subscribe('commander:switched', () => load()), [subscribe, load]);
+
+  if (!route) {
+    return (
+      <HoloPanel title="Route" style={{ marginBottom: 20 }}>
+        <p style={{ color: 'var(--color-text-muted)', fontSize: 13 }}>No route plotted</p>
+      </HoloPanel>
+    );
+  }
+
+  const done = route.jumpCount - route.remainingJumps;
+  return (
+    <HoloPanel title={`Route — ${route.source} to ${route.destination}`} style={{ marginBottom: 20 }}>
+      <div className="grid-4" style={{ gap: 12, marginBottom: 12 }}>
+        {[['Jumps Left', route.remainingJumps], ['Distance Left', `${route.remainingDistance.toFixed(1)} LY`], ['Next', route.next ? `${route.next.system} (${route.next.starClass})` : 'Arrived'], ['ETA', route.next ? formatEta(route.eta, route.averageJumpSeconds) : '—']].map(([l, v]) => (
+          <div key={l as string} style={{ textAlign: 'center', padding: 8, background: 'var(--color-bg-tertiary)', borderRadius: 4 }}><div style={{ fontSize: 14, color: 'var(--color-accent-bright)', fontFamily: 'var(--font-display)' }}>{v}</div><div style={{ fontSize: 10, color: 'var(--color-text-muted)', textTransform: 'uppercase' }}>{l}</div></div>
+        ))}
+      </div>
+      <HoloProgress value={done} max={route.jumpCount} label={`${done} / ${route.jumpCount} JUMPS · ${route.totalDistance.toFixed(1)} LY`} color="var(--color-accent)" style={{ marginBottom: 12 }} />
+      {route.offRoute && <p style={{ color: 'var(--color-warning)', fontSize: 13, marginBottom: 8 }}>Off route — jump to {route.next?.system} to rejoin</p>}
+      <div style={{ maxHeight: 260, overflowY: 'auto' }}>
+        {route.waypoints.map((w, i) => (
+          <div key={w.systemAddress} style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0', borderBottom: '1px solid var(--color-border)', fontSize: 13, color: w.jumped ? 'var(--color-text-muted)' : i === route.currentIndex + 1 ? 'var(--color-accent-bright)' : undefined }}>
+            <span>{w.jumped ? '✓' : i === route.currentIndex + 1 ? '›' : '·'} {w.system} <span style={{ color: 'var(--color-text-muted)' }}>{w.starClass}</span></span>
+            <span style={{ color: 'var(--color-text-muted)' }}>{i === 0 ? 'Start' : `${w.jumpDistance.toFixed(2)} LY`}</span>
+          </div>
+        ))}
+      </div>
+    </HoloPanel>
+  );
+}
+
+/** Plots routes over the local galaxy database; COVAS-plotted routes show up here too. */
+function RoutePlotterPanel() {
+  const { subscribe } = useWebSocket();
+  const [to, setTo] = useState('');
+  const [neutron, setNeutron] = useState(false);
+  const [whiteDwarf, setWhiteDwarf] = useState(false);
+  const [route, setRoute] = useState<PlottedRoute | null>(null);
+  const [plotting, setPlotting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribe('galaxy:route', (env) => setRoute(env.payload as PlottedRoute)), [subscribe]);
+
+  const plot = async () => {
+    if (!to.trim()) return;
+    setPlotting(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({ to: to.trim(), neutron: String(neutron), whiteDwarf: String(whiteDwarf) });
+      setRoute(await apiFetch<PlottedRoute>(`/galaxy/route?${query}`));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Plotting failed');
+    } finally {
+      setPlotting(false);
+    }
+  };
+  const copy = (text: string) => { navigator.clipboard?.writeText(text).catch(() => {}); };
+
+  return (
+    <HoloPanel title="Route Plotter" style={{ marginBottom: 20 }}>
+      <div style={{ display: 'flex', gap: 8, marginBottom: 12, flexWrap: 'wrap', alignItems: 'center' }}>
+        <input
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && plot()}
+          placeholder="Destination system"
+          style={{ ...selectStyle, flex: 1, minWidth: 180, padding: '6px 10px', fontSize: 13 }}
+        />
+        <label style={{ fontSize: 12 }}><input type="checkbox" checked={neutron} onChange={(e) => setNeutron(e.target.checked)} style={{ marginRight: 4 }} />Neutron</label>
+        <label style={{ fontSize: 12 }}><input type="checkbox" checked={whiteDwarf} onChange={(e) => setWhiteDwarf(e.target.checked)} style={{ marginRight: 4 }} />White dwarf</label>
+        <HoloButton onClick={plot} disabled={plotting}>{plotting ? '...' : 'Plot'}</HoloButton>
+      </div>
+      {error && <p style={{ color: 'var(--color-danger)', fontSize: 13 }}>{error}</p>}
+      {route && (
+        <>
+          <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8, fontSize: 12, color: 'var(--color-text-muted)', marginBottom: 8 }}>
+            <span>{route.source} to {route.destination} · {route.jumpCount} jumps · {route.totalDistance.toFixed(1)} LY ({route.directDistance.toFixed(1)} direct) · {route.refuels} scoops{route.supercharges > 0 ? ` · ${route.supercharges} supercharged` : ''}</span>
+            <HoloButton onClick={() => copy(route.waypoints.slice(1).map((w) => w.system).join('\n'))}>Copy all</HoloButton>
+          </div>
+          <div style={{ maxHeight: 260, overflowY: 'auto' }}>
+            {route.waypoints.map((w, i) => (
+              <div key={w.systemAddress} style={{ display: 'flex', justifyContent: 'space-between', gap: 8, padding: '4px 0', borderBottom: '1px solid var(--color-border)', fontSize: 13 }}>
+                <span style={{ cursor: 'pointer' }} title="Copy for the galaxy map" onClick={() => copy(w.system)}>
+                  {w.system} <span style={{ color: 'var(--color-text-muted)' }}>{w.starClass || '?'}</span>
+                </span>
+                <span style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+                  {w.supercharged && <HoloBadge variant="info">{w.supercharged === 'neutron' ? 'Neutron' : 'White dwarf'}</HoloBadge>}
+                  {w.refuel && <HoloBadge variant="success">Scoop</HoloBadge>}
+                  <span style={{ color: 'var(--color-text-muted)' }}>{i === 0 ? 'Start' : `${w.jumpDistance.toFixed(2)} LY · ${w.fuelLeft.toFixed(1)}t left`}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </HoloPanel>
+  );
+}
+
+function formatValue(credits: number): string {
+  if (credits >= 1_000_000) return `${(credits / 1_000_000).toFixed(2)}M CR`;
+  return credits >= 1000 ? `${Math.round(credits / 1000)}K CR` : `${credits} CR`;
+}
+
+function describeBody(body: SystemBody): string {
+  if (body.starType) return `Class ${body.starType}${body.subclass ?? ''} star`;
+  return [body.terraformState, body.planetClass ?? body.bodyType].filter(Boolean).join(' ');
+}
+
+function ExplorationPanel() {
+  const { subscribe } = useWebSocket();
+  const { data, fetch: load, setData } = useApi<ExplorationOverview>('/exploration');
+
+  useEffect(() => { load(); }, [load]);
+  // The system being scanned is the one the commander is in
+  useEffect(() => subscribe('exploration:system', (env) => setData((prev) => prev && { ...prev, current: env.payload as ExploredSystem })), [subscribe, setData]);
+  useEffect(() => subscribe('exploration:unsold', (env) => setData((prev) => prev && { ...prev, unsold: env.payload as UnsoldExplorationData })), [subscribe, setData]);
+  useEffect(() => subscribe('commander:switched', () => load()), [subscribe, load]);
+
+  if (!data) return null;
+  const { current, worthMapping, unsold } = data;
+  return (
+    <HoloPanel title="Exploration" style={{ marginBottom: 20 }}>
+      <div className="grid-4" style={{ gap: 12, marginBottom: 12 }}>
+        {[['Unsold Bodies', unsold.bodies], ['Systems', unsold.systems], ['First Discoveries', unsold.firstDiscoveries], ['Est. Value', formatValue(unsold.estimatedValue)]].map(([l, v]) => (
+          <div key={l as string} style={{ textAlign: 'center', padding: 8, background: 'var(--color-bg-tertiary)', borderRadius: 4 }}><div style={{ fontSize: 14, color: 'var(--color-accent-bright)', fontFamily: 'var(--font-display)' }}>{v}</div><div style={{ fontSize: 10, color: 'var(--color-text-muted)', textTransform: 'uppercase' }}>{l}</div></div>
+        ))}
+      </div>
+      {unsold.lastLost && <p style={{ color: 'var(--color-danger)', fontSize: 13, marginBottom: 8 }}>Lost {unsold.lastLost.bodies} unsold bodies in {unsold.lastLost.systems} systems on {new Date(unsold.lastLost.at).toLocaleString()}</p>}
+      {!current ? <p style={{ color: 'var(--color-text-muted)', fontSize: 13 }}>No bodies scanned in this system</p> : (
+        <>
+          {current.bodyCount !== null && <HoloProgress value={current.scanned} max={current.bodyCount} label={`${current.name} · ${current.scanned} / ${current.bodyCount} BODIES SCANNED`} color="var(--color-accent)" style={{ marginBottom: 12 }} />}
+          {worthMapping.length > 0 && (
+            <div style={{ marginBottom: 12, fontSize: 13 }}>
+              <div style={{ fontSize: 10, color: 'var(--color-text-muted)', textTransform: 'uppercase', marginBottom: 4 }}>Worth Mapping</div>
+              {worthMapping.map((b) => (
+                <div key={b.bodyId} style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0', color: 'var(--color-accent-bright)' }}>
+                  <span>{b.name} <span style={{ color: 'var(--color-text-muted)' }}>{describeBody(b)}</span></span>
+                  <span>{formatValue(b.dssValue ?? 0)} · {Math.round(b.distanceFromArrivalLS).toLocaleString()} LS</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <div style={{ maxHeight: 260, overflowY: 'auto' }}>
+            {current.bodies.map((b) => (
+              <div key={b.bodyId} style={{ display: 'flex', justifyContent: 'space-between', gap: 8, padding: '4px 0', borderBottom: '1px solid var(--color-border)', fontSize: 13 }}>
+                <span>{b.name} <span style={{ color: 'var(--color-text-muted)' }}>{describeBody(b)}</span></span>
+                <span style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+                  {b.firstDiscovered && <HoloBadge variant="success">First</HoloBadge>}
+                  {b.mapped && <HoloBadge variant="info">Mapped</HoloBadge>}
+                  {b.landable && <HoloBadge>Landable</HoloBadge>}
+                  {b.signals.map((s) => <HoloBadge key={s.type} variant="warning">{s.count} {s.name}</HoloBadge>)}
+                  <span style={{ color: 'var(--color-text-muted)' }}>{formatValue(b.mapped && b.dssValue !== null ? b.dssValue : b.fssValue)} · {Math.round(b.distanceFromArrivalLS).toLocaleString()} LS</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </HoloPanel>
+  );
+}
+
+const SERVICES: [StationServiceKind, string][] = [
+  ['interstellar_factors', 'Interstellar Factors'],
+  ['material_trader_raw', 'Raw Material Trader'],
+  ['material_trader_manufactured', 'Manufactured Material Trader'],
+  ['material_trader_encoded', 'Encoded Material Trader'],
+  ['technology_broker_human', 'Human Tech Broker'],
+  ['technology_broker_guardian', 'Guardian Tech Broker'],
+  ['large_pad', 'Large Pad'],
+  ['fleet_carrier_vendor', 'Fleet Carrier Vendor'],
+];
+
+const selectStyle: CSSProperties = {
+  background: 'var(--color-bg-tertiary)', border: '1px solid var(--color-border)', color: '#fff',
+  padding: '4px 8px', fontSize: 12, fontFamily: 'var(--font-mono)', borderRadius: 2,
+};
+
+function NearestServicePanel() {
+  const { subscribe } = useWebSocket();
+  const [service, setService] = useState<StationServiceKind>('interstellar_factors');
+  const [pad, setPad] = useState('');
+  const [maxArrival, setMaxArrival] = useState('');
+  const query = new URLSearchParams({ service, limit: '8' });
+  if (pad) query.set('pad', pad);
+  if (maxArrival) query.set('maxDistanceToArrival', maxArrival);
+  const { data, error, fetch: load } = useApi<NearestServiceResult>(`/galaxy/stations/nearest?${query}`);
+
+  useEffect(() => { load(); }, [load]);
+  // Search again from the new system after a jump
+  useEffect(() => subscribe('state:location', (env) => {
+    if ((env.payload as LocationState).system !== data?.origin.system) load();
+  }), [subscribe, load, data?.origin.system]);
+
+  return (
+    <HoloPanel title="Nearest Services" style={{ marginBottom: 20 }}>
+      <div style={{ display: 'flex', gap: 8, marginBottom: 12, flexWrap: 'wrap' }}>
+        <select value={service} onChange={(e) => setService(e.target.value as StationServiceKind)} style={selectStyle}>
+          {SERVICES.map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+        </select>
+        <select value={pad} onChange={(e) => setPad(e.target.value)} style={selectStyle}>
+          <option value="">Any pad</option>
+          <option value="M">Medium pad</option>
+          <option value="L">Large pad</option>
+        </select>
+        <select value={maxArrival} onChange={(e) => setMaxArrival(e.target.value)} style={selectStyle}>
+          <option value="">Any distance</option>
+          <option value="1000">Within 1,000 LS</option>
+          <option value="5000">Within 5,000 LS</option>
+          <option value="20000">Within 20,000 LS</option>
+        </select>
+      </div>
+      {error && <p style={{ color: 'var(--color-danger)', fontSize: 13 }}>{error}</p>}
+      {data && data.stations.length === 0 && (
+        <p style={{ color: 'var(--color-text-muted)', fontSize: 13 }}>None within {data.searchedLy} LY of {data.origin.system} in the galaxy database</p>
+      )}
+      {data?.stations.map((s) => (
+        <div key={s.id} style={{ display: 'flex', justifyContent: 'space-between', gap: 8, padding: '4px 0', borderBottom: '1px solid var(--color-border)', fontSize: 13 }}>
+          <span>{s.name} <span style={{ color: 'var(--color-text-muted)' }}>{s.systemName} · {s.type ?? 'Unknown'}</span></span>
+          <span style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+            {s.maxPad && <HoloBadge variant={s.maxPad === 'L' ? 'success' : 'info'}>{s.maxPad} pad</HoloBadge>}
+            <span style={{ color: 'var(--color-text-muted)' }}>{s.distance.toFixed(1)} LY{s.distanceToArrival !== null ? ` · ${Math.round(s.distanceToArrival).toLocaleString()} LS` : ''}</span>
+          </span>
+        </div>
+      ))}
+    </HoloPanel>
+  );
+}
 
 export default function Navigation() {
   const { data, loading, fetch: load } = useApi<any>('/navigation');
@@ -29,6 +289,10 @@ export default function Navigation() {
               </div>
             </HoloPanel>
           </div>
+          <RoutePanel />
+          <RoutePlotterPanel />
+          <ExplorationPanel />
+          <NearestServicePanel />
           <HoloPanel title="Jump History">
             {data.recentJumps?.length > 0 ? data.recentJumps.map((j: any, i: number) => (
               <div key={i} style={{ display: 'flex', justifyContent: 'space-between', padding: '6px 0', borderBottom: '1px solid var(--color-border)', fontSize: 13 }}>
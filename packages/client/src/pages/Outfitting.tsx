@@ -1,9 +1,60 @@
 import { useEffect } from 'react';
+import type { PowerBudget } from '@vayu/shared';
 import { useApi } from '../hooks/useApi';
+import { useWebSocket } from '../hooks/useWebSocket';
 import HoloPanel from '../components/common/HoloPanel';
+import HoloProgress from '../components/common/HoloProgress';
+import HoloBadge from '../components/common/HoloBadge';
+import ForSaleSearch from '../components/stations/ForSaleSearch';
 
 const slotColor = (s: string) => s?.includes('Huge') ? '#ff4444' : s?.includes('Large') ? '#ffaa00' : s?.includes('Medium') ? '#4488cc' : 'var(--color-text-muted)';
 
+const drawColor = (percent: number) => percent > 100 ? 'var(--color-danger)' : percent > 50 ? 'var(--color-warning)' : 'var(--color-accent)';
+
+function PowerPanel() {
+  const { subscribe } = useWebSocket();
+  const { data: budget, fetch: load, setData } = useApi<PowerBudget | null>('/outfitting/power');
+
+  useEffect(() => { load(); }, [load]);
+  useEffect(() => subscribe('ship:power', (env) => setData(env.payload as PowerBudget)), [subscribe, setData]);
+  useEffect(() => subscribe('commander:switched', () => load()), [subscribe, load]);
+
+  if (!budget) return null;
+
+  return (
+    <HoloPanel title={`Power — ${budget.powerPlant ?? 'Power Plant'} (${budget.capacity.toFixed(2)} MW)`} style={{ marginTop: 16 }}>
+      <HoloProgress value={budget.retractedDraw} max={budget.capacity} label={`RETRACTED · ${budget.retractedDraw.toFixed(2)} MW`} color={drawColor(budget.retractedPercent)} style={{ marginBottom: 8 }} />
+      <HoloProgress value={budget.deployedDraw} max={budget.capacity} label={`DEPLOYED · ${budget.deployedDraw.toFixed(2)} MW`} color={drawColor(budget.deployedPercent)} style={{ marginBottom: 12 }} />
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: 8, marginBottom: 12 }}>
+        {budget.groups.map((g) => (
+          <div key={g.priority} style={{ textAlign: 'center', padding: 8, background: 'var(--color-bg-tertiary)', borderRadius: 4 }}>
+            <div style={{ fontSize: 14, color: g.poweredAtFull ? 'var(--color-accent-bright)' : 'var(--color-danger)', fontFamily: 'var(--font-display)' }}>{g.deployedPercent}%</div>
+            <div style={{ fontSize: 10, color: 'var(--color-text-muted)', textTransform: 'uppercase' }}>Group {g.priority} · {g.draw.toFixed(2)} MW</div>
+            {!g.poweredAtHalf && <HoloBadge variant="warning" style={{ marginTop: 4 }}>Off at 50%</HoloBadge>}
+          </div>
+        ))}
+      </div>
+      {budget.warnings.map((w) => <p key={w} style={{ color: 'var(--color-warning)', fontSize: 13, marginBottom: 6 }}>{w}</p>)}
+      {budget.modules.map((m) => (
+        <div key={m.slot} style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0', borderBottom: '1px solid var(--color-border)', fontSize: 13, color: m.on ? undefined : 'var(--color-text-muted)' }}>
+          <span>{m.priority} · {m.name}{!m.on && ' (off)'}</span>
+          <span style={{ color: m.poweredAtHalf ? 'var(--color-text-muted)' : 'var(--color-warning)' }}>{m.power.toFixed(2)} MW</span>
+        </div>
+      ))}
+      {budget.suggestions.length > 0 && (
+        <div style={{ marginTop: 12 }}>
+          <div style={{ fontSize: 10, color: 'var(--color-text-muted)', fontFamily: 'var(--font-display)', letterSpacing: 1, marginBottom: 4 }}>SUGGESTED PRIORITIES</div>
+          {budget.suggestions.map((s) => (
+            <div key={s.slot} style={{ fontSize: 13, padding: '2px 0' }}>
+              <span style={{ color: 'var(--color-accent-bright)' }}>{s.name}</span>: {s.current} → {s.suggested} <span style={{ color: 'var(--color-text-muted)' }}>— {s.reason}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </HoloPanel>
+  );
+}
+
 export default function Outfitting() {
   const { data, loading, fetch: load } = useApi<any>('/outfitting');
   useEffect(() => { load(); }, [load]);
@@ -61,6 +112,10 @@ export default function Outfitting() {
           </HoloPanel>
         </>
       )}
+      <PowerPanel />
+      <div style={{ marginTop: 16 }}>
+        <ForSaleSearch kind="module" placeholder="Module, e.g. 5A FSD" />
+      </div>
     </div>
   );
 }
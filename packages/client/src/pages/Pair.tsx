@@ -0,0 +1,60 @@
+import { useState, type CSSProperties, type FormEvent } from 'react';
+import HoloPanel from '../components/common/HoloPanel';
+import HoloButton from '../components/common/HoloButton';
+import { useDeviceStore } from '../stores/deviceStore';
+
+const inputStyle: CSSProperties = {
+  width: '100%', background: 'var(--color-bg-tertiary)', border: '1px solid var(--color-border)',
+  color: '#fff', padding: '8px 10px', fontSize: 14, fontFamily: 'var(--font-mono)',
+  boxSizing: 'border-box', borderRadius: 2,
+};
+
+/** Shown instead of the app on a device the server does not know yet. */
+export default function Pair() {
+  const paired = useDeviceStore((s) => s.paired);
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [pairing, setPairing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    setPairing(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/devices/pair', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, name: name.trim() || navigator.platform || 'Second screen' }),
+      });
+      const json = await res.json();
+      if (!res.ok) { setError(json.error ?? 'Pairing failed'); return; }
+      await paired(json.data.token);
+    } catch {
+      setError('Cannot reach the VAYU server');
+    } finally { setPairing(false); }
+  };
+
+  return (
+    <div style={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', padding: 24 }}>
+      <HoloPanel title="Pair This Device" style={{ width: '100%', maxWidth: 420 }}>
+        <p style={{ fontSize: 13, color: 'var(--color-text-muted)', lineHeight: 1.5, margin: '4px 0 16px' }}>
+          On the PC running VAYU, open <strong style={{ color: '#fff' }}>Devices</strong> (under Config), create a pairing code and enter it here.
+        </p>
+        <form onSubmit={submit}>
+          <label style={{ display: 'block', fontSize: 11, color: 'var(--color-text-muted)', marginBottom: 4 }}>Pairing code</label>
+          <input value={code} onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+            inputMode="numeric" autoComplete="one-time-code" placeholder="000000" autoFocus
+            style={{ ...inputStyle, fontSize: 24, letterSpacing: 8, textAlign: 'center', marginBottom: 12 }} />
+          <label style={{ display: 'block', fontSize: 11, color: 'var(--color-text-muted)', marginBottom: 4 }}>Device name</label>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Cockpit tablet" maxLength={64}
+            style={{ ...inputStyle, marginBottom: 16 }} />
+          <HoloButton type="submit" disabled={pairing || code.length !== 6} style={{ width: '100%' }}>
+            {pairing ? 'Pairing...' : 'Pair'}
+          </HoloButton>
+          {error && <div style={{ fontSize: 12, color: 'var(--color-danger)', marginTop: 10 }}>{error}</div>}
+        </form>
+      </HoloPanel>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useApi, apiFetch } from '../hooks/useApi';
+import { withDeviceToken } from '../stores/deviceStore';
 import HoloPanel from '../components/common/HoloPanel';
 import HoloButton from '../components/common/HoloButton';
 
@@ -34,7 +35,7 @@ export default function Screenshots() {
             <HoloButton onClick={() => setSelected(null)}>&larr; Back to Gallery</HoloButton>
           </div>
           <div style={{ textAlign: 'center', marginBottom: 12 }}>
-            <img src={`/api/screenshots/file/${encodeURIComponent(selected.filename)}`} alt={selected.filename} style={{ maxWidth: '100%', maxHeight: '70vh', border: '1px solid var(--color-border)' }} />
+            <img src={withDeviceToken(`/api/screenshots/file/${encodeURIComponent(selected.filename)}`)} alt={selected.filename} style={{ maxWidth: '100%', maxHeight: '70vh', border: '1px solid var(--color-border)' }} />
           </div>
           <div style={{ fontSize: 12, color: 'var(--color-text-muted)', lineHeight: 1.8 }}>
             {selected.system && <div>System: <span style={{ color: '#fff' }}>{selected.system}</span></div>}
@@ -49,7 +50,7 @@ export default function Screenshots() {
               {filtered.map((s: any, i: number) => (
                 <div key={i} onClick={() => setSelected(s)} style={{ cursor: 'pointer', border: '1px solid var(--color-border)', padding: 4, background: 'var(--color-bg-tertiary)' }}>
                   <div style={{ height: 120, background: '#111', display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: 10, color: 'var(--color-text-muted)', marginBottom: 4, overflow: 'hidden' }}>
-                    <img src={`/api/screenshots/thumb/${encodeURIComponent(s.filename)}`} alt={s.filename} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'cover' }} onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }} />
+                    <img src={withDeviceToken(`/api/screenshots/thumb/${encodeURIComponent(s.filename)}`)} alt={s.filename} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'cover' }} onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }} />
                   </div>
                   <div style={{ fontSize: 10, color: 'var(--color-text-muted)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{s.system || s.filename}</div>
                   <div style={{ fontSize: 9, color: 'var(--color-text-muted)' }}>{s.timestamp ? new Date(s.timestamp).toLocaleDateString() : ''}</div>
@@ -0,0 +1,176 @@
+import { useEffect, useState, type CSSProperties } from 'react';
+import type { SettingGroup, SettingState, SettingValue } from '@vayu/shared';
+import { useApi, apiFetch } from '../hooks/useApi';
+import { authHeaders } from '../stores/deviceStore';
+import { useWebSocket } from '../hooks/useWebSocket';
+import HoloPanel from '../components/common/HoloPanel';
+import HoloButton from '../components/common/HoloButton';
+import HoloBadge from '../components/common/HoloBadge';
+
+const GROUPS: Array<[SettingGroup, string, string]> = [
+  ['paths', 'Paths', 'Game and application directories. The journal watchers follow a new journal directory immediately.'],
+  ['api', 'API Keys', 'Keys are stored on this machine and never sent back to the browser. Leave blank to keep the current key.'],
+  ['whisper', 'Speech Recognition', 'Whisper model used by COVAS for push-to-talk transcription.'],
+  ['audio', 'Audio Devices', 'Devices used for microphone capture and TTS playback.'],
+  ['backup', 'Journal Backups', 'Where the archiver copies journals and how long backups are kept.'],
+  ['features', 'Feature Toggles', 'Switch off features you do not use. Disabled features stop answering API requests.'],
+];
+
+const inputStyle: CSSProperties = {
+  width: '100%', background: 'var(--color-bg-tertiary)', border: '1px solid var(--color-border)',
+  color: '#fff', padding: '6px 10px', fontSize: 12, fontFamily: 'var(--font-mono)',
+  boxSizing: 'border-box', borderRadius: 2,
+};
+
+const SOURCE_BADGE: Record<SettingState['source'], { label: string; variant: 'default' | 'info' | 'warning' }> = {
+  stored: { label: 'Custom', variant: 'default' },
+  env: { label: '.env', variant: 'info' },
+  default: { label: 'Default', variant: 'warning' },
+};
+
+export default function Settings() {
+  const { data: settings, loading, fetch: load, setData } = useApi<SettingState[]>('/settings');
+  const [edits, setEdits] = useState<Record<string, SettingValue>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const { subscribe } = useWebSocket();
+
+  useEffect(() => { load(); }, [load]);
+  // Another client (or COVAS) changed something
+  useEffect(() => subscribe('server:config', () => load()), [subscribe, load]);
+
+  const dirty = Object.keys(edits).length > 0;
+
+  const edit = (key: string, value: SettingValue) => {
+    setEdits((prev) => ({ ...prev, [key]: value }));
+    setErrors((prev) => { const { [key]: _, ...rest } = prev; return rest; });
+    setNotice(null);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify(edits),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setErrors(json.errors ?? {});
+        setNotice(json.error ?? 'Failed to save settings');
+        return;
+      }
+      const restart = (json.data.changes as Array<{ key: string; restartRequired: boolean }>).filter((c) => c.restartRequired);
+      setData(json.data.settings);
+      setEdits({});
+      setErrors({});
+      setNotice(restart.length > 0
+        ? `Saved. Restart the server to apply: ${restart.map((c) => c.key).join(', ')}`
+        : 'Saved. Changes are live.');
+    } finally { setSaving(false); }
+  };
+
+  const reset = async (key: string) => {
+    await apiFetch(`/settings/${encodeURIComponent(key)}`, { method: 'DELETE' });
+    setEdits((prev) => { const { [key]: _, ...rest } = prev; return rest; });
+    await load();
+  };
+
+  const renderInput = (s: SettingState) => {
+    const value = edits[s.key] ?? s.value;
+    switch (s.type) {
+      case 'enum':
+        return (
+          <select value={value as string} onChange={(e) => edit(s.key, e.target.value)} style={inputStyle}>
+            {s.options?.map((o) => <option key={o} value={o}>{o}</option>)}
+          </select>
+        );
+      case 'number':
+        return (
+          <input type="number" min={s.min} max={s.max} value={value as number}
+            onChange={(e) => edit(s.key, e.target.value === '' ? '' : Number(e.target.value))} style={inputStyle} />
+        );
+      case 'boolean':
+        return <input type="checkbox" checked={value as boolean} onChange={(e) => edit(s.key, e.target.checked)} />;
+      case 'secret':
+        return (
+          <input type="password" autoComplete="off" value={(edits[s.key] as string) ?? ''}
+            placeholder={s.configured ? '•••••••• (set — type to replace)' : 'Not set'}
+            onChange={(e) => e.target.value ? edit(s.key, e.target.value) : setEdits(({ [s.key]: _, ...rest }) => rest)}
+            style={inputStyle} />
+        );
+      case 'list': {
+        // Checked = feature enabled; the setting stores the disabled ones
+        const disabled = value as string[];
+        return (
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))', gap: 6 }}>
+            {s.options?.map((o) => (
+              <label key={o} style={{ fontSize: 12, fontFamily: 'var(--font-mono)', color: disabled.includes(o) ? 'var(--color-text-muted)' : '#fff', cursor: 'pointer' }}>
+                <input type="checkbox" checked={!disabled.includes(o)} style={{ marginRight: 6 }}
+                  onChange={(e) => edit(s.key, e.target.checked ? disabled.filter((d) => d !== o) : [...disabled, o])} />
+                {o}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      default:
+        return <input value={value as string} onChange={(e) => edit(s.key, e.target.value)} style={inputStyle} />;
+    }
+  };
+
+  return (
+    <div className="page">
+      <h1 style={{ fontFamily: 'var(--font-display)', color: 'var(--color-accent-bright)', letterSpacing: 3, marginBottom: 8, fontSize: 28 }}>SETTINGS</h1>
+      <p style={{ color: 'var(--color-text-muted)', fontSize: 15, marginBottom: 24 }}>
+        Server configuration. Values start from your .env file; anything changed here is saved in the VAYU database, takes precedence over .env and applies without a restart unless noted.
+      </p>
+
+      <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 20 }}>
+        <HoloButton onClick={save} disabled={saving || !dirty}>
+          {saving ? 'Saving...' : 'Save Changes'}
+        </HoloButton>
+        <HoloButton variant="secondary" onClick={() => { setEdits({}); setErrors({}); setNotice(null); }} disabled={!dirty}>
+          Discard
+        </HoloButton>
+        {notice && <span style={{ fontSize: 12, color: Object.keys(errors).length ? 'var(--color-danger)' : 'var(--color-accent-bright)' }}>{notice}</span>}
+      </div>
+
+      {loading && !settings && <p style={{ color: 'var(--color-text-muted)' }}>Loading...</p>}
+
+      {settings && GROUPS.map(([group, title, description]) => {
+        const items = settings.filter((s) => s.group === group);
+        if (items.length === 0) return null;
+        return (
+          <HoloPanel key={group} title={title} style={{ marginBottom: 20 }}>
+            <div style={{ fontSize: 13, color: 'var(--color-text-muted)', fontStyle: 'italic', padding: '4px 0 12px', borderBottom: '1px solid var(--color-border)', marginBottom: 10 }}>
+              {description}
+            </div>
+            {items.map((s) => (
+              <div key={s.key} style={{ padding: '10px 0', borderBottom: '1px solid var(--color-border)' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+                  <span style={{ fontSize: 13, color: '#fff' }}>{s.label}</span>
+                  <HoloBadge variant={SOURCE_BADGE[s.source].variant}>{SOURCE_BADGE[s.source].label}</HoloBadge>
+                  {s.restartRequired && <HoloBadge variant="warning">Restart</HoloBadge>}
+                  {edits[s.key] !== undefined && <HoloBadge variant="info">Unsaved</HoloBadge>}
+                  {s.source === 'stored' && (
+                    <HoloButton variant="secondary" onClick={() => reset(s.key)} style={{ marginLeft: 'auto', padding: '2px 10px', fontSize: 10 }}>
+                      Reset
+                    </HoloButton>
+                  )}
+                </div>
+                <div style={{ fontSize: 11, color: 'var(--color-text-muted)', marginBottom: 6 }}>
+                  {s.description}{s.env && <> · <code>{s.env}</code></>}
+                </div>
+                {renderInput(s)}
+                {errors[s.key] && <div style={{ fontSize: 11, color: 'var(--color-danger)', marginTop: 4 }}>{errors[s.key]}</div>}
+              </div>
+            ))}
+          </HoloPanel>
+        );
+      })}
+    </div>
+  );
+}
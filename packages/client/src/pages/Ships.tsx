@@ -1,10 +1,13 @@
 import { useEffect } from 'react';
+import type { JumpRangeOverview, ShipJumpRange } from '@vayu/shared';
 import { useApi } from '../hooks/useApi';
 import { useGameState } from '../hooks/useGameState';
+import { useWebSocket } from '../hooks/useWebSocket';
 import HoloPanel from '../components/common/HoloPanel';
 import HoloProgress from '../components/common/HoloProgress';
 import HoloBadge from '../components/common/HoloBadge';
 import HoloTable from '../components/common/HoloTable';
+import ForSaleSearch from '../components/stations/ForSaleSearch';
 
 function InfoTag({ children }: { children: string }) {
   return (
@@ -17,6 +20,49 @@ function InfoTag({ children }: { children: string }) {
   );
 }
 
+function describeFsd({ fsd }: ShipJumpRange): string {
+  const parts = [`${fsd.class}${fsd.rating}${fsd.sco ? ' SCO' : ''} FSD`, `${fsd.optimalMass.toLocaleString()}t optimal`];
+  if (fsd.guardianBoost > 0) parts.push(`+${fsd.guardianBoost} LY booster`);
+  return parts.join(' · ');
+}
+
+function JumpRangePanel() {
+  const { subscribe } = useWebSocket();
+  const { data, fetch: load, setData } = useApi<JumpRangeOverview>('/ships/jump-range');
+
+  useEffect(() => { load(); }, [load]);
+  useEffect(() => subscribe('ship:jumpRange', (env) => {
+    const current = env.payload as ShipJumpRange;
+    // A different ship means the stored list changed too
+    setData((prev) => prev && prev.current?.shipId === current.shipId ? { ...prev, current } : prev);
+    load();
+  }), [subscribe, setData, load]);
+
+  const current = data?.current;
+  return (
+    <HoloPanel title="Jump Range" style={{ marginBottom: 20 }}>
+      <InfoTag>Modelled from each ship's FSD, engineering and Guardian booster in its last loadout. The current range follows the fuel and cargo on board.</InfoTag>
+      {!current ? <p style={{ color: 'var(--color-text-muted)', fontSize: 13 }}>No loadout seen for the active ship yet.</p> : (
+        <>
+          <div style={{ fontSize: 12, color: 'var(--color-text-muted)', marginBottom: 12 }}>{describeFsd(current)}{current.fsd.source === 'calibrated' ? ' (from the game\'s reported range)' : ''}</div>
+          <div className="grid-4" style={{ gap: 12, marginBottom: 12 }}>
+            {[['Current', current.currentRange], ['Max', current.maxRange], ['Unladen', current.unladenRange], ['Laden', current.ladenRange]].map(([l, v]) => (
+              <div key={l as string} style={{ textAlign: 'center', padding: 8, background: 'var(--color-bg-tertiary)', borderRadius: 4 }}><div style={{ fontSize: 18, color: 'var(--color-accent-bright)', fontFamily: 'var(--font-display)' }}>{v != null ? `${(v as number).toFixed(2)} LY` : '—'}</div><div style={{ fontSize: 10, color: 'var(--color-text-muted)', textTransform: 'uppercase' }}>{l}</div></div>
+            ))}
+          </div>
+          <div style={{ fontSize: 12, color: 'var(--color-text-muted)', marginBottom: 8 }}>{current.fuelPerJump.toFixed(2)}t fuel per jump at the current range · game reports {current.reportedMaxRange.toFixed(2)} LY max</div>
+        </>
+      )}
+      {data && data.stored.length > 0 && data.stored.map((s) => (
+        <div key={s.shipId} style={{ display: 'flex', justifyContent: 'space-between', gap: 8, padding: '4px 0', borderBottom: '1px solid var(--color-border)', fontSize: 13 }}>
+          <span>{s.shipName || s.ship} <span style={{ color: 'var(--color-text-muted)' }}>{describeFsd(s)}</span></span>
+          <span style={{ color: 'var(--color-text-muted)' }}>{s.unladenRange.toFixed(2)} LY unladen · {s.ladenRange.toFixed(2)} LY laden</span>
+        </div>
+      ))}
+    </HoloPanel>
+  );
+}
+
 export default function Ships() {
   const { data, loading, fetch: load } = useApi<any>('/ships');
   const gameState = useGameState();
@@ -184,6 +230,8 @@ export default function Ships() {
         </HoloPanel>
       </div>
 
+      <JumpRangePanel />
+
       {/* Stored Ships Table */}
       <HoloPanel title="Stored Ships">
         <InfoTag>All ships stored at stations across the galaxy. Lists location, value, and current transfer status. Updated when you visit a station with a shipyard.</InfoTag>
@@ -237,6 +285,10 @@ export default function Ships() {
           emptyMessage="No stored ships. Visit a station with a shipyard to see your stored fleet."
         />
       </HoloPanel>
+
+      <div style={{ marginTop: 20 }}>
+        <ForSaleSearch kind="ship" placeholder="Ship, e.g. Krait Mk II" />
+      </div>
     </div>
   );
 }
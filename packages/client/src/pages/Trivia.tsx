@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import type { TriviaAnswerRequest } from '@vayu/shared';
 import { useApi, apiFetch } from '../hooks/useApi';
 import HoloPanel from '../components/common/HoloPanel';
 import HoloButton from '../components/common/HoloButton';
@@ -18,7 +19,7 @@ export default function Trivia() {
 
   const answer = async (idx: number) => {
     setSelected(idx);
-    const res = await apiFetch('/trivia/answer', { method: 'POST', body: JSON.stringify({ questionId: question.id, answerIndex: idx }) });
+    const res = await apiFetch('/trivia/answer', { method: 'POST', body: JSON.stringify({ questionId: question.id, selectedIndex: idx } satisfies TriviaAnswerRequest) });
     setResult(res);
     await load();
   };
@@ -0,0 +1,61 @@
+import { create } from 'zustand';
+import type { DeviceIdentity } from '@vayu/shared';
+
+/**
+ * Pairing state of this browser. On the machine running the server no token
+ * is needed; any other device stores the token it received when pairing
+ * and sends it with every request and WebSocket connection.
+ */
+
+const TOKEN_KEY = 'vayu.deviceToken';
+
+export function getDeviceToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+/** `Authorization` header for API requests (empty when not paired). */
+export function authHeaders(): Record<string, string> {
+  const token = getDeviceToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/** Add the device token to a URL used by `<img>`/`<audio>` or the WebSocket. */
+export function withDeviceToken(url: string): string {
+  const token = getDeviceToken();
+  return token ? `${url}${url.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}` : url;
+}
+
+interface DeviceStore {
+  /** `checking` until the first `/devices/me` answer. */
+  status: 'checking' | 'ready' | 'unpaired';
+  identity: DeviceIdentity | null;
+  check: () => Promise<void>;
+  /** Store the token from a successful pairing. */
+  paired: (token: string) => Promise<void>;
+  /** The server refused this device (never paired, or revoked). */
+  unpaired: () => void;
+}
+
+export const useDeviceStore = create<DeviceStore>((set, get) => ({
+  status: 'checking',
+  identity: null,
+  check: async () => {
+    try {
+      const res = await fetch('/api/devices/me', { headers: authHeaders() });
+      if (res.status === 401) { get().unpaired(); return; }
+      const json = await res.json();
+      set({ status: 'ready', identity: json.data ?? null });
+    } catch {
+      // Server unreachable — let the pages show their own errors
+      set({ status: 'ready', identity: null });
+    }
+  },
+  paired: async (token) => {
+    localStorage.setItem(TOKEN_KEY, token);
+    await get().check();
+  },
+  unpaired: () => {
+    localStorage.removeItem(TOKEN_KEY);
+    set({ status: 'unpaired', identity: null });
+  },
+}));
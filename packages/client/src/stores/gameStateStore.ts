@@ -1,4 +1,6 @@
 import { create } from 'zustand';
+import { applyPatch } from '@vayu/shared';
+import type { WSStateFullPayload, WSStatePatchPayload } from '@vayu/shared';
 
 interface CommanderState {
   name: string;
@@ -56,7 +58,18 @@ interface GameState {
 
 interface GameStateStore extends GameState {
   initialized: boolean;
+  /** Last applied state:patch sequence (null until a state:full arrives). */
+  sequence: number | null;
+  /** Server epoch the sequence belongs to. */
+  epoch: string | null;
   setFullState: (state: GameState) => void;
+  /** Replace the state from a state:full snapshot and adopt its sequence. */
+  applyFullState: (payload: WSStateFullPayload) => void;
+  /**
+   * Apply a state:patch. Returns false if it does not follow the last
+   * applied sequence (or fails to apply) and the caller should resync.
+   */
+  applyStatePatch: (payload: WSStatePatchPayload) => boolean;
   updateCommander: (commander: CommanderState) => void;
   updateShip: (ship: ShipState) => void;
   updateLocation: (location: LocationState) => void;
@@ -78,10 +91,26 @@ const defaultState: GameState = {
   lastUpdated: '',
 };
 
-export const useGameStateStore = create<GameStateStore>((set) => ({
+export const useGameStateStore = create<GameStateStore>((set, get) => ({
   ...defaultState,
   initialized: false,
+  sequence: null,
+  epoch: null,
   setFullState: (state) => set({ ...state, initialized: true }),
+  applyFullState: ({ state, sequence, epoch }) => set({ ...(state as unknown as GameState), initialized: true, sequence, epoch }),
+  applyStatePatch: ({ sequence, operations }) => {
+    const current = get();
+    if (current.sequence === null) return false;
+    if (sequence <= current.sequence) return true; // already applied (resync overlap)
+    if (sequence !== current.sequence + 1) return false;
+    try {
+      const next = applyPatch(pickGameState(current), operations);
+      set({ ...next, sequence });
+      return true;
+    } catch {
+      return false;
+    }
+  },
   updateCommander: (commander) => set({ commander, lastUpdated: new Date().toISOString() }),
   updateShip: (ship) => set({ ship, lastUpdated: new Date().toISOString() }),
   updateLocation: (location) => set({ location, lastUpdated: new Date().toISOString() }),
@@ -90,3 +119,9 @@ export const useGameStateStore = create<GameStateStore>((set) => ({
   updateSession: (session) => set({ session, lastUpdated: new Date().toISOString() }),
   updateCarrier: (carrier) => set({ carrier, lastUpdated: new Date().toISOString() }),
 }));
+
+/** The GameState fields of the store (patch paths are rooted here). */
+function pickGameState(s: GameStateStore): GameState & { initialized: boolean } {
+  const { commander, ship, location, materials, missions, session, carrier, odyssey, lastUpdated, initialized } = s;
+  return { commander, ship, location, materials, missions, session, carrier, odyssey, lastUpdated, initialized };
+}
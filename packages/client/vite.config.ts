@@ -13,10 +13,16 @@ export default defineConfig({
   server: {
     port: 3000,
     proxy: {
-      '/api': 'http://localhost:3001',
+      // xfwd: the server only trusts requests from this machine without a
+      // device token, so it needs to see who the proxy is forwarding for
+      '/api': {
+        target: 'http://localhost:3001',
+        xfwd: true,
+      },
       '/ws': {
         target: 'ws://localhost:3001',
         ws: true,
+        xfwd: true,
       },
     },
   },
@@ -4,6 +4,9 @@
  * Creates and configures the Express application with middleware,
  * route mounting, and a health check endpoint.
  *
+ * Everything except `/health` and device pairing requires this machine or
+ * a paired device (`core/device-auth.ts`).
+ *
  * Usage:
  *   import { createApp } from './app.js';
  *   const app = createApp();
@@ -11,9 +14,12 @@
 
 import express, { type Request, type Response, type NextFunction } from 'express';
 import cors from 'cors';
+import type { ApiError } from '@vayu/shared';
 
 import { config } from './config.js';
 import { apiRouter } from './routes/index.js';
+import { diagnostics } from './core/diagnostics.js';
+import { deviceAuth } from './core/device-auth.js';
 
 // ---------------------------------------------------------------------------
 // App factory
@@ -28,9 +34,14 @@ export function createApp(): express.Express {
   const app = express();
 
   // -- CORS --
+  // The local client, plus the client opened from another device on the
+  // LAN (http://<this machine>:<clientPort>) — those requests still need a
+  // device token.
   app.use(
     cors({
-      origin: `http://localhost:${config.server.clientPort}`,
+      origin: (origin, callback) => {
+        callback(null, !origin || deviceAuth.isLocalOrigin(origin) || isClientPortOrigin(origin));
+      },
       credentials: true,
     }),
   );
@@ -46,12 +57,15 @@ export function createApp(): express.Express {
     _res.on('finish', () => {
       const duration = Date.now() - start;
       console.log(
-        `${req.method} ${req.originalUrl} ${_res.statusCode} ${duration}ms`,
+        `${req.method} ${req.originalUrl.replace(/([?&]token=)[^&]*/, '$1***')} ${_res.statusCode} ${duration}ms`,
       );
     });
     next();
   });
 
+  // -- Device pairing and scopes --
+  app.use(deviceAuth.middleware());
+
   // -- API routes --
   app.use('/api', apiRouter);
 
@@ -64,33 +78,43 @@ export function createApp(): express.Express {
     });
   });
 
+  // -- Prometheus metrics (outside /api, where scrapers expect it) --
+  app.get('/metrics', (_req: Request, res: Response) => {
+    res.type('text/plain; version=0.0.4').send(diagnostics.renderMetrics());
+  });
+
   // -- 404 handler --
-  app.use((_req: Request, res: Response) => {
-    res.status(404).json({
-      success: false,
-      error: {
-        code: 'NOT_FOUND',
-        message: `Route ${_req.method} ${_req.originalUrl} not found`,
-      },
-      timestamp: new Date().toISOString(),
-      durationMs: 0,
-    });
+  app.use((req: Request, res: Response) => {
+    const body: ApiError = { success: false, error: `Route ${req.method} ${req.originalUrl} not found` };
+    res.status(404).json(body);
   });
 
   // -- Global error handler --
-  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+  // Body parser failures (malformed JSON, oversized bodies) carry their own
+  // 4xx status; anything else is a bug.
+  app.use((err: Error & { status?: number; type?: string }, _req: Request, res: Response, _next: NextFunction) => {
+    if (err.status && err.status >= 400 && err.status < 500) {
+      const error = err.type === 'entity.parse.failed' ? 'Malformed JSON body' : err.message;
+      const body: ApiError = { success: false, error };
+      res.status(err.status).json(body);
+      return;
+    }
     console.error('Unhandled error:', err);
-    res.status(500).json({
+    const body: ApiError = {
       success: false,
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: 'An unexpected error occurred',
-        details: process.env.NODE_ENV === 'development' ? { stack: err.stack } : undefined,
-      },
-      timestamp: new Date().toISOString(),
-      durationMs: 0,
-    });
+      error: 'An unexpected error occurred',
+      detail: process.env.NODE_ENV === 'development' ? err.stack : undefined,
+    };
+    res.status(500).json(body);
   });
 
   return app;
 }
+
+function isClientPortOrigin(origin: string): boolean {
+  try {
+    return Number(new URL(origin).port) === config.server.clientPort;
+  } catch {
+    return false;
+  }
+}
@@ -4,6 +4,11 @@
  * Loads all server configuration from environment variables with sensible
  * defaults. Import `config` anywhere in the server to access settings.
  *
+ * Most values can be overridden at runtime through the settings service
+ * (`core/settings.ts`), which updates this object in place — read values
+ * when you need them rather than copying them at import time, and listen
+ * for `settings:change` on the event bus if a change needs action.
+ *
  * Uses dotenv to load `.env` from the project root at import time.
  */
 
@@ -33,6 +38,11 @@ export const config = {
     port: parseInt(process.env.SERVER_PORT || '3001', 10),
     /** Port the client dev server runs on (used for CORS origin). */
     clientPort: parseInt(process.env.CLIENT_PORT || '3000', 10),
+    /**
+     * Extra browser origins trusted like the local client (e.g. a built
+     * client served elsewhere on this machine). Comma-separated.
+     */
+    allowedOrigins: (process.env.CORS_ORIGINS || '').split(',').map((o) => o.trim()).filter(Boolean),
   },
 
   /** Filesystem paths for game data and application storage. */
@@ -47,6 +57,12 @@ export const config = {
     screenshotsDir: process.env.SCREENSHOTS_DIR || DEFAULT_SCREENSHOTS_DIR,
     /** Path to the SQLite database file. */
     databasePath: process.env.DATABASE_PATH || './data/vayu.db',
+    /** Path to the galaxy database file (EDSM dump imports), kept on disk. */
+    galaxyDatabasePath: process.env.GALAXY_DATABASE_PATH || './data/galaxy.db',
+    /** Directory of EDSM dump files; galaxy imports read only from here. */
+    galaxyDumpsDir: process.env.GALAXY_DUMPS_DIR || './data/edsm',
+    /** Directory scanned for feature plugins (one subdirectory per plugin). */
+    pluginsDir: process.env.PLUGINS_DIR || './plugins',
   },
 
   /** External API keys and identifiers. */
@@ -60,11 +76,11 @@ export const config = {
     /** EDSM API key for star system lookups. */
     edsmApiKey: process.env.EDSM_API_KEY || '',
     /** EDSM commander name. */
-    edsmCommanderName: process.env.EDSM_COMMANDER_NAME || 'ABHYUTHANAM',
+    edsmCommanderName: process.env.EDSM_COMMANDER_NAME || '',
     /** Inara API key for commander/market lookups. */
     inaraApiKey: process.env.INARA_API_KEY || '',
     /** Inara commander name. */
-    inaraCommanderName: process.env.INARA_COMMANDER_NAME || 'ABHYUTHANAM',
+    inaraCommanderName: process.env.INARA_COMMANDER_NAME || '',
   },
 
   /** Whisper STT engine settings. */
@@ -90,7 +106,13 @@ export const config = {
     /** Number of days to retain journal backups. */
     retentionDays: parseInt(process.env.JOURNAL_RETENTION_DAYS || '90', 10),
   },
-} as const;
+
+  /** Feature toggles. */
+  features: {
+    /** Built-in features switched off (their routes answer 503). */
+    disabled: (process.env.DISABLED_FEATURES || '').split(',').map((f) => f.trim()).filter(Boolean),
+  },
+};
 
 /** Type alias for the full config shape. */
 export type VayuConfig = typeof config;
@@ -0,0 +1,106 @@
+/**
+ * @vayu/server — Route Contracts
+ *
+ * `apiRoute()` declares what a route accepts and returns, and enforces the
+ * request half. It goes first in the route's handler list:
+ *
+ *   router.put('/rules/:id', apiRoute({
+ *     summary: 'Update an alert rule',
+ *     body: API_SCHEMAS.AlertRuleUpdateRequest,
+ *     response: { type: 'array', items: API_SCHEMAS.AlertRule },
+ *   }), handler);
+ *
+ * Requests that do not match answer 400 with the standard error envelope
+ * and a problem per field. On success `req.body` and `req.query` are
+ * replaced by the validated copies — defaults filled in, query values
+ * converted to numbers and booleans — so handlers can trust their shape.
+ *
+ * The same declaration is read back by `openapi.ts` to document the route.
+ */
+
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { ApiError, JsonSchema } from '@vayu/shared';
+import { describeSchemaErrors, validateSchema } from '@vayu/shared';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RouteSpec {
+  /** One-line summary for the API reference. */
+  summary: string;
+  description?: string;
+  /** Schema per path parameter (`:id` → `params.id`). Undeclared ones are plain strings. */
+  params?: Record<string, JsonSchema>;
+  /** Object schema for the query string. */
+  query?: JsonSchema;
+  /** Schema for a JSON request body. */
+  body?: JsonSchema;
+  /** Documented (not validated) content type when the body is not JSON. */
+  bodyContentType?: string;
+  /** Schema of `data` in the success response. */
+  response?: JsonSchema;
+  /** Success status code. Default 200. */
+  status?: number;
+  /** Other statuses the route answers with, and why. */
+  errors?: Record<number, string>;
+}
+
+/** Middleware produced by `apiRoute()`, carrying its declaration. */
+export type ApiRouteHandler = RequestHandler & { readonly apiSpec: RouteSpec };
+
+// ---------------------------------------------------------------------------
+// Middleware
+// ---------------------------------------------------------------------------
+
+/** Declare and validate a route's contract. */
+export function apiRoute(spec: RouteSpec): ApiRouteHandler {
+  const paramsSchema: JsonSchema | undefined = spec.params
+    ? { type: 'object', properties: spec.params, required: Object.keys(spec.params) }
+    : undefined;
+
+  const handler = (req: Request, res: Response, next: NextFunction) => {
+    const errors: Record<string, string> = {};
+
+    if (paramsSchema) {
+      const result = validateSchema(paramsSchema, req.params, { coerce: true });
+      if (!result.valid) addErrors(errors, 'params', result.errors);
+    }
+
+    if (spec.query) {
+      const result = validateSchema(spec.query, req.query, { coerce: true });
+      if (result.valid) req.query = result.value as Request['query'];
+      else addErrors(errors, 'query', result.errors);
+    }
+
+    if (spec.body) {
+      const result = validateSchema(spec.body, req.body ?? {});
+      if (result.valid) req.body = result.value;
+      else addErrors(errors, '', result.errors);
+    }
+
+    if (Object.keys(errors).length > 0) {
+      const body: ApiError = { success: false, error: `Invalid request: ${describeSchemaErrors(errors)}`, errors };
+      res.status(400).json(body);
+      return;
+    }
+    next();
+  };
+
+  return Object.assign(handler, { apiSpec: spec });
+}
+
+/** The declaration attached to a handler by `apiRoute()`, if any. */
+export function getRouteSpec(handler: unknown): RouteSpec | undefined {
+  return typeof handler === 'function' && 'apiSpec' in handler
+    ? (handler as ApiRouteHandler).apiSpec
+    : undefined;
+}
+
+/** Merge field errors under a location prefix (`query.limit`, `params.id`). */
+function addErrors(target: Record<string, string>, prefix: string, errors: Record<string, string>): void {
+  for (const [path, message] of Object.entries(errors)) {
+    const key = prefix ? (path ? `${prefix}.${path}` : prefix) : path;
+    target[key] = message;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * AGNI — Unit tests for command-rpc.ts
+ *
+ * Tests dispatch of registered commands, argument validation, typed error
+ * results, and the per-command timeout.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { commandRpc, CommandError, requireString, requireOneOf } from './command-rpc.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// execute
+// ---------------------------------------------------------------------------
+
+describe('commandRpc.execute', () => {
+  it('should resolve sync and async handlers with ok results', async () => {
+    commandRpc.register('test.echo', (args) => args.value);
+    commandRpc.register('test.async', async (args) => ({ doubled: Number(args.n) * 2 }));
+
+    expect(await commandRpc.execute({ command: 'test.echo', args: { value: 'hi' } }))
+      .toEqual({ command: 'test.echo', ok: true, data: 'hi' });
+    expect((await commandRpc.execute({ command: 'test.async', args: { n: 4 } })).data)
+      .toEqual({ doubled: 8 });
+  });
+
+  it('should reject unknown commands and non-object args', async () => {
+    const unknown = await commandRpc.execute({ command: 'test.nope', args: {} });
+    expect(unknown.ok).toBe(false);
+    expect(unknown.error?.code).toBe('UNKNOWN_COMMAND');
+
+    commandRpc.register('test.noop', () => null);
+    const bad = await commandRpc.execute({ command: 'test.noop', args: [] as unknown as Record<string, unknown> });
+    expect(bad.error?.code).toBe('INVALID_ARGS');
+  });
+
+  it('should pass through CommandError codes and wrap other errors as INTERNAL', async () => {
+    commandRpc.register('test.validate', (args) => requireOneOf(args, 'mode', ['a', 'b'] as const));
+    commandRpc.register('test.missing', () => { throw new CommandError('NOT_FOUND', 'Alert not found'); });
+    commandRpc.register('test.crash', () => { throw new Error('boom'); });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await commandRpc.execute({ command: 'test.validate', args: { mode: 'c' } })).error?.code)
+      .toBe('INVALID_ARGS');
+    expect((await commandRpc.execute({ command: 'test.missing', args: {} })).error)
+      .toEqual({ code: 'NOT_FOUND', message: 'Alert not found' });
+    expect((await commandRpc.execute({ command: 'test.crash', args: {} })).error)
+      .toEqual({ code: 'INTERNAL', message: 'boom' });
+  });
+
+  it('should time out handlers that exceed their limit', async () => {
+    vi.useFakeTimers();
+    commandRpc.register('test.slow', () => new Promise(() => {}), { timeoutMs: 500 });
+
+    const pending = commandRpc.execute({ command: 'test.slow', args: {} });
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect((await pending).error?.code).toBe('TIMEOUT');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+describe('command argument helpers', () => {
+  it('should require non-empty strings', () => {
+    expect(requireString({ text: 'jump' }, 'text')).toBe('jump');
+    expect(() => requireString({ text: '  ' }, 'text')).toThrow(CommandError);
+  });
+
+  it('should list registered commands including commands.list', () => {
+    expect(commandRpc.list().map((c) => c.command)).toContain('commands.list');
+  });
+});
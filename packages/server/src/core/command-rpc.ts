@@ -0,0 +1,219 @@
+/**
+ * @vayu/server — WebSocket Command RPC
+ *
+ * Request/response layer over the socket for low-latency controls (e.g. a
+ * stream-deck page) that should not round-trip through HTTP. Features
+ * register named commands; a client sends `client:command` with a
+ * `correlationId` on the envelope and receives exactly one
+ * `command:result` carrying the same id.
+ *
+ * Usage:
+ *   import { commandRpc, CommandError } from './core/command-rpc.js';
+ *   commandRpc.register('music.play', () => { musicService.play(); return musicService.getState(); });
+ *
+ * Handlers throw {@link CommandError} for expected failures (bad arguments,
+ * unknown ids); anything else is reported as `INTERNAL`.
+ *
+ * Commands need the `control` scope unless registered with another; a
+ * paired device without it receives `FORBIDDEN`.
+ */
+
+import type {
+  DeviceScope,
+  JsonSchema,
+  WSClientCommandPayload,
+  WSCommandErrorCode,
+  WSCommandResultPayload,
+} from '@vayu/shared';
+import { describeSchemaErrors, validateSchema } from '@vayu/shared';
+
+import { wsManager, type ClientInfo } from '../websocket.js';
+import { deviceAuth } from './device-auth.js';
+
+// ---------------------------------------------------------------------------
+// Logger prefix
+// ---------------------------------------------------------------------------
+
+const LOG_PREFIX = '[command-rpc]';
+
+/** Default time a handler may take before the client receives TIMEOUT. */
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Context passed to every command handler. */
+export interface CommandContext {
+  /** Connected client that sent the command (null when called in-process). */
+  client: ClientInfo | null;
+}
+
+/** A command implementation. May return a value or a promise. */
+export type CommandHandler = (
+  args: Record<string, unknown>,
+  ctx: CommandContext,
+) => unknown | Promise<unknown>;
+
+/** Options for {@link CommandRpc.register}. */
+export interface CommandOptions {
+  /** Time limit in ms (default 10s). Slow commands such as LLM calls raise this. */
+  timeoutMs?: number;
+  /** One-line description listed by `commands.list`. */
+  description?: string;
+  /** Scope a paired device needs to run it (default `control`). */
+  scope?: DeviceScope;
+}
+
+/** A typed failure returned to the client as `command:result` with `ok: false`. */
+export class CommandError extends Error {
+  constructor(public readonly code: WSCommandErrorCode, message: string) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+interface RegisteredCommand {
+  handler: CommandHandler;
+  timeoutMs: number;
+  description: string;
+  scope: DeviceScope;
+}
+
+// ---------------------------------------------------------------------------
+// Command RPC
+// ---------------------------------------------------------------------------
+
+class CommandRpc {
+  private commands: Map<string, RegisteredCommand> = new Map();
+
+  constructor() {
+    wsManager.onClientMessage('client:command', (ws, payload, client, envelope) => {
+      void this.execute(payload as WSClientCommandPayload, client).then((result) => {
+        wsManager.send(ws, 'command:result', result, envelope.correlationId);
+      });
+    });
+
+    this.register('commands.list', () => this.list(), {
+      description: 'List available commands',
+      scope: 'read',
+    });
+  }
+
+  /** Register a command. Registering the same name again replaces it. */
+  register(command: string, handler: CommandHandler, options: CommandOptions = {}): void {
+    this.commands.set(command, {
+      handler,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      description: options.description ?? '',
+      scope: options.scope ?? 'control',
+    });
+  }
+
+  /** Registered commands, sorted by name. */
+  list(): Array<{ command: string; description: string; timeoutMs: number; scope: DeviceScope }> {
+    return [...this.commands.entries()]
+      .map(([command, c]) => ({ command, description: c.description, timeoutMs: c.timeoutMs, scope: c.scope }))
+      .sort((a, b) => a.command.localeCompare(b.command));
+  }
+
+  /**
+   * Run a command and build its result payload. Never rejects — every
+   * failure is converted into an error result.
+   */
+  async execute(
+    payload: WSClientCommandPayload,
+    client: ClientInfo | null = null,
+  ): Promise<WSCommandResultPayload> {
+    const command = typeof payload?.command === 'string' ? payload.command : '';
+    const entry = this.commands.get(command);
+    if (!entry) {
+      return failure(command, 'UNKNOWN_COMMAND', `Unknown command: ${command || '(none)'}`);
+    }
+
+    if (client && !deviceAuth.clientHasScope(client, entry.scope)) {
+      return failure(command, 'FORBIDDEN', `This device does not have the "${entry.scope}" scope`);
+    }
+
+    const args = payload.args ?? {};
+    if (typeof args !== 'object' || Array.isArray(args)) {
+      return failure(command, 'INVALID_ARGS', 'args must be an object');
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new CommandError('TIMEOUT', `Command timed out after ${entry.timeoutMs}ms`)),
+        entry.timeoutMs,
+      );
+    });
+
+    try {
+      const data = await Promise.race([
+        Promise.resolve().then(() => entry.handler(args, { client })),
+        timeout,
+      ]);
+      return { command, ok: true, data };
+    } catch (err) {
+      if (err instanceof CommandError) {
+        return failure(command, err.code, err.message);
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`${LOG_PREFIX} ${command} failed:`, message);
+      return failure(command, 'INTERNAL', message);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function failure(command: string, code: WSCommandErrorCode, message: string): WSCommandResultPayload {
+  return { command, ok: false, error: { code, message } };
+}
+
+// ---------------------------------------------------------------------------
+// Argument helpers
+// ---------------------------------------------------------------------------
+
+/** Read a required non-empty string argument. */
+export function requireString(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new CommandError('INVALID_ARGS', `Missing ${name} argument`);
+  }
+  return value;
+}
+
+/** Read a required number argument. */
+export function requireNumber(args: Record<string, unknown>, name: string): number {
+  const value = args[name];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new CommandError('INVALID_ARGS', `${name} must be a number`);
+  }
+  return value;
+}
+
+/** Read a required string argument restricted to a set of values. */
+export function requireOneOf<T extends string>(
+  args: Record<string, unknown>,
+  name: string,
+  values: readonly T[],
+): T {
+  const value = args[name];
+  if (typeof value !== 'string' || !values.includes(value as T)) {
+    throw new CommandError('INVALID_ARGS', `${name} must be one of: ${values.join(', ')}`);
+  }
+  return value as T;
+}
+
+/** Check arguments against a REST request schema (see `apiRoute()`). */
+export function requireArgs<T>(args: Record<string, unknown>, schema: JsonSchema<T>): T {
+  const result = validateSchema(schema, args);
+  if (!result.valid) {
+    throw new CommandError('INVALID_ARGS', `Invalid arguments: ${describeSchemaErrors(result.errors)}`);
+  }
+  return result.value;
+}
+
+/** Singleton WebSocket command dispatcher. */
+export const commandRpc = new CommandRpc();
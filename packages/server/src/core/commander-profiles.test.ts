@@ -0,0 +1,100 @@
+/**
+ * AGNI — Unit tests for commander-profiles.ts
+ *
+ * Feeds Commander/LoadGame events for two commanders through the event bus
+ * against a real sql.js database: profile switching, per-commander state
+ * snapshots, and journal history scoped by FID.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { initDatabase, closeDatabase } from '../database/index.js';
+import { eventBus } from './event-bus.js';
+import { commanderProfiles } from './commander-profiles.js';
+import { gameStateManager } from './game-state.js';
+import { journalStore } from './journal-store.js';
+import { stateSnapshot } from './state-snapshot.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dbPath: string;
+
+function emit(event: Record<string, unknown>): void {
+  eventBus.emitJournalEvent(event as any);
+}
+
+function login(timestamp: string, fid: string, name: string, credits: number): void {
+  emit({ timestamp, event: 'Commander', FID: fid, Name: name });
+  emit({
+    timestamp, event: 'LoadGame', FID: fid, Commander: name, Credits: credits,
+    Ship: 'sidewinder', ShipID: 1, ShipName: '', ShipIdent: '', FuelLevel: 2, FuelCapacity: 2, GameMode: 'Solo',
+  });
+}
+
+beforeEach(async () => {
+  dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-profiles-')), 'test.db');
+  await initDatabase(dbPath);
+  commanderProfiles.setActive(null);
+});
+
+afterEach(() => {
+  closeDatabase(dbPath);
+  fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Switching
+// ---------------------------------------------------------------------------
+
+describe('commanderProfiles', () => {
+  it('should adopt the current state for the first commander identified', () => {
+    login('2025-01-01T10:00:00Z', 'F100', 'Alpha', 1000);
+
+    expect(commanderProfiles.getActive()).toEqual({ fid: 'F100', name: 'Alpha' });
+    expect(stateSnapshot.getScope()).toBe('F100');
+    expect(gameStateManager.getState().commander.credits).toBe(1000);
+  });
+
+  it('should keep each commander\'s state separate across switches', () => {
+    login('2025-01-01T10:00:00Z', 'F100', 'Alpha', 1000);
+    emit({ timestamp: '2025-01-01T10:05:00Z', event: 'FSDJump', StarSystem: 'Sol', StarPos: [0, 0, 0], JumpDist: 4, FuelUsed: 1 });
+
+    login('2025-01-02T10:00:00Z', 'F200', 'Beta', 5);
+    expect(gameStateManager.getState().commander.name).toBe('Beta');
+    expect(gameStateManager.getState().location.system).not.toBe('Sol');
+
+    login('2025-01-03T10:00:00Z', 'F100', 'Alpha', 1000);
+    expect(gameStateManager.getState().location.system).toBe('Sol');
+  });
+
+  it('should list every commander seen, most recent first', () => {
+    login('2025-01-01T10:00:00Z', 'F100', 'Alpha', 1000);
+    login('2025-01-02T10:00:00Z', 'F200', 'Beta', 5);
+
+    expect(commanderProfiles.list().map((c) => c.fid)).toEqual(['F200', 'F100']);
+    expect(commanderProfiles.get('F100')?.firstSeen).toBe('2025-01-01T10:00:00Z');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Journal scoping
+// ---------------------------------------------------------------------------
+
+describe('journalStore commander scope', () => {
+  it('should default reads to the active commander', () => {
+    login('2025-01-01T10:00:00Z', 'F100', 'Alpha', 1000);
+    emit({ timestamp: '2025-01-01T10:05:00Z', event: 'FSDJump', StarSystem: 'Sol', StarPos: [0, 0, 0], JumpDist: 4, FuelUsed: 1 });
+    login('2025-01-02T10:00:00Z', 'F200', 'Beta', 5);
+
+    expect(journalStore.getEvents('FSDJump')).toHaveLength(0);
+    expect(journalStore.getEvents('FSDJump', { fid: 'F100' })).toHaveLength(1);
+    expect(journalStore.getSessions(50, 0, null)).toHaveLength(2);
+    expect(journalStore.getSessions().map((s) => s.fid)).toEqual(['F200']);
+    expect(journalStore.countByCommander().get('F100')).toEqual({ events: 3, sessions: 1 });
+  });
+});
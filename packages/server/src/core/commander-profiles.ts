@@ -0,0 +1,178 @@
+/**
+ * @vayu/server — Commander Profiles
+ *
+ * Several commanders (accounts) can share one install. Every commander is
+ * identified by the Frontier ID (FID) in the `Commander` and `LoadGame`
+ * events; this module tracks which one is active and switches profiles when
+ * a different commander loads, so in-memory state and persisted history are
+ * never mixed between them.
+ *
+ * Key behaviors:
+ *   - Sees `Commander`/`LoadGame` before every other journal listener, so
+ *     the switch completes before GameState or any service applies the event
+ *   - On a switch: saves the previous commander's snapshot, scopes
+ *     snapshots to the new FID and restores (or resets) every contributor,
+ *     then broadcasts `commander:switched`
+ *   - The first commander identified after a fresh install adopts the
+ *     current state instead of resetting it
+ *   - Persists every commander seen in the `commanders` table
+ */
+
+import type { AnyJournalEvent, JournalEventMap, WSCommanderSwitchedPayload } from '@vayu/shared';
+
+import { eventBus } from './event-bus.js';
+import { stateSnapshot } from './state-snapshot.js';
+import { getDb, isDatabaseReady } from '../database/index.js';
+import { wsManager } from '../websocket.js';
+
+// ---------------------------------------------------------------------------
+// Logger prefix
+// ---------------------------------------------------------------------------
+
+const LOG_PREFIX = '[commander-profiles]';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A commander known to this install. */
+export interface CommanderProfile {
+  /** Frontier ID (e.g. "F1234567"). */
+  fid: string;
+  /** Most recent commander name seen for this FID. */
+  name: string;
+  /** Timestamp of the earliest journal event seen for this commander. */
+  firstSeen: string;
+  /** Timestamp of the latest journal event seen for this commander. */
+  lastSeen: string;
+}
+
+// ---------------------------------------------------------------------------
+// Commander Profiles
+// ---------------------------------------------------------------------------
+
+class CommanderProfileManager {
+  /** The commander whose data is currently loaded (null until identified). */
+  private active: { fid: string; name: string } | null = null;
+
+  constructor() {
+    eventBus.prependAnyJournalEvent((event) => {
+      const identity = identify(event);
+      if (identity) this.activate(identity.fid, identity.name);
+    });
+  }
+
+  /**
+   * Make the most recently seen commander active and scope snapshots to
+   * them. Called at boot, after the database is open and before
+   * `stateSnapshot.restore()`.
+   */
+  restoreLastActive(): CommanderProfile | null {
+    const last = this.list()[0] ?? null;
+    if (last) {
+      this.active = { fid: last.fid, name: last.name };
+      stateSnapshot.setScope(last.fid);
+      console.log(`${LOG_PREFIX} Active commander: CMDR ${last.name} (${last.fid})`);
+    }
+    return last;
+  }
+
+  /**
+   * Switch to the commander with this FID. No-op if already active.
+   * Snapshots of the previous commander are saved unless auto-save is
+   * suspended (e.g. during a non-persisting journal replay).
+   */
+  activate(fid: string, name: string): void {
+    if (this.active?.fid === fid) {
+      this.active.name = name;
+      return;
+    }
+
+    const previous = this.active;
+    this.active = { fid, name };
+
+    if (previous === null && (stateSnapshot.getScope() === '' || stateSnapshot.getScope() === fid)) {
+      // First commander identified: the state in memory is theirs.
+      stateSnapshot.setScope(fid);
+      console.log(`${LOG_PREFIX} Identified CMDR ${name} (${fid})`);
+    } else {
+      if (stateSnapshot.isAutoSaveEnabled()) stateSnapshot.save();
+      stateSnapshot.setScope(fid);
+      stateSnapshot.restore({ reset: true });
+      console.log(`${LOG_PREFIX} Switched to CMDR ${name} (${fid}) from ${previous?.name ?? 'unknown commander'}`);
+    }
+
+    const payload: WSCommanderSwitchedPayload = { fid, name, previousFid: previous?.fid ?? null };
+    wsManager.broadcast('commander:switched', payload);
+  }
+
+  /**
+   * Set the active commander without saving or restoring anything. Used to
+   * return to the pre-replay commander before restoring their snapshot.
+   */
+  setActive(profile: { fid: string; name: string } | null): void {
+    this.active = profile ? { ...profile } : null;
+    stateSnapshot.setScope(profile?.fid ?? '');
+  }
+
+  /** The active commander, or null if none has been identified. */
+  getActive(): { fid: string; name: string } | null {
+    return this.active ? { ...this.active } : null;
+  }
+
+  getActiveFid(): string | null {
+    return this.active?.fid ?? null;
+  }
+
+  /**
+   * Record that a commander was seen at `timestamp`. Called by the journal
+   * store for every stored `Commander`/`LoadGame`, live or imported.
+   */
+  record(fid: string, name: string, timestamp: string): void {
+    if (!isDatabaseReady()) return;
+    getDb().run(
+      `INSERT INTO commanders (fid, name, first_seen, last_seen) VALUES (?, ?, ?, ?)
+       ON CONFLICT(fid) DO UPDATE SET
+         name       = CASE WHEN excluded.last_seen >= commanders.last_seen THEN excluded.name ELSE commanders.name END,
+         first_seen = MIN(commanders.first_seen, excluded.first_seen),
+         last_seen  = MAX(commanders.last_seen, excluded.last_seen)`,
+      [fid, name, timestamp, timestamp],
+    );
+  }
+
+  /** Every known commander, most recently seen first. */
+  list(): CommanderProfile[] {
+    if (!isDatabaseReady()) return [];
+    const rows = getDb().exec(
+      'SELECT fid, name, first_seen, last_seen FROM commanders ORDER BY last_seen DESC',
+    );
+    if (rows.length === 0) return [];
+    return rows[0].values.map((row) => ({
+      fid: row[0] as string,
+      name: row[1] as string,
+      firstSeen: row[2] as string,
+      lastSeen: row[3] as string,
+    }));
+  }
+
+  /** A single commander by FID, or null. */
+  get(fid: string): CommanderProfile | null {
+    return this.list().find((c) => c.fid === fid) ?? null;
+  }
+}
+
+/** The FID and name carried by a `Commander` or `LoadGame` event, if any. */
+export function identify(event: AnyJournalEvent): { fid: string; name: string } | null {
+  if (event.event === 'Commander') {
+    const e = event as JournalEventMap['Commander'];
+    return e.FID ? { fid: e.FID, name: e.Name ?? '' } : null;
+  }
+  if (event.event === 'LoadGame') {
+    const e = event as JournalEventMap['LoadGame'];
+    return e.FID ? { fid: e.FID, name: e.Commander ?? '' } : null;
+  }
+  return null;
+}
+
+/** Singleton commander profile manager. */
+export const commanderProfiles = new CommanderProfileManager();
@@ -119,6 +119,9 @@ class CompanionWatcher {
   /** Total updates emitted across all companion files. */
   private updatesEmitted = 0;
 
+  /** When each companion file was last emitted (epoch ms), by file name. */
+  private lastUpdateAt: Map<string, number> = new Map();
+
   /**
    * Start watching companion files.
    *
@@ -222,12 +225,16 @@ class CompanionWatcher {
     journalDir: string | null;
     updatesEmitted: number;
     trackedFiles: string[];
+    lastUpdateAt: Record<string, string>;
   } {
     return {
       watching: this.watching,
       journalDir: this.journalDir,
       updatesEmitted: this.updatesEmitted,
       trackedFiles: Array.from(this.lastContent.keys()).map((p) => path.basename(p)),
+      lastUpdateAt: Object.fromEntries(
+        [...this.lastUpdateAt].map(([file, at]) => [file, new Date(at).toISOString()]),
+      ),
     };
   }
 
@@ -271,6 +278,7 @@ class CompanionWatcher {
 
       this.lastContent.set(filePath, trimmed);
       this.updatesEmitted++;
+      this.lastUpdateAt.set(def.filename, Date.now());
 
       def.emit(parsed);
       console.log(`${LOG_PREFIX} ${def.label} updated`);
@@ -0,0 +1,118 @@
+/**
+ * AGNI — Unit tests for device-auth.ts
+ *
+ * Pairs devices against a real sql.js database and checks who is trusted
+ * without a token, scope enforcement and revocation.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { initDatabase, closeDatabase } from '../database/index.js';
+import { config } from '../config.js';
+import { deviceAuth, DeviceAuthError, requiredScope } from './device-auth.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dbPath: string;
+const LAN = '::ffff:192.168.1.20';
+
+function pairDevice(scopes: string[] = ['read']) {
+  const { code } = deviceAuth.createPairingCode(scopes);
+  return deviceAuth.pair(code, 'Cockpit tablet', LAN);
+}
+
+function pairError(code: string): DeviceAuthError {
+  try {
+    deviceAuth.pair(code, 'Tablet', LAN);
+  } catch (err) {
+    return err as DeviceAuthError;
+  }
+  throw new Error('pair() should have thrown');
+}
+
+beforeEach(async () => {
+  dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-devices-')), 'test.db');
+  await initDatabase(dbPath);
+  deviceAuth.load();
+});
+
+afterEach(() => {
+  for (const device of deviceAuth.list()) deviceAuth.revoke(device.id);
+  deviceAuth.cancelPairingCode();
+  closeDatabase(dbPath);
+  fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('deviceAuth', () => {
+  it('should pair once with a code and authenticate with the token after a reload', () => {
+    const { token, device } = pairDevice(['control']);
+
+    expect(device).toMatchObject({ name: 'Cockpit tablet', scopes: ['read', 'control'], lastAddress: LAN });
+    expect(deviceAuth.getPairingCode()).toBeNull();
+
+    deviceAuth.load(); // as after a restart
+    const caller = deviceAuth.identify({ address: LAN, token });
+    expect(caller).toMatchObject({ local: false, deviceId: device.id });
+    expect([...caller!.scopes]).toEqual(['read', 'control']);
+    expect(deviceAuth.identify({ address: LAN, token: 'not-a-token' })).toBeNull();
+  });
+
+  it('should discard the code after repeated wrong guesses', () => {
+    const { code } = deviceAuth.createPairingCode(['read']);
+    const wrong = code === '000000' ? '000001' : '000000';
+
+    for (let i = 0; i < 4; i++) expect(pairError(wrong).status).toBe(403);
+    expect(pairError(wrong).status).toBe(429);
+    expect(pairError(code).status).toBe(410);
+  });
+
+  it('should trust loopback only when not forwarded and not from a foreign page', () => {
+    const local = `http://localhost:${config.server.clientPort}`;
+
+    expect(deviceAuth.identify({ address: '127.0.0.1' })?.local).toBe(true);
+    expect(deviceAuth.identify({ address: '::1', origin: local })?.local).toBe(true);
+    expect(deviceAuth.identify({ address: '127.0.0.1', forwardedFor: '127.0.0.1' })?.local).toBe(true);
+    expect(deviceAuth.identify({ address: '127.0.0.1', forwardedFor: '192.168.1.20' })).toBeNull();
+    expect(deviceAuth.identify({ address: '127.0.0.1', origin: 'https://example.com' })).toBeNull();
+    expect(deviceAuth.identify({ address: LAN })).toBeNull();
+  });
+
+  it('should map requests to scopes', () => {
+    expect(requiredScope('GET', '/api/bindings')).toBe('read');
+    expect(requiredScope('PUT', '/api/bindings/Hyperspace')).toBe('control');
+    expect(requiredScope('POST', '/api/covas/text')).toBe('control');
+    expect(requiredScope('PUT', '/api/settings')).toBe('admin');
+    expect(requiredScope('GET', '/api/devices')).toBe('admin');
+    expect(requiredScope('GET', '/api/devices/me')).toBe('read');
+    expect(requiredScope('GET', '/metrics')).toBe('read');
+  });
+
+  it('should map mixed- and upper-case paths like Express routes them', () => {
+    expect(requiredScope('POST', '/API/devices/pairing')).toBe('admin');
+    expect(requiredScope('POST', '/Api/Devices/pairing')).toBe('admin');
+    expect(requiredScope('GET', '/API/DEVICES/ME')).toBe('read');
+    expect(requiredScope('PUT', '/api/Settings')).toBe('admin');
+    expect(requiredScope('POST', '/API/PLUGINS/reload')).toBe('admin');
+    expect(requiredScope('POST', '/API/covas/text')).toBe('control');
+  });
+
+  it('should stop accepting a token once revoked', () => {
+    const { token, device } = pairDevice();
+    const updated = deviceAuth.update(device.id, { scopes: ['admin'] });
+    expect(updated?.scopes).toEqual(['read', 'admin']);
+
+    expect(deviceAuth.revoke(device.id)).toBe(true);
+    expect(deviceAuth.identify({ address: LAN, token })).toBeNull();
+    deviceAuth.load();
+    expect(deviceAuth.list()).toEqual([]);
+  });
+});
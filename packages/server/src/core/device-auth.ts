@@ -0,0 +1,497 @@
+/**
+ * @vayu/server — Paired Device Authentication
+ *
+ * Lets LAN second screens (a tablet next to the HOTAS, a phone) use the
+ * API and WebSocket without opening them to everything on the network.
+ *
+ * Key behaviors:
+ *   - The machine running the server is trusted: loopback requests need no
+ *     token, unless they were forwarded for another address (the client dev
+ *     server's proxy) or come from a web page on a foreign origin
+ *   - Any other caller must present a device token, as
+ *     `Authorization: Bearer <token>` or `?token=` (GET requests and the
+ *     WebSocket upgrade, where browsers cannot set headers)
+ *   - Pairing: the desktop creates a six-digit code with the scopes the new
+ *     device should get; the device sends the code and receives its token.
+ *     A code lasts five minutes, is single-use, and is discarded after five
+ *     wrong guesses
+ *   - Only a SHA-256 hash of each token is stored; revoking a device deletes
+ *     it and closes its WebSocket connections
+ *   - Scopes (`read`, `control`, `admin`) are checked per request from the
+ *     method and feature, and per `client:command` on the socket
+ */
+
+import { createHash, randomBytes, randomInt, randomUUID, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import type {
+  DeviceIdentity,
+  DevicePairingCode,
+  DevicePairResult,
+  DeviceScope,
+  PairedDevice,
+  WSDevicePairedPayload,
+  WSDeviceRevokedPayload,
+} from '@vayu/shared';
+
+import { config } from '../config.js';
+import { getDb, isDatabaseReady } from '../database/index.js';
+import { wsManager, type ClientInfo } from '../websocket.js';
+
+// ---------------------------------------------------------------------------
+// Logger prefix
+// ---------------------------------------------------------------------------
+
+const LOG_PREFIX = '[devices]';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Every scope, in display order. */
+export const DEVICE_SCOPES: readonly DeviceScope[] = ['read', 'control', 'admin'];
+
+/** How long a pairing code stays valid. */
+const PAIRING_CODE_TTL_MS = 5 * 60_000;
+
+/** Wrong codes tolerated before the active code is discarded. */
+const MAX_PAIRING_FAILURES = 5;
+
+/** `last_seen_at` is written to the database at most this often per device. */
+const LAST_SEEN_WRITE_INTERVAL_MS = 60_000;
+
+const MAX_NAME_LENGTH = 64;
+
+/** Features whose writes need `admin` rather than `control`. */
+const ADMIN_FEATURES = new Set(['settings', 'plugins']);
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Who made a request or opened a socket. */
+export interface Caller {
+  /** The machine running the server. */
+  local: boolean;
+  /** Paired device id (null when local). */
+  deviceId: string | null;
+  scopes: ReadonlySet<DeviceScope>;
+}
+
+/** Fields of an incoming request that decide who the caller is. */
+export interface CallerCredentials {
+  /** Socket peer address. */
+  address: string | undefined;
+  /** `X-Forwarded-For` header, if any. */
+  forwardedFor?: string;
+  /** `Origin` header, if any. */
+  origin?: string;
+  /** Device token, if one was presented. */
+  token?: string;
+}
+
+/** A pairing or device management failure, with the HTTP status to answer. */
+export class DeviceAuthError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'DeviceAuthError';
+  }
+}
+
+interface StoredDevice extends PairedDevice {
+  tokenHash: string;
+  /** When `last_seen_at` was last written (ms epoch). */
+  lastWrittenAt: number;
+}
+
+interface PendingPairing {
+  code: string;
+  scopes: DeviceScope[];
+  expiresAt: number;
+  failures: number;
+}
+
+const LOCAL_CALLER: Caller = { local: true, deviceId: null, scopes: new Set(DEVICE_SCOPES) };
+
+// ---------------------------------------------------------------------------
+// Device Auth Service
+// ---------------------------------------------------------------------------
+
+class DeviceAuthService {
+  private devices: Map<string, StoredDevice> = new Map();
+  private byTokenHash: Map<string, StoredDevice> = new Map();
+  private pending: PendingPairing | null = null;
+
+  constructor() {
+    wsManager.setAuthenticator((req) => {
+      const caller = this.identify(credentialsFromUpgrade(req));
+      return caller ? { deviceId: caller.deviceId } : null;
+    });
+  }
+
+  /** Load paired devices from the database. Call once after it opens. */
+  load(): number {
+    this.devices.clear();
+    this.byTokenHash.clear();
+    if (!isDatabaseReady()) return 0;
+
+    const rows = getDb().exec(
+      'SELECT id, name, token_hash, scopes, paired_at, last_seen_at, last_address FROM devices',
+    );
+    for (const row of rows[0]?.values ?? []) {
+      const [id, name, tokenHash, scopes, pairedAt, lastSeenAt, lastAddress] = row as Array<string | null>;
+      const device: StoredDevice = {
+        id: id!,
+        name: name!,
+        tokenHash: tokenHash!,
+        scopes: parseStoredScopes(scopes!),
+        pairedAt: pairedAt!,
+        lastSeenAt,
+        lastAddress,
+        lastWrittenAt: 0,
+      };
+      this.devices.set(device.id, device);
+      this.byTokenHash.set(device.tokenHash, device);
+    }
+    if (this.devices.size > 0) console.log(`${LOG_PREFIX} ${this.devices.size} paired device(s)`);
+    return this.devices.size;
+  }
+
+  // -------------------------------------------------------------------------
+  // Pairing
+  // -------------------------------------------------------------------------
+
+  /**
+   * Create the code a new device enters to pair. Replaces any code still
+   * active, so only the most recent one works.
+   */
+  createPairingCode(scopes: unknown): DevicePairingCode {
+    this.pending = {
+      code: String(randomInt(0, 1_000_000)).padStart(6, '0'),
+      scopes: normalizeScopes(scopes),
+      expiresAt: Date.now() + PAIRING_CODE_TTL_MS,
+      failures: 0,
+    };
+    return this.getPairingCode()!;
+  }
+
+  /** The active pairing code, if any. */
+  getPairingCode(): DevicePairingCode | null {
+    if (this.pending && Date.now() > this.pending.expiresAt) this.pending = null;
+    if (!this.pending) return null;
+    return {
+      code: this.pending.code,
+      scopes: [...this.pending.scopes],
+      expiresAt: new Date(this.pending.expiresAt).toISOString(),
+    };
+  }
+
+  cancelPairingCode(): void {
+    this.pending = null;
+  }
+
+  /** Exchange a pairing code for a device token. */
+  pair(code: string, name: string, address: string | null = null): DevicePairResult {
+    const pending = this.pending;
+    if (!pending || Date.now() > pending.expiresAt) {
+      this.pending = null;
+      throw new DeviceAuthError('No pairing code is active. Create one under Devices on the VAYU desktop.', 410);
+    }
+
+    if (!safeEqual(code.trim(), pending.code)) {
+      pending.failures++;
+      if (pending.failures >= MAX_PAIRING_FAILURES) {
+        this.pending = null;
+        console.warn(`${LOG_PREFIX} Pairing code discarded after ${MAX_PAIRING_FAILURES} wrong attempts`);
+        throw new DeviceAuthError('Too many wrong codes. Create a new pairing code on the desktop.', 429);
+      }
+      throw new DeviceAuthError('Wrong pairing code', 403);
+    }
+    this.pending = null;
+
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date().toISOString();
+    const device: StoredDevice = {
+      id: randomUUID(),
+      name: cleanName(name) || `Device ${this.devices.size + 1}`,
+      scopes: pending.scopes,
+      pairedAt: now,
+      lastSeenAt: now,
+      lastAddress: address,
+      tokenHash: hashToken(token),
+      lastWrittenAt: Date.now(),
+    };
+
+    if (isDatabaseReady()) {
+      getDb().run(
+        `INSERT INTO devices (id, name, token_hash, scopes, paired_at, last_seen_at, last_address)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [device.id, device.name, device.tokenHash, JSON.stringify(device.scopes), now, now, address],
+      );
+    }
+    this.devices.set(device.id, device);
+    this.byTokenHash.set(device.tokenHash, device);
+
+    console.log(`${LOG_PREFIX} Paired "${device.name}" (${device.scopes.join(', ')}) from ${address ?? 'unknown address'}`);
+    const payload: WSDevicePairedPayload = { device: toPublic(device) };
+    wsManager.broadcast('device:paired', payload);
+    return { token, device: toPublic(device) };
+  }
+
+  // -------------------------------------------------------------------------
+  // Management
+  // -------------------------------------------------------------------------
+
+  /** Paired devices, most recently paired first. */
+  list(): PairedDevice[] {
+    return [...this.devices.values()]
+      .sort((a, b) => b.pairedAt.localeCompare(a.pairedAt))
+      .map(toPublic);
+  }
+
+  get(id: string): PairedDevice | null {
+    const device = this.devices.get(id);
+    return device ? toPublic(device) : null;
+  }
+
+  /** Rename a device or change its scopes. Returns null if unknown. */
+  update(id: string, changes: { name?: unknown; scopes?: unknown }): PairedDevice | null {
+    const device = this.devices.get(id);
+    if (!device) return null;
+
+    if (changes.name !== undefined) {
+      const name = typeof changes.name === 'string' ? cleanName(changes.name) : '';
+      if (!name) throw new DeviceAuthError('name must be a non-empty string', 400);
+      device.name = name;
+    }
+    if (changes.scopes !== undefined) device.scopes = normalizeScopes(changes.scopes);
+
+    if (isDatabaseReady()) {
+      getDb().run('UPDATE devices SET name = ?, scopes = ? WHERE id = ?', [
+        device.name, JSON.stringify(device.scopes), id,
+      ]);
+    }
+    return toPublic(device);
+  }
+
+  /** Forget a device and disconnect it. Returns false if unknown. */
+  revoke(id: string): boolean {
+    const device = this.devices.get(id);
+    if (!device) return false;
+
+    this.devices.delete(id);
+    this.byTokenHash.delete(device.tokenHash);
+    if (isDatabaseReady()) getDb().run('DELETE FROM devices WHERE id = ?', [id]);
+
+    wsManager.disconnectDevice(id, 'Device revoked');
+    console.log(`${LOG_PREFIX} Revoked "${device.name}"`);
+    const payload: WSDeviceRevokedPayload = { id };
+    wsManager.broadcast('device:revoked', payload);
+    return true;
+  }
+
+  // -------------------------------------------------------------------------
+  // Authentication
+  // -------------------------------------------------------------------------
+
+  /**
+   * Who is calling, or null if the caller must pair first. A presented token
+   * always decides (an unknown one is refused even from this machine).
+   */
+  identify(credentials: CallerCredentials): Caller | null {
+    if (credentials.token) {
+      const device = this.byTokenHash.get(hashToken(credentials.token));
+      if (!device) return null;
+      this.touch(device, credentials.address ?? null);
+      return { local: false, deviceId: device.id, scopes: new Set(device.scopes) };
+    }
+
+    const forwarded = (credentials.forwardedFor ?? '').split(',').map((a) => a.trim()).filter(Boolean);
+    if (
+      isLoopback(credentials.address) &&
+      forwarded.every(isLoopback) &&
+      (!credentials.origin || this.isLocalOrigin(credentials.origin))
+    ) {
+      return LOCAL_CALLER;
+    }
+    return null;
+  }
+
+  /** Whether a connected WebSocket client currently has `scope`. */
+  clientHasScope(client: ClientInfo, scope: DeviceScope): boolean {
+    if (client.deviceId === null) return true;
+    return this.devices.get(client.deviceId)?.scopes.includes(scope) ?? false;
+  }
+
+  /** The identity reported to a caller by `GET /api/devices/me`. */
+  describe(caller: Caller): DeviceIdentity {
+    return {
+      local: caller.local,
+      device: caller.deviceId ? this.get(caller.deviceId) : null,
+      scopes: DEVICE_SCOPES.filter((s) => caller.scopes.has(s)),
+    };
+  }
+
+  /**
+   * Whether a browser origin is the client served from this machine
+   * (`localhost` on the client or server port) or listed in `CORS_ORIGINS`.
+   */
+  isLocalOrigin(origin: string): boolean {
+    if (config.server.allowedOrigins.includes(origin)) return true;
+    let url: URL;
+    try {
+      url = new URL(origin);
+    } catch {
+      return false;
+    }
+    const port = Number(url.port || (url.protocol === 'https:' ? 443 : 80));
+    return ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname) &&
+      (port === config.server.clientPort || port === config.server.port);
+  }
+
+  /**
+   * Express middleware enforcing pairing and scopes on everything mounted
+   * after it. Sets `res.locals.caller`. `GET /health` and
+   * `POST /api/devices/pair` are open.
+   */
+  middleware(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (isPublicRoute(req.method, req.path)) { next(); return; }
+
+      const caller = this.identify(credentialsFromRequest(req));
+      if (!caller) {
+        res.status(401).json({
+          success: false,
+          error: 'This device is not paired. Pair it under Devices on the VAYU desktop.',
+        });
+        return;
+      }
+
+      const scope = requiredScope(req.method, req.path);
+      if (!caller.scopes.has(scope)) {
+        res.status(403).json({ success: false, error: `This device does not have the "${scope}" scope` });
+        return;
+      }
+
+      res.locals.caller = caller;
+      next();
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private touch(device: StoredDevice, address: string | null): void {
+    device.lastSeenAt = new Date().toISOString();
+    device.lastAddress = address;
+    if (Date.now() - device.lastWrittenAt < LAST_SEEN_WRITE_INTERVAL_MS || !isDatabaseReady()) return;
+    device.lastWrittenAt = Date.now();
+    getDb().run('UPDATE devices SET last_seen_at = ?, last_address = ? WHERE id = ?', [
+      device.lastSeenAt, address, device.id,
+    ]);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Scope needed for a request. Reads need `read`; writes need `control`, or
+ * `admin` for settings and plugins. Device management is `admin` except
+ * `GET /api/devices/me`, which any paired device may call. Express routes
+ * paths case-insensitively, so the path is lower-cased before it is read.
+ */
+export function requiredScope(method: string, path: string): DeviceScope {
+  const lower = path.toLowerCase();
+  const [, prefix, feature] = lower.split('/');
+  if (prefix !== 'api') return 'read';
+  if (feature === 'devices') return lower === '/api/devices/me' ? 'read' : 'admin';
+  if (method === 'GET' || method === 'HEAD') return 'read';
+  return ADMIN_FEATURES.has(feature) ? 'admin' : 'control';
+}
+
+function isPublicRoute(method: string, path: string): boolean {
+  return path === '/health' || (method === 'POST' && path === '/api/devices/pair');
+}
+
+function credentialsFromRequest(req: Request): CallerCredentials {
+  const auth = req.headers.authorization;
+  let token = auth?.startsWith('Bearer ') ? auth.slice(7).trim() : undefined;
+  // Media elements (<img>, <audio>) cannot send headers
+  if (!token && (req.method === 'GET' || req.method === 'HEAD') && typeof req.query.token === 'string') {
+    token = req.query.token;
+  }
+  return {
+    address: req.socket.remoteAddress,
+    forwardedFor: headerValue(req.headers['x-forwarded-for']),
+    origin: req.headers.origin,
+    token,
+  };
+}
+
+function credentialsFromUpgrade(req: IncomingMessage): CallerCredentials {
+  const url = new URL(req.url ?? '/', 'ws://localhost');
+  return {
+    address: req.socket.remoteAddress,
+    forwardedFor: headerValue(req.headers['x-forwarded-for']),
+    origin: req.headers.origin,
+    token: url.searchParams.get('token') ?? undefined,
+  };
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value.join(',') : value;
+}
+
+function isLoopback(address: string | undefined): boolean {
+  if (!address) return false;
+  return address === '::1' || address.startsWith('127.') || address.startsWith('::ffff:127.');
+}
+
+/** Validate a scope list; `read` is always included. */
+function normalizeScopes(input: unknown): DeviceScope[] {
+  if (!Array.isArray(input)) throw new DeviceAuthError('scopes must be an array', 400);
+  const unknown = input.filter((s) => !DEVICE_SCOPES.includes(s as DeviceScope));
+  if (unknown.length > 0) {
+    throw new DeviceAuthError(`Unknown scope(s): ${unknown.join(', ')} (expected ${DEVICE_SCOPES.join(', ')})`, 400);
+  }
+  return DEVICE_SCOPES.filter((s) => s === 'read' || input.includes(s));
+}
+
+function parseStoredScopes(raw: string): DeviceScope[] {
+  try {
+    return normalizeScopes(JSON.parse(raw));
+  } catch {
+    return ['read'];
+  }
+}
+
+function cleanName(name: string): string {
+  return name.trim().slice(0, MAX_NAME_LENGTH);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && timingSafeEqual(ab, bb);
+}
+
+function toPublic(device: StoredDevice): PairedDevice {
+  return {
+    id: device.id,
+    name: device.name,
+    scopes: [...device.scopes],
+    pairedAt: device.pairedAt,
+    lastSeenAt: device.lastSeenAt,
+    lastAddress: device.lastAddress,
+  };
+}
+
+/** Singleton device pairing and authentication service. */
+export const deviceAuth = new DeviceAuthService();
@@ -0,0 +1,271 @@
+/**
+ * @vayu/server — Diagnostics
+ *
+ * Aggregates what every subsystem knows about its own health into one
+ * report, so a stale dashboard can be traced to its cause: a lagging or
+ * stopped watcher, a slow event bus listener, slow COVAS stages, a client
+ * that is not draining its socket, or long database saves.
+ *
+ * Serves two views of the same data:
+ *   - `getReport()` — JSON for `GET /api/diagnostics`, with rates and
+ *     latency summaries already computed
+ *   - `renderMetrics()` — Prometheus text for `GET /metrics`; raw counters
+ *     and histograms, plus the gauges registered here (computed at scrape)
+ */
+
+import { monitorEventLoopDelay } from 'perf_hooks';
+
+import { eventBus } from './event-bus.js';
+import { journalWatcher } from './journal-watcher.js';
+import { statusWatcher } from './status-watcher.js';
+import { companionWatcher } from './companion-watcher.js';
+import { metrics, type Counter, type Histogram, type HistogramSummary, type MetricSample } from './metrics.js';
+import { getLastSave } from '../database/index.js';
+import { wsManager } from '../websocket.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Window for per-type journal event rates. */
+const RATE_WINDOW_S = 60;
+
+/** Event loop delay is reported over windows of this length. */
+const EVENT_LOOP_WINDOW_MS = 60_000;
+
+/** Channels listed in the report's event bus section. */
+const TOP_CHANNELS = 15;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Latency summary in milliseconds. */
+export interface LatencySummary {
+  count: number;
+  avgMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+  totalMs: number;
+}
+
+// ---------------------------------------------------------------------------
+// Journal event rate window
+// ---------------------------------------------------------------------------
+
+/** Per-type journal event counts in one-second slots over the last minute. */
+class EventRateWindow {
+  private slots: Array<{ second: number; counts: Map<string, number> }> = Array.from(
+    { length: RATE_WINDOW_S },
+    () => ({ second: -1, counts: new Map() }),
+  );
+
+  record(event: string, now = Date.now()): void {
+    const second = Math.floor(now / 1000);
+    const slot = this.slots[second % RATE_WINDOW_S];
+    if (slot.second !== second) {
+      slot.second = second;
+      slot.counts.clear();
+    }
+    slot.counts.set(event, (slot.counts.get(event) ?? 0) + 1);
+  }
+
+  /** Events per second for each type over the window. */
+  rates(now = Date.now()): Map<string, number> {
+    const oldest = Math.floor(now / 1000) - RATE_WINDOW_S;
+    const totals = new Map<string, number>();
+    for (const slot of this.slots) {
+      if (slot.second <= oldest) continue;
+      for (const [event, count] of slot.counts) totals.set(event, (totals.get(event) ?? 0) + count);
+    }
+    for (const [event, count] of totals) totals.set(event, count / RATE_WINDOW_S);
+    return totals;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Diagnostics
+// ---------------------------------------------------------------------------
+
+class Diagnostics {
+  private rates = new EventRateWindow();
+  private eventLoop = monitorEventLoopDelay({ resolution: 20 });
+  private eventLoopLastWindow = { meanMs: 0, p99Ms: 0, maxMs: 0 };
+
+  constructor() {
+    eventBus.onAnyJournalEvent((event) => this.rates.record(event.event));
+
+    this.eventLoop.enable();
+    const timer = setInterval(() => {
+      this.eventLoopLastWindow = this.readEventLoop();
+      this.eventLoop.reset();
+    }, EVENT_LOOP_WINDOW_MS);
+    timer.unref();
+
+    this.registerGauges();
+  }
+
+  /** Full diagnostics report for `GET /api/diagnostics`. */
+  getReport() {
+    const now = Date.now();
+    const journal = journalWatcher.getStatus();
+    const status = statusWatcher.getDiagnostics();
+    const companion = companionWatcher.getDiagnostics();
+    const lastSave = getLastSave();
+
+    const rates = this.rates.rates(now);
+    const totals = metrics.find<Counter>('vayu_journal_events_total')?.samples() ?? [];
+    const byType = totals
+      .map((s) => ({ event: s.labels.event, total: s.value, perSecond: round(rates.get(s.labels.event) ?? 0, 3) }))
+      .sort((a, b) => b.perSecond - a.perSecond || b.total - a.total);
+
+    const dispatch = summaries('vayu_event_bus_dispatch_seconds')
+      .map((s) => ({ channel: s.labels.channel, ...toLatency(s) }))
+      .sort((a, b) => b.totalMs - a.totalMs);
+
+    const memory = process.memoryUsage();
+
+    return {
+      timestamp: new Date(now).toISOString(),
+      uptimeSeconds: Math.round(process.uptime()),
+      process: {
+        rssBytes: memory.rss,
+        heapUsedBytes: memory.heapUsed,
+        eventLoopDelay: this.eventLoopLastWindow,
+      },
+      watchers: {
+        journal: { ...journal, idleSeconds: ageSeconds(journal.lastEventAt, now) },
+        status: { ...status, idleSeconds: ageSeconds(status.lastUpdateAt, now) },
+        companion,
+      },
+      journalEvents: {
+        total: eventBus.getJournalEventCount(),
+        perSecond: round([...rates.values()].reduce((a, b) => a + b, 0), 3),
+        byType,
+      },
+      eventBus: {
+        listeners: eventBus.eventNames().reduce((sum, name) => sum + eventBus.listenerCount(name), 0),
+        /** Channels by total listener time, slowest first. */
+        channels: dispatch.slice(0, TOP_CHANNELS),
+      },
+      covas: {
+        stages: Object.fromEntries(
+          summaries('vayu_covas_stage_duration_seconds').map((s) => [s.labels.stage, toLatency(s)]),
+        ),
+      },
+      websocket: wsManager.getStats(),
+      database: {
+        lastSave: lastSave ? { ...lastSave, durationMs: round(lastSave.durationMs, 2) } : null,
+        saves: toLatency(summaries('vayu_db_save_duration_seconds')[0]),
+        failures: metrics.find<Counter>('vayu_db_save_failures_total')?.get() ?? 0,
+      },
+    };
+  }
+
+  /** Prometheus text exposition for `GET /metrics`. */
+  renderMetrics(): string {
+    return metrics.render();
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private registerGauges(): void {
+    metrics.gauge('vayu_uptime_seconds', 'Seconds since the server started.', () => process.uptime());
+    metrics.gauge('vayu_process_resident_memory_bytes', 'Resident set size.', () => process.memoryUsage().rss);
+    metrics.gauge('vayu_process_heap_used_bytes', 'V8 heap in use.', () => process.memoryUsage().heapUsed);
+    metrics.gauge('vayu_event_loop_delay_seconds', 'Event loop delay over the current window.', () => {
+      const current = this.readEventLoop();
+      return [
+        { labels: { quantile: '0.5' }, value: current.meanMs / 1000 },
+        { labels: { quantile: '0.99' }, value: current.p99Ms / 1000 },
+        { labels: { quantile: '1' }, value: current.maxMs / 1000 },
+      ];
+    });
+
+    metrics.gauge('vayu_watcher_up', 'Whether each file watcher is running.', () => [
+      { labels: { watcher: 'journal' }, value: journalWatcher.getStatus().watching ? 1 : 0 },
+      { labels: { watcher: 'status' }, value: statusWatcher.getDiagnostics().watching ? 1 : 0 },
+      { labels: { watcher: 'companion' }, value: companionWatcher.getDiagnostics().watching ? 1 : 0 },
+    ]);
+    metrics.gauge(
+      'vayu_watcher_lag_seconds',
+      'Delay between the game writing the latest journal event / Status.json and VAYU emitting it.',
+      () => {
+        const samples: MetricSample[] = [];
+        const journalLag = journalWatcher.getStatus().lagMs;
+        const statusLag = statusWatcher.getDiagnostics().lagMs;
+        if (journalLag !== null) samples.push({ labels: { watcher: 'journal' }, value: journalLag / 1000 });
+        if (statusLag !== null) samples.push({ labels: { watcher: 'status' }, value: statusLag / 1000 });
+        return samples;
+      },
+    );
+    metrics.gauge('vayu_watcher_idle_seconds', 'Seconds since each watcher last emitted an update.', () => {
+      const now = Date.now();
+      const samples: MetricSample[] = [];
+      const journal = ageSeconds(journalWatcher.getStatus().lastEventAt, now);
+      const status = ageSeconds(statusWatcher.getDiagnostics().lastUpdateAt, now);
+      if (journal !== null) samples.push({ labels: { watcher: 'journal' }, value: journal });
+      if (status !== null) samples.push({ labels: { watcher: 'status' }, value: status });
+      for (const [file, at] of Object.entries(companionWatcher.getDiagnostics().lastUpdateAt)) {
+        samples.push({ labels: { watcher: 'companion', file }, value: ageSeconds(at, now) ?? 0 });
+      }
+      return samples;
+    });
+
+    metrics.gauge('vayu_event_bus_listeners', 'Listeners registered on the event bus.', () =>
+      eventBus.eventNames().reduce((sum, name) => sum + eventBus.listenerCount(name), 0));
+
+    metrics.gauge('vayu_ws_clients', 'Connected WebSocket clients.', () => wsManager.getClientCount());
+    metrics.gauge('vayu_ws_buffered_bytes', 'Bytes queued in client sockets but not yet sent.', () =>
+      wsManager.getStats().bufferedBytes);
+
+    metrics.gauge('vayu_db_size_bytes', 'Size of the database file at the last save.', () =>
+      getLastSave()?.sizeBytes ?? 0);
+  }
+
+  private readEventLoop(): { meanMs: number; p99Ms: number; maxMs: number } {
+    const h = this.eventLoop;
+    if (h.count === 0) return { meanMs: 0, p99Ms: 0, maxMs: 0 };
+    return {
+      meanMs: round(h.mean / 1e6, 2),
+      p99Ms: round(h.percentile(99) / 1e6, 2),
+      maxMs: round(h.max / 1e6, 2),
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Summaries of a histogram recorded elsewhere (empty if never created). */
+function summaries(name: string): HistogramSummary[] {
+  return metrics.find<Histogram>(name)?.summaries() ?? [];
+}
+
+function toLatency(s: HistogramSummary | undefined): LatencySummary {
+  if (!s || s.count === 0) return { count: 0, avgMs: 0, p50Ms: 0, p95Ms: 0, maxMs: 0, totalMs: 0 };
+  return {
+    count: s.count,
+    avgMs: round((s.sum / s.count) * 1000, 2),
+    p50Ms: round(s.p50 * 1000, 2),
+    p95Ms: round(s.p95 * 1000, 2),
+    maxMs: round(s.max * 1000, 2),
+    totalMs: round(s.sum * 1000, 2),
+  };
+}
+
+function ageSeconds(iso: string | null, now: number): number | null {
+  return iso ? Math.max(0, Math.round((now - Date.parse(iso)) / 1000)) : null;
+}
+
+function round(value: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+/** Singleton diagnostics aggregator. */
+export const diagnostics = new Diagnostics();
@@ -9,6 +9,7 @@
  *   - `journal:*`            — wildcard, every journal event
  *   - `journal:<EventName>`  — specific journal event (e.g. `journal:FSDJump`)
  *   - `status:update`        — Status.json changed
+ *   - `status:<flag>`        — a Status.json flag turned on or off (e.g. `status:lowFuel`)
  *   - `cargo:update`         — Cargo.json changed
  *   - `navroute:update`      — NavRoute.json changed
  *   - `market:update`        — Market.json changed
@@ -18,13 +19,44 @@
  *   - `outfitting:update`    — Outfitting.json changed
  *   - `companion:update`     — any companion file changed (wildcard)
  *   - `gamestate:change`     — game state projection changed
+ *   - `settings:change`      — runtime settings changed
  *   - `watcher:started`      — a watcher has started
  *   - `watcher:stopped`      — a watcher has stopped
  *   - `watcher:error`        — a watcher encountered an error
+ *
+ * Every emit is timed per channel (the total time spent in its listeners)
+ * and recorded as `vayu_event_bus_dispatch_seconds` for diagnostics.
+ *
+ * Outside production, subscribing to a journal event name that is not in
+ * `JournalEventMap` logs a warning — the type check only catches typos
+ * that were not cast away, and plugins are not type-checked at all.
  */
 
 import { EventEmitter } from 'events';
-import type { AnyJournalEvent, JournalEventMap, JournalEventName } from '@vayu/shared';
+import { isJournalEventName } from '@vayu/shared';
+import type {
+  AnyJournalEvent,
+  JournalEventMap,
+  JournalEventName,
+  SettingChange,
+  StatusEdge,
+  StatusEdgeFlag,
+} from '@vayu/shared';
+import { metrics } from './metrics.js';
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+const dispatchDuration = metrics.histogram(
+  'vayu_event_bus_dispatch_seconds',
+  'Time spent running the listeners of one event bus emit, by channel.',
+);
+
+const journalEventsTotal = metrics.counter(
+  'vayu_journal_events_total',
+  'Journal events emitted on the event bus, by event type.',
+);
 
 // ---------------------------------------------------------------------------
 // Event Bus
@@ -38,6 +70,7 @@ import type { AnyJournalEvent, JournalEventMap, JournalEventName } from '@vayu/s
  */
 class VayuEventBus extends EventEmitter {
   private journalEventCount = 0;
+  private warnedEventNames = new Set<string>();
 
   constructor() {
     super();
@@ -45,6 +78,20 @@ class VayuEventBus extends EventEmitter {
     this.setMaxListeners(100);
   }
 
+  /**
+   * Emit on a channel, timing its listeners. Channels without listeners are
+   * not recorded.
+   */
+  override emit(eventName: string | symbol, ...args: unknown[]): boolean {
+    if (this.listenerCount(eventName) === 0) return super.emit(eventName, ...args);
+    const start = performance.now();
+    try {
+      return super.emit(eventName, ...args);
+    } finally {
+      dispatchDuration.observe({ channel: String(eventName) }, (performance.now() - start) / 1000);
+    }
+  }
+
   // -------------------------------------------------------------------------
   // Journal events
   // -------------------------------------------------------------------------
@@ -58,6 +105,7 @@ class VayuEventBus extends EventEmitter {
    */
   emitJournalEvent(event: AnyJournalEvent): void {
     this.journalEventCount++;
+    journalEventsTotal.inc({ event: event.event });
     this.emit('journal:*', event);
     this.emit(`journal:${event.event}`, event);
   }
@@ -76,6 +124,7 @@ class VayuEventBus extends EventEmitter {
     eventName: K,
     handler: (event: JournalEventMap[K]) => void,
   ): this {
+    this.checkEventName(eventName);
     return this.on(`journal:${eventName}`, handler);
   }
 
@@ -88,6 +137,16 @@ class VayuEventBus extends EventEmitter {
     return this.on('journal:*', handler);
   }
 
+  /**
+   * Subscribe to ALL journal events, ahead of every other journal listener.
+   *
+   * For handlers that must see an event before any subsystem applies it
+   * (e.g. switching commander profiles before state is updated).
+   */
+  prependAnyJournalEvent(handler: (event: AnyJournalEvent) => void): this {
+    return this.prependListener('journal:*', handler);
+  }
+
   /**
    * Subscribe once to a specific journal event type.
    */
@@ -95,6 +154,7 @@ class VayuEventBus extends EventEmitter {
     eventName: K,
     handler: (event: JournalEventMap[K]) => void,
   ): this {
+    this.checkEventName(eventName);
     return this.once(`journal:${eventName}`, handler);
   }
 
@@ -108,6 +168,17 @@ class VayuEventBus extends EventEmitter {
     return this.off(`journal:${eventName}`, handler);
   }
 
+  /** Warn (once per name, outside production) about subscriptions that can never fire. */
+  private checkEventName(eventName: string): void {
+    if (process.env.NODE_ENV === 'production' || isJournalEventName(eventName)) return;
+    if (this.warnedEventNames.has(eventName)) return;
+    this.warnedEventNames.add(eventName);
+    console.warn(
+      `[event-bus] Subscribed to unknown journal event "${eventName}" — it is not in JournalEventMap, ` +
+      'so the handler may never run. Check the name, or model the event in @vayu/shared.',
+    );
+  }
+
   // -------------------------------------------------------------------------
   // Companion file updates
   // -------------------------------------------------------------------------
@@ -129,6 +200,29 @@ class VayuEventBus extends EventEmitter {
     return this.on('status:update', handler);
   }
 
+  /**
+   * Emit a Status.json flag transition on `status:<flag>`.
+   *
+   * @param edge - The flag, its new value, and all flags after the change.
+   */
+  emitStatusEdge(edge: StatusEdge): void {
+    this.emit(`status:${edge.flag}`, edge);
+  }
+
+  /**
+   * Subscribe to a Status.json flag turning on or off.
+   *
+   * @example
+   * ```ts
+   * eventBus.onStatusEdge('overheating', (edge) => {
+   *   if (edge.active) console.log('Heat above 100%');
+   * });
+   * ```
+   */
+  onStatusEdge(flag: StatusEdgeFlag, handler: (edge: StatusEdge) => void): this {
+    return this.on(`status:${flag}`, handler);
+  }
+
   /**
    * Emit a Cargo.json update.
    *
@@ -171,6 +265,13 @@ class VayuEventBus extends EventEmitter {
     this.emit('companion:update', { file: 'Market.json', data: market });
   }
 
+  /**
+   * Subscribe to Market.json updates.
+   */
+  onMarketUpdate(handler: (market: Record<string, unknown>) => void): this {
+    return this.on('market:update', handler);
+  }
+
   /**
    * Emit a Backpack.json update.
    */
@@ -187,6 +288,13 @@ class VayuEventBus extends EventEmitter {
     this.emit('companion:update', { file: 'ModulesInfo.json', data: modules });
   }
 
+  /**
+   * Subscribe to ModulesInfo.json updates.
+   */
+  onModulesUpdate(handler: (modules: Record<string, unknown>) => void): this {
+    return this.on('modules:update', handler);
+  }
+
   /**
    * Emit a Shipyard.json update.
    */
@@ -195,6 +303,13 @@ class VayuEventBus extends EventEmitter {
     this.emit('companion:update', { file: 'Shipyard.json', data: shipyard });
   }
 
+  /**
+   * Subscribe to Shipyard.json updates.
+   */
+  onShipyardUpdate(handler: (shipyard: Record<string, unknown>) => void): this {
+    return this.on('shipyard:update', handler);
+  }
+
   /**
    * Emit an Outfitting.json update.
    */
@@ -203,6 +318,13 @@ class VayuEventBus extends EventEmitter {
     this.emit('companion:update', { file: 'Outfitting.json', data: outfitting });
   }
 
+  /**
+   * Subscribe to Outfitting.json updates.
+   */
+  onOutfittingUpdate(handler: (outfitting: Record<string, unknown>) => void): this {
+    return this.on('outfitting:update', handler);
+  }
+
   /**
    * Subscribe to any companion file update (wildcard).
    */
@@ -233,6 +355,25 @@ class VayuEventBus extends EventEmitter {
     return this.on('gamestate:change', handler);
   }
 
+  // -------------------------------------------------------------------------
+  // Settings
+  // -------------------------------------------------------------------------
+
+  /**
+   * Emit runtime settings changes. `config` already holds the new values
+   * when this fires.
+   */
+  emitSettingsChange(changes: SettingChange[]): void {
+    this.emit('settings:change', changes);
+  }
+
+  /**
+   * Subscribe to runtime settings changes.
+   */
+  onSettingsChange(handler: (changes: SettingChange[]) => void): this {
+    return this.on('settings:change', handler);
+  }
+
   // -------------------------------------------------------------------------
   // Watcher lifecycle
   // -------------------------------------------------------------------------
@@ -0,0 +1,181 @@
+/**
+ * AGNI — Unit tests for galaxy-importer.ts
+ *
+ * Imports small EDSM-style dumps (plain and gzipped) into a real on-disk
+ * galaxy database (with migrations): nested stations and bodies, primary stars,
+ * resuming a partly imported file, and the galaxy store's radius (systems and stations) and
+ * prefix searches over the result.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import zlib from 'node:zlib';
+
+import { initGalaxyDatabase, closeGalaxyDatabase } from '../database/galaxy.js';
+import { galaxyImporter } from './galaxy-importer.js';
+import { galaxyStore } from './galaxy-store.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dir: string;
+let dbPath: string;
+
+function system(id64: number, name: string, [x, y, z]: [number, number, number], extra: Record<string, unknown> = {}) {
+  return { id: id64 + 1000, id64, name, coords: { x, y, z }, date: '2025-01-01 12:00:00', ...extra };
+}
+
+/** Write records the way EDSM does: one per line inside a JSON array. */
+function writeDump(name: string, records: object[], gzip = false): string {
+  const text = `[\n${records.map((r) => `    ${JSON.stringify(r)}`).join(',\n')}\n]\n`;
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, gzip ? zlib.gzipSync(text) : text);
+  return file;
+}
+
+const SOL = system(10477373803, 'Sol', [0, 0, 0], {
+  population: 22780919531, allegiance: 'Federation', government: 'Democracy', economy: 'Refinery', security: 'High',
+  stations: [{
+    id: 1, marketId: 128016640, name: 'Abraham Lincoln', type: 'Orbis Starport', distanceToArrival: 496,
+    haveMarket: true, haveShipyard: true, haveOutfitting: true, otherServices: ['Repair', 'Refuel'],
+  }],
+  bodies: [{ id: 2, bodyId: 3, name: 'Earth', type: 'Planet', subType: 'Earth-like world', distanceToArrival: 498, isLandable: false }],
+});
+
+const SYSTEMS = [
+  SOL,
+  system(2, 'Alpha Centauri', [3.03, -0.09, 3.16]),
+  system(3, 'Barnard\'s Star', [-3.03, 1.38, 4.94]),
+  system(4, 'Achenar', [67.5, -119.47, 24.84]),
+  system(5, 'Alioth', [-33.66, 72.47, -20.66]),
+];
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-galaxy-'));
+  dbPath = path.join(dir, 'test.db');
+  initGalaxyDatabase(dbPath);
+});
+
+afterEach(() => {
+  closeGalaxyDatabase();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('galaxyImporter', () => {
+  it('should import a gzipped systems dump with nested stations and bodies', async () => {
+    const file = writeDump('systemsPopulated.json.gz', SYSTEMS, true);
+
+    const result = await galaxyImporter.run(file);
+
+    expect(result).toMatchObject({ status: 'complete', kind: 'systems', linesRead: 7, recordsStored: 7 });
+    expect(galaxyStore.getStats()).toMatchObject({
+      systems: 5, stations: 1, bodies: 1,
+      imports: [{ source: file, kind: 'systems', lines: 7, records: 7, complete: true }],
+    });
+
+    const sol = galaxyStore.getSystemDetail('sol');
+    expect(sol).toMatchObject({
+      id64: 10477373803, edsmId: 10477374803, population: 22780919531, updatedAt: '2025-01-01T12:00:00Z',
+      stations: [{ name: 'Abraham Lincoln', systemName: 'Sol', hasShipyard: true, services: ['Repair', 'Refuel'] }],
+      bodies: [{ name: 'Earth', subType: 'Earth-like world', landable: false }],
+    });
+  });
+
+  it('should import a stations dump, skipping malformed lines', async () => {
+    const file = writeDump('stations.json', [
+      { id: 7, name: 'Jameson Memorial', type: 'Orbis Starport', systemId64: 6, systemName: 'Shinrarta Dezhra' },
+      { id: 8, name: 'No System' },
+    ]);
+    fs.appendFileSync(file, '{ not json\n');
+
+    const result = await galaxyImporter.run(file);
+
+    expect(result).toMatchObject({ status: 'complete', kind: 'stations', recordsStored: 1 });
+    expect(galaxyStore.searchStations('jameson')).toMatchObject([{ id: 7, systemName: 'Shinrarta Dezhra' }]);
+  });
+
+  it('should give systems the class of their star at 0 ls, whichever dump comes first', async () => {
+    const star = (id: number, systemId64: number, subType: string, distanceToArrival = 0) =>
+      ({ id, name: `Star ${id}`, type: 'Star', subType, systemId64, distanceToArrival });
+    await galaxyImporter.run(writeDump('bodies.json', [
+      star(20, 2, 'G (White-Yellow) Star'),
+      star(21, 2, 'M (Red dwarf) Star', 13000),
+      star(22, 5, 'Neutron Star'),
+    ]));
+    await galaxyImporter.run(writeDump('systems.json', SYSTEMS));
+    await galaxyImporter.run(writeDump('bodies7days.json', [star(23, 3, 'White Dwarf (DA) Star')]));
+
+    expect(galaxyStore.getSystem('Alpha Centauri')?.primaryStar).toBe('G');
+    expect(galaxyStore.getSystem('Alioth')?.primaryStar).toBe('N');
+    expect(galaxyStore.getSystem('Barnard\'s Star')?.primaryStar).toBe('DA');
+    expect(galaxyStore.getSystem('Achenar')?.primaryStar).toBeNull();
+  });
+
+  it('should resume a partly imported file after the last committed line', async () => {
+    const file = writeDump('systemsWithCoordinates.json', SYSTEMS);
+    const { size } = fs.statSync(file);
+    galaxyStore.saveImport({
+      source: file, kind: 'systems', size, lines: 3, records: 2, complete: false, updatedAt: '2025-01-01T00:00:00Z',
+    });
+
+    const result = await galaxyImporter.run(file);
+
+    expect(result).toMatchObject({ status: 'complete', resumedFrom: 3, recordsStored: 3 });
+    expect(galaxyStore.getSystem('Sol')).toBeNull();
+    expect(galaxyStore.getSystem('Alioth')).not.toBeNull();
+    expect(galaxyStore.getStats().imports[0]).toMatchObject({ lines: 7, records: 5, complete: true });
+  });
+
+  it('should skip a completed file unless a full import is asked for', async () => {
+    const file = writeDump('systemsWithCoordinates.json', SYSTEMS.slice(1));
+    await galaxyImporter.run(file);
+
+    const again = await galaxyImporter.run(file);
+    expect(again).toMatchObject({ status: 'complete', resumedFrom: 6, recordsStored: 0 });
+
+    const full = await galaxyImporter.run(file, { full: true });
+    expect(full).toMatchObject({ status: 'complete', resumedFrom: 0, recordsStored: 4 });
+  });
+
+  it('should report a missing file as an error', async () => {
+    const result = await galaxyImporter.run(path.join(dir, 'missing.json.gz'));
+
+    expect(result.status).toBe('error');
+    expect(galaxyImporter.isRunning()).toBe(false);
+  });
+});
+
+describe('galaxyStore searches', () => {
+  beforeEach(async () => {
+    await galaxyImporter.run(writeDump('systems.json', SYSTEMS));
+  });
+
+  it('should find systems within a radius, nearest first', () => {
+    const near = galaxyStore.systemsWithin({ x: 0, y: 0, z: 0 }, 10);
+    expect(near.map((s) => s.name)).toEqual(['Sol', 'Alpha Centauri', 'Barnard\'s Star']);
+    expect(near[1].distance).toBeCloseTo(4.38, 2);
+
+    expect(galaxyStore.systemsWithin({ x: 0, y: 0, z: 0 }, 100).map((s) => s.name)).toContain('Alioth');
+    expect(galaxyStore.systemsWithin({ x: 60, y: -110, z: 20 }, 20).map((s) => s.name)).toEqual(['Achenar']);
+  });
+
+  it('should find the stations of the systems within a radius', () => {
+    expect(galaxyStore.stationsWithin({ x: 3, y: 0, z: 3 }, 5)).toMatchObject([
+      { name: 'Abraham Lincoln', systemName: 'Sol', distance: 4.24 },
+    ]);
+    expect(galaxyStore.stationsWithin({ x: 3, y: 0, z: 3 }, 4)).toEqual([]);
+  });
+
+  it('should autocomplete system names by prefix, case-insensitively', () => {
+    expect(galaxyStore.searchSystems('al').map((s) => s.name)).toEqual(['Alioth', 'Alpha Centauri']);
+    expect(galaxyStore.searchSystems('a', 1)).toHaveLength(1);
+    expect(galaxyStore.searchSystems('')).toEqual([]);
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * @vayu/server — Galaxy Dump Importer
+ *
+ * Streams a public EDSM nightly dump (systemsWithCoordinates, systemsPopulated,
+ * stations or bodies; `.json` or `.json.gz`) into the galaxy database.
+ * The dumps are one JSON array with one record per line, so they are read
+ * line by line and never held in memory whole.
+ *
+ * Key behaviors:
+ *   - Resumable: every batch is written in one transaction together with
+ *     the number of lines read, so an interrupted import (server stopped,
+ *     error) continues after the last committed batch. A file that has
+ *     changed size since starts over; a complete one is skipped unless
+ *     `full` is set
+ *   - Records are upserted, so re-importing or importing a newer dump over
+ *     an older one is safe
+ *   - Nested `stations` and `bodies` of systemsPopulated records are
+ *     imported with their system
+ *   - Malformed lines and records without an address or coordinates are
+ *     skipped
+ *   - Progress is broadcast over WebSocket as `galaxy:import` (at most
+ *     once a second while running)
+ *   - Only one import may run at a time
+ *
+ * The galaxy database is its own SQLite file on disk, so even the full
+ * 100+ million system dump can be imported, given the disk space and time.
+ */
+
+import fs from 'node:fs';
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+import readline from 'node:readline';
+import zlib from 'node:zlib';
+import type {
+  GalaxyBody,
+  GalaxyDumpKind,
+  GalaxyStation,
+  GalaxySystem,
+  WSGalaxyImportPayload,
+} from '@vayu/shared';
+
+import { galaxyStore } from './galaxy-store.js';
+import { getGalaxyDb } from '../database/galaxy.js';
+import { wsManager } from '../websocket.js';
+
+// ---------------------------------------------------------------------------
+// Logger prefix
+// ---------------------------------------------------------------------------
+
+const LOG_PREFIX = '[galaxy-importer]';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Lines per transaction (and per resume point). */
+const BATCH_LINES = 2000;
+
+/** Minimum time between progress broadcasts while running. */
+const BROADCAST_INTERVAL_MS = 1000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for a single import run. */
+export interface GalaxyImportOptions {
+  /** What the dump holds; guessed from the file name when omitted. */
+  kind?: GalaxyDumpKind;
+  /** Start from the first line, even if the file was (partly) imported. */
+  full?: boolean;
+}
+
+/** Records parsed from a batch of lines. */
+interface Batch {
+  systems: GalaxySystem[];
+  stations: GalaxyStation[];
+  bodies: GalaxyBody[];
+}
+
+type DumpRecord = Record<string, any>;
+
+// ---------------------------------------------------------------------------
+// Galaxy Importer
+// ---------------------------------------------------------------------------
+
+class GalaxyImporter {
+  /** Progress of the current (or most recent) run. */
+  private progress: WSGalaxyImportPayload | null = null;
+  private lastBroadcast = 0;
+
+  /** Whether an import is currently running. */
+  isRunning(): boolean {
+    return this.progress?.status === 'running';
+  }
+
+  /** Progress of the current or most recent run, or null if none has run. */
+  getProgress(): WSGalaxyImportPayload | null {
+    return this.progress ? { ...this.progress } : null;
+  }
+
+  /**
+   * Import a dump file, resuming an earlier partial import of it.
+   *
+   * @throws If an import is already running.
+   */
+  async run(filePath: string, options: GalaxyImportOptions = {}): Promise<WSGalaxyImportPayload> {
+    if (this.isRunning()) {
+      throw new Error('A galaxy import is already running');
+    }
+
+    const source = path.resolve(filePath);
+    const kind = options.kind ?? guessKind(source);
+    this.progress = {
+      status: 'running',
+      source,
+      kind,
+      resumedFrom: 0,
+      linesRead: 0,
+      recordsStored: 0,
+      bytesRead: 0,
+      bytesTotal: 0,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+    };
+
+    try {
+      const { size } = await stat(source);
+      this.progress.bytesTotal = size;
+
+      const marker = galaxyStore.getImport(source);
+      const resumable = !options.full && marker && marker.size === size && marker.kind === kind;
+      if (resumable && marker.complete) {
+        console.log(`${LOG_PREFIX} ${path.basename(source)} already imported`);
+        this.progress.resumedFrom = this.progress.linesRead = marker.lines;
+        this.progress.bytesRead = size;
+      } else {
+        const start = resumable ? marker : { lines: 0, records: 0 };
+        this.progress.resumedFrom = start.lines;
+        console.log(
+          `${LOG_PREFIX} Importing ${kind} from ${path.basename(source)}` +
+            (start.lines > 0 ? `, resuming after line ${start.lines}` : ''),
+        );
+        await this.importFile(source, kind, size, start.records);
+        console.log(`${LOG_PREFIX} Import complete: ${this.progress.recordsStored} records`);
+      }
+      this.progress.status = 'complete';
+    } catch (err) {
+      this.progress.status = 'error';
+      this.progress.error = err instanceof Error ? err.message : String(err);
+      console.error(`${LOG_PREFIX} Import failed:`, this.progress.error);
+    }
+
+    this.progress.finishedAt = new Date().toISOString();
+    this.broadcast(true);
+    return { ...this.progress };
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private async importFile(source: string, kind: GalaxyDumpKind, size: number, earlierRecords: number): Promise<void> {
+    const progress = this.progress!;
+    const file = fs.createReadStream(source);
+    file.on('data', (chunk) => { progress.bytesRead += chunk.length; });
+    const input = source.endsWith('.gz') ? file.pipe(zlib.createGunzip()) : file;
+    file.on('error', (err) => input.destroy(err));
+
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    let batch: Batch = { systems: [], stations: [], bodies: [] };
+    let lineNo = 0;
+    let pending = 0;
+    let records = earlierRecords;
+
+    const commit = (complete: boolean) => {
+      const stored = batch.systems.length + batch.stations.length + batch.bodies.length;
+      getGalaxyDb().transaction(() => {
+        galaxyStore.storeSystems(batch.systems);
+        galaxyStore.storeStations(batch.stations);
+        galaxyStore.storeBodies(batch.bodies);
+        galaxyStore.saveImport({
+          source, kind, size, lines: lineNo, records: records + stored, complete, updatedAt: new Date().toISOString(),
+        });
+      })();
+      records += stored;
+      progress.recordsStored += stored;
+      batch = { systems: [], stations: [], bodies: [] };
+      pending = 0;
+    };
+
+    try {
+      for await (const line of lines) {
+        lineNo++;
+        if (lineNo <= progress.resumedFrom) continue;
+
+        const record = parseLine(line);
+        if (record) addRecord(batch, kind, record);
+        progress.linesRead = lineNo;
+
+        if (++pending >= BATCH_LINES) {
+          commit(false);
+          this.broadcast();
+        }
+      }
+    } finally {
+      lines.close();
+      file.destroy();
+    }
+
+    progress.linesRead = lineNo;
+    commit(true);
+  }
+
+  private broadcast(force = false): void {
+    if (!this.progress) return;
+    const now = Date.now();
+    if (!force && now - this.lastBroadcast < BROADCAST_INTERVAL_MS) return;
+    this.lastBroadcast = now;
+    wsManager.broadcast<WSGalaxyImportPayload>('galaxy:import', { ...this.progress });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Dump parsing
+// ---------------------------------------------------------------------------
+
+/** The dump kind from the EDSM file name: stations.json.gz, bodies7days.json.gz, else systems. */
+function guessKind(source: string): GalaxyDumpKind {
+  const name = path.basename(source).toLowerCase();
+  if (name.includes('station')) return 'stations';
+  if (name.includes('bodies') || name.includes('body')) return 'bodies';
+  return 'systems';
+}
+
+/** One record of the dump array: a line holding an object, minus the trailing comma. */
+function parseLine(line: string): DumpRecord | null {
+  let text = line.trim();
+  if (text.endsWith(',')) text = text.slice(0, -1);
+  if (!text.startsWith('{')) return null; // "[", "]" or blank
+  try {
+    return JSON.parse(text) as DumpRecord;
+  } catch {
+    return null;
+  }
+}
+
+function addRecord(batch: Batch, kind: GalaxyDumpKind, record: DumpRecord): void {
+  if (kind === 'stations') {
+    const station = toStation(record, null);
+    if (station) batch.stations.push(station);
+    return;
+  }
+  if (kind === 'bodies') {
+    const body = toBody(record, null);
+    if (body) batch.bodies.push(body);
+    return;
+  }
+
+  const system = toSystem(record);
+  if (!system) return;
+  batch.systems.push(system);
+  for (const s of asArray(record['stations'])) {
+    const station = toStation(s, system);
+    if (station) batch.stations.push(station);
+  }
+  for (const b of asArray(record['bodies'])) {
+    const body = toBody(b, system);
+    if (body) batch.bodies.push(body);
+  }
+}
+
+function toSystem(r: DumpRecord): GalaxySystem | null {
+  const coords = r['coords'];
+  if (typeof r['id64'] !== 'number' || typeof r['name'] !== 'string' || !coords || typeof coords.x !== 'number') {
+    return null;
+  }
+  return {
+    id64: r['id64'],
+    edsmId: num(r['id']),
+    name: r['name'],
+    coordinates: { x: coords.x, y: coords.y, z: coords.z },
+    allegiance: str(r['allegiance']),
+    government: str(r['government']),
+    economy: str(r['economy']),
+    security: str(r['security']),
+    population: num(r['population']),
+    primaryStar: null, // from the bodies dumps, see galaxyStore.storeBodies
+    updatedAt: isoDate(r['date']),
+  };
+}
+
+function toStation(r: DumpRecord, system: GalaxySystem | null): GalaxyStation | null {
+  const systemId64 = system?.id64 ?? r['systemId64'];
+  const systemName = system?.name ?? r['systemName'];
+  if (typeof r['id'] !== 'number' || typeof r['name'] !== 'string' || typeof systemId64 !== 'number') return null;
+  return {
+    id: r['id'],
+    marketId: num(r['marketId']),
+    name: r['name'],
+    type: str(r['type']),
+    systemId64,
+    systemName: typeof systemName === 'string' ? systemName : '',
+    distanceToArrival: num(r['distanceToArrival']),
+    allegiance: str(r['allegiance']),
+    government: str(r['government']),
+    economy: str(r['economy']),
+    hasMarket: r['haveMarket'] === true,
+    hasShipyard: r['haveShipyard'] === true,
+    hasOutfitting: r['haveOutfitting'] === true,
+    services: asArray(r['otherServices']).filter((s): s is string => typeof s === 'string'),
+    updatedAt: isoDate(r['updateTime']?.information),
+  };
+}
+
+function toBody(r: DumpRecord, system: GalaxySystem | null): GalaxyBody | null {
+  const systemId64 = system?.id64 ?? r['systemId64'];
+  if (typeof r['id'] !== 'number' || typeof r['name'] !== 'string' || typeof systemId64 !== 'number') return null;
+  return {
+    id: r['id'],
+    bodyId: num(r['bodyId']),
+    name: r['name'],
+    type: str(r['type']) ?? 'Unknown',
+    subType: str(r['subType']),
+    systemId64,
+    distanceToArrival: num(r['distanceToArrival']),
+    landable: r['isLandable'] === true,
+    terraformState: str(r['terraformingState']),
+  };
+}
+
+function asArray(value: unknown): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function str(value: unknown): string | null {
+  return typeof value === 'string' && value !== '' ? value : null;
+}
+
+function num(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/** EDSM dates are "YYYY-MM-DD HH:MM:SS" in UTC. */
+function isoDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) return null;
+  return value.includes('T') ? value : `${value.replace(' ', 'T')}Z`;
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+/** Singleton galaxy dump importer. */
+export const galaxyImporter = new GalaxyImporter();
@@ -0,0 +1,378 @@
+/**
+ * @vayu/server — Galaxy Database
+ *
+ * Systems, stations and bodies imported from the public EDSM dumps (see
+ * galaxy-importer.ts), answering system lookups, name autocomplete,
+ * "systems within N ly" and station searches locally instead of asking
+ * EDSM. The data lives in its own on-disk database (database/galaxy.ts),
+ * not in the in-memory one.
+ *
+ * Key behaviors:
+ *   - The spatial index is a 50 ly grid: every system stores its cell, and
+ *     a radius search reads only the cells overlapping the search sphere
+ *     through the (cell_x, cell_y, cell_z) index, then filters by exact
+ *     distance
+ *   - Names match in any case; autocomplete is a prefix range scan on the
+ *     name index
+ *   - Re-importing a system keeps populated-system details a coordinates-
+ *     only dump does not carry
+ *   - A system's primary star is its star at 0 ls from the bodies dumps,
+ *     whichever of the two is imported first
+ *   - Queries return nothing (rather than throwing) until the database has
+ *     been initialised
+ */
+
+import type {
+  Coordinates,
+  GalaxyBody,
+  GalaxyDatabaseStats,
+  GalaxyDumpKind,
+  GalaxyImportRecord,
+  GalaxyNearbyStation,
+  GalaxyNearbySystem,
+  GalaxyStation,
+  GalaxySystem,
+  GalaxySystemDetail,
+} from '@vayu/shared';
+import { roundTo, starClassFromSubType } from '@vayu/shared';
+
+import { getGalaxyDb, isGalaxyDatabaseReady } from '../database/galaxy.js';
+import { clampInt } from '../database/rows.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Edge of a spatial index cell in light years. */
+export const GALAXY_CELL_SIZE_LY = 50;
+
+// ---------------------------------------------------------------------------
+// Galaxy Store
+// ---------------------------------------------------------------------------
+
+class GalaxyStore {
+  // -------------------------------------------------------------------------
+  // Writes (callers wrap batches in a transaction)
+  // -------------------------------------------------------------------------
+
+  storeSystems(systems: GalaxySystem[]): void {
+    const stmt = getGalaxyDb().prepare(
+      `INSERT INTO galaxy_systems
+         (id64, edsm_id, name, x, y, z, cell_x, cell_y, cell_z, allegiance, government, economy, security, population,
+          updated_at, primary_star_type)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, (${PRIMARY_STAR_OF}))
+       ON CONFLICT (id64) DO UPDATE SET
+         edsm_id = COALESCE(excluded.edsm_id, edsm_id),
+         name = excluded.name,
+         x = excluded.x, y = excluded.y, z = excluded.z,
+         cell_x = excluded.cell_x, cell_y = excluded.cell_y, cell_z = excluded.cell_z,
+         allegiance = COALESCE(excluded.allegiance, allegiance),
+         government = COALESCE(excluded.government, government),
+         economy = COALESCE(excluded.economy, economy),
+         security = COALESCE(excluded.security, security),
+         population = COALESCE(excluded.population, population),
+         updated_at = COALESCE(excluded.updated_at, updated_at)`,
+    );
+    for (const s of systems) {
+      const { x, y, z } = s.coordinates;
+      stmt.run(
+        s.id64, s.edsmId, s.name, x, y, z, cellOf(x), cellOf(y), cellOf(z),
+        s.allegiance, s.government, s.economy, s.security, s.population, s.updatedAt, s.id64,
+      );
+    }
+  }
+
+  storeStations(stations: GalaxyStation[]): void {
+    const stmt = getGalaxyDb().prepare(
+      `INSERT OR REPLACE INTO galaxy_stations
+         (id, market_id, name, type, system_id64, system_name, distance_to_arrival, allegiance, government, economy,
+          has_market, has_shipyard, has_outfitting, services, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    for (const s of stations) {
+      stmt.run(
+        s.id, s.marketId, s.name, s.type, s.systemId64, s.systemName, s.distanceToArrival,
+        s.allegiance, s.government, s.economy, s.hasMarket ? 1 : 0, s.hasShipyard ? 1 : 0,
+        s.hasOutfitting ? 1 : 0, JSON.stringify(s.services), s.updatedAt,
+      );
+    }
+  }
+
+  storeBodies(bodies: GalaxyBody[]): void {
+    const db = getGalaxyDb();
+    const stmt = db.prepare(
+      `INSERT OR REPLACE INTO galaxy_bodies
+         (id, body_id, name, type, sub_type, system_id64, distance_to_arrival, landable, terraform_state)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    const primary = db.prepare('UPDATE galaxy_systems SET primary_star_type = ? WHERE id64 = ?');
+    for (const b of bodies) {
+      stmt.run(
+        b.id, b.bodyId, b.name, b.type, b.subType, b.systemId64, b.distanceToArrival,
+        b.landable ? 1 : 0, b.terraformState,
+      );
+      if (b.type === 'Star' && b.distanceToArrival === 0) primary.run(b.subType, b.systemId64);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Import markers
+  // -------------------------------------------------------------------------
+
+  /** How far the import of a dump file got, with the file size it was started at. */
+  getImport(source: string): (GalaxyImportRecord & { size: number }) | null {
+    const row = rawRows(`${IMPORT_SELECT} WHERE source = ?`, source)[0];
+    return row ? { ...toImport(row), size: row[6] as number } : null;
+  }
+
+  saveImport(record: GalaxyImportRecord & { size: number }): void {
+    getGalaxyDb().prepare(
+      `INSERT OR REPLACE INTO galaxy_imports (source, kind, size, lines, records, complete, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    ).run(record.source, record.kind, record.size, record.lines, record.records, record.complete ? 1 : 0, record.updatedAt);
+  }
+
+  // -------------------------------------------------------------------------
+  // Queries
+  // -------------------------------------------------------------------------
+
+  /** Counts of systems, stations and bodies, and the dump files imported. */
+  getStats(): GalaxyDatabaseStats {
+    if (!isGalaxyDatabaseReady()) return { systems: 0, stations: 0, bodies: 0, imports: [] };
+    const count = (table: string) => getGalaxyDb().prepare(`SELECT COUNT(*) FROM ${table}`).pluck().get() as number;
+    return {
+      systems: count('galaxy_systems'),
+      stations: count('galaxy_stations'),
+      bodies: count('galaxy_bodies'),
+      imports: rawRows(`${IMPORT_SELECT} ORDER BY updated_at DESC`).map(toImport),
+    };
+  }
+
+  /** A system by name, in any case. */
+  getSystem(name: string): GalaxySystem | null {
+    if (!isGalaxyDatabaseReady()) return null;
+    return rawRows(`${SYSTEM_SELECT} WHERE name = ?`, name.trim()).map(toSystem)[0] ?? null;
+  }
+
+  /** A system with its stations (nearest the arrival star first) and bodies. */
+  getSystemDetail(name: string): GalaxySystemDetail | null {
+    const system = this.getSystem(name);
+    if (!system) return null;
+
+    const stations = rawRows(
+      `${STATION_SELECT} WHERE system_id64 = ? ORDER BY distance_to_arrival IS NULL, distance_to_arrival`,
+      system.id64,
+    );
+    const bodies = rawRows(
+      `SELECT id, body_id, name, type, sub_type, system_id64, distance_to_arrival, landable, terraform_state
+       FROM galaxy_bodies WHERE system_id64 = ? ORDER BY body_id IS NULL, body_id, name`,
+      system.id64,
+    );
+    return { ...system, stations: stations.map(toStation), bodies: bodies.map(toBody) };
+  }
+
+  /** Systems whose name starts with `prefix`, in any case, alphabetically. */
+  searchSystems(prefix: string, limit = 10): GalaxySystem[] {
+    const range = prefixRange(prefix);
+    if (!range || !isGalaxyDatabaseReady()) return [];
+    return rawRows(
+      `${SYSTEM_SELECT} WHERE name >= ? AND name < ? ORDER BY name LIMIT ?`,
+      range[0], range[1], clampInt(limit, 1, 100, 10),
+    ).map(toSystem);
+  }
+
+  /** Stations whose name starts with `prefix`, in any case, alphabetically. */
+  searchStations(prefix: string, limit = 10): GalaxyStation[] {
+    const range = prefixRange(prefix);
+    if (!range || !isGalaxyDatabaseReady()) return [];
+    return rawRows(
+      `${STATION_SELECT} WHERE name >= ? AND name < ? ORDER BY name, system_name LIMIT ?`,
+      range[0], range[1], clampInt(limit, 1, 100, 10),
+    ).map(toStation);
+  }
+
+  /**
+   * Systems within `radius` ly of a point, nearest first. Reads one
+   * index range per column of grid cells overlapping the search sphere.
+   */
+  systemsWithin(center: Coordinates, radius: number, limit = 100): GalaxyNearbySystem[] {
+    return this.allSystemsWithin(center, radius)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, clampInt(limit, 1, 1000, 100));
+  }
+
+  /** Every system within `radius` ly of a point, in no order: the route plotter's candidates. */
+  allSystemsWithin(center: Coordinates, radius: number): GalaxyNearbySystem[] {
+    return this.queryWithin(`${SYSTEM_SELECT} s WHERE ${WITHIN_CELL_COLUMN}`, center, radius, (row) => {
+      const system = toSystem(row);
+      return { ...system, distance: roundTo(distance(center, system.coordinates), 2) };
+    });
+  }
+
+  /** Every station in the systems within `radius` ly of a point, nearest system first. */
+  stationsWithin(center: Coordinates, radius: number): GalaxyNearbyStation[] {
+    const sql = `
+      SELECT ${STATION_COLUMNS.map((c) => `st.${c}`).join(', ')}, s.x, s.y, s.z
+      FROM galaxy_stations st JOIN galaxy_systems s ON s.id64 = st.system_id64
+      WHERE ${WITHIN_CELL_COLUMN}`;
+    const found = this.queryWithin(sql, center, radius, (row) => {
+      const at = row.slice(STATION_COLUMNS.length) as number[];
+      return { ...toStation(row), distance: roundTo(distance(center, { x: at[0], y: at[1], z: at[2] }), 2) };
+    });
+    return found.sort((a, b) => a.distance - b.distance);
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  /**
+   * Run a query filtered by `WITHIN_CELL_COLUMN` once per column of grid
+   * cells overlapping the sphere, so each run is one index range.
+   */
+  private queryWithin<T>(sql: string, center: Coordinates, radius: number, map: (row: Row) => T): T[] {
+    if (!isGalaxyDatabaseReady() || !(radius > 0)) return [];
+
+    const stmt = getGalaxyDb().prepare(sql).raw();
+    const found: T[] = [];
+    const [minZ, maxZ] = [cellOf(center.z - radius), cellOf(center.z + radius)];
+    for (let cx = cellOf(center.x - radius); cx <= cellOf(center.x + radius); cx++) {
+      for (let cy = cellOf(center.y - radius); cy <= cellOf(center.y + radius); cy++) {
+        const rows = stmt.iterate(
+          cx, cy, minZ, maxZ, center.x, center.x, center.y, center.y, center.z, center.z, radius * radius,
+        ) as IterableIterator<Row>;
+        for (const row of rows) found.push(map(row));
+      }
+    }
+    return found;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SQL fragments
+// ---------------------------------------------------------------------------
+
+const SYSTEM_SELECT = `
+  SELECT id64, edsm_id, name, x, y, z, allegiance, government, economy, security, population, updated_at,
+         primary_star_type
+  FROM galaxy_systems`;
+
+/** Sub type of a system's star at 0 ls, for the system's id64. */
+const PRIMARY_STAR_OF = `
+  SELECT sub_type FROM galaxy_bodies
+  WHERE system_id64 = ? AND type = 'Star' AND distance_to_arrival = 0
+  LIMIT 1`;
+
+const STATION_COLUMNS = [
+  'id', 'market_id', 'name', 'type', 'system_id64', 'system_name', 'distance_to_arrival', 'allegiance',
+  'government', 'economy', 'has_market', 'has_shipyard', 'has_outfitting', 'services', 'updated_at',
+];
+
+const STATION_SELECT = `SELECT ${STATION_COLUMNS.join(', ')} FROM galaxy_stations`;
+
+/** Systems (aliased `s`) in one column of grid cells and within the search sphere. */
+const WITHIN_CELL_COLUMN = `
+  s.cell_x = ? AND s.cell_y = ? AND s.cell_z BETWEEN ? AND ?
+  AND (s.x - ?) * (s.x - ?) + (s.y - ?) * (s.y - ?) + (s.z - ?) * (s.z - ?) <= ?`;
+
+const IMPORT_SELECT = `
+  SELECT source, kind, lines, records, complete, updated_at, size
+  FROM galaxy_imports`;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function cellOf(coordinate: number): number {
+  return Math.floor(coordinate / GALAXY_CELL_SIZE_LY);
+}
+
+/**
+ * Bounds of the names starting with `prefix` under NOCASE ordering: the
+ * lower-cased prefix, and the prefix with its last character incremented.
+ */
+function prefixRange(prefix: string): [string, string] | null {
+  const lower = prefix.trim().toLowerCase();
+  if (!lower) return null;
+  const last = lower.charCodeAt(lower.length - 1);
+  return [lower, lower.slice(0, -1) + String.fromCharCode(last + 1)];
+}
+
+function distance(a: Coordinates, b: Coordinates): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+/** A result row as an array of column values. */
+type Row = unknown[];
+
+function rawRows(sql: string, ...params: unknown[]): Row[] {
+  return getGalaxyDb().prepare(sql).raw().all(...params) as Row[];
+}
+
+function toSystem(row: Row): GalaxySystem {
+  return {
+    id64: row[0] as number,
+    edsmId: row[1] as number | null,
+    name: row[2] as string,
+    coordinates: { x: row[3] as number, y: row[4] as number, z: row[5] as number },
+    allegiance: row[6] as string | null,
+    government: row[7] as string | null,
+    economy: row[8] as string | null,
+    security: row[9] as string | null,
+    population: row[10] as number | null,
+    primaryStar: starClassFromSubType(row[12] as string | null),
+    updatedAt: row[11] as string | null,
+  };
+}
+
+function toStation(row: Row): GalaxyStation {
+  return {
+    id: row[0] as number,
+    marketId: row[1] as number | null,
+    name: row[2] as string,
+    type: row[3] as string | null,
+    systemId64: row[4] as number,
+    systemName: row[5] as string,
+    distanceToArrival: row[6] as number | null,
+    allegiance: row[7] as string | null,
+    government: row[8] as string | null,
+    economy: row[9] as string | null,
+    hasMarket: row[10] === 1,
+    hasShipyard: row[11] === 1,
+    hasOutfitting: row[12] === 1,
+    services: JSON.parse(row[13] as string) as string[],
+    updatedAt: row[14] as string | null,
+  };
+}
+
+function toBody(row: Row): GalaxyBody {
+  return {
+    id: row[0] as number,
+    bodyId: row[1] as number | null,
+    name: row[2] as string,
+    type: row[3] as string,
+    subType: row[4] as string | null,
+    systemId64: row[5] as number,
+    distanceToArrival: row[6] as number | null,
+    landable: row[7] === 1,
+    terraformState: row[8] as string | null,
+  };
+}
+
+function toImport(row: Row): GalaxyImportRecord {
+  return {
+    source: row[0] as string,
+    kind: row[1] as GalaxyDumpKind,
+    lines: row[2] as number,
+    records: row[3] as number,
+    complete: row[4] === 1,
+    updatedAt: row[5] as string,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+/** Global galaxy database. */
+export const galaxyStore = new GalaxyStore();
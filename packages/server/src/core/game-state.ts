@@ -4,7 +4,8 @@
  * The HEART of VAYU. Subscribes to all journal events via the event bus
  * and maintains a complete, up-to-date GameState singleton. When any part
  * of the state changes, it broadcasts the delta via WebSocket to all
- * connected clients.
+ * connected clients — as a JSON Patch (`state:patch`) to clients that
+ * sync by sequence, and as the full slice (`state:<section>`) to others.
  *
  * Event flow:
  *   Journal file -> JournalWatcher -> EventBus -> GameStateManager -> WebSocket
@@ -23,6 +24,8 @@
  */
 
 import { eventBus } from './event-bus.js';
+import { stateSnapshot } from './state-snapshot.js';
+import { stateSync } from './state-sync.js';
 import { wsManager } from '../websocket.js';
 import type {
   GameState,
@@ -51,7 +54,7 @@ import type {
   CommanderRanks,
   CommanderReputation,
 } from '@vayu/shared';
-import { MATERIAL_GRADE_CAPS } from '@vayu/shared';
+import { MATERIAL_GRADE_CAPS, decodeStatusFlags } from '@vayu/shared';
 
 // ---------------------------------------------------------------------------
 // Logging helper
@@ -237,6 +240,42 @@ function createDefaultOdyssey(): OdysseyState {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Snapshot Schema
+// ---------------------------------------------------------------------------
+
+/**
+ * Schema version of the persisted GameState snapshot. Bump this when a
+ * change to `GameState` cannot be handled by merging onto the defaults
+ * (renamed or re-typed fields) and add a migration from the old version.
+ */
+const GAME_STATE_SNAPSHOT_VERSION = 1;
+
+/** Upgrades for older GameState snapshots, keyed by the version they upgrade from. */
+const GAME_STATE_SNAPSHOT_MIGRATIONS: Record<number, (state: any) => unknown> = {};
+
+/**
+ * Overlay saved values onto a default object. Nested plain objects are
+ * merged recursively so fields added since the snapshot was written keep
+ * their defaults; arrays and primitives are taken from the saved value.
+ */
+function withDefaults<T>(defaults: T, saved: unknown): T {
+  if (!isPlainObject(defaults) || !isPlainObject(saved)) {
+    return (saved === undefined ? defaults : saved) as T;
+  }
+  const result: Record<string, unknown> = { ...defaults };
+  for (const [key, value] of Object.entries(saved)) {
+    result[key] = key in defaults
+      ? withDefaults((defaults as Record<string, unknown>)[key], value)
+      : value;
+  }
+  return result as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 // ---------------------------------------------------------------------------
 // GameStateManager
 // ---------------------------------------------------------------------------
@@ -253,8 +292,18 @@ class GameStateManager {
 
   constructor() {
     this.state = this.createInitialState();
+    stateSync.seed(this.state);
     this.registerEventHandlers();
     this.startSessionTimer();
+
+    stateSnapshot.register<GameState>('gameState', {
+      version: GAME_STATE_SNAPSHOT_VERSION,
+      migrations: GAME_STATE_SNAPSHOT_MIGRATIONS,
+      save: () => this.state,
+      restore: (saved) => this.restoreState(saved),
+      reset: () => this.restoreState({}),
+    });
+
     log('Initialized');
   }
 
@@ -665,10 +714,11 @@ class GameStateManager {
     eventBus.onJournalEvent('ShieldState', (e) => {
       // ShieldState doesn't map to a ShipState field directly, but we
       // broadcast so the UI can show shield up/down status.
+      // Patch-synced clients get shieldsUp from Status.json flags instead.
       wsManager.broadcast('state:ship', {
         ...this.state.ship,
         _shieldsUp: e.ShieldsUp,
-      });
+      }, { statePatches: false });
     });
 
     // FuelScoop -> update fuel level
@@ -1909,31 +1959,31 @@ class GameStateManager {
       // Status.json flag bits
       const flags = (status['Flags'] as number) ?? 0;
       const flags2 = (status['Flags2'] as number) ?? 0;
+      const decoded = decodeStatusFlags(flags, flags2);
 
-      // Decode key flags from the bitfield
-      loc.docked = (flags & 0x00000001) !== 0;
-      loc.landed = (flags & 0x00000002) !== 0;
-      loc.supercruise = (flags & 0x00000010) !== 0;
-      loc.inSRV = (flags & 0x04000000) !== 0;
-      loc.inFighter = (flags & 0x02000000) !== 0;
-      loc.inMulticrew = (flags & 0x08000000) !== 0;
+      loc.docked = decoded.docked;
+      loc.landed = decoded.landed;
+      loc.supercruise = decoded.supercruise;
+      loc.inSRV = decoded.inSrv;
+      loc.inFighter = decoded.inFighter;
+      loc.inMulticrew = decoded.inMulticrew;
 
-      // Ship status flags from the bitfield
+      // Ship status flags
       const ship = this.state.ship;
-      ship.landingGearDown    = (flags & 0x00000004) !== 0;  // bit 2
-      ship.shieldsUp          = (flags & 0x00000008) !== 0;  // bit 3
-      ship.hardpointsDeployed = (flags & 0x00000040) !== 0;  // bit 6
-      ship.lightsOn           = (flags & 0x00000100) !== 0;  // bit 8
-      ship.cargoScoopOpen     = (flags & 0x00000200) !== 0;  // bit 9
-      ship.fsdMassLocked      = (flags & 0x00010000) !== 0;  // bit 16
-      ship.fsdCharging        = (flags & 0x00020000) !== 0;  // bit 17
-      ship.fsdCooldown        = (flags & 0x00040000) !== 0;  // bit 18
-      ship.silentRunning      = (flags & 0x00001000) !== 0;  // bit 12
-      ship.nightVision        = (flags & 0x10000000) !== 0;  // bit 28
+      ship.landingGearDown    = decoded.landingGearDown;
+      ship.shieldsUp          = decoded.shieldsUp;
+      ship.hardpointsDeployed = decoded.hardpointsDeployed;
+      ship.lightsOn           = decoded.lightsOn;
+      ship.cargoScoopOpen     = decoded.cargoScoopDeployed;
+      ship.fsdMassLocked      = decoded.fsdMassLocked;
+      ship.fsdCharging        = decoded.fsdCharging;
+      ship.fsdCooldown        = decoded.fsdCooldown;
+      ship.silentRunning      = decoded.silentRunning;
+      ship.nightVision        = decoded.nightVision;
 
       // Odyssey flags (Flags2)
-      loc.onFoot = (flags2 & 0x00000001) !== 0;
-      loc.inTaxi = (flags2 & 0x00000004) !== 0;
+      loc.onFoot = decoded.onFoot;
+      loc.inTaxi = decoded.inTaxi;
       this.state.odyssey.onFoot = loc.onFoot;
 
       // Fuel update from Status.json
@@ -1977,6 +2027,7 @@ class GameStateManager {
       wsManager.broadcast('status:flags', {
         flags,
         flags2,
+        decoded,
         pips: (status['Pips'] as [number, number, number]) ?? [0, 0, 0],
         fireGroup: (status['FireGroup'] as number) ?? 0,
         guiFocus: (status['GuiFocus'] as number) ?? 0,
@@ -2081,6 +2132,32 @@ class GameStateManager {
     return this.eventsProcessed;
   }
 
+  /**
+   * Replace the current state with a previously persisted snapshot. Every
+   * slice is merged onto its defaults, so snapshots written before a field
+   * existed still produce a complete GameState. Broadcasts every slice.
+   */
+  restoreState(saved: Partial<GameState>): void {
+    const initial = this.createInitialState();
+    this.state = {
+      commander: withDefaults(initial.commander, saved.commander),
+      ship: withDefaults(initial.ship, saved.ship),
+      location: withDefaults(initial.location, saved.location),
+      materials: withDefaults(initial.materials, saved.materials),
+      missions: Array.isArray(saved.missions) ? saved.missions : [],
+      session: withDefaults(initial.session, saved.session),
+      carrier: saved.carrier ?? null,
+      odyssey: withDefaults(initial.odyssey, saved.odyssey),
+      initialized: saved.initialized === true,
+      lastUpdated: saved.lastUpdated ?? initial.lastUpdated,
+    };
+
+    for (const section of ['commander', 'ship', 'location', 'materials', 'missions', 'session', 'carrier', 'odyssey']) {
+      this.broadcastStateChange(section);
+    }
+    log(`Restored state for CMDR ${this.state.commander.name || '(unknown)'}`);
+  }
+
   /**
    * Reset session statistics. Called automatically on LoadGame, or can be
    * called manually when the user wants to start tracking a new session.
@@ -2114,10 +2191,11 @@ class GameStateManager {
   private broadcastStateChange(section: string): void {
     this.state.lastUpdated = new Date().toISOString();
 
-    // Broadcast the specific section
+    // Broadcast the full section to legacy clients, a JSON Patch to the rest
     const sectionKey = section as keyof GameState;
     const sectionData = this.state[sectionKey];
-    wsManager.broadcast(`state:${section}` as any, sectionData);
+    wsManager.broadcast(`state:${section}` as any, sectionData, { statePatches: false });
+    stateSync.publish(section, this.state);
 
     // Emit game state change on event bus for other server-side consumers
     eventBus.emitGameStateChange({ section, data: sectionData as unknown as Record<string, unknown> });
@@ -2,7 +2,13 @@
  * @vayu/server — Core Module Barrel Export
  *
  * Re-exports all core subsystems: event bus, journal reader, file system
- * watchers, game state manager, and bindings parser.
+ * watchers, game state manager and its snapshots, commander profiles,
+ * journal event store, importer, replay and schema report, market price
+ * store, station catalogue, galaxy database, dump importer and route
+ * plotter, Status.json
+ * edge events, WebSocket command RPC,
+ * feature plugin manager, runtime settings, paired device auth, metrics and
+ * diagnostics, and bindings parser.
  */
 
 export { eventBus } from './event-bus.js';
@@ -19,6 +25,24 @@ export {
 
 export { journalWatcher } from './journal-watcher.js';
 export { statusWatcher } from './status-watcher.js';
+export { statusEvents } from './status-events.js';
 export { companionWatcher } from './companion-watcher.js';
 export { gameStateManager } from './game-state.js';
+export { journalStore } from './journal-store.js';
+export { journalImporter } from './journal-importer.js';
+export { journalReplay } from './journal-replay.js';
+export { journalSchemaReport } from './journal-schema-report.js';
+export { marketStore } from './market-store.js';
+export { stationCatalogue } from './station-catalogue.js';
+export { galaxyStore } from './galaxy-store.js';
+export { galaxyImporter } from './galaxy-importer.js';
+export { routePlotter } from './route-plotter.js';
+export { stateSnapshot } from './state-snapshot.js';
+export { commanderProfiles } from './commander-profiles.js';
+export { commandRpc, CommandError } from './command-rpc.js';
+export { pluginManager } from './plugin-manager.js';
+export { settingsService, SettingsValidationError } from './settings.js';
+export { deviceAuth, DeviceAuthError } from './device-auth.js';
+export { metrics } from './metrics.js';
+export { diagnostics } from './diagnostics.js';
 export { bindingsParser } from './bindings-parser.js';
@@ -0,0 +1,136 @@
+/**
+ * AGNI — Unit tests for journal-importer.ts
+ *
+ * Writes journal files to temp directories and imports them into a real
+ * sql.js database: chronological ordering, de-duplication across the
+ * journal and backup directories, incremental re-runs, and isolation from
+ * the live event bus.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { initDatabase, closeDatabase } from '../database/index.js';
+import { eventBus } from './event-bus.js';
+import { journalStore } from './journal-store.js';
+import { journalImporter } from './journal-importer.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let tmpDir: string;
+let journalDir: string;
+let backupDir: string;
+let dbPath: string;
+
+function writeJournal(dir: string, name: string, events: Array<Record<string, unknown>>): void {
+  fs.writeFileSync(path.join(dir, name), events.map((e) => JSON.stringify(e)).join('\n') + '\n');
+}
+
+function session(day: string, systems: string[]): Array<Record<string, unknown>> {
+  return [
+    { timestamp: `2024-01-${day}T10:00:00Z`, event: 'LoadGame', Commander: 'Jameson', FID: 'F1' },
+    ...systems.map((system, i) => ({
+      timestamp: `2024-01-${day}T10:0${i + 1}:00Z`,
+      event: 'FSDJump',
+      StarSystem: system,
+      StarPos: [0, 0, 0],
+      JumpDist: 5,
+      FuelUsed: 1,
+    })),
+  ];
+}
+
+beforeEach(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-import-'));
+  journalDir = path.join(tmpDir, 'journals');
+  backupDir = path.join(tmpDir, 'backups');
+  fs.mkdirSync(journalDir);
+  fs.mkdirSync(backupDir);
+  dbPath = path.join(tmpDir, 'test.db');
+  await initDatabase(dbPath);
+});
+
+afterEach(() => {
+  closeDatabase(dbPath);
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+describe('journalImporter', () => {
+  it('should import every journal file oldest first', async () => {
+    writeJournal(journalDir, 'Journal.2024-01-02T100000.01.log', session('02', ['Lave']));
+    writeJournal(journalDir, 'Journal.2024-01-01T100000.01.log', session('01', ['Sol', 'Achenar']));
+
+    const result = await journalImporter.run([journalDir]);
+
+    expect(result.status).toBe('complete');
+    expect(result.filesTotal).toBe(2);
+    expect(result.filesDone).toBe(2);
+    expect(result.eventsStored).toBe(5);
+
+    const sessions = journalStore.getSessions();
+    expect(sessions.map((s) => s.startTime)).toEqual(['2024-01-02T10:00:00Z', '2024-01-01T10:00:00Z']);
+    expect(sessions[1].jumps).toBe(2);
+  });
+
+  it('should read files present in both directories only once', async () => {
+    const events = session('01', ['Sol']);
+    writeJournal(backupDir, 'Journal.2024-01-01T100000.01.log', events);
+    writeJournal(journalDir, 'Journal.2024-01-01T100000.01.log', events);
+
+    const result = await journalImporter.run([journalDir, backupDir]);
+
+    expect(result.filesTotal).toBe(1);
+    expect(journalStore.getStats().totalEvents).toBe(2);
+  });
+
+  it('should skip unchanged files on re-run and pick up grown ones', async () => {
+    const name = 'Journal.2024-01-01T100000.01.log';
+    writeJournal(journalDir, name, session('01', ['Sol']));
+    await journalImporter.run([journalDir]);
+
+    const unchanged = await journalImporter.run([journalDir]);
+    expect(unchanged.filesTotal).toBe(0);
+
+    writeJournal(journalDir, name, session('01', ['Sol', 'Alpha Centauri']));
+    const grown = await journalImporter.run([journalDir]);
+    expect(grown.filesTotal).toBe(1);
+    expect(grown.eventsStored).toBe(1);
+    expect(journalStore.getSessions()).toHaveLength(1);
+  });
+
+  it('should re-read everything with full: true without duplicating events', async () => {
+    writeJournal(journalDir, 'Journal.2024-01-01T100000.01.log', session('01', ['Sol']));
+    await journalImporter.run([journalDir]);
+
+    const result = await journalImporter.run([journalDir], { full: true });
+    expect(result.filesTotal).toBe(1);
+    expect(result.eventsStored).toBe(0);
+    expect(journalStore.getStats().totalEvents).toBe(2);
+  });
+
+  it('should not emit imported events on the event bus', async () => {
+    writeJournal(journalDir, 'Journal.2024-01-01T100000.01.log', session('01', ['Sol']));
+    let emitted = 0;
+    const handler = () => { emitted++; };
+    eventBus.onAnyJournalEvent(handler);
+
+    await journalImporter.run([journalDir]);
+
+    eventBus.off('journal:*', handler);
+    expect(emitted).toBe(0);
+  });
+
+  it('should ignore missing directories', async () => {
+    const result = await journalImporter.run([path.join(tmpDir, 'missing')]);
+    expect(result.status).toBe('complete');
+    expect(result.filesTotal).toBe(0);
+  });
+});
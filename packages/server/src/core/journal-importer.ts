@@ -0,0 +1,202 @@
+/**
+ * @vayu/server — Historical Journal Importer
+ *
+ * Walks every `Journal.*.log` in one or more directories (the live journal
+ * directory plus the archiver's backup directory) and feeds the events into
+ * the journal store, oldest file first, so the full history of a commander
+ * is queryable — not just the current session the watcher tails.
+ *
+ * Key behaviors:
+ *   - Idempotent: the store de-duplicates on event hash, and files whose
+ *     size has not changed since the last import are skipped entirely
+ *   - Imported events are persisted only; they are NOT emitted on the event
+ *     bus, so live game state is never rebuilt from old sessions
+ *   - Each file is written inside a single transaction
+ *   - Progress is broadcast over WebSocket as `journal:backlog`
+ *   - Only one import may run at a time
+ */
+
+import path from 'path';
+import { stat } from 'fs/promises';
+import { sortJournalFiles } from '@vayu/shared';
+import type { WSJournalBacklogPayload } from '@vayu/shared';
+
+import { findJournalFiles, readJournalFile } from './journal-reader.js';
+import { journalStore, type SessionCursor } from './journal-store.js';
+import { getDb } from '../database/index.js';
+import { wsManager } from '../websocket.js';
+
+// ---------------------------------------------------------------------------
+// Logger prefix
+// ---------------------------------------------------------------------------
+
+const LOG_PREFIX = '[journal-importer]';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for a single import run. */
+export interface JournalImportOptions {
+  /** Re-read every file, ignoring the per-file import markers. */
+  full?: boolean;
+}
+
+/** A journal file selected for import. */
+interface ImportCandidate {
+  filename: string;
+  filePath: string;
+  size: number;
+}
+
+// ---------------------------------------------------------------------------
+// Journal Importer
+// ---------------------------------------------------------------------------
+
+class JournalImporter {
+  /** Progress of the current (or most recent) run. */
+  private progress: WSJournalBacklogPayload | null = null;
+
+  /** Whether an import is currently running. */
+  isRunning(): boolean {
+    return this.progress?.status === 'running';
+  }
+
+  /** Progress of the current or most recent run, or null if none has run. */
+  getProgress(): WSJournalBacklogPayload | null {
+    return this.progress ? { ...this.progress } : null;
+  }
+
+  /**
+   * Import all journal files found in the given directories.
+   *
+   * Files with the same name in several directories (a journal and its
+   * backup copy) are read once, preferring the larger copy.
+   *
+   * @throws If an import is already running.
+   */
+  async run(directories: string[], options: JournalImportOptions = {}): Promise<WSJournalBacklogPayload> {
+    if (this.isRunning()) {
+      throw new Error('A journal import is already running');
+    }
+
+    this.progress = {
+      status: 'running',
+      filesTotal: 0,
+      filesDone: 0,
+      currentFile: null,
+      eventsRead: 0,
+      eventsStored: 0,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+    };
+
+    try {
+      const candidates = await this.collectFiles(directories);
+      const files = options.full ? candidates : candidates.filter((f) => !this.isImported(f));
+      this.progress.filesTotal = files.length;
+      console.log(
+        `${LOG_PREFIX} Importing ${files.length} of ${candidates.length} journal files`,
+      );
+      this.broadcast();
+
+      // A fresh cursor keeps historical sessions separate from the live one.
+      const cursor: SessionCursor = { sessionId: null, fid: null };
+
+      for (const file of files) {
+        this.progress.currentFile = file.filename;
+        await this.importFile(file, cursor);
+        this.progress.filesDone++;
+        this.broadcast();
+      }
+
+      this.progress.status = 'complete';
+      console.log(
+        `${LOG_PREFIX} Import complete: ${this.progress.eventsStored} new of ${this.progress.eventsRead} events`,
+      );
+    } catch (err) {
+      this.progress.status = 'error';
+      this.progress.error = err instanceof Error ? err.message : String(err);
+      console.error(`${LOG_PREFIX} Import failed:`, this.progress.error);
+    }
+
+    this.progress.currentFile = null;
+    this.progress.finishedAt = new Date().toISOString();
+    this.broadcast();
+    return { ...this.progress };
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  /** List journal files across directories, oldest first, de-duplicated by name. */
+  private async collectFiles(directories: string[]): Promise<ImportCandidate[]> {
+    const byName = new Map<string, ImportCandidate>();
+
+    for (const dir of directories) {
+      let paths: string[];
+      try {
+        paths = await findJournalFiles(dir);
+      } catch {
+        continue; // Directory missing or unreadable — nothing to import from it.
+      }
+
+      for (const filePath of paths) {
+        const filename = path.basename(filePath);
+        const { size } = await stat(filePath);
+        const existing = byName.get(filename);
+        if (!existing || size > existing.size) {
+          byName.set(filename, { filename, filePath, size });
+        }
+      }
+    }
+
+    // sortJournalFiles orders newest first; import oldest first.
+    return sortJournalFiles([...byName.keys()])
+      .reverse()
+      .map((name) => byName.get(name)!);
+  }
+
+  /** Whether a file has already been imported at its current size. */
+  private isImported(file: ImportCandidate): boolean {
+    const result = getDb().exec('SELECT size FROM journal_imports WHERE filename = ?', [file.filename]);
+    const size = result[0]?.values[0]?.[0];
+    return typeof size === 'number' && size >= file.size;
+  }
+
+  /** Read one file and store its events in a single transaction. */
+  private async importFile(file: ImportCandidate, cursor: SessionCursor): Promise<void> {
+    const events = await readJournalFile(file.filePath);
+    const db = getDb();
+    let stored = 0;
+
+    db.run('BEGIN');
+    try {
+      for (const event of events) {
+        if (journalStore.store(event, cursor)) stored++;
+      }
+      db.run(
+        `INSERT OR REPLACE INTO journal_imports (filename, size, imported_at, events)
+         VALUES (?, ?, ?, ?)`,
+        [file.filename, file.size, new Date().toISOString(), events.length],
+      );
+      db.run('COMMIT');
+    } catch (err) {
+      db.run('ROLLBACK');
+      throw err;
+    }
+
+    this.progress!.eventsRead += events.length;
+    this.progress!.eventsStored += stored;
+  }
+
+  private broadcast(): void {
+    if (this.progress) {
+      wsManager.broadcast<WSJournalBacklogPayload>('journal:backlog', { ...this.progress });
+    }
+  }
+}
+
+/** Singleton historical journal importer. */
+export const journalImporter = new JournalImporter();
@@ -0,0 +1,200 @@
+/**
+ * AGNI — Unit tests for journal-replay.ts
+ *
+ * Loads journal files from a temp directory and drives playback with fake
+ * timers: chronological order, speed and gap capping, stepping, seeking,
+ * companion snapshots, and suspension of live persistence.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { eventBus } from './event-bus.js';
+import { journalStore } from './journal-store.js';
+import { journalReplay } from './journal-replay.js';
+import { stateSnapshot } from './state-snapshot.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dir: string;
+let emitted: string[];
+const record = (event: { event: string }) => { emitted.push(event.event); };
+
+function writeJournal(name: string, events: Array<Record<string, unknown>>): void {
+  fs.writeFileSync(path.join(dir, name), events.map((e) => JSON.stringify(e)).join('\n') + '\n');
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-replay-'));
+  emitted = [];
+  eventBus.onAnyJournalEvent(record);
+
+  writeJournal('Journal.2024-01-01T100000.01.log', [
+    { timestamp: '2024-01-01T10:00:00Z', event: 'Fileheader' },
+    { timestamp: '2024-01-01T10:00:10Z', event: 'LoadGame' },
+    { timestamp: '2024-01-01T10:00:20Z', event: 'Location' },
+  ]);
+  writeJournal('Journal.2024-01-02T100000.01.log', [
+    { timestamp: '2024-01-02T10:00:00Z', event: 'Fileheader' },
+    { timestamp: '2024-01-02T10:00:00Z', event: 'LoadGame' },
+    { timestamp: '2024-01-02T10:00:30Z', event: 'FSDJump' },
+  ]);
+});
+
+afterEach(() => {
+  journalReplay.unload();
+  eventBus.off('journal:*', record);
+  vi.useRealTimers();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+describe('journalReplay.load', () => {
+  it('should load all files paused in chronological order', async () => {
+    const status = await journalReplay.load(dir);
+
+    expect(status.state).toBe('paused');
+    expect(status.totalEvents).toBe(6);
+    expect(status.files).toEqual(['Journal.2024-01-01T100000.01.log', 'Journal.2024-01-02T100000.01.log']);
+    expect(status.next).toEqual({ event: 'Fileheader', timestamp: '2024-01-01T10:00:00Z' });
+    expect(emitted).toEqual([]);
+  });
+
+  it('should reject a path without journal events', async () => {
+    const empty = fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-replay-empty-'));
+    await expect(journalReplay.load(empty)).rejects.toThrow(/No journal events/);
+    fs.rmSync(empty, { recursive: true, force: true });
+  });
+
+  it('should suspend live persistence until unloaded', async () => {
+    await journalReplay.load(dir);
+    expect(journalStore.isLivePersistenceEnabled()).toBe(false);
+
+    journalReplay.unload();
+    expect(journalStore.isLivePersistenceEnabled()).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Playback
+// ---------------------------------------------------------------------------
+
+describe('journalReplay playback', () => {
+  it('should emit events on the journal timeline scaled by speed', async () => {
+    vi.useFakeTimers();
+    await journalReplay.load(dir, { speed: 10 });
+    journalReplay.play();
+    expect(emitted).toEqual(['Fileheader']);
+
+    vi.advanceTimersByTime(1000); // 10s of journal time at 10x
+    expect(emitted).toEqual(['Fileheader', 'LoadGame']);
+
+    vi.advanceTimersByTime(1000);
+    expect(emitted).toHaveLength(3);
+  });
+
+  it('should cap idle gaps between sessions at maxGapMs', async () => {
+    vi.useFakeTimers();
+    await journalReplay.load(dir, { maxGapMs: 2000 });
+    journalReplay.seek(3);
+
+    journalReplay.play();
+    // Fileheader and LoadGame share a timestamp and are emitted together.
+    expect(emitted.slice(3)).toEqual(['Fileheader', 'LoadGame']);
+
+    vi.advanceTimersByTime(2000); // 30s gap capped to 2s
+    expect(journalReplay.getStatus().state).toBe('finished');
+  });
+
+  it('should pause and resume', async () => {
+    vi.useFakeTimers();
+    await journalReplay.load(dir);
+    journalReplay.play();
+    journalReplay.pause();
+
+    vi.advanceTimersByTime(60_000);
+    expect(emitted).toHaveLength(1);
+    expect(journalReplay.getStatus().state).toBe('paused');
+  });
+
+  it('should step through events one at a time', async () => {
+    await journalReplay.load(dir);
+
+    expect(journalReplay.step().map((e) => e.event)).toEqual(['Fileheader']);
+    expect(journalReplay.step(2).map((e) => e.event)).toEqual(['LoadGame', 'Location']);
+    expect(journalReplay.getStatus().position).toBe(3);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Seeking
+// ---------------------------------------------------------------------------
+
+describe('journalReplay.seek', () => {
+  it('should fast-forward through skipped events when seeking to a timestamp', async () => {
+    await journalReplay.load(dir);
+    journalReplay.seek('2024-01-02T00:00:00Z');
+
+    expect(emitted).toEqual(['Fileheader', 'LoadGame', 'Location']);
+    expect(journalReplay.getStatus().next?.timestamp).toBe('2024-01-02T10:00:00Z');
+  });
+
+  it('should restart from the first event when seeking backward', async () => {
+    await journalReplay.load(dir);
+    journalReplay.step(4);
+    emitted = [];
+
+    journalReplay.seek(1);
+    expect(emitted).toEqual(['Fileheader']);
+    expect(journalReplay.getStatus().position).toBe(1);
+  });
+
+  it('should restore the state saved at load before replaying from the start', async () => {
+    const restore = vi.spyOn(stateSnapshot, 'restore');
+    await journalReplay.load(dir);
+    journalReplay.step(4);
+    expect(restore).not.toHaveBeenCalled();
+
+    journalReplay.seek(0);
+    expect(restore).toHaveBeenCalledTimes(1);
+    restore.mockRestore();
+  });
+
+  it('should not seek backward in a persistent replay', async () => {
+    await journalReplay.load(dir, { persist: true });
+    journalReplay.step(4);
+    emitted = [];
+
+    expect(journalReplay.seek(1)).toBe(false);
+    expect(emitted).toEqual([]);
+    expect(journalReplay.getStatus().position).toBe(4);
+    expect(journalReplay.seek(5)).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+describe('journalReplay snapshots', () => {
+  it('should emit Status.json and Cargo.json before the first event', async () => {
+    fs.writeFileSync(path.join(dir, 'Status.json'), JSON.stringify({ event: 'Status', Flags: 16 }));
+    const statuses: unknown[] = [];
+    const onStatus = (s: unknown) => { statuses.push(s); };
+    eventBus.onStatusUpdate(onStatus);
+
+    const status = await journalReplay.load(dir);
+    expect(status.snapshots).toEqual(['Status.json']);
+
+    journalReplay.step();
+    eventBus.off('status:update', onStatus);
+    expect(statuses).toEqual([{ event: 'Status', Flags: 16 }]);
+  });
+});
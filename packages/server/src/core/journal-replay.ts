@@ -0,0 +1,365 @@
+/**
+ * @vayu/server — Journal Replay
+ *
+ * Feeds recorded journal files back through the event bus as if the game
+ * were running, so the GameStateManager, alerts, COVAS callouts and client
+ * pages can be exercised without Elite Dangerous — e.g. for demos, on a
+ * Linux dev box, or to reproduce a bug from a commander's shared journals.
+ *
+ * Key behaviors:
+ *   - Loads a directory of `Journal.*.log` files (or a single file) and
+ *     plays the events in chronological order
+ *   - Real-time, accelerated (speed multiplier) or step-by-step playback
+ *   - Long idle gaps (between sessions, AFK) are capped at `maxGapMs`
+ *   - Optional `Status.json` / `Cargo.json` snapshots in the same directory
+ *     are emitted when playback begins
+ *   - Seeking forward fast-forwards through the skipped events; seeking
+ *     backward restores the state saved at load and restarts from the first
+ *     event, since game state cannot be rewound. A persistent replay has
+ *     nothing to restore and cannot seek backward
+ *   - Unless `persist` is requested, replayed events are not stored and the
+ *     state snapshot is frozen: the live state is saved on load and restored
+ *     (for the commander active at load) on unload
+ */
+
+import path from 'path';
+import { readFile, stat } from 'fs/promises';
+import type { AnyJournalEvent } from '@vayu/shared';
+
+import { eventBus } from './event-bus.js';
+import { findJournalFiles, readJournalFile } from './journal-reader.js';
+import { journalStore } from './journal-store.js';
+import { commanderProfiles } from './commander-profiles.js';
+import { stateSnapshot } from './state-snapshot.js';
+
+// ---------------------------------------------------------------------------
+// Logger prefix
+// ---------------------------------------------------------------------------
+
+const LOG_PREFIX = '[journal-replay]';
+
+/** Events emitted back-to-back before yielding to the event loop. */
+const MAX_BATCH = 500;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ReplayState = 'idle' | 'paused' | 'playing' | 'finished';
+
+/** Options for loading a replay source. */
+export interface ReplayLoadOptions {
+  /** Playback speed multiplier (1 = real time). Default 1. */
+  speed?: number;
+  /** Longest wall-clock wait between two events, in ms. Default 5000. */
+  maxGapMs?: number;
+  /** Persist replayed events to the journal store. Default false. */
+  persist?: boolean;
+}
+
+/** Snapshot of the replay controller for the REST API. */
+export interface ReplayStatus {
+  state: ReplayState;
+  source: string | null;
+  files: string[];
+  speed: number;
+  maxGapMs: number;
+  persist: boolean;
+  /** Index of the next event to emit. */
+  position: number;
+  totalEvents: number;
+  /** Timestamp of the last emitted event. */
+  currentTimestamp: string | null;
+  /** The next event to be emitted (name and timestamp only). */
+  next: { event: string; timestamp: string } | null;
+  snapshots: string[];
+}
+
+/** Companion snapshots that can accompany a replay and their emitters. */
+const SNAPSHOT_FILES: Record<string, (data: Record<string, unknown>) => void> = {
+  'Status.json': (data) => eventBus.emitStatusUpdate(data),
+  'Cargo.json': (data) => eventBus.emitCargoUpdate(data),
+};
+
+// ---------------------------------------------------------------------------
+// Journal Replay
+// ---------------------------------------------------------------------------
+
+/**
+ * Replays recorded journals through the event bus.
+ *
+ * Usage:
+ * ```ts
+ * await journalReplay.load('/tmp/shared-journals', { speed: 100 });
+ * journalReplay.play();
+ * journalReplay.seek('2024-08-15T19:00:00Z');
+ * journalReplay.unload();
+ * ```
+ */
+class JournalReplay {
+  private events: AnyJournalEvent[] = [];
+  private position = 0;
+  private state: ReplayState = 'idle';
+  private source: string | null = null;
+  private files: string[] = [];
+  private snapshots = new Map<string, Record<string, unknown>>();
+  private snapshotsEmitted = false;
+  private speed = 1;
+  private maxGapMs = 5000;
+  private persist = false;
+  /** Commander active when a non-persistent replay was loaded. */
+  private commanderAtLoad: { fid: string; name: string } | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Load a directory of journal files (or a single journal file) for
+   * replay. Any previous replay is unloaded first. Playback starts paused.
+   *
+   * @throws If the path does not exist or contains no journal events.
+   */
+  async load(sourcePath: string, options: ReplayLoadOptions = {}): Promise<ReplayStatus> {
+    const info = await stat(sourcePath);
+    const dir = info.isDirectory() ? sourcePath : path.dirname(sourcePath);
+    const files = info.isDirectory()
+      ? (await findJournalFiles(sourcePath)).reverse()
+      : [sourcePath];
+
+    const events: AnyJournalEvent[] = [];
+    for (const file of files) {
+      events.push(...(await readJournalFile(file)));
+    }
+    if (events.length === 0) {
+      throw new Error(`No journal events found in ${sourcePath}`);
+    }
+
+    // Files are already oldest first; a stable sort fixes any overlap.
+    events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    const snapshots = new Map<string, Record<string, unknown>>();
+    for (const name of Object.keys(SNAPSHOT_FILES)) {
+      try {
+        snapshots.set(name, JSON.parse(await readFile(path.join(dir, name), 'utf-8')));
+      } catch {
+        // Snapshot missing or unreadable — optional.
+      }
+    }
+
+    this.unload();
+    if (options.persist !== true) stateSnapshot.save();
+    this.commanderAtLoad = commanderProfiles.getActive();
+
+    this.events = events;
+    this.source = sourcePath;
+    this.files = files.map((f) => path.basename(f));
+    this.snapshots = snapshots;
+    this.speed = validSpeed(options.speed) ?? 1;
+    this.maxGapMs = options.maxGapMs !== undefined && options.maxGapMs >= 0 ? options.maxGapMs : 5000;
+    this.persist = options.persist === true;
+    this.state = 'paused';
+    journalStore.setLivePersistence(this.persist);
+    stateSnapshot.setAutoSave(this.persist);
+
+    console.log(
+      `${LOG_PREFIX} Loaded ${events.length} events from ${files.length} file(s) in ${sourcePath}`,
+    );
+    return this.getStatus();
+  }
+
+  /**
+   * Stop playback, discard the loaded events and restore live persistence.
+   * A non-persistent replay also restores the game state saved at load.
+   */
+  unload(): void {
+    this.clearTimer();
+    if (this.state !== 'idle') {
+      journalStore.setLivePersistence(true);
+      stateSnapshot.setAutoSave(true);
+      if (!this.persist) {
+        commanderProfiles.setActive(this.commanderAtLoad);
+        stateSnapshot.restore();
+      }
+      console.log(`${LOG_PREFIX} Replay unloaded`);
+    }
+    this.events = [];
+    this.position = 0;
+    this.state = 'idle';
+    this.source = null;
+    this.files = [];
+    this.snapshots.clear();
+    this.snapshotsEmitted = false;
+  }
+
+  isLoaded(): boolean {
+    return this.state !== 'idle';
+  }
+
+  /** Start or resume timed playback. */
+  play(): void {
+    if (this.state !== 'paused') return;
+    this.state = 'playing';
+    this.tick();
+  }
+
+  /** Pause timed playback. */
+  pause(): void {
+    if (this.state !== 'playing') return;
+    this.clearTimer();
+    this.state = 'paused';
+  }
+
+  /**
+   * Emit the next `count` events immediately. Pauses timed playback.
+   *
+   * @returns The events that were emitted.
+   */
+  step(count = 1): AnyJournalEvent[] {
+    if (!this.isLoaded()) return [];
+    this.pause();
+
+    const emitted: AnyJournalEvent[] = [];
+    for (let i = 0; i < count && this.position < this.events.length; i++) {
+      emitted.push(this.emitNext());
+    }
+    this.checkFinished();
+    return emitted;
+  }
+
+  /**
+   * Move playback to an event index or the first event at or after an ISO
+   * timestamp. Events between the current position and the target are
+   * emitted without delay so downstream state stays consistent.
+   *
+   * @returns False if the target is behind a persistent replay, which
+   *          cannot seek backward.
+   */
+  seek(target: number | string): boolean {
+    if (!this.isLoaded()) return false;
+
+    const index = typeof target === 'number'
+      ? Math.max(0, Math.min(this.events.length, Math.floor(target)))
+      : this.indexOfTimestamp(target);
+    if (index < this.position && this.persist) return false;
+
+    const wasPlaying = this.state === 'playing';
+    this.clearTimer();
+
+    if (index < this.position) {
+      console.log(`${LOG_PREFIX} Seeking backward — restoring the state at load and restarting from the first event`);
+      // The events already played are in the live state; replaying them on top would count them twice
+      commanderProfiles.setActive(this.commanderAtLoad);
+      stateSnapshot.restore();
+      this.position = 0;
+      this.snapshotsEmitted = false;
+    }
+    while (this.position < index) this.emitNext();
+
+    this.state = wasPlaying ? 'playing' : 'paused';
+    this.checkFinished();
+    if (this.state === 'playing') this.tick();
+    return true;
+  }
+
+  /** Change the playback speed multiplier. */
+  setSpeed(speed: number): boolean {
+    const valid = validSpeed(speed);
+    if (valid === undefined) return false;
+    this.speed = valid;
+    if (this.state === 'playing') {
+      this.clearTimer();
+      this.tick();
+    }
+    return true;
+  }
+
+  getStatus(): ReplayStatus {
+    const last = this.events[this.position - 1];
+    const next = this.events[this.position];
+    return {
+      state: this.state,
+      source: this.source,
+      files: [...this.files],
+      speed: this.speed,
+      maxGapMs: this.maxGapMs,
+      persist: this.persist,
+      position: this.position,
+      totalEvents: this.events.length,
+      currentTimestamp: last?.timestamp ?? null,
+      next: next ? { event: next.event, timestamp: next.timestamp } : null,
+      snapshots: [...this.snapshots.keys()],
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  /** Emit the next event (and any snapshots before the first one). */
+  private emitNext(): AnyJournalEvent {
+    if (!this.snapshotsEmitted) {
+      this.snapshotsEmitted = true;
+      for (const [name, data] of this.snapshots) SNAPSHOT_FILES[name](data);
+    }
+    const event = this.events[this.position++];
+    eventBus.emitJournalEvent(event);
+    return event;
+  }
+
+  /**
+   * Emit every event that is due now, then schedule the next one based on
+   * the journal timestamps, speed and gap cap.
+   */
+  private tick(): void {
+    this.timer = null;
+    if (this.state !== 'playing') return;
+
+    let batch = 0;
+    do {
+      this.emitNext();
+      batch++;
+    } while (
+      this.position < this.events.length &&
+      this.delayUntilNext() === 0 &&
+      batch < MAX_BATCH
+    );
+
+    if (this.checkFinished()) return;
+    this.timer = setTimeout(() => this.tick(), this.delayUntilNext());
+  }
+
+  /** Wall-clock wait before the next event, in ms. */
+  private delayUntilNext(): number {
+    const prev = this.events[this.position - 1];
+    const next = this.events[this.position];
+    if (!prev || !next) return 0;
+    const gap = Date.parse(next.timestamp) - Date.parse(prev.timestamp);
+    if (!Number.isFinite(gap) || gap <= 0) return 0;
+    return Math.min(this.maxGapMs, Math.round(gap / this.speed));
+  }
+
+  private indexOfTimestamp(timestamp: string): number {
+    const i = this.events.findIndex((e) => e.timestamp >= timestamp);
+    return i === -1 ? this.events.length : i;
+  }
+
+  private checkFinished(): boolean {
+    if (this.position < this.events.length) return false;
+    this.clearTimer();
+    this.state = 'finished';
+    return true;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/** A positive finite speed multiplier, or undefined. */
+function validSpeed(speed: number | undefined): number | undefined {
+  return typeof speed === 'number' && Number.isFinite(speed) && speed > 0 ? speed : undefined;
+}
+
+/** Singleton journal replay controller. */
+export const journalReplay = new JournalReplay();
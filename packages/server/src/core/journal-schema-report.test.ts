@@ -0,0 +1,70 @@
+/**
+ * AGNI — Unit tests for journal-schema-report.ts and the event bus name check
+ *
+ * Feeds events through the event bus and checks the tally of unknown event
+ * types, unmodelled fields and mismatches, and that subscribing to an event
+ * name that is not modelled warns once.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { eventBus } from './event-bus.js';
+import { journalSchemaReport } from './journal-schema-report.js';
+
+function emit(event: Record<string, unknown>): void {
+  eventBus.emitJournalEvent(event as any);
+}
+
+beforeEach(() => journalSchemaReport.clear());
+
+describe('journalSchemaReport', () => {
+  it('should tally unknown events, unmodelled fields and mismatches', () => {
+    emit({ timestamp: '2025-01-01T00:00:00Z', event: 'ShieldState', ShieldsUp: true });
+    emit({ timestamp: '2025-01-01T00:01:00Z', event: 'ColonisationContribution', MarketID: 1 });
+    emit({ timestamp: '2025-01-01T00:02:00Z', event: 'ColonisationContribution', MarketID: 2 });
+    emit({ timestamp: '2025-01-01T00:03:00Z', event: 'UnderAttack', Target: 'You', Wing: { Size: 4 } });
+    emit({ timestamp: '2025-01-01T00:04:00Z', event: 'HullDamage', Health: 'low', PlayerPilot: true });
+
+    const report = journalSchemaReport.getReport();
+
+    expect(report).toMatchObject({ eventsChecked: 5, eventsMatching: 1, dropped: 0 });
+    expect(report.unknownEvents).toEqual([{
+      event: 'ColonisationContribution',
+      count: 2,
+      firstSeen: '2025-01-01T00:01:00Z',
+      lastSeen: '2025-01-01T00:02:00Z',
+      sample: { timestamp: '2025-01-01T00:01:00Z', event: 'ColonisationContribution', MarketID: 1 },
+    }]);
+    expect(report.unmodelledFields).toEqual([expect.objectContaining({
+      event: 'UnderAttack', field: 'Wing', example: '{"Size":4}', count: 1,
+    })]);
+    expect(report.mismatches).toEqual([expect.objectContaining({
+      event: 'HullDamage', field: 'Health', problem: 'must be a number',
+    })]);
+  });
+
+  it('should start over when cleared', () => {
+    emit({ timestamp: '2025-01-01T00:01:00Z', event: 'ColonisationContribution' });
+    journalSchemaReport.clear();
+
+    expect(journalSchemaReport.getReport()).toMatchObject({ eventsChecked: 0, unknownEvents: [] });
+  });
+});
+
+describe('eventBus.onJournalEvent', () => {
+  it('should warn once about event names that are not modelled', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const handler = () => {};
+
+    eventBus.onJournalEvent('Docked', handler);
+    eventBus.onJournalEvent('InterdictedEvent' as any, handler);
+    eventBus.onJournalEvent('InterdictedEvent' as any, handler);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('"InterdictedEvent"');
+
+    eventBus.offJournalEvent('Docked', handler);
+    eventBus.offJournalEvent('InterdictedEvent' as any, handler);
+    warn.mockRestore();
+  });
+});
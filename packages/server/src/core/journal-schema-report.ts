@@ -0,0 +1,182 @@
+/**
+ * @vayu/server — Journal Schema Report
+ *
+ * Checks every journal event on the event bus against the schemas
+ * generated from `JournalEventMap` and keeps a tally of where the game and
+ * VAYU's types disagree:
+ *
+ *   - event types VAYU does not model at all, with the first one seen
+ *   - fields the game writes that the types do not declare
+ *   - modelled fields that were missing or had the wrong type
+ *
+ * Served at `GET /api/journal/schema-report`. Covers events since the
+ * server started (or the report was cleared), including replays, so
+ * replaying an old session is a way to check its journal too.
+ */
+
+import { checkJournalEvent, type AnyJournalEvent, type JournalEvent } from '@vayu/shared';
+import { eventBus } from './event-bus.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Distinct entries kept per section; later ones are counted as dropped. */
+const MAX_ENTRIES = 500;
+
+/** Longest example value kept, as JSON. */
+const MAX_EXAMPLE_LENGTH = 200;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface Sighting {
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface UnknownEventEntry extends Sighting {
+  event: string;
+  /** The first event of this type seen. */
+  sample: JournalEvent;
+}
+
+export interface UnmodelledFieldEntry extends Sighting {
+  event: string;
+  /** Field path, e.g. `Factions[].SquadronFaction`. */
+  field: string;
+  /** JSON of the first value seen, truncated. */
+  example: string;
+}
+
+export interface SchemaMismatchEntry extends Sighting {
+  event: string;
+  field: string;
+  problem: string;
+}
+
+export interface JournalSchemaReportData {
+  since: string;
+  eventsChecked: number;
+  /** Events whose type is modelled and that matched it exactly. */
+  eventsMatching: number;
+  unknownEvents: UnknownEventEntry[];
+  unmodelledFields: UnmodelledFieldEntry[];
+  mismatches: SchemaMismatchEntry[];
+  /** Entries not kept because a section was full. */
+  dropped: number;
+}
+
+// ---------------------------------------------------------------------------
+// Journal Schema Report
+// ---------------------------------------------------------------------------
+
+class JournalSchemaReport {
+  private since = new Date().toISOString();
+  private eventsChecked = 0;
+  private eventsMatching = 0;
+  private dropped = 0;
+  private unknownEvents = new Map<string, UnknownEventEntry>();
+  private unmodelledFields = new Map<string, UnmodelledFieldEntry>();
+  private mismatches = new Map<string, SchemaMismatchEntry>();
+
+  constructor() {
+    eventBus.onAnyJournalEvent((event) => this.record(event));
+  }
+
+  /** Check one event and add what it shows to the tally. */
+  record(event: AnyJournalEvent | JournalEvent): void {
+    const seen = event.timestamp;
+    const result = checkJournalEvent(event);
+    this.eventsChecked++;
+
+    if (!result.known) {
+      this.sight(this.unknownEvents, event.event, seen, () => ({ event: event.event, sample: event }));
+      return;
+    }
+
+    const problems = Object.entries(result.errors);
+    if (problems.length === 0 && result.unmodelled.length === 0) this.eventsMatching++;
+
+    for (const field of result.unmodelled) {
+      this.sight(this.unmodelledFields, `${event.event}.${field}`, seen, () => ({
+        event: event.event,
+        field,
+        example: example(event, field),
+      }));
+    }
+    for (const [field, problem] of problems) {
+      this.sight(this.mismatches, `${event.event}.${field}`, seen, () => ({ event: event.event, field, problem }));
+    }
+  }
+
+  /** The report for `GET /api/journal/schema-report`, most frequent first. */
+  getReport(): JournalSchemaReportData {
+    return {
+      since: this.since,
+      eventsChecked: this.eventsChecked,
+      eventsMatching: this.eventsMatching,
+      unknownEvents: byCount(this.unknownEvents),
+      unmodelledFields: byCount(this.unmodelledFields),
+      mismatches: byCount(this.mismatches),
+      dropped: this.dropped,
+    };
+  }
+
+  /** Start a fresh tally. */
+  clear(): void {
+    this.since = new Date().toISOString();
+    this.eventsChecked = 0;
+    this.eventsMatching = 0;
+    this.dropped = 0;
+    this.unknownEvents.clear();
+    this.unmodelledFields.clear();
+    this.mismatches.clear();
+  }
+
+  private sight<T extends Sighting>(
+    entries: Map<string, T>,
+    key: string,
+    seen: string,
+    create: () => Omit<T, keyof Sighting>,
+  ): void {
+    const entry = entries.get(key);
+    if (entry) {
+      entry.count++;
+      entry.lastSeen = seen;
+    } else if (entries.size < MAX_ENTRIES) {
+      entries.set(key, { ...create(), count: 1, firstSeen: seen, lastSeen: seen } as T);
+    } else {
+      this.dropped++;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function byCount<T extends Sighting>(entries: Map<string, T>): T[] {
+  return [...entries.values()].sort((a, b) => b.count - a.count);
+}
+
+/** JSON of the first value at `path` (`a.b`, `list[].c`), truncated. */
+function example(event: JournalEvent, path: string): string {
+  let values: unknown[] = [event];
+  for (const part of path.split('.')) {
+    const key = part.endsWith('[]') ? part.slice(0, -2) : part;
+    values = values.map((v) => (v as Record<string, unknown>)?.[key]);
+    if (part.endsWith('[]')) values = values.flatMap((v) => (Array.isArray(v) ? v : []));
+  }
+  const found = values.find((v) => v !== undefined);
+  const json = JSON.stringify(found) ?? 'undefined';
+  return json.length > MAX_EXAMPLE_LENGTH ? `${json.slice(0, MAX_EXAMPLE_LENGTH - 1)}…` : json;
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+export const journalSchemaReport = new JournalSchemaReport();
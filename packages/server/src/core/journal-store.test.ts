@@ -0,0 +1,167 @@
+/**
+ * AGNI — Unit tests for journal-store.ts
+ *
+ * Runs the store against a real sql.js database (with migrations) and
+ * feeds events through the event bus: persistence, replay de-duplication,
+ * LoadGame session boundaries, and the query API.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { initDatabase, closeDatabase } from '../database/index.js';
+import { eventBus } from './event-bus.js';
+import { journalStore } from './journal-store.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dbPath: string;
+
+function emit(event: Record<string, unknown>): void {
+  eventBus.emitJournalEvent(event as any);
+}
+
+function loadGame(timestamp: string, commander = 'Jameson') {
+  return { timestamp, event: 'LoadGame', Commander: commander, FID: 'F1' };
+}
+
+function fsdJump(timestamp: string, system: string, jumpDist: number) {
+  return { timestamp, event: 'FSDJump', StarSystem: system, StarPos: [0, 0, 0], JumpDist: jumpDist, FuelUsed: 1 };
+}
+
+beforeEach(async () => {
+  dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-store-')), 'test.db');
+  await initDatabase(dbPath);
+});
+
+afterEach(() => {
+  closeDatabase(dbPath);
+  fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+describe('journalStore persistence', () => {
+  it('should store every event emitted on the bus', () => {
+    emit(loadGame('2025-01-01T10:00:00Z'));
+    emit(fsdJump('2025-01-01T10:05:00Z', 'Sol', 4.5));
+
+    expect(journalStore.getStats().totalEvents).toBe(2);
+  });
+
+  it('should not store the same event twice when a journal is replayed', () => {
+    const events = [loadGame('2025-01-01T10:00:00Z'), fsdJump('2025-01-01T10:05:00Z', 'Sol', 4.5)];
+    events.forEach(emit);
+    events.forEach(emit);
+
+    const stats = journalStore.getStats();
+    expect(stats.totalEvents).toBe(2);
+    expect(stats.totalSessions).toBe(1);
+  });
+
+  it('should return false from store() for duplicates', () => {
+    emit(loadGame('2025-01-01T10:00:00Z'));
+    const event = fsdJump('2025-01-01T10:05:00Z', 'Sol', 4.5);
+    expect(journalStore.store(event as any)).toBe(true);
+    expect(journalStore.store(event as any)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+describe('journalStore sessions', () => {
+  it('should open a new session on each LoadGame', () => {
+    emit(loadGame('2025-01-01T10:00:00Z'));
+    emit(fsdJump('2025-01-01T10:05:00Z', 'Sol', 4.5));
+    emit(loadGame('2025-01-02T10:00:00Z'));
+
+    const sessions = journalStore.getSessions();
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0].startTime).toBe('2025-01-02T10:00:00Z');
+    expect(sessions[1].endTime).toBe('2025-01-01T10:05:00Z');
+  });
+
+  it('should roll jumps and distance into the session totals', () => {
+    emit(loadGame('2025-01-01T10:00:00Z'));
+    emit(fsdJump('2025-01-01T10:05:00Z', 'Sol', 4.5));
+    emit(fsdJump('2025-01-01T10:06:00Z', 'Barnard\'s Star', 5.5));
+
+    const [session] = journalStore.getSessions();
+    expect(session.jumps).toBe(2);
+    expect(session.distance).toBeCloseTo(10);
+    expect(session.commander).toBe('Jameson');
+  });
+
+  it('should roll credits earned into the session totals', () => {
+    emit(loadGame('2025-01-01T10:00:00Z'));
+    emit({ timestamp: '2025-01-01T10:05:00Z', event: 'MarketSell', Type: 'gold', Count: 10, SellPrice: 9000, TotalSale: 90000, AvgPricePaid: 8000 });
+    emit({ timestamp: '2025-01-01T10:06:00Z', event: 'MarketBuy', Type: 'gold', Count: 10, BuyPrice: 8000, TotalCost: 80000 });
+    emit({ timestamp: '2025-01-01T10:07:00Z', event: 'MissionCompleted', MissionID: 1, Name: 'Mission_Delivery', Reward: 250000 });
+    emit({ timestamp: '2025-01-01T10:08:00Z', event: 'RedeemVoucher', Type: 'bounty', Amount: 40000 });
+    emit({ timestamp: '2025-01-01T10:09:00Z', event: 'SellExplorationData', Systems: ['Sol'], Discovered: [], BaseValue: 5000, Bonus: 0, TotalEarnings: 5000 });
+    emit({ timestamp: '2025-01-01T10:10:00Z', event: 'Bounty', Rewards: [], Target: 'viper', TotalReward: 12000, VictimFaction: 'Pirates' });
+
+    expect(journalStore.getSessions()[0].earnings).toBe(385000);
+  });
+
+  it('should attach events to the session of the preceding LoadGame', () => {
+    emit(loadGame('2025-01-01T10:00:00Z'));
+    emit(fsdJump('2025-01-01T10:05:00Z', 'Sol', 4.5));
+
+    const { events } = journalStore.query({ eventTypes: ['FSDJump'] });
+    expect(events[0].sessionId).toBe(journalStore.getCurrentSessionId());
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+describe('journalStore queries', () => {
+  beforeEach(() => {
+    emit(loadGame('2025-01-01T10:00:00Z'));
+    emit(fsdJump('2025-01-01T10:05:00Z', 'Sol', 4.5));
+    emit(fsdJump('2025-01-01T10:10:00Z', 'Alpha Centauri', 4.4));
+    emit(fsdJump('2025-01-01T10:15:00Z', 'Sol', 4.4));
+  });
+
+  it('should filter by event type and paginate newest first', () => {
+    const { events, pagination } = journalStore.query({ eventTypes: ['FSDJump'], perPage: 2 });
+    expect(events.map((e) => e.timestamp)).toEqual(['2025-01-01T10:15:00Z', '2025-01-01T10:10:00Z']);
+    expect(pagination.totalItems).toBe(3);
+    expect(pagination.hasNext).toBe(true);
+  });
+
+  it('should filter by time range', () => {
+    const { events } = journalStore.query({ since: '2025-01-01T10:06:00Z', until: '2025-01-01T10:12:00Z' });
+    expect(events).toHaveLength(1);
+    expect((events[0].data as any).StarSystem).toBe('Alpha Centauri');
+  });
+
+  it('should return typed events with getEvents()', () => {
+    const jumps = journalStore.getEvents('FSDJump', { order: 'asc' });
+    expect(jumps.map((j) => j.StarSystem)).toEqual(['Sol', 'Alpha Centauri', 'Sol']);
+  });
+
+  it('should aggregate distinct values and sums', () => {
+    expect(journalStore.distinctValues('FSDJump', 'StarSystem').sort()).toEqual(['Alpha Centauri', 'Sol']);
+    const totals = journalStore.sumField('FSDJump', 'JumpDist');
+    expect(totals.count).toBe(3);
+    expect(totals.sum).toBeCloseTo(13.3);
+  });
+
+  it('should count events per type', () => {
+    expect(journalStore.countByEvent()).toEqual([
+      { event: 'FSDJump', count: 3 },
+      { event: 'LoadGame', count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,554 @@
+/**
+ * @vayu/server — Journal Event Store
+ *
+ * Persists every journal event that flows through the event bus into the
+ * `journal_events` table and groups them into `sessions` rows, one per
+ * LoadGame. Features read history through the query API here instead of
+ * keeping their own capped in-memory arrays that are lost on restart.
+ *
+ * Key behaviors:
+ *   - Subscribes to `journal:*` on import (like the GameStateManager)
+ *   - De-duplicates on a SHA-1 of the raw event, so re-reading the current
+ *     journal at startup does not store its events twice
+ *   - Starts a new session on LoadGame and re-attaches to an existing one
+ *     when the same LoadGame is replayed
+ *   - Tags events and sessions with the commander's FID; reads default to
+ *     the active commander so commanders sharing an install never mix
+ *   - Silently skips persistence until the database has been initialised
+ */
+
+import { createHash } from 'crypto';
+import type {
+  AnyJournalEvent,
+  JournalEventMap,
+  JournalEventName,
+  JournalQueryParams,
+  PaginationMeta,
+} from '@vayu/shared';
+
+import { eventBus } from './event-bus.js';
+import { commanderProfiles, identify } from './commander-profiles.js';
+import { getDb, isDatabaseReady } from '../database/index.js';
+import { clampInt, mapRows, scalar, type Row } from '../database/rows.js';
+
+// ---------------------------------------------------------------------------
+// Logger prefix
+// ---------------------------------------------------------------------------
+
+const LOG_PREFIX = '[journal-store]';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A journal event as read back from the database. */
+export interface StoredJournalEvent {
+  /** Row ID (monotonic insertion order). */
+  id: number;
+  /** Event timestamp as written by the game. */
+  timestamp: string;
+  /** Event name. */
+  event: string;
+  /** Session the event belongs to (null if it arrived before any LoadGame). */
+  sessionId: number | null;
+  /** Commander FID (null if it arrived before the commander was known). */
+  fid: string | null;
+  /** The full parsed event. */
+  data: AnyJournalEvent;
+}
+
+/** A play session bounded by LoadGame events. */
+export interface JournalSession {
+  id: number;
+  startTime: string;
+  endTime: string | null;
+  jumps: number;
+  distance: number;
+  /** Credits earned from sales, rewards, vouchers and exploration data. */
+  earnings: number;
+  commander: string | null;
+  fid: string | null;
+}
+
+/**
+ * Commander scope for reads: a FID, `null` for every commander, or omitted
+ * for the active commander (every commander if none is known yet).
+ */
+export type CommanderScope = string | null | undefined;
+
+/** Query options for the journal event store. */
+export interface JournalStoreQuery extends JournalQueryParams {
+  /** Restrict to a single session. */
+  sessionId?: number;
+  /** Commander scope (see {@link CommanderScope}). */
+  fid?: string | null;
+}
+
+/** Options for typed single-event-type reads. */
+export interface JournalEventReadOptions {
+  since?: string;
+  until?: string;
+  sessionId?: number;
+  fid?: string | null;
+  limit?: number;
+  /** `desc` returns newest first (default), `asc` oldest first. */
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * Tracks which session newly stored events belong to. The live event stream
+ * has its own cursor; importers create a fresh one per run so historical
+ * LoadGame boundaries never disturb the live session.
+ */
+export interface SessionCursor {
+  sessionId: number | null;
+  /** Commander the events belong to, from the last Commander/LoadGame. */
+  fid: string | null;
+}
+
+type SqlValue = string | number | null;
+
+// ---------------------------------------------------------------------------
+// Journal Store
+// ---------------------------------------------------------------------------
+
+class JournalStore {
+  /** Session cursor for events arriving on the event bus. */
+  private live: SessionCursor = { sessionId: null, fid: null };
+
+  /** Events inserted since startup (duplicates excluded). */
+  private eventsStored = 0;
+
+  /** Events skipped because they were already stored. */
+  private duplicatesSkipped = 0;
+
+  /** Whether events from the bus are persisted (off during journal replay). */
+  private persistLive = true;
+
+  constructor() {
+    eventBus.onAnyJournalEvent((event) => {
+      if (this.persistLive) this.store(event);
+    });
+  }
+
+  /**
+   * Enable or disable persistence of events arriving on the event bus.
+   * Explicit `store()` calls (e.g. from the importer) are unaffected.
+   */
+  setLivePersistence(enabled: boolean): void {
+    this.persistLive = enabled;
+  }
+
+  isLivePersistenceEnabled(): boolean {
+    return this.persistLive;
+  }
+
+  // -------------------------------------------------------------------------
+  // Persistence
+  // -------------------------------------------------------------------------
+
+  /**
+   * Store a single journal event. Returns true if the event was new.
+   *
+   * Called for every event on the bus; exposed so importers can persist
+   * events (with their own session cursor) without broadcasting them to
+   * the rest of the server.
+   */
+  store(event: AnyJournalEvent, cursor: SessionCursor = this.live): boolean {
+    if (!isDatabaseReady()) return false;
+
+    try {
+      const db = getDb();
+
+      const commander = identify(event);
+      if (commander) {
+        cursor.fid = commander.fid;
+        commanderProfiles.record(commander.fid, commander.name, event.timestamp);
+      }
+
+      if (event.event === 'LoadGame') {
+        this.beginSession(event as JournalEventMap['LoadGame'], cursor);
+      }
+
+      const raw = JSON.stringify(event);
+      db.run(
+        `INSERT OR IGNORE INTO journal_events (timestamp, event, data, session_id, hash, fid)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [event.timestamp, event.event, raw, cursor.sessionId, hashEvent(raw), cursor.fid],
+      );
+
+      if (db.getRowsModified() === 0) {
+        this.duplicatesSkipped++;
+        return false;
+      }
+
+      this.eventsStored++;
+      this.updateSessionTotals(event, cursor);
+      return true;
+    } catch (err) {
+      console.error(
+        `${LOG_PREFIX} Failed to store ${event.event}:`,
+        err instanceof Error ? err.message : err,
+      );
+      return false;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Queries
+  // -------------------------------------------------------------------------
+
+  /**
+   * Paginated query over stored events.
+   *
+   * Supports filtering by event type, time range, session, commander (FID
+   * or name) and a free-text search over the raw event JSON.
+   */
+  query(params: JournalStoreQuery = {}): {
+    events: StoredJournalEvent[];
+    pagination: PaginationMeta;
+  } {
+    const db = getDb();
+    const perPage = clampInt(params.perPage, 1, 1000, 50);
+    const page = clampInt(params.page, 1, Number.MAX_SAFE_INTEGER, 1);
+    const order = params.sortOrder === 'asc' ? 'ASC' : 'DESC';
+    const { where, values } = this.buildWhere(params);
+
+    const totalItems = (scalar(
+      db.exec(`SELECT COUNT(*) FROM journal_events e LEFT JOIN sessions s ON s.id = e.session_id ${where}`, values),
+    ) as number) ?? 0;
+
+    const rows = db.exec(
+      `SELECT e.id, e.timestamp, e.event, e.session_id, e.data, e.fid
+       FROM journal_events e LEFT JOIN sessions s ON s.id = e.session_id
+       ${where}
+       ORDER BY e.timestamp ${order}, e.id ${order}
+       LIMIT ? OFFSET ?`,
+      [...values, perPage, (page - 1) * perPage],
+    );
+
+    const totalPages = Math.max(1, Math.ceil(totalItems / perPage));
+    return {
+      events: mapRows(rows, toStoredEvent),
+      pagination: {
+        page,
+        perPage,
+        totalItems,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Read events of a single type with full typing.
+   *
+   * @example
+   * ```ts
+   * const jumps = journalStore.getEvents('FSDJump', { limit: 100 });
+   * jumps[0].StarSystem; // typed
+   * ```
+   */
+  getEvents<K extends JournalEventName>(
+    eventName: K,
+    options: JournalEventReadOptions = {},
+  ): Array<JournalEventMap[K]> {
+    const db = getDb();
+    const clauses = ['event = ?'];
+    const values: SqlValue[] = [eventName];
+
+    if (options.since) { clauses.push('timestamp >= ?'); values.push(options.since); }
+    if (options.until) { clauses.push('timestamp <= ?'); values.push(options.until); }
+    if (options.sessionId !== undefined) { clauses.push('session_id = ?'); values.push(options.sessionId); }
+    const fid = this.resolveFid(options.fid);
+    if (fid !== null) { clauses.push('fid = ?'); values.push(fid); }
+
+    const order = options.order === 'asc' ? 'ASC' : 'DESC';
+    const limit = clampInt(options.limit, 1, 100_000, 1000);
+    const rows = db.exec(
+      `SELECT data FROM journal_events WHERE ${clauses.join(' AND ')}
+       ORDER BY timestamp ${order}, id ${order} LIMIT ?`,
+      [...values, limit],
+    );
+
+    return mapRows(rows, (row) => JSON.parse(row[0] as string) as JournalEventMap[K]);
+  }
+
+  /** Most recent stored event of a given type, or null. */
+  getLatest<K extends JournalEventName>(eventName: K, fid?: CommanderScope): JournalEventMap[K] | null {
+    return this.getEvents(eventName, { limit: 1, fid })[0] ?? null;
+  }
+
+  /** Distinct values of a top-level field across all stored events of one type. */
+  distinctValues<K extends JournalEventName>(
+    eventName: K,
+    field: keyof JournalEventMap[K] & string,
+    fid?: CommanderScope,
+  ): unknown[] {
+    const db = getDb();
+    const scope = this.fidClause(fid);
+    const rows = db.exec(
+      `SELECT DISTINCT json_extract(data, ?) AS v FROM journal_events
+       WHERE event = ? AND v IS NOT NULL${scope.sql}`,
+      [`$.${field}`, eventName, ...scope.values],
+    );
+    return mapRows(rows, (row) => row[0]);
+  }
+
+  /** Count of stored events of one type and the sum of a numeric field across them. */
+  sumField<K extends JournalEventName>(
+    eventName: K,
+    field: keyof JournalEventMap[K] & string,
+    fid?: CommanderScope,
+  ): { count: number; sum: number } {
+    const db = getDb();
+    const scope = this.fidClause(fid);
+    const rows = db.exec(
+      `SELECT COUNT(*), COALESCE(SUM(json_extract(data, ?)), 0) FROM journal_events
+       WHERE event = ?${scope.sql}`,
+      [`$.${field}`, eventName, ...scope.values],
+    );
+    const row = rows[0]?.values[0] ?? [0, 0];
+    return { count: row[0] as number, sum: row[1] as number };
+  }
+
+  /** Number of stored events per event type, most frequent first. */
+  countByEvent(params: JournalStoreQuery = {}): Array<{ event: string; count: number }> {
+    const db = getDb();
+    const { where, values } = this.buildWhere({ ...params, eventTypes: undefined, search: undefined });
+    const rows = db.exec(
+      `SELECT e.event, COUNT(*) AS n
+       FROM journal_events e LEFT JOIN sessions s ON s.id = e.session_id
+       ${where}
+       GROUP BY e.event ORDER BY n DESC`,
+      values,
+    );
+    return mapRows(rows, (row) => ({ event: row[0] as string, count: row[1] as number }));
+  }
+
+  /** Sessions, newest first. */
+  getSessions(limit = 50, offset = 0, fid?: CommanderScope): JournalSession[] {
+    const db = getDb();
+    const scope = this.fidClause(fid);
+    const rows = db.exec(
+      `SELECT id, start_time, end_time, jumps, distance, earnings, commander, fid
+       FROM sessions WHERE 1 = 1${scope.sql} ORDER BY start_time DESC LIMIT ? OFFSET ?`,
+      [...scope.values, limit, offset],
+    );
+    return mapRows(rows, toSession);
+  }
+
+  /** A single session by ID, or null. */
+  getSession(id: number): JournalSession | null {
+    const db = getDb();
+    const rows = db.exec(
+      `SELECT id, start_time, end_time, jumps, distance, earnings, commander, fid
+       FROM sessions WHERE id = ?`,
+      [id],
+    );
+    return mapRows(rows, toSession)[0] ?? null;
+  }
+
+  /** The session new events are currently attached to. */
+  getCurrentSessionId(): number | null {
+    return this.live.sessionId;
+  }
+
+  /** Stored event and session counts per commander FID. */
+  countByCommander(): Map<string, { events: number; sessions: number }> {
+    const db = getDb();
+    const counts = new Map<string, { events: number; sessions: number }>();
+    const entry = (fid: string) => {
+      if (!counts.has(fid)) counts.set(fid, { events: 0, sessions: 0 });
+      return counts.get(fid)!;
+    };
+    for (const row of db.exec('SELECT fid, COUNT(*) FROM journal_events WHERE fid IS NOT NULL GROUP BY fid')[0]?.values ?? []) {
+      entry(row[0] as string).events = row[1] as number;
+    }
+    for (const row of db.exec('SELECT fid, COUNT(*) FROM sessions WHERE fid IS NOT NULL GROUP BY fid')[0]?.values ?? []) {
+      entry(row[0] as string).sessions = row[1] as number;
+    }
+    return counts;
+  }
+
+  /** Totals for diagnostics and the journal overview endpoint. */
+  getStats(fid?: CommanderScope): {
+    fid: string | null;
+    totalEvents: number;
+    totalSessions: number;
+    firstEvent: string | null;
+    lastEvent: string | null;
+    eventsStored: number;
+    duplicatesSkipped: number;
+    currentSessionId: number | null;
+    livePersistence: boolean;
+  } {
+    const db = getDb();
+    const scope = this.fidClause(fid);
+    const where = scope.sql.replace(' AND', ' WHERE');
+    const rows = db.exec(
+      `SELECT (SELECT COUNT(*) FROM journal_events${where}),
+              (SELECT COUNT(*) FROM sessions${where}),
+              (SELECT MIN(timestamp) FROM journal_events${where}),
+              (SELECT MAX(timestamp) FROM journal_events${where})`,
+      [...scope.values, ...scope.values, ...scope.values, ...scope.values],
+    );
+    const row = rows[0]?.values[0] ?? [0, 0, null, null];
+    return {
+      fid: this.resolveFid(fid),
+      totalEvents: row[0] as number,
+      totalSessions: row[1] as number,
+      firstEvent: (row[2] as string | null) ?? null,
+      lastEvent: (row[3] as string | null) ?? null,
+      eventsStored: this.eventsStored,
+      duplicatesSkipped: this.duplicatesSkipped,
+      currentSessionId: this.live.sessionId,
+      livePersistence: this.persistLive,
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Private: sessions
+  // -------------------------------------------------------------------------
+
+  /**
+   * Close the current session and open (or re-attach to) the session that
+   * starts with this LoadGame.
+   */
+  private beginSession(e: JournalEventMap['LoadGame'], cursor: SessionCursor): void {
+    const db = getDb();
+
+    if (cursor.sessionId !== null) {
+      db.run(
+        'UPDATE sessions SET end_time = COALESCE(end_time, ?) WHERE id = ?',
+        [e.timestamp, cursor.sessionId],
+      );
+    }
+
+    const existing = scalar(db.exec(
+      'SELECT id FROM sessions WHERE start_time = ? AND commander IS ?',
+      [e.timestamp, e.Commander ?? null],
+    ));
+
+    if (typeof existing === 'number') {
+      cursor.sessionId = existing;
+      return;
+    }
+
+    db.run(
+      'INSERT INTO sessions (start_time, commander, fid) VALUES (?, ?, ?)',
+      [e.timestamp, e.Commander ?? null, cursor.fid],
+    );
+    cursor.sessionId = scalar(db.exec('SELECT last_insert_rowid()')) as number;
+  }
+
+  /** Roll newly stored events into the current session's totals. */
+  private updateSessionTotals(event: AnyJournalEvent, cursor: SessionCursor): void {
+    if (cursor.sessionId === null) return;
+    const db = getDb();
+
+    if (event.event === 'FSDJump') {
+      const jumpDist = (event as JournalEventMap['FSDJump']).JumpDist ?? 0;
+      db.run(
+        'UPDATE sessions SET jumps = jumps + 1, distance = distance + ?, end_time = ? WHERE id = ?',
+        [jumpDist, event.timestamp, cursor.sessionId],
+      );
+    } else {
+      db.run(
+        'UPDATE sessions SET earnings = earnings + ?, end_time = ? WHERE id = ?',
+        [creditsEarned(event), event.timestamp, cursor.sessionId],
+      );
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Private: query helpers
+  // -------------------------------------------------------------------------
+
+  private buildWhere(params: JournalStoreQuery): { where: string; values: SqlValue[] } {
+    const clauses: string[] = [];
+    const values: SqlValue[] = [];
+
+    if (params.eventTypes && params.eventTypes.length > 0) {
+      clauses.push(`e.event IN (${params.eventTypes.map(() => '?').join(', ')})`);
+      values.push(...params.eventTypes);
+    }
+    if (params.since) { clauses.push('e.timestamp >= ?'); values.push(params.since); }
+    if (params.until) { clauses.push('e.timestamp <= ?'); values.push(params.until); }
+    if (params.sessionId !== undefined) { clauses.push('e.session_id = ?'); values.push(params.sessionId); }
+    if (params.commander) { clauses.push('s.commander = ?'); values.push(params.commander); }
+    const fid = this.resolveFid(params.fid);
+    if (fid !== null) { clauses.push('e.fid = ?'); values.push(fid); }
+    if (params.search) { clauses.push('e.data LIKE ?'); values.push(`%${params.search}%`); }
+
+    return {
+      where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '',
+      values,
+    };
+  }
+
+  /** Apply the {@link CommanderScope} default: omitted means the active commander. */
+  private resolveFid(fid: CommanderScope): string | null {
+    return fid === undefined ? commanderProfiles.getActiveFid() : fid;
+  }
+
+  /** `AND fid = ?` for a scoped read, or nothing when unscoped. */
+  private fidClause(fid: CommanderScope): { sql: string; values: SqlValue[] } {
+    const resolved = this.resolveFid(fid);
+    return resolved === null ? { sql: '', values: [] } : { sql: ' AND fid = ?', values: [resolved] };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function hashEvent(raw: string): string {
+  return createHash('sha1').update(raw).digest('hex');
+}
+
+/** Credits the event paid the commander, counted like the live session's `creditsEarned`. */
+function creditsEarned(event: AnyJournalEvent): number {
+  switch (event.event) {
+    case 'MarketSell': return (event as JournalEventMap['MarketSell']).TotalSale ?? 0;
+    case 'MissionCompleted': return (event as JournalEventMap['MissionCompleted']).Reward ?? 0;
+    case 'RedeemVoucher': return (event as JournalEventMap['RedeemVoucher']).Amount ?? 0;
+    case 'SellExplorationData': return (event as JournalEventMap['SellExplorationData']).TotalEarnings ?? 0;
+    case 'MultiSellExplorationData': return (event as JournalEventMap['MultiSellExplorationData']).TotalEarnings ?? 0;
+    case 'SearchAndRescue': return (event as JournalEventMap['SearchAndRescue']).Reward ?? 0;
+    case 'PowerplaySalary': return (event as JournalEventMap['PowerplaySalary']).Amount ?? 0;
+    default: return 0;
+  }
+}
+
+function toStoredEvent(row: Row): StoredJournalEvent {
+  return {
+    id: row[0] as number,
+    timestamp: row[1] as string,
+    event: row[2] as string,
+    sessionId: (row[3] as number | null) ?? null,
+    data: JSON.parse(row[4] as string) as AnyJournalEvent,
+    fid: (row[5] as string | null) ?? null,
+  };
+}
+
+function toSession(row: Row): JournalSession {
+  return {
+    id: row[0] as number,
+    startTime: row[1] as string,
+    endTime: (row[2] as string | null) ?? null,
+    jumps: (row[3] as number) ?? 0,
+    distance: (row[4] as number) ?? 0,
+    earnings: (row[5] as number) ?? 0,
+    commander: (row[6] as string | null) ?? null,
+    fid: (row[7] as string | null) ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Singleton export
+// ---------------------------------------------------------------------------
+
+/** Global journal event store instance. */
+export const journalStore = new JournalStore();
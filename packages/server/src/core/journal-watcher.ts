@@ -65,6 +65,15 @@ class JournalWatcher {
   /** Total number of journal events processed since start. */
   private eventsProcessed = 0;
 
+  /** When the last tailed event was emitted (epoch ms). */
+  private lastEventAt: number | null = null;
+
+  /**
+   * Delay between the game stamping the last tailed event and VAYU
+   * emitting it. Journal timestamps have 1 s resolution.
+   */
+  private lagMs: number | null = null;
+
   /** Whether the watcher is actively watching. */
   private watching = false;
 
@@ -207,6 +216,8 @@ class JournalWatcher {
     eventsProcessed: number;
     journalDir: string | null;
     trackedFiles: number;
+    lastEventAt: string | null;
+    lagMs: number | null;
   } {
     return {
       watching: this.watching,
@@ -214,6 +225,8 @@ class JournalWatcher {
       eventsProcessed: this.eventsProcessed,
       journalDir: this.journalDir,
       trackedFiles: this.filePositions.size,
+      lastEventAt: this.lastEventAt !== null ? new Date(this.lastEventAt).toISOString() : null,
+      lagMs: this.lagMs,
     };
   }
 
@@ -256,6 +269,13 @@ class JournalWatcher {
         this.eventsProcessed++;
       }
 
+      const last = result.events[result.events.length - 1];
+      if (last) {
+        this.lastEventAt = Date.now();
+        const stamped = Date.parse(last.timestamp);
+        if (!Number.isNaN(stamped)) this.lagMs = Math.max(0, this.lastEventAt - stamped);
+      }
+
       if (result.events.length > 0) {
         const eventNames = result.events.map((e) => e.event).join(', ');
         console.log(
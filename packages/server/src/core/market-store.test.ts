@@ -0,0 +1,91 @@
+/**
+ * AGNI — Unit tests for market-store.ts
+ *
+ * Runs the store against a real sql.js database (with migrations) and
+ * feeds Market.json contents through the event bus: snapshot storage,
+ * de-duplication on re-read, and the price history queries.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { initDatabase, closeDatabase } from '../database/index.js';
+import { eventBus } from './event-bus.js';
+import { marketStore } from './market-store.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dbPath: string;
+
+function item(name: string, localised: string, buyPrice: number, sellPrice: number) {
+  return {
+    id: 128049202, Name: `$${name}_name;`, Name_Localised: localised, Category_Localised: 'Metals',
+    BuyPrice: buyPrice, SellPrice: sellPrice, MeanPrice: 9500, StockBracket: 2, DemandBracket: 0,
+    Stock: 1200, Demand: 1, Consumer: false, Producer: true, Rare: false,
+  };
+}
+
+function market(marketId: number, station: string, timestamp: string, items: unknown[]) {
+  return {
+    timestamp, event: 'Market', MarketID: marketId, StationName: station,
+    StationType: 'Coriolis', StarSystem: 'Sol', Items: items,
+  };
+}
+
+beforeEach(async () => {
+  dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-market-')), 'test.db');
+  await initDatabase(dbPath);
+});
+
+afterEach(() => {
+  closeDatabase(dbPath);
+  fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('marketStore', () => {
+  it('should store each snapshot once', () => {
+    const data = market(1, 'Abraham Lincoln', '2025-01-01T10:00:00Z', [item('gold', 'Gold', 9400, 9300)]);
+
+    expect(marketStore.record(data)?.items[0]).toMatchObject({ name: 'gold', buyPrice: 9400, stockBracket: 2 });
+    expect(marketStore.record(data)).toBeNull();
+    eventBus.emitMarketUpdate(data);
+
+    expect(marketStore.listStations()).toEqual([expect.objectContaining({
+      marketId: 1, stationName: 'Abraham Lincoln', snapshots: 1, commodities: 1,
+    })]);
+    expect(marketStore.getLatestSnapshot(1)?.items[0]).toMatchObject({ name: 'gold', producer: true, consumer: false });
+  });
+
+  it('should ignore markets without commodities', () => {
+    expect(marketStore.record(market(1, 'Abraham Lincoln', '2025-01-01T10:00:00Z', []))).toBeNull();
+    expect(marketStore.getLatestSnapshot()).toBeNull();
+  });
+
+  it('should answer price history by commodity and by station', () => {
+    marketStore.record(market(1, 'Abraham Lincoln', '2025-01-01T10:00:00Z', [item('gold', 'Gold', 9400, 9300)]));
+    marketStore.record(market(2, 'Daedalus', '2025-01-01T11:00:00Z', [
+      item('gold', 'Gold', 0, 9900), item('lowtemperaturediamond', 'Low Temperature Diamonds', 0, 120000),
+    ]));
+    marketStore.record(market(1, 'Abraham Lincoln', '2025-01-02T10:00:00Z', [item('gold', 'Gold', 9600, 9450)]));
+
+    expect(marketStore.getPriceHistory({ commodity: 'Gold' }).map((p) => p.sellPrice)).toEqual([9300, 9900, 9450]);
+    expect(marketStore.getPriceHistory({ commodity: 'gold', marketId: 1, limit: 1 }))
+      .toEqual([expect.objectContaining({ timestamp: '2025-01-02T10:00:00Z', buyPrice: 9600 })]);
+    expect(marketStore.getPriceHistory({ marketId: 2 })).toHaveLength(2);
+    expect(marketStore.getPriceHistory({ commodity: 'low temperature diamonds' })[0].commodity)
+      .toBe('lowtemperaturediamond');
+
+    expect(marketStore.getCommodityPrices('$Gold_Name;').map((p) => [p.stationName, p.sellPrice])).toEqual([
+      ['Daedalus', 9900],
+      ['Abraham Lincoln', 9450],
+    ]);
+  });
+});
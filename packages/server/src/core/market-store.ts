@@ -0,0 +1,325 @@
+/**
+ * @vayu/server — Market Price Store
+ *
+ * Persists every Market.json snapshot (written each time the commander
+ * opens a commodity market) into `market_snapshots` / `market_prices`,
+ * building a local price database from the commander's own visits.
+ *
+ * Key behaviors:
+ *   - Subscribes to `market:update` on import (like the journal store)
+ *   - De-duplicates on (MarketID, timestamp), so re-reading Market.json at
+ *     startup does not store the snapshot twice
+ *   - Broadcasts `market:snapshot` only for snapshots it has not seen
+ *   - Commodities are keyed by their internal name in lower case ("gold"),
+ *     the form MarketBuy/MarketSell use; queries also accept the localised
+ *     name ("Low Temperature Diamonds")
+ *   - Silently skips persistence until the database has been initialised
+ */
+
+import type {
+  CommodityCategory,
+  MarketEntry,
+  MarketHistoryQuery,
+  MarketPricePoint,
+  MarketSnapshot,
+  MarketStationSummary,
+} from '@vayu/shared';
+
+import { eventBus } from './event-bus.js';
+import { getDb, isDatabaseReady } from '../database/index.js';
+import { clampInt, mapRows, scalar, type Row } from '../database/rows.js';
+import { wsManager } from '../websocket.js';
+
+// ---------------------------------------------------------------------------
+// Logger prefix
+// ---------------------------------------------------------------------------
+
+const LOG_PREFIX = '[market-store]';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One entry of `Items` in Market.json. */
+interface MarketJsonItem {
+  id: number;
+  Name: string;
+  Name_Localised?: string;
+  Category_Localised?: string;
+  BuyPrice: number;
+  SellPrice: number;
+  MeanPrice: number;
+  StockBracket: number;
+  DemandBracket: number;
+  Stock: number;
+  Demand: number;
+  Consumer: boolean;
+  Producer: boolean;
+  Rare: boolean;
+}
+
+type SqlValue = string | number | null;
+
+// ---------------------------------------------------------------------------
+// Market Store
+// ---------------------------------------------------------------------------
+
+class MarketStore {
+  constructor() {
+    eventBus.onMarketUpdate((data) => this.record(data));
+  }
+
+  /**
+   * Store a parsed Market.json. Returns the snapshot when it was new, or
+   * null when it was empty, already stored, or the database is not ready.
+   */
+  record(data: Record<string, unknown>): MarketSnapshot | null {
+    const snapshot = toSnapshot(data);
+    if (!snapshot || !isDatabaseReady()) return null;
+
+    const db = getDb();
+    db.run('BEGIN');
+    try {
+      db.run(
+        `INSERT OR IGNORE INTO market_snapshots (market_id, station_name, station_type, star_system, timestamp)
+         VALUES (?, ?, ?, ?, ?)`,
+        [snapshot.marketId, snapshot.stationName, snapshot.stationType, snapshot.starSystem, snapshot.timestamp],
+      );
+      if (db.getRowsModified() === 0) {
+        db.run('COMMIT');
+        return null;
+      }
+
+      const snapshotId = scalar(db.exec('SELECT last_insert_rowid()')) as number;
+      for (const item of snapshot.items) {
+        db.run(
+          `INSERT OR IGNORE INTO market_prices (snapshot_id, commodity_id, commodity, name_localised, category,
+             buy_price, sell_price, mean_price, stock, stock_bracket, demand, demand_bracket,
+             consumer, producer, rare)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [snapshotId, item.id, item.name, item.nameLocalised, item.category,
+            item.buyPrice, item.sellPrice, item.meanPrice, item.stock, item.stockBracket,
+            item.demand, item.demandBracket, Number(item.consumer), Number(item.producer), Number(item.rare)],
+        );
+      }
+      db.run('COMMIT');
+    } catch (err) {
+      db.run('ROLLBACK');
+      console.error(
+        `${LOG_PREFIX} Failed to store market ${snapshot.marketId}:`,
+        err instanceof Error ? err.message : err,
+      );
+      return null;
+    }
+
+    wsManager.broadcast<MarketSnapshot>('market:snapshot', snapshot);
+    return snapshot;
+  }
+
+  // -------------------------------------------------------------------------
+  // Queries
+  // -------------------------------------------------------------------------
+
+  /** The most recent snapshot, of one station or of any. */
+  getLatestSnapshot(marketId?: number): MarketSnapshot | null {
+    const db = getDb();
+    const filter = marketId === undefined ? '' : 'WHERE market_id = ?';
+    const rows = db.exec(
+      `SELECT id, market_id, station_name, station_type, star_system, timestamp
+       FROM market_snapshots ${filter}
+       ORDER BY timestamp DESC, id DESC LIMIT 1`,
+      marketId === undefined ? [] : [marketId],
+    );
+    const row = rows[0]?.values[0];
+    if (!row) return null;
+
+    const items = db.exec(
+      `SELECT commodity_id, commodity, name_localised, category, buy_price, sell_price, mean_price,
+              stock, stock_bracket, demand, demand_bracket, consumer, producer, rare
+       FROM market_prices WHERE snapshot_id = ?
+       ORDER BY category, commodity`,
+      [row[0]],
+    );
+
+    return {
+      marketId: row[1] as number,
+      stationName: row[2] as string,
+      stationType: row[3] as string,
+      starSystem: row[4] as string,
+      timestamp: row[5] as string,
+      items: mapRows(items, toMarketEntry),
+    };
+  }
+
+  /** Stations with at least one snapshot, most recently visited first. */
+  listStations(limit = 100, offset = 0): MarketStationSummary[] {
+    const rows = getDb().exec(
+      `SELECT s.market_id, s.station_name, s.station_type, s.star_system, s.timestamp,
+              (SELECT COUNT(*) FROM market_snapshots c WHERE c.market_id = s.market_id),
+              (SELECT COUNT(*) FROM market_prices p WHERE p.snapshot_id = s.id)
+       FROM market_snapshots s
+       WHERE s.id = (${latestSnapshotOf('s.market_id')})
+       ORDER BY s.timestamp DESC
+       LIMIT ? OFFSET ?`,
+      [clampInt(limit, 1, 1000, 100), clampInt(offset, 0, Number.MAX_SAFE_INTEGER, 0)],
+    );
+    return mapRows(rows, (row) => ({
+      marketId: row[0] as number,
+      stationName: row[1] as string,
+      stationType: row[2] as string,
+      starSystem: row[3] as string,
+      lastVisited: row[4] as string,
+      snapshots: row[5] as number,
+      commodities: row[6] as number,
+    }));
+  }
+
+  /**
+   * A commodity's price at every station whose latest snapshot lists it,
+   * best selling price first.
+   */
+  getCommodityPrices(commodity: string): MarketPricePoint[] {
+    const match = commodityClause(commodity);
+    const rows = getDb().exec(
+      `${PRICE_POINT_SELECT}
+       WHERE ${match.sql} AND s.id = (${latestSnapshotOf('s.market_id')})
+       ORDER BY p.sell_price DESC, s.timestamp DESC`,
+      match.values,
+    );
+    return mapRows(rows, toPricePoint);
+  }
+
+  /**
+   * Price history matching the filters, oldest first. `limit` keeps the
+   * most recent points.
+   */
+  getPriceHistory(query: MarketHistoryQuery): MarketPricePoint[] {
+    const clauses: string[] = [];
+    const values: SqlValue[] = [];
+
+    if (query.commodity) {
+      const match = commodityClause(query.commodity);
+      clauses.push(match.sql);
+      values.push(...match.values);
+    }
+    if (query.marketId !== undefined) { clauses.push('s.market_id = ?'); values.push(query.marketId); }
+    if (query.since) { clauses.push('s.timestamp >= ?'); values.push(query.since); }
+    if (query.until) { clauses.push('s.timestamp <= ?'); values.push(query.until); }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = getDb().exec(
+      `${PRICE_POINT_SELECT} ${where}
+       ORDER BY s.timestamp DESC, p.commodity
+       LIMIT ?`,
+      [...values, clampInt(query.limit, 1, 5000, 500)],
+    );
+    return mapRows(rows, toPricePoint).reverse();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SQL fragments
+// ---------------------------------------------------------------------------
+
+const PRICE_POINT_SELECT = `
+  SELECT s.timestamp, s.market_id, s.station_name, s.star_system, p.commodity, p.name_localised,
+         p.buy_price, p.sell_price, p.mean_price, p.stock, p.demand
+  FROM market_prices p JOIN market_snapshots s ON s.id = p.snapshot_id`;
+
+/** Subquery for the id of a station's latest snapshot. */
+function latestSnapshotOf(marketIdColumn: string): string {
+  return `SELECT l.id FROM market_snapshots l WHERE l.market_id = ${marketIdColumn}
+          ORDER BY l.timestamp DESC, l.id DESC LIMIT 1`;
+}
+
+/** Match a commodity by internal name or localised name, case-insensitively. */
+function commodityClause(commodity: string): { sql: string; values: SqlValue[] } {
+  return {
+    sql: '(p.commodity = ? OR LOWER(p.name_localised) = ?)',
+    values: [normaliseCommodity(commodity), commodity.trim().toLowerCase()],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** `$Gold_Name;` → `gold`. Plain names are lower-cased. */
+function normaliseCommodity(name: string): string {
+  return name.trim().replace(/^\$/, '').replace(/_name;$/i, '').toLowerCase();
+}
+
+/** Parse Market.json. Null when it has no MarketID or lists no commodities. */
+function toSnapshot(data: Record<string, unknown>): MarketSnapshot | null {
+  const items = data['Items'] as MarketJsonItem[] | undefined;
+  if (typeof data['MarketID'] !== 'number' || !Array.isArray(items) || items.length === 0) return null;
+
+  return {
+    marketId: data['MarketID'],
+    stationName: (data['StationName'] as string | undefined) ?? '',
+    stationType: (data['StationType'] as string | undefined) ?? '',
+    starSystem: (data['StarSystem'] as string | undefined) ?? '',
+    timestamp: (data['timestamp'] as string | undefined) ?? new Date().toISOString(),
+    items: items.map((item) => ({
+      id: item.id,
+      name: normaliseCommodity(item.Name),
+      nameLocalised: item.Name_Localised ?? null,
+      category: (item.Category_Localised ?? 'Unknown') as CommodityCategory,
+      buyPrice: item.BuyPrice ?? 0,
+      sellPrice: item.SellPrice ?? 0,
+      meanPrice: item.MeanPrice ?? 0,
+      stock: item.Stock ?? 0,
+      stockBracket: bracket(item.StockBracket),
+      demand: item.Demand ?? 0,
+      demandBracket: bracket(item.DemandBracket),
+      consumer: item.Consumer === true,
+      producer: item.Producer === true,
+      rare: item.Rare === true,
+    })),
+  };
+}
+
+function bracket(value: unknown): MarketEntry['stockBracket'] {
+  return value === 1 || value === 2 || value === 3 ? value : 0;
+}
+
+function toMarketEntry(row: Row): MarketEntry {
+  return {
+    id: row[0] as number,
+    name: row[1] as string,
+    nameLocalised: (row[2] as string | null) ?? null,
+    category: row[3] as CommodityCategory,
+    buyPrice: row[4] as number,
+    sellPrice: row[5] as number,
+    meanPrice: row[6] as number,
+    stock: row[7] as number,
+    stockBracket: bracket(row[8]),
+    demand: row[9] as number,
+    demandBracket: bracket(row[10]),
+    consumer: row[11] === 1,
+    producer: row[12] === 1,
+    rare: row[13] === 1,
+  };
+}
+
+function toPricePoint(row: Row): MarketPricePoint {
+  return {
+    timestamp: row[0] as string,
+    marketId: row[1] as number,
+    stationName: row[2] as string,
+    starSystem: row[3] as string,
+    commodity: row[4] as string,
+    nameLocalised: (row[5] as string | null) ?? null,
+    buyPrice: row[6] as number,
+    sellPrice: row[7] as number,
+    meanPrice: row[8] as number,
+    stock: row[9] as number,
+    demand: row[10] as number,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+export const marketStore = new MarketStore();
@@ -0,0 +1,63 @@
+/**
+ * AGNI — Unit tests for metrics.ts
+ *
+ * Checks the Prometheus text rendering and the bucket-based quantile
+ * estimates used by the diagnostics report.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { Counter, Gauge, Histogram, metrics } from './metrics.js';
+
+describe('metrics', () => {
+  it('should render labelled counters with HELP and TYPE lines', () => {
+    const counter = metrics.counter('vayu_test_things_total', 'Things counted.');
+    counter.inc({ kind: 'a' });
+    counter.inc({ kind: 'a' }, 2);
+    counter.inc({ kind: 'quote"d' });
+
+    const text = metrics.render();
+    expect(text).toContain('# HELP vayu_test_things_total Things counted.\n# TYPE vayu_test_things_total counter\n');
+    expect(text).toContain('vayu_test_things_total{kind="a"} 3\n');
+    expect(text).toContain('vayu_test_things_total{kind="quote\\"d"} 1\n');
+    expect(metrics.counter('vayu_test_things_total', '')).toBe(counter);
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const histogram = new Histogram('vayu_test_seconds', 'Test.', [0.1, 1]);
+    histogram.observe({}, 0.05);
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 5);
+
+    expect(histogram.render()).toEqual([
+      'vayu_test_seconds_bucket{le="0.1"} 1',
+      'vayu_test_seconds_bucket{le="1"} 2',
+      'vayu_test_seconds_bucket{le="+Inf"} 3',
+      'vayu_test_seconds_sum 5.55',
+      'vayu_test_seconds_count 3',
+    ]);
+  });
+
+  it('should estimate quantiles from bucket bounds, capped at the max seen', () => {
+    const histogram = new Histogram('vayu_test_latency_seconds', 'Test.', [0.01, 0.1, 1]);
+    for (let i = 0; i < 19; i++) histogram.observe({ stage: 'stt' }, 0.005);
+    histogram.observe({ stage: 'stt' }, 0.4);
+
+    const [summary] = histogram.summaries();
+    expect(summary).toMatchObject({ labels: { stage: 'stt' }, count: 20, max: 0.4 });
+    expect(summary.p50).toBe(0.01);
+    expect(summary.p95).toBe(0.01);
+
+    histogram.observe({ stage: 'stt' }, 0.4);
+    expect(histogram.summaries()[0].p95).toBe(0.4);
+  });
+
+  it('should collect gauges at render time', () => {
+    let value = 1;
+    const gauge = new Gauge('vayu_test_gauge', 'Test.', () => value);
+    expect(gauge.render()).toEqual(['vayu_test_gauge 1']);
+    value = 2;
+    expect(gauge.render()).toEqual(['vayu_test_gauge 2']);
+    expect(new Counter('vayu_test_empty_total', 'Test.').render()).toEqual([]);
+  });
+});
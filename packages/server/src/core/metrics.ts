@@ -0,0 +1,269 @@
+/**
+ * @vayu/server — Metrics Registry
+ *
+ * Minimal counters, gauges and histograms rendered in the Prometheus text
+ * exposition format (version 0.0.4) for `GET /metrics`. Subsystems record
+ * observations into named metrics; `core/diagnostics.ts` registers the
+ * gauges that are computed at scrape time and summarises everything for
+ * `GET /api/diagnostics`.
+ *
+ * This module imports nothing from the server so any subsystem (including
+ * the event bus and database) can record into it.
+ *
+ * Conventions: names are prefixed `vayu_`, durations are in seconds, and
+ * label values should have bounded cardinality (event names, stage names —
+ * never ids or free text).
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MetricLabels = Record<string, string>;
+
+/** One labelled value of a metric. */
+export interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+/** Summary of one histogram series, in the histogram's unit. */
+export interface HistogramSummary {
+  labels: MetricLabels;
+  count: number;
+  sum: number;
+  max: number;
+  /** Estimated from bucket boundaries. */
+  p50: number;
+  p95: number;
+}
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+/** Default latency buckets (seconds): 0.5 ms to 30 s. */
+export const DEFAULT_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// ---------------------------------------------------------------------------
+// Metric types
+// ---------------------------------------------------------------------------
+
+/** Monotonically increasing count. */
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private series = new Map<string, MetricSample>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: MetricLabels = {}, by = 1): void {
+    const key = labelKey(labels);
+    const sample = this.series.get(key);
+    if (sample) sample.value += by;
+    else this.series.set(key, { labels: { ...labels }, value: by });
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(labelKey(labels))?.value ?? 0;
+  }
+
+  samples(): MetricSample[] {
+    return [...this.series.values()];
+  }
+
+  render(): string[] {
+    return this.samples().map((s) => `${this.name}${formatLabels(s.labels)} ${formatValue(s.value)}`);
+  }
+}
+
+/**
+ * Point-in-time value. Either set explicitly or computed at scrape time by
+ * a collect callback.
+ */
+export class Gauge implements Metric {
+  readonly type = 'gauge';
+  private series = new Map<string, MetricSample>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private collect?: () => number | MetricSample[],
+  ) {}
+
+  set(labels: MetricLabels, value: number): void {
+    this.series.set(labelKey(labels), { labels: { ...labels }, value });
+  }
+
+  samples(): MetricSample[] {
+    if (!this.collect) return [...this.series.values()];
+    const collected = this.collect();
+    return typeof collected === 'number' ? [{ labels: {}, value: collected }] : collected;
+  }
+
+  render(): string[] {
+    return this.samples().map((s) => `${this.name}${formatLabels(s.labels)} ${formatValue(s.value)}`);
+  }
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  counts: number[];
+  sum: number;
+  count: number;
+  max: number;
+}
+
+/** Distribution of observed values in fixed buckets. */
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(readonly name: string, readonly help: string, readonly buckets: number[] = DEFAULT_BUCKETS) {}
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: { ...labels }, counts: new Array(this.buckets.length).fill(0), sum: 0, count: 0, max: 0 };
+      this.series.set(key, series);
+    }
+    const index = this.buckets.findIndex((b) => value <= b);
+    if (index >= 0) series.counts[index]++;
+    series.sum += value;
+    series.count++;
+    if (value > series.max) series.max = value;
+  }
+
+  /** Time `fn` and observe its duration in seconds. */
+  time<T>(labels: MetricLabels, fn: () => T): T {
+    const start = performance.now();
+    try {
+      return fn();
+    } finally {
+      this.observe(labels, (performance.now() - start) / 1000);
+    }
+  }
+
+  summaries(): HistogramSummary[] {
+    return [...this.series.values()].map((s) => ({
+      labels: s.labels,
+      count: s.count,
+      sum: s.sum,
+      max: s.max,
+      p50: this.quantile(s, 0.5),
+      p95: this.quantile(s, 0.95),
+    }));
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const s of this.series.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += s.counts[i];
+        lines.push(`${this.name}_bucket${formatLabels({ ...s.labels, le: formatValue(bound) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...s.labels, le: '+Inf' })} ${s.count}`);
+      lines.push(`${this.name}_sum${formatLabels(s.labels)} ${formatValue(s.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(s.labels)} ${s.count}`);
+    }
+    return lines;
+  }
+
+  /** Upper bound of the bucket holding quantile `q` (capped at the max seen). */
+  private quantile(s: HistogramSeries, q: number): number {
+    if (s.count === 0) return 0;
+    const rank = q * s.count;
+    let cumulative = 0;
+    for (let i = 0; i < this.buckets.length; i++) {
+      cumulative += s.counts[i];
+      if (cumulative >= rank) return Math.min(this.buckets[i], s.max);
+    }
+    return s.max;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  /** Get or create a counter. */
+  counter(name: string, help: string): Counter {
+    return this.register(name, () => new Counter(name, help)) as Counter;
+  }
+
+  /** Get or create a gauge; `collect` computes its samples at scrape time. */
+  gauge(name: string, help: string, collect?: () => number | MetricSample[]): Gauge {
+    return this.register(name, () => new Gauge(name, help, collect)) as Gauge;
+  }
+
+  /** Get or create a histogram. */
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, buckets)) as Histogram;
+  }
+
+  /** A registered metric by name, without creating it. */
+  find<T extends Counter | Gauge | Histogram>(name: string): T | undefined {
+    return this.metrics.get(name) as T | undefined;
+  }
+
+  /** Render every metric in the Prometheus text exposition format. */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      let body: string[];
+      try {
+        body = metric.render();
+      } catch (err) {
+        console.error(`[metrics] Failed to collect ${metric.name}:`, err);
+        continue;
+      }
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...body);
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private register(name: string, create: () => Metric): Metric {
+    let metric = this.metrics.get(name);
+    if (!metric) {
+      metric = create();
+      this.metrics.set(name, metric);
+    }
+    return metric;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels).sort().map((k) => `${k}=${labels[k]}`).join(',');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const body = entries
+    .map(([k, v]) => `${k}="${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',');
+  return `{${body}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/** Singleton metrics registry. */
+export const metrics = new MetricsRegistry();
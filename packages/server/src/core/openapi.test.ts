@@ -0,0 +1,141 @@
+/**
+ * AGNI — Unit tests for api-route.ts and openapi.ts
+ *
+ * Serves a small router over real HTTP to check that declared routes reject
+ * bad requests with the error envelope and hand handlers validated values,
+ * then checks the OpenAPI document generated from the same router.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import express, { Router, type Request, type Response } from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { API_SCHEMAS } from '@vayu/shared';
+
+import { apiRoute } from './api-route.js';
+import { buildOpenApiDocument } from './openapi.js';
+
+// ---------------------------------------------------------------------------
+// Fixture
+// ---------------------------------------------------------------------------
+
+const router = Router();
+
+router.get('/', apiRoute({
+  summary: 'List entries',
+  query: API_SCHEMAS.LimitOffsetQuery,
+  response: { type: 'array', items: API_SCHEMAS.LogbookEntry },
+}), (req: Request, res: Response) => {
+  res.json({ success: true, data: req.query });
+});
+
+router.post('/', apiRoute({
+  summary: 'Write an entry',
+  body: API_SCHEMAS.LogbookCreateRequest,
+  response: API_SCHEMAS.LogbookEntry,
+}), (req: Request, res: Response) => {
+  res.json({ success: true, data: req.body });
+});
+
+router.delete('/queue/:index', apiRoute({
+  summary: 'Remove from queue',
+  params: { index: { type: 'integer', minimum: 0 } },
+  errors: { 404: 'Nothing at that index' },
+}), (_req: Request, res: Response) => {
+  res.json({ success: true });
+});
+
+router.get('/system/:name', (_req: Request, res: Response) => {
+  res.json({ success: true, data: [] });
+});
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/logbook', router);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise((resolve) => server.once('listening', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/logbook`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+async function call(method: string, path: string, body?: unknown) {
+  const res = await fetch(base + path, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, json: (await res.json()) as { data?: unknown; errors?: Record<string, string> } };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('apiRoute', () => {
+  it('should pass validated bodies and coerced queries to the handler', async () => {
+    expect(await call('POST', '/', { content: 'Jumped to Sol' })).toEqual({
+      status: 200,
+      json: { success: true, data: { content: 'Jumped to Sol', source: 'text', tags: [] } },
+    });
+    expect((await call('GET', '/?limit=5')).json.data).toEqual({ limit: 5 });
+  });
+
+  it('should reject bad requests with the error envelope', async () => {
+    expect(await call('POST', '/', { source: 'telepathy' })).toEqual({
+      status: 400,
+      json: {
+        success: false,
+        error: 'Invalid request: content (is required), source (must be one of "text", "voice")',
+        errors: { content: 'is required', source: 'must be one of "text", "voice"' },
+      },
+    });
+    expect((await call('GET', '/?limit=0')).json.errors).toEqual({ 'query.limit': 'must be at least 1' });
+    expect((await call('DELETE', '/queue/first')).json.errors).toEqual({ 'params.index': 'must be an integer' });
+  });
+});
+
+describe('buildOpenApiDocument', () => {
+  const doc = buildOpenApiDocument([{ name: 'logbook', router }], { title: 'Test', version: '0.0.0' });
+
+  it('should list every route, declared or not', () => {
+    expect(Object.keys(doc.paths)).toEqual(['/logbook', '/logbook/queue/{index}', '/logbook/system/{name}']);
+    expect(Object.keys(doc.paths['/logbook'])).toEqual(['get', 'post']);
+    expect(doc.paths['/logbook/system/{name}'].get).toMatchObject({
+      operationId: 'getLogbookSystemName',
+      summary: 'GET /api/logbook/system/:name',
+      tags: ['logbook'],
+      parameters: [{ name: 'name', in: 'path', required: true, schema: { type: 'string' } }],
+    });
+  });
+
+  it('should describe declared routes with references to shared schemas', () => {
+    const post = doc.paths['/logbook'].post;
+    expect(post.requestBody).toEqual({
+      required: true,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/LogbookCreateRequest' } } },
+    });
+    expect(post.responses['200']).toMatchObject({
+      content: { 'application/json': { schema: { properties: { data: { $ref: '#/components/schemas/LogbookEntry' } } } } },
+    });
+    expect(Object.keys(post.responses)).toEqual(['200', '400']);
+
+    const del = doc.paths['/logbook/queue/{index}'].delete;
+    expect(del.parameters).toEqual([
+      { name: 'index', in: 'path', required: true, schema: { type: 'integer', minimum: 0 } },
+    ]);
+    expect(Object.keys(del.responses)).toEqual(['200', '400', '404']);
+
+    expect(doc.paths['/logbook'].get.parameters).toEqual([
+      { name: 'limit', in: 'query', required: false, schema: { type: 'integer', minimum: 1, maximum: 1000 } },
+      { name: 'offset', in: 'query', required: false, schema: { type: 'integer', minimum: 0 } },
+    ]);
+    expect(doc.components.schemas.MusicQueueRequest).toMatchObject({
+      properties: { track: { $ref: '#/components/schemas/MusicTrack' } },
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * @vayu/server — OpenAPI Document
+ *
+ * Builds the OpenAPI 3.1 description served at `GET /api/openapi.json` by
+ * walking the routers of every built-in feature. Every route is listed;
+ * routes declared with `apiRoute()` also get their summary, parameter,
+ * body and response schemas. Schemas from `API_SCHEMAS` are emitted once
+ * under `components.schemas` and referenced by name.
+ *
+ * Plugin routes are not included — they come and go at runtime and declare
+ * nothing about themselves.
+ */
+
+import type { Router } from 'express';
+import { API_SCHEMAS, type JsonSchema } from '@vayu/shared';
+import { getRouteSpec, type RouteSpec } from './api-route.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A built-in feature as mounted at `/api/<name>`. */
+export interface OpenApiFeature {
+  name: string;
+  router: Router;
+}
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+/** The parts of the OpenAPI document VAYU produces. */
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: OpenApiInfo;
+  servers: Array<{ url: string }>;
+  tags: Array<{ name: string }>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: {
+    schemas: Record<string, unknown>;
+    securitySchemes: Record<string, unknown>;
+  };
+  security: Array<Record<string, string[]>>;
+}
+
+interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: unknown[];
+  requestBody?: unknown;
+  responses: Record<string, unknown>;
+}
+
+/** The bits of Express's internal router stack read here. */
+interface StackLayer {
+  route?: {
+    path: string | RegExp | Array<string | RegExp>;
+    methods: Record<string, boolean>;
+    stack: Array<{ handle: unknown }>;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Builder
+// ---------------------------------------------------------------------------
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/** Build the document for the given features, in the order given. */
+export function buildOpenApiDocument(features: OpenApiFeature[], info: OpenApiInfo): OpenApiDocument {
+  const names = schemaNames();
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const { name, router } of features) {
+    for (const layer of router.stack as StackLayer[]) {
+      const route = layer.route;
+      if (!route || typeof route.path !== 'string') continue;
+
+      const spec = route.stack.map((l) => getRouteSpec(l.handle)).find((s) => s !== undefined);
+      const fullPath = `/${name}${route.path === '/' ? '' : route.path}`;
+      const openApiPath = fullPath.replace(/:(\w+)\??/g, '{$1}');
+
+      for (const method of METHODS) {
+        if (!route.methods[method]) continue;
+        (paths[openApiPath] ??= {})[method] = operation(name, method, fullPath, spec, names);
+      }
+    }
+  }
+
+  const schemas: Record<string, unknown> = {};
+  for (const [name, schema] of Object.entries(API_SCHEMAS)) {
+    schemas[name] = toOpenApi(schema, names, schema);
+  }
+  schemas.ApiError = {
+    type: 'object',
+    required: ['success', 'error'],
+    properties: {
+      success: { const: false },
+      error: { type: 'string' },
+      detail: { type: 'string' },
+      errors: { type: 'object', additionalProperties: { type: 'string' }, description: 'Problem per field.' },
+    },
+  };
+
+  return {
+    openapi: '3.1.0',
+    info,
+    servers: [{ url: '/api' }],
+    tags: features.map(({ name }) => ({ name })),
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        deviceToken: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Token issued to a paired device. Not needed from the machine running VAYU.',
+        },
+      },
+    },
+    security: [{}, { deviceToken: [] }],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function operation(
+  tag: string,
+  method: string,
+  fullPath: string,
+  spec: RouteSpec | undefined,
+  names: Map<JsonSchema, string>,
+): OpenApiOperation {
+  const parameters: unknown[] = [];
+
+  for (const match of fullPath.matchAll(/:(\w+)/g)) {
+    const param = match[1];
+    const schema = spec?.params?.[param] ?? { type: 'string' };
+    parameters.push({ name: param, in: 'path', required: true, schema: toOpenApi(schema, names) });
+  }
+
+  if (spec?.query) {
+    const query = spec.query;
+    for (const [param, schema] of Object.entries(query.properties ?? {})) {
+      parameters.push({
+        name: param,
+        in: 'query',
+        required: query.required?.includes(param) ?? false,
+        ...(schema.description ? { description: schema.description } : {}),
+        schema: toOpenApi(schema, names),
+      });
+    }
+  }
+
+  const op: Omit<OpenApiOperation, 'responses'> = {
+    operationId: operationId(method, fullPath),
+    summary: spec?.summary ?? `${method.toUpperCase()} /api${fullPath}`,
+    ...(spec?.description ? { description: spec.description } : {}),
+    tags: [tag],
+    ...(parameters.length > 0 ? { parameters } : {}),
+  };
+  const responses: Record<string, unknown> = {};
+
+  if (spec?.body) {
+    const required = Boolean(spec.body.required?.length || spec.body.minProperties || spec.body.anyOf);
+    op.requestBody = { required, content: { 'application/json': { schema: toOpenApi(spec.body, names) } } };
+  } else if (spec?.bodyContentType) {
+    op.requestBody = {
+      required: true,
+      content: { [spec.bodyContentType]: { schema: { type: 'string', format: 'binary' } } },
+    };
+  }
+
+  const data = spec?.response ? { data: toOpenApi(spec.response, names) } : {};
+  responses[String(spec?.status ?? 200)] = {
+    description: 'Success',
+    content: {
+      'application/json': {
+        schema: { type: 'object', required: ['success'], properties: { success: { const: true }, ...data } },
+      },
+    },
+  };
+
+  const errors: Record<number, string> = { ...(spec?.errors ?? {}) };
+  if (spec?.params || spec?.query || spec?.body) errors[400] ??= 'Invalid request';
+  for (const [status, description] of Object.entries(errors)) {
+    responses[status] = {
+      description,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiError' } } },
+    };
+  }
+
+  return { ...op, responses };
+}
+
+/** `put /bindings/:action` → `putBindingsAction`. */
+function operationId(method: string, fullPath: string): string {
+  const words = fullPath.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return method + words.map((w) => w[0].toUpperCase() + w.slice(1)).join('');
+}
+
+/** Reverse lookup so shared schemas become `$ref`s. */
+function schemaNames(): Map<JsonSchema, string> {
+  return new Map(Object.entries(API_SCHEMAS).map(([name, schema]) => [schema as JsonSchema, name]));
+}
+
+/**
+ * Copy a schema for the document, replacing nested catalogue schemas with
+ * references. `self` is the component being emitted, which must not
+ * reference itself.
+ */
+function toOpenApi(schema: JsonSchema, names: Map<JsonSchema, string>, self?: JsonSchema): unknown {
+  const name = names.get(schema);
+  if (name && schema !== self) return { $ref: `#/components/schemas/${name}` };
+
+  const out: Record<string, unknown> = { ...schema };
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toOpenApi(value, names)]),
+    );
+  }
+  if (schema.items) out.items = toOpenApi(schema.items, names);
+  if (schema.anyOf) out.anyOf = schema.anyOf.map((s) => toOpenApi(s, names));
+  if (typeof schema.additionalProperties === 'object') {
+    out.additionalProperties = toOpenApi(schema.additionalProperties, names);
+  }
+  return out;
+}
@@ -0,0 +1,126 @@
+/**
+ * AGNI — Unit tests for plugin-manager.ts
+ *
+ * Loads throwaway plugins from a temp plugins directory against a real
+ * sql.js database: manifest validation, registration with the plugin
+ * context, runtime enable/disable (persisted) and route dispatch.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+
+import { initDatabase, closeDatabase } from '../database/index.js';
+import { eventBus } from './event-bus.js';
+import { pluginManager } from './plugin-manager.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let tmpDir: string;
+let pluginsDir: string;
+let seq = 0;
+
+/** Write a plugin whose module is unique per test (ESM imports are cached). */
+function writePlugin(dir: string, manifest: Record<string, unknown>, source: string): void {
+  const pluginDir = path.join(pluginsDir, dir);
+  fs.mkdirSync(pluginDir, { recursive: true });
+  const main = `index-${++seq}.mjs`;
+  fs.writeFileSync(path.join(pluginDir, 'plugin.json'), JSON.stringify({ main, ...manifest }));
+  fs.writeFileSync(path.join(pluginDir, main), source);
+}
+
+const COUNTER_PLUGIN = `
+export function register({ eventBus, router, manifest }) {
+  let jumps = 0;
+  const onJump = () => { jumps++; };
+  eventBus.onJournalEvent('FSDJump', onJump);
+  router.get('/jumps', (_req, res) => res.json({ success: true, data: { id: manifest.id, jumps } }));
+  return () => eventBus.offJournalEvent('FSDJump', onJump);
+}
+`;
+
+async function get(urlPath: string): Promise<{ status: number; body: any }> {
+  const app = express();
+  app.use(pluginManager.router);
+  const server = app.listen(0);
+  try {
+    const { port } = server.address() as AddressInfo;
+    const res = await fetch(`http://127.0.0.1:${port}${urlPath}`);
+    return { status: res.status, body: res.status === 200 ? await res.json() : null };
+  } finally {
+    server.close();
+  }
+}
+
+beforeEach(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-plugins-'));
+  pluginsDir = path.join(tmpDir, 'plugins');
+  fs.mkdirSync(pluginsDir);
+  await initDatabase(path.join(tmpDir, 'test.db'));
+});
+
+afterEach(async () => {
+  for (const plugin of pluginManager.list()) await pluginManager.disable(plugin.id);
+  (pluginManager as any).plugins.clear();
+  closeDatabase(path.join(tmpDir, 'test.db'));
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('pluginManager', () => {
+  it('should register enabled plugins and serve their routes', async () => {
+    writePlugin('counter', { id: 'counter', name: 'Jump Counter', version: '1.0.0' }, COUNTER_PLUGIN);
+    await pluginManager.loadAll(pluginsDir);
+
+    eventBus.emitJournalEvent({ timestamp: '2025-01-01T00:00:00Z', event: 'FSDJump', StarSystem: 'Sol', StarPos: [0, 0, 0], JumpDist: 4, FuelUsed: 1 } as any);
+
+    expect(pluginManager.getEnabledIds()).toEqual(['counter']);
+    const res = await get('/counter/jumps');
+    expect(res.body.data).toEqual({ id: 'counter', jumps: 1 });
+  });
+
+  it('should dispose and unmount a plugin when disabled, and remember it', async () => {
+    writePlugin('counter', { id: 'counter', name: 'Jump Counter', version: '1.0.0' }, COUNTER_PLUGIN);
+    await pluginManager.loadAll(pluginsDir);
+    const listeners = eventBus.listenerCount('journal:FSDJump');
+
+    await pluginManager.disable('counter');
+    expect(eventBus.listenerCount('journal:FSDJump')).toBe(listeners - 1);
+    expect((await get('/counter/jumps')).status).toBe(404);
+
+    // A fresh discovery honours the persisted choice over the manifest default
+    (pluginManager as any).plugins.clear();
+    await pluginManager.loadAll(pluginsDir);
+    expect(pluginManager.get('counter')?.status).toBe('disabled');
+
+    await pluginManager.enable('counter');
+    expect((await get('/counter/jumps')).status).toBe(200);
+  });
+
+  it('should respect enabled: false in the manifest', async () => {
+    writePlugin('counter', { id: 'counter', name: 'Jump Counter', version: '1.0.0', enabled: false }, COUNTER_PLUGIN);
+    await pluginManager.loadAll(pluginsDir);
+    expect(pluginManager.get('counter')?.status).toBe('disabled');
+  });
+
+  it('should report plugins that fail to register or clash with a built-in', async () => {
+    writePlugin('broken', { id: 'broken', name: 'Broken', version: '0.1.0' }, 'export function register() { throw new Error("boom"); }');
+    writePlugin('status', { id: 'status', name: 'Impostor', version: '1.0.0' }, COUNTER_PLUGIN);
+    writePlugin('invalid', { id: 'Not Valid', name: 'Bad id', version: '1.0.0' }, COUNTER_PLUGIN);
+    pluginManager.reserve('status');
+
+    await pluginManager.loadAll(pluginsDir);
+
+    expect(pluginManager.get('broken')).toMatchObject({ status: 'error', error: 'boom' });
+    expect(pluginManager.get('status')?.status).toBe('error');
+    expect(pluginManager.list().map((p) => p.id).sort()).toEqual(['broken', 'status']);
+  });
+});
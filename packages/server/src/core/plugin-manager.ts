@@ -0,0 +1,368 @@
+/**
+ * @vayu/server — Feature Plugin Manager
+ *
+ * Loads in-house features from the plugins directory (`PLUGINS_DIR`) without
+ * touching the built-in route table. Each plugin is a subdirectory holding a
+ * `plugin.json` manifest and an ES module that exports `register(context)`:
+ *
+ *   plugins/
+ *     squadron-board/
+ *       plugin.json     { "id": "squadron-board", "name": "...", "version": "1.0.0" }
+ *       index.js        export function register({ eventBus, router, ... }) { ... }
+ *
+ * Key behaviors:
+ *   - `register` receives the event bus, game state manager, WebSocket
+ *     manager, database and a router mounted at `/api/<id>`; it may return
+ *     a dispose function that undoes everything it subscribed to
+ *   - Plugins can be enabled/disabled at runtime; the choice is persisted in
+ *     `plugin_state` and overrides the manifest's `enabled` default
+ *   - A plugin that fails to load or register is reported with status
+ *     `error` and never takes the server down
+ *   - Plugin ids cannot shadow a built-in feature route
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import type { Database } from 'sql.js';
+
+import { eventBus } from './event-bus.js';
+import { gameStateManager } from './game-state.js';
+import { getDb, isDatabaseReady } from '../database/index.js';
+import { wsManager } from '../websocket.js';
+
+// ---------------------------------------------------------------------------
+// Logger prefix
+// ---------------------------------------------------------------------------
+
+const LOG_PREFIX = '[plugins]';
+
+/** Manifest file expected in every plugin directory. */
+const MANIFEST_FILE = 'plugin.json';
+
+/** Plugin ids double as route segments: lowercase, digits and dashes. */
+const PLUGIN_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Contents of a plugin's `plugin.json`. */
+export interface PluginManifest {
+  /** Unique id, also the route segment (`/api/<id>`). */
+  id: string;
+  /** Human-readable name. */
+  name: string;
+  /** Plugin version (free-form, semver recommended). */
+  version: string;
+  description?: string;
+  /** Entry module relative to the plugin directory. Default `index.js`. */
+  main?: string;
+  /** Whether the plugin loads when no runtime choice is persisted. Default true. */
+  enabled?: boolean;
+}
+
+/** Everything a plugin is given to hook into the server. */
+export interface PluginContext {
+  manifest: PluginManifest;
+  eventBus: typeof eventBus;
+  gameStateManager: typeof gameStateManager;
+  wsManager: typeof wsManager;
+  db: Database;
+  /** Router mounted at `/api/<id>` while the plugin is enabled. */
+  router: Router;
+}
+
+/** Undoes a plugin's registration (listeners, timers, ...). */
+export type PluginDispose = () => void | Promise<void>;
+
+/** The shape a plugin's entry module must export. */
+export interface VayuPlugin {
+  register(context: PluginContext): void | PluginDispose | Promise<void | PluginDispose>;
+}
+
+export type PluginStatus = 'enabled' | 'disabled' | 'error';
+
+/** A discovered plugin as reported by `list()`. */
+export interface PluginInfo {
+  id: string;
+  name: string;
+  version: string;
+  description: string | null;
+  status: PluginStatus;
+  /** Why the plugin failed to load (status `error`). */
+  error: string | null;
+  /** Absolute plugin directory. */
+  directory: string;
+  /** When the plugin was last registered. */
+  loadedAt: string | null;
+}
+
+interface PluginEntry {
+  manifest: PluginManifest;
+  directory: string;
+  status: PluginStatus;
+  error: string | null;
+  router: Router | null;
+  dispose: PluginDispose | null;
+  loadedAt: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Plugin Manager
+// ---------------------------------------------------------------------------
+
+class PluginManager {
+  private plugins = new Map<string, PluginEntry>();
+  /** Built-in feature routes plugin ids must not shadow. */
+  private reserved = new Set<string>();
+  private pluginsDir: string | null = null;
+
+  /**
+   * Dispatches `/api/<id>/...` to the router of the enabled plugin with that
+   * id; anything else falls through. Mounted once by the route scaffold.
+   */
+  readonly router = Router();
+
+  constructor() {
+    this.router.use('/:pluginId', (req: Request, res: Response, next: NextFunction) => {
+      const router = this.plugins.get(req.params.pluginId)?.router;
+      if (!router) { next(); return; }
+      router(req, res, next);
+    });
+  }
+
+  /** Reserve a built-in route segment so no plugin can take it. */
+  reserve(id: string): void {
+    this.reserved.add(id);
+  }
+
+  /**
+   * Discover every plugin in `dir` and register the enabled ones. Called at
+   * boot after the database is open and before the state snapshot restore,
+   * so plugins can register snapshot contributors.
+   */
+  async loadAll(dir: string): Promise<PluginInfo[]> {
+    this.pluginsDir = path.resolve(dir);
+    const added = await this.discover();
+    for (const entry of added) {
+      if (this.isEnabled(entry.manifest)) await this.activate(entry);
+    }
+    if (this.plugins.size > 0) {
+      const enabled = this.getEnabledIds();
+      console.log(`${LOG_PREFIX} ${enabled.length}/${this.plugins.size} plugin(s) enabled${enabled.length ? `: ${enabled.join(', ')}` : ''}`);
+    }
+    return this.list();
+  }
+
+  /**
+   * Pick up plugin directories added since boot. Already-known plugins are
+   * left as they are; returns the newly discovered ones.
+   */
+  async rescan(): Promise<PluginInfo[]> {
+    const added = await this.discover();
+    for (const entry of added) {
+      if (this.isEnabled(entry.manifest)) await this.activate(entry);
+    }
+    return added.map((entry) => this.toInfo(entry));
+  }
+
+  /** Enable a plugin and remember the choice. Returns null if unknown. */
+  async enable(id: string): Promise<PluginInfo | null> {
+    const entry = this.plugins.get(id);
+    if (!entry) return null;
+    this.persist(id, true);
+    if (entry.status !== 'enabled') await this.activate(entry);
+    return this.toInfo(entry);
+  }
+
+  /** Disable a plugin and remember the choice. Returns null if unknown. */
+  async disable(id: string): Promise<PluginInfo | null> {
+    const entry = this.plugins.get(id);
+    if (!entry) return null;
+    this.persist(id, false);
+    await this.deactivate(entry);
+    return this.toInfo(entry);
+  }
+
+  /** Dispose every enabled plugin without changing the persisted choices. */
+  async shutdown(): Promise<void> {
+    for (const entry of this.plugins.values()) {
+      if (entry.status === 'enabled') await this.deactivate(entry);
+    }
+  }
+
+  list(): PluginInfo[] {
+    return [...this.plugins.values()].map((entry) => this.toInfo(entry));
+  }
+
+  get(id: string): PluginInfo | null {
+    const entry = this.plugins.get(id);
+    return entry ? this.toInfo(entry) : null;
+  }
+
+  /** Ids of the plugins currently registered. */
+  getEnabledIds(): string[] {
+    return [...this.plugins.values()].filter((e) => e.status === 'enabled').map((e) => e.manifest.id);
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private async discover(): Promise<PluginEntry[]> {
+    if (!this.pluginsDir) return [];
+
+    let dirents: import('fs').Dirent[];
+    try {
+      dirents = await fs.readdir(this.pluginsDir, { withFileTypes: true });
+    } catch {
+      return []; // No plugins directory — nothing to load.
+    }
+
+    const added: PluginEntry[] = [];
+    for (const dirent of dirents.filter((d) => d.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+      const directory = path.join(this.pluginsDir, dirent.name);
+      const known = [...this.plugins.values()].some((e) => e.directory === directory);
+      if (known) continue;
+
+      let manifest: PluginManifest;
+      try {
+        manifest = validateManifest(JSON.parse(await fs.readFile(path.join(directory, MANIFEST_FILE), 'utf-8')));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') continue; // Not a plugin directory.
+        console.warn(`${LOG_PREFIX} Skipping ${dirent.name}: invalid ${MANIFEST_FILE} (${err instanceof Error ? err.message : err})`);
+        continue;
+      }
+
+      const entry: PluginEntry = {
+        manifest, directory, status: 'disabled', error: null, router: null, dispose: null, loadedAt: null,
+      };
+      if (this.reserved.has(manifest.id)) {
+        entry.status = 'error';
+        entry.error = `Plugin id "${manifest.id}" conflicts with a built-in feature`;
+      } else if (this.plugins.has(manifest.id)) {
+        console.warn(`${LOG_PREFIX} Skipping ${dirent.name}: duplicate plugin id "${manifest.id}"`);
+        continue;
+      }
+
+      this.plugins.set(manifest.id, entry);
+      added.push(entry);
+    }
+    return added;
+  }
+
+  /** Persisted runtime choice, falling back to the manifest default. */
+  private isEnabled(manifest: PluginManifest): boolean {
+    if (isDatabaseReady()) {
+      const rows = getDb().exec('SELECT enabled FROM plugin_state WHERE id = ?', [manifest.id]);
+      if (rows.length > 0 && rows[0].values.length > 0) return rows[0].values[0][0] === 1;
+    }
+    return manifest.enabled !== false;
+  }
+
+  private persist(id: string, enabled: boolean): void {
+    if (!isDatabaseReady()) return;
+    getDb().run(
+      `INSERT INTO plugin_state (id, enabled, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET enabled = excluded.enabled, updated_at = excluded.updated_at`,
+      [id, enabled ? 1 : 0, new Date().toISOString()],
+    );
+  }
+
+  private async activate(entry: PluginEntry): Promise<void> {
+    const { manifest } = entry;
+    if (this.reserved.has(manifest.id)) return;
+
+    try {
+      const modulePath = path.resolve(entry.directory, manifest.main ?? 'index.js');
+      const mod = await import(pathToFileURL(modulePath).href);
+      const register = resolveRegister(mod);
+      if (!register) throw new Error(`${manifest.main ?? 'index.js'} does not export register()`);
+
+      const router = Router();
+      const result = await register({
+        manifest, eventBus, gameStateManager, wsManager, db: getDb(), router,
+      });
+
+      entry.router = router;
+      entry.dispose = typeof result === 'function' ? result : null;
+      entry.status = 'enabled';
+      entry.error = null;
+      entry.loadedAt = new Date().toISOString();
+      console.log(`${LOG_PREFIX} Loaded ${manifest.name} v${manifest.version} at /api/${manifest.id}`);
+    } catch (err) {
+      entry.router = null;
+      entry.dispose = null;
+      entry.status = 'error';
+      entry.error = err instanceof Error ? err.message : String(err);
+      console.error(`${LOG_PREFIX} Failed to load ${manifest.id}:`, entry.error);
+    }
+  }
+
+  private async deactivate(entry: PluginEntry): Promise<void> {
+    // Unmount first so no request reaches a half-disposed plugin.
+    entry.router = null;
+    if (entry.dispose) {
+      try {
+        await entry.dispose();
+      } catch (err) {
+        console.error(`${LOG_PREFIX} Error disposing ${entry.manifest.id}:`, err);
+      }
+    }
+    entry.dispose = null;
+    if (entry.status === 'enabled') console.log(`${LOG_PREFIX} Unloaded ${entry.manifest.id}`);
+    // An id clash with a built-in stays an error whatever the runtime choice.
+    if (!this.reserved.has(entry.manifest.id)) entry.status = 'disabled';
+  }
+
+  private toInfo(entry: PluginEntry): PluginInfo {
+    return {
+      id: entry.manifest.id,
+      name: entry.manifest.name,
+      version: entry.manifest.version,
+      description: entry.manifest.description ?? null,
+      status: entry.status,
+      error: entry.error,
+      directory: entry.directory,
+      loadedAt: entry.loadedAt,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Check the required manifest fields; throws with the first problem found. */
+function validateManifest(raw: unknown): PluginManifest {
+  if (!raw || typeof raw !== 'object') throw new Error('manifest must be an object');
+  const m = raw as Record<string, unknown>;
+  if (typeof m.id !== 'string' || !PLUGIN_ID_PATTERN.test(m.id)) {
+    throw new Error('"id" must be lowercase letters, digits and dashes');
+  }
+  if (typeof m.name !== 'string' || !m.name) throw new Error('"name" is required');
+  if (typeof m.version !== 'string' || !m.version) throw new Error('"version" is required');
+  if (m.main !== undefined && typeof m.main !== 'string') throw new Error('"main" must be a string');
+  if (m.enabled !== undefined && typeof m.enabled !== 'boolean') throw new Error('"enabled" must be a boolean');
+  return {
+    id: m.id,
+    name: m.name,
+    version: m.version,
+    description: typeof m.description === 'string' ? m.description : undefined,
+    main: m.main as string | undefined,
+    enabled: m.enabled as boolean | undefined,
+  };
+}
+
+/** Accept `export function register`, `export default { register }` or `export default function`. */
+function resolveRegister(mod: any): VayuPlugin['register'] | null {
+  if (typeof mod.register === 'function') return mod.register;
+  if (typeof mod.default?.register === 'function') return mod.default.register.bind(mod.default);
+  if (typeof mod.default === 'function') return mod.default;
+  return null;
+}
+
+/** Singleton plugin manager. */
+export const pluginManager = new PluginManager();
@@ -0,0 +1,125 @@
+/**
+ * AGNI — Unit tests for route-plotter.ts
+ *
+ * Plots routes over small galaxies of systems stored in a real on-disk
+ * galaxy database (with migrations): jumping as far as the range allows, scooping
+ * when the tank runs low, neutron supercharges, and giving up when a gap is
+ * wider than the range.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { buildFsdModel, type GalaxySystem } from '@vayu/shared';
+
+import { initGalaxyDatabase, closeGalaxyDatabase } from '../database/galaxy.js';
+import { galaxyStore } from './galaxy-store.js';
+import { routePlotter, type RouteShip } from './route-plotter.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dir: string;
+let dbPath: string;
+
+/** A 5A FSD on a 400 t ship: about 29.5 ly with a full 16 t tank. */
+const SHIP: RouteShip = {
+  fsd: buildFsdModel({
+    fsdItem: 'int_hyperdrive_size5_class5', modifiers: [], boosterItem: null, unladenMass: 400, reportedMaxRange: 0,
+  })!,
+  unladenMass: 400,
+  cargo: 0,
+  fuelCapacity: 16,
+  fuel: 16,
+};
+
+/** Systems along the x axis at the given positions, with their arrival stars. */
+function line(stars: Record<number, string | null>): GalaxySystem[] {
+  const systems = Object.entries(stars).map(([x, star]) => ({
+    id64: 1000 + Number(x), edsmId: null, name: `X${x}`, coordinates: { x: Number(x), y: 0, z: 0 },
+    allegiance: null, government: null, economy: null, security: null, population: null,
+    primaryStar: null, updatedAt: null,
+  }));
+  galaxyStore.storeSystems(systems);
+  galaxyStore.storeBodies(Object.entries(stars).filter(([, star]) => star).map(([x, star], i) => ({
+    id: i + 1, bodyId: 0, name: `X${x} A`, type: 'Star', subType: star, systemId64: 1000 + Number(x),
+    distanceToArrival: 0, landable: false, terraformState: null,
+  })));
+  return systems.map((s) => galaxyStore.getSystem(s.name)!);
+}
+
+function everyTen(to: number, star: (x: number) => string | null): Record<number, string | null> {
+  const stars: Record<number, string | null> = {};
+  for (let x = 0; x <= to; x += 10) stars[x] = star(x);
+  return stars;
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-route-'));
+  dbPath = path.join(dir, 'test.db');
+  initGalaxyDatabase(dbPath);
+});
+
+afterEach(() => {
+  closeGalaxyDatabase();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('routePlotter', () => {
+  it('should jump as far as the range allows, which grows as the tank empties', async () => {
+    const systems = line(everyTen(200, () => 'K (Yellow-Orange) Star'));
+
+    const route = (await routePlotter.plot(systems[0], systems[20], SHIP))!;
+
+    expect(route).toMatchObject({ source: 'X0', destination: 'X200', jumpCount: 9, totalDistance: 200, directDistance: 200 });
+    expect(route.waypoints.map((w) => w.system)).toEqual([
+      'X0', 'X20', 'X40', 'X60', 'X90', 'X110', 'X130', 'X150', 'X180', 'X200',
+    ]);
+    expect(route.waypoints[1]).toMatchObject({ systemAddress: 1020, starClass: 'K', fuelUsed: 1.91, fuelLeft: 14.09 });
+    expect(route.waypoints[4]).toMatchObject({ jumpDistance: 30, fuelUsed: 4.99, refuel: true });
+    expect(route.refuels).toBe(2);
+    expect(route.jumpRange).toBeCloseTo(29.5, 0);
+  });
+
+  it('should scoop where it can when the tank runs low', async () => {
+    const systems = line(everyTen(200, (x) => (x === 100 ? 'G (White-Yellow) Star' : 'L (Brown dwarf) Star')));
+
+    const route = (await routePlotter.plot(systems[0], systems[20], { ...SHIP, fuel: 8 }))!;
+
+    expect(route.waypoints.find((w) => w.refuel)).toMatchObject({ system: 'X100', starClass: 'G' });
+    expect(route.refuels).toBe(1);
+    for (const w of route.waypoints) expect(w.fuelLeft).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should not plot a route the fuel cannot cover', async () => {
+    const systems = line(everyTen(200, () => null));
+
+    expect(await routePlotter.plot(systems[0], systems[20], { ...SHIP, fuel: 3 })).toBeNull();
+  });
+
+  it('should use neutron supercharges only when asked to', async () => {
+    const stars = everyTen(200, () => 'M (Red dwarf) Star');
+    stars[0] = 'Neutron Star';
+    const systems = line(stars);
+
+    const plain = (await routePlotter.plot(systems[0], systems[20], SHIP))!;
+    const boosted = (await routePlotter.plot(systems[0], systems[20], SHIP, { neutron: true }))!;
+
+    expect(plain.supercharges).toBe(0);
+    expect(boosted.jumpCount).toBeLessThan(plain.jumpCount);
+    expect(boosted.waypoints[1]).toMatchObject({ supercharged: 'neutron', jumpDistance: 110 });
+    expect(boosted).toMatchObject({ supercharges: 1, neutron: true });
+  });
+
+  it('should give up when a gap is wider than the range', async () => {
+    const systems = line({ 0: null, 20: null, 60: null });
+
+    expect(await routePlotter.plot(systems[0], systems[2], SHIP)).toBeNull();
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * @vayu/server — Route Plotter
+ *
+ * Plots a jump route between two systems over the galaxy database for a
+ * ship's FSD model, so routes do not need an external plotter. It is a
+ * beam search: every round jumps from the best few systems reached so far
+ * to every system in range of them, and keeps the best few of those by the
+ * estimated number of jumps still to go.
+ *
+ * Key behaviors:
+ *   - Range follows the fuel on board: each jump burns fuel for its
+ *     distance at the ship's mass, and a jump needing more than is in the
+ *     tank is not made (the reserve tank is not counted)
+ *   - Fuel is scooped to full at KGBFOAM stars when the tank is below half
+ *     or short of a full jump; stars the database does not know are not
+ *     scooped
+ *   - With neutron / white dwarf supercharges on, the jump out of such a
+ *     system has 4x / 1.5x the range, and the search favours them
+ *   - A system is never visited twice, and plotting gives up after a
+ *     number of rounds proportional to the direct distance, or once it has
+ *     looked at too many systems or taken too long
+ *   - Plotting yields to the event loop after every system it jumps from,
+ *     so journal events, WebSocket traffic and other requests are not held
+ *     up by a long route
+ */
+
+import type { Coordinates, FsdModel, FsdSupercharge, GalaxySystem, PlottedRoute, PlottedRouteWaypoint } from '@vayu/shared';
+import { fsdJumpFuel, fsdJumpRange, isScoopableStar, roundTo, starSupercharge } from '@vayu/shared';
+
+import { galaxyStore } from './galaxy-store.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Systems kept per round. */
+const BEAM_WIDTH = 10;
+
+/** Rounds allowed beyond twice the jumps the direct distance takes. */
+const EXTRA_ROUNDS = 20;
+
+/** Systems in range looked at, over all rounds, before giving up. */
+const MAX_SYSTEMS_EXAMINED = 2_000_000;
+
+/** Time allowed for one route before giving up. */
+const MAX_PLOT_MS = 20_000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What the plotter needs of a system. */
+export type RouteSystem = Pick<GalaxySystem, 'id64' | 'name' | 'coordinates' | 'primaryStar'>;
+
+/** The ship a route is plotted for. */
+export interface RouteShip {
+  fsd: FsdModel;
+  /** Hull and modules in tons. */
+  unladenMass: number;
+  /** Cargo carried in tons. */
+  cargo: number;
+  /** Main tank capacity in tons. */
+  fuelCapacity: number;
+  /** Fuel in the tank at the start in tons. */
+  fuel: number;
+}
+
+export interface RoutePlotOptions {
+  /** Supercharge at neutron stars. */
+  neutron?: boolean;
+  /** Supercharge at white dwarfs. */
+  whiteDwarf?: boolean;
+}
+
+/** A system reached by the search, and how. */
+interface RouteNode {
+  system: RouteSystem;
+  parent: RouteNode | null;
+  jumpDistance: number;
+  fuelUsed: number;
+  /** Fuel on arrival, before scooping. */
+  fuelLeft: number;
+  refuel: boolean;
+  /** Fuel after scooping: what the next jump starts with. */
+  fuel: number;
+  supercharged: FsdSupercharge | null;
+  /** Light years to the destination. */
+  remaining: number;
+  /** Estimated jumps to the destination; lower is better. */
+  score: number;
+}
+
+// ---------------------------------------------------------------------------
+// Route Plotter
+// ---------------------------------------------------------------------------
+
+class RoutePlotter {
+  /**
+   * Plot a route from one system to another.
+   *
+   * @returns The route, or null if none was found (the ship cannot reach the
+   *          destination over the systems in the database, runs dry, or
+   *          the search ran out of its budget).
+   */
+  async plot(
+    from: RouteSystem, to: RouteSystem, ship: RouteShip, options: RoutePlotOptions = {},
+  ): Promise<PlottedRoute | null> {
+    const fullRange = fsdJumpRange(ship.fsd, ship.unladenMass + ship.cargo + ship.fuelCapacity, ship.fuelCapacity);
+    if (!(fullRange > 0)) return null;
+
+    const direct = distance(from.coordinates, to.coordinates);
+    const start = this.arrive(null, from, to, ship, options, fullRange, 0, 0, null, ship.fuel);
+    const maxRounds = Math.ceil(direct / fullRange) * 2 + EXTRA_ROUNDS;
+    const visited = new Set([from.id64]);
+    let beam = [start];
+    let reached = from.id64 === to.id64 ? start : null;
+    const startedAt = Date.now();
+    let examined = 0;
+
+    for (let round = 0; !reached && round < maxRounds && beam.length > 0; round++) {
+      const candidates = new Map<number, RouteNode>();
+      for (const node of beam) {
+        const supercharge = this.superchargeAt(node.system, options);
+        const mass = ship.unladenMass + ship.cargo + node.fuel;
+        const range = fsdJumpRange(ship.fsd, mass, node.fuel, supercharge);
+
+        const inRange = galaxyStore.allSystemsWithin(node.system.coordinates, range);
+        examined += inRange.length;
+        for (const system of inRange) {
+          if (visited.has(system.id64)) continue;
+          const jump = distance(node.system.coordinates, system.coordinates);
+          const fuelUsed = fsdJumpFuel(ship.fsd, mass, jump, supercharge);
+          if (fuelUsed === null || fuelUsed > node.fuel) continue;
+
+          const child = this.arrive(node, system, to, ship, options, fullRange, jump, fuelUsed, supercharge, node.fuel - fuelUsed);
+          const best = candidates.get(system.id64);
+          if (!best || child.score < best.score) candidates.set(system.id64, child);
+        }
+
+        if (examined > MAX_SYSTEMS_EXAMINED || Date.now() - startedAt > MAX_PLOT_MS) return null;
+        await yieldToEventLoop();
+      }
+
+      reached = candidates.get(to.id64) ?? null;
+      beam = [...candidates.values()]
+        .sort((a, b) => a.score - b.score || a.remaining - b.remaining)
+        .slice(0, BEAM_WIDTH);
+      for (const node of beam) visited.add(node.system.id64);
+    }
+
+    return reached ? this.toRoute(reached, direct, ship, options) : null;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private superchargeAt(system: RouteSystem, options: RoutePlotOptions): FsdSupercharge | null {
+    const supercharge = starSupercharge(system.primaryStar);
+    if (supercharge === 'neutron' && options.neutron) return supercharge;
+    if (supercharge === 'white_dwarf' && options.whiteDwarf) return supercharge;
+    return null;
+  }
+
+  /** A node for arriving at `system` with `fuelLeft`, scooping if it should. */
+  private arrive(
+    parent: RouteNode | null,
+    system: RouteSystem,
+    to: RouteSystem,
+    ship: RouteShip,
+    options: RoutePlotOptions,
+    fullRange: number,
+    jumpDistance: number,
+    fuelUsed: number,
+    supercharged: FsdSupercharge | null,
+    fuelLeft: number,
+  ): RouteNode {
+    const refuel = isScoopableStar(system.primaryStar) &&
+      fuelLeft < Math.max(ship.fuelCapacity / 2, ship.fsd.maxFuelPerJump);
+    const fuel = refuel ? ship.fuelCapacity : fuelLeft;
+    const remaining = distance(system.coordinates, to.coordinates);
+
+    // The next jump as far as it can go from here, the rest at full-tank range
+    const next = fsdJumpRange(ship.fsd, ship.unladenMass + ship.cargo + fuel, fuel, this.superchargeAt(system, options));
+    const score = remaining === 0 ? 0 : remaining <= next ? 1 : 1 + (remaining - next) / fullRange;
+
+    return { system, parent, jumpDistance, fuelUsed, fuelLeft, refuel, fuel, supercharged, remaining, score };
+  }
+
+  private toRoute(last: RouteNode, direct: number, ship: RouteShip, options: RoutePlotOptions): PlottedRoute {
+    const nodes: RouteNode[] = [];
+    for (let node: RouteNode | null = last; node; node = node.parent) nodes.unshift(node);
+
+    const waypoints: PlottedRouteWaypoint[] = nodes.map((n) => ({
+      system: n.system.name,
+      systemAddress: n.system.id64,
+      coordinates: { ...n.system.coordinates },
+      starClass: n.system.primaryStar ?? '',
+      jumpDistance: roundTo(n.jumpDistance, 2),
+      fuelUsed: roundTo(n.fuelUsed, 2),
+      fuelLeft: roundTo(n.fuelLeft, 2),
+      refuel: n.refuel,
+      supercharged: n.supercharged,
+    }));
+    const first = nodes[0];
+
+    return {
+      source: first.system.name,
+      destination: last.system.name,
+      waypoints,
+      jumpCount: nodes.length - 1,
+      totalDistance: roundTo(nodes.reduce((sum, n) => sum + n.jumpDistance, 0), 2),
+      directDistance: roundTo(direct, 2),
+      jumpRange: roundTo(fsdJumpRange(ship.fsd, ship.unladenMass + ship.cargo + first.fuel, first.fuel), 2),
+      refuels: nodes.filter((n) => n.refuel).length,
+      supercharges: nodes.filter((n) => n.supercharged).length,
+      neutron: options.neutron ?? false,
+      whiteDwarf: options.whiteDwarf ?? false,
+      plottedAt: new Date().toISOString(),
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function distance(a: Coordinates, b: Coordinates): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+/** Singleton route plotter over the galaxy database. */
+export const routePlotter = new RoutePlotter();
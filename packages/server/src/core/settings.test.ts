@@ -0,0 +1,89 @@
+/**
+ * AGNI — Unit tests for settings.ts
+ *
+ * Validates, stores and resets runtime settings against a real sql.js
+ * database and checks that changes reach `config` and the event bus.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { SettingChange } from '@vayu/shared';
+
+import { initDatabase, closeDatabase } from '../database/index.js';
+import { config } from '../config.js';
+import { eventBus } from './event-bus.js';
+import { settingsService, SettingsValidationError } from './settings.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dbPath: string;
+let emitted: SettingChange[][];
+const onChange = (changes: SettingChange[]) => { emitted.push(changes); };
+
+beforeEach(async () => {
+  dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-settings-')), 'test.db');
+  await initDatabase(dbPath);
+  emitted = [];
+  eventBus.onSettingsChange(onChange);
+});
+
+afterEach(() => {
+  eventBus.off('settings:change', onChange);
+  for (const setting of settingsService.getAll()) settingsService.reset(setting.key);
+  closeDatabase(dbPath);
+  fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('settingsService', () => {
+  it('should apply a change to config and emit it', () => {
+    const changes = settingsService.update({ 'whisper.model': 'small', 'backup.retentionDays': '30' });
+
+    expect(config.whisper.model).toBe('small');
+    expect(config.backup.retentionDays).toBe(30);
+    expect(changes.map((c) => c.key)).toEqual(['whisper.model', 'backup.retentionDays']);
+    expect(emitted).toEqual([changes]);
+    expect(settingsService.get('whisper.model')?.source).toBe('stored');
+  });
+
+  it('should reject the whole batch if any value is invalid', () => {
+    const before = config.whisper.model;
+    let error: unknown;
+    try {
+      settingsService.update({ 'whisper.model': 'small', 'backup.retentionDays': 0, 'nope.nope': 1 });
+    } catch (err) { error = err; }
+
+    expect(error).toBeInstanceOf(SettingsValidationError);
+    expect(Object.keys((error as SettingsValidationError).errors).sort()).toEqual(['backup.retentionDays', 'nope.nope']);
+    expect(config.whisper.model).toBe(before);
+    expect(emitted).toHaveLength(0);
+  });
+
+  it('should never expose secret values', () => {
+    const changes = settingsService.update({ 'api.edsmApiKey': 'abc123' });
+
+    expect(config.api.edsmApiKey).toBe('abc123');
+    expect(changes[0]).toMatchObject({ value: '', previous: '' });
+    expect(settingsService.get('api.edsmApiKey')).toMatchObject({ value: '', configured: true });
+  });
+
+  it('should restore stored overrides on load and fall back on reset', () => {
+    const initial = config.whisper.language;
+    settingsService.update({ 'whisper.language': 'de' });
+    config.whisper.language = initial; // as if freshly booted from .env
+
+    expect(settingsService.load()).toBe(1);
+    expect(config.whisper.language).toBe('de');
+
+    settingsService.reset('whisper.language');
+    expect(config.whisper.language).toBe(initial);
+    expect(settingsService.load()).toBe(0);
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * @vayu/server — Runtime Settings
+ *
+ * Lets paths, API keys, the Whisper model, backup retention and feature
+ * toggles be changed while the server runs. `config.ts` still seeds every
+ * value from `.env`; overrides made through this service are stored in the
+ * `settings` table and written into the shared `config` object, so code
+ * that reads `config` at use time sees the new value immediately.
+ *
+ * Key behaviors:
+ *   - `load()` runs at boot, right after the database opens, and applies
+ *     stored overrides on top of `.env`
+ *   - Updates are validated against the schema as a whole — one invalid
+ *     value rejects the batch
+ *   - Applied changes are emitted as `settings:change` on the event bus
+ *     (for services that must act, e.g. restart a watcher) and broadcast to
+ *     clients as `server:config`
+ *   - Secret values (API keys) are never returned or broadcast
+ *   - Resetting a setting removes the override and falls back to `.env`
+ */
+
+import type {
+  SettingChange,
+  SettingDefinition,
+  SettingState,
+  SettingValue,
+  WSServerConfigPayload,
+} from '@vayu/shared';
+
+import { config } from '../config.js';
+import { eventBus } from './event-bus.js';
+import { getDb, isDatabaseReady } from '../database/index.js';
+import { wsManager } from '../websocket.js';
+
+// ---------------------------------------------------------------------------
+// Logger prefix
+// ---------------------------------------------------------------------------
+
+const LOG_PREFIX = '[settings]';
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/** Schema entry with server-side validation extras. */
+interface SettingSchemaEntry extends SettingDefinition {
+  /** Extra format check for string values. */
+  pattern?: RegExp;
+}
+
+const WHISPER_MODELS = ['tiny', 'base', 'small', 'medium', 'large'];
+
+/**
+ * Every runtime setting. Keys are `<config section>.<field>`. Server port,
+ * client port and the database path are deliberately absent: they are
+ * bound before settings can be read.
+ */
+const SETTINGS_SCHEMA: SettingSchemaEntry[] = [
+  // -- Paths --
+  { key: 'paths.journalDir', group: 'paths', type: 'path', env: 'JOURNAL_DIR', label: 'Journal directory', description: 'Where Elite Dangerous writes journal and companion files. Watchers restart on change.' },
+  { key: 'paths.bindingsFile', group: 'paths', type: 'path', env: 'BINDINGS_FILE', label: 'Bindings file', description: 'Custom .binds file; reloaded on next use.' },
+  { key: 'paths.graphicsOverride', group: 'paths', type: 'path', env: 'GRAPHICS_OVERRIDE', label: 'Graphics override', description: 'GraphicsConfigurationOverride.xml path.' },
+  { key: 'paths.screenshotsDir', group: 'paths', type: 'path', env: 'SCREENSHOTS_DIR', label: 'Screenshots directory', description: 'Rescanned on change.' },
+  { key: 'paths.galaxyDumpsDir', group: 'paths', type: 'path', env: 'GALAXY_DUMPS_DIR', label: 'Galaxy dumps directory', description: 'EDSM dump files the galaxy import may read.' },
+  { key: 'paths.pluginsDir', group: 'paths', type: 'path', env: 'PLUGINS_DIR', label: 'Plugins directory', description: 'Scanned for feature plugins at startup.', restartRequired: true },
+
+  // -- API keys --
+  { key: 'api.anthropicKey', group: 'api', type: 'secret', env: 'ANTHROPIC_API_KEY', label: 'Anthropic API key', description: 'COVAS language model.' },
+  { key: 'api.elevenLabsKey', group: 'api', type: 'secret', env: 'ELEVENLABS_API_KEY', label: 'ElevenLabs API key', description: 'COVAS cloud text-to-speech.' },
+  { key: 'api.elevenLabsVoiceId', group: 'api', type: 'string', env: 'ELEVENLABS_VOICE_ID', label: 'ElevenLabs voice ID', description: 'Voice used for cloud text-to-speech.' },
+  { key: 'api.edsmApiKey', group: 'api', type: 'secret', env: 'EDSM_API_KEY', label: 'EDSM API key', description: 'From your edsm.net profile.' },
+  { key: 'api.edsmCommanderName', group: 'api', type: 'string', env: 'EDSM_COMMANDER_NAME', label: 'EDSM commander name', description: 'Commander name registered on EDSM.' },
+  { key: 'api.inaraApiKey', group: 'api', type: 'secret', env: 'INARA_API_KEY', label: 'Inara API key', description: 'From inara.cz.' },
+  { key: 'api.inaraCommanderName', group: 'api', type: 'string', env: 'INARA_COMMANDER_NAME', label: 'Inara commander name', description: 'Commander name registered on Inara.' },
+
+  // -- Whisper --
+  { key: 'whisper.model', group: 'whisper', type: 'enum', env: 'WHISPER_MODEL', options: WHISPER_MODELS, label: 'Whisper model', description: 'Larger models are more accurate and slower.' },
+  { key: 'whisper.language', group: 'whisper', type: 'string', env: 'WHISPER_LANGUAGE', pattern: /^[a-z]{2,3}$/, label: 'Whisper language', description: 'ISO 639 language code, e.g. "en".' },
+
+  // -- Audio --
+  { key: 'audio.inputDevice', group: 'audio', type: 'string', env: 'AUDIO_INPUT_DEVICE', label: 'Input device', description: 'Microphone device name or ID (empty for the default).' },
+  { key: 'audio.outputDevice', group: 'audio', type: 'string', env: 'AUDIO_OUTPUT_DEVICE', label: 'Output device', description: 'Playback device name or ID (empty for the default).' },
+
+  // -- Backup --
+  { key: 'backup.dir', group: 'backup', type: 'path', env: 'JOURNAL_BACKUP_DIR', label: 'Backup directory', description: 'Empty to use vayu-backups next to the journal directory.' },
+  { key: 'backup.retentionDays', group: 'backup', type: 'number', env: 'JOURNAL_RETENTION_DAYS', min: 1, max: 3650, label: 'Retention (days)', description: 'Journal backups older than this are pruned.' },
+
+  // -- Feature toggles --
+  { key: 'features.disabled', group: 'features', type: 'list', env: 'DISABLED_FEATURES', options: [], label: 'Disabled features', description: 'Built-in features switched off. Their API routes answer 503.' },
+];
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Thrown by `update()` when one or more values fail validation. */
+export class SettingsValidationError extends Error {
+  /** Problem per setting key. */
+  readonly errors: Record<string, string>;
+
+  constructor(errors: Record<string, string>) {
+    super(`Invalid settings: ${Object.entries(errors).map(([k, v]) => `${k} (${v})`).join(', ')}`);
+    this.name = 'SettingsValidationError';
+    this.errors = errors;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Settings Service
+// ---------------------------------------------------------------------------
+
+class SettingsService {
+  private schema = new Map<string, SettingSchemaEntry>(SETTINGS_SCHEMA.map((s) => [s.key, { ...s }]));
+  /** Values from `.env` / built-in defaults, captured before any override. */
+  private defaults = new Map<string, SettingValue>();
+  /** Keys with a stored override. */
+  private stored = new Set<string>();
+
+  constructor() {
+    for (const key of this.schema.keys()) this.defaults.set(key, clone(readConfig(key)));
+  }
+
+  /**
+   * Set the allowed values of an `enum`/`list` setting whose options are
+   * only known at runtime (e.g. the built-in feature names).
+   */
+  setOptions(key: string, options: string[]): void {
+    const entry = this.schema.get(key);
+    if (entry) entry.options = [...options];
+  }
+
+  /** Apply stored overrides to `config`. Called once at boot. */
+  load(): number {
+    if (!isDatabaseReady()) return 0;
+    const rows = getDb().exec('SELECT key, value FROM settings');
+    if (rows.length === 0) return 0;
+
+    let applied = 0;
+    for (const [key, json] of rows[0].values as [string, string][]) {
+      const entry = this.schema.get(key);
+      if (!entry) continue; // Setting removed from the schema
+      try {
+        writeConfig(key, coerce(entry, JSON.parse(json)));
+        this.stored.add(key);
+        applied++;
+      } catch (err) {
+        console.warn(`${LOG_PREFIX} Ignoring stored ${key}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+    if (applied > 0) console.log(`${LOG_PREFIX} Applied ${applied} stored setting(s)`);
+    return applied;
+  }
+
+  /** Every setting with its effective value, in schema order. */
+  getAll(): SettingState[] {
+    return [...this.schema.values()].map((entry) => this.toState(entry));
+  }
+
+  /** A single setting, or null if the key is unknown. */
+  get(key: string): SettingState | null {
+    const entry = this.schema.get(key);
+    return entry ? this.toState(entry) : null;
+  }
+
+  /**
+   * Validate, store and apply a batch of values keyed by setting key.
+   * Nothing is applied if any value is invalid.
+   *
+   * @throws SettingsValidationError
+   */
+  update(values: Record<string, unknown>): SettingChange[] {
+    const errors: Record<string, string> = {};
+    const next = new Map<string, SettingValue>();
+
+    for (const [key, raw] of Object.entries(values)) {
+      const entry = this.schema.get(key);
+      if (!entry) { errors[key] = 'Unknown setting'; continue; }
+      try {
+        next.set(key, coerce(entry, raw));
+      } catch (err) {
+        errors[key] = err instanceof Error ? err.message : String(err);
+      }
+    }
+    if (Object.keys(errors).length > 0) throw new SettingsValidationError(errors);
+
+    const changes: SettingChange[] = [];
+    const now = new Date().toISOString();
+    for (const [key, value] of next) {
+      const previous = readConfig(key);
+      if (isDatabaseReady()) {
+        getDb().run(
+          `INSERT INTO settings (key, value, updated_at) VALUES (?, ?, ?)
+           ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+          [key, JSON.stringify(value), now],
+        );
+      }
+      this.stored.add(key);
+      if (isEqual(previous, value)) continue;
+      writeConfig(key, value);
+      changes.push(this.toChange(this.schema.get(key)!, value, previous));
+    }
+
+    this.notify(changes);
+    return changes;
+  }
+
+  /**
+   * Drop the override for `key` and return to the `.env`/default value.
+   * Returns null if the key is unknown.
+   */
+  reset(key: string): SettingChange[] | null {
+    const entry = this.schema.get(key);
+    if (!entry) return null;
+
+    if (isDatabaseReady()) getDb().run('DELETE FROM settings WHERE key = ?', [key]);
+    this.stored.delete(key);
+
+    const previous = readConfig(key);
+    const value = clone(this.defaults.get(key)!);
+    if (isEqual(previous, value)) return [];
+    writeConfig(key, value);
+
+    const changes = [this.toChange(entry, value, previous)];
+    this.notify(changes);
+    return changes;
+  }
+
+  /** Whether a built-in feature is switched off. */
+  isFeatureDisabled(name: string): boolean {
+    return config.features.disabled.includes(name);
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private notify(changes: SettingChange[]): void {
+    if (changes.length === 0) return;
+    console.log(`${LOG_PREFIX} Updated ${changes.map((c) => c.key).join(', ')}`);
+    eventBus.emitSettingsChange(changes);
+    const payload: WSServerConfigPayload = { changes };
+    wsManager.broadcast('server:config', payload);
+  }
+
+  private toState(entry: SettingSchemaEntry): SettingState {
+    const { pattern: _pattern, ...definition } = entry;
+    const value = readConfig(entry.key);
+    const defaultValue = this.defaults.get(entry.key)!;
+    const secret = entry.type === 'secret';
+    return {
+      ...definition,
+      value: secret ? '' : clone(value),
+      defaultValue: secret ? '' : clone(defaultValue),
+      source: this.stored.has(entry.key) ? 'stored' : entry.env && process.env[entry.env] ? 'env' : 'default',
+      configured: Array.isArray(value) ? value.length > 0 : value !== '',
+    };
+  }
+
+  private toChange(entry: SettingSchemaEntry, value: SettingValue, previous: SettingValue): SettingChange {
+    const secret = entry.type === 'secret';
+    return {
+      key: entry.key,
+      value: secret ? '' : clone(value),
+      previous: secret ? '' : clone(previous),
+      restartRequired: entry.restartRequired === true,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** The `config` section and field a `<section>.<field>` setting key names. */
+function configField(key: string): { section: Record<string, SettingValue>; field: string } {
+  const [section, field] = key.split('.') as [keyof typeof config, string];
+  return { section: config[section] as Record<string, SettingValue>, field };
+}
+
+function readConfig(key: string): SettingValue {
+  const { section, field } = configField(key);
+  return section[field];
+}
+
+function writeConfig(key: string, value: SettingValue): void {
+  const { section, field } = configField(key);
+  section[field] = value;
+}
+
+/** Validate `raw` against a schema entry; throws with a readable reason. */
+function coerce(entry: SettingSchemaEntry, raw: unknown): SettingValue {
+  switch (entry.type) {
+    case 'string':
+    case 'path':
+    case 'secret': {
+      if (typeof raw !== 'string') throw new Error('must be a string');
+      const value = raw.trim();
+      if (value && entry.pattern && !entry.pattern.test(value)) throw new Error('invalid format');
+      return value;
+    }
+    case 'number': {
+      const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+      if (typeof value !== 'number' || !Number.isInteger(value)) throw new Error('must be an integer');
+      if (entry.min !== undefined && value < entry.min) throw new Error(`must be at least ${entry.min}`);
+      if (entry.max !== undefined && value > entry.max) throw new Error(`must be at most ${entry.max}`);
+      return value;
+    }
+    case 'boolean':
+      if (typeof raw !== 'boolean') throw new Error('must be true or false');
+      return raw;
+    case 'enum':
+      if (typeof raw !== 'string' || !entry.options?.includes(raw)) {
+        throw new Error(`must be one of ${entry.options?.join(', ')}`);
+      }
+      return raw;
+    case 'list': {
+      if (!Array.isArray(raw) || raw.some((v) => typeof v !== 'string')) throw new Error('must be an array of strings');
+      const unknown = raw.filter((v) => !entry.options?.includes(v));
+      if (unknown.length > 0) throw new Error(`unknown value(s): ${unknown.join(', ')}`);
+      return [...new Set(raw as string[])];
+    }
+  }
+}
+
+function isEqual(a: SettingValue, b: SettingValue): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => v === b[i]);
+  return a === b;
+}
+
+function clone(value: SettingValue): SettingValue {
+  return Array.isArray(value) ? [...value] : value;
+}
+
+/** Singleton settings service. */
+export const settingsService = new SettingsService();
@@ -0,0 +1,129 @@
+/**
+ * AGNI — Unit tests for state-snapshot.ts
+ *
+ * Saves and restores contributors against a real sql.js database:
+ * round-trips, version migrations, snapshots that cannot be migrated, and
+ * the GameStateManager's merge of old snapshots onto current defaults.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { initDatabase, closeDatabase, getDb } from '../database/index.js';
+import { stateSnapshot } from './state-snapshot.js';
+import { gameStateManager } from './game-state.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dbPath: string;
+
+/** Overwrite a stored snapshot row as if written by an older build. */
+function writeRow(key: string, version: number, data: unknown): void {
+  getDb().run(
+    'INSERT OR REPLACE INTO state_snapshots (key, version, data, saved_at) VALUES (?, ?, ?, ?)',
+    [key, version, JSON.stringify(data), '2025-01-01T00:00:00Z'],
+  );
+}
+
+function resultFor(key: string) {
+  return stateSnapshot.restore().find((r) => r.key === key);
+}
+
+beforeEach(async () => {
+  dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-snapshot-')), 'test.db');
+  await initDatabase(dbPath);
+});
+
+afterEach(() => {
+  closeDatabase(dbPath);
+  fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Contributors
+// ---------------------------------------------------------------------------
+
+describe('stateSnapshot', () => {
+  it('should round-trip a contributor through save and restore', () => {
+    let value = { count: 3 };
+    stateSnapshot.register('test.roundtrip', {
+      version: 1,
+      save: () => value,
+      restore: (data: { count: number }) => { value = data; },
+    });
+
+    stateSnapshot.save();
+    value = { count: 0 };
+
+    expect(resultFor('test.roundtrip')?.status).toBe('restored');
+    expect(value).toEqual({ count: 3 });
+  });
+
+  it('should report contributors without a stored snapshot as missing', () => {
+    stateSnapshot.register('test.missing', { version: 1, save: () => null, restore: () => {} });
+    expect(resultFor('test.missing')?.status).toBe('missing');
+  });
+
+  it('should migrate older snapshots step by step', () => {
+    let restored: unknown = null;
+    stateSnapshot.register('test.migrate', {
+      version: 3,
+      save: () => restored,
+      restore: (data) => { restored = data; },
+      migrations: {
+        1: (d: { n: number }) => ({ total: d.n }),
+        2: (d: { total: number }) => ({ total: d.total, unit: 'cr' }),
+      },
+    });
+    writeRow('test.migrate', 1, { n: 5 });
+
+    const result = resultFor('test.migrate');
+    expect(result?.status).toBe('migrated');
+    expect(result?.fromVersion).toBe(1);
+    expect(restored).toEqual({ total: 5, unit: 'cr' });
+  });
+
+  it('should discard snapshots with no migration path or from a newer build', () => {
+    let restored = false;
+    const contributor = { version: 2, save: () => ({}), restore: () => { restored = true; } };
+    stateSnapshot.register('test.discard', contributor);
+
+    writeRow('test.discard', 1, {});
+    expect(resultFor('test.discard')?.status).toBe('discarded');
+
+    writeRow('test.discard', 3, {});
+    expect(resultFor('test.discard')?.status).toBe('discarded');
+    expect(restored).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GameState
+// ---------------------------------------------------------------------------
+
+describe('gameStateManager snapshot', () => {
+  it('should restore persisted slices onto current defaults', () => {
+    writeRow('gameState', 1, {
+      commander: { name: 'Jameson', credits: 1000, ranks: { combat: { rank: 3, progress: 10 } } },
+      carrier: { callsign: 'X9X-99X' },
+      missions: [{ missionId: 1 }],
+      initialized: true,
+    });
+
+    expect(resultFor('gameState')?.status).toBe('restored');
+
+    const state = gameStateManager.getState();
+    expect(state.commander.name).toBe('Jameson');
+    expect(state.commander.ranks.combat.rank).toBe(3);
+    expect(state.commander.ranks.trade).toEqual({ rank: 0, progress: 0 });
+    expect(state.commander.reputation.empire).toBe(0);
+    expect(state.ship.fuel.main).toBe(0);
+    expect(state.carrier).toEqual({ callsign: 'X9X-99X' });
+    expect(state.missions).toHaveLength(1);
+    expect(gameStateManager.isInitialized()).toBe(true);
+  });
+});
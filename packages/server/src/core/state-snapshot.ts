@@ -0,0 +1,261 @@
+/**
+ * @vayu/server — Game State Snapshots
+ *
+ * Persists the in-memory game state so a restart can warm-start from where
+ * the server left off instead of from `createDefault*()`. Without this,
+ * carrier state, engineer progress, stored ships and materials stay blank
+ * until the game happens to write the relevant event again.
+ *
+ * State is contributed by named providers — the GameStateManager for the
+ * GameState slices, plus services that own data outside GameState (e.g.
+ * engineers, stored ships). Each contributor declares a schema version and
+ * the migrations needed to upgrade older snapshots; a snapshot that cannot
+ * be migrated is discarded rather than restored half-valid.
+ *
+ * Key behaviors:
+ *   - One `state_snapshots` row per contributor and commander (FID), stored
+ *     as JSON; the commander profile manager switches the scope when a
+ *     different commander loads
+ *   - `restore()` runs at boot, after the database is open and before the
+ *     journal watcher starts tailing
+ *   - Journal events schedule a debounced save; `save()` also runs on
+ *     shutdown
+ *   - Auto-save can be suspended (journal replay does this)
+ */
+
+import { eventBus } from './event-bus.js';
+import { getDb, isDatabaseReady } from '../database/index.js';
+
+// ---------------------------------------------------------------------------
+// Logger prefix
+// ---------------------------------------------------------------------------
+
+const LOG_PREFIX = '[state-snapshot]';
+
+/** Delay between the first unsaved change and the snapshot write. */
+const SAVE_DEBOUNCE_MS = 30_000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * A source of persisted state.
+ *
+ * `migrations[n]` upgrades data saved at version `n` to version `n + 1`.
+ */
+export interface SnapshotContributor<T = unknown> {
+  /** Current schema version of the data returned by `save()`. */
+  version: number;
+  /** Return JSON-serialisable state to persist. */
+  save(): T;
+  /** Apply previously saved (and migrated) state. */
+  restore(data: T): void;
+  /** Upgrades from older versions, keyed by the version they upgrade from. */
+  migrations?: Record<number, (data: any) => unknown>;
+  /**
+   * Return to an empty state. Called on a commander switch when the new
+   * commander has no (usable) snapshot, so nothing carries over.
+   */
+  reset?(): void;
+}
+
+/** Outcome of restoring a single contributor. */
+export interface SnapshotRestoreResult {
+  key: string;
+  status: 'restored' | 'migrated' | 'missing' | 'discarded';
+  savedAt?: string;
+  fromVersion?: number;
+}
+
+// ---------------------------------------------------------------------------
+// State Snapshot Manager
+// ---------------------------------------------------------------------------
+
+class StateSnapshotManager {
+  private contributors = new Map<string, SnapshotContributor>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private autoSave = true;
+  private lastSavedAt: string | null = null;
+
+  /** FID of the commander snapshots are read and written for ('' = unknown). */
+  private scope = '';
+
+  constructor() {
+    eventBus.onAnyJournalEvent(() => this.scheduleSave());
+  }
+
+  /**
+   * Register a contributor under a unique key. Called from the owning
+   * module's constructor.
+   */
+  register<T>(key: string, contributor: SnapshotContributor<T>): void {
+    if (this.contributors.has(key)) {
+      console.warn(`${LOG_PREFIX} Contributor '${key}' registered twice — replacing`);
+    }
+    this.contributors.set(key, contributor as SnapshotContributor);
+  }
+
+  /** Persist every contributor's state. */
+  save(): void {
+    if (!isDatabaseReady()) return;
+    this.clearTimer();
+
+    const db = getDb();
+    const savedAt = new Date().toISOString();
+    for (const [key, contributor] of this.contributors) {
+      try {
+        db.run(
+          `INSERT OR REPLACE INTO state_snapshots (fid, key, version, data, saved_at)
+           VALUES (?, ?, ?, ?, ?)`,
+          [this.scope, key, contributor.version, JSON.stringify(contributor.save()), savedAt],
+        );
+      } catch (err) {
+        console.error(
+          `${LOG_PREFIX} Failed to save '${key}':`,
+          err instanceof Error ? err.message : err,
+        );
+      }
+    }
+    this.lastSavedAt = savedAt;
+  }
+
+  /**
+   * Restore every registered contributor from its persisted snapshot,
+   * migrating older schema versions first.
+   *
+   * @param options.reset - Also reset contributors that have nothing to
+   *   restore (used when switching commanders).
+   */
+  restore(options: { reset?: boolean } = {}): SnapshotRestoreResult[] {
+    if (!isDatabaseReady()) return [];
+
+    const results: SnapshotRestoreResult[] = [];
+    for (const [key, contributor] of this.contributors) {
+      const result = this.restoreOne(key, contributor);
+      if (options.reset && (result.status === 'missing' || result.status === 'discarded')) {
+        contributor.reset?.();
+      }
+      results.push(result);
+    }
+
+    const restored = results.filter((r) => r.status === 'restored' || r.status === 'migrated');
+    if (restored.length > 0) {
+      console.log(
+        `${LOG_PREFIX} Warm start from snapshot: ${restored.map((r) => r.key).join(', ')}`,
+      );
+    }
+    return results;
+  }
+
+  /**
+   * Set the commander whose snapshots `save()` and `restore()` use.
+   * Does not save or restore by itself.
+   */
+  setScope(fid: string): void {
+    this.scope = fid;
+  }
+
+  getScope(): string {
+    return this.scope;
+  }
+
+  isAutoSaveEnabled(): boolean {
+    return this.autoSave;
+  }
+
+  /** Enable or disable debounced saves triggered by journal events. */
+  setAutoSave(enabled: boolean): void {
+    this.autoSave = enabled;
+    if (!enabled) this.clearTimer();
+  }
+
+  getStatus(): { scope: string; contributors: string[]; autoSave: boolean; lastSavedAt: string | null } {
+    return {
+      scope: this.scope,
+      contributors: [...this.contributors.keys()],
+      autoSave: this.autoSave,
+      lastSavedAt: this.lastSavedAt,
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private restoreOne(key: string, contributor: SnapshotContributor): SnapshotRestoreResult {
+    const rows = getDb().exec(
+      'SELECT version, data, saved_at FROM state_snapshots WHERE fid = ? AND key = ?',
+      [this.scope, key],
+    );
+    const row = rows[0]?.values[0];
+    if (!row) return { key, status: 'missing' };
+
+    const [fromVersion, raw, savedAt] = row as [number, string, string];
+
+    try {
+      const data = migrateSnapshot(key, JSON.parse(raw), fromVersion, contributor);
+      if (data === undefined) return { key, status: 'discarded', savedAt, fromVersion };
+
+      contributor.restore(data);
+      return {
+        key,
+        status: fromVersion === contributor.version ? 'restored' : 'migrated',
+        savedAt,
+        fromVersion,
+      };
+    } catch (err) {
+      console.error(
+        `${LOG_PREFIX} Failed to restore '${key}' — discarding snapshot:`,
+        err instanceof Error ? err.message : err,
+      );
+      return { key, status: 'discarded', savedAt, fromVersion };
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.autoSave || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.save(), SAVE_DEBOUNCE_MS);
+    this.saveTimer.unref?.();
+  }
+
+  private clearTimer(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+}
+
+/**
+ * Run a contributor's migrations from `version` up to its current version.
+ * Returns undefined if the snapshot is newer than the code or a migration
+ * step is missing.
+ */
+function migrateSnapshot(
+  key: string,
+  data: unknown,
+  version: number,
+  contributor: SnapshotContributor,
+): unknown {
+  if (version > contributor.version) {
+    console.warn(
+      `${LOG_PREFIX} Snapshot '${key}' is v${version}, newer than supported v${contributor.version} — ignoring`,
+    );
+    return undefined;
+  }
+
+  let current = data;
+  for (let v = version; v < contributor.version; v++) {
+    const migrate = contributor.migrations?.[v];
+    if (!migrate) {
+      console.warn(`${LOG_PREFIX} No migration for '${key}' v${v} -> v${v + 1} — ignoring snapshot`);
+      return undefined;
+    }
+    current = migrate(current);
+  }
+  return current;
+}
+
+/** Singleton state snapshot manager. */
+export const stateSnapshot = new StateSnapshotManager();
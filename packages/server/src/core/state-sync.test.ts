@@ -0,0 +1,97 @@
+/**
+ * AGNI — Unit tests for state-sync.ts
+ *
+ * Tests patch generation per slice, sequence numbering, and which patches
+ * a reconnecting client is sent versus when it must take a full state.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { applyPatch } from '@vayu/shared';
+import { stateSync } from './state-sync.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeState() {
+  return {
+    ship: { fuel: { main: 32, reserve: 0.6 }, modules: [{ slot: 'FSD', health: 1 }] },
+    location: { system: 'Sol', docked: true },
+    initialized: true,
+    lastUpdated: '2025-01-01T00:00:00Z',
+  };
+}
+
+let state: ReturnType<typeof makeState>;
+
+beforeEach(() => {
+  state = makeState();
+  stateSync.seed(state);
+});
+
+// ---------------------------------------------------------------------------
+// publish
+// ---------------------------------------------------------------------------
+
+describe('stateSync.publish', () => {
+  it('should emit only the changed fields of a slice', () => {
+    state.ship.fuel.main = 31.5;
+    const patch = stateSync.publish('ship', state);
+
+    expect(patch?.section).toBe('ship');
+    expect(patch?.operations).toEqual([{ op: 'replace', path: '/ship/fuel/main', value: 31.5 }]);
+  });
+
+  it('should include top-level scalars such as lastUpdated', () => {
+    state.location.docked = false;
+    state.lastUpdated = '2025-01-01T00:00:05Z';
+    const patch = stateSync.publish('location', state);
+
+    expect(patch?.operations).toContainEqual({ op: 'replace', path: '/lastUpdated', value: '2025-01-01T00:00:05Z' });
+  });
+
+  it('should skip unchanged slices without consuming a sequence number', () => {
+    const before = stateSync.getFullState().sequence;
+    expect(stateSync.publish('ship', state)).toBeNull();
+    expect(stateSync.getFullState().sequence).toBe(before);
+  });
+
+  it('should number patches consecutively and converge the full state', () => {
+    const base = stateSync.getFullState();
+    const clientState = structuredClone(base.state);
+
+    state.ship.modules[0].health = 0.8;
+    const a = stateSync.publish('ship', state)!;
+    state.location.system = 'Alpha Centauri';
+    const b = stateSync.publish('location', state)!;
+
+    expect(a.sequence).toBe(base.sequence + 1);
+    expect(b.sequence).toBe(base.sequence + 2);
+    expect(applyPatch(clientState, [...a.operations, ...b.operations])).toEqual(stateSync.getFullState().state);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// patchesSince
+// ---------------------------------------------------------------------------
+
+describe('stateSync.patchesSince', () => {
+  it('should return the missed patches for a client in the same epoch', () => {
+    const { sequence, epoch } = stateSync.getFullState();
+    state.ship.fuel.main = 30;
+    stateSync.publish('ship', state);
+    state.ship.fuel.main = 29;
+    stateSync.publish('ship', state);
+
+    const missed = stateSync.patchesSince(sequence, epoch);
+    expect(missed?.map((p) => p.sequence)).toEqual([sequence + 1, sequence + 2]);
+    expect(stateSync.patchesSince(sequence + 2, epoch)).toEqual([]);
+  });
+
+  it('should require a full state for fresh clients, other epochs or future sequences', () => {
+    const { sequence, epoch } = stateSync.getFullState();
+    expect(stateSync.patchesSince(null, null)).toBeNull();
+    expect(stateSync.patchesSince(sequence, 'previous-run')).toBeNull();
+    expect(stateSync.patchesSince(sequence + 10, epoch)).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @vayu/server — GameState Patch Sync
+ *
+ * Turns GameState slice updates into RFC 6902 JSON Patch deltas so clients
+ * receive only what changed (a fuel tick is one `replace`, not the whole
+ * ship with every module) and can recover from a dropped connection
+ * without re-downloading the full state.
+ *
+ * Protocol:
+ *   1. Client connects and sends `client:resync` with the last `sequence`
+ *      and `epoch` it applied (both null on first load).
+ *   2. If the missed patches are still buffered they are re-sent in order;
+ *      otherwise the server replies with `state:full`.
+ *   3. Each state change is broadcast as `state:patch` with a sequence
+ *      exactly one higher than the previous. A client that sees a gap
+ *      sends `client:resync` again.
+ *
+ * Clients that never send `client:resync` keep receiving the full
+ * `state:<section>` slices, so older consumers continue to work.
+ */
+
+import { randomUUID } from 'crypto';
+import type { WebSocket } from 'ws';
+import { diffJson } from '@vayu/shared';
+import type {
+  WSResyncPayload,
+  WSStateFullPayload,
+  WSStatePatchPayload,
+} from '@vayu/shared';
+
+import { wsManager, type ClientInfo } from '../websocket.js';
+
+// ---------------------------------------------------------------------------
+// Logger prefix
+// ---------------------------------------------------------------------------
+
+const LOG_PREFIX = '[state-sync]';
+
+/** Number of recent patches kept for reconnecting clients. */
+const HISTORY_LIMIT = 1000;
+
+// ---------------------------------------------------------------------------
+// State Sync
+// ---------------------------------------------------------------------------
+
+class StateSync {
+  /** Identifies this server run; sequences restart from 0 on every boot. */
+  private readonly epoch = randomUUID();
+
+  /** Sequence of the most recent patch. */
+  private sequence = 0;
+
+  /** The state as clients see it — the result of every patch sent so far. */
+  private published: Record<string, unknown> = {};
+
+  /** Recent patches, oldest first. */
+  private history: WSStatePatchPayload[] = [];
+
+  constructor() {
+    wsManager.onClientMessage('client:resync', (ws, payload, client) => {
+      this.resync(ws, payload as WSResyncPayload, client);
+    });
+  }
+
+  /**
+   * Set the baseline state without broadcasting. Called once by the
+   * GameStateManager with its initial state.
+   */
+  seed(state: object): void {
+    this.published = clone(state) as Record<string, unknown>;
+  }
+
+  /**
+   * Diff one slice (plus top-level scalars such as `lastUpdated`) against
+   * what clients last received and broadcast the change as `state:patch`.
+   *
+   * @returns The broadcast payload, or null if nothing changed.
+   */
+  publish(section: string, state: object): WSStatePatchPayload | null {
+    const current = state as Record<string, unknown>;
+    const next = clone(current[section]);
+    const operations = diffJson(this.published[section], next, `/${section}`);
+
+    for (const [key, value] of Object.entries(current)) {
+      if (typeof value !== 'object' && this.published[key] !== value) {
+        operations.push({ op: key in this.published ? 'replace' : 'add', path: `/${key}`, value });
+        this.published[key] = value;
+      }
+    }
+    if (operations.length === 0) return null;
+
+    this.published[section] = next;
+    const payload: WSStatePatchPayload = { section, sequence: ++this.sequence, operations };
+
+    this.history.push(payload);
+    if (this.history.length > HISTORY_LIMIT) this.history.shift();
+
+    wsManager.broadcast('state:patch', payload, { statePatches: true });
+    return payload;
+  }
+
+  /** The full state clients converge to, with its sequence and epoch. */
+  getFullState(): WSStateFullPayload {
+    return { state: this.published, sequence: this.sequence, epoch: this.epoch };
+  }
+
+  /**
+   * Patches after `sequence`, or null if the client must take a full state
+   * (different epoch, ahead of the server, or older than the buffer).
+   */
+  patchesSince(sequence: number | null, epoch: string | null): WSStatePatchPayload[] | null {
+    if (sequence === null || epoch !== this.epoch || sequence > this.sequence) return null;
+    if (sequence === this.sequence) return [];
+
+    const oldest = this.history[0]?.sequence;
+    if (oldest === undefined || sequence < oldest - 1) return null;
+    return this.history.filter((p) => p.sequence > sequence);
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private resync(ws: WebSocket, payload: WSResyncPayload, client: ClientInfo): void {
+    client.statePatches = true;
+
+    const missed = this.patchesSince(payload?.sequence ?? null, payload?.epoch ?? null);
+    if (missed) {
+      for (const patch of missed) wsManager.send(ws, 'state:patch', patch);
+      return;
+    }
+
+    console.log(`${LOG_PREFIX} Sending full state to ${client.id} (seq ${this.sequence})`);
+    wsManager.send(ws, 'state:full', this.getFullState());
+  }
+}
+
+/** Deep copy of a JSON value (state slices are plain JSON). */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/** Singleton GameState patch synchroniser. */
+export const stateSync = new StateSync();
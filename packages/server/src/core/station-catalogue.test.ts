@@ -0,0 +1,110 @@
+/**
+ * AGNI — Unit tests for station-catalogue.ts
+ *
+ * Runs the catalogue against a real sql.js database (with migrations) and
+ * feeds Shipyard.json / Outfitting.json contents through the event bus:
+ * listings replacing earlier ones, locating stations, and the for-sale
+ * search with its shorthand and nearest-first ordering.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { initDatabase, closeDatabase } from '../database/index.js';
+import { eventBus } from './event-bus.js';
+import { stationCatalogue } from './station-catalogue.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dbPath: string;
+
+function outfitting(marketId: number, station: string, system: string, timestamp: string, items: [string, number][]) {
+  return {
+    timestamp, event: 'Outfitting', MarketID: marketId, StationName: station, StarSystem: system,
+    Horizons: true, Items: items.map(([Name, BuyPrice], id) => ({ id, Name, BuyPrice })),
+  };
+}
+
+function shipyard(marketId: number, station: string, system: string, timestamp: string) {
+  return {
+    timestamp, event: 'Shipyard', MarketID: marketId, StationName: station, StarSystem: system,
+    PriceList: [{ id: 128816567, ShipType: 'krait_mkii', ShipType_Localised: 'Krait Mk II', ShipPrice: 44_152_080 }],
+  };
+}
+
+function arrive(system: string, starPos: [number, number, number]): void {
+  eventBus.emitJournalEvent({
+    timestamp: '2025-01-01T09:00:00Z', event: 'FSDJump', StarSystem: system, StarPos: starPos,
+    JumpDist: 10, FuelUsed: 1, FuelLevel: 10,
+  } as any);
+}
+
+beforeEach(async () => {
+  dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-catalogue-')), 'test.db');
+  await initDatabase(dbPath);
+});
+
+afterEach(() => {
+  closeDatabase(dbPath);
+  fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('stationCatalogue', () => {
+  it('should keep the latest listing of each kind per station', () => {
+    eventBus.emitShipyardUpdate(shipyard(1, 'Jameson Memorial', 'Shinrarta Dezhra', '2025-01-01T10:00:00Z'));
+    eventBus.emitOutfittingUpdate(outfitting(1, 'Jameson Memorial', 'Shinrarta Dezhra', '2025-01-01T10:00:00Z', [
+      ['int_hyperdrive_size5_class5', 5_103_953],
+      ['hpt_pulselaser_fixed_small', 2_200],
+    ]));
+    eventBus.emitOutfittingUpdate(outfitting(1, 'Jameson Memorial', 'Shinrarta Dezhra', '2025-01-02T10:00:00Z', [
+      ['int_hyperdrive_size5_class5', 4_900_000],
+    ]));
+
+    const station = stationCatalogue.getStation(1);
+    expect(station).toMatchObject({ ships: 1, modules: 1, shipyardUpdated: '2025-01-01T10:00:00Z' });
+    expect(station?.items).toEqual([
+      { kind: 'ship', item: 'krait_mkii', name: 'Krait Mk II', price: 44_152_080 },
+      { kind: 'module', item: 'int_hyperdrive_size5_class5', name: '5A Frame Shift Drive', price: 4_900_000 },
+    ]);
+  });
+
+  it('should find items by shorthand, nearest first', () => {
+    eventBus.emitOutfittingUpdate(outfitting(1, 'Far Port', 'Far', '2025-01-01T10:00:00Z', [
+      ['int_hyperdrive_size5_class5', 5_000_000],
+    ]));
+    eventBus.emitOutfittingUpdate(outfitting(2, 'Near Port', 'Near', '2025-01-01T11:00:00Z', [
+      ['Int_Hyperdrive_Size5_Class5', 5_100_000],
+      ['int_hyperdrive_size5_class4', 1_600_000],
+    ]));
+    eventBus.emitOutfittingUpdate(outfitting(3, 'Nowhere Port', 'Unvisited', '2025-01-01T12:00:00Z', [
+      ['int_hyperdrive_size5_class5', 4_000_000],
+    ]));
+    arrive('Far', [100, 0, 0]);
+    arrive('Near', [3, 4, 0]);
+
+    const listings = stationCatalogue.findForSale('5A FSD');
+    expect(listings.map((l) => [l.stationName, l.distanceLy])).toEqual([
+      ['Near Port', 0],
+      ['Far Port', 97.08],
+      ['Nowhere Port', null],
+    ]);
+    expect(stationCatalogue.findForSale('5a frame shift', 'ship')).toEqual([]);
+  });
+
+  it('should match ships by display name', () => {
+    eventBus.emitShipyardUpdate(shipyard(1, 'Jameson Memorial', 'Shinrarta Dezhra', '2025-01-01T10:00:00Z'));
+
+    expect(stationCatalogue.findForSale('krait mk2')).toEqual([expect.objectContaining({
+      kind: 'ship', name: 'Krait Mk II', stationName: 'Jameson Memorial', seenAt: '2025-01-01T10:00:00Z',
+    })]);
+    expect(stationCatalogue.findForSale('python')).toEqual([]);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * @vayu/server — Station Catalogue
+ *
+ * Remembers which ships and modules were for sale, and at what price, at
+ * every station whose shipyard or outfitting the commander has opened
+ * (Shipyard.json / Outfitting.json), and answers "where have I seen a
+ * 5A FSD / Krait Mk II for sale nearest to me".
+ *
+ * Key behaviors:
+ *   - Subscribes to `shipyard:update` and `outfitting:update` on import
+ *   - Keeps the latest listing per station: a new Shipyard.json replaces
+ *     the station's ships, a new Outfitting.json its modules. Re-reading
+ *     the same file at startup changes nothing
+ *   - The companion files carry no coordinates; a station's system is
+ *     located from the commander's position when the file is written, or
+ *     filled in on a later FSDJump/Location in that system
+ *   - Searches match display names word by word, so "5A FSD", "5a frame
+ *     shift" and "krait mk2" all find what they mean
+ *   - Silently skips persistence until the database has been initialised
+ */
+
+import type {
+  CatalogueStation,
+  Coordinates,
+  ForSaleListing,
+  StationCatalogue,
+  StationItem,
+  StationItemKind,
+} from '@vayu/shared';
+import { resolveModuleName, resolveShipName, roundTo } from '@vayu/shared';
+
+import { eventBus } from './event-bus.js';
+import { gameStateManager } from './game-state.js';
+import { getDb, isDatabaseReady } from '../database/index.js';
+import { clampInt, mapRows, scalar, type Row } from '../database/rows.js';
+
+// ---------------------------------------------------------------------------
+// Logger prefix
+// ---------------------------------------------------------------------------
+
+const LOG_PREFIX = '[station-catalogue]';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Distinct ships/modules a search may match before listings are looked up. */
+const MAX_MATCHED_ITEMS = 200;
+
+/** Shorthand commanders use, expanded before matching. */
+const ALIASES: Record<string, string> = {
+  fsd: 'frame shift drive',
+  pp: 'power plant',
+  pd: 'power distributor',
+  dist: 'distributor',
+  sg: 'shield generator',
+  scb: 'shield cell bank',
+  dss: 'detailed surface scanner',
+  hrp: 'hull reinforcement package',
+  mrp: 'module reinforcement package',
+  dc: 'docking computer',
+  afmu: 'auto field maintenance',
+  mk2: 'mk ii',
+  mk3: 'mk iii',
+  mk4: 'mk iv',
+  mk5: 'mk v',
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One entry of `PriceList` in Shipyard.json. */
+interface ShipyardJsonShip {
+  id: number;
+  ShipType: string;
+  ShipType_Localised?: string;
+  ShipPrice: number;
+}
+
+/** One entry of `Items` in Outfitting.json. */
+interface OutfittingJsonItem {
+  id: number;
+  Name: string;
+  BuyPrice: number;
+}
+
+type SqlValue = string | number | null;
+
+// ---------------------------------------------------------------------------
+// Station Catalogue
+// ---------------------------------------------------------------------------
+
+class StationCatalogueStore {
+  constructor() {
+    eventBus.onShipyardUpdate((data) => {
+      const ships = (data['PriceList'] as ShipyardJsonShip[] | undefined) ?? [];
+      this.record(data, 'ship', ships.map((s) => ({
+        kind: 'ship',
+        item: s.ShipType.toLowerCase(),
+        name: s.ShipType_Localised ?? resolveShipName(s.ShipType),
+        price: s.ShipPrice ?? 0,
+      })));
+    });
+
+    eventBus.onOutfittingUpdate((data) => {
+      const modules = (data['Items'] as OutfittingJsonItem[] | undefined) ?? [];
+      this.record(data, 'module', modules.map((m) => ({
+        kind: 'module',
+        item: m.Name.toLowerCase(),
+        name: resolveModuleName(m.Name),
+        price: m.BuyPrice ?? 0,
+      })));
+    });
+
+    eventBus.onJournalEvent('FSDJump', (evt) => this.locate(evt.StarSystem, evt.StarPos));
+    eventBus.onJournalEvent('Location', (evt) => this.locate(evt.StarSystem, evt.StarPos));
+    eventBus.onJournalEvent('CarrierJump', (evt) => this.locate(evt.StarSystem, evt.StarPos));
+  }
+
+  /**
+   * Replace a station's ships or modules with a new listing. Returns false
+   * when the listing was already stored or the database is not ready.
+   */
+  record(data: Record<string, unknown>, kind: StationItemKind, items: StationItem[]): boolean {
+    const marketId = data['MarketID'];
+    if (typeof marketId !== 'number' || !isDatabaseReady()) return false;
+
+    const timestamp = (data['timestamp'] as string | undefined) ?? new Date().toISOString();
+    const starSystem = (data['StarSystem'] as string | undefined) ?? '';
+    const column = kind === 'ship' ? 'shipyard_updated' : 'outfitting_updated';
+    const db = getDb();
+
+    const seen = scalar(db.exec(`SELECT ${column} FROM catalogue_stations WHERE market_id = ?`, [marketId]));
+    if (seen === timestamp) return false;
+
+    const position = this.positionOf(starSystem);
+    db.run('BEGIN');
+    try {
+      db.run(
+        `INSERT INTO catalogue_stations (market_id, station_name, star_system, x, y, z, ${column})
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (market_id) DO UPDATE SET
+           station_name = excluded.station_name,
+           star_system = excluded.star_system,
+           x = COALESCE(excluded.x, x), y = COALESCE(excluded.y, y), z = COALESCE(excluded.z, z),
+           ${column} = excluded.${column}`,
+        [marketId, (data['StationName'] as string | undefined) ?? '', starSystem,
+          position?.x ?? null, position?.y ?? null, position?.z ?? null, timestamp],
+      );
+      db.run('DELETE FROM catalogue_items WHERE market_id = ? AND kind = ?', [marketId, kind]);
+      for (const item of items) {
+        db.run(
+          'INSERT OR REPLACE INTO catalogue_items (market_id, kind, item, name, price) VALUES (?, ?, ?, ?, ?)',
+          [marketId, kind, item.item, item.name, item.price],
+        );
+      }
+      db.run('COMMIT');
+      return true;
+    } catch (err) {
+      db.run('ROLLBACK');
+      console.error(
+        `${LOG_PREFIX} Failed to store ${kind} listing for ${marketId}:`,
+        err instanceof Error ? err.message : err,
+      );
+      return false;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Queries
+  // -------------------------------------------------------------------------
+
+  /** Stations in the catalogue, most recently seen first. */
+  listStations(limit = 100, offset = 0): CatalogueStation[] {
+    const rows = getDb().exec(
+      `${STATION_SELECT}
+       ORDER BY MAX(COALESCE(s.shipyard_updated, ''), COALESCE(s.outfitting_updated, '')) DESC
+       LIMIT ? OFFSET ?`,
+      [clampInt(limit, 1, 1000, 100), clampInt(offset, 0, Number.MAX_SAFE_INTEGER, 0)],
+    );
+    return mapRows(rows, toStation);
+  }
+
+  /** A station with everything it had for sale, ships first. */
+  getStation(marketId: number): StationCatalogue | null {
+    const db = getDb();
+    const station = mapRows(db.exec(`${STATION_SELECT} WHERE s.market_id = ?`, [marketId]), toStation)[0];
+    if (!station) return null;
+
+    const items = db.exec(
+      `SELECT kind, item, name, price FROM catalogue_items
+       WHERE market_id = ? ORDER BY kind DESC, name`,
+      [marketId],
+    );
+    return { ...station, items: mapRows(items, toItem) };
+  }
+
+  /**
+   * Where a ship or module matching `query` was seen for sale, nearest to
+   * the commander first (stations in unlocated systems last), then
+   * cheapest.
+   */
+  findForSale(query: string, kind?: StationItemKind, limit = 10): ForSaleListing[] {
+    const terms = searchTerms(query);
+    if (terms.length === 0) return [];
+
+    const db = getDb();
+    const candidates = mapRows(
+      db.exec(
+        `SELECT DISTINCT kind, item, name FROM catalogue_items${kind ? ' WHERE kind = ?' : ''}`,
+        kind ? [kind] : [],
+      ),
+      (row) => ({ kind: row[0] as StationItemKind, item: row[1] as string, name: row[2] as string }),
+    );
+    const exact = query.trim().toLowerCase();
+    const matched = candidates
+      .filter((c) => c.item === exact || matchesTerms(c.name, terms))
+      .slice(0, MAX_MATCHED_ITEMS);
+    if (matched.length === 0) return [];
+
+    const values: SqlValue[] = matched.flatMap((m) => [m.kind, m.item]);
+    const rows = db.exec(
+      `SELECT i.kind, i.item, i.name, i.price, s.market_id, s.station_name, s.star_system, s.x, s.y, s.z,
+              CASE i.kind WHEN 'ship' THEN s.shipyard_updated ELSE s.outfitting_updated END
+       FROM catalogue_items i JOIN catalogue_stations s ON s.market_id = i.market_id
+       WHERE (i.kind, i.item) IN (VALUES ${matched.map(() => '(?, ?)').join(', ')})`,
+      values,
+    );
+
+    const { location } = gameStateManager.getState();
+    const here = location.system ? location.coordinates : null;
+
+    return mapRows(rows, (row): ForSaleListing => {
+      const at = row[7] === null ? null : { x: row[7] as number, y: row[8] as number, z: row[9] as number };
+      return {
+        ...toItem(row),
+        marketId: row[4] as number,
+        stationName: row[5] as string,
+        starSystem: row[6] as string,
+        distanceLy: here && at ? roundTo(distance(here, at), 2) : null,
+        seenAt: row[10] as string,
+      };
+    })
+      .sort((a, b) => (a.distanceLy ?? Infinity) - (b.distanceLy ?? Infinity) || a.price - b.price)
+      .slice(0, clampInt(limit, 1, 100, 10));
+  }
+
+  // -------------------------------------------------------------------------
+  // Private: coordinates
+  // -------------------------------------------------------------------------
+
+  /** Coordinates of a system: where the commander is, or a station already located there. */
+  private positionOf(starSystem: string): Coordinates | null {
+    const { location } = gameStateManager.getState();
+    if (starSystem && location.system === starSystem) return location.coordinates;
+
+    const row = getDb().exec(
+      'SELECT x, y, z FROM catalogue_stations WHERE star_system = ? AND x IS NOT NULL LIMIT 1',
+      [starSystem],
+    )[0]?.values[0];
+    return row ? { x: row[0] as number, y: row[1] as number, z: row[2] as number } : null;
+  }
+
+  /** Fill in coordinates for stations in a system the commander has arrived in. */
+  private locate(starSystem: string, starPos: [number, number, number]): void {
+    if (!isDatabaseReady() || !starPos) return;
+    getDb().run(
+      'UPDATE catalogue_stations SET x = ?, y = ?, z = ? WHERE star_system = ? AND x IS NULL',
+      [starPos[0], starPos[1], starPos[2], starSystem],
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SQL fragments
+// ---------------------------------------------------------------------------
+
+const STATION_SELECT = `
+  SELECT s.market_id, s.station_name, s.star_system, s.x, s.y, s.z, s.shipyard_updated, s.outfitting_updated,
+         (SELECT COUNT(*) FROM catalogue_items i WHERE i.market_id = s.market_id AND i.kind = 'ship'),
+         (SELECT COUNT(*) FROM catalogue_items i WHERE i.market_id = s.market_id AND i.kind = 'module')
+  FROM catalogue_stations s`;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+}
+
+/** Query words with shorthand expanded: "5A FSD" → 5a, frame, shift, drive. */
+function searchTerms(query: string): string[] {
+  return words(query).flatMap((w) => (ALIASES[w] ? words(ALIASES[w]) : [w]));
+}
+
+/** Every term starts some word of the name. */
+function matchesTerms(name: string, terms: string[]): boolean {
+  const nameWords = words(name);
+  return terms.every((t) => nameWords.some((w) => w.startsWith(t)));
+}
+
+function distance(a: Coordinates, b: Coordinates): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function toItem(row: Row): StationItem {
+  return {
+    kind: row[0] as StationItemKind,
+    item: row[1] as string,
+    name: row[2] as string,
+    price: row[3] as number,
+  };
+}
+
+function toStation(row: Row): CatalogueStation {
+  return {
+    marketId: row[0] as number,
+    stationName: row[1] as string,
+    starSystem: row[2] as string,
+    coordinates: row[3] === null ? null : { x: row[3] as number, y: row[4] as number, z: row[5] as number },
+    shipyardUpdated: (row[6] as string | null) ?? null,
+    outfittingUpdated: (row[7] as string | null) ?? null,
+    ships: row[8] as number,
+    modules: row[9] as number,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+export const stationCatalogue = new StationCatalogueStore();
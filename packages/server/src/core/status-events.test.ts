@@ -0,0 +1,79 @@
+/**
+ * AGNI — Unit tests for status-events.ts
+ *
+ * Feeds Status.json contents through the event bus and checks the derived
+ * `status:<flag>` edge events: nothing on the baseline read, one event per
+ * flag that changed, and nothing when unrelated bits change.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import type { StatusEdge } from '@vayu/shared';
+
+import { eventBus } from './event-bus.js';
+import { statusEvents } from './status-events.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const IN_MAIN_SHIP = 2 ** 24;
+const HARDPOINTS = 2 ** 6;
+const FSD_CHARGING = 2 ** 17;
+const LOW_FUEL = 2 ** 19;
+const LIGHTS = 2 ** 8;
+const GLIDE_MODE = 2 ** 12;
+
+const edges: StatusEdge[] = [];
+const record = (edge: StatusEdge) => { edges.push(edge); };
+for (const flag of ['fsdCharging', 'lowFuel', 'hardpointsDeployed', 'glideMode'] as const) {
+  eventBus.onStatusEdge(flag, record);
+}
+
+function status(flags: number, flags2?: number, timestamp = '2025-01-01T10:00:00Z'): void {
+  eventBus.emitStatusUpdate({ timestamp, event: 'Status', Flags: flags, ...(flags2 !== undefined ? { Flags2: flags2 } : {}) });
+}
+
+afterEach(() => {
+  edges.length = 0;
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('statusEvents', () => {
+  it('should take the first update as the baseline', () => {
+    status(IN_MAIN_SHIP + LOW_FUEL);
+
+    expect(edges).toEqual([]);
+    expect(statusEvents.getFlags()).toMatchObject({ inMainShip: true, lowFuel: true });
+  });
+
+  it('should emit one edge per changed flag', () => {
+    status(IN_MAIN_SHIP);
+    edges.length = 0;
+
+    status(IN_MAIN_SHIP + HARDPOINTS + FSD_CHARGING, undefined, '2025-01-01T10:00:05Z');
+    expect(edges.map((e) => [e.flag, e.active])).toEqual([['fsdCharging', true], ['hardpointsDeployed', true]]);
+    expect(edges[0]).toMatchObject({ timestamp: '2025-01-01T10:00:05Z', flags: { fsdCharging: true, lightsOn: false } });
+
+    status(IN_MAIN_SHIP + HARDPOINTS);
+    expect(edges.at(-1)).toMatchObject({ flag: 'fsdCharging', active: false });
+  });
+
+  it('should ignore flags without edge events', () => {
+    status(IN_MAIN_SHIP);
+    edges.length = 0;
+
+    status(IN_MAIN_SHIP + LIGHTS);
+    expect(edges).toEqual([]);
+  });
+
+  it('should emit Odyssey edges from Flags2', () => {
+    status(0, 0);
+    edges.length = 0;
+
+    status(0, GLIDE_MODE);
+    expect(edges).toEqual([expect.objectContaining({ flag: 'glideMode', active: true })]);
+  });
+});
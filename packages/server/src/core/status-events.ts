@@ -0,0 +1,61 @@
+/**
+ * @vayu/server — Status.json Edge Events
+ *
+ * Decodes every Status.json update and emits `status:<flag>` on the event
+ * bus when one of the edge flags (`STATUS_EDGE_FLAGS`: FSD charging,
+ * overheating, low fuel, in danger, hardpoints deployed, glide mode) turns
+ * on or off, so subsystems can react to the change instead of comparing
+ * the raw bitfield on every update.
+ *
+ * Key behaviors:
+ *   - The first Status.json read only sets the baseline: a flag already on
+ *     when VAYU starts is not reported as a transition (read it from
+ *     `getFlags()` instead)
+ *   - Edges are emitted from a `status:update` listener registered after
+ *     the game state's (see the import order in index.ts), so game state
+ *     already reflects the new flags
+ *   - Several flags changing in one update emit one event each, in the
+ *     order of `STATUS_EDGE_FLAGS`
+ */
+
+import { STATUS_EDGE_FLAGS, changedStatusFlags, decodeStatusFlags } from '@vayu/shared';
+import type { StatusFlags } from '@vayu/shared';
+
+import { eventBus } from './event-bus.js';
+
+// ---------------------------------------------------------------------------
+// Status edge emitter
+// ---------------------------------------------------------------------------
+
+class StatusEvents {
+  /** Flags from the last Status.json update (null before the first). */
+  private flags: StatusFlags | null = null;
+
+  constructor() {
+    eventBus.onStatusUpdate((status) => this.update(status));
+  }
+
+  /** The decoded flags of the last Status.json update, or null before the first. */
+  getFlags(): StatusFlags | null {
+    return this.flags;
+  }
+
+  private update(status: Record<string, unknown>): void {
+    const previous = this.flags;
+    const current = decodeStatusFlags(Number(status['Flags'] ?? 0), Number(status['Flags2'] ?? 0));
+    this.flags = current;
+    if (!previous) return;
+
+    const timestamp = typeof status['timestamp'] === 'string' ? status['timestamp'] : new Date().toISOString();
+    for (const flag of changedStatusFlags(previous, current, STATUS_EDGE_FLAGS)) {
+      eventBus.emitStatusEdge({ flag, active: current[flag], timestamp, flags: current });
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+/** Global Status.json edge emitter. */
+export const statusEvents = new StatusEvents();
@@ -104,6 +104,12 @@ class StatusWatcher {
   /** Number of status updates emitted. */
   private updatesEmitted = 0;
 
+  /** When the last update was emitted (epoch ms). */
+  private lastUpdateAt: number | null = null;
+
+  /** Delay between the game stamping Status.json and VAYU emitting it. */
+  private lagMs: number | null = null;
+
   /**
    * Start watching Status.json.
    *
@@ -201,12 +207,16 @@ class StatusWatcher {
     statusPath: string | null;
     updatesEmitted: number;
     hasStatus: boolean;
+    lastUpdateAt: string | null;
+    lagMs: number | null;
   } {
     return {
       watching: this.watching,
       statusPath: this.statusPath,
       updatesEmitted: this.updatesEmitted,
       hasStatus: this.lastStatus !== null,
+      lastUpdateAt: this.lastUpdateAt !== null ? new Date(this.lastUpdateAt).toISOString() : null,
+      lagMs: this.lagMs,
     };
   }
 
@@ -248,6 +258,9 @@ class StatusWatcher {
       this.lastRawContent = trimmed;
       this.lastStatus = parsed;
       this.updatesEmitted++;
+      this.lastUpdateAt = Date.now();
+      const stamped = Date.parse(parsed.timestamp);
+      if (!Number.isNaN(stamped)) this.lagMs = Math.max(0, this.lastUpdateAt - stamped);
 
       eventBus.emitStatusUpdate(parsed as unknown as Record<string, unknown>);
     } catch (err) {
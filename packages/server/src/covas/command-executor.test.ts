@@ -11,12 +11,24 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 // Mocks
 // ---------------------------------------------------------------------------
 
-const { mockGetState, mockExecuteMacro, mockFindBestSellPrice, mockFindBestBuyPrice, mockResolveCommodity } = vi.hoisted(() => ({
+const {
+  mockGetState,
+  mockExecuteMacro,
+  mockFindBestSellPrice,
+  mockFindBestBuyPrice,
+  mockResolveCommodity,
+  mockFindForSale,
+  mockFindNearest,
+  mockPlotRoute,
+} = vi.hoisted(() => ({
   mockGetState: vi.fn(),
   mockExecuteMacro: vi.fn(),
   mockFindBestSellPrice: vi.fn(),
   mockFindBestBuyPrice: vi.fn(),
   mockResolveCommodity: vi.fn(),
+  mockFindForSale: vi.fn(),
+  mockFindNearest: vi.fn(),
+  mockPlotRoute: vi.fn(),
 }));
 
 vi.mock('../core/game-state.js', () => ({
@@ -37,6 +49,27 @@ vi.mock('../features/trade/trade.service.js', () => ({
   },
 }));
 
+vi.mock('../core/station-catalogue.js', () => ({
+  stationCatalogue: {
+    findForSale: (...args: any[]) => mockFindForSale(...args),
+  },
+}));
+
+vi.mock('../features/galaxy/station-finder.service.js', () => ({
+  stationFinder: {
+    findNearest: (...args: any[]) => mockFindNearest(...args),
+  },
+}));
+
+vi.mock('../features/galaxy/route-planner.service.js', () => ({
+  routePlanner: {
+    plot: (...args: any[]) => mockPlotRoute(...args),
+  },
+  RoutePlanError: class RoutePlanError extends Error {
+    constructor(message: string, public readonly status: number) { super(message); }
+  },
+}));
+
 vi.mock('./action-macros.js', () => ({
   actionEngine: {
     executeMacro: (...args: any[]) => mockExecuteMacro(...args),
@@ -106,9 +139,12 @@ describe('CommandExecutor', () => {
       expect(commands).toContain('check_cargo');
       expect(commands).toContain('check_ship_status');
       expect(commands).toContain('navigate_to_system');
+      expect(commands).toContain('plot_route');
       expect(commands).toContain('play_music');
       expect(commands).toContain('search_commodity_sell');
       expect(commands).toContain('search_commodity_buy');
+      expect(commands).toContain('find_for_sale');
+      expect(commands).toContain('find_nearest_service');
     });
 
     it('should include all action macro commands', () => {
@@ -337,6 +373,43 @@ describe('CommandExecutor', () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // plot_route
+  // -----------------------------------------------------------------------
+
+  describe('plot_route', () => {
+    it('should sum up the route and name the first waypoint', async () => {
+      mockPlotRoute.mockResolvedValue({
+        destination: 'Colonia', jumpCount: 2, totalDistance: 1234.5, refuels: 1, supercharges: 2,
+        waypoints: [{ system: 'Sol' }, { system: 'Jackson\'s Lighthouse' }, { system: 'Colonia' }],
+      });
+
+      const result = await commandExecutor.execute('plot_route', { system: 'colonia', supercharge: 'neutron' });
+
+      expect(mockPlotRoute).toHaveBeenCalledWith({ to: 'colonia', neutron: true, whiteDwarf: false });
+      expect(result.success).toBe(true);
+      expect(result.response).toBe(
+        'Route to Colonia: 2 jumps, 1,235 ly, 1 fuel stop, 2 supercharged. First waypoint: Jackson\'s Lighthouse.',
+      );
+    });
+
+    it('should pass on why no route could be plotted', async () => {
+      const { RoutePlanError } = await import('../features/galaxy/route-planner.service.js');
+      mockPlotRoute.mockRejectedValue(new RoutePlanError('Destination not in the galaxy database', 404));
+
+      const result = await commandExecutor.execute('plot_route', { system: 'Nowhere' });
+
+      expect(result.success).toBe(false);
+      expect(result.response).toBe("Can't plot a route to Nowhere: destination not in the galaxy database.");
+    });
+
+    it('should ask for a destination when none is given', async () => {
+      const result = await commandExecutor.execute('plot_route', {});
+      expect(result.success).toBe(false);
+      expect(mockPlotRoute).not.toHaveBeenCalled();
+    });
+  });
+
   // -----------------------------------------------------------------------
   // play_music
   // -----------------------------------------------------------------------
@@ -510,6 +583,84 @@ describe('CommandExecutor', () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // find_for_sale
+  // -----------------------------------------------------------------------
+
+  describe('find_for_sale', () => {
+    it('should fail when no item is specified', async () => {
+      const result = await commandExecutor.execute('find_for_sale', {});
+      expect(result.success).toBe(false);
+      expect(result.response).toContain('Which ship or module');
+    });
+
+    it('should list the nearest stations selling the item', async () => {
+      mockFindForSale.mockReturnValue([
+        { kind: 'module', item: 'int_hyperdrive_size5_class5', name: '5A Frame Shift Drive', price: 5_103_953,
+          marketId: 1, stationName: 'Jameson Memorial', starSystem: 'Shinrarta Dezhra', distanceLy: 4.25,
+          seenAt: '2025-01-01T10:00:00Z' },
+        { kind: 'module', item: 'int_hyperdrive_size5_class5', name: '5A Frame Shift Drive', price: 5_103_953,
+          marketId: 2, stationName: 'Far Away', starSystem: 'Colonia', distanceLy: null,
+          seenAt: '2025-01-01T10:00:00Z' },
+      ]);
+
+      const result = await commandExecutor.execute('find_for_sale', { item: '5A FSD' });
+
+      expect(mockFindForSale).toHaveBeenCalledWith('5A FSD', undefined, 5);
+      expect(result.success).toBe(true);
+      expect(result.response).toContain('1. 5A Frame Shift Drive at Jameson Memorial (Shinrarta Dezhra)');
+      expect(result.response).toContain('4.3 ly');
+      expect(result.response).toContain('distance unknown');
+    });
+
+    it('should say so when the item has not been seen', async () => {
+      mockFindForSale.mockReturnValue([]);
+      const result = await commandExecutor.execute('find_for_sale', { item: 'Krait Mk II' });
+      expect(result.success).toBe(true);
+      expect(result.response).toContain("haven't seen Krait Mk II");
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // find_nearest_service
+  // -----------------------------------------------------------------------
+
+  describe('find_nearest_service', () => {
+    const origin = { system: 'Sol', coordinates: { x: 0, y: 0, z: 0 } };
+
+    it('should ask for the type of trader or broker when it is missing', async () => {
+      const trader = await commandExecutor.execute('find_nearest_service', { service: 'material trader' });
+      const broker = await commandExecutor.execute('find_nearest_service', { service: 'tech broker' });
+
+      expect(trader.success).toBe(false);
+      expect(trader.response).toContain('raw, manufactured or encoded');
+      expect(broker.response).toContain('human or guardian');
+      expect(mockFindNearest).not.toHaveBeenCalled();
+    });
+
+    it('should list the nearest stations for spoken or tagged services', async () => {
+      mockFindNearest.mockReturnValue({
+        service: 'material_trader_encoded', origin, searchedLy: 25,
+        stations: [{ name: 'Ray Gateway', systemName: 'Diaguandri', distance: 12.34, distanceToArrival: 1234.5, maxPad: 'L' }],
+      });
+
+      const spoken = await commandExecutor.execute('find_nearest_service', { service: 'encoded trader' });
+      await commandExecutor.execute('find_nearest_service', { service: 'material_trader_encoded' });
+
+      expect(mockFindNearest).toHaveBeenNthCalledWith(1, { service: 'material_trader_encoded', limit: 3 });
+      expect(mockFindNearest).toHaveBeenNthCalledWith(2, { service: 'material_trader_encoded', limit: 3 });
+      expect(spoken.success).toBe(true);
+      expect(spoken.response).toContain('Nearest encoded material trader');
+      expect(spoken.response).toContain('1. Ray Gateway (Diaguandri) — 12.3 ly, 1,235 ls, large pad');
+    });
+
+    it('should say so when none is known nearby', async () => {
+      mockFindNearest.mockReturnValue({ service: 'interstellar_factors', origin, searchedLy: 500, stations: [] });
+      const result = await commandExecutor.execute('find_nearest_service', { service: 'interstellar_factors' });
+      expect(result.response).toBe('No interstellar factors within 500 ly of Sol in the galaxy database.');
+    });
+  });
+
   // -----------------------------------------------------------------------
   // Error handling in execute()
   // -----------------------------------------------------------------------
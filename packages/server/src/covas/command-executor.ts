@@ -4,6 +4,10 @@
 
 import { gameStateManager } from '../core/game-state.js';
 import { resolveShipName, formatCredits } from '@vayu/shared';
+import type { StationServiceKind } from '@vayu/shared';
+import { stationCatalogue } from '../core/station-catalogue.js';
+import { routePlanner, RoutePlanError } from '../features/galaxy/route-planner.service.js';
+import { stationFinder } from '../features/galaxy/station-finder.service.js';
 import { tradeService } from '../features/trade/trade.service.js';
 import { actionEngine } from './action-macros.js';
 
@@ -15,6 +19,37 @@ export interface CommandResult {
 
 type CommandHandler = (entities: Record<string, string | number | boolean>) => Promise<CommandResult>;
 
+const SERVICE_NAMES: Record<StationServiceKind, string> = {
+  interstellar_factors: 'interstellar factors',
+  material_trader_raw: 'raw material trader',
+  material_trader_manufactured: 'manufactured material trader',
+  material_trader_encoded: 'encoded material trader',
+  technology_broker_human: 'human technology broker',
+  technology_broker_guardian: 'guardian technology broker',
+  large_pad: 'large landing pad',
+  fleet_carrier_vendor: 'fleet carrier vendor',
+};
+
+/** A station service from an intent tag value or spoken words ("encoded trader", "guardian broker"). */
+function resolveStationService(text: string): StationServiceKind | null {
+  const lower = text.toLowerCase().replace(/_/g, ' ');
+  if (lower.includes('factors')) return 'interstellar_factors';
+  if (lower.includes('trader')) {
+    if (lower.includes('raw')) return 'material_trader_raw';
+    if (lower.includes('manufactured')) return 'material_trader_manufactured';
+    if (lower.includes('encoded') || lower.includes('data')) return 'material_trader_encoded';
+    return null;
+  }
+  if (lower.includes('broker')) {
+    if (lower.includes('human')) return 'technology_broker_human';
+    if (lower.includes('guardian')) return 'technology_broker_guardian';
+    return null;
+  }
+  if (lower.includes('vendor')) return 'fleet_carrier_vendor';
+  if (lower.includes('large')) return 'large_pad';
+  return null;
+}
+
 const handlers: Record<string, CommandHandler> = {
   check_fuel: async () => {
     const state = gameStateManager.getState();
@@ -82,6 +117,36 @@ const handlers: Record<string, CommandHandler> = {
     };
   },
 
+  plot_route: async (entities) => {
+    const system = entities['system'] as string;
+    if (!system) return { success: false, response: 'Which system should I plot a route to?' };
+    const supercharge = String(entities['supercharge'] ?? '').toLowerCase();
+
+    try {
+      const route = await routePlanner.plot({
+        to: system,
+        neutron: /neutron|both/.test(supercharge),
+        whiteDwarf: /white|dwarf|both/.test(supercharge),
+      });
+      if (route.jumpCount === 0) return { success: true, response: `We're already in ${route.destination}.`, data: route };
+
+      const extras = [
+        route.refuels > 0 ? `${route.refuels} fuel stop${route.refuels !== 1 ? 's' : ''}` : '',
+        route.supercharges > 0 ? `${route.supercharges} supercharged` : '',
+      ].filter(Boolean);
+      return {
+        success: true,
+        response: `Route to ${route.destination}: ${route.jumpCount} jump${route.jumpCount !== 1 ? 's' : ''}, ` +
+          `${Math.round(route.totalDistance).toLocaleString()} ly${extras.length ? `, ${extras.join(', ')}` : ''}. ` +
+          `First waypoint: ${route.waypoints[1].system}.`,
+        data: route,
+      };
+    } catch (err) {
+      if (!(err instanceof RoutePlanError)) throw err;
+      return { success: false, response: `Can't plot a route to ${system}: ${err.message.charAt(0).toLowerCase()}${err.message.slice(1)}.` };
+    }
+  },
+
   play_music: async (entities) => {
     const query = entities['query'] as string;
     if (!query) return { success: false, response: 'What would you like me to play?' };
@@ -122,6 +187,52 @@ const handlers: Record<string, CommandHandler> = {
     }
   },
 
+  find_for_sale: async (entities) => {
+    const item = entities['item'] as string;
+    if (!item) return { success: false, response: 'Which ship or module are you looking for?' };
+
+    const listings = stationCatalogue.findForSale(item, undefined, 5);
+    if (listings.length === 0) {
+      return { success: true, response: `I haven't seen ${item} for sale at any station you've visited.` };
+    }
+
+    const lines = listings.map((l, i) => {
+      const dist = l.distanceLy === null ? 'distance unknown' : `${l.distanceLy.toFixed(1)} ly`;
+      return `${i + 1}. ${l.name} at ${l.stationName} (${l.starSystem}) — ${formatCredits(l.price)}, ${dist}`;
+    });
+    return { success: true, response: `Seen for sale nearest to you:\n${lines.join('\n')}`, data: listings };
+  },
+
+  find_nearest_service: async (entities) => {
+    const asked = String(entities['service'] ?? '');
+    const service = resolveStationService(asked);
+    if (!service) {
+      if (asked.toLowerCase().includes('trader')) {
+        return { success: false, response: 'Which material trader: raw, manufactured or encoded?' };
+      }
+      if (asked.toLowerCase().includes('broker')) {
+        return { success: false, response: 'Which technology broker: human or guardian?' };
+      }
+      return { success: false, response: 'Which service are you looking for?' };
+    }
+
+    const result = stationFinder.findNearest({ service, limit: 3 });
+    const name = SERVICE_NAMES[service];
+    if (result.stations.length === 0) {
+      return {
+        success: true,
+        response: `No ${name} within ${result.searchedLy} ly of ${result.origin.system} in the galaxy database.`,
+      };
+    }
+
+    const lines = result.stations.map((s, i) => {
+      const arrival = s.distanceToArrival === null ? '' : `, ${Math.round(s.distanceToArrival).toLocaleString()} ls`;
+      const pad = s.maxPad === 'L' ? ', large pad' : s.maxPad === 'M' ? ', medium pad' : '';
+      return `${i + 1}. ${s.name} (${s.systemName}) — ${s.distance.toFixed(1)} ly${arrival}${pad}`;
+    });
+    return { success: true, response: `Nearest ${name}:\n${lines.join('\n')}`, data: result };
+  },
+
   // ---------------------------------------------------------------------------
   // Ship action macros — return empty response to preserve LLM personality text
   // ---------------------------------------------------------------------------
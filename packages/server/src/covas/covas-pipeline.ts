@@ -8,8 +8,14 @@ import { ttsService } from './tts-service.js';
 import { commandExecutor } from './command-executor.js';
 import { pttManager } from './ptt-manager.js';
 import { wsManager } from '../websocket.js';
+import { metrics } from '../core/metrics.js';
 import { CovasPipelineStage } from '@vayu/shared';
 
+const stageDuration = metrics.histogram(
+  'vayu_covas_stage_duration_seconds',
+  'COVAS pipeline latency by stage (stt, llm, command, tts, total).',
+);
+
 export interface PipelineResult {
   inputText: string;
   responseText: string;
@@ -68,6 +74,7 @@ class CovasPipeline {
 
       if (!sttResult.text.trim()) {
         this.setStage(CovasPipelineStage.Idle);
+        stageDuration.observe({ stage: 'stt' }, sttLatency / 1000);
         return {
           inputText: '',
           responseText: 'I didn\'t catch that. Could you repeat?',
@@ -174,12 +181,21 @@ class CovasPipeline {
       },
     };
 
+    this.recordLatency(result.latency);
+
     // Broadcast to all connected clients
     wsManager.broadcast('covas:response', result);
 
     return result;
   }
 
+  /** Record each stage that ran into the latency histogram. */
+  private recordLatency(latency: PipelineResult['latency']): void {
+    for (const [stage, ms] of Object.entries(latency)) {
+      if (ms !== null) stageDuration.observe({ stage }, ms / 1000);
+    }
+  }
+
   clearConversation(): void {
     llmService.clearHistory();
   }
@@ -3,6 +3,8 @@
  */
 
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type CovasEnableRequest, type CovasPttRequest, type CovasTextRequest } from '@vayu/shared';
+import { apiRoute } from '../core/api-route.js';
 import { covasPipeline } from './covas-pipeline.js';
 import { pttManager } from './ptt-manager.js';
 import { commandExecutor } from './command-executor.js';
@@ -11,13 +13,12 @@ import { getTTSService } from './tts-service.js';
 export const covasRouter = Router();
 
 /** POST /api/covas/text — Process text command. */
-covasRouter.post('/text', async (req: Request, res: Response) => {
+covasRouter.post('/text', apiRoute({
+  summary: 'Run a typed command through COVAS',
+  body: API_SCHEMAS.CovasTextRequest,
+}), async (req: Request, res: Response) => {
   try {
-    const { text } = req.body;
-    if (!text || typeof text !== 'string') {
-      res.status(400).json({ success: false, error: 'Missing text field' });
-      return;
-    }
+    const { text } = req.body as CovasTextRequest;
     const result = await covasPipeline.processTextInput(text.trim());
     res.json({ success: true, data: result });
   } catch (error) {
@@ -27,7 +28,12 @@ covasRouter.post('/text', async (req: Request, res: Response) => {
 });
 
 /** POST /api/covas/audio — Process audio buffer (expects application/octet-stream). */
-covasRouter.post('/audio', async (req: Request, res: Response) => {
+covasRouter.post('/audio', apiRoute({
+  summary: 'Run recorded speech through COVAS',
+  description: 'Raw audio bytes; the format comes from the `X-Audio-Format` header or `?format=` (default webm).',
+  bodyContentType: 'application/octet-stream',
+  errors: { 400: 'Empty audio data' },
+}), async (req: Request, res: Response) => {
   try {
     // express.raw() middleware parses application/octet-stream into req.body as a Buffer
     const audioBuffer = Buffer.isBuffer(req.body) ? req.body : Buffer.from(req.body || '');
@@ -52,7 +58,9 @@ covasRouter.post('/audio', async (req: Request, res: Response) => {
 });
 
 /** GET /api/covas/state — Get current COVAS state. */
-covasRouter.get('/state', (_req: Request, res: Response) => {
+covasRouter.get('/state', apiRoute({
+  summary: 'Pipeline stage, push-to-talk state, commands and TTS provider',
+}), (_req: Request, res: Response) => {
   try {
     const tts = getTTSService();
     res.json({
@@ -72,15 +80,21 @@ covasRouter.get('/state', (_req: Request, res: Response) => {
 });
 
 /** POST /api/covas/enable — Enable/disable COVAS. */
-covasRouter.post('/enable', (req: Request, res: Response) => {
-  const { enabled } = req.body;
-  covasPipeline.setEnabled(!!enabled);
+covasRouter.post('/enable', apiRoute({
+  summary: 'Enable or disable COVAS',
+  body: API_SCHEMAS.CovasEnableRequest,
+}), (req: Request, res: Response) => {
+  const { enabled } = req.body as CovasEnableRequest;
+  covasPipeline.setEnabled(enabled);
   res.json({ success: true, data: { enabled: covasPipeline.isEnabled() } });
 });
 
 /** POST /api/covas/ptt — Toggle push-to-talk. */
-covasRouter.post('/ptt', (req: Request, res: Response) => {
-  const { action } = req.body;
+covasRouter.post('/ptt', apiRoute({
+  summary: 'Start, stop or toggle push-to-talk',
+  body: API_SCHEMAS.CovasPttRequest,
+}), (req: Request, res: Response) => {
+  const { action } = req.body as CovasPttRequest;
   if (action === 'start') pttManager.start();
   else if (action === 'stop') pttManager.stop();
   else pttManager.toggle();
@@ -88,7 +102,7 @@ covasRouter.post('/ptt', (req: Request, res: Response) => {
 });
 
 /** POST /api/covas/clear — Clear conversation history. */
-covasRouter.post('/clear', (_req: Request, res: Response) => {
+covasRouter.post('/clear', apiRoute({ summary: 'Forget the conversation history' }), (_req: Request, res: Response) => {
   covasPipeline.clearConversation();
   res.json({ success: true });
 });
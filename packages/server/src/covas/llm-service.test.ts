@@ -303,6 +303,49 @@ describe('LLMService.extractIntent()', () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Ships and modules for sale
+  // -----------------------------------------------------------------------
+
+  describe('for-sale query detection', () => {
+    it('should detect "where have I seen"', async () => {
+      const { intent, entities } = await getIntent('where have I seen a 5A FSD for sale?');
+      expect(intent).toBe('find_for_sale');
+      expect(entities['item']).toBe('5a fsd');
+    });
+
+    it('should detect buying a ship or module with an article', async () => {
+      const { intent, entities } = await getIntent('where can I buy a krait mk ii nearest to me');
+      expect(intent).toBe('find_for_sale');
+      expect(entities['item']).toBe('krait mk ii');
+    });
+
+    it('should leave commodities to the market search', async () => {
+      const { intent } = await getIntent('where can i buy tritium?');
+      expect(intent).toBe('search_commodity_buy');
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Nearest station services
+  // -----------------------------------------------------------------------
+
+  describe('nearest service detection', () => {
+    it('should detect material traders and technology brokers with their type', async () => {
+      expect(await getIntent("where's the nearest encoded trader?")).toEqual({
+        intent: 'find_nearest_service', entities: { service: 'encoded trader' },
+      });
+      expect((await getIntent('closest guardian tech broker please')).entities['service']).toBe('guardian tech broker');
+      expect((await getIntent('nearest material trader')).entities['service']).toBe('material trader');
+    });
+
+    it('should detect interstellar factors, large pads and carrier vendors', async () => {
+      expect((await getIntent('where are the nearest interstellar factors')).entities['service']).toBe('interstellar factors');
+      expect((await getIntent('closest station with a large pad')).entities['service']).toBe('large pad');
+      expect((await getIntent('nearest fleet carrier vendor')).entities['service']).toBe('fleet carrier vendor');
+    });
+  });
+
   // -----------------------------------------------------------------------
   // Navigation intent
   // -----------------------------------------------------------------------
@@ -328,6 +371,21 @@ describe('LLMService.extractIntent()', () => {
       const { intent } = await getIntent('navigate to Sol');
       expect(intent).toBe('navigate_to_system');
     });
+
+    it('should detect plot_route when asked how many jumps it is', async () => {
+      expect(await getIntent('how many jumps to Shinrarta Dezhra?')).toEqual({
+        intent: 'plot_route', entities: { system: 'shinrarta dezhra' },
+      });
+    });
+
+    it('should detect plot_route with neutron or white dwarf supercharges', async () => {
+      expect(await getIntent('plot a route to Colonia using neutrons')).toEqual({
+        intent: 'plot_route', entities: { system: 'colonia', supercharge: 'neutron' },
+      });
+      expect(await getIntent('white dwarf route to Sagittarius A*')).toEqual({
+        intent: 'plot_route', entities: { system: 'sagittarius a*', supercharge: 'white_dwarf' },
+      });
+    });
   });
 
   // -----------------------------------------------------------------------
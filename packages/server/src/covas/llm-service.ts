@@ -50,6 +50,34 @@ Examples:
 - "Best price for gold" → <intent>search_commodity_sell</intent><commodity>gold</commodity>
 Keep the spoken response short — the system will fetch live market data and append it.
 
+SHIPS AND MODULES FOR SALE:
+When the user asks where to buy a ship or a module, or where they have seen one for sale, include:
+<intent>find_for_sale</intent><item>SHIP_OR_MODULE</item>
+Examples:
+- "Where have I seen a 5A FSD?" → <intent>find_for_sale</intent><item>5A FSD</item>
+- "Nearest place to buy a Krait Mk II" → <intent>find_for_sale</intent><item>Krait Mk II</item>
+The system searches stations the commander has visited and appends the nearest ones.
+
+NEAREST SERVICES:
+When the user asks for the nearest interstellar factors, material trader, technology broker, large landing pad or fleet carrier vendor, include:
+<intent>find_nearest_service</intent><service>SERVICE</service>
+SERVICE is one of: interstellar_factors, material_trader_raw, material_trader_manufactured, material_trader_encoded, technology_broker_human, technology_broker_guardian, large_pad, fleet_carrier_vendor.
+Examples:
+- "Where's the nearest encoded trader?" → <intent>find_nearest_service</intent><service>material_trader_encoded</service>
+- "Closest guardian tech broker" → <intent>find_nearest_service</intent><service>technology_broker_guardian</service>
+- "I need to pay off a bounty" → <intent>find_nearest_service</intent><service>interstellar_factors</service>
+The system searches the galaxy database and appends the nearest stations.
+
+ROUTE PLOTTING:
+When the user asks to plot a route to a system or how many jumps it is, include:
+<intent>plot_route</intent><system>SYSTEM_NAME</system>
+Add <supercharge>neutron</supercharge>, <supercharge>white_dwarf</supercharge> or <supercharge>both</supercharge> when they ask to use neutron stars or white dwarfs.
+Examples:
+- "Plot a route to Colonia" → <intent>plot_route</intent><system>Colonia</system>
+- "Neutron route to Beagle Point" → <intent>plot_route</intent><system>Beagle Point</system><supercharge>neutron</supercharge>
+- "How many jumps to Shinrarta Dezhra?" → <intent>plot_route</intent><system>Shinrarta Dezhra</system>
+The system plots the route for the current ship over the galaxy database and appends the jumps and first waypoint.
+
 SHIP ACTIONS:
 When the user gives a command (slang or direct) that implies a ship action, include an action intent tag in your response:
 - Deploy weapons / combat: <intent>action_combat_ready</intent>
@@ -177,12 +205,58 @@ class LLMService {
     // Check LLM response for explicit intent tags first
     const intentTagMatch = response.match(/<intent>([\w_]+)<\/intent>/);
     const commodityTagMatch = response.match(/<commodity>([^<]+)<\/commodity>/);
+    const itemTagMatch = response.match(/<item>([^<]+)<\/item>/);
+    const serviceTagMatch = response.match(/<service>([^<]+)<\/service>/);
+    const systemTagMatch = response.match(/<system>([^<]+)<\/system>/);
+    const superchargeTagMatch = response.match(/<supercharge>([^<]+)<\/supercharge>/);
     if (intentTagMatch) {
       const tagIntent = intentTagMatch[1];
       if (commodityTagMatch) entities['commodity'] = commodityTagMatch[1].trim();
+      if (itemTagMatch) entities['item'] = itemTagMatch[1].trim();
+      if (serviceTagMatch) entities['service'] = serviceTagMatch[1].trim();
+      if (systemTagMatch) entities['system'] = systemTagMatch[1].trim();
+      if (superchargeTagMatch) entities['supercharge'] = superchargeTagMatch[1].trim();
       return { intent: tagIntent, entities };
     }
 
+    // Route plotting — "how many jumps to X", or a route using neutron stars / white dwarfs
+    const jumpsMatch = lower.match(/\bhow\s+many\s+jumps\s+(?:is\s+it\s+)?to\s+(.+?)(?:\s*\?|$)/);
+    if (jumpsMatch) {
+      entities['system'] = jumpsMatch[1].trim();
+      return { intent: 'plot_route', entities };
+    }
+    const viaMatch = lower.match(
+      /\broute\s+to\s+(.+?)\s+(?:via|using|with|through)\s+(?:the\s+)?(neutron|white\s+dwarf)/,
+    );
+    const kindMatch = lower.match(/\b(neutron|white\s+dwarf)\s+route\s+to\s+(.+?)(?:\s*\?|$)/);
+    if (viaMatch || kindMatch) {
+      entities['system'] = (viaMatch ? viaMatch[1] : kindMatch![2]).trim();
+      entities['supercharge'] = (viaMatch ? viaMatch[2] : kindMatch![1]) === 'neutron' ? 'neutron' : 'white_dwarf';
+      return { intent: 'plot_route', entities };
+    }
+
+    // Nearest station service — factors, material traders, tech brokers, large pads, carrier vendors
+    const serviceMatch = lower.match(
+      /\b(?:nearest|closest)\b.*?\b((?:interstellar\s+)?factors|(?:(?:raw|manufactured|encoded|data)\s+)?(?:materials?\s+)?trader|(?:(?:human|guardian)\s+)?(?:tech(?:nology)?\s+)?broker|large\s+(?:landing\s+)?pad|(?:fleet\s+)?carrier\s+vendor)\b/,
+    );
+    if (serviceMatch) {
+      entities['service'] = serviceMatch[1];
+      return { intent: 'find_nearest_service', entities };
+    }
+
+    // Ships and modules for sale — "seen", or "buy a/an ..." (commodities take no article)
+    const forSalePatterns = [
+      /(?:where|nearest)\b.*?\b(?:have|did)\s+i\s+seen?\s+(?:an?\s+)?(.+?)(?:\s+for\s+sale)?(?:\s+near(?:by|est)?(?:\s+(?:to\s+)?me)?)?(?:\s*\?|$)/,
+      /(?:where|nearest)\b.*?\b(?:buy|find|get)\s+an?\s+(.+?)(?:\s+for\s+sale)?(?:\s+near(?:by|est)?(?:\s+(?:to\s+)?me)?)?(?:\s*\?|$)/,
+    ];
+    for (const pattern of forSalePatterns) {
+      const match = lower.match(pattern);
+      if (match) {
+        entities['item'] = match[1].trim();
+        return { intent: 'find_for_sale', entities };
+      }
+    }
+
     // Commodity price queries (from user input)
     const sellPatterns = [
       /(?:where|best|highest|top)\s+(?:can i|to|price|prices?)\s+(?:sell|offload|unload)\s+(.+?)(?:\s*\?|$)/,
@@ -0,0 +1,84 @@
+-- ---------------------------------------------------------------------------
+-- 001-galaxy.sql — Offline galaxy database
+--
+-- Systems, stations and bodies imported from the public EDSM nightly dumps,
+-- so lookups work without asking EDSM. Systems carry a grid cell
+-- (coordinates / 50 ly, floored) next to their coordinates; the index on
+-- the cell is the spatial index that "systems within N ly" walks. Like
+-- market data, the galaxy database is not per commander.
+--
+-- The route plotter needs each system's arrival star: fuel is scooped from
+-- KGBFOAM stars, and neutron stars and white dwarfs supercharge the FSD.
+-- EDSM only has it in the bodies dumps, as the star at 0 ls, so its sub
+-- type is copied onto the system when either the system or the star is
+-- imported.
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS galaxy_systems (
+  id64        INTEGER PRIMARY KEY,
+  edsm_id     INTEGER,
+  name        TEXT    NOT NULL COLLATE NOCASE,
+  x           REAL    NOT NULL,
+  y           REAL    NOT NULL,
+  z           REAL    NOT NULL,
+  cell_x      INTEGER NOT NULL,
+  cell_y      INTEGER NOT NULL,
+  cell_z      INTEGER NOT NULL,
+  allegiance  TEXT,               -- populated systems only
+  government  TEXT,
+  economy     TEXT,
+  security    TEXT,
+  population  INTEGER,
+  updated_at  TEXT,
+  primary_star_type TEXT          -- EDSM sub type, e.g. "K (Yellow-Orange) Star"
+);
+
+CREATE INDEX IF NOT EXISTS idx_galaxy_systems_cell ON galaxy_systems(cell_x, cell_y, cell_z);
+CREATE INDEX IF NOT EXISTS idx_galaxy_systems_name ON galaxy_systems(name);
+
+CREATE TABLE IF NOT EXISTS galaxy_stations (
+  id                   INTEGER PRIMARY KEY,   -- EDSM station ID
+  market_id            INTEGER,
+  name                 TEXT    NOT NULL COLLATE NOCASE,
+  type                 TEXT,
+  system_id64          INTEGER NOT NULL,
+  system_name          TEXT    NOT NULL,
+  distance_to_arrival  REAL,
+  allegiance           TEXT,
+  government           TEXT,
+  economy              TEXT,
+  has_market           INTEGER NOT NULL DEFAULT 0,
+  has_shipyard         INTEGER NOT NULL DEFAULT 0,
+  has_outfitting       INTEGER NOT NULL DEFAULT 0,
+  services             TEXT    NOT NULL DEFAULT '[]',   -- JSON array of service names
+  updated_at           TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_galaxy_stations_system ON galaxy_stations(system_id64);
+CREATE INDEX IF NOT EXISTS idx_galaxy_stations_name ON galaxy_stations(name);
+
+CREATE TABLE IF NOT EXISTS galaxy_bodies (
+  id                   INTEGER PRIMARY KEY,   -- EDSM body ID
+  body_id              INTEGER,
+  name                 TEXT    NOT NULL,
+  type                 TEXT    NOT NULL,
+  sub_type             TEXT,
+  system_id64          INTEGER NOT NULL,
+  distance_to_arrival  REAL,
+  landable             INTEGER NOT NULL DEFAULT 0,
+  terraform_state      TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_galaxy_bodies_system ON galaxy_bodies(system_id64);
+
+-- One row per dump file: how many lines have been imported, so an
+-- interrupted import resumes where it stopped.
+CREATE TABLE IF NOT EXISTS galaxy_imports (
+  source      TEXT    PRIMARY KEY,   -- absolute path of the dump file
+  kind        TEXT    NOT NULL,      -- 'systems' | 'stations' | 'bodies'
+  size        INTEGER NOT NULL,      -- file size when the import started
+  lines       INTEGER NOT NULL DEFAULT 0,
+  records     INTEGER NOT NULL DEFAULT 0,
+  complete    INTEGER NOT NULL DEFAULT 0,
+  updated_at  TEXT    NOT NULL
+);
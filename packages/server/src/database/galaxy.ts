@@ -0,0 +1,133 @@
+/**
+ * @vayu/server — Galaxy Database Module
+ *
+ * The galaxy data imported from the EDSM dumps lives in its own on-disk
+ * SQLite database (better-sqlite3), apart from the in-memory sql.js
+ * database: a dump of every system runs to tens of gigabytes, which neither
+ * fits in the wasm heap nor can be exported whole on every auto-save.
+ *
+ * Writes go straight to the file (WAL journal), so there is nothing to save;
+ * the importer commits one transaction per batch. Migrations live in
+ * `galaxy-migrations/` and are tracked like the main database's.
+ *
+ * Usage:
+ *   import { initGalaxyDatabase, getGalaxyDb } from './database/galaxy.js';
+ *   initGalaxyDatabase('./data/galaxy.db');
+ *   getGalaxyDb().prepare('SELECT COUNT(*) FROM galaxy_systems').pluck().get();
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// ---------------------------------------------------------------------------
+// Module state
+// ---------------------------------------------------------------------------
+
+let db: Database.Database | null = null;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Open (or create) the galaxy database and run its pending migrations.
+ *
+ * @param dbPath Absolute or relative path to the `.db` file.
+ * @returns The better-sqlite3 Database instance.
+ */
+export function initGalaxyDatabase(dbPath: string): Database.Database {
+  const dir = path.dirname(path.resolve(dbPath));
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = NORMAL');
+  console.log(`Galaxy database opened at ${dbPath}`);
+
+  runMigrations(db);
+  return db;
+}
+
+/**
+ * Get the galaxy database instance.
+ * Throws if `initGalaxyDatabase` has not been called.
+ */
+export function getGalaxyDb(): Database.Database {
+  if (!db) {
+    throw new Error(
+      'Galaxy database not initialised. Call initGalaxyDatabase() before getGalaxyDb().',
+    );
+  }
+  return db;
+}
+
+/** Whether the galaxy database is open. */
+export function isGalaxyDatabaseReady(): boolean {
+  return db !== null;
+}
+
+/**
+ * Close the galaxy database.
+ * Call during graceful shutdown.
+ */
+export function closeGalaxyDatabase(): void {
+  if (db) {
+    db.close();
+    db = null;
+    console.log('Galaxy database closed');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+/**
+ * Run the SQL files in `galaxy-migrations/` that have not been applied yet,
+ * in alphabetical order, each in its own transaction.
+ */
+function runMigrations(database: Database.Database): void {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS _migrations (
+      id        INTEGER PRIMARY KEY AUTOINCREMENT,
+      filename  TEXT    NOT NULL UNIQUE,
+      applied   TEXT    NOT NULL
+    )
+  `);
+
+  const thisDir = path.dirname(fileURLToPath(import.meta.url));
+  const migrationsDir = path.join(thisDir, 'galaxy-migrations');
+
+  if (!fs.existsSync(migrationsDir)) {
+    console.warn(`Galaxy migrations directory not found: ${migrationsDir}`);
+    return;
+  }
+
+  const applied = new Set(database.prepare('SELECT filename FROM _migrations').pluck().all() as string[]);
+  const record = database.prepare('INSERT INTO _migrations (filename, applied) VALUES (?, ?)');
+
+  const files = fs
+    .readdirSync(migrationsDir)
+    .filter((f) => f.endsWith('.sql'))
+    .sort();
+
+  for (const file of files) {
+    if (applied.has(file)) continue;
+
+    const sql = fs.readFileSync(path.join(migrationsDir, file), 'utf-8');
+    console.log(`Running galaxy migration: ${file}`);
+    try {
+      database.transaction(() => {
+        database.exec(sql);
+        record.run(file, new Date().toISOString());
+      })();
+    } catch (err) {
+      console.error(`Galaxy migration failed: ${file}`, err);
+      throw err;
+    }
+  }
+}
@@ -20,6 +20,8 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
+import { metrics } from '../core/metrics.js';
+
 // ---------------------------------------------------------------------------
 // Module state
 // ---------------------------------------------------------------------------
@@ -27,6 +29,13 @@ import { fileURLToPath } from 'node:url';
 let db: Database | null = null;
 let autoSaveInterval: ReturnType<typeof setInterval> | null = null;
 
+const saveDuration = metrics.histogram(
+  'vayu_db_save_duration_seconds',
+  'Time to export the in-memory database and write it to disk.',
+);
+const saveFailures = metrics.counter('vayu_db_save_failures_total', 'Database saves that failed.');
+let lastSave: { at: string; durationMs: number; sizeBytes: number } | null = null;
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -92,6 +101,14 @@ export function getDb(): Database {
   return db;
 }
 
+/**
+ * Whether `initDatabase` has completed and the database is available.
+ * Lets event-driven subsystems skip persistence instead of throwing.
+ */
+export function isDatabaseReady(): boolean {
+  return db !== null;
+}
+
 /**
  * Write the in-memory database to disk.
  * Safe to call frequently — it is a no-op if there is no active database.
@@ -99,6 +116,7 @@ export function getDb(): Database {
 export function saveDatabase(dbPath: string): void {
   if (!db) return;
 
+  const start = performance.now();
   try {
     const data = db.export();
     const buffer = Buffer.from(data);
@@ -110,11 +128,24 @@ export function saveDatabase(dbPath: string): void {
     }
 
     fs.writeFileSync(dbPath, buffer);
+
+    const durationMs = performance.now() - start;
+    saveDuration.observe({}, durationMs / 1000);
+    lastSave = { at: new Date().toISOString(), durationMs, sizeBytes: buffer.length };
   } catch (err) {
+    saveFailures.inc();
     console.error('Failed to save database:', err);
   }
 }
 
+/**
+ * The most recent successful save (time, duration, file size), or null if
+ * the database has not been saved yet.
+ */
+export function getLastSave(): { at: string; durationMs: number; sizeBytes: number } | null {
+  return lastSave ? { ...lastSave } : null;
+}
+
 /**
  * Close the database and stop auto-save.
  * Call during graceful shutdown.
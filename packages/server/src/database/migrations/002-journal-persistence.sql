@@ -0,0 +1,12 @@
+-- ---------------------------------------------------------------------------
+-- 002-journal-persistence.sql — Journal event persistence
+--
+-- Adds a content hash to journal_events so the same event re-read from a
+-- journal file (e.g. the current journal on every server restart) is only
+-- stored once, and indexes sessions by their LoadGame start time.
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE journal_events ADD COLUMN hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_events_hash ON journal_events(hash);
+CREATE INDEX IF NOT EXISTS idx_sessions_start_time        ON sessions(start_time);
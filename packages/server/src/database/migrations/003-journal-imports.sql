@@ -0,0 +1,13 @@
+-- ---------------------------------------------------------------------------
+-- 003-journal-imports.sql — Historical journal import markers
+--
+-- Records each journal file the importer has ingested along with its size,
+-- so re-running an import only reads files that are new or have grown.
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS journal_imports (
+  filename    TEXT PRIMARY KEY,
+  size        INTEGER NOT NULL,
+  imported_at TEXT NOT NULL,
+  events      INTEGER NOT NULL DEFAULT 0
+);
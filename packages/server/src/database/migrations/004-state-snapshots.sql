@@ -0,0 +1,14 @@
+-- ---------------------------------------------------------------------------
+-- 004-state-snapshots.sql — Persisted game state for warm starts
+--
+-- One row per snapshot contributor (the GameStateManager and services that
+-- own state not held in GameState). Each row carries the contributor's
+-- schema version so older snapshots can be migrated on restore.
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS state_snapshots (
+  key       TEXT    PRIMARY KEY,
+  version   INTEGER NOT NULL,
+  data      TEXT    NOT NULL,
+  saved_at  TEXT    NOT NULL
+);
@@ -0,0 +1,57 @@
+-- ---------------------------------------------------------------------------
+-- 005-commander-profiles.sql — Per-commander data
+--
+-- Several commanders can share one install. Records every commander seen
+-- (keyed by the Frontier ID from Commander/LoadGame), tags journal events
+-- and sessions with their commander's FID, and scopes state snapshots by
+-- FID so each commander warm-starts with their own state.
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS commanders (
+  fid         TEXT    PRIMARY KEY,
+  name        TEXT    NOT NULL,
+  first_seen  TEXT    NOT NULL,
+  last_seen   TEXT    NOT NULL
+);
+
+ALTER TABLE sessions       ADD COLUMN fid TEXT;
+ALTER TABLE journal_events ADD COLUMN fid TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_fid       ON sessions(fid, start_time);
+CREATE INDEX IF NOT EXISTS idx_journal_events_fid ON journal_events(fid, event);
+
+-- Backfill from already-stored LoadGame events.
+UPDATE sessions SET fid = (
+  SELECT json_extract(e.data, '$.FID') FROM journal_events e
+  WHERE e.session_id = sessions.id AND e.event = 'LoadGame'
+  LIMIT 1
+);
+
+UPDATE journal_events SET fid = (
+  SELECT s.fid FROM sessions s WHERE s.id = journal_events.session_id
+);
+
+INSERT OR IGNORE INTO commanders (fid, name, first_seen, last_seen)
+SELECT fid, COALESCE(MAX(commander), ''), MIN(start_time), MAX(start_time)
+FROM sessions
+WHERE fid IS NOT NULL
+GROUP BY fid;
+
+-- Snapshots become per-commander; existing ones belong to the most recent
+-- commander (or '' if none is known yet).
+CREATE TABLE state_snapshots_new (
+  fid       TEXT    NOT NULL DEFAULT '',
+  key       TEXT    NOT NULL,
+  version   INTEGER NOT NULL,
+  data      TEXT    NOT NULL,
+  saved_at  TEXT    NOT NULL,
+  PRIMARY KEY (fid, key)
+);
+
+INSERT INTO state_snapshots_new (fid, key, version, data, saved_at)
+SELECT COALESCE((SELECT fid FROM commanders ORDER BY last_seen DESC LIMIT 1), ''),
+       key, version, data, saved_at
+FROM state_snapshots;
+
+DROP TABLE state_snapshots;
+ALTER TABLE state_snapshots_new RENAME TO state_snapshots;
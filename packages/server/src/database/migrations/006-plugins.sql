@@ -0,0 +1,12 @@
+-- ---------------------------------------------------------------------------
+-- 006-plugins.sql — Feature plugin state
+--
+-- Remembers which plugins were enabled or disabled at runtime, so the
+-- choice survives a restart and overrides the manifest's default.
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS plugin_state (
+  id          TEXT    PRIMARY KEY,
+  enabled     INTEGER NOT NULL,
+  updated_at  TEXT    NOT NULL
+);
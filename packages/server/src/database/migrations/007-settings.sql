@@ -0,0 +1,13 @@
+-- ---------------------------------------------------------------------------
+-- 007-settings.sql — Runtime settings
+--
+-- Overrides of `.env` configuration made at runtime (paths, API keys,
+-- Whisper, backups, feature toggles). Values are JSON-encoded; a missing
+-- row means the `.env`/default value applies.
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS settings (
+  key         TEXT    PRIMARY KEY,
+  value       TEXT    NOT NULL,
+  updated_at  TEXT    NOT NULL
+);
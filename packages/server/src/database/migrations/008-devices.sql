@@ -0,0 +1,16 @@
+-- ---------------------------------------------------------------------------
+-- 008-devices.sql — Paired devices
+--
+-- LAN second screens allowed to use the API. Only a SHA-256 hash of each
+-- device's token is stored; revoking a device deletes its row.
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS devices (
+  id            TEXT    PRIMARY KEY,
+  name          TEXT    NOT NULL,
+  token_hash    TEXT    NOT NULL UNIQUE,
+  scopes        TEXT    NOT NULL,   -- JSON array of DeviceScope
+  paired_at     TEXT    NOT NULL,
+  last_seen_at  TEXT,
+  last_address  TEXT
+);
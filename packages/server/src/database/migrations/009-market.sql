@@ -0,0 +1,40 @@
+-- ---------------------------------------------------------------------------
+-- 009-market.sql — Market snapshots and price history
+--
+-- Every Market.json the game writes (each time a commodity market is
+-- opened) is kept as a snapshot with one row per listed commodity, making
+-- a local price database built from the commander's own visits. Market
+-- data is not per commander.
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS market_snapshots (
+  id            INTEGER PRIMARY KEY AUTOINCREMENT,
+  market_id     INTEGER NOT NULL,
+  station_name  TEXT    NOT NULL,
+  station_type  TEXT    NOT NULL,
+  star_system   TEXT    NOT NULL,
+  timestamp     TEXT    NOT NULL,
+  UNIQUE (market_id, timestamp)
+);
+
+CREATE TABLE IF NOT EXISTS market_prices (
+  snapshot_id     INTEGER NOT NULL REFERENCES market_snapshots(id) ON DELETE CASCADE,
+  commodity_id    INTEGER NOT NULL,
+  commodity       TEXT    NOT NULL,   -- internal name, lower case (e.g. "gold")
+  name_localised  TEXT,
+  category        TEXT    NOT NULL,
+  buy_price       INTEGER NOT NULL,
+  sell_price      INTEGER NOT NULL,
+  mean_price      INTEGER NOT NULL,
+  stock           INTEGER NOT NULL,
+  stock_bracket   INTEGER NOT NULL,
+  demand          INTEGER NOT NULL,
+  demand_bracket  INTEGER NOT NULL,
+  consumer        INTEGER NOT NULL,
+  producer        INTEGER NOT NULL,
+  rare            INTEGER NOT NULL,
+  PRIMARY KEY (snapshot_id, commodity)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_snapshots_market ON market_snapshots(market_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_market_prices_commodity ON market_prices(commodity, snapshot_id);
@@ -0,0 +1,31 @@
+-- ---------------------------------------------------------------------------
+-- 010-station-catalogue.sql — Ships and modules for sale at stations
+--
+-- Shipyard.json and Outfitting.json list what a station sells each time
+-- the commander opens its shipyard or outfitting. Only the latest listing
+-- per station is kept; it replaces the previous one. Like market data,
+-- the catalogue is not per commander.
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS catalogue_stations (
+  market_id           INTEGER PRIMARY KEY,
+  station_name        TEXT    NOT NULL,
+  star_system         TEXT    NOT NULL,
+  x                   REAL,               -- system coordinates, when known
+  y                   REAL,
+  z                   REAL,
+  shipyard_updated    TEXT,
+  outfitting_updated  TEXT
+);
+
+CREATE TABLE IF NOT EXISTS catalogue_items (
+  market_id  INTEGER NOT NULL REFERENCES catalogue_stations(market_id) ON DELETE CASCADE,
+  kind       TEXT    NOT NULL,   -- 'ship' | 'module'
+  item       TEXT    NOT NULL,   -- internal name, lower case
+  name       TEXT    NOT NULL,   -- display name
+  price      INTEGER NOT NULL,
+  PRIMARY KEY (market_id, kind, item)
+);
+
+CREATE INDEX IF NOT EXISTS idx_catalogue_items_item ON catalogue_items(kind, item);
+CREATE INDEX IF NOT EXISTS idx_catalogue_stations_system ON catalogue_stations(star_system);
@@ -0,0 +1,39 @@
+/**
+ * @vayu/server — Query Result Helpers
+ *
+ * Small helpers shared by the stores that query the database: reading rows
+ * out of a sql.js `exec()` result and clamping paging parameters.
+ *
+ * Usage:
+ *   import { clampInt, mapRows, scalar } from '../database/rows.js';
+ *   const total = scalar(getDb().exec('SELECT COUNT(*) FROM journal_events')) as number;
+ */
+
+import type { getDb } from './index.js';
+
+/** The result of `Database.exec()`: one entry per statement. */
+export type ExecResult = ReturnType<ReturnType<typeof getDb>['exec']>;
+
+/** A result row as an array of column values. */
+export type Row = ExecResult[number]['values'][number];
+
+/**
+ * Parse `value` as an integer and clamp it to `[min, max]`, or return
+ * `fallback` when it is not a number.
+ */
+export function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const n = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, Math.floor(n)));
+}
+
+/** Map the rows of the first statement's result, or `[]` when it returned none. */
+export function mapRows<T>(result: ExecResult, fn: (row: Row) => T): T[] {
+  if (result.length === 0) return [];
+  return result[0].values.map(fn);
+}
+
+/** The first column of the first row, or null. */
+export function scalar(result: ExecResult): unknown {
+  return result[0]?.values[0]?.[0] ?? null;
+}
@@ -1,30 +1,56 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type AlertRuleUpdateRequest, type LimitOffsetQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { alertsService } from './alerts.service.js';
 
 export const alertsRouter = Router();
 
-alertsRouter.get('/', (_req: Request, res: Response) => {
+alertsRouter.get('/', apiRoute({
+  summary: 'Alert rules and the ten most recent alerts',
+  response: {
+    type: 'object',
+    properties: {
+      rules: { type: 'array', items: API_SCHEMAS.AlertRule },
+      recent: { type: 'array', items: API_SCHEMAS.AlertEvent },
+    },
+  },
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: { rules: alertsService.getRules(), recent: alertsService.getAlertHistory(10) } });
 });
 
-alertsRouter.get('/rules', (_req: Request, res: Response) => {
+alertsRouter.get('/rules', apiRoute({
+  summary: 'List alert rules',
+  response: { type: 'array', items: API_SCHEMAS.AlertRule },
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: alertsService.getRules() });
 });
 
-alertsRouter.put('/rules/:id', (req: Request, res: Response) => {
-  if (alertsService.updateRule(req.params.id, req.body)) {
+alertsRouter.put('/rules/:id', apiRoute({
+  summary: 'Update an alert rule',
+  body: API_SCHEMAS.AlertRuleUpdateRequest,
+  response: { type: 'array', items: API_SCHEMAS.AlertRule },
+  errors: { 404: 'Rule not found' },
+}), (req: Request, res: Response) => {
+  if (alertsService.updateRule(req.params.id, req.body as AlertRuleUpdateRequest)) {
     res.json({ success: true, data: alertsService.getRules() });
   } else {
     res.status(404).json({ success: false, error: 'Rule not found' });
   }
 });
 
-alertsRouter.get('/history', (req: Request, res: Response) => {
-  const limit = parseInt(req.query.limit as string) || 50;
+alertsRouter.get('/history', apiRoute({
+  summary: 'Fired alerts, newest first',
+  query: API_SCHEMAS.LimitOffsetQuery,
+  response: { type: 'array', items: API_SCHEMAS.AlertEvent },
+}), (req: Request, res: Response) => {
+  const { limit = 50 } = req.query as LimitOffsetQuery;
   res.json({ success: true, data: alertsService.getAlertHistory(limit) });
 });
 
-alertsRouter.post('/acknowledge/:id', (req: Request, res: Response) => {
+alertsRouter.post('/acknowledge/:id', apiRoute({
+  summary: 'Acknowledge an alert',
+  errors: { 404: 'Alert not found' },
+}), (req: Request, res: Response) => {
   if (alertsService.acknowledgeAlert(req.params.id)) {
     res.json({ success: true });
   } else {
@@ -32,7 +58,7 @@ alertsRouter.post('/acknowledge/:id', (req: Request, res: Response) => {
   }
 });
 
-alertsRouter.post('/clear', (_req: Request, res: Response) => {
+alertsRouter.post('/clear', apiRoute({ summary: 'Clear the alert history' }), (_req: Request, res: Response) => {
   alertsService.clearHistory();
   res.json({ success: true });
 });
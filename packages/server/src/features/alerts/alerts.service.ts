@@ -5,27 +5,10 @@
 
 import { eventBus } from '../../core/event-bus.js';
 import { gameStateManager } from '../../core/game-state.js';
+import { stateSnapshot } from '../../core/state-snapshot.js';
 import { wsManager } from '../../websocket.js';
-
-interface AlertRule {
-  id: string;
-  name: string;
-  enabled: boolean;
-  condition: string; // 'low_fuel' | 'low_hull' | 'mission_expiring' | 'interdiction' | 'heat_warning' | 'under_attack' | 'shield_down' | 'custom'
-  threshold?: number;
-  sound?: string;
-  tts?: boolean;
-}
-
-interface AlertEvent {
-  id: string;
-  ruleId: string;
-  ruleName: string;
-  message: string;
-  severity: 'info' | 'warning' | 'critical';
-  timestamp: string;
-  acknowledged: boolean;
-}
+import { explorationService } from '../exploration/exploration.service.js';
+import type { AlertEvent, AlertRule, AlertRuleUpdateRequest } from '@vayu/shared';
 
 const DEFAULT_RULES: AlertRule[] = [
   { id: 'low_fuel', name: 'Low Fuel', enabled: true, condition: 'low_fuel', threshold: 25, tts: true },
@@ -35,29 +18,53 @@ const DEFAULT_RULES: AlertRule[] = [
   { id: 'heat_warning', name: 'Heat Warning', enabled: true, condition: 'heat_warning', tts: false },
   { id: 'under_attack', name: 'Under Attack', enabled: true, condition: 'under_attack', tts: true },
   { id: 'shield_down', name: 'Shield Down', enabled: true, condition: 'shield_down', tts: true },
+  { id: 'exploration_at_risk', name: 'Unsold Exploration Data at Risk', enabled: true, condition: 'exploration_at_risk', tts: true },
+  { id: 'high_value_scan', name: 'High-Value World Scanned', enabled: true, condition: 'high_value_scan', threshold: 500000, tts: true },
 ];
 
+/** Minimum time between two "exploration data at risk" alerts. */
+const EXPLORATION_ALERT_COOLDOWN_MS = 5 * 60 * 1000;
+
 class AlertsService {
   private rules: AlertRule[] = [...DEFAULT_RULES];
   private alertHistory: AlertEvent[] = [];
   private alertCounter = 0;
+  private explorationAlertAt = 0;
+  /** Bodies already called out, by `systemAddress:bodyId`. */
+  private announcedBodies = new Set<string>();
 
   constructor() {
+    // Rules are shared by every commander; the history is per commander.
+    // The counter only goes up, so new ids never repeat restored ones.
+    stateSnapshot.register<AlertEvent[]>('alerts.history', {
+      version: 1,
+      save: () => this.alertHistory,
+      restore: (history) => {
+        this.alertHistory = history;
+        for (const alert of history) {
+          const n = Number(/^alert-(\d+)$/.exec(alert.id)?.[1] ?? 0);
+          if (n > this.alertCounter) this.alertCounter = n;
+        }
+      },
+      reset: () => { this.alertHistory = []; },
+    });
+
     eventBus.onJournalEvent('HullDamage', (evt) => {
       const rule = this.rules.find((r) => r.id === 'low_hull' && r.enabled);
       if (!rule) return;
-      const health = (evt as any).Health ?? 1;
+      const health = evt.Health ?? 1;
       if (health * 100 < (rule.threshold ?? 50)) {
         this.fireAlert(rule, `Hull integrity critical: ${(health * 100).toFixed(0)}%`, 'critical');
       }
     });
 
-    eventBus.onJournalEvent('InterdictedEvent' as any, () => {
+    eventBus.onJournalEvent('Interdicted', () => {
       const rule = this.rules.find((r) => r.id === 'interdiction' && r.enabled);
       if (rule) this.fireAlert(rule, 'Interdiction detected!', 'critical');
+      this.checkExplorationAtRisk();
     });
 
-    eventBus.onJournalEvent('HeatWarning' as any, () => {
+    eventBus.onJournalEvent('HeatWarning', () => {
       const rule = this.rules.find((r) => r.id === 'heat_warning' && r.enabled);
       if (rule) this.fireAlert(rule, 'Heat warning — temperature rising!', 'warning');
     });
@@ -67,17 +74,45 @@ class AlertsService {
       if (rule) this.fireAlert(rule, 'Under attack!', 'critical');
     });
 
-    eventBus.onJournalEvent('ShieldState' as any, (evt) => {
-      const raw = evt as any;
-      if (raw.ShieldsUp === false) {
+    eventBus.onJournalEvent('ShieldState', (evt) => {
+      if (evt.ShieldsUp === false) {
         const rule = this.rules.find((r) => r.id === 'shield_down' && r.enabled);
         if (rule) this.fireAlert(rule, 'Shields offline!', 'critical');
       }
     });
 
-    // Periodic fuel check
+    // Periodic fuel check, and as soon as the game flags fuel below 25%
     eventBus.onJournalEvent('FuelScoop', () => this.checkFuelAlert());
     eventBus.onJournalEvent('FSDJump', () => this.checkFuelAlert());
+    eventBus.onStatusEdge('lowFuel', (edge) => { if (edge.active) this.checkFuelAlert(); });
+
+    // Called out once per body; the exploration service has recorded and valued the scan by now
+    eventBus.onJournalEvent('Scan', (evt) => this.checkHighValueScan(evt.SystemAddress, evt.BodyID));
+
+    // Dying loses every unsold scan, so warn when entering danger while carrying some
+    eventBus.onStatusEdge('isInDanger', (edge) => { if (edge.active) this.checkExplorationAtRisk(); });
+  }
+
+  private checkHighValueScan(systemAddress: number, bodyId: number): void {
+    const rule = this.rules.find((r) => r.id === 'high_value_scan' && r.enabled);
+    const key = `${systemAddress}:${bodyId}`;
+    if (!rule || this.announcedBodies.has(key)) return;
+    const body = explorationService.getSystem(systemAddress)?.bodies.find((b) => b.bodyId === bodyId);
+    if (!body || body.dssValue === null || body.dssValue < (rule.threshold ?? 500000)) return;
+    this.announcedBodies.add(key);
+    const kind = [body.terraformState, body.planetClass].filter(Boolean).join(' ');
+    const value = `${(body.dssValue / 1_000_000).toFixed(1)} million credits`;
+    this.fireAlert(rule, `High-value world: ${body.name}, ${kind}, worth about ${value} mapped${body.firstDiscovered ? ', first discovery' : ''}`, 'info');
+  }
+
+  private checkExplorationAtRisk(): void {
+    const rule = this.rules.find((r) => r.id === 'exploration_at_risk' && r.enabled);
+    if (!rule) return;
+    const unsold = explorationService.getUnsold();
+    if (unsold.bodies === 0 || Date.now() - this.explorationAlertAt < EXPLORATION_ALERT_COOLDOWN_MS) return;
+    this.explorationAlertAt = Date.now();
+    const systems = unsold.systems === 1 ? '1 system' : `${unsold.systems} systems`;
+    this.fireAlert(rule, `Unsold exploration data at risk: ${unsold.bodies} bodies in ${systems}`, 'warning');
   }
 
   private checkFuelAlert(): void {
@@ -109,7 +144,7 @@ class AlertsService {
 
   getRules(): AlertRule[] { return this.rules; }
 
-  updateRule(id: string, updates: Partial<AlertRule>): boolean {
+  updateRule(id: string, updates: AlertRuleUpdateRequest): boolean {
     const rule = this.rules.find((r) => r.id === id);
     if (!rule) return false;
     Object.assign(rule, updates);
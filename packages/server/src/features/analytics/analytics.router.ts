@@ -1,16 +1,21 @@
 import { Router, type Request, type Response } from 'express';
+import { apiRoute } from '../../core/api-route.js';
 import { analyticsService } from './analytics.service.js';
 
 export const analyticsRouter = Router();
 
-analyticsRouter.get('/', (_req: Request, res: Response) => {
+analyticsRouter.get('/', apiRoute({ summary: 'Session analytics summary' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: analyticsService.getSessionSummary() });
 });
 
-analyticsRouter.get('/session', (_req: Request, res: Response) => {
+analyticsRouter.get('/session', apiRoute({
+  summary: 'Analytics of the current session',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: analyticsService.getCurrentSession() });
 });
 
-analyticsRouter.get('/snapshots', (_req: Request, res: Response) => {
+analyticsRouter.get('/snapshots', apiRoute({
+  summary: 'Periodic snapshots of credits, assets and progress',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: analyticsService.getSnapshots() });
 });
@@ -5,6 +5,7 @@
 
 import { gameStateManager } from '../../core/game-state.js';
 import { eventBus } from '../../core/event-bus.js';
+import { stateSnapshot } from '../../core/state-snapshot.js';
 
 interface SessionSnapshot {
   timestamp: string;
@@ -27,6 +28,13 @@ class AnalyticsService {
   private snapshotInterval: ReturnType<typeof setInterval> | null = null;
 
   constructor() {
+    stateSnapshot.register<SessionSnapshot[]>('analytics.snapshots', {
+      version: 1,
+      save: () => this.snapshots,
+      restore: (snapshots) => { this.snapshots = snapshots; },
+      reset: () => { this.snapshots = []; },
+    });
+
     // Take a snapshot every 5 minutes
     this.snapshotInterval = setInterval(() => this.takeSnapshot(), 5 * 60 * 1000);
 
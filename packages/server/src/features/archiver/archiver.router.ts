@@ -1,13 +1,16 @@
 import { Router, type Request, type Response } from 'express';
+import { apiRoute } from '../../core/api-route.js';
 import { archiverService } from './archiver.service.js';
 
 export const archiverRouter = Router();
 
-archiverRouter.get('/', (_req: Request, res: Response) => {
+archiverRouter.get('/', apiRoute({ summary: 'Journal backup status' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: archiverService.getStatus() });
 });
 
-archiverRouter.get('/scan', async (_req: Request, res: Response) => {
+archiverRouter.get('/scan', apiRoute({
+  summary: 'Scan the journal directory for files to back up',
+}), async (_req: Request, res: Response) => {
   try {
     const result = await archiverService.scanJournals();
     res.json({ success: true, data: result });
@@ -16,7 +19,9 @@ archiverRouter.get('/scan', async (_req: Request, res: Response) => {
   }
 });
 
-archiverRouter.post('/backup', async (_req: Request, res: Response) => {
+archiverRouter.post('/backup', apiRoute({
+  summary: 'Back up new and changed journal files now',
+}), async (_req: Request, res: Response) => {
   try {
     const result = await archiverService.runBackup();
     res.json({ success: true, data: result });
@@ -25,6 +30,6 @@ archiverRouter.post('/backup', async (_req: Request, res: Response) => {
   }
 });
 
-archiverRouter.get('/history', (_req: Request, res: Response) => {
+archiverRouter.get('/history', apiRoute({ summary: 'Past backup runs' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: archiverService.getBackupHistory() });
 });
@@ -1,18 +1,23 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type AudioProfileRequest, type ProfileApplyRequest } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { audioService } from './audio.service.js';
 
 export const audioRouter = Router();
 
-audioRouter.get('/', (_req: Request, res: Response) => {
+audioRouter.get('/', apiRoute({ summary: 'Audio profiles and the active one' }), (_req: Request, res: Response) => {
   res.json({
     success: true,
     data: { profiles: audioService.getProfiles(), activeProfile: audioService.getActiveProfile() },
   });
 });
 
-audioRouter.post('/apply', (req: Request, res: Response) => {
-  const { profileName } = req.body;
-  if (!profileName) { res.status(400).json({ success: false, error: 'Missing profileName' }); return; }
+audioRouter.post('/apply', apiRoute({
+  summary: 'Make an audio profile active',
+  body: API_SCHEMAS.ProfileApplyRequest,
+  errors: { 404: 'Profile not found' },
+}), (req: Request, res: Response) => {
+  const { profileName } = req.body as ProfileApplyRequest;
   if (audioService.setActiveProfile(profileName)) {
     res.json({ success: true, data: { applied: profileName } });
   } else {
@@ -20,14 +25,19 @@ audioRouter.post('/apply', (req: Request, res: Response) => {
   }
 });
 
-audioRouter.post('/profiles', (req: Request, res: Response) => {
-  const { name, description, masterVolume, gameVolume, voiceVolume, musicVolume, ttsVolume } = req.body;
-  if (!name) { res.status(400).json({ success: false, error: 'Missing name' }); return; }
-  audioService.addProfile({ name, description: description || '', masterVolume: masterVolume ?? 80, gameVolume: gameVolume ?? 70, voiceVolume: voiceVolume ?? 90, musicVolume: musicVolume ?? 50, ttsVolume: ttsVolume ?? 85 });
+audioRouter.post('/profiles', apiRoute({
+  summary: 'Create or replace an audio profile',
+  body: API_SCHEMAS.AudioProfileRequest,
+}), (req: Request, res: Response) => {
+  // Defaults for the optional fields come from the schema
+  audioService.addProfile(req.body as Required<AudioProfileRequest>);
   res.json({ success: true, data: { profiles: audioService.getProfiles() } });
 });
 
-audioRouter.delete('/profiles/:name', (req: Request, res: Response) => {
+audioRouter.delete('/profiles/:name', apiRoute({
+  summary: 'Delete a custom audio profile',
+  errors: { 400: 'Unknown profile, or the Default profile' },
+}), (req: Request, res: Response) => {
   if (audioService.deleteProfile(req.params.name)) {
     res.json({ success: true });
   } else {
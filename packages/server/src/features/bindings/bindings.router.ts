@@ -12,14 +12,30 @@
  *   - PUT  /api/bindings/:action    -- Update a binding for a specific action
  *
  * All endpoints return JSON wrapped in { success, data } or { success, error }.
+ * Update bodies are checked against `BindingUpdateRequest` before they reach
+ * the handler.
  */
 
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type BindingUpdateRequest, type JsonSchema } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { bindingsService } from './bindings.service.js';
 import { wsManager } from '../../websocket.js';
 
 export const bindingsRouter = Router();
 
+/** `data` of the list endpoints: the bindings matching `key` (device, category or query). */
+function bindingList(key: string): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      [key]: { type: 'string' },
+      count: { type: 'integer' },
+      bindings: { type: 'array', items: API_SCHEMAS.BindingEntry },
+    },
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Middleware: ensure bindings are loaded before every request
 // ---------------------------------------------------------------------------
@@ -43,7 +59,9 @@ bindingsRouter.use(async (_req: Request, res: Response, next) => {
 // GET /api/bindings -- Full binding set with summary
 // ---------------------------------------------------------------------------
 
-bindingsRouter.get('/', (_req: Request, res: Response) => {
+bindingsRouter.get('/', apiRoute({
+  summary: 'Every binding, with a summary per device and category',
+}), (_req: Request, res: Response) => {
   try {
     const data = bindingsService.toJSON();
     res.json({ success: true, data });
@@ -62,7 +80,10 @@ bindingsRouter.get('/', (_req: Request, res: Response) => {
 // GET /api/bindings/device/:deviceName -- Bindings for a specific device
 // ---------------------------------------------------------------------------
 
-bindingsRouter.get('/device/:deviceName', (req: Request, res: Response) => {
+bindingsRouter.get('/device/:deviceName', apiRoute({
+  summary: 'Bindings on one device',
+  response: bindingList('device'),
+}), (req: Request, res: Response) => {
   try {
     const { deviceName } = req.params;
     const entries = bindingsService.getByDevice(deviceName);
@@ -89,7 +110,10 @@ bindingsRouter.get('/device/:deviceName', (req: Request, res: Response) => {
 // GET /api/bindings/category/:category -- Bindings for a category
 // ---------------------------------------------------------------------------
 
-bindingsRouter.get('/category/:category', (req: Request, res: Response) => {
+bindingsRouter.get('/category/:category', apiRoute({
+  summary: 'Bindings in one category',
+  response: bindingList('category'),
+}), (req: Request, res: Response) => {
   try {
     const { category } = req.params;
     const entries = bindingsService.getByCategory(category);
@@ -116,7 +140,9 @@ bindingsRouter.get('/category/:category', (req: Request, res: Response) => {
 // GET /api/bindings/conflicts -- Binding conflicts
 // ---------------------------------------------------------------------------
 
-bindingsRouter.get('/conflicts', (_req: Request, res: Response) => {
+bindingsRouter.get('/conflicts', apiRoute({
+  summary: 'Inputs bound to more than one action',
+}), (_req: Request, res: Response) => {
   try {
     const conflicts = bindingsService.getConflicts();
     res.json({
@@ -141,7 +167,7 @@ bindingsRouter.get('/conflicts', (_req: Request, res: Response) => {
 // GET /api/bindings/unbound -- Unbound actions
 // ---------------------------------------------------------------------------
 
-bindingsRouter.get('/unbound', (_req: Request, res: Response) => {
+bindingsRouter.get('/unbound', apiRoute({ summary: 'Actions with no binding' }), (_req: Request, res: Response) => {
   try {
     const unbound = bindingsService.getUnbound();
     res.json({
@@ -166,9 +192,13 @@ bindingsRouter.get('/unbound', (_req: Request, res: Response) => {
 // GET /api/bindings/search?q=... -- Search bindings by action name
 // ---------------------------------------------------------------------------
 
-bindingsRouter.get('/search', (req: Request, res: Response) => {
+bindingsRouter.get('/search', apiRoute({
+  summary: 'Search bindings by action name',
+  query: { type: 'object', properties: { q: { type: 'string', default: '' } } },
+  response: bindingList('query'),
+}), (req: Request, res: Response) => {
   try {
-    const query = (req.query.q as string) || '';
+    const query = req.query.q as string;
     if (!query.trim()) {
       res.json({
         success: true,
@@ -201,7 +231,7 @@ bindingsRouter.get('/search', (req: Request, res: Response) => {
 // POST /api/bindings/reload -- Force-reload bindings from disk
 // ---------------------------------------------------------------------------
 
-bindingsRouter.post('/reload', async (_req: Request, res: Response) => {
+bindingsRouter.post('/reload', apiRoute({ summary: 'Re-read the bindings file from disk' }), async (_req: Request, res: Response) => {
   try {
     await bindingsService.reload();
     const data = bindingsService.toJSON();
@@ -221,21 +251,18 @@ bindingsRouter.post('/reload', async (_req: Request, res: Response) => {
 // PUT /api/bindings/:action -- Update a binding for a specific action
 // ---------------------------------------------------------------------------
 
-bindingsRouter.put('/:action', async (req: Request, res: Response) => {
+bindingsRouter.put('/:action', apiRoute({
+  summary: 'Bind, rebind or clear one slot of an action',
+  description: 'Writes the game\'s bindings file. Broadcasts `bindings:updated`.',
+  body: API_SCHEMAS.BindingUpdateRequest,
+  response: API_SCHEMAS.BindingEntry,
+  errors: { 500: 'Unknown action, or the bindings file could not be written' },
+}), async (req: Request, res: Response) => {
   try {
     const { action } = req.params;
-    const { slot, clear, device, key, modifiers, axis, inverted, deadzone } = req.body;
-
-    // Validate slot
-    if (!slot || !['primary', 'secondary', 'axis'].includes(slot)) {
-      res.status(400).json({
-        success: false,
-        error: 'Invalid slot. Must be "primary", "secondary", or "axis".',
-      });
-      return;
-    }
+    const { slot, clear, device, key, modifiers, axis, inverted, deadzone } = req.body as BindingUpdateRequest;
 
-    // Validate that we have either clear or device+key/axis
+    // Fields are checked by the schema; this rule spans two of them
     if (!clear && !device) {
       res.status(400).json({
         success: false,
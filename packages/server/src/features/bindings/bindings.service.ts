@@ -15,6 +15,7 @@
  */
 
 import { bindingsParser } from '../../core/bindings-parser.js';
+import { eventBus } from '../../core/event-bus.js';
 import {
   updateKeyBinding,
   updateAxisBinding,
@@ -46,6 +47,13 @@ class BindingsService {
   /** Whether the bindings file has been loaded at least once. */
   private loaded = false;
 
+  constructor() {
+    // A new bindings file path is picked up on the next ensureLoaded().
+    eventBus.onSettingsChange((changes) => {
+      if (changes.some((c) => c.key === 'paths.bindingsFile')) this.loaded = false;
+    });
+  }
+
   // -----------------------------------------------------------------------
   // Lifecycle
   // -----------------------------------------------------------------------
@@ -8,6 +8,7 @@
  */
 
 import { Router, type Request, type Response } from 'express';
+import { apiRoute } from '../../core/api-route.js';
 import { chakraService } from './chakra.service.js';
 
 export const chakraRouter = Router();
@@ -16,7 +17,9 @@ export const chakraRouter = Router();
 // GET /api/chakra/state
 // ---------------------------------------------------------------------------
 
-chakraRouter.get('/state', (_req: Request, res: Response) => {
+chakraRouter.get('/state', apiRoute({
+  summary: 'Recent events and activity context for the initial CHAKRA load',
+}), (_req: Request, res: Response) => {
   try {
     const state = chakraService.getState();
     res.json({ success: true, data: state });
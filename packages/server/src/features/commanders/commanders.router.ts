@@ -0,0 +1,52 @@
+import { Router, type Request, type Response } from 'express';
+import { apiRoute } from '../../core/api-route.js';
+import { commanderProfiles } from '../../core/commander-profiles.js';
+import { journalStore } from '../../core/journal-store.js';
+
+export const commandersRouter = Router();
+
+/** Every commander seen on this install with their stored history size. */
+commandersRouter.get('/', apiRoute({
+  summary: 'Commanders seen on this install with their stored history',
+}), (_req: Request, res: Response) => {
+  try {
+    const counts = journalStore.countByCommander();
+    const activeFid = commanderProfiles.getActiveFid();
+    const data = commanderProfiles.list().map((c) => ({
+      ...c,
+      active: c.fid === activeFid,
+      events: counts.get(c.fid)?.events ?? 0,
+      sessions: counts.get(c.fid)?.sessions ?? 0,
+    }));
+    res.json({ success: true, data });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+commandersRouter.get('/active', apiRoute({
+  summary: 'The commander currently loaded in game',
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: commanderProfiles.getActive() });
+});
+
+commandersRouter.get('/:fid', apiRoute({
+  summary: 'A commander with their journal totals and recent sessions',
+  errors: { 404: 'No such commander' },
+}), (req: Request, res: Response) => {
+  try {
+    const commander = commanderProfiles.get(req.params.fid);
+    if (!commander) { res.status(404).json({ success: false, error: 'Commander not found' }); return; }
+    res.json({
+      success: true,
+      data: {
+        ...commander,
+        active: commander.fid === commanderProfiles.getActiveFid(),
+        stats: journalStore.getStats(commander.fid),
+        recentSessions: journalStore.getSessions(10, 0, commander.fid),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
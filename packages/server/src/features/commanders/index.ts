@@ -0,0 +1 @@
+export { commandersRouter } from './commanders.router.js';
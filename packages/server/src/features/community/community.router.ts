@@ -1,13 +1,19 @@
 import { Router, type Request, type Response } from 'express';
+import { apiRoute } from '../../core/api-route.js';
 import { communityService } from './community.service.js';
 
 export const communityRouter = Router();
 
-communityRouter.get('/', (_req: Request, res: Response) => {
+communityRouter.get('/', apiRoute({
+  summary: 'Community links and the local commander profile',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: { links: communityService.getCommunityLinks(), profile: communityService.getLocalProfile() } });
 });
 
-communityRouter.get('/edsm/system/:name', async (req: Request, res: Response) => {
+communityRouter.get('/edsm/system/:name', apiRoute({
+  summary: 'EDSM information about a system',
+  errors: { 404: 'EDSM does not know the system' },
+}), async (req: Request, res: Response) => {
   try {
     const info = await communityService.getEdsmSystem(req.params.name);
     if (!info) { res.status(404).json({ success: false, error: 'System not found on EDSM' }); return; }
@@ -17,7 +23,9 @@ communityRouter.get('/edsm/system/:name', async (req: Request, res: Response) =>
   }
 });
 
-communityRouter.get('/edsm/traffic/:name', async (req: Request, res: Response) => {
+communityRouter.get('/edsm/traffic/:name', apiRoute({
+  summary: 'EDSM traffic report for a system',
+}), async (req: Request, res: Response) => {
   try {
     const data = await communityService.getEdsmTrafficReport(req.params.name);
     res.json({ success: true, data });
@@ -26,7 +34,9 @@ communityRouter.get('/edsm/traffic/:name', async (req: Request, res: Response) =
   }
 });
 
-communityRouter.get('/edsm/commander', async (_req: Request, res: Response) => {
+communityRouter.get('/edsm/commander', apiRoute({
+  summary: 'Last position EDSM has for the commander',
+}), async (_req: Request, res: Response) => {
   try {
     const data = await communityService.getEdsmCommanderPosition();
     res.json({ success: true, data });
@@ -4,6 +4,7 @@
 
 import { config } from '../../config.js';
 import { gameStateManager } from '../../core/game-state.js';
+import { galaxyStore } from '../../core/galaxy-store.js';
 import { COMBAT_RANKS, TRADE_RANKS, EXPLORE_RANKS } from '@vayu/shared';
 
 interface EDSMSystemInfo {
@@ -24,7 +25,17 @@ interface CommanderProfile {
 }
 
 class CommunityService {
+  /** A system in EDSM's format, from the local galaxy database when imported, else from EDSM. */
   async getEdsmSystem(systemName: string): Promise<EDSMSystemInfo | null> {
+    const local = galaxyStore.getSystem(systemName);
+    if (local?.edsmId != null) {
+      const { allegiance, government, economy, security, population } = local;
+      const information = Object.fromEntries(
+        Object.entries({ allegiance, government, economy, security, population }).filter(([, v]) => v !== null),
+      );
+      return { name: local.name, id: local.edsmId, coords: local.coordinates, information };
+    }
+
     try {
       const url = `https://www.edsm.net/api-v1/system?systemName=${encodeURIComponent(systemName)}&showCoordinates=1&showInformation=1`;
       const resp = await fetch(url, { signal: AbortSignal.timeout(10000) });
@@ -9,6 +9,7 @@
  */
 
 import { Router, type Request, type Response } from 'express';
+import { apiRoute } from '../../core/api-route.js';
 import { dashboardService } from './dashboard.service.js';
 import { gameStateManager } from '../../core/game-state.js';
 
@@ -25,7 +26,9 @@ export const dashboardRouter = Router();
  * build a comprehensive session recap. The response includes narrative
  * text, commander info, location, ship status, missions, and highlights.
  */
-dashboardRouter.get('/briefing', async (_req: Request, res: Response) => {
+dashboardRouter.get('/briefing', apiRoute({
+  summary: 'The "Where Was I?" session briefing',
+}), async (_req: Request, res: Response) => {
   try {
     const briefing = await dashboardService.generateBriefing();
     res.json({ success: true, data: briefing });
@@ -51,7 +54,9 @@ dashboardRouter.get('/briefing', async (_req: Request, res: Response) => {
  * This is a lightweight endpoint that returns the live game state
  * from the GameStateManager without reading any journal files.
  */
-dashboardRouter.get('/state', (_req: Request, res: Response) => {
+dashboardRouter.get('/state', apiRoute({
+  summary: 'Summary of the live game state',
+}), (_req: Request, res: Response) => {
   try {
     const state = gameStateManager.getState();
     res.json({
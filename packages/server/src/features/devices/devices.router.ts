@@ -0,0 +1,96 @@
+import { Router, type Request, type Response } from 'express';
+import {
+  API_SCHEMAS,
+  type DevicePairingRequest,
+  type DevicePairRequest,
+  type DeviceUpdateRequest,
+} from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
+import { deviceAuth, DeviceAuthError, type Caller } from '../../core/device-auth.js';
+
+export const devicesRouter = Router();
+
+/** Who the server thinks is calling, and with which scopes. */
+devicesRouter.get('/me', apiRoute({ summary: 'The calling device and its scopes' }), (_req: Request, res: Response) => {
+  res.json({ success: true, data: deviceAuth.describe(res.locals.caller as Caller) });
+});
+
+/** Exchange a pairing code for a token. The only route open to unpaired devices. */
+devicesRouter.post('/pair', apiRoute({
+  summary: 'Exchange a pairing code for a device token',
+  body: API_SCHEMAS.DevicePairRequest,
+  status: 201,
+  errors: { 403: 'Wrong code', 410: 'No active pairing code', 429: 'Too many wrong codes' },
+}), (req: Request, res: Response) => {
+  const { code, name } = req.body as DevicePairRequest;
+  try {
+    res.status(201).json({ success: true, data: deviceAuth.pair(code, name, req.socket.remoteAddress ?? null) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+devicesRouter.get('/', apiRoute({
+  summary: 'List paired devices',
+  response: { type: 'array', items: API_SCHEMAS.PairedDevice },
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: deviceAuth.list() });
+});
+
+/** The active pairing code (null if none). */
+devicesRouter.get('/pairing', apiRoute({
+  summary: 'The active pairing code, or null',
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: deviceAuth.getPairingCode() });
+});
+
+/** Create a pairing code for the next device: body `{ scopes }`. */
+devicesRouter.post('/pairing', apiRoute({
+  summary: 'Create a pairing code for the next device',
+  body: API_SCHEMAS.DevicePairingRequest,
+}), (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: deviceAuth.createPairingCode((req.body as Required<DevicePairingRequest>).scopes) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+devicesRouter.delete('/pairing', apiRoute({ summary: 'Cancel the active pairing code' }), (_req: Request, res: Response) => {
+  deviceAuth.cancelPairingCode();
+  res.json({ success: true, data: null });
+});
+
+/** Rename a device or change its scopes: body `{ name?, scopes? }`. */
+devicesRouter.patch('/:id', apiRoute({
+  summary: 'Rename a device or change its scopes',
+  body: API_SCHEMAS.DeviceUpdateRequest,
+  response: API_SCHEMAS.PairedDevice,
+  errors: { 404: 'Device not found' },
+}), (req: Request, res: Response) => {
+  try {
+    const device = deviceAuth.update(req.params.id, req.body as DeviceUpdateRequest);
+    if (!device) { res.status(404).json({ success: false, error: 'Device not found' }); return; }
+    res.json({ success: true, data: device });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/** Revoke a device: its token stops working and its sockets are closed. */
+devicesRouter.delete('/:id', apiRoute({
+  summary: 'Revoke a device',
+  errors: { 404: 'Device not found' },
+}), (req: Request, res: Response) => {
+  if (!deviceAuth.revoke(req.params.id)) {
+    res.status(404).json({ success: false, error: 'Device not found' }); return;
+  }
+  res.json({ success: true, data: null });
+});
+
+function sendError(res: Response, error: unknown): void {
+  if (error instanceof DeviceAuthError) {
+    res.status(error.status).json({ success: false, error: error.message }); return;
+  }
+  res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+}
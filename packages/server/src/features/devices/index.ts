@@ -0,0 +1 @@
+export { devicesRouter } from './devices.router.js';
@@ -0,0 +1,16 @@
+import { Router, type Request, type Response } from 'express';
+import { apiRoute } from '../../core/api-route.js';
+import { diagnostics } from '../../core/diagnostics.js';
+
+export const diagnosticsRouter = Router();
+
+/** Watcher lag, event rates, listener timings, COVAS, WebSocket and DB health. */
+diagnosticsRouter.get('/', apiRoute({
+  summary: 'Watcher lag, event rates, listener timings and service health',
+}), (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: diagnostics.getReport() });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
@@ -0,0 +1 @@
+export { diagnosticsRouter } from './diagnostics.router.js';
@@ -1,35 +1,44 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type MaterialCategory, type TextSearchQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { engineeringService } from './engineering.service.js';
-import type { MaterialCategory } from '@vayu/shared';
 
 export const engineeringRouter = Router();
 
-engineeringRouter.get('/', (_req: Request, res: Response) => {
+engineeringRouter.get('/', apiRoute({ summary: 'Material counts by category' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: engineeringService.getMaterialStats() });
 });
 
-engineeringRouter.get('/materials', (_req: Request, res: Response) => {
+engineeringRouter.get('/materials', apiRoute({
+  summary: 'Materials on hand by category',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: engineeringService.getMaterials() });
 });
 
-engineeringRouter.get('/materials/:category', (req: Request, res: Response) => {
-  const category = req.params.category as MaterialCategory;
-  if (!['Raw', 'Manufactured', 'Encoded'].includes(category)) {
-    res.status(400).json({ success: false, error: 'Invalid category. Use Raw, Manufactured, or Encoded.' });
-    return;
-  }
-  res.json({ success: true, data: engineeringService.getMaterialsByCategory(category) });
-});
-
-engineeringRouter.get('/materials/search', (req: Request, res: Response) => {
-  const q = (req.query.q as string) || '';
+// Before `/materials/:category`, which would take these as a category
+engineeringRouter.get('/materials/search', apiRoute({
+  summary: 'Materials whose name matches',
+  query: API_SCHEMAS.TextSearchQuery,
+}), (req: Request, res: Response) => {
+  const { q } = req.query as unknown as TextSearchQuery;
   res.json({ success: true, data: engineeringService.searchMaterials(q) });
 });
 
-engineeringRouter.get('/materials/near-cap', (_req: Request, res: Response) => {
+engineeringRouter.get('/materials/near-cap', apiRoute({
+  summary: 'Materials close to their storage cap',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: engineeringService.getMaterialsNearCap() });
 });
 
-engineeringRouter.get('/engineers', (_req: Request, res: Response) => {
+engineeringRouter.get('/materials/:category', apiRoute({
+  summary: 'Materials on hand in one category',
+  params: { category: { type: 'string', enum: ['Raw', 'Manufactured', 'Encoded'] } },
+}), (req: Request, res: Response) => {
+  res.json({ success: true, data: engineeringService.getMaterialsByCategory(req.params.category as MaterialCategory) });
+});
+
+engineeringRouter.get('/engineers', apiRoute({
+  summary: 'Engineers and their progress',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: engineeringService.getEngineers() });
 });
@@ -5,6 +5,7 @@
 
 import { gameStateManager } from '../../core/game-state.js';
 import { eventBus } from '../../core/event-bus.js';
+import { stateSnapshot } from '../../core/state-snapshot.js';
 import type { Material, MaterialCategory, EngineerState } from '@vayu/shared';
 import { MATERIAL_GRADE_CAPS } from '@vayu/shared';
 
@@ -24,6 +25,15 @@ class EngineeringService {
   private engineers: Map<number, EngineerState> = new Map();
 
   constructor() {
+    stateSnapshot.register<EngineerState[]>('engineering.engineers', {
+      version: 1,
+      save: () => this.getEngineers(),
+      restore: (engineers) => {
+        this.engineers = new Map(engineers.map((e) => [e.id, e]));
+      },
+      reset: () => { this.engineers = new Map(); },
+    });
+
     eventBus.onJournalEvent('EngineerProgress', (evt) => {
       const engineers = (evt as any).Engineers as Array<{
         Engineer: string;
@@ -0,0 +1,41 @@
+import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type LimitOffsetQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
+import { explorationService } from './exploration.service.js';
+
+export const explorationRouter = Router();
+
+/** Live updates arrive as `exploration:system` and `exploration:unsold`. */
+explorationRouter.get('/', apiRoute({
+  summary: 'Bodies scanned in the current system and the unsold exploration data',
+  response: API_SCHEMAS.ExplorationOverview,
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: explorationService.getOverview() });
+});
+
+explorationRouter.get('/systems', apiRoute({
+  summary: 'Systems with scanned bodies, most recently scanned first',
+  query: API_SCHEMAS.LimitOffsetQuery,
+  response: { type: 'array', items: API_SCHEMAS.ExploredSystemSummary },
+}), (req: Request, res: Response) => {
+  const { limit = 50, offset = 0 } = req.query as LimitOffsetQuery;
+  res.json({ success: true, data: explorationService.listSystems(limit, offset) });
+});
+
+explorationRouter.get('/systems/:systemAddress', apiRoute({
+  summary: 'Every body scanned in a system',
+  params: { systemAddress: { type: 'integer' } },
+  response: API_SCHEMAS.ExploredSystem,
+  errors: { 404: 'System not scanned' },
+}), (req: Request, res: Response) => {
+  const system = explorationService.getSystem(Number(req.params.systemAddress));
+  if (!system) { res.status(404).json({ success: false, error: 'System not scanned' }); return; }
+  res.json({ success: true, data: system });
+});
+
+explorationRouter.get('/unsold', apiRoute({
+  summary: 'Scan and mapping data not yet sold to Universal Cartographics',
+  response: API_SCHEMAS.UnsoldExplorationData,
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: explorationService.getUnsold() });
+});
@@ -0,0 +1,183 @@
+/**
+ * AGNI — Unit tests for exploration.service.ts
+ *
+ * Feeds scan, sale and death events through the event bus and checks the
+ * catalogue and the unsold data total: both sale events, FSS and surface
+ * scan details that arrive before the Scan, mapping a body whose scan was
+ * already sold, pruning, and losing the data on death.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { initDatabase, closeDatabase } from '../../database/index.js';
+import { eventBus } from '../../core/event-bus.js';
+import { stateSnapshot } from '../../core/state-snapshot.js';
+import { explorationService } from './exploration.service.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dbPath: string;
+
+function emit(event: Record<string, unknown>): void {
+  eventBus.emitJournalEvent(event as any);
+}
+
+function scan(systemAddress: number, system: string, bodyId: number, timestamp = '2025-01-01T10:00:00Z') {
+  emit({
+    timestamp, event: 'Scan', ScanType: 'Detailed', BodyName: `${system} ${bodyId}`, BodyID: bodyId,
+    StarSystem: system, SystemAddress: systemAddress, DistanceFromArrivalLS: 500,
+    PlanetClass: 'High metal content body', MassEM: 0.5, TerraformState: '', Landable: true,
+    WasDiscovered: true, WasMapped: false,
+  });
+}
+
+function mapped(systemAddress: number, bodyId: number) {
+  emit({
+    timestamp: '2025-01-01T10:05:00Z', event: 'SAAScanComplete', BodyName: `Body ${bodyId}`,
+    SystemAddress: systemAddress, BodyID: bodyId, ProbesUsed: 5, EfficiencyTarget: 6,
+  });
+}
+
+beforeEach(async () => {
+  dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-exploration-')), 'test.db');
+  await initDatabase(dbPath);
+  // Nothing saved yet, so this resets every contributor, the catalogue included.
+  stateSnapshot.restore({ reset: true });
+});
+
+afterEach(() => {
+  closeDatabase(dbPath);
+  fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('explorationService', () => {
+  it('should total scanned bodies as unsold data', () => {
+    scan(1, 'Alpha', 1);
+    scan(1, 'Alpha', 2);
+    scan(2, 'Beta', 1, '2025-01-01T09:00:00Z');
+
+    const unsold = explorationService.getUnsold();
+    expect(unsold).toMatchObject({ systems: 2, bodies: 3, mapped: 0, oldestScanAt: '2025-01-01T09:00:00Z' });
+    expect(unsold.estimatedValue).toBeGreaterThan(0);
+    expect(unsold.bySystem.map((s) => s.name)).toEqual(['Beta', 'Alpha']);
+    expect(explorationService.getSystem(1)).toMatchObject({ scanned: 2, unsold: 2 });
+  });
+
+  it('should mark the systems named in SellExplorationData as sold', () => {
+    scan(1, 'Alpha', 1);
+    scan(2, 'Beta', 1);
+
+    emit({
+      timestamp: '2025-01-01T11:00:00Z', event: 'SellExplorationData', Systems: ['alpha'], Discovered: [],
+      BaseValue: 1000, Bonus: 0, TotalEarnings: 1000,
+    });
+
+    expect(explorationService.getSystem(1)?.bodies[0].dataState).toBe('sold');
+    expect(explorationService.getUnsold()).toMatchObject({ systems: 1, bodies: 1 });
+  });
+
+  it('should mark the systems discovered in MultiSellExplorationData as sold', () => {
+    scan(1, 'Alpha', 1);
+    scan(2, 'Beta', 1);
+
+    emit({
+      timestamp: '2025-01-01T11:00:00Z', event: 'MultiSellExplorationData',
+      Discovered: [{ SystemName: 'Alpha', NumBodies: 1 }, { SystemName: 'Beta', NumBodies: 1 }],
+      BaseValue: 2000, Bonus: 0, TotalEarnings: 2000,
+    });
+
+    expect(explorationService.getSystem(1)?.unsold).toBe(0);
+    expect(explorationService.getSystem(2)?.unsold).toBe(0);
+    expect(explorationService.getUnsold()).toMatchObject({ systems: 0, bodies: 0, estimatedValue: 0 });
+  });
+
+  it('should apply FSS and surface scan details that arrive before the Scan', () => {
+    emit({
+      timestamp: '2025-01-01T10:00:00Z', event: 'FSSBodySignals', BodyName: 'Alpha 3', BodyID: 3, SystemAddress: 1,
+      Signals: [{ Type: '$SAA_SignalType_Biological;', Type_Localised: 'Biological', Count: 2 }],
+    });
+    emit({
+      timestamp: '2025-01-01T10:01:00Z', event: 'SAASignalsFound', BodyName: 'Alpha 3', BodyID: 3, SystemAddress: 1,
+      Signals: [{ Type: '$SAA_SignalType_Biological;', Type_Localised: 'Biological', Count: 3 }],
+      Genuses: [{ Genus: '$Codex_Ent_Bacterial_Genus_Name;', Genus_Localised: 'Bacterium' }],
+    });
+    mapped(1, 3);
+    expect(explorationService.getSystem(1)).toBeNull();
+
+    scan(1, 'Alpha', 3);
+
+    const body = explorationService.getSystem(1)?.bodies[0];
+    expect(body).toMatchObject({
+      bodyId: 3,
+      signals: [{ type: '$SAA_SignalType_Biological;', name: 'Biological', count: 3 }],
+      genuses: ['Bacterium'],
+      mapped: true,
+      probesUsed: 5,
+      efficiencyTarget: 6,
+      dataState: 'unsold',
+    });
+    expect(body?.dssValue).toBeGreaterThan(body!.fssValue);
+  });
+
+  it('should make a sold body unsold again when it is mapped', () => {
+    scan(1, 'Alpha', 1);
+    emit({
+      timestamp: '2025-01-01T11:00:00Z', event: 'SellExplorationData', Systems: ['Alpha'], Discovered: [],
+      BaseValue: 1000, Bonus: 0, TotalEarnings: 1000,
+    });
+
+    // Scanning it again does not, mapping it does.
+    scan(1, 'Alpha', 1, '2025-01-01T12:00:00Z');
+    expect(explorationService.getSystem(1)?.bodies[0].dataState).toBe('sold');
+
+    mapped(1, 1);
+    const body = explorationService.getSystem(1)?.bodies[0];
+    expect(body).toMatchObject({ mapped: true, dataState: 'unsold' });
+    expect(explorationService.getUnsold()).toMatchObject({ bodies: 1, mapped: 1, estimatedValue: body?.dssValue });
+  });
+
+  it('should drop the oldest sold systems past the limit but keep unsold ones', () => {
+    scan(1, 'Sold', 1);
+    emit({
+      timestamp: '2025-01-01T11:00:00Z', event: 'SellExplorationData', Systems: ['Sold'], Discovered: [],
+      BaseValue: 1000, Bonus: 0, TotalEarnings: 1000,
+    });
+    for (let i = 0; i < 500; i++) scan(100 + i, `System ${i}`, 1);
+
+    expect(explorationService.getSystem(1)).toBeNull();
+    expect(explorationService.listSystems(1000)).toHaveLength(500);
+
+    // With nothing left to drop, the catalogue grows rather than lose unsold data.
+    scan(2, 'Newest', 1);
+    expect(explorationService.listSystems(1000)).toHaveLength(501);
+    expect(explorationService.getSystem(2)?.unsold).toBe(1);
+    expect(explorationService.getUnsold().systems).toBe(501);
+  });
+
+  it('should lose the unsold data on death', () => {
+    scan(1, 'Alpha', 1);
+    scan(1, 'Alpha', 2);
+    scan(2, 'Beta', 1);
+    emit({
+      timestamp: '2025-01-01T11:00:00Z', event: 'SellExplorationData', Systems: ['Beta'], Discovered: [],
+      BaseValue: 1000, Bonus: 0, TotalEarnings: 1000,
+    });
+
+    emit({ timestamp: '2025-01-01T12:00:00Z', event: 'Died' });
+
+    expect(explorationService.getSystem(1)?.bodies.map((b) => b.dataState)).toEqual(['lost', 'lost']);
+    expect(explorationService.getSystem(2)?.bodies[0].dataState).toBe('sold');
+    expect(explorationService.getUnsold()).toMatchObject({
+      systems: 0, bodies: 0, lastLost: { bodies: 2, systems: 1, at: '2025-01-01T12:00:00Z' },
+    });
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Exploration service.
+ * Catalogues every scanned body per system (Scan, FSS and surface scan
+ * events) with its estimated scan and mapping values, and keeps a running
+ * total of cartographic data not yet sold, which clears when the data is
+ * sold and is lost on death.
+ */
+
+import { eventBus } from '../../core/event-bus.js';
+import { gameStateManager } from '../../core/game-state.js';
+import { stateSnapshot } from '../../core/state-snapshot.js';
+import { wsManager } from '../../websocket.js';
+import { bodyDataValue, estimateBodyValue, rankWorthMapping } from '@vayu/shared';
+import type {
+  BodySignal,
+  ExplorationOverview,
+  ExploredSystem,
+  ExploredSystemSummary,
+  ScanEvent,
+  SystemBody,
+  UnsoldExplorationData,
+} from '@vayu/shared';
+
+/** Systems kept in the catalogue; the oldest fully sold ones are dropped first. */
+const MAX_SYSTEMS = 500;
+
+/** Signal and mapping details that can arrive before the body's Scan. */
+type BodyDetails = Partial<Pick<SystemBody, 'signals' | 'genuses' | 'mapped' | 'probesUsed' | 'efficiencyTarget'>>;
+
+interface SavedExploration {
+  systems: ExploredSystem[];
+  lastLost: UnsoldExplorationData['lastLost'];
+}
+
+class ExplorationService {
+  /** Scanned systems by address, least recently scanned first. */
+  private systems = new Map<number, ExploredSystem>();
+  /** Details for bodies not scanned yet, by `systemAddress:bodyId`. */
+  private pending = new Map<string, BodyDetails>();
+  private lastLost: UnsoldExplorationData['lastLost'] = null;
+
+  constructor() {
+    stateSnapshot.register<SavedExploration>('exploration.systems', {
+      version: 1,
+      save: () => ({ systems: [...this.systems.values()], lastLost: this.lastLost }),
+      restore: (saved) => {
+        this.systems = new Map(saved.systems.map((s) => [s.systemAddress, s]));
+        // Saves from before values were estimated lack them
+        for (const system of this.systems.values()) system.bodies.forEach(applyValue);
+        this.lastLost = saved.lastLost;
+        this.pending.clear();
+      },
+      reset: () => { this.systems.clear(); this.pending.clear(); this.lastLost = null; },
+    });
+
+    eventBus.onJournalEvent('Scan', (evt) => this.recordScan(evt));
+
+    eventBus.onJournalEvent('FSSDiscoveryScan', (evt) => {
+      const system = this.system(evt.SystemAddress, evt.SystemName, evt.timestamp);
+      system.bodyCount = evt.BodyCount;
+      system.nonBodyCount = evt.NonBodyCount;
+      this.changed(system);
+    });
+
+    eventBus.onJournalEvent('FSSAllBodiesFound', (evt) => {
+      const system = this.system(evt.SystemAddress, evt.SystemName, evt.timestamp);
+      system.bodyCount = evt.Count;
+      system.allBodiesFound = true;
+      this.changed(system);
+    });
+
+    eventBus.onJournalEvent('FSSBodySignals', (evt) => {
+      this.updateBody(evt.SystemAddress, evt.BodyID, evt.timestamp, { signals: toSignals(evt.Signals) });
+    });
+
+    // The surface scan's signal list is the complete one, with genuses for biologicals.
+    eventBus.onJournalEvent('SAASignalsFound', (evt) => {
+      this.updateBody(evt.SystemAddress, evt.BodyID, evt.timestamp, {
+        signals: toSignals(evt.Signals),
+        genuses: (evt.Genuses ?? []).map((g) => g.Genus_Localised ?? g.Genus),
+      });
+    });
+
+    eventBus.onJournalEvent('SAAScanComplete', (evt) => {
+      this.updateBody(evt.SystemAddress, evt.BodyID, evt.timestamp, {
+        mapped: true,
+        probesUsed: evt.ProbesUsed,
+        efficiencyTarget: evt.EfficiencyTarget,
+      });
+    });
+
+    eventBus.onJournalEvent('SellExplorationData', (evt) => this.sell(evt.Systems));
+    eventBus.onJournalEvent('MultiSellExplorationData', (evt) => this.sell(evt.Discovered.map((d) => d.SystemName)));
+    eventBus.onJournalEvent('Died', (evt) => this.lose(evt.timestamp));
+  }
+
+  /** The current system's scans, the bodies in it worth mapping, and the unsold data total. */
+  getOverview(): ExplorationOverview {
+    const { systemAddress } = gameStateManager.getState().location;
+    const current = this.systems.get(systemAddress) ?? null;
+    return { current, worthMapping: rankWorthMapping(current?.bodies ?? []), unsold: this.getUnsold() };
+  }
+
+  /** Scanned systems, most recently scanned first. */
+  listSystems(limit = 50, offset = 0): ExploredSystemSummary[] {
+    return [...this.systems.values()].reverse().slice(offset, offset + limit).map(({ bodies: _bodies, ...summary }) => summary);
+  }
+
+  /** A scanned system with its bodies, or null if nothing in it was scanned. */
+  getSystem(systemAddress: number): ExploredSystem | null {
+    return this.systems.get(systemAddress) ?? null;
+  }
+
+  /** Scan data not yet sold. */
+  getUnsold(): UnsoldExplorationData {
+    const unsold: UnsoldExplorationData = {
+      systems: 0, bodies: 0, mapped: 0, firstDiscoveries: 0, estimatedValue: 0, oldestScanAt: null, bySystem: [], lastLost: this.lastLost,
+    };
+    for (const system of [...this.systems.values()].reverse()) {
+      const bodies = system.bodies.filter((b) => b.dataState === 'unsold');
+      if (bodies.length === 0) continue;
+      const mapped = bodies.filter((b) => b.mapped).length;
+      const estimatedValue = bodies.reduce((sum, b) => sum + bodyDataValue(b), 0);
+      unsold.systems++;
+      unsold.bodies += bodies.length;
+      unsold.mapped += mapped;
+      unsold.estimatedValue += estimatedValue;
+      unsold.firstDiscoveries += bodies.filter((b) => b.firstDiscovered).length;
+      for (const body of bodies) {
+        if (!unsold.oldestScanAt || body.scannedAt < unsold.oldestScanAt) unsold.oldestScanAt = body.scannedAt;
+      }
+      unsold.bySystem.push({ systemAddress: system.systemAddress, name: system.name, bodies: bodies.length, mapped, estimatedValue });
+    }
+    return unsold;
+  }
+
+  // -------------------------------------------------------------------------
+  // Recording
+  // -------------------------------------------------------------------------
+
+  private recordScan(evt: ScanEvent): void {
+    const system = this.system(evt.SystemAddress, evt.StarSystem, evt.timestamp);
+    const key = `${evt.SystemAddress}:${evt.BodyID}`;
+    const existing = system.bodies.find((b) => b.bodyId === evt.BodyID);
+    const details = this.pending.get(key) ?? {};
+    this.pending.delete(key);
+
+    const body: SystemBody = {
+      ...toBody(evt),
+      signals: details.signals ?? existing?.signals ?? [],
+      genuses: details.genuses ?? existing?.genuses ?? [],
+      mapped: details.mapped ?? existing?.mapped ?? false,
+      probesUsed: details.probesUsed ?? existing?.probesUsed ?? null,
+      efficiencyTarget: details.efficiencyTarget ?? existing?.efficiencyTarget ?? null,
+      // Scanning a body again does not make its data sellable again.
+      dataState: existing?.dataState === 'sold' && !details.mapped ? 'sold' : 'unsold',
+      fssValue: 0,
+      dssValue: null,
+    };
+    applyValue(body);
+
+    system.bodies = [...system.bodies.filter((b) => b.bodyId !== evt.BodyID), body].sort((a, b) => a.bodyId - b.bodyId);
+    this.changed(system, evt.timestamp);
+  }
+
+  /** Apply signal or mapping details to a body, or hold them until it is scanned. */
+  private updateBody(systemAddress: number, bodyId: number, timestamp: string, details: BodyDetails): void {
+    const system = this.systems.get(systemAddress);
+    const body = system?.bodies.find((b) => b.bodyId === bodyId);
+    if (!system || !body) {
+      const key = `${systemAddress}:${bodyId}`;
+      this.pending.set(key, { ...this.pending.get(key), ...details });
+      return;
+    }
+    Object.assign(body, details);
+    applyValue(body);
+    // Mapping produces new data even for a body whose scan was sold.
+    if (details.mapped) body.dataState = 'unsold';
+    this.changed(system, timestamp);
+  }
+
+  private sell(systemNames: string[]): void {
+    const names = new Set(systemNames.map((n) => n.toLowerCase()));
+    for (const system of this.systems.values()) {
+      if (!names.has(system.name.toLowerCase())) continue;
+      for (const body of system.bodies) if (body.dataState === 'unsold') body.dataState = 'sold';
+      refreshCounts(system);
+    }
+    this.broadcastUnsold();
+  }
+
+  /** Death loses all unsold data. */
+  private lose(timestamp: string): void {
+    const unsold = this.getUnsold();
+    if (unsold.bodies === 0) return;
+    for (const system of this.systems.values()) {
+      for (const body of system.bodies) if (body.dataState === 'unsold') body.dataState = 'lost';
+      refreshCounts(system);
+    }
+    this.lastLost = { bodies: unsold.bodies, systems: unsold.systems, at: timestamp };
+    this.broadcastUnsold();
+  }
+
+  // -------------------------------------------------------------------------
+  // Helpers
+  // -------------------------------------------------------------------------
+
+  /** The system record, created if needed and moved to most recently scanned. */
+  private system(systemAddress: number, name: string, timestamp: string): ExploredSystem {
+    let system = this.systems.get(systemAddress);
+    if (system) {
+      this.systems.delete(systemAddress);
+    } else {
+      system = {
+        systemAddress, name, bodyCount: null, nonBodyCount: null, allBodiesFound: false,
+        scanned: 0, mapped: 0, unsold: 0, firstScannedAt: timestamp, lastScannedAt: timestamp, bodies: [],
+      };
+    }
+    this.systems.set(systemAddress, system);
+    this.prune(systemAddress);
+    return system;
+  }
+
+  /** Drop the oldest systems with nothing unsold, but never `keep`, which has yet to be scanned into. */
+  private prune(keep: number): void {
+    for (const [address, system] of this.systems) {
+      if (this.systems.size <= MAX_SYSTEMS) return;
+      if (system.unsold === 0 && address !== keep) this.systems.delete(address);
+    }
+  }
+
+  private changed(system: ExploredSystem, timestamp?: string): void {
+    if (timestamp) system.lastScannedAt = timestamp;
+    refreshCounts(system);
+    wsManager.broadcast<ExploredSystem>('exploration:system', system);
+    this.broadcastUnsold();
+  }
+
+  private broadcastUnsold(): void {
+    wsManager.broadcast<UnsoldExplorationData>('exploration:unsold', this.getUnsold());
+  }
+}
+
+/** Estimate the body's scan and mapping values from its current state. */
+function applyValue(body: SystemBody): void {
+  const value = estimateBodyValue(body);
+  body.fssValue = value.fss;
+  body.dssValue = value.dss;
+}
+
+function refreshCounts(system: ExploredSystem): void {
+  system.scanned = system.bodies.length;
+  system.mapped = system.bodies.filter((b) => b.mapped).length;
+  system.unsold = system.bodies.filter((b) => b.dataState === 'unsold').length;
+}
+
+function toSignals(signals: Array<{ Type: string; Type_Localised?: string; Count: number }>): BodySignal[] {
+  return signals.map((s) => ({ type: s.Type, name: s.Type_Localised ?? s.Type, count: s.Count }));
+}
+
+/** The Scan event's description of a body; signals, mapping, data state and values are filled in by the caller. */
+function toBody(evt: ScanEvent): Omit<SystemBody, 'signals' | 'genuses' | 'mapped' | 'probesUsed' | 'efficiencyTarget' | 'dataState' | 'fssValue' | 'dssValue'> {
+  return {
+    name: evt.BodyName,
+    bodyId: evt.BodyID,
+    bodyType: evt.StarType ? 'Star' : evt.PlanetClass ? 'Planet' : 'Belt Cluster',
+    distanceFromArrivalLS: evt.DistanceFromArrivalLS,
+    starType: evt.StarType ?? null,
+    subclass: evt.Subclass ?? null,
+    stellarMass: evt.StellarMass ?? null,
+    luminosity: evt.Luminosity ?? null,
+    ageMY: evt.Age_MY ?? null,
+    planetClass: evt.PlanetClass ?? null,
+    atmosphere: evt.Atmosphere || null,
+    volcanism: evt.Volcanism || null,
+    massEM: evt.MassEM ?? null,
+    surfaceGravity: evt.SurfaceGravity ?? null,
+    surfaceTemperature: evt.SurfaceTemperature ?? null,
+    surfacePressure: evt.SurfacePressure ?? null,
+    landable: evt.Landable ?? false,
+    terraformState: evt.TerraformState || null,
+    radius: evt.Radius ?? null,
+    tidalLock: evt.TidalLock ?? false,
+    semiMajorAxis: evt.SemiMajorAxis ?? null,
+    eccentricity: evt.Eccentricity ?? null,
+    orbitalPeriod: evt.OrbitalPeriod ?? null,
+    rotationPeriod: evt.RotationPeriod ?? null,
+    axialTilt: evt.AxialTilt ?? null,
+    rings: (evt.Rings ?? []).map((r) => ({
+      name: r.Name, ringClass: r.RingClass, massMT: r.MassMT, innerRadius: r.InnerRad, outerRadius: r.OuterRad,
+    })),
+    reserveLevel: evt.ReserveLevel ?? null,
+    wasDiscovered: evt.WasDiscovered,
+    wasMapped: evt.WasMapped,
+    firstDiscovered: !evt.WasDiscovered,
+    composition: evt.Composition
+      ? { ice: evt.Composition.Ice, rock: evt.Composition.Rock, metal: evt.Composition.Metal }
+      : null,
+    materials: (evt.Materials ?? []).map((m) => ({ name: m.Name, percent: m.Percent })),
+    scannedAt: evt.timestamp,
+  };
+}
+
+export const explorationService = new ExplorationService();
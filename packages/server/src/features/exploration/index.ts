@@ -0,0 +1,2 @@
+export { explorationRouter } from './exploration.router.js';
+export { explorationService } from './exploration.service.js';
@@ -0,0 +1,155 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Router, type Request, type Response } from 'express';
+import {
+  API_SCHEMAS,
+  type GalaxyImportRequest,
+  type GalaxyNearbyQuery,
+  type GalaxySearchQuery,
+  type NearestServiceQuery,
+  type RoutePlotQuery,
+} from '@vayu/shared';
+import { config } from '../../config.js';
+import { apiRoute } from '../../core/api-route.js';
+import { galaxyImporter } from '../../core/galaxy-importer.js';
+import { galaxyStore } from '../../core/galaxy-store.js';
+import { routePlanner, RoutePlanError } from './route-planner.service.js';
+import { stationFinder } from './station-finder.service.js';
+
+export const galaxyRouter = Router();
+
+galaxyRouter.get('/', apiRoute({
+  summary: 'Systems, stations and bodies in the galaxy database, and the dumps imported',
+  response: API_SCHEMAS.GalaxyDatabaseStats,
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: galaxyStore.getStats() });
+});
+
+/** Name autocomplete. */
+galaxyRouter.get('/systems/search', apiRoute({
+  summary: 'Systems whose name starts with the query, alphabetically',
+  query: API_SCHEMAS.GalaxySearchQuery,
+  response: { type: 'array', items: API_SCHEMAS.GalaxySystem },
+}), (req: Request, res: Response) => {
+  const { q, limit } = req.query as unknown as GalaxySearchQuery;
+  res.json({ success: true, data: galaxyStore.searchSystems(q, limit) });
+});
+
+galaxyRouter.get('/systems/nearby', apiRoute({
+  summary: 'Systems within a radius of a system or point, nearest first',
+  query: API_SCHEMAS.GalaxyNearbyQuery,
+  response: { type: 'array', items: API_SCHEMAS.GalaxyNearbySystem },
+  errors: { 400: 'Give a system or x, y and z', 404: 'System not in the galaxy database' },
+}), (req: Request, res: Response) => {
+  const { system, x, y, z, radius = 20, limit = 100 } = req.query as GalaxyNearbyQuery;
+  let center = x !== undefined && y !== undefined && z !== undefined ? { x, y, z } : null;
+  if (system) {
+    const found = galaxyStore.getSystem(system);
+    if (!found) { res.status(404).json({ success: false, error: 'System not in the galaxy database' }); return; }
+    center = found.coordinates;
+  }
+  if (!center) { res.status(400).json({ success: false, error: 'Give a system or x, y and z' }); return; }
+  res.json({ success: true, data: galaxyStore.systemsWithin(center, radius, limit) });
+});
+
+galaxyRouter.get('/systems/:name', apiRoute({
+  summary: 'A system with its stations and bodies',
+  response: API_SCHEMAS.GalaxySystemDetail,
+  errors: { 404: 'System not in the galaxy database' },
+}), (req: Request, res: Response) => {
+  const system = galaxyStore.getSystemDetail(req.params.name);
+  if (!system) { res.status(404).json({ success: false, error: 'System not in the galaxy database' }); return; }
+  res.json({ success: true, data: system });
+});
+
+galaxyRouter.get('/stations/search', apiRoute({
+  summary: 'Stations whose name starts with the query, alphabetically',
+  query: API_SCHEMAS.GalaxySearchQuery,
+  response: { type: 'array', items: API_SCHEMAS.GalaxyStation },
+}), (req: Request, res: Response) => {
+  const { q, limit } = req.query as unknown as GalaxySearchQuery;
+  res.json({ success: true, data: galaxyStore.searchStations(q, limit) });
+});
+
+galaxyRouter.get('/stations/nearest', apiRoute({
+  summary: 'Stations offering a service nearest the commander',
+  query: API_SCHEMAS.NearestServiceQuery,
+  response: API_SCHEMAS.NearestServiceResult,
+}), (req: Request, res: Response) => {
+  res.json({ success: true, data: stationFinder.findNearest(req.query as unknown as NearestServiceQuery) });
+});
+
+/** Plot a route for the ship being flown; also broadcast as `galaxy:route`. */
+galaxyRouter.get('/route', apiRoute({
+  summary: 'Plot a jump route to a system over the galaxy database',
+  query: API_SCHEMAS.RoutePlotQuery,
+  response: API_SCHEMAS.PlottedRoute,
+  errors: {
+    400: 'Current system unknown; give a start system',
+    404: 'System not in the galaxy database, or no route found',
+    409: 'No Loadout seen for the current ship yet',
+  },
+}), async (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: await routePlanner.plot(req.query as unknown as RoutePlotQuery) });
+  } catch (err) {
+    if (err instanceof RoutePlanError) {
+      res.status(err.status).json({ success: false, error: err.message });
+      return;
+    }
+    res.status(500).json({ success: false, error: err instanceof Error ? err.message : 'Unknown error' });
+  }
+});
+
+galaxyRouter.get('/import', apiRoute({
+  summary: 'Progress of the EDSM dump import',
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: galaxyImporter.getProgress() });
+});
+
+/**
+ * Import (or resume importing) an EDSM dump file from the galaxy dumps
+ * directory. Runs in the background; progress is broadcast as `galaxy:import`.
+ */
+galaxyRouter.post('/import', apiRoute({
+  summary: 'Import an EDSM dump file in the background',
+  body: API_SCHEMAS.GalaxyImportRequest,
+  status: 202,
+  errors: {
+    400: 'Dump files must be in the galaxy dumps directory',
+    404: 'Dump file not found',
+    409: 'An import is already running',
+  },
+}), (req: Request, res: Response) => {
+  const { path: filePath, kind, full } = req.body as GalaxyImportRequest;
+  if (galaxyImporter.isRunning()) {
+    res.status(409).json({ success: false, error: 'A galaxy import is already running' });
+    return;
+  }
+  const dumpsDir = path.resolve(config.paths.galaxyDumpsDir);
+  const source = path.resolve(dumpsDir, filePath);
+  if (!isInside(dumpsDir, source)) {
+    res.status(400).json({ success: false, error: 'Dump files must be in the galaxy dumps directory' });
+    return;
+  }
+  if (!fs.existsSync(source)) {
+    res.status(404).json({ success: false, error: 'Dump file not found' });
+    return;
+  }
+  // A symlink in the directory may point anywhere
+  if (!isInside(fs.realpathSync(dumpsDir), fs.realpathSync(source))) {
+    res.status(400).json({ success: false, error: 'Dump files must be in the galaxy dumps directory' });
+    return;
+  }
+
+  galaxyImporter
+    .run(source, { kind, full })
+    .catch((err) => console.error('[galaxy] Import failed:', err instanceof Error ? err.message : err));
+
+  res.status(202).json({ success: true, data: { started: true, path: filePath } });
+});
+
+function isInside(dir: string, file: string): boolean {
+  const relative = path.relative(dir, file);
+  return relative !== '' && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+}
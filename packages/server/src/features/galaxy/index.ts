@@ -0,0 +1,3 @@
+export { galaxyRouter } from './galaxy.router.js';
+export { stationFinder } from './station-finder.service.js';
+export { routePlanner, RoutePlanError } from './route-planner.service.js';
@@ -0,0 +1,69 @@
+/**
+ * Route planner service.
+ * Plots routes over the local galaxy database for the ship being flown:
+ * its modelled jump range, fuel tank and cargo, from the current system
+ * unless another start is given. Every route plotted (from the API or
+ * COVAS) is broadcast as `galaxy:route` for the Navigation page.
+ */
+
+import { gameStateManager } from '../../core/game-state.js';
+import { galaxyStore } from '../../core/galaxy-store.js';
+import { routePlotter, type RouteSystem } from '../../core/route-plotter.js';
+import { wsManager } from '../../websocket.js';
+import { jumpRangeService } from '../ships/jump-range.service.js';
+import type { PlottedRoute, RoutePlotQuery } from '@vayu/shared';
+
+/** Why a route could not be plotted, with the HTTP status to answer with. */
+export class RoutePlanError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'RoutePlanError';
+  }
+}
+
+class RoutePlanner {
+  /**
+   * Plot a route to `query.to`.
+   *
+   * @throws RoutePlanError if a system is unknown, the ship's Loadout has
+   *         not been seen, or no route was found.
+   */
+  async plot(query: RoutePlotQuery): Promise<PlottedRoute> {
+    const to = galaxyStore.getSystem(query.to);
+    if (!to) throw new RoutePlanError('Destination not in the galaxy database', 404);
+    const from = query.from ? galaxyStore.getSystem(query.from) : this.currentSystem();
+    if (!from) {
+      throw query.from
+        ? new RoutePlanError('Start system not in the galaxy database', 404)
+        : new RoutePlanError('Current system unknown; give a start system', 400);
+    }
+
+    const drive = jumpRangeService.getCurrentDrive();
+    if (!drive) throw new RoutePlanError('No Loadout seen for the current ship yet', 409);
+
+    const route = await routePlotter.plot(from, to, {
+      ...drive,
+      // Fuel reads 0 until Status.json has been seen; plot with a full tank then
+      fuel: drive.fuel > 0 ? drive.fuel : drive.fuelCapacity,
+      cargo: query.cargo ?? drive.cargo,
+    }, { neutron: query.neutron, whiteDwarf: query.whiteDwarf });
+    if (!route) throw new RoutePlanError('No route found over the systems in the galaxy database', 404);
+
+    wsManager.broadcast<PlottedRoute>('galaxy:route', route);
+    return route;
+  }
+
+  /** The current system, from the galaxy database or, failing that, the journal. */
+  private currentSystem(): RouteSystem | null {
+    const { location } = gameStateManager.getState();
+    if (!location.system) return null;
+    return galaxyStore.getSystem(location.system) ?? {
+      id64: location.systemAddress,
+      name: location.system,
+      coordinates: { ...location.coordinates },
+      primaryStar: null,
+    };
+  }
+}
+
+export const routePlanner = new RoutePlanner();
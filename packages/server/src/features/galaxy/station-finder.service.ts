@@ -0,0 +1,113 @@
+/**
+ * Station finder service.
+ * Finds the stations nearest the commander that offer a service (interstellar
+ * factors, a material trader or technology broker of a given type, a large
+ * pad, a fleet carrier vendor) in the local galaxy database, widening the
+ * search radius until enough are found.
+ */
+
+import { gameStateManager } from '../../core/game-state.js';
+import { galaxyStore } from '../../core/galaxy-store.js';
+import type {
+  GalaxyStation,
+  LandingPadSize,
+  NearestServiceQuery,
+  NearestServiceResult,
+  NearestServiceStation,
+  StationServiceKind,
+} from '@vayu/shared';
+
+/** Radii searched in turn (ly) until enough stations are found. */
+const SEARCH_RADII_LY = [25, 50, 100, 200, 500];
+
+const PAD_RANK: Record<LandingPadSize, number> = { S: 1, M: 2, L: 3 };
+
+/** Station types with a large pad; outposts stop at medium, settlements vary. */
+const LARGE_PAD_TYPES = new Set([
+  'Coriolis Starport', 'Orbis Starport', 'Ocellus Starport', 'Dodec Starport', 'Asteroid base',
+  'Mega ship', 'Planetary Port', 'Planetary Outpost',
+]);
+
+/** Material trader type by the station's economy. */
+const TRADER_ECONOMIES: Record<string, 'raw' | 'manufactured' | 'encoded'> = {
+  Extraction: 'raw',
+  Refinery: 'raw',
+  Industrial: 'manufactured',
+  'High Tech': 'encoded',
+  Military: 'encoded',
+};
+
+/** Technology broker type by the station's economy. */
+const BROKER_ECONOMIES: Record<string, 'human' | 'guardian'> = {
+  'High Tech': 'guardian',
+  Industrial: 'human',
+};
+
+/** Spoken and displayed names of the services. */
+export const SERVICE_LABELS: Record<StationServiceKind, string> = {
+  interstellar_factors: 'interstellar factors',
+  material_trader_raw: 'raw material trader',
+  material_trader_manufactured: 'manufactured material trader',
+  material_trader_encoded: 'encoded material trader',
+  technology_broker_human: 'human technology broker',
+  technology_broker_guardian: 'guardian technology broker',
+  large_pad: 'large landing pad',
+  fleet_carrier_vendor: 'fleet carrier vendor',
+};
+
+/** Largest landing pad at a station, from its type. */
+export function stationMaxPad(type: string | null): LandingPadSize | null {
+  if (!type) return null;
+  if (LARGE_PAD_TYPES.has(type)) return 'L';
+  if (type === 'Outpost') return 'M';
+  return null;
+}
+
+function offers(station: GalaxyStation, service: StationServiceKind): boolean {
+  const has = (name: string) => station.services.includes(name);
+  const economy = station.economy ?? '';
+  switch (service) {
+    case 'interstellar_factors': return has('Interstellar Factors Contact');
+    case 'material_trader_raw': return has('Material Trader') && TRADER_ECONOMIES[economy] === 'raw';
+    case 'material_trader_manufactured': return has('Material Trader') && TRADER_ECONOMIES[economy] === 'manufactured';
+    case 'material_trader_encoded': return has('Material Trader') && TRADER_ECONOMIES[economy] === 'encoded';
+    case 'technology_broker_human': return has('Technology Broker') && BROKER_ECONOMIES[economy] === 'human';
+    case 'technology_broker_guardian': return has('Technology Broker') && BROKER_ECONOMIES[economy] === 'guardian';
+    case 'large_pad': return stationMaxPad(station.type) === 'L';
+    case 'fleet_carrier_vendor': return has('Fleet Carrier Vendor');
+  }
+}
+
+class StationFinder {
+  /**
+   * Stations offering `service` nearest the commander's current system.
+   * Fleet carriers are left out: they move, so their dump positions go stale.
+   */
+  findNearest(query: NearestServiceQuery): NearestServiceResult {
+    const { service, pad, maxDistanceToArrival, limit = 5 } = query;
+    const { location } = gameStateManager.getState();
+    const origin = { system: location.system || 'Sol', coordinates: { ...location.coordinates } };
+
+    const matches = (station: NearestServiceStation) =>
+      !station.type?.includes('Carrier') &&
+      offers(station, service) &&
+      (!pad || (station.maxPad !== null && PAD_RANK[station.maxPad] >= PAD_RANK[pad])) &&
+      (maxDistanceToArrival === undefined ||
+        (station.distanceToArrival !== null && station.distanceToArrival <= maxDistanceToArrival));
+
+    let stations: NearestServiceStation[] = [];
+    let searchedLy = 0;
+    for (const radius of SEARCH_RADII_LY) {
+      searchedLy = radius;
+      stations = galaxyStore
+        .stationsWithin(origin.coordinates, radius)
+        .map((s) => ({ ...s, maxPad: stationMaxPad(s.type) }))
+        .filter(matches);
+      if (stations.length >= limit) break;
+    }
+
+    return { service, origin, searchedLy, stations: stations.slice(0, limit) };
+  }
+}
+
+export const stationFinder = new StationFinder();
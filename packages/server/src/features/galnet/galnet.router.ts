@@ -1,11 +1,16 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type LimitOffsetQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { galnetService } from './galnet.service.js';
 
 export const galnetRouter = Router();
 
-galnetRouter.get('/', async (req: Request, res: Response) => {
+galnetRouter.get('/', apiRoute({
+  summary: 'Latest GalNet articles',
+  query: API_SCHEMAS.LimitOffsetQuery,
+}), async (req: Request, res: Response) => {
   try {
-    const limit = parseInt(req.query.limit as string) || 20;
+    const { limit = 20 } = req.query as LimitOffsetQuery;
     const articles = await galnetService.getArticles(limit);
     res.json({ success: true, data: articles });
   } catch (error) {
@@ -13,7 +18,10 @@ galnetRouter.get('/', async (req: Request, res: Response) => {
   }
 });
 
-galnetRouter.get('/:id', async (req: Request, res: Response) => {
+galnetRouter.get('/:id', apiRoute({
+  summary: 'A GalNet article',
+  errors: { 404: 'Article not found' },
+}), async (req: Request, res: Response) => {
   try {
     const article = await galnetService.getArticle(req.params.id);
     if (!article) { res.status(404).json({ success: false, error: 'Article not found' }); return; }
@@ -23,7 +31,7 @@ galnetRouter.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
-galnetRouter.post('/refresh', async (_req: Request, res: Response) => {
+galnetRouter.post('/refresh', apiRoute({ summary: 'Fetch GalNet again now' }), async (_req: Request, res: Response) => {
   try {
     const count = await galnetService.refresh();
     res.json({ success: true, data: { count } });
@@ -1,9 +1,18 @@
 import { Router, type Request, type Response } from 'express';
+import {
+  API_SCHEMAS,
+  type GraphicsProfileRequest,
+  type ProfileApplyRequest,
+  type QualityPresetApplyRequest,
+} from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { graphicsService } from './graphics.service.js';
 
 export const graphicsRouter = Router();
 
-graphicsRouter.get('/', (_req: Request, res: Response) => {
+graphicsRouter.get('/', apiRoute({
+  summary: 'Graphics profiles, quality presets and which are active',
+}), (_req: Request, res: Response) => {
   res.json({
     success: true,
     data: {
@@ -16,7 +25,9 @@ graphicsRouter.get('/', (_req: Request, res: Response) => {
   });
 });
 
-graphicsRouter.get('/current', (_req: Request, res: Response) => {
+graphicsRouter.get('/current', apiRoute({
+  summary: 'The graphics override file as it is on disk',
+}), (_req: Request, res: Response) => {
   try {
     const xml = graphicsService.readCurrentOverride();
     res.json({ success: true, data: { xml, activeProfile: graphicsService.getActiveProfile() } });
@@ -25,12 +36,11 @@ graphicsRouter.get('/current', (_req: Request, res: Response) => {
   }
 });
 
-graphicsRouter.post('/apply', (req: Request, res: Response) => {
-  const { profileName } = req.body;
-  if (!profileName || typeof profileName !== 'string') {
-    res.status(400).json({ success: false, error: 'Missing or invalid profileName' });
-    return;
-  }
+graphicsRouter.post('/apply', apiRoute({
+  summary: 'Write a graphics profile to the override file',
+  body: API_SCHEMAS.ProfileApplyRequest,
+}), (req: Request, res: Response) => {
+  const { profileName } = req.body as ProfileApplyRequest;
   try {
     const result = graphicsService.applyProfile(profileName);
     if (result.success) res.json({ success: true, data: { applied: profileName } });
@@ -40,12 +50,11 @@ graphicsRouter.post('/apply', (req: Request, res: Response) => {
   }
 });
 
-graphicsRouter.post('/apply-quality', (req: Request, res: Response) => {
-  const { presetName } = req.body;
-  if (!presetName || typeof presetName !== 'string') {
-    res.status(400).json({ success: false, error: 'Missing or invalid presetName' });
-    return;
-  }
+graphicsRouter.post('/apply-quality', apiRoute({
+  summary: 'Apply a quality preset',
+  body: API_SCHEMAS.QualityPresetApplyRequest,
+}), (req: Request, res: Response) => {
+  const { presetName } = req.body as QualityPresetApplyRequest;
   try {
     const result = graphicsService.applyQualityPreset(presetName);
     if (result.success) res.json({ success: true, data: { applied: presetName } });
@@ -55,12 +64,11 @@ graphicsRouter.post('/apply-quality', (req: Request, res: Response) => {
   }
 });
 
-graphicsRouter.post('/profiles', (req: Request, res: Response) => {
-  const { name, description, hudMatrix, fov } = req.body;
-  if (!name || !hudMatrix) {
-    res.status(400).json({ success: false, error: 'Missing name or hudMatrix' });
-    return;
-  }
-  graphicsService.addCustomProfile({ name, description: description || '', hudMatrix, fov: fov || null });
+graphicsRouter.post('/profiles', apiRoute({
+  summary: 'Create or replace a custom graphics profile',
+  body: API_SCHEMAS.GraphicsProfileRequest,
+}), (req: Request, res: Response) => {
+  const { name, description = '', hudMatrix, fov = null } = req.body as GraphicsProfileRequest;
+  graphicsService.addCustomProfile({ name, description, hudMatrix, fov });
   res.json({ success: true, data: { profiles: graphicsService.getProfiles() } });
 });
@@ -0,0 +1 @@
+export { journalRouter } from './journal.router.js';
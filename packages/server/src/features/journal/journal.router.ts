@@ -0,0 +1,154 @@
+import { Router, type Request, type Response } from 'express';
+import {
+  API_SCHEMAS,
+  type CommanderScopeQuery,
+  type JournalEventsQuery,
+  type JournalImportRequest,
+  type JournalSessionsQuery,
+} from '@vayu/shared';
+import { config } from '../../config.js';
+import { apiRoute } from '../../core/api-route.js';
+import { journalStore, type CommanderScope, type JournalStoreQuery } from '../../core/journal-store.js';
+import { journalImporter } from '../../core/journal-importer.js';
+import { journalSchemaReport } from '../../core/journal-schema-report.js';
+import { saveDatabase } from '../../database/index.js';
+import { archiverService } from '../archiver/archiver.service.js';
+
+export const journalRouter = Router();
+
+journalRouter.get('/', apiRoute({
+  summary: 'Journal database totals',
+  query: API_SCHEMAS.CommanderScopeQuery,
+}), (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: journalStore.getStats(parseFid(req.query as CommanderScopeQuery)) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+journalRouter.get('/events', apiRoute({
+  summary: 'Search stored journal events, newest first',
+  query: API_SCHEMAS.JournalEventsQuery,
+}), (req: Request, res: Response) => {
+  try {
+    const { events, pagination } = journalStore.query(parseQuery(req.query as JournalEventsQuery));
+    res.json({ success: true, data: events, pagination });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+journalRouter.get('/events/counts', apiRoute({
+  summary: 'Count stored journal events per type',
+  description: 'Takes the filters of `/api/journal/events` except `events` and `search`; paging and order are ignored.',
+  query: API_SCHEMAS.JournalEventsQuery,
+}), (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: journalStore.countByEvent(parseQuery(req.query as JournalEventsQuery)) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+journalRouter.get('/sessions', apiRoute({
+  summary: 'List play sessions, newest first',
+  query: API_SCHEMAS.JournalSessionsQuery,
+}), (req: Request, res: Response) => {
+  const { limit = 50, offset = 0, ...scope } = req.query as JournalSessionsQuery;
+  try {
+    res.json({ success: true, data: journalStore.getSessions(limit, offset, parseFid(scope)) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+journalRouter.get('/sessions/:id', apiRoute({
+  summary: 'A play session with its event counts',
+  params: { id: { type: 'integer', minimum: 1 } },
+  errors: { 404: 'No such session' },
+}), (req: Request, res: Response) => {
+  try {
+    const id = Number(req.params.id);
+    const session = journalStore.getSession(id);
+    if (!session) { res.status(404).json({ success: false, error: 'Session not found' }); return; }
+    res.json({ success: true, data: { ...session, eventCounts: journalStore.countByEvent({ sessionId: id, fid: null }) } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+/**
+ * Event types and fields seen in the journal that VAYU does not model, and
+ * modelled fields that did not match their type.
+ */
+journalRouter.get('/schema-report', apiRoute({
+  summary: 'Journal events and fields VAYU does not model',
+  description: 'Covers events since the server started or the report was last cleared, including replays.',
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: journalSchemaReport.getReport() });
+});
+
+journalRouter.delete('/schema-report', apiRoute({
+  summary: 'Clear the journal schema report',
+}), (_req: Request, res: Response) => {
+  journalSchemaReport.clear();
+  res.json({ success: true, data: journalSchemaReport.getReport() });
+});
+
+journalRouter.get('/import', apiRoute({
+  summary: 'Progress of the journal history import',
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: journalImporter.getProgress() });
+});
+
+/**
+ * Start a historical import of the journal and backup directories. Runs in
+ * the background; progress is broadcast as `journal:backlog`.
+ */
+journalRouter.post('/import', apiRoute({
+  summary: 'Import journal history in the background',
+  body: API_SCHEMAS.JournalImportRequest,
+  status: 202,
+  errors: { 409: 'An import is already running' },
+}), (req: Request, res: Response) => {
+  if (journalImporter.isRunning()) {
+    res.status(409).json({ success: false, error: 'A journal import is already running' });
+    return;
+  }
+
+  const { full } = req.body as Required<JournalImportRequest>;
+  journalImporter
+    .run([config.paths.journalDir, archiverService.getBackupDir()], { full })
+    .then(() => saveDatabase(config.paths.databasePath))
+    .catch((err) => console.error('[journal] Import failed:', err instanceof Error ? err.message : err));
+
+  res.status(202).json({ success: true, data: { started: true, full } });
+});
+
+/**
+ * Commander scope from `?fid=`: a FID, `all` for every commander, or the
+ * active commander when omitted.
+ */
+function parseFid({ fid }: CommanderScopeQuery): CommanderScope {
+  if (!fid) return undefined;
+  return fid === 'all' ? null : fid;
+}
+
+/** Map `?events=FSDJump,Docked&since=...&session=3` onto a store query. */
+function parseQuery(q: JournalEventsQuery): JournalStoreQuery {
+  const events = q.events ?? q.eventTypes;
+  return {
+    eventTypes: events ? events.split(',').map((e) => e.trim()).filter(Boolean) : undefined,
+    since: q.since,
+    until: q.until,
+    commander: q.commander,
+    search: q.search ?? q.q,
+    sessionId: q.session,
+    // A session belongs to one commander, so it needs no commander scope.
+    fid: q.session !== undefined && !q.fid ? null : parseFid(q),
+    page: q.page,
+    perPage: q.perPage,
+    sortOrder: q.sortOrder,
+  };
+}
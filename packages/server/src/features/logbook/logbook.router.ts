@@ -1,44 +1,78 @@
 import { Router, type Request, type Response } from 'express';
+import {
+  API_SCHEMAS,
+  type JsonSchema,
+  type LimitOffsetQuery,
+  type LogbookCreateRequest,
+  type LogbookUpdateRequest,
+} from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { logbookService } from './logbook.service.js';
 
 export const logbookRouter = Router();
 
-logbookRouter.get('/', (req: Request, res: Response) => {
-  const limit = parseInt(req.query.limit as string) || 50;
-  const offset = parseInt(req.query.offset as string) || 0;
+const entries: JsonSchema = { type: 'array', items: API_SCHEMAS.LogbookEntry };
+
+logbookRouter.get('/', apiRoute({
+  summary: 'Logbook entries, newest first, with totals',
+  query: API_SCHEMAS.LimitOffsetQuery,
+  response: { type: 'object', properties: { entries, stats: API_SCHEMAS.LogbookStats } },
+}), (req: Request, res: Response) => {
+  const { limit = 50, offset = 0 } = req.query as LimitOffsetQuery;
   res.json({ success: true, data: { entries: logbookService.getEntries(limit, offset), stats: logbookService.getStats() } });
 });
 
-logbookRouter.post('/', (req: Request, res: Response) => {
-  const { content, source, tags } = req.body;
-  if (!content) { res.status(400).json({ success: false, error: 'Missing content' }); return; }
-  const entry = logbookService.addEntry(content, source || 'text', tags || []);
+logbookRouter.post('/', apiRoute({
+  summary: 'Write a logbook entry at the current location',
+  body: API_SCHEMAS.LogbookCreateRequest,
+  response: API_SCHEMAS.LogbookEntry,
+}), (req: Request, res: Response) => {
+  const { content, source, tags } = req.body as LogbookCreateRequest;
+  const entry = logbookService.addEntry(content, source, tags);
   res.json({ success: true, data: entry });
 });
 
-logbookRouter.get('/search', (req: Request, res: Response) => {
-  const q = (req.query.q as string) || '';
-  res.json({ success: true, data: logbookService.searchEntries(q) });
+logbookRouter.get('/search', apiRoute({
+  summary: 'Search entries by content, system or tag',
+  query: { type: 'object', properties: { q: { type: 'string', default: '' } } },
+  response: entries,
+}), (req: Request, res: Response) => {
+  res.json({ success: true, data: logbookService.searchEntries(req.query.q as string) });
 });
 
-logbookRouter.get('/system/:name', (req: Request, res: Response) => {
+logbookRouter.get('/system/:name', apiRoute({
+  summary: 'Entries written in a system',
+  response: entries,
+}), (req: Request, res: Response) => {
   res.json({ success: true, data: logbookService.getEntriesBySystem(req.params.name) });
 });
 
-logbookRouter.get('/:id', (req: Request, res: Response) => {
+logbookRouter.get('/:id', apiRoute({
+  summary: 'Get an entry',
+  response: API_SCHEMAS.LogbookEntry,
+  errors: { 404: 'Entry not found' },
+}), (req: Request, res: Response) => {
   const entry = logbookService.getEntry(req.params.id);
   if (!entry) { res.status(404).json({ success: false, error: 'Entry not found' }); return; }
   res.json({ success: true, data: entry });
 });
 
-logbookRouter.put('/:id', (req: Request, res: Response) => {
-  const { content, tags } = req.body;
+logbookRouter.put('/:id', apiRoute({
+  summary: 'Edit an entry',
+  body: API_SCHEMAS.LogbookUpdateRequest,
+  response: API_SCHEMAS.LogbookEntry,
+  errors: { 404: 'Entry not found' },
+}), (req: Request, res: Response) => {
+  const { content, tags } = req.body as LogbookUpdateRequest;
   const entry = logbookService.updateEntry(req.params.id, content, tags);
   if (!entry) { res.status(404).json({ success: false, error: 'Entry not found' }); return; }
   res.json({ success: true, data: entry });
 });
 
-logbookRouter.delete('/:id', (req: Request, res: Response) => {
+logbookRouter.delete('/:id', apiRoute({
+  summary: 'Delete an entry',
+  errors: { 404: 'Entry not found' },
+}), (req: Request, res: Response) => {
   if (logbookService.deleteEntry(req.params.id)) {
     res.json({ success: true });
   } else {
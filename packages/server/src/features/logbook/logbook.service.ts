@@ -4,28 +4,26 @@
  */
 
 import { gameStateManager } from '../../core/game-state.js';
-import { resolveShipName } from '@vayu/shared';
-
-interface LogEntry {
-  id: string;
-  content: string;
-  timestamp: string;
-  system: string;
-  body: string | null;
-  station: string | null;
-  ship: string;
-  shipName: string;
-  tags: string[];
-  source: 'text' | 'voice';
-}
+import { stateSnapshot } from '../../core/state-snapshot.js';
+import { resolveShipName, type LogbookEntry, type LogbookStats } from '@vayu/shared';
 
 class LogbookService {
-  private entries: LogEntry[] = [];
+  private entries: LogbookEntry[] = [];
   private entryCounter = 0;
 
-  addEntry(content: string, source: 'text' | 'voice' = 'text', tags: string[] = []): LogEntry {
+  constructor() {
+    // Entries belong to the commander who wrote them.
+    stateSnapshot.register<LogbookEntry[]>('logbook.entries', {
+      version: 1,
+      save: () => this.entries,
+      restore: (entries) => { this.entries = entries; },
+      reset: () => { this.entries = []; },
+    });
+  }
+
+  addEntry(content: string, source: 'text' | 'voice' = 'text', tags: string[] = []): LogbookEntry {
     const state = gameStateManager.getState();
-    const entry: LogEntry = {
+    const entry: LogbookEntry = {
       id: `log-${++this.entryCounter}-${Date.now()}`,
       content,
       timestamp: new Date().toISOString(),
@@ -41,15 +39,15 @@ class LogbookService {
     return entry;
   }
 
-  getEntries(limit = 50, offset = 0): LogEntry[] {
+  getEntries(limit = 50, offset = 0): LogbookEntry[] {
     return this.entries.slice().reverse().slice(offset, offset + limit);
   }
 
-  getEntry(id: string): LogEntry | null {
+  getEntry(id: string): LogbookEntry | null {
     return this.entries.find((e) => e.id === id) ?? null;
   }
 
-  updateEntry(id: string, content: string, tags?: string[]): LogEntry | null {
+  updateEntry(id: string, content: string, tags?: string[]): LogbookEntry | null {
     const entry = this.entries.find((e) => e.id === id);
     if (!entry) return null;
     entry.content = content;
@@ -64,7 +62,7 @@ class LogbookService {
     return true;
   }
 
-  searchEntries(query: string): LogEntry[] {
+  searchEntries(query: string): LogbookEntry[] {
     const lower = query.toLowerCase();
     return this.entries.filter((e) =>
       e.content.toLowerCase().includes(lower) ||
@@ -73,11 +71,11 @@ class LogbookService {
     );
   }
 
-  getEntriesBySystem(system: string): LogEntry[] {
+  getEntriesBySystem(system: string): LogbookEntry[] {
     return this.entries.filter((e) => e.system.toLowerCase() === system.toLowerCase());
   }
 
-  getStats(): object {
+  getStats(): LogbookStats {
     return {
       totalEntries: this.entries.length,
       voiceEntries: this.entries.filter((e) => e.source === 'voice').length,
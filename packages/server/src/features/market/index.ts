@@ -0,0 +1 @@
+export { marketRouter } from './market.router.js';
@@ -0,0 +1,66 @@
+import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type JsonSchema, type LimitOffsetQuery, type MarketHistoryQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
+import { marketStore } from '../../core/market-store.js';
+
+export const marketRouter = Router();
+
+const marketId: JsonSchema = { type: 'integer' };
+const pricePoints: JsonSchema = { type: 'array', items: API_SCHEMAS.MarketPricePoint };
+
+/** The last market opened, or null before any. New snapshots arrive as `market:snapshot`. */
+marketRouter.get('/', apiRoute({
+  summary: 'The most recent market snapshot',
+  response: API_SCHEMAS.MarketSnapshot,
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: marketStore.getLatestSnapshot() });
+});
+
+marketRouter.get('/stations', apiRoute({
+  summary: 'Stations with recorded markets, most recently visited first',
+  query: API_SCHEMAS.LimitOffsetQuery,
+  response: { type: 'array', items: API_SCHEMAS.MarketStationSummary },
+}), (req: Request, res: Response) => {
+  const { limit = 100, offset = 0 } = req.query as LimitOffsetQuery;
+  res.json({ success: true, data: marketStore.listStations(limit, offset) });
+});
+
+marketRouter.get('/stations/:marketId', apiRoute({
+  summary: 'The latest snapshot of a station market',
+  params: { marketId },
+  response: API_SCHEMAS.MarketSnapshot,
+  errors: { 404: 'No snapshot of this market' },
+}), (req: Request, res: Response) => {
+  const snapshot = marketStore.getLatestSnapshot(Number(req.params.marketId));
+  if (!snapshot) { res.status(404).json({ success: false, error: 'No snapshot of this market' }); return; }
+  res.json({ success: true, data: snapshot });
+});
+
+marketRouter.get('/stations/:marketId/history', apiRoute({
+  summary: 'Price history at a station, oldest first',
+  description: '`?commodity=` narrows it to one commodity, by internal or localised name.',
+  params: { marketId },
+  query: API_SCHEMAS.MarketHistoryQuery,
+  response: pricePoints,
+}), (req: Request, res: Response) => {
+  const query = req.query as MarketHistoryQuery;
+  res.json({ success: true, data: marketStore.getPriceHistory({ ...query, marketId: Number(req.params.marketId) }) });
+});
+
+/** `:name` is the internal name (`gold`, `$gold_name;`) or the localised one. */
+marketRouter.get('/commodities/:name', apiRoute({
+  summary: 'Latest price of a commodity at every recorded station, best selling price first',
+  response: pricePoints,
+}), (req: Request, res: Response) => {
+  res.json({ success: true, data: marketStore.getCommodityPrices(req.params.name) });
+});
+
+marketRouter.get('/commodities/:name/history', apiRoute({
+  summary: 'Price history of a commodity, oldest first',
+  description: '`?marketId=` narrows it to one station.',
+  query: API_SCHEMAS.MarketHistoryQuery,
+  response: pricePoints,
+}), (req: Request, res: Response) => {
+  const query = req.query as MarketHistoryQuery;
+  res.json({ success: true, data: marketStore.getPriceHistory({ ...query, commodity: req.params.name }) });
+});
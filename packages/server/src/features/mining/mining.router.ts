@@ -1,20 +1,25 @@
 import { Router, type Request, type Response } from 'express';
+import { apiRoute } from '../../core/api-route.js';
 import { miningService } from './mining.service.js';
 
 export const miningRouter = Router();
 
-miningRouter.get('/', (_req: Request, res: Response) => {
+miningRouter.get('/', apiRoute({ summary: 'Mining totals across sessions' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: miningService.getMiningSummary() });
 });
 
-miningRouter.get('/current', (_req: Request, res: Response) => {
+miningRouter.get('/current', apiRoute({
+  summary: 'The mining session in progress',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: miningService.getCurrentSession() });
 });
 
-miningRouter.get('/sessions', (_req: Request, res: Response) => {
+miningRouter.get('/sessions', apiRoute({ summary: 'Past mining sessions' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: miningService.getSessions() });
 });
 
-miningRouter.get('/profit', (_req: Request, res: Response) => {
+miningRouter.get('/profit', apiRoute({
+  summary: 'Credits per hour of the current mining session',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: { profitPerHour: miningService.getProfitPerHour() } });
 });
@@ -5,6 +5,7 @@
 
 import { gameStateManager } from '../../core/game-state.js';
 import { eventBus } from '../../core/event-bus.js';
+import { stateSnapshot } from '../../core/state-snapshot.js';
 import type { MiningSession, ProspectorResult, MiningYield } from '@vayu/shared';
 
 class MiningService {
@@ -12,6 +13,13 @@ class MiningService {
   private currentSession: MiningSession | null = null;
 
   constructor() {
+    stateSnapshot.register<MiningSession[]>('mining.sessions', {
+      version: 1,
+      save: () => this.sessions,
+      restore: (sessions) => { this.sessions = sessions; this.currentSession = null; },
+      reset: () => { this.sessions = []; this.currentSession = null; },
+    });
+
     eventBus.onJournalEvent('ProspectedAsteroid', (evt) => {
       this.ensureSession();
       if (!this.currentSession) return;
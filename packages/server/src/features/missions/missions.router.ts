@@ -1,25 +1,32 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type MissionExpiringQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { missionsService } from './missions.service.js';
 
 export const missionsRouter = Router();
 
-missionsRouter.get('/', (_req: Request, res: Response) => {
+missionsRouter.get('/', apiRoute({ summary: 'Mission counts and rewards' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: missionsService.getMissionStats() });
 });
 
-missionsRouter.get('/active', (_req: Request, res: Response) => {
+missionsRouter.get('/active', apiRoute({ summary: 'Missions in progress' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: missionsService.getActiveMissions() });
 });
 
-missionsRouter.get('/completed', (_req: Request, res: Response) => {
+missionsRouter.get('/completed', apiRoute({ summary: 'Completed missions' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: missionsService.getCompletedMissions() });
 });
 
-missionsRouter.get('/expiring', (req: Request, res: Response) => {
-  const hours = parseInt(req.query.hours as string) || 24;
+missionsRouter.get('/expiring', apiRoute({
+  summary: 'Active missions expiring within a number of hours',
+  query: API_SCHEMAS.MissionExpiringQuery,
+}), (req: Request, res: Response) => {
+  const { hours = 24 } = req.query as MissionExpiringQuery;
   res.json({ success: true, data: missionsService.getExpiringMissions(hours) });
 });
 
-missionsRouter.get('/by-destination', (_req: Request, res: Response) => {
+missionsRouter.get('/by-destination', apiRoute({
+  summary: 'Active missions grouped by destination system',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: missionsService.getMissionsByDestination() });
 });
@@ -1,17 +1,31 @@
 import { Router, type Request, type Response } from 'express';
 import { Readable } from 'stream';
+import {
+  API_SCHEMAS,
+  type MusicQueueRequest,
+  type MusicRepeatRequest,
+  type MusicShuffleRequest,
+  type MusicVolumeRequest,
+  type TextSearchQuery,
+} from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { musicService } from './music.service.js';
 
 export const musicRouter = Router();
 
-musicRouter.get('/', (_req: Request, res: Response) => {
+musicRouter.get('/', apiRoute({
+  summary: 'Player state: current track, queue, volume and modes',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: musicService.getState() });
 });
 
-musicRouter.get('/search', async (req: Request, res: Response) => {
+musicRouter.get('/search', apiRoute({
+  summary: 'Search YouTube for tracks',
+  query: API_SCHEMAS.TextSearchQuery,
+  response: { type: 'array', items: API_SCHEMAS.MusicTrack },
+}), async (req: Request, res: Response) => {
   try {
-    const q = (req.query.q as string) || '';
-    if (!q) { res.status(400).json({ success: false, error: 'Missing query parameter q' }); return; }
+    const { q } = req.query as unknown as TextSearchQuery;
     const results = await musicService.search(q);
     res.json({ success: true, data: results });
   } catch (error) {
@@ -24,12 +38,14 @@ musicRouter.get('/search', async (req: Request, res: Response) => {
 // CDN response so the browser <audio> element can play it.
 // ---------------------------------------------------------------------------
 
-musicRouter.get('/stream/:id', async (req: Request, res: Response) => {
-  const id = req.params.id.replace(/[^a-zA-Z0-9_-]/g, '');
-  if (!id) {
-    res.status(400).json({ success: false, error: 'Invalid video ID' });
-    return;
-  }
+musicRouter.get('/stream/:id', apiRoute({
+  summary: 'Stream the audio of a track',
+  description: 'Answers with the audio itself (the upstream content type), not a JSON envelope.',
+  params: { id: { type: 'string', pattern: '^[A-Za-z0-9_-]+$', maxLength: 64, example: 'dQw4w9WgXcQ' } },
+  errors: { 500: 'yt-dlp could not resolve the audio', 502: 'The audio could not be fetched' },
+}), async (req: Request, res: Response) => {
+  // The pattern above keeps the id safe to put in the yt-dlp command line.
+  const { id } = req.params;
 
   try {
     const { exec } = await import('child_process');
@@ -76,16 +92,20 @@ musicRouter.get('/stream/:id', async (req: Request, res: Response) => {
   }
 });
 
-musicRouter.post('/queue', (req: Request, res: Response) => {
-  const { track } = req.body;
-  if (!track || !track.id) { res.status(400).json({ success: false, error: 'Missing track data' }); return; }
+musicRouter.post('/queue', apiRoute({
+  summary: 'Add a track to the queue',
+  body: API_SCHEMAS.MusicQueueRequest,
+}), (req: Request, res: Response) => {
+  const { track } = req.body as MusicQueueRequest;
   musicService.addToQueue(track);
   res.json({ success: true, data: musicService.getState() });
 });
 
-musicRouter.delete('/queue/:index', (req: Request, res: Response) => {
-  const idx = parseInt(req.params.index);
-  if (isNaN(idx) || idx < 0) { res.status(400).json({ success: false, error: 'Invalid queue index — must be a non-negative integer' }); return; }
+musicRouter.delete('/queue/:index', apiRoute({
+  summary: 'Remove a track from the queue',
+  params: { index: { type: 'integer', minimum: 0 } },
+}), (req: Request, res: Response) => {
+  const idx = Number(req.params.index);
   if (musicService.removeFromQueue(idx)) {
     res.json({ success: true, data: musicService.getState() });
   } else {
@@ -93,54 +113,70 @@ musicRouter.delete('/queue/:index', (req: Request, res: Response) => {
   }
 });
 
-musicRouter.post('/queue/clear', (_req: Request, res: Response) => {
+musicRouter.post('/queue/clear', apiRoute({ summary: 'Clear the queue' }), (_req: Request, res: Response) => {
   musicService.clearQueue();
   res.json({ success: true, data: musicService.getState() });
 });
 
-musicRouter.post('/play', (_req: Request, res: Response) => {
+musicRouter.post('/play', apiRoute({ summary: 'Play or resume' }), (_req: Request, res: Response) => {
   musicService.play();
   res.json({ success: true, data: musicService.getState() });
 });
 
-musicRouter.post('/pause', (_req: Request, res: Response) => {
+musicRouter.post('/pause', apiRoute({ summary: 'Pause' }), (_req: Request, res: Response) => {
   musicService.pause();
   res.json({ success: true, data: musicService.getState() });
 });
 
-musicRouter.post('/next', (_req: Request, res: Response) => {
+musicRouter.post('/next', apiRoute({ summary: 'Skip to the next track' }), (_req: Request, res: Response) => {
   musicService.next();
   res.json({ success: true, data: musicService.getState() });
 });
 
-musicRouter.post('/previous', (_req: Request, res: Response) => {
+musicRouter.post('/previous', apiRoute({
+  summary: 'Go back to the previous track',
+}), (_req: Request, res: Response) => {
   musicService.previous();
   res.json({ success: true, data: musicService.getState() });
 });
 
-musicRouter.post('/volume', (req: Request, res: Response) => {
-  const { volume } = req.body;
-  const vol = typeof volume === 'number' ? volume : 80;
-  musicService.setVolume(Math.max(0, Math.min(100, vol)));
+musicRouter.post('/volume', apiRoute({
+  summary: 'Set the volume (0–100)',
+  body: API_SCHEMAS.MusicVolumeRequest,
+}), (req: Request, res: Response) => {
+  const { volume } = req.body as MusicVolumeRequest;
+  musicService.setVolume(volume);
   res.json({ success: true, data: musicService.getState() });
 });
 
-musicRouter.post('/repeat', (req: Request, res: Response) => {
-  const { mode } = req.body;
-  musicService.setRepeat(mode || 'none');
+musicRouter.post('/repeat', apiRoute({
+  summary: 'Set the repeat mode',
+  body: API_SCHEMAS.MusicRepeatRequest,
+}), (req: Request, res: Response) => {
+  const { mode } = req.body as MusicRepeatRequest;
+  musicService.setRepeat(mode);
   res.json({ success: true, data: musicService.getState() });
 });
 
-musicRouter.post('/shuffle', (req: Request, res: Response) => {
-  const { enabled } = req.body;
-  musicService.setShuffle(!!enabled);
+musicRouter.post('/shuffle', apiRoute({
+  summary: 'Turn shuffle on or off',
+  body: API_SCHEMAS.MusicShuffleRequest,
+}), (req: Request, res: Response) => {
+  const { enabled } = req.body as MusicShuffleRequest;
+  musicService.setShuffle(enabled);
   res.json({ success: true, data: musicService.getState() });
 });
 
-musicRouter.get('/queue', (_req: Request, res: Response) => {
+musicRouter.get('/queue', apiRoute({
+  summary: 'Tracks in the queue',
+  response: { type: 'array', items: API_SCHEMAS.MusicTrack },
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: musicService.getQueue() });
 });
 
-musicRouter.get('/history', (_req: Request, res: Response) => {
+musicRouter.get('/history', apiRoute({
+  summary: 'Tracks played, most recent first',
+  response: { type: 'array', items: API_SCHEMAS.MusicTrack },
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: musicService.getHistory() });
 });
@@ -3,14 +3,7 @@
  * YouTube search integration, queue management, and playback controls.
  */
 
-interface MusicTrack {
-  id: string;
-  title: string;
-  artist: string;
-  duration: string;
-  thumbnail: string;
-  url: string;
-}
+import type { MusicTrack } from '@vayu/shared';
 
 interface PlaybackState {
   playing: boolean;
@@ -1,2 +1,3 @@
 export { navigationRouter } from './navigation.router.js';
 export { navigationService } from './navigation.service.js';
+export { navRouteService } from './navroute.service.js';
@@ -1,26 +1,46 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type LimitOffsetQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { navigationService } from './navigation.service.js';
+import { navRouteService } from './navroute.service.js';
 
 export const navigationRouter = Router();
 
-navigationRouter.get('/', (_req: Request, res: Response) => {
+navigationRouter.get('/', apiRoute({
+  summary: 'Location, jump totals and recent jumps',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: navigationService.getNavigationStats() });
 });
 
-navigationRouter.get('/location', (_req: Request, res: Response) => {
+navigationRouter.get('/location', apiRoute({
+  summary: 'The current system, body and station',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: navigationService.getCurrentLocation() });
 });
 
-navigationRouter.get('/history', (req: Request, res: Response) => {
-  const limit = parseInt(req.query.limit as string) || 50;
+/** The plotted route with progress, or null when none is plotted. Live updates arrive as `nav:route`. */
+navigationRouter.get('/route', apiRoute({
+  summary: 'The route plotted in the galaxy map, with progress',
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: navRouteService.getRoute() });
+});
+
+navigationRouter.get('/history', apiRoute({
+  summary: 'Recent jumps, newest first',
+  query: API_SCHEMAS.LimitOffsetQuery,
+}), (req: Request, res: Response) => {
+  const { limit = 50 } = req.query as LimitOffsetQuery;
   res.json({ success: true, data: navigationService.getJumpHistory(limit) });
 });
 
-navigationRouter.get('/visited', (_req: Request, res: Response) => {
+navigationRouter.get('/visited', apiRoute({ summary: 'Systems visited' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: navigationService.getVisitedSystems() });
 });
 
-navigationRouter.get('/lookup/:systemName', async (req: Request, res: Response) => {
+navigationRouter.get('/lookup/:systemName', apiRoute({
+  summary: 'Look up a system in the galaxy database or on EDSM',
+  errors: { 404: 'System not found' },
+}), async (req: Request, res: Response) => {
   try {
     const info = await navigationService.lookupSystem(req.params.systemName);
     if (!info) {
@@ -1,10 +1,12 @@
 /**
  * Navigation & exploration service.
- * Tracks route progress, jump history, system data, and provides EDSM lookups.
+ * Reads jump history from the journal store, tracks system data, and provides
+ * system lookups from the local galaxy database, falling back to EDSM.
  */
 
 import { gameStateManager } from '../../core/game-state.js';
-import { eventBus } from '../../core/event-bus.js';
+import { galaxyStore } from '../../core/galaxy-store.js';
+import { journalStore } from '../../core/journal-store.js';
 import { config } from '../../config.js';
 import { systemDistance } from '@vayu/shared';
 
@@ -29,37 +31,25 @@ interface SystemInfo {
 }
 
 class NavigationService {
-  private jumpHistory: JumpRecord[] = [];
-  private visitedSystems = new Set<string>();
   private systemInfoCache = new Map<string, { data: SystemInfo; expiry: number }>();
 
-  constructor() {
-    eventBus.onJournalEvent('FSDJump', (evt) => {
-      const raw = evt as any;
-      const record: JumpRecord = {
-        timestamp: evt.timestamp,
-        system: raw.StarSystem || 'Unknown',
-        coordinates: {
-          x: raw.StarPos?.[0] ?? 0,
-          y: raw.StarPos?.[1] ?? 0,
-          z: raw.StarPos?.[2] ?? 0,
-        },
-        distance: raw.JumpDist || 0,
-        fuelUsed: raw.FuelUsed || 0,
-        starClass: raw.StarClass || '',
-      };
-      this.jumpHistory.push(record);
-      this.visitedSystems.add(record.system);
-      if (this.jumpHistory.length > 500) this.jumpHistory.shift();
-    });
-  }
-
   getJumpHistory(limit = 50): JumpRecord[] {
-    return this.jumpHistory.slice(-limit).reverse();
+    return journalStore.getEvents('FSDJump', { limit }).map((evt) => ({
+      timestamp: evt.timestamp,
+      system: evt.StarSystem || 'Unknown',
+      coordinates: {
+        x: evt.StarPos?.[0] ?? 0,
+        y: evt.StarPos?.[1] ?? 0,
+        z: evt.StarPos?.[2] ?? 0,
+      },
+      distance: evt.JumpDist || 0,
+      fuelUsed: evt.FuelUsed || 0,
+      starClass: (evt as { StarClass?: string }).StarClass || '',
+    }));
   }
 
   getVisitedSystems(): string[] {
-    return [...this.visitedSystems];
+    return journalStore.distinctValues('FSDJump', 'StarSystem') as string[];
   }
 
   getCurrentLocation(): object {
@@ -85,6 +75,20 @@ class NavigationService {
   }
 
   async lookupSystem(systemName: string): Promise<SystemInfo | null> {
+    const local = galaxyStore.getSystemDetail(systemName);
+    if (local) {
+      return {
+        name: local.name,
+        coordinates: local.coordinates,
+        allegiance: local.allegiance ?? '',
+        economy: local.economy ?? '',
+        government: local.government ?? '',
+        security: local.security ?? '',
+        population: local.population ?? 0,
+        bodyCount: local.bodies.length || null,
+      };
+    }
+
     const cached = this.systemInfoCache.get(systemName);
     if (cached && cached.expiry > Date.now()) return cached.data;
 
@@ -115,11 +119,12 @@ class NavigationService {
 
   getNavigationStats(): object {
     const state = gameStateManager.getState();
+    const jumps = journalStore.sumField('FSDJump', 'JumpDist');
     return {
       currentLocation: this.getCurrentLocation(),
-      totalJumps: this.jumpHistory.length,
-      totalDistance: this.jumpHistory.reduce((s, j) => s + j.distance, 0),
-      uniqueSystems: this.visitedSystems.size,
+      totalJumps: jumps.count,
+      totalDistance: jumps.sum,
+      uniqueSystems: this.getVisitedSystems().length,
       recentJumps: this.getJumpHistory(10),
       sessionStats: {
         jumps: state.session.jumps,
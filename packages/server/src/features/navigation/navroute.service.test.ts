@@ -0,0 +1,155 @@
+/**
+ * AGNI — Unit tests for navroute.service.ts
+ *
+ * Feeds NavRoute.json contents and jumps through the event bus and checks
+ * route progress: loading and re-reading a route, clearing it, waypoints
+ * marked jumped, off-route jumps, the jump-pace ETA, and restoring the
+ * route from the state snapshot.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { initDatabase, closeDatabase } from '../../database/index.js';
+import { eventBus } from '../../core/event-bus.js';
+import { stateSnapshot } from '../../core/state-snapshot.js';
+import { navRouteService } from './navroute.service.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dbPath: string;
+
+/** Four systems along the x axis: jumps of 10, 20 and 30 ly. */
+const ROUTE: Array<[string, number, [number, number, number]]> = [
+  ['Alpha', 1, [0, 0, 0]],
+  ['Beta', 2, [10, 0, 0]],
+  ['Gamma', 3, [30, 0, 0]],
+  ['Delta', 4, [60, 0, 0]],
+];
+
+function navRoute(route = ROUTE): void {
+  eventBus.emitNavRouteUpdate({
+    timestamp: '2025-01-01T09:59:00Z',
+    event: 'NavRoute',
+    Route: route.map(([name, address, pos]) => ({ StarSystem: name, SystemAddress: address, StarPos: pos, StarClass: 'K' })),
+  });
+}
+
+function jump(name: string, address: number, pos: [number, number, number], timestamp: string): void {
+  eventBus.emitJournalEvent({
+    timestamp, event: 'FSDJump', StarSystem: name, SystemAddress: address, StarPos: pos, JumpDist: 10, FuelUsed: 1,
+  } as any);
+}
+
+beforeEach(async () => {
+  dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-navroute-')), 'test.db');
+  await initDatabase(dbPath);
+  // Nothing saved yet, so this resets every contributor, the route included.
+  stateSnapshot.restore({ reset: true });
+});
+
+afterEach(() => {
+  closeDatabase(dbPath);
+  fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('navRouteService', () => {
+  it('should load NavRoute.json with the distances between waypoints', () => {
+    navRoute();
+
+    expect(navRouteService.getRoute()).toMatchObject({
+      source: 'Alpha',
+      destination: 'Delta',
+      currentIndex: 0,
+      next: { system: 'Beta', systemAddress: 2 },
+      totalDistance: 60,
+      jumpCount: 3,
+      remainingJumps: 3,
+      remainingDistance: 60,
+      eta: null,
+    });
+    expect(navRouteService.getRoute()?.waypoints.map((w) => w.jumpDistance)).toEqual([0, 10, 20, 30]);
+  });
+
+  it('should clear the route on an empty Route or NavRouteClear', () => {
+    navRoute();
+    navRoute([]);
+    expect(navRouteService.getRoute()).toBeNull();
+
+    navRoute();
+    eventBus.emitJournalEvent({ timestamp: '2025-01-01T10:00:00Z', event: 'NavRouteClear' } as any);
+    expect(navRouteService.getRoute()).toBeNull();
+  });
+
+  it('should mark waypoints jumped on FSDJump', () => {
+    navRoute();
+    jump('Gamma', 3, [30, 0, 0], '2025-01-01T10:00:00Z');
+
+    const route = navRouteService.getRoute()!;
+    expect(route.waypoints.map((w) => w.jumped)).toEqual([true, true, true, false]);
+    expect(route.waypoints[2].jumpedAt).toBe('2025-01-01T10:00:00Z');
+    expect(route).toMatchObject({ currentIndex: 2, next: { system: 'Delta' }, remainingJumps: 1, remainingDistance: 30 });
+  });
+
+  it('should keep progress when the same route is read again', () => {
+    navRoute();
+    jump('Beta', 2, [10, 0, 0], '2025-01-01T10:00:00Z');
+    navRoute();
+
+    expect(navRouteService.getRoute()).toMatchObject({ currentIndex: 1, remainingJumps: 2 });
+  });
+
+  it('should measure the remaining distance from an off-route system', () => {
+    navRoute();
+    jump('Beta', 2, [10, 0, 0], '2025-01-01T10:00:00Z');
+    jump('Elsewhere', 99, [10, 10, 0], '2025-01-01T10:01:00Z');
+
+    // Elsewhere to Gamma is sqrt(500) ly instead of the 20 ly from Beta.
+    expect(navRouteService.getRoute()).toMatchObject({
+      offRoute: true, currentIndex: 1, remainingJumps: 2, remainingDistance: 52.36,
+    });
+
+    jump('Gamma', 3, [30, 0, 0], '2025-01-01T10:02:00Z');
+    expect(navRouteService.getRoute()).toMatchObject({ offRoute: false, currentIndex: 2, remainingDistance: 30 });
+  });
+
+  it('should estimate arrival from the pace of jumps', () => {
+    navRoute();
+    jump('Beta', 2, [10, 0, 0], '2025-01-01T10:00:00Z');
+    expect(navRouteService.getRoute()?.eta).toBeNull();
+
+    jump('Gamma', 3, [30, 0, 0], '2025-01-01T10:01:00Z');
+    expect(navRouteService.getRoute()).toMatchObject({ averageJumpSeconds: 60, eta: '2025-01-01T10:02:00.000Z' });
+  });
+
+  it('should leave long stops out of the jump pace', () => {
+    navRoute();
+    jump('Beta', 2, [10, 0, 0], '2025-01-01T10:00:00Z');
+    jump('Gamma', 3, [30, 0, 0], '2025-01-01T10:30:00Z');
+
+    expect(navRouteService.getRoute()).toMatchObject({ averageJumpSeconds: null, eta: null });
+  });
+
+  it('should restore the route and its progress from the state snapshot', () => {
+    navRoute();
+    jump('Beta', 2, [10, 0, 0], '2025-01-01T10:00:00Z');
+    jump('Gamma', 3, [30, 0, 0], '2025-01-01T10:01:00Z');
+    stateSnapshot.save();
+
+    navRoute([]);
+    expect(navRouteService.getRoute()).toBeNull();
+
+    stateSnapshot.restore();
+    expect(navRouteService.getRoute()).toMatchObject({
+      currentIndex: 2, remainingJumps: 1, averageJumpSeconds: 60, eta: '2025-01-01T10:02:00.000Z',
+    });
+  });
+});
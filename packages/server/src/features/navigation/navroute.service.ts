@@ -0,0 +1,187 @@
+/**
+ * Live route service.
+ * Tracks the route plotted in the galaxy map (NavRoute.json), marks waypoints
+ * as they are reached by FSDJump, and estimates what is left: jumps, distance
+ * and arrival time from the pace of jumps so far.
+ */
+
+import { eventBus } from '../../core/event-bus.js';
+import { gameStateManager } from '../../core/game-state.js';
+import { stateSnapshot } from '../../core/state-snapshot.js';
+import { wsManager } from '../../websocket.js';
+import { roundTo, systemDistance } from '@vayu/shared';
+import type { NavRouteProgress, RouteProgressWaypoint, RouteWaypoint } from '@vayu/shared';
+
+/** Gaps between jumps longer than this are stops, not part of the jump pace. */
+const MAX_JUMP_GAP_MS = 10 * 60_000;
+
+/** Jump intervals kept for the average. */
+const MAX_INTERVALS = 20;
+
+interface NavRouteEntry {
+  StarSystem: string;
+  SystemAddress: number;
+  StarPos: [number, number, number];
+  StarClass: string;
+}
+
+interface SavedRoute {
+  route: NavRouteProgress;
+  intervals: number[];
+  lastJumpAt: string | null;
+}
+
+class NavRouteService {
+  private route: NavRouteProgress | null = null;
+  /** Milliseconds between consecutive jumps since the route was plotted. */
+  private intervals: number[] = [];
+  private lastJumpAt: string | null = null;
+
+  constructor() {
+    stateSnapshot.register<SavedRoute | null>('navigation.route', {
+      version: 1,
+      save: () => (this.route ? { route: this.route, intervals: this.intervals, lastJumpAt: this.lastJumpAt } : null),
+      restore: (saved) => {
+        this.route = saved?.route ?? null;
+        this.intervals = saved?.intervals ?? [];
+        this.lastJumpAt = saved?.lastJumpAt ?? null;
+      },
+      reset: () => { this.route = null; this.intervals = []; this.lastJumpAt = null; },
+    });
+
+    eventBus.onNavRouteUpdate((data) => this.load(data));
+    eventBus.onJournalEvent('NavRouteClear', () => this.clear());
+
+    eventBus.onJournalEvent('FSDJump', (evt) => {
+      this.recordJumpTime(evt.timestamp);
+      this.arrive(evt.SystemAddress, evt.StarPos, evt.timestamp);
+    });
+    eventBus.onJournalEvent('CarrierJump', (evt) => this.arrive(evt.SystemAddress, evt.StarPos, null));
+    eventBus.onJournalEvent('Location', (evt) => this.arrive(evt.SystemAddress, evt.StarPos, null));
+  }
+
+  /** The current route with progress, or null if none is plotted. */
+  getRoute(): NavRouteProgress | null {
+    return this.route;
+  }
+
+  /** Replace the route with the contents of NavRoute.json. */
+  private load(data: Record<string, unknown>): void {
+    const entries = (data['Route'] as NavRouteEntry[] | undefined) ?? [];
+    if (entries.length < 2) {
+      this.clear();
+      return;
+    }
+
+    // NavRoute.json is re-read on startup; keep progress on a route we already have.
+    if (this.route && sameRoute(this.route.waypoints, entries)) return;
+
+    const waypoints: RouteProgressWaypoint[] = entries.map((entry, i) => ({
+      system: entry.StarSystem,
+      systemAddress: entry.SystemAddress,
+      coordinates: { x: entry.StarPos[0], y: entry.StarPos[1], z: entry.StarPos[2] },
+      starClass: entry.StarClass,
+      jumpDistance: i === 0 ? 0 : roundTo(systemDistance(entries[i - 1].StarPos, entry.StarPos), 2),
+      jumped: false,
+      jumpedAt: null,
+    }));
+
+    const here = gameStateManager.getState().location.systemAddress;
+    const currentIndex = Math.max(0, waypoints.findIndex((w) => w.systemAddress === here));
+    for (const waypoint of waypoints.slice(0, currentIndex + 1)) waypoint.jumped = true;
+
+    this.intervals = [];
+    this.route = {
+      plottedAt: (data['timestamp'] as string | undefined) ?? new Date().toISOString(),
+      source: waypoints[0].system,
+      destination: waypoints[waypoints.length - 1].system,
+      waypoints,
+      currentIndex,
+      next: null,
+      offRoute: false,
+      totalDistance: roundTo(waypoints.reduce((sum, w) => sum + w.jumpDistance, 0), 2),
+      jumpCount: waypoints.length - 1,
+      remainingJumps: 0,
+      remainingDistance: 0,
+      averageJumpSeconds: null,
+      eta: null,
+    };
+    this.update();
+  }
+
+  private clear(): void {
+    if (!this.route) return;
+    this.route = null;
+    this.intervals = [];
+    wsManager.broadcast('nav:routeClear', {});
+  }
+
+  private recordJumpTime(timestamp: string): void {
+    if (this.lastJumpAt) {
+      const gap = Date.parse(timestamp) - Date.parse(this.lastJumpAt);
+      if (gap > 0 && gap <= MAX_JUMP_GAP_MS) {
+        this.intervals.push(gap);
+        if (this.intervals.length > MAX_INTERVALS) this.intervals.shift();
+      }
+    }
+    this.lastJumpAt = timestamp;
+  }
+
+  /** Mark the commander's arrival in a system, on the route or off it. */
+  private arrive(systemAddress: number, starPos: [number, number, number], jumpedAt: string | null): void {
+    const route = this.route;
+    if (!route) return;
+
+    const index = route.waypoints.findIndex((w) => w.systemAddress === systemAddress);
+    if (index === -1) {
+      route.offRoute = true;
+      this.update(starPos);
+      return;
+    }
+
+    for (const waypoint of route.waypoints.slice(0, index + 1)) waypoint.jumped = true;
+    if (index > route.currentIndex) route.waypoints[index].jumpedAt = jumpedAt;
+    route.currentIndex = index;
+    route.offRoute = false;
+    this.update();
+  }
+
+  /** Recompute what is left and broadcast. `position` is where an off-route commander is. */
+  private update(position?: [number, number, number]): void {
+    const route = this.route;
+    if (!route) return;
+
+    const ahead = route.waypoints.slice(route.currentIndex + 1);
+    const next = ahead[0] ?? null;
+    let remaining = ahead.reduce((sum, w) => sum + w.jumpDistance, 0);
+    if (next && route.offRoute && position) {
+      const { x, y, z } = next.coordinates;
+      remaining += systemDistance(position, [x, y, z]) - next.jumpDistance;
+    }
+
+    route.next = next ? toWaypoint(next) : null;
+    route.remainingJumps = ahead.length;
+    route.remainingDistance = roundTo(remaining, 2);
+
+    const average = this.intervals.length > 0
+      ? this.intervals.reduce((a, b) => a + b, 0) / this.intervals.length
+      : null;
+    route.averageJumpSeconds = average === null ? null : Math.round(average / 1000);
+    route.eta = average !== null && this.lastJumpAt && ahead.length > 0
+      ? new Date(Date.parse(this.lastJumpAt) + average * ahead.length).toISOString()
+      : null;
+
+    wsManager.broadcast<NavRouteProgress>('nav:route', route);
+  }
+}
+
+function toWaypoint({ system, systemAddress, coordinates, starClass }: RouteWaypoint): RouteWaypoint {
+  return { system, systemAddress, coordinates, starClass };
+}
+
+function sameRoute(waypoints: RouteProgressWaypoint[], entries: NavRouteEntry[]): boolean {
+  return waypoints.length === entries.length
+    && waypoints.every((w, i) => w.systemAddress === entries[i].SystemAddress);
+}
+
+export const navRouteService = new NavRouteService();
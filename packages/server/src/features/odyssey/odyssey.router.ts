@@ -1,33 +1,42 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type FarmGuideQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { odysseyService } from './odyssey.service.js';
 
 export const odysseyRouter = Router();
 
-odysseyRouter.get('/', (_req: Request, res: Response) => {
+odysseyRouter.get('/', apiRoute({ summary: 'On-foot overview' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: odysseyService.getOdysseySummary() });
 });
 
-odysseyRouter.get('/suits', (_req: Request, res: Response) => {
+odysseyRouter.get('/suits', apiRoute({ summary: 'Suits owned' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: odysseyService.getSuits() });
 });
 
-odysseyRouter.get('/loadouts', (_req: Request, res: Response) => {
+odysseyRouter.get('/loadouts', apiRoute({ summary: 'Suit loadouts' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: odysseyService.getLoadouts() });
 });
 
-odysseyRouter.get('/backpack', (_req: Request, res: Response) => {
+odysseyRouter.get('/backpack', apiRoute({ summary: 'Backpack contents' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: odysseyService.getBackpack() });
 });
 
-odysseyRouter.get('/materials', (_req: Request, res: Response) => {
+odysseyRouter.get('/materials', apiRoute({
+  summary: 'On-foot materials by category',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: odysseyService.getMaterials() });
 });
 
-odysseyRouter.get('/scans', (_req: Request, res: Response) => {
+odysseyRouter.get('/scans', apiRoute({
+  summary: 'Organic scans in progress and done',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: odysseyService.getActiveScans() });
 });
 
-odysseyRouter.get('/farm-guide', (req: Request, res: Response) => {
-  const component = req.query.component as string | undefined;
+odysseyRouter.get('/farm-guide', apiRoute({
+  summary: 'Where to farm on-foot components',
+  query: API_SCHEMAS.FarmGuideQuery,
+}), (req: Request, res: Response) => {
+  const { component } = req.query as FarmGuideQuery;
   res.json({ success: true, data: odysseyService.getFarmGuide(component) });
 });
@@ -1,2 +1,3 @@
 export { outfittingRouter } from './outfitting.router.js';
 export { outfittingService } from './outfitting.service.js';
+export { powerService } from './power.service.js';
@@ -1,16 +1,29 @@
 import { Router, type Request, type Response } from 'express';
+import { apiRoute } from '../../core/api-route.js';
 import { outfittingService } from './outfitting.service.js';
+import { powerService } from './power.service.js';
 
 export const outfittingRouter = Router();
 
-outfittingRouter.get('/', (_req: Request, res: Response) => {
+outfittingRouter.get('/', apiRoute({
+  summary: 'Outfitting summary of the current ship',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: outfittingService.getOutfittingSummary() });
 });
 
-outfittingRouter.get('/loadout', (_req: Request, res: Response) => {
+outfittingRouter.get('/loadout', apiRoute({
+  summary: 'Modules fitted to the current ship',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: outfittingService.getCurrentLoadout() });
 });
 
-outfittingRouter.get('/stored-modules', (_req: Request, res: Response) => {
+outfittingRouter.get('/stored-modules', apiRoute({ summary: 'Modules in storage' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: outfittingService.getStoredModules() });
 });
+
+/** The power budget, or null before ModulesInfo.json has been read. Live updates arrive as `ship:power`. */
+outfittingRouter.get('/power', apiRoute({
+  summary: 'Power draw per priority group and what shuts down at 50% output',
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: powerService.getBudget() });
+});
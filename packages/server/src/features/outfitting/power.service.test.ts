@@ -0,0 +1,205 @@
+/**
+ * AGNI — Unit tests for power.service.ts
+ *
+ * Feeds a ModulesInfo.json and a Loadout through the event bus and checks
+ * the power budget: power plant capacity (rating, Guardian, engineered),
+ * cumulative draw per priority group, what shuts down at 50% output,
+ * deployed-only weapon draw, priority suggestions and warnings.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { initDatabase, closeDatabase } from '../../database/index.js';
+import { eventBus } from '../../core/event-bus.js';
+import { stateSnapshot } from '../../core/state-snapshot.js';
+import { powerService } from './power.service.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dbPath: string;
+
+interface Fit {
+  slot: string;
+  item: string;
+  power: number;
+  /** Priority group as shown in game (1-5). */
+  priority: number;
+  on?: boolean;
+}
+
+const PLANT = 'int_powerplant_size5_class5';
+
+/**
+ * A 5A plant (20.4 MW) feeding 7.6 MW in group 1 (one weapon), 4.8 MW in
+ * group 2 (shields, booster, hatch), a weapon in group 3 and a scoop in
+ * group 4, plus a switched-off module.
+ */
+const FITS: Fit[] = [
+  { slot: 'MainEngines', item: 'int_engine_size5_class5', power: 5, priority: 1 },
+  { slot: 'FrameShiftDrive', item: 'int_hyperdrive_size5_class5', power: 0.6, priority: 1 },
+  { slot: 'PowerDistributor', item: 'int_powerdistributor_size5_class5', power: 0.9, priority: 1 },
+  { slot: 'LifeSupport', item: 'int_lifesupport_size4_class2', power: 0.3, priority: 1 },
+  { slot: 'Radar', item: 'int_sensors_size4_class2', power: 0.3, priority: 1 },
+  { slot: 'MediumHardpoint1', item: 'hpt_multicannon_gimbal_medium', power: 0.5, priority: 1 },
+  { slot: 'Slot01_Size6', item: 'int_shieldgenerator_size6_class5', power: 3, priority: 2 },
+  { slot: 'TinyHardpoint1', item: 'hpt_shieldbooster_size0_class5', power: 1.2, priority: 2 },
+  { slot: 'CargoHatch', item: 'modularcargobaydoor', power: 0.6, priority: 2 },
+  { slot: 'LargeHardpoint1', item: 'hpt_pulselaser_fixed_large', power: 1.5, priority: 3 },
+  { slot: 'Slot02_Size4', item: 'int_fuelscoop_size4_class5', power: 0.5, priority: 4 },
+  { slot: 'Slot03_Size2', item: 'int_dockingcomputer_advanced', power: 0.45, priority: 4, on: false },
+];
+
+function modulesInfo(fits: Fit[], plant = PLANT): void {
+  eventBus.emitModulesUpdate({
+    timestamp: '2025-01-01T10:00:00Z',
+    event: 'ModuleInfo',
+    Modules: [
+      { Slot: 'PowerPlant', Item: plant, Power: 0, Priority: 0 },
+      ...fits.map((f) => ({ Slot: f.slot, Item: f.item, Power: f.power, Priority: f.priority - 1 })),
+    ],
+  });
+}
+
+function loadout(fits: Fit[], plant: Record<string, unknown> = { Item: PLANT }): void {
+  eventBus.emitJournalEvent({
+    timestamp: '2025-01-01T10:00:00Z', event: 'Loadout', Ship: 'python', ShipID: 1, ShipName: 'Test', ShipIdent: 'TS-01',
+    HullValue: 0, ModulesValue: 0, HullHealth: 1, UnladenMass: 400, CargoCapacity: 0, MaxJumpRange: 20, Rebuy: 0,
+    FuelCapacity: { Main: 32, Reserve: 0.83 },
+    Modules: [
+      { Slot: 'PowerPlant', On: true, Priority: 0, Health: 1, ...plant },
+      ...fits.map((f) => ({ Slot: f.slot, Item: f.item, On: f.on ?? true, Priority: f.priority - 1, Health: 1 })),
+    ],
+  } as any);
+}
+
+function fit(fits: Fit[]): void {
+  loadout(fits);
+  modulesInfo(fits);
+}
+
+beforeEach(async () => {
+  dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vayu-power-')), 'test.db');
+  await initDatabase(dbPath);
+  // Nothing saved yet, so this resets every contributor, ModulesInfo included.
+  stateSnapshot.restore({ reset: true });
+});
+
+afterEach(() => {
+  closeDatabase(dbPath);
+  fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Capacity
+// ---------------------------------------------------------------------------
+
+describe('powerService capacity', () => {
+  it('should have no budget before ModulesInfo.json is read', () => {
+    loadout(FITS);
+    expect(powerService.getBudget()).toBeNull();
+  });
+
+  it('should scale the power plant output by size and rating', () => {
+    fit(FITS);
+    expect(powerService.getBudget()?.capacity).toBe(20.4);
+
+    loadout(FITS, { Item: 'int_powerplant_size5_class1' });
+    expect(powerService.getBudget()?.capacity).toBe(13.6);
+  });
+
+  it('should use the Guardian hybrid output', () => {
+    loadout(FITS, { Item: 'int_guardianpowerplant_size5' });
+    modulesInfo(FITS, 'int_guardianpowerplant_size5');
+    expect(powerService.getBudget()?.capacity).toBe(26.9);
+  });
+
+  it('should prefer an engineered PowerCapacity', () => {
+    loadout(FITS, {
+      Item: PLANT,
+      Engineering: {
+        Engineer: 'Hera Tani', EngineerID: 300090, BlueprintName: 'PowerPlant_Boosted', BlueprintID: 128673765,
+        Level: 5, Quality: 1, Modifiers: [{ Label: 'PowerCapacity', Value: 26.112, OriginalValue: 20.4, LessIsGood: 0 }],
+      },
+    });
+    modulesInfo(FITS);
+    expect(powerService.getBudget()?.capacity).toBe(26.11);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Budget
+// ---------------------------------------------------------------------------
+
+describe('powerService budget', () => {
+  it('should total the draw cumulatively per priority group', () => {
+    fit(FITS);
+    const budget = powerService.getBudget()!;
+
+    expect(budget.groups.map((g) => [g.draw, g.retractedTotal, g.deployedTotal])).toEqual([
+      [7.6, 7.1, 7.6],
+      [4.8, 11.9, 12.4],
+      [1.5, 11.9, 13.9],
+      [0.5, 12.4, 14.4],
+      [0, 12.4, 14.4],
+    ]);
+    expect(budget).toMatchObject({ retractedDraw: 12.4, deployedDraw: 14.4, retractedPercent: 60.8, deployedPercent: 70.6 });
+  });
+
+  it('should not count switched-off modules or weapons while retracted', () => {
+    fit(FITS);
+    const budget = powerService.getBudget()!;
+
+    expect(budget.modules.find((m) => m.slot === 'Slot03_Size2')).toMatchObject({ on: false, poweredAtHalf: true });
+    expect(budget.modules.find((m) => m.slot === 'LargeHardpoint1')).toMatchObject({ role: 'weapon', deployedOnly: true });
+    expect(budget.modules.find((m) => m.slot === 'TinyHardpoint1')).toMatchObject({ role: 'defence', deployedOnly: false });
+  });
+
+  it('should shut down every group past half the output at 50%', () => {
+    fit(FITS);
+    const budget = powerService.getBudget()!;
+
+    expect(budget.groups.map((g) => g.poweredAtHalf)).toEqual([true, false, false, false, false]);
+    expect(budget.groups.every((g) => g.poweredAtFull)).toBe(true);
+    expect(budget.modules.filter((m) => m.on && !m.poweredAtHalf).map((m) => m.slot)).toEqual([
+      'Slot01_Size6', 'TinyHardpoint1', 'CargoHatch', 'LargeHardpoint1', 'Slot02_Size4',
+    ]);
+    expect(budget.warnings).toEqual([expect.stringMatching(/^At 50% power these essentials shut down: .*Shield Generator/)]);
+  });
+
+  it('should suggest priorities by role', () => {
+    fit(FITS);
+
+    expect(powerService.getBudget()?.suggestions.map((s) => [s.slot, s.current, s.suggested])).toEqual([
+      ['MediumHardpoint1', 1, 3],
+      ['Slot01_Size6', 2, 1],
+      ['CargoHatch', 2, 5],
+    ]);
+  });
+
+  it('should not suggest anything while everything fits in half the output', () => {
+    fit(FITS.filter((f) => f.priority === 1));
+    const budget = powerService.getBudget()!;
+
+    expect(budget.suggestions).toEqual([]);
+    expect(budget.warnings).toEqual([]);
+  });
+
+  it('should warn when deploying hardpoints overloads the power plant', () => {
+    fit([...FITS, { slot: 'HugeHardpoint1', item: 'hpt_beamlaser_fixed_huge', power: 7, priority: 5 }]);
+    const budget = powerService.getBudget()!;
+
+    expect(budget.groups[4]).toMatchObject({ deployedTotal: 21.4, poweredAtFull: false });
+    expect(budget.warnings[0]).toBe('Deploying hardpoints draws 21.4 MW of 20.4 MW: groups 5-5 shut down');
+  });
+
+  it('should warn when the essentials alone draw more than half the output', () => {
+    fit(FITS.map((f) => (f.slot === 'MainEngines' ? { ...f, power: 6 } : f)));
+
+    expect(powerService.getBudget()?.warnings).toContainEqual(expect.stringMatching(/^Essentials alone draw 11\.1 MW/));
+  });
+});
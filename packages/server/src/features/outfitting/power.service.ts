@@ -0,0 +1,239 @@
+/**
+ * Ship power budget service.
+ * Combines ModulesInfo.json (power draw and priority per slot) with the
+ * Loadout modules in ShipState to work out draw per priority group against
+ * power plant capacity, what shuts down when the power plant drops to 50%
+ * output (overheating or damage), and better priority assignments.
+ */
+
+import { eventBus } from '../../core/event-bus.js';
+import { gameStateManager } from '../../core/game-state.js';
+import { stateSnapshot } from '../../core/state-snapshot.js';
+import { wsManager } from '../../websocket.js';
+import { resolveModuleName, roundTo } from '@vayu/shared';
+import type {
+  PowerBudget,
+  PowerBudgetModule,
+  PowerPriorityGroup,
+  PowerPrioritySuggestion,
+  PowerRole,
+  ShipModule,
+} from '@vayu/shared';
+
+/** Power plant output in MW for C-rated plants, by class. Other ratings scale from it. */
+const POWER_PLANT_OUTPUT: Record<number, number> = { 2: 8, 3: 10, 4: 13, 5: 17, 6: 21, 7: 25, 8: 30 };
+
+/** Rating multipliers, by the `_classN` suffix (1 = E ... 5 = A). */
+const RATING_FACTOR: Record<number, number> = { 1: 0.8, 2: 0.9, 3: 1, 4: 1.1, 5: 1.2 };
+
+/** Guardian hybrid power plant output in MW, by class. */
+const GUARDIAN_OUTPUT: Record<number, number> = { 2: 12.7, 3: 15.8, 4: 20.6, 5: 26.9, 6: 33.3, 7: 39.6, 8: 47.5 };
+
+/** Core slots the ship cannot fly (or flee) without. */
+const ESSENTIAL_SLOTS = new Set(['PowerDistributor', 'MainEngines', 'LifeSupport', 'FrameShiftDrive', 'Radar']);
+
+/** Item fragments of modules that keep the ship alive under fire. */
+const DEFENCE_ITEMS = [
+  'shieldbooster', 'pointdefence', 'chafflauncher', 'heatsinklauncher', 'electroniccountermeasure',
+  'shieldcellbank', 'guardianshieldreinforcement',
+];
+
+/** Suggested priority group per role, and why. */
+const ROLE_PRIORITY: Record<PowerRole, { priority: number; reason: string }> = {
+  essential: { priority: 1, reason: 'Needed to fly and escape; keep it in group 1' },
+  defence: { priority: 2, reason: 'Defences should stay up longer than weapons' },
+  weapon: { priority: 3, reason: 'Weapons only draw when deployed; shed them before defences' },
+  utility: { priority: 4, reason: 'Not needed to survive; shed it before weapons' },
+  'cargo-hatch': { priority: 5, reason: 'Shed first; an unpowered hatch also stops hatch breakers' },
+};
+
+/** Hardpoint weapons, which only draw power with hardpoints deployed (utility mounts are "Tiny"). */
+const WEAPON_SLOT = /^(Small|Medium|Large|Huge)Hardpoint/;
+
+interface ModulesInfoEntry {
+  Slot: string;
+  Item: string;
+  Power: number;
+  Priority: number;
+}
+
+interface ModulesInfo {
+  timestamp: string;
+  modules: ModulesInfoEntry[];
+}
+
+class PowerService {
+  private info: ModulesInfo | null = null;
+
+  constructor() {
+    stateSnapshot.register<ModulesInfo | null>('outfitting.modulesInfo', {
+      version: 1,
+      save: () => this.info,
+      restore: (saved) => { this.info = saved ?? null; },
+      reset: () => { this.info = null; },
+    });
+
+    eventBus.onModulesUpdate((data) => {
+      const modules = data['Modules'] as ModulesInfoEntry[] | undefined;
+      if (!Array.isArray(modules)) return;
+      this.info = { timestamp: String(data['timestamp'] ?? new Date().toISOString()), modules };
+      this.broadcast();
+    });
+
+    // Modules switched on or off come with a new Loadout.
+    eventBus.onJournalEvent('Loadout', () => this.broadcast());
+  }
+
+  /** The current power budget, or null before ModulesInfo.json has been read. */
+  getBudget(): PowerBudget | null {
+    if (!this.info) return null;
+    const { ship } = gameStateManager.getState();
+    const fitted = new Map(ship.modules.map((m) => [m.slot, m]));
+
+    const plantInfo = this.info.modules.find((m) => m.Slot === 'PowerPlant');
+    const plantModule = fitted.get('PowerPlant');
+    const plantItem = plantModule?.item ?? plantInfo?.Item ?? null;
+    const capacity = plantItem ? powerPlantCapacity(plantItem, plantModule) : 0;
+    const half = capacity / 2;
+
+    const modules = this.info.modules
+      .filter((m) => m.Slot !== 'PowerPlant' && m.Power > 0)
+      .map((m): PowerBudgetModule => {
+        const loadout = fitted.get(m.Slot);
+        const role = roleOf(m.Slot, m.Item);
+        return {
+          slot: m.Slot,
+          item: m.Item,
+          name: m.Slot === 'CargoHatch' ? 'Cargo Hatch' : resolveModuleName(m.Item),
+          role,
+          power: roundTo(m.Power, 2),
+          priority: m.Priority + 1,
+          suggestedPriority: ROLE_PRIORITY[role].priority,
+          on: loadout && loadout.item.toLowerCase() === m.Item.toLowerCase() ? loadout.on : true,
+          deployedOnly: WEAPON_SLOT.test(m.Slot),
+          poweredAtFull: true,
+          poweredAtHalf: true,
+        };
+      })
+      .sort((a, b) => a.priority - b.priority || b.power - a.power);
+
+    // A group keeps power while the draw of it and every group above it fits.
+    const groups: PowerPriorityGroup[] = [];
+    let retractedTotal = 0;
+    let deployedTotal = 0;
+    for (let priority = 1; priority <= 5; priority++) {
+      const drawing = modules.filter((m) => m.priority === priority && m.on);
+      const draw = drawing.reduce((sum, m) => sum + m.power, 0);
+      retractedTotal += drawing.filter((m) => !m.deployedOnly).reduce((sum, m) => sum + m.power, 0);
+      deployedTotal += draw;
+      groups.push({
+        priority,
+        draw: roundTo(draw, 2),
+        retractedTotal: roundTo(retractedTotal, 2),
+        deployedTotal: roundTo(deployedTotal, 2),
+        deployedPercent: percent(deployedTotal, capacity),
+        poweredAtFull: deployedTotal <= capacity + 1e-9,
+        poweredAtHalf: deployedTotal <= half + 1e-9,
+      });
+    }
+
+    for (const m of modules) {
+      const group = groups[Math.min(Math.max(m.priority, 1), 5) - 1];
+      m.poweredAtFull = !m.on || group.poweredAtFull;
+      m.poweredAtHalf = !m.on || group.poweredAtHalf;
+    }
+
+    return {
+      timestamp: this.info.timestamp,
+      ship: ship.ship,
+      powerPlant: plantItem ? resolveModuleName(plantItem) : null,
+      capacity: roundTo(capacity, 2),
+      retractedDraw: roundTo(retractedTotal, 2),
+      deployedDraw: roundTo(deployedTotal, 2),
+      retractedPercent: percent(retractedTotal, capacity),
+      deployedPercent: percent(deployedTotal, capacity),
+      groups,
+      modules,
+      // Priorities only matter once something has to shut down.
+      suggestions: deployedTotal > half ? suggest(modules) : [],
+      warnings: warnings(modules, groups, capacity, retractedTotal, deployedTotal),
+    };
+  }
+
+  private broadcast(): void {
+    const budget = this.getBudget();
+    if (budget) wsManager.broadcast<PowerBudget>('ship:power', budget);
+  }
+}
+
+/** Output of a power plant in MW; an engineered `PowerCapacity` wins over the stock figure. */
+function powerPlantCapacity(item: string, fitted: ShipModule | undefined): number {
+  const engineered = fitted?.engineering?.modifiers.find((m) => m.label === 'PowerCapacity');
+  if (engineered) return engineered.value;
+
+  const match = /(guardian)?powerplant_size(\d)(?:_class(\d))?/.exec(item.toLowerCase());
+  if (!match) return 0;
+  const size = Number(match[2]);
+  if (match[1]) return GUARDIAN_OUTPUT[size] ?? 0;
+  return (POWER_PLANT_OUTPUT[size] ?? 0) * (RATING_FACTOR[Number(match[3])] ?? 1);
+}
+
+function roleOf(slot: string, item: string): PowerRole {
+  const id = item.toLowerCase();
+  if (slot === 'CargoHatch') return 'cargo-hatch';
+  if (ESSENTIAL_SLOTS.has(slot) || id.startsWith('int_shieldgenerator')) return 'essential';
+  if (DEFENCE_ITEMS.some((fragment) => id.includes(fragment))) return 'defence';
+  if (WEAPON_SLOT.test(slot)) return 'weapon';
+  return 'utility';
+}
+
+function percent(draw: number, capacity: number): number {
+  return capacity > 0 ? roundTo((draw / capacity) * 100, 1) : 0;
+}
+
+function suggest(modules: PowerBudgetModule[]): PowerPrioritySuggestion[] {
+  return modules
+    .filter((m) => m.priority !== m.suggestedPriority)
+    .map((m) => ({
+      slot: m.slot,
+      name: m.name,
+      current: m.priority,
+      suggested: m.suggestedPriority,
+      reason: ROLE_PRIORITY[m.role].reason,
+    }));
+}
+
+function warnings(
+  modules: PowerBudgetModule[],
+  groups: PowerPriorityGroup[],
+  capacity: number,
+  retracted: number,
+  deployed: number,
+): string[] {
+  const result: string[] = [];
+  if (capacity <= 0) {
+    result.push('Power plant output unknown');
+    return result;
+  }
+
+  const mw = (value: number) => `${roundTo(value, 2)} MW`;
+  const firstLost = groups.find((g) => !g.poweredAtFull);
+  if (retracted > capacity) {
+    result.push(`Draw of ${mw(retracted)} exceeds the power plant's ${mw(capacity)} even with hardpoints retracted`);
+  } else if (firstLost) {
+    result.push(`Deploying hardpoints draws ${mw(deployed)} of ${mw(capacity)}: groups ${firstLost.priority}-5 shut down`);
+  }
+
+  const essentials = modules.filter((m) => m.role === 'essential' && m.on);
+  const lost = essentials.filter((m) => !m.poweredAtHalf);
+  if (lost.length > 0) {
+    result.push(`At 50% power these essentials shut down: ${lost.map((m) => m.name).join(', ')}`);
+  }
+  const essentialDraw = essentials.reduce((sum, m) => sum + m.power, 0);
+  if (essentialDraw > capacity / 2) {
+    result.push(`Essentials alone draw ${mw(essentialDraw)}, more than half of ${mw(capacity)}; no priority order keeps them all up at 50% power`);
+  }
+  return result;
+}
+
+export const powerService = new PowerService();
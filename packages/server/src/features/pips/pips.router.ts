@@ -1,21 +1,28 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type LimitOffsetQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { pipsService } from './pips.service.js';
 
 export const pipsRouter = Router();
 
-pipsRouter.get('/', (_req: Request, res: Response) => {
+pipsRouter.get('/', apiRoute({ summary: 'Power distribution overview' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: pipsService.getPipStats() });
 });
 
-pipsRouter.get('/current', (_req: Request, res: Response) => {
+pipsRouter.get('/current', apiRoute({ summary: 'Current SYS, ENG and WEP pips' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: pipsService.getCurrentPips() });
 });
 
-pipsRouter.get('/recommendation', (_req: Request, res: Response) => {
+pipsRouter.get('/recommendation', apiRoute({
+  summary: 'Recommended pips for the situation',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: pipsService.getRecommendation() });
 });
 
-pipsRouter.get('/history', (req: Request, res: Response) => {
-  const limit = parseInt(req.query.limit as string) || 50;
+pipsRouter.get('/history', apiRoute({
+  summary: 'Recent pip changes',
+  query: API_SCHEMAS.LimitOffsetQuery,
+}), (req: Request, res: Response) => {
+  const { limit = 50 } = req.query as LimitOffsetQuery;
   res.json({ success: true, data: pipsService.getPipHistory(limit) });
 });
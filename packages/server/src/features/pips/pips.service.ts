@@ -35,7 +35,7 @@ class PipsService {
 
   constructor() {
     eventBus.onStatusUpdate((status) => {
-      const pips = status.pips;
+      const pips = status['Pips'];
       if (pips && Array.isArray(pips) && pips.length === 3) {
         const newPips = { sys: pips[0], eng: pips[1], wep: pips[2] };
         if (newPips.sys !== this.currentPips.sys || newPips.eng !== this.currentPips.eng || newPips.wep !== this.currentPips.wep) {
@@ -47,6 +47,11 @@ class PipsService {
         }
       }
     });
+
+    // Deploying or retracting hardpoints changes the context without a pip change.
+    eventBus.onStatusEdge('hardpointsDeployed', () => {
+      wsManager.broadcast('pips:update', { pips: this.currentPips, context: this.detectContext(), recommendation: this.getRecommendation() });
+    });
   }
 
   getCurrentPips(): PipState { return { ...this.currentPips }; }
@@ -54,6 +59,7 @@ class PipsService {
   detectContext(): string {
     const state = gameStateManager.getState();
     if (state.location.docked) return 'docking';
+    if (state.ship.hardpointsDeployed) return 'combat';
     if (state.ship.fuel.main < state.ship.fuel.mainCapacity * 0.5) return 'scooping';
     // Could analyze recent events for combat detection
     return 'exploring';
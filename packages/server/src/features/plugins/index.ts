@@ -0,0 +1 @@
+export { pluginsRouter } from './plugins.router.js';
@@ -0,0 +1,60 @@
+import { Router, type Request, type Response } from 'express';
+import { apiRoute } from '../../core/api-route.js';
+import { pluginManager } from '../../core/plugin-manager.js';
+
+export const pluginsRouter = Router();
+
+/** Every plugin found in the plugins directory, with its load status. */
+pluginsRouter.get('/', apiRoute({
+  summary: 'Plugins in the plugins directory and their load status',
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: pluginManager.list() });
+});
+
+/** Load plugin directories added since boot. */
+pluginsRouter.post('/rescan', apiRoute({
+  summary: 'Load plugin directories added since the server started',
+}), async (_req: Request, res: Response) => {
+  try {
+    const added = await pluginManager.rescan();
+    res.json({ success: true, data: { added, plugins: pluginManager.list() } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+pluginsRouter.get('/:id', apiRoute({
+  summary: 'A plugin and its load status',
+  errors: { 404: 'No such plugin' },
+}), (req: Request, res: Response) => {
+  const plugin = pluginManager.get(req.params.id);
+  if (!plugin) { res.status(404).json({ success: false, error: 'Plugin not found' }); return; }
+  res.json({ success: true, data: plugin });
+});
+
+pluginsRouter.post('/:id/enable', apiRoute({
+  summary: 'Enable and load a plugin',
+  errors: { 404: 'No such plugin', 500: 'The plugin failed to load' },
+}), async (req: Request, res: Response) => {
+  try {
+    const plugin = await pluginManager.enable(req.params.id);
+    if (!plugin) { res.status(404).json({ success: false, error: 'Plugin not found' }); return; }
+    if (plugin.status === 'error') { res.status(500).json({ success: false, error: plugin.error, data: plugin }); return; }
+    res.json({ success: true, data: plugin });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+pluginsRouter.post('/:id/disable', apiRoute({
+  summary: 'Disable and unload a plugin',
+  errors: { 404: 'No such plugin' },
+}), async (req: Request, res: Response) => {
+  try {
+    const plugin = await pluginManager.disable(req.params.id);
+    if (!plugin) { res.status(404).json({ success: false, error: 'Plugin not found' }); return; }
+    res.json({ success: true, data: plugin });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
@@ -1,13 +1,18 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type LimitOffsetQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { powerplayService } from './powerplay.service.js';
 
 export const powerplayRouter = Router();
 
-powerplayRouter.get('/', (_req: Request, res: Response) => {
+powerplayRouter.get('/', apiRoute({ summary: 'Pledged power, rank and merits' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: powerplayService.getPowerplayState() });
 });
 
-powerplayRouter.get('/activities', (req: Request, res: Response) => {
-  const limit = parseInt(req.query.limit as string) || 50;
+powerplayRouter.get('/activities', apiRoute({
+  summary: 'Recent Powerplay activities',
+  query: API_SCHEMAS.LimitOffsetQuery,
+}), (req: Request, res: Response) => {
+  const { limit = 50 } = req.query as LimitOffsetQuery;
   res.json({ success: true, data: powerplayService.getActivities(limit) });
 });
@@ -1,12 +1,15 @@
 import { Router, type Request, type Response } from 'express';
+import { apiRoute } from '../../core/api-route.js';
 import { preflightService } from './preflight.service.js';
 
 export const preflightRouter = Router();
 
-preflightRouter.get('/', (_req: Request, res: Response) => {
+preflightRouter.get('/', apiRoute({ summary: 'Pre-flight checklist totals' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: preflightService.getChecklistSummary() });
 });
 
-preflightRouter.get('/checklist', (_req: Request, res: Response) => {
+preflightRouter.get('/checklist', apiRoute({
+  summary: 'Run the pre-flight checklist against the current ship',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: preflightService.runChecklist() });
 });
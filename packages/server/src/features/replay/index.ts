@@ -0,0 +1 @@
+export { replayRouter } from './replay.router.js';
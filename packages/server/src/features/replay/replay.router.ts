@@ -0,0 +1,92 @@
+import { Router, type Request, type Response } from 'express';
+import {
+  API_SCHEMAS,
+  type ReplayLoadRequest,
+  type ReplaySeekRequest,
+  type ReplaySpeedRequest,
+  type ReplayStepRequest,
+} from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
+import { journalReplay } from '../../core/journal-replay.js';
+
+export const replayRouter = Router();
+
+replayRouter.get('/', apiRoute({
+  summary: 'Replay status: source, position, speed and playback state',
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: journalReplay.getStatus() });
+});
+
+replayRouter.post('/load', apiRoute({
+  summary: 'Load a journal file or directory for replay',
+  body: API_SCHEMAS.ReplayLoadRequest,
+}), async (req: Request, res: Response) => {
+  const { path, speed, maxGapMs, persist, autoplay } = req.body as ReplayLoadRequest;
+  try {
+    await journalReplay.load(path, { speed, maxGapMs, persist });
+    if (autoplay) journalReplay.play();
+    res.json({ success: true, data: journalReplay.getStatus() });
+  } catch (error) {
+    res.status(400).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+replayRouter.post('/play', apiRoute({ summary: 'Start or resume playback', errors: { 409: 'No replay loaded' } }), (_req: Request, res: Response) => {
+  if (!requireLoaded(res)) return;
+  journalReplay.play();
+  res.json({ success: true, data: journalReplay.getStatus() });
+});
+
+replayRouter.post('/pause', apiRoute({ summary: 'Pause playback', errors: { 409: 'No replay loaded' } }), (_req: Request, res: Response) => {
+  if (!requireLoaded(res)) return;
+  journalReplay.pause();
+  res.json({ success: true, data: journalReplay.getStatus() });
+});
+
+replayRouter.post('/step', apiRoute({
+  summary: 'Emit the next events immediately',
+  body: API_SCHEMAS.ReplayStepRequest,
+  errors: { 409: 'No replay loaded' },
+}), (req: Request, res: Response) => {
+  if (!requireLoaded(res)) return;
+  const { count = 1 } = req.body as ReplayStepRequest;
+  const events = journalReplay.step(count);
+  res.json({ success: true, data: { ...journalReplay.getStatus(), emitted: events.map((e) => ({ event: e.event, timestamp: e.timestamp })) } });
+});
+
+replayRouter.post('/seek', apiRoute({
+  summary: 'Jump to an event index or timestamp',
+  body: API_SCHEMAS.ReplaySeekRequest,
+  errors: { 409: 'No replay loaded, or seeking backward in a persistent replay' },
+}), (req: Request, res: Response) => {
+  if (!requireLoaded(res)) return;
+  const target = req.body as ReplaySeekRequest;
+  if (!journalReplay.seek('position' in target ? target.position : target.timestamp)) {
+    res.status(409).json({ success: false, error: 'A persistent replay cannot seek backward' });
+    return;
+  }
+  res.json({ success: true, data: journalReplay.getStatus() });
+});
+
+replayRouter.post('/speed', apiRoute({
+  summary: 'Change the playback speed',
+  body: API_SCHEMAS.ReplaySpeedRequest,
+  errors: { 409: 'No replay loaded' },
+}), (req: Request, res: Response) => {
+  if (!requireLoaded(res)) return;
+  if (!journalReplay.setSpeed((req.body as ReplaySpeedRequest).speed)) {
+    res.status(400).json({ success: false, error: 'speed must be a positive number' }); return;
+  }
+  res.json({ success: true, data: journalReplay.getStatus() });
+});
+
+replayRouter.post('/unload', apiRoute({ summary: 'Stop and discard the replay' }), (_req: Request, res: Response) => {
+  journalReplay.unload();
+  res.json({ success: true, data: journalReplay.getStatus() });
+});
+
+function requireLoaded(res: Response): boolean {
+  if (journalReplay.isLoaded()) return true;
+  res.status(409).json({ success: false, error: 'No replay loaded' });
+  return false;
+}
@@ -1,28 +1,39 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type LimitOffsetQuery, type TextSearchQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { screenshotsService } from './screenshots.service.js';
 
 export const screenshotsRouter = Router();
 
-screenshotsRouter.get('/', (req: Request, res: Response) => {
+screenshotsRouter.get('/', apiRoute({
+  summary: 'Screenshots, newest first, with totals',
+  query: API_SCHEMAS.LimitOffsetQuery,
+}), (req: Request, res: Response) => {
   try {
-    const limit = parseInt(req.query.limit as string) || 50;
-    const offset = parseInt(req.query.offset as string) || 0;
+    const { limit = 50, offset = 0 } = req.query as LimitOffsetQuery;
     res.json({ success: true, data: { screenshots: screenshotsService.getScreenshots(limit, offset), stats: screenshotsService.getStats() } });
   } catch (error) {
     res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
   }
 });
 
-screenshotsRouter.get('/search', (req: Request, res: Response) => {
-  const q = (req.query.q as string) || '';
+screenshotsRouter.get('/search', apiRoute({
+  summary: 'Screenshots whose system, file name or ship matches',
+  query: API_SCHEMAS.TextSearchQuery,
+}), (req: Request, res: Response) => {
+  const { q } = req.query as unknown as TextSearchQuery;
   res.json({ success: true, data: screenshotsService.search(q) });
 });
 
-screenshotsRouter.get('/system/:name', (req: Request, res: Response) => {
+screenshotsRouter.get('/system/:name', apiRoute({
+  summary: 'Screenshots taken in a system',
+}), (req: Request, res: Response) => {
   res.json({ success: true, data: screenshotsService.getScreenshotsBySystem(req.params.name) });
 });
 
-screenshotsRouter.post('/scan', async (_req: Request, res: Response) => {
+screenshotsRouter.post('/scan', apiRoute({
+  summary: 'Rescan the screenshots directory',
+}), async (_req: Request, res: Response) => {
   try {
     const count = await screenshotsService.scanDirectory();
     res.json({ success: true, data: { scanned: count } });
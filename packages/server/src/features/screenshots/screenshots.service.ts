@@ -42,6 +42,12 @@ class ScreenshotsService {
         });
       }
     });
+
+    eventBus.onSettingsChange((changes) => {
+      if (!changes.some((c) => c.key === 'paths.screenshotsDir')) return;
+      this.screenshots = [];
+      this.scanDirectory().catch(() => {});
+    });
   }
 
   async scanDirectory(): Promise<number> {
@@ -0,0 +1 @@
+export { settingsRouter } from './settings.router.js';
@@ -0,0 +1,53 @@
+import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type SettingsUpdateRequest } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
+import { settingsService, SettingsValidationError } from '../../core/settings.js';
+
+export const settingsRouter = Router();
+
+/** Every runtime setting with its schema, effective value and source. */
+settingsRouter.get('/', apiRoute({
+  summary: 'Every runtime setting and where its value comes from',
+}), (_req: Request, res: Response) => {
+  res.json({ success: true, data: settingsService.getAll() });
+});
+
+settingsRouter.get('/:key', apiRoute({
+  summary: 'A runtime setting',
+  errors: { 404: 'No such setting' },
+}), (req: Request, res: Response) => {
+  const setting = settingsService.get(req.params.key);
+  if (!setting) { res.status(404).json({ success: false, error: 'Setting not found' }); return; }
+  res.json({ success: true, data: setting });
+});
+
+/** Update several settings at once: body is `{ "<key>": value, ... }`. */
+settingsRouter.put('/', apiRoute({
+  summary: 'Change several settings at once',
+  body: API_SCHEMAS.SettingsUpdateRequest,
+}), (req: Request, res: Response) => {
+  const values = req.body as SettingsUpdateRequest;
+  try {
+    const changes = settingsService.update(values);
+    res.json({ success: true, data: { changes, settings: settingsService.getAll() } });
+  } catch (error) {
+    if (error instanceof SettingsValidationError) {
+      res.status(400).json({ success: false, error: error.message, errors: error.errors }); return;
+    }
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+/** Remove the override and fall back to the `.env`/default value. */
+settingsRouter.delete('/:key', apiRoute({
+  summary: 'Reset a setting to its .env or default value',
+  errors: { 404: 'No such setting' },
+}), (req: Request, res: Response) => {
+  try {
+    const changes = settingsService.reset(req.params.key);
+    if (!changes) { res.status(404).json({ success: false, error: 'Setting not found' }); return; }
+    res.json({ success: true, data: { changes, setting: settingsService.get(req.params.key) } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
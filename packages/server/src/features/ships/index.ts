@@ -1,2 +1,3 @@
 export { shipsRouter } from './ships.router.js';
 export { shipsService } from './ships.service.js';
+export { jumpRangeService } from './jump-range.service.js';
@@ -0,0 +1,164 @@
+/**
+ * Jump range service.
+ * Models each ship's frame shift drive from its Loadout (drive stats,
+ * engineering, Guardian FSD booster) and works out its longest, unladen,
+ * laden and current jump range and the fuel per jump. The last Loadout of
+ * every ship flown is kept, so stored ships have ranges too; the current
+ * ship's range is broadcast as `ship:jumpRange` whenever the cargo or fuel
+ * on board changes it.
+ */
+
+import { eventBus } from '../../core/event-bus.js';
+import { gameStateManager } from '../../core/game-state.js';
+import { stateSnapshot } from '../../core/state-snapshot.js';
+import { wsManager } from '../../websocket.js';
+import { buildFsdModel, fsdJumpFuel, fsdJumpRange, roundTo } from '@vayu/shared';
+import type { FsdLoadout, FsdModel, JumpRangeOverview, ShipJumpRange } from '@vayu/shared';
+
+/** What is kept of a ship's last Loadout. */
+interface SavedLoadout extends FsdLoadout {
+  shipId: number;
+  ship: string;
+  shipName: string;
+  cargoCapacity: number;
+  fuelCapacity: number;
+  timestamp: string;
+}
+
+class JumpRangeService {
+  /** Last Loadout per ship, least recently flown first. */
+  private loadouts = new Map<number, SavedLoadout>();
+  /** Current range and fuel per jump last broadcast, to skip unchanged updates. */
+  private lastBroadcast = '';
+
+  constructor() {
+    stateSnapshot.register<SavedLoadout[]>('ships.loadouts', {
+      version: 1,
+      save: () => [...this.loadouts.values()],
+      restore: (saved) => { this.loadouts = new Map(saved.map((l) => [l.shipId, l])); },
+      reset: () => { this.loadouts.clear(); this.lastBroadcast = ''; },
+    });
+
+    eventBus.onJournalEvent('Loadout', (e) => {
+      const fsd = e.Modules.find((m) => m.Slot === 'FrameShiftDrive');
+      if (!fsd) return;
+      this.loadouts.delete(e.ShipID);
+      this.loadouts.set(e.ShipID, {
+        shipId: e.ShipID,
+        ship: e.Ship,
+        shipName: e.ShipName,
+        cargoCapacity: e.CargoCapacity,
+        fuelCapacity: e.FuelCapacity.Main,
+        timestamp: e.timestamp,
+        fsdItem: fsd.Item,
+        modifiers: (fsd.Engineering?.Modifiers ?? []).map((m) => ({ label: m.Label, value: m.Value })),
+        boosterItem: e.Modules.find((m) => /^int_guardianfsdbooster/i.test(m.Item))?.Item ?? null,
+        unladenMass: e.UnladenMass,
+        reportedMaxRange: e.MaxJumpRange,
+      });
+      this.broadcast();
+    });
+
+    // Fuel and cargo come from Status.json, journal events and Cargo.json
+    eventBus.onStatusUpdate(() => this.broadcast());
+    eventBus.onGameStateChange((change) => {
+      if (change['section'] === 'ship') this.broadcast();
+    });
+  }
+
+  /**
+   * Ranges of the ship being flown and every other ship seen.
+   *
+   * @param distance - Also work out the fuel for a jump of this many light years.
+   */
+  getOverview(distance?: number): JumpRangeOverview {
+    const { ship } = gameStateManager.getState();
+    let current: ShipJumpRange | null = null;
+    const stored: ShipJumpRange[] = [];
+    for (const saved of [...this.loadouts.values()].reverse()) {
+      const active = saved.shipId === ship.shipId;
+      const range = this.rangeOf(saved, active, distance);
+      if (!range) continue;
+      if (active) current = range;
+      else stored.push(range);
+    }
+    return { current, stored };
+  }
+
+  /** Ranges of the ship being flown, or null before its Loadout. */
+  getCurrent(distance?: number): ShipJumpRange | null {
+    const saved = this.loadouts.get(gameStateManager.getState().ship.shipId);
+    return saved ? this.rangeOf(saved, true, distance) : null;
+  }
+
+  /** The FSD model and masses of the ship being flown, for the route plotter; null before its Loadout. */
+  getCurrentDrive(): { fsd: FsdModel; unladenMass: number; fuelCapacity: number; fuel: number; cargo: number } | null {
+    const { ship } = gameStateManager.getState();
+    const saved = this.loadouts.get(ship.shipId);
+    const fsd = saved ? buildFsdModel(saved) : null;
+    if (!saved || !fsd) return null;
+    return {
+      fsd,
+      unladenMass: saved.unladenMass,
+      fuelCapacity: saved.fuelCapacity,
+      fuel: ship.fuel.main,
+      cargo: ship.cargoCount,
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private rangeOf(saved: SavedLoadout, active: boolean, distance?: number): ShipJumpRange | null {
+    const fsd = buildFsdModel(saved);
+    if (!fsd) return null;
+
+    const { unladenMass, cargoCapacity, fuelCapacity } = saved;
+    const full = unladenMass + fuelCapacity;
+    const { ship } = gameStateManager.getState();
+    const now = active ? { mass: unladenMass + ship.fuel.main + ship.cargoCount, fuel: ship.fuel.main } : null;
+
+    const currentRange = now ? fsdJumpRange(fsd, now.mass, now.fuel) : null;
+    const jumpMass = now ? now.mass : full;
+    const jumpRange = currentRange ?? fsdJumpRange(fsd, full, fuelCapacity);
+
+    const result: ShipJumpRange = {
+      shipId: saved.shipId,
+      ship: saved.ship,
+      shipName: saved.shipName,
+      active,
+      fsd: {
+        item: saved.fsdItem,
+        ...fsd,
+        optimalMass: roundTo(fsd.optimalMass, 1),
+      },
+      unladenMass,
+      cargoCapacity,
+      fuelCapacity,
+      maxRange: roundTo(fsdJumpRange(fsd, unladenMass + Math.min(fuelCapacity, fsd.maxFuelPerJump), fuelCapacity), 2),
+      unladenRange: roundTo(fsdJumpRange(fsd, full, fuelCapacity), 2),
+      ladenRange: roundTo(fsdJumpRange(fsd, full + cargoCapacity, fuelCapacity), 2),
+      currentRange: currentRange === null ? null : roundTo(currentRange, 2),
+      fuelPerJump: roundTo(fsdJumpFuel(fsd, jumpMass, jumpRange) ?? fsd.maxFuelPerJump, 2),
+      reportedMaxRange: roundTo(saved.reportedMaxRange, 2),
+      loadoutAt: saved.timestamp,
+    };
+    if (distance !== undefined) {
+      const fuel = fsdJumpFuel(fsd, jumpMass, distance);
+      result.jumpFuel = { distance, fuel: fuel === null ? null : roundTo(fuel, 2) };
+    }
+    return result;
+  }
+
+  private broadcast(): void {
+    const current = this.getCurrent();
+    if (!current) return;
+    const key = `${current.shipId}:${current.currentRange}:${current.fuelPerJump}:${current.ladenRange}`;
+    if (key === this.lastBroadcast) return;
+    this.lastBroadcast = key;
+    wsManager.broadcast<ShipJumpRange>('ship:jumpRange', current);
+  }
+}
+
+export const jumpRangeService = new JumpRangeService();
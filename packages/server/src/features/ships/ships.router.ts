@@ -1,16 +1,29 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type JumpRangeQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
+import { jumpRangeService } from './jump-range.service.js';
 import { shipsService } from './ships.service.js';
 
 export const shipsRouter = Router();
 
-shipsRouter.get('/', (_req: Request, res: Response) => {
+shipsRouter.get('/', apiRoute({ summary: 'Fleet summary' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: shipsService.getFleetSummary() });
 });
 
-shipsRouter.get('/current', (_req: Request, res: Response) => {
+shipsRouter.get('/current', apiRoute({ summary: 'The ship currently flown' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: shipsService.getCurrentShip() });
 });
 
-shipsRouter.get('/stored', (_req: Request, res: Response) => {
+shipsRouter.get('/stored', apiRoute({ summary: 'Ships in storage' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: shipsService.getStoredShips() });
 });
+
+/** Jump ranges of the current ship and of stored ships from their last Loadouts. Live updates arrive as `ship:jumpRange`. */
+shipsRouter.get('/jump-range', apiRoute({
+  summary: 'Laden, unladen and current jump range and fuel per jump, per ship',
+  query: API_SCHEMAS.JumpRangeQuery,
+  response: API_SCHEMAS.JumpRangeOverview,
+}), (req: Request, res: Response) => {
+  const { distance } = req.query as JumpRangeQuery;
+  res.json({ success: true, data: jumpRangeService.getOverview(distance) });
+});
@@ -5,6 +5,7 @@
 
 import { gameStateManager } from '../../core/game-state.js';
 import { eventBus } from '../../core/event-bus.js';
+import { stateSnapshot } from '../../core/state-snapshot.js';
 import { resolveShipName } from '@vayu/shared';
 
 interface StoredShip {
@@ -23,6 +24,13 @@ class ShipsService {
   private storedShips: StoredShip[] = [];
 
   constructor() {
+    stateSnapshot.register<StoredShip[]>('ships.storedShips', {
+      version: 1,
+      save: () => this.storedShips,
+      restore: (ships) => { this.storedShips = ships; },
+      reset: () => { this.storedShips = []; },
+    });
+
     eventBus.onJournalEvent('StoredShips', (evt) => {
       const raw = evt as any;
       const ships = raw.ShipsHere as Array<any> || [];
@@ -0,0 +1 @@
+export { stationsRouter } from './stations.router.js';
@@ -0,0 +1,37 @@
+import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type ForSaleQuery, type LimitOffsetQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
+import { stationCatalogue } from '../../core/station-catalogue.js';
+
+export const stationsRouter = Router();
+
+stationsRouter.get('/', apiRoute({
+  summary: 'Stations whose shipyard or outfitting has been seen, most recent first',
+  query: API_SCHEMAS.LimitOffsetQuery,
+  response: { type: 'array', items: API_SCHEMAS.CatalogueStation },
+}), (req: Request, res: Response) => {
+  const { limit = 100, offset = 0 } = req.query as LimitOffsetQuery;
+  res.json({ success: true, data: stationCatalogue.listStations(limit, offset) });
+});
+
+/** "Where have I seen a 5A FSD for sale?" — nearest station first. */
+stationsRouter.get('/for-sale', apiRoute({
+  summary: 'Where a ship or module was seen for sale, nearest first',
+  description: 'Matches display names word by word and understands shorthand such as `FSD` or `Mk2`.',
+  query: API_SCHEMAS.ForSaleQuery,
+  response: { type: 'array', items: API_SCHEMAS.ForSaleListing },
+}), (req: Request, res: Response) => {
+  const { q, kind, limit } = req.query as unknown as ForSaleQuery;
+  res.json({ success: true, data: stationCatalogue.findForSale(q, kind, limit) });
+});
+
+stationsRouter.get('/:marketId', apiRoute({
+  summary: 'Ships and modules for sale at a station at the last visit',
+  params: { marketId: { type: 'integer' } },
+  response: API_SCHEMAS.StationCatalogue,
+  errors: { 404: 'Station not in the catalogue' },
+}), (req: Request, res: Response) => {
+  const station = stationCatalogue.getStation(Number(req.params.marketId));
+  if (!station) { res.status(404).json({ success: false, error: 'Station not in the catalogue' }); return; }
+  res.json({ success: true, data: station });
+});
@@ -1,21 +1,28 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type LimitOffsetQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { threatsService } from './threats.service.js';
 
 export const threatsRouter = Router();
 
-threatsRouter.get('/', (_req: Request, res: Response) => {
+threatsRouter.get('/', apiRoute({ summary: 'Threat overview' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: threatsService.getThreatSummary() });
 });
 
-threatsRouter.get('/current', (_req: Request, res: Response) => {
+threatsRouter.get('/current', apiRoute({
+  summary: 'Threat level of the current system, or null',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: threatsService.getCurrentSystemThreat() });
 });
 
-threatsRouter.get('/known', (_req: Request, res: Response) => {
+threatsRouter.get('/known', apiRoute({ summary: 'Systems known to be dangerous' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: threatsService.getKnownThreats() });
 });
 
-threatsRouter.get('/interdictions', (req: Request, res: Response) => {
-  const limit = parseInt(req.query.limit as string) || 20;
+threatsRouter.get('/interdictions', apiRoute({
+  summary: 'Interdictions, newest first',
+  query: API_SCHEMAS.LimitOffsetQuery,
+}), (req: Request, res: Response) => {
+  const { limit = 20 } = req.query as LimitOffsetQuery;
   res.json({ success: true, data: threatsService.getInterdictions(limit) });
 });
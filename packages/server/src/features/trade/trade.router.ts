@@ -1,27 +1,32 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type CommoditySearchQuery } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { tradeService } from './trade.service.js';
 
 export const tradeRouter = Router();
 
-tradeRouter.get('/', (_req: Request, res: Response) => {
+tradeRouter.get('/', apiRoute({
+  summary: 'Location, cargo and trade session totals',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: tradeService.getTradeStats() });
 });
 
-tradeRouter.get('/sessions', (_req: Request, res: Response) => {
+tradeRouter.get('/sessions', apiRoute({ summary: 'Past trade sessions' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: tradeService.getSessions() });
 });
 
-tradeRouter.get('/current', (_req: Request, res: Response) => {
+tradeRouter.get('/current', apiRoute({
+  summary: 'The trade session in progress, or null',
+}), (_req: Request, res: Response) => {
   res.json({ success: true, data: tradeService.getCurrentSession() });
 });
 
-tradeRouter.get('/search', async (req: Request, res: Response) => {
+tradeRouter.get('/search', apiRoute({
+  summary: 'Best places to sell a commodity near the current system',
+  query: API_SCHEMAS.CommoditySearchQuery,
+}), async (req: Request, res: Response) => {
   try {
-    const commodity = (req.query.commodity as string) || '';
-    if (!commodity.trim()) {
-      res.status(400).json({ success: false, error: 'Missing commodity query parameter' });
-      return;
-    }
+    const { commodity } = req.query as unknown as CommoditySearchQuery;
     const prices = await tradeService.searchCommodityPrices(commodity);
     res.json({ success: true, data: { commodity, prices } });
   } catch (error) {
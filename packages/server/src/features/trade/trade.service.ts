@@ -5,6 +5,7 @@
 
 import { gameStateManager } from '../../core/game-state.js';
 import { eventBus } from '../../core/event-bus.js';
+import { stateSnapshot } from '../../core/state-snapshot.js';
 import { config } from '../../config.js';
 import {
   searchBestSellPrice,
@@ -55,6 +56,13 @@ class TradeService {
   private priceCache: Map<string, { data: CommodityPrice[]; expiry: number }> = new Map();
 
   constructor() {
+    stateSnapshot.register<InternalTradeSession[]>('trade.sessions', {
+      version: 1,
+      save: () => this.tradeSessions,
+      restore: (sessions) => { this.tradeSessions = sessions; this.currentSession = null; },
+      reset: () => { this.tradeSessions = []; this.currentSession = null; },
+    });
+
     eventBus.onJournalEvent('MarketSell', (evt) => {
       if (!this.currentSession) this.startSession();
       if (this.currentSession) {
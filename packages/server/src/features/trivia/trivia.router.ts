@@ -1,14 +1,20 @@
 import { Router, type Request, type Response } from 'express';
+import { API_SCHEMAS, type TriviaAnswerRequest, type TriviaRandomQuery, type TriviaStartRequest } from '@vayu/shared';
+import { apiRoute } from '../../core/api-route.js';
 import { triviaService } from './trivia.service.js';
 
 export const triviaRouter = Router();
 
-triviaRouter.get('/', (_req: Request, res: Response) => {
+triviaRouter.get('/', apiRoute({ summary: 'Trivia totals and categories' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: triviaService.getStats() });
 });
 
-triviaRouter.get('/random', (req: Request, res: Response) => {
-  const category = req.query.category as string | undefined;
+triviaRouter.get('/random', apiRoute({
+  summary: 'A random question, without its answer',
+  query: API_SCHEMAS.TriviaRandomQuery,
+  errors: { 404: 'No questions in the category' },
+}), (req: Request, res: Response) => {
+  const { category } = req.query as TriviaRandomQuery;
   const question = triviaService.getRandomQuestion(category);
   if (!question) { res.status(404).json({ success: false, error: 'No questions available' }); return; }
   // Don't send correctIndex to client
@@ -16,33 +22,34 @@ triviaRouter.get('/random', (req: Request, res: Response) => {
   res.json({ success: true, data: safe });
 });
 
-triviaRouter.post('/start', (req: Request, res: Response) => {
-  const { count, category, difficulty } = req.body;
-  const session = triviaService.startQuiz(count || 10, category, difficulty);
+triviaRouter.post('/start', apiRoute({
+  summary: 'Start a quiz',
+  body: API_SCHEMAS.TriviaStartRequest,
+}), (req: Request, res: Response) => {
+  const { count, category, difficulty } = req.body as TriviaStartRequest;
+  const session = triviaService.startQuiz(count, category, difficulty);
   // Strip correct answers from questions sent to client
   const safeQuestions = session.questions.map(({ correctIndex, ...q }) => q);
   res.json({ success: true, data: { ...session, questions: safeQuestions } });
 });
 
-triviaRouter.post('/answer', (req: Request, res: Response) => {
-  const { questionId, selectedIndex, timeMs } = req.body;
-  if (!questionId || typeof questionId !== 'string') {
-    res.status(400).json({ success: false, error: 'Missing or invalid questionId' }); return;
-  }
-  if (typeof selectedIndex !== 'number' || selectedIndex < 0) {
-    res.status(400).json({ success: false, error: 'Missing or invalid selectedIndex' }); return;
-  }
-  const result = triviaService.submitAnswer(questionId, selectedIndex, timeMs || 0);
+triviaRouter.post('/answer', apiRoute({
+  summary: 'Answer a question of the current quiz',
+  body: API_SCHEMAS.TriviaAnswerRequest,
+  errors: { 400: 'No active quiz, or the question is not part of it' },
+}), (req: Request, res: Response) => {
+  const { questionId, selectedIndex, timeMs = 0 } = req.body as TriviaAnswerRequest;
+  const result = triviaService.submitAnswer(questionId, selectedIndex, timeMs);
   if (!result) { res.status(400).json({ success: false, error: 'No active quiz or invalid question' }); return; }
   res.json({ success: true, data: result });
 });
 
-triviaRouter.post('/end', (_req: Request, res: Response) => {
+triviaRouter.post('/end', apiRoute({ summary: 'End the current quiz', errors: { 400: 'No active quiz' } }), (_req: Request, res: Response) => {
   const session = triviaService.endQuiz();
   if (!session) { res.status(400).json({ success: false, error: 'No active quiz' }); return; }
   res.json({ success: true, data: session });
 });
 
-triviaRouter.get('/history', (_req: Request, res: Response) => {
+triviaRouter.get('/history', apiRoute({ summary: 'Past quizzes' }), (_req: Request, res: Response) => {
   res.json({ success: true, data: triviaService.getHistory() });
 });
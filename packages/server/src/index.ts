@@ -3,8 +3,10 @@
  *
  * Boots the VAYU server:
  *   1. Loads configuration from environment / .env
- *   2. Initialises the SQLite database
- *   3. Creates the Express HTTP application
+ *   2. Initialises the SQLite database, applies stored runtime settings and
+ *      loads paired devices
+ *   3. Creates the Express HTTP application, loads feature plugins and
+ *      restores the persisted game state snapshot (warm start)
  *   4. Starts the HTTP server
  *   5. Attaches the WebSocket server
  *   6. Registers graceful shutdown handlers
@@ -17,9 +19,25 @@
 import { createApp } from './app.js';
 import { wsManager } from './websocket.js';
 import { initDatabase, closeDatabase } from './database/index.js';
+import { initGalaxyDatabase, closeGalaxyDatabase } from './database/galaxy.js';
 import { config } from './config.js';
-import { journalWatcher, statusWatcher, companionWatcher } from './core/index.js';
+import {
+  journalWatcher,
+  statusWatcher,
+  companionWatcher,
+  journalReplay,
+  stateSnapshot,
+  commanderProfiles,
+  pluginManager,
+  settingsService,
+  deviceAuth,
+  eventBus,
+} from './core/index.js';
 import './core/game-state.js'; // registers event handlers on import
+import './core/journal-store.js'; // persists every journal event on import
+import './core/market-store.js'; // records every Market.json snapshot on import
+import './core/station-catalogue.js'; // records Shipyard.json / Outfitting.json listings on import
+import './core/status-events.js'; // emits status:<flag> edges on import (after game-state)
 
 // ---------------------------------------------------------------------------
 // Global error handlers — catch unhandled errors to prevent silent crashes
@@ -51,11 +69,30 @@ async function main(): Promise<void> {
   // -- Database --
   await initDatabase(config.paths.databasePath);
   console.log('[db]  Database initialised');
+  initGalaxyDatabase(config.paths.galaxyDatabasePath);
+
+  // -- Settings --
+  // Overrides saved from the Settings page take precedence over .env.
+  settingsService.load();
+
+  // -- Paired devices --
+  deviceAuth.load();
 
   // -- Express --
   const app = createApp();
   console.log('[http] Express app created');
 
+  // -- Plugins --
+  // Before the warm start, so plugins can register snapshot contributors.
+  await pluginManager.loadAll(config.paths.pluginsDir);
+
+  // -- Warm start --
+  // Feature services register their snapshot contributors when the routes
+  // are imported; restore before the watchers so the journal applies on top.
+  // Snapshots are per commander: start with whoever played last.
+  commanderProfiles.restoreLastActive();
+  stateSnapshot.restore();
+
   // -- HTTP server --
   const server = app.listen(config.server.port, () => {
     console.log(`[http] Server listening on http://localhost:${config.server.port}`);
@@ -89,11 +126,28 @@ async function main(): Promise<void> {
   await companionWatcher.start(config.paths.journalDir);
   console.log('[companion] Companion file watcher started');
 
+  // Point the watchers at a new journal directory without a restart
+  eventBus.onSettingsChange(async (changes) => {
+    if (!changes.some((c) => c.key === 'paths.journalDir')) return;
+    journalWatcher.stop();
+    statusWatcher.stop();
+    companionWatcher.stop();
+    try {
+      await journalWatcher.start(config.paths.journalDir);
+      await statusWatcher.start(config.paths.journalDir);
+      await companionWatcher.start(config.paths.journalDir);
+      console.log(`[journal] Watchers restarted on ${config.paths.journalDir}`);
+    } catch (err) {
+      console.error('[journal] Failed to restart watchers:', err);
+    }
+  });
+
   // -- Startup summary --
   console.log();
   console.log('Configuration:');
   console.log(`  Journal dir:  ${config.paths.journalDir}`);
   console.log(`  Database:     ${config.paths.databasePath}`);
+  console.log(`  Plugins dir:  ${config.paths.pluginsDir}`);
   console.log(`  Client port:  ${config.server.clientPort}`);
   console.log(`  EDSM cmdr:   ${config.api.edsmCommanderName}`);
   console.log(`  Whisper:      ${config.whisper.model} (${config.whisper.language})`);
@@ -109,16 +163,22 @@ async function main(): Promise<void> {
     journalWatcher.stop();
     statusWatcher.stop();
     companionWatcher.stop();
+    journalReplay.unload();
 
     // Close WebSocket connections first
     wsManager.close();
 
     // Close HTTP server (stop accepting new connections)
-    server.close(() => {
+    server.close(async () => {
       console.log('[http] Server closed');
 
-      // Persist and close database
+      // Let plugins flush their own state before the database closes
+      await pluginManager.shutdown();
+
+      // Persist state snapshot, then save and close database
+      stateSnapshot.save();
       closeDatabase(config.paths.databasePath);
+      closeGalaxyDatabase();
       console.log('[db]  Database saved and closed');
 
       console.log('Goodbye, Commander. o7');
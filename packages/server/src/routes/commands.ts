@@ -0,0 +1,131 @@
+/**
+ * @vayu/server — WebSocket Command Registry
+ *
+ * Registers the `client:command` operations that mirror the REST routers,
+ * so socket clients can drive COVAS, alerts, music and bindings without
+ * HTTP. Arguments match the corresponding REST request bodies and results
+ * match their `data`.
+ */
+
+import { API_SCHEMAS } from '@vayu/shared';
+import { commandRpc, CommandError, requireArgs, requireString, requireNumber, requireOneOf } from '../core/command-rpc.js';
+import { wsManager } from '../websocket.js';
+
+// ---------------------------------------------------------------------------
+// COVAS voice pipeline
+// ---------------------------------------------------------------------------
+
+import { covasPipeline, pttManager } from '../covas/index.js';
+
+commandRpc.register(
+  'covas.text',
+  (args) => covasPipeline.processTextInput(requireString(args, 'text').trim()),
+  { timeoutMs: 60_000, description: 'Process a text command { text }' },
+);
+
+commandRpc.register('covas.ptt', (args) => {
+  if (args.action === 'start') pttManager.start();
+  else if (args.action === 'stop') pttManager.stop();
+  else pttManager.toggle();
+  return { ptt: pttManager.getState() };
+}, { description: "Push-to-talk { action?: 'start' | 'stop' } (toggles when omitted)" });
+
+commandRpc.register('covas.enable', (args) => {
+  covasPipeline.setEnabled(!!args.enabled);
+  return { enabled: covasPipeline.isEnabled() };
+}, { description: 'Enable or disable COVAS { enabled }' });
+
+commandRpc.register('covas.clear', () => {
+  covasPipeline.clearConversation();
+  return null;
+}, { description: 'Clear conversation history' });
+
+// ---------------------------------------------------------------------------
+// Alerts
+// ---------------------------------------------------------------------------
+
+import { alertsService } from '../features/alerts/index.js';
+
+commandRpc.register('alerts.acknowledge', (args) => {
+  const id = requireString(args, 'id');
+  if (!alertsService.acknowledgeAlert(id)) {
+    throw new CommandError('NOT_FOUND', 'Alert not found');
+  }
+  return null;
+}, { description: 'Acknowledge an alert { id }' });
+
+commandRpc.register('alerts.clear', () => {
+  alertsService.clearHistory();
+  return null;
+}, { description: 'Clear alert history' });
+
+// ---------------------------------------------------------------------------
+// Music
+// ---------------------------------------------------------------------------
+
+import { musicService } from '../features/music/index.js';
+
+commandRpc.register('music.state', () => musicService.getState(), {
+  description: 'Current player state',
+  scope: 'read',
+});
+
+commandRpc.register('music.play', () => {
+  musicService.play();
+  return musicService.getState();
+}, { description: 'Resume playback' });
+
+commandRpc.register('music.pause', () => {
+  musicService.pause();
+  return musicService.getState();
+}, { description: 'Pause playback' });
+
+commandRpc.register('music.next', () => {
+  musicService.next();
+  return musicService.getState();
+}, { description: 'Skip to the next track' });
+
+commandRpc.register('music.previous', () => {
+  musicService.previous();
+  return musicService.getState();
+}, { description: 'Return to the previous track' });
+
+commandRpc.register('music.volume', (args) => {
+  musicService.setVolume(Math.max(0, Math.min(100, requireNumber(args, 'volume'))));
+  return musicService.getState();
+}, { description: 'Set volume { volume: 0-100 }' });
+
+commandRpc.register('music.repeat', (args) => {
+  musicService.setRepeat(requireOneOf(args, 'mode', ['none', 'one', 'all'] as const));
+  return musicService.getState();
+}, { description: "Set repeat mode { mode: 'none' | 'one' | 'all' }" });
+
+commandRpc.register('music.shuffle', (args) => {
+  musicService.setShuffle(!!args.enabled);
+  return musicService.getState();
+}, { description: 'Enable or disable shuffle { enabled }' });
+
+// ---------------------------------------------------------------------------
+// Key bindings
+// ---------------------------------------------------------------------------
+
+import { bindingsService } from '../features/bindings/index.js';
+
+commandRpc.register('bindings.update', async (args) => {
+  const action = requireString(args, 'action');
+  const { slot, clear, device, key, modifiers, axis, inverted, deadzone } =
+    requireArgs({ ...args, action: undefined }, API_SCHEMAS.BindingUpdateRequest);
+  if (!clear && !device) {
+    throw new CommandError('INVALID_ARGS', 'Must provide either "clear: true" or "device" with "key"/"axis".');
+  }
+
+  const entry = await bindingsService.updateBinding(action, slot, {
+    clear, device, key, modifiers, axis, inverted, deadzone,
+  }).catch((err: Error) => {
+    if (err.message.startsWith('Unknown action')) throw new CommandError('NOT_FOUND', err.message);
+    throw err;
+  });
+
+  wsManager.broadcast('bindings:updated', { action, slot, entry });
+  return entry;
+}, { description: 'Update a binding (same fields as PUT /api/bindings/:action, plus action)' });
@@ -1,128 +1,213 @@
 /**
  * @vayu/server — Route Scaffold
  *
- * Central API router that mounts all feature route modules under `/api`.
+ * Central API router that mounts all feature route modules under `/api`,
+ * followed by any enabled feature plugins (`/api/<plugin id>`), and serves
+ * the OpenAPI document describing the built-in routes.
  */
 
-import { Router, type Request, type Response } from 'express';
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import { pluginManager } from '../core/plugin-manager.js';
+import { settingsService } from '../core/settings.js';
+import { buildOpenApiDocument, type OpenApiDocument, type OpenApiFeature } from '../core/openapi.js';
 
 export const apiRouter = Router();
 
+/** Built-in features, in mount order — reported by `/status`. */
+const builtinFeatures: string[] = [];
+
+/** Routers of the built-in features, for the OpenAPI document. */
+const featureRouters: OpenApiFeature[] = [];
+
+/** Features that cannot be switched off (they are how you switch them back on). */
+const ALWAYS_ON_FEATURES = ['settings', 'diagnostics', 'devices'];
+
+/**
+ * Mount a built-in feature at `/api/<name>` and reserve the name from
+ * plugins. Requests answer 503 while the feature is disabled in settings.
+ */
+function mountFeature(name: string, router: Router): void {
+  const gate = (_req: Request, res: Response, next: NextFunction) => {
+    if (!settingsService.isFeatureDisabled(name)) { next(); return; }
+    res.status(503).json({ success: false, error: `Feature "${name}" is disabled` });
+  };
+  apiRouter.use(`/${name}`, gate, router);
+  builtinFeatures.push(name);
+  featureRouters.push({ name, router });
+  pluginManager.reserve(name);
+}
+
 // ---------------------------------------------------------------------------
 // Feature route mounts
 // ---------------------------------------------------------------------------
 
 // -- Dashboard & overview --
 import { dashboardRouter } from '../features/dashboard/index.js';
-apiRouter.use('/dashboard', dashboardRouter);
+mountFeature('dashboard', dashboardRouter);
 
 // -- Key bindings --
 import { bindingsRouter } from '../features/bindings/index.js';
-apiRouter.use('/bindings', bindingsRouter);
+mountFeature('bindings', bindingsRouter);
 
 // -- COVAS voice pipeline --
 import { covasRouter } from '../covas/index.js';
-apiRouter.use('/covas', covasRouter);
+mountFeature('covas', covasRouter);
 
 // -- Trade analysis --
 import { tradeRouter } from '../features/trade/index.js';
-apiRouter.use('/trade', tradeRouter);
+mountFeature('trade', tradeRouter);
+
+// -- Market price history --
+import { marketRouter } from '../features/market/index.js';
+mountFeature('market', marketRouter);
+
+// -- Station catalogue (shipyards & outfitting) --
+import { stationsRouter } from '../features/stations/index.js';
+mountFeature('stations', stationsRouter);
 
 // -- Engineering & materials --
 import { engineeringRouter } from '../features/engineering/index.js';
-apiRouter.use('/engineering', engineeringRouter);
+mountFeature('engineering', engineeringRouter);
 
 // -- Mission control --
 import { missionsRouter } from '../features/missions/index.js';
-apiRouter.use('/missions', missionsRouter);
+mountFeature('missions', missionsRouter);
 
 // -- Navigation & exploration --
 import { navigationRouter } from '../features/navigation/index.js';
-apiRouter.use('/navigation', navigationRouter);
+mountFeature('navigation', navigationRouter);
+import { explorationRouter } from '../features/exploration/index.js';
+mountFeature('exploration', explorationRouter);
+
+// -- Galaxy database --
+import { galaxyRouter } from '../features/galaxy/index.js';
+mountFeature('galaxy', galaxyRouter);
 
 // -- Graphics profile manager --
 import { graphicsRouter } from '../features/graphics/index.js';
-apiRouter.use('/graphics', graphicsRouter);
+mountFeature('graphics', graphicsRouter);
 
 // -- Audio profile manager --
 import { audioRouter } from '../features/audio/index.js';
-apiRouter.use('/audio', audioRouter);
+mountFeature('audio', audioRouter);
 
 // -- Alert system --
 import { alertsRouter } from '../features/alerts/index.js';
-apiRouter.use('/alerts', alertsRouter);
+mountFeature('alerts', alertsRouter);
 
 // -- Pre-flight checklist --
 import { preflightRouter } from '../features/preflight/index.js';
-apiRouter.use('/preflight', preflightRouter);
+mountFeature('preflight', preflightRouter);
 
 // -- Powerplay & BGS --
 import { powerplayRouter } from '../features/powerplay/index.js';
-apiRouter.use('/powerplay', powerplayRouter);
+mountFeature('powerplay', powerplayRouter);
 
 // -- Ship / fleet management --
 import { shipsRouter } from '../features/ships/index.js';
-apiRouter.use('/ships', shipsRouter);
+mountFeature('ships', shipsRouter);
 
 // -- Community integrations (EDSM, Inara) --
 import { communityRouter } from '../features/community/index.js';
-apiRouter.use('/community', communityRouter);
+mountFeature('community', communityRouter);
 
 // -- GalNet news --
 import { galnetRouter } from '../features/galnet/index.js';
-apiRouter.use('/galnet', galnetRouter);
+mountFeature('galnet', galnetRouter);
 
 // -- Session analytics --
 import { analyticsRouter } from '../features/analytics/index.js';
-apiRouter.use('/analytics', analyticsRouter);
+mountFeature('analytics', analyticsRouter);
 
 // -- Screenshots --
 import { screenshotsRouter } from '../features/screenshots/index.js';
-apiRouter.use('/screenshots', screenshotsRouter);
+mountFeature('screenshots', screenshotsRouter);
 
 // -- Fleet carrier --
 import { carrierRouter } from '../features/carrier/index.js';
-apiRouter.use('/carrier', carrierRouter);
+mountFeature('carrier', carrierRouter);
 
 // -- Mining --
 import { miningRouter } from '../features/mining/index.js';
-apiRouter.use('/mining', miningRouter);
+mountFeature('mining', miningRouter);
 
 // -- Pip management --
 import { pipsRouter } from '../features/pips/index.js';
-apiRouter.use('/pips', pipsRouter);
+mountFeature('pips', pipsRouter);
 
 // -- Threats & intel --
 import { threatsRouter } from '../features/threats/index.js';
-apiRouter.use('/threats', threatsRouter);
+mountFeature('threats', threatsRouter);
 
 // -- Odyssey on-foot --
 import { odysseyRouter } from '../features/odyssey/index.js';
-apiRouter.use('/odyssey', odysseyRouter);
+mountFeature('odyssey', odysseyRouter);
 
 // -- Ship outfitting --
 import { outfittingRouter } from '../features/outfitting/index.js';
-apiRouter.use('/outfitting', outfittingRouter);
+mountFeature('outfitting', outfittingRouter);
 
 // -- Trivia & training --
 import { triviaRouter } from '../features/trivia/index.js';
-apiRouter.use('/trivia', triviaRouter);
+mountFeature('trivia', triviaRouter);
 
 // -- Personal logbook --
 import { logbookRouter } from '../features/logbook/index.js';
-apiRouter.use('/logbook', logbookRouter);
+mountFeature('logbook', logbookRouter);
 
 // -- Journal archiver --
 import { archiverRouter } from '../features/archiver/index.js';
-apiRouter.use('/archiver', archiverRouter);
+mountFeature('archiver', archiverRouter);
 
 // -- Music player --
 import { musicRouter } from '../features/music/index.js';
-apiRouter.use('/music', musicRouter);
+mountFeature('music', musicRouter);
+
+// -- Journal history --
+import { journalRouter } from '../features/journal/index.js';
+mountFeature('journal', journalRouter);
+
+// -- Commander profiles --
+import { commandersRouter } from '../features/commanders/index.js';
+mountFeature('commanders', commandersRouter);
+
+// -- Journal replay --
+import { replayRouter } from '../features/replay/index.js';
+mountFeature('replay', replayRouter);
 
 // -- CHAKRA real-time telemetry --
 import { chakraRouter } from '../features/chakra/index.js';
-apiRouter.use('/chakra', chakraRouter);
+mountFeature('chakra', chakraRouter);
+
+// -- Feature plugins --
+import { pluginsRouter } from '../features/plugins/index.js';
+mountFeature('plugins', pluginsRouter);
+
+// -- Paired devices --
+import { devicesRouter } from '../features/devices/index.js';
+mountFeature('devices', devicesRouter);
+
+// -- Diagnostics --
+import { diagnosticsRouter } from '../features/diagnostics/index.js';
+mountFeature('diagnostics', diagnosticsRouter);
+
+// -- Runtime settings --
+import { settingsRouter } from '../features/settings/index.js';
+mountFeature('settings', settingsRouter);
+
+settingsService.setOptions('features.disabled', builtinFeatures.filter((f) => !ALWAYS_ON_FEATURES.includes(f)));
+
+// -- WebSocket commands (client:command mirrors of the routes above) --
+import './commands.js';
+
+// Reserved so a plugin can never shadow the status endpoint below.
+pluginManager.reserve('status');
+
+// ---------------------------------------------------------------------------
+// Plugin routes (enabled plugins only)
+// ---------------------------------------------------------------------------
+
+apiRouter.use(pluginManager.router);
 
 // ---------------------------------------------------------------------------
 // Status endpoint (always available)
@@ -133,11 +218,26 @@ apiRouter.get('/status', (_req: Request, res: Response) => {
     status: 'ok',
     version: '1.0.0',
     features: [
-      'dashboard', 'bindings', 'covas', 'trade', 'engineering', 'missions',
-      'navigation', 'graphics', 'audio', 'alerts', 'preflight', 'powerplay',
-      'ships', 'community', 'galnet', 'analytics', 'screenshots', 'carrier',
-      'mining', 'pips', 'threats', 'odyssey', 'outfitting', 'trivia',
-      'logbook', 'archiver', 'music', 'chakra',
+      ...builtinFeatures.filter((f) => !settingsService.isFeatureDisabled(f)),
+      ...pluginManager.getEnabledIds(),
     ],
+    disabledFeatures: builtinFeatures.filter((f) => settingsService.isFeatureDisabled(f)),
+    plugins: pluginManager.list().map(({ id, name, version, status }) => ({ id, name, version, status })),
+  });
+});
+
+// ---------------------------------------------------------------------------
+// OpenAPI document (always available)
+// ---------------------------------------------------------------------------
+
+let openApiDocument: OpenApiDocument | null = null;
+
+/** Built on first request: the routers are fixed once the modules load. */
+apiRouter.get('/openapi.json', (_req: Request, res: Response) => {
+  openApiDocument ??= buildOpenApiDocument(featureRouters, {
+    title: 'VAYU API',
+    version: '1.0.0',
+    description: 'REST API of the VAYU Elite Dangerous companion. Every response is `{ success, data }` or `{ success: false, error }`.',
   });
+  res.json(openApiDocument);
 });
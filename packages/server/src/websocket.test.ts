@@ -0,0 +1,230 @@
+/**
+ * AGNI — Unit tests for websocket.ts
+ *
+ * Connects real clients to the manager on an ephemeral port and checks
+ * subscriptions: wildcard matching, a specific pattern overriding a
+ * wildcard's throttle, coalescing to the latest message, rejection of
+ * unknown topics, unthrottled topics, and throttle timers released on
+ * unsubscribe and disconnect.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocket } from 'ws';
+import type { WSEnvelope, WSEventType } from '@vayu/shared';
+
+import { wsManager } from './websocket.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface TestClient {
+  ws: WebSocket;
+  messages: WSEnvelope[];
+}
+
+let server: http.Server;
+let url: string;
+const clients: TestClient[] = [];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function waitFor(client: TestClient, type: WSEventType): Promise<WSEnvelope> {
+  const seen = client.messages.length;
+  return new Promise((resolve) => {
+    const onMessage = () => {
+      const found = client.messages.slice(seen).find((m) => m.type === type);
+      if (!found) return;
+      client.ws.off('message', onMessage);
+      resolve(found);
+    };
+    client.ws.on('message', onMessage);
+  });
+}
+
+async function connect(): Promise<TestClient> {
+  const client: TestClient = { ws: new WebSocket(url), messages: [] };
+  client.ws.on('message', (raw) => { client.messages.push(JSON.parse(raw.toString()) as WSEnvelope); });
+  clients.push(client);
+  await waitFor(client, 'connection:open');
+  return client;
+}
+
+/** Round-trip a ping, so everything sent before it has been handled and delivered. */
+async function sync(client: TestClient): Promise<void> {
+  const pong = waitFor(client, 'connection:pong');
+  client.ws.send(JSON.stringify({ type: 'client:ping', payload: {} }));
+  await pong;
+}
+
+async function message(client: TestClient, type: WSEventType, payload: unknown): Promise<void> {
+  client.ws.send(JSON.stringify({ type, payload }));
+  await sync(client);
+}
+
+/** Run `broadcasts` and return the throttle timers they started. */
+function heldTimers(broadcasts: () => void): unknown[] {
+  const setTimer = vi.spyOn(globalThis, 'setTimeout');
+  broadcasts();
+  const timers = setTimer.mock.results.map((r) => r.value as unknown);
+  setTimer.mockRestore();
+  return timers;
+}
+
+/** Payloads the client received for a topic, in order. */
+function received(client: TestClient, type: WSEventType): unknown[] {
+  return client.messages.filter((m) => m.type === type).map((m) => m.payload);
+}
+
+beforeAll(async () => {
+  server = http.createServer();
+  wsManager.init(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  for (const client of clients.splice(0)) client.ws.close();
+  while (wsManager.getClientCount() > 0) await sleep(5);
+});
+
+afterAll(async () => {
+  wsManager.close();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('wsManager subscriptions', () => {
+  it('should send every topic to a client without subscriptions', async () => {
+    const client = await connect();
+
+    wsManager.broadcast('state:ship', 1);
+    wsManager.broadcast('status:flags', 2);
+    await sync(client);
+
+    expect(received(client, 'state:ship')).toEqual([1]);
+    expect(received(client, 'status:flags')).toEqual([2]);
+  });
+
+  it('should match namespace and catch-all wildcards', async () => {
+    const state = await connect();
+    const everything = await connect();
+    await message(state, 'client:subscribe', { events: ['state:*'] });
+    await message(everything, 'client:subscribe', { events: ['*'] });
+
+    wsManager.broadcast('state:ship', 1);
+    wsManager.broadcast('status:flags', 2);
+    await sync(state);
+    await sync(everything);
+
+    expect(received(state, 'state:ship')).toEqual([1]);
+    expect(received(state, 'status:flags')).toEqual([]);
+    expect(received(everything, 'state:ship')).toEqual([1]);
+    expect(received(everything, 'status:flags')).toEqual([2]);
+  });
+
+  it('should reject unknown topics and keep the known ones', async () => {
+    const client = await connect();
+    const error = waitFor(client, 'connection:error');
+    await message(client, 'client:subscribe', { events: ['nope:*', 'status:flags'] });
+
+    expect((await error).payload).toMatchObject({ code: 'UNKNOWN_TOPIC', message: expect.stringContaining('nope:*') });
+
+    wsManager.broadcast('status:flags', 1);
+    await sync(client);
+    expect(received(client, 'status:flags')).toEqual([1]);
+  });
+});
+
+describe('wsManager throttling', () => {
+  it('should coalesce to the latest message and send it when the interval elapses', async () => {
+    const client = await connect();
+    await message(client, 'client:subscribe', { events: ['status:flags'], throttleMs: 100 });
+
+    wsManager.broadcast('status:flags', 1);
+    wsManager.broadcast('status:flags', 2);
+    wsManager.broadcast('status:flags', 3);
+    await sync(client);
+    expect(received(client, 'status:flags')).toEqual([1]);
+    expect(wsManager.getStats().throttledPending).toBe(1);
+
+    await sleep(150);
+    expect(received(client, 'status:flags')).toEqual([1, 3]);
+    expect(wsManager.getStats().throttledPending).toBe(0);
+  });
+
+  it('should let a specific pattern override a wildcard throttle', async () => {
+    const client = await connect();
+    await message(client, 'client:subscribe', { events: ['status:*'], throttleMs: 1000 });
+    await message(client, 'client:subscribe', { events: ['status:flags'], throttleMs: 0 });
+
+    for (const n of [1, 2, 3]) wsManager.broadcast('status:flags', n);
+    for (const n of [1, 2, 3]) wsManager.broadcast('status:pips', n);
+    await sync(client);
+
+    expect(received(client, 'status:flags')).toEqual([1, 2, 3]);
+    expect(received(client, 'status:pips')).toEqual([1]);
+  });
+
+  it('should never throttle state:patch', async () => {
+    const client = await connect();
+    await message(client, 'client:subscribe', { events: ['state:*'], throttleMs: 1000 });
+
+    for (const n of [1, 2, 3]) wsManager.broadcast('state:patch', n);
+    for (const n of [1, 2, 3]) wsManager.broadcast('state:ship', n);
+    await sync(client);
+
+    expect(received(client, 'state:patch')).toEqual([1, 2, 3]);
+    expect(received(client, 'state:ship')).toEqual([1]);
+  });
+
+  it('should drop a held message when its topic is unsubscribed', async () => {
+    const client = await connect();
+    await message(client, 'client:subscribe', { events: ['status:flags', 'state:ship'], throttleMs: 100 });
+
+    const [flagsTimer, shipTimer] = heldTimers(() => {
+      wsManager.broadcast('status:flags', 1);
+      wsManager.broadcast('status:flags', 2);
+      wsManager.broadcast('state:ship', 1);
+      wsManager.broadcast('state:ship', 2);
+    });
+    await sync(client);
+    expect(wsManager.getStats().throttledPending).toBe(2);
+
+    const clearTimer = vi.spyOn(globalThis, 'clearTimeout');
+    await message(client, 'client:unsubscribe', { events: ['status:flags'] });
+    expect(clearTimer).toHaveBeenCalledWith(flagsTimer);
+    expect(clearTimer).not.toHaveBeenCalledWith(shipTimer);
+    expect(wsManager.getStats().throttledPending).toBe(1);
+    clearTimer.mockRestore();
+
+    await sleep(150);
+    expect(received(client, 'status:flags')).toEqual([1]);
+    expect(received(client, 'state:ship')).toEqual([1, 2]);
+  });
+
+  it('should clear held messages when the client disconnects', async () => {
+    const client = await connect();
+    await message(client, 'client:subscribe', { events: ['status:flags'], throttleMs: 100 });
+
+    const [timer] = heldTimers(() => {
+      wsManager.broadcast('status:flags', 1);
+      wsManager.broadcast('status:flags', 2);
+    });
+    await sync(client);
+    expect(wsManager.getStats().throttledPending).toBe(1);
+
+    const clearTimer = vi.spyOn(globalThis, 'clearTimeout');
+    client.ws.close();
+    while (wsManager.getClientCount() > 0) await sleep(5);
+    expect(clearTimer).toHaveBeenCalledWith(timer);
+    clearTimer.mockRestore();
+  });
+});
@@ -4,6 +4,15 @@
  * Singleton WebSocket server that broadcasts typed messages to all connected
  * clients using the WSEnvelope format defined in @vayu/shared.
  *
+ * Clients may narrow what they receive with `client:subscribe`, using exact
+ * topics or wildcards (`state:*`), optionally throttled per subscription so
+ * e.g. a phone gets `status:flags` at 4 Hz while the desktop gets every
+ * update.
+ *
+ * Upgrade requests are checked by the authenticator installed with
+ * `setAuthenticator()` (paired devices, `core/device-auth.ts`); each client
+ * remembers which device it belongs to.
+ *
  * Usage:
  *   import { wsManager } from './websocket.js';
  *   wsManager.init(httpServer);
@@ -11,21 +20,81 @@
  */
 
 import { WebSocketServer, WebSocket } from 'ws';
-import type { Server } from 'http';
-import type { WSEventType, WSEnvelope } from '@vayu/shared';
+import type { IncomingMessage, Server } from 'http';
+import { WS_TOPICS, WS_UNTHROTTLED_TOPICS, matchesTopic, topicSpecificity } from '@vayu/shared';
+import type { WSEventType, WSEnvelope, WSSubscriptionPayload } from '@vayu/shared';
+
+import { metrics } from './core/metrics.js';
+
+/** Upper bound on a subscription's throttle interval. */
+const MAX_THROTTLE_MS = 60_000;
+
+const UNTHROTTLED = new Set<WSEventType>(WS_UNTHROTTLED_TOPICS);
+
+const broadcastsTotal = metrics.counter('vayu_ws_broadcasts_total', 'Messages broadcast, by event type.');
+const messagesSent = metrics.counter('vayu_ws_messages_sent_total', 'Messages written to client sockets.');
+const messagesCoalesced = metrics.counter(
+  'vayu_ws_messages_coalesced_total',
+  'Throttled messages replaced by a newer message before they were sent.',
+);
 
 // ---------------------------------------------------------------------------
 // Client tracking
 // ---------------------------------------------------------------------------
 
+/** One `client:subscribe` entry. */
+export interface TopicSubscription {
+  /** Exact topic or wildcard pattern (`*`, `state:*`). */
+  pattern: string;
+  /** Minimum interval between deliveries in ms (0 = every update). */
+  throttleMs: number;
+}
+
+/** Coalescing state for one throttled topic on one client. */
+interface ThrottleSlot {
+  /** When a message for this topic was last sent (ms epoch). */
+  lastSentAt: number;
+  /** Latest message held back until the interval elapses. */
+  pending: string | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
 /** Metadata attached to each connected client. */
-interface ClientInfo {
+export interface ClientInfo {
   /** Unique ID assigned on connection. */
   id: string;
   /** Connection timestamp. */
   connectedAt: string;
-  /** Event types this client has subscribed to (empty = all). */
-  subscriptions: Set<WSEventType>;
+  /** Paired device that opened the connection (null = this machine). */
+  deviceId: string | null;
+  /** Subscriptions keyed by pattern (empty = all topics, unthrottled). */
+  subscriptions: Map<string, TopicSubscription>;
+  /** Per-topic coalescing state for throttled subscriptions. */
+  throttles: Map<WSEventType, ThrottleSlot>;
+  /**
+   * Whether the client syncs GameState via `state:patch` (set once it sends
+   * `client:resync`). Such clients no longer receive full `state:<section>`
+   * slices.
+   */
+  statePatches: boolean;
+}
+
+/** Handler for a client -> server message type. */
+export type ClientMessageHandler = (ws: WebSocket, payload: unknown, client: ClientInfo, envelope: WSEnvelope) => void;
+
+/**
+ * Decides whether an upgrade request may connect: returns the device it
+ * belongs to, or null to refuse it with 401.
+ */
+export type ConnectionAuthenticator = (req: IncomingMessage) => { deviceId: string | null } | null;
+
+/** Close code sent to a client whose device was revoked. */
+export const WS_CLOSE_UNAUTHORIZED = 4401;
+
+/** Options for {@link WebSocketManager.broadcast}. */
+export interface BroadcastOptions {
+  /** Only send to clients whose `statePatches` mode matches. */
+  statePatches?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -36,6 +105,10 @@ class WebSocketManager {
   private wss: WebSocketServer | null = null;
   private clients: Map<WebSocket, ClientInfo> = new Map();
   private sequence = 0;
+  private messageHandlers: Map<WSEventType, ClientMessageHandler> = new Map();
+  private authenticator: ConnectionAuthenticator | null = null;
+  /** Device of each accepted upgrade, handed from verifyClient to 'connection'. */
+  private upgradeDevices: WeakMap<IncomingMessage, string | null> = new WeakMap();
 
   /**
    * Attach the WebSocket server to an existing HTTP server.
@@ -46,24 +119,41 @@ class WebSocketManager {
       throw new Error('WebSocketManager already initialised');
     }
 
-    this.wss = new WebSocketServer({ server });
+    this.wss = new WebSocketServer({
+      server,
+      verifyClient: ({ req }, done) => {
+        const auth = this.authenticator ? this.authenticator(req) : { deviceId: null };
+        if (!auth) {
+          done(false, 401, 'Unauthorized');
+          return;
+        }
+        this.upgradeDevices.set(req, auth.deviceId);
+        done(true);
+      },
+    });
 
-    this.wss.on('connection', (ws: WebSocket) => {
+    this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
       const clientId = this.generateClientId();
       const info: ClientInfo = {
         id: clientId,
         connectedAt: new Date().toISOString(),
-        subscriptions: new Set(),
+        deviceId: this.upgradeDevices.get(req) ?? null,
+        subscriptions: new Map(),
+        throttles: new Map(),
+        statePatches: false,
       };
       this.clients.set(ws, info);
 
-      console.log(`WebSocket client connected: ${clientId} (${this.clients.size} total)`);
+      console.log(
+        `WebSocket client connected: ${clientId}` +
+        `${info.deviceId ? ` (device ${info.deviceId})` : ''} (${this.clients.size} total)`,
+      );
 
       // Send welcome envelope
       this.send(ws, 'connection:open', {
         serverVersion: '1.0.0',
         clientId,
-        availableSubscriptions: [],
+        availableSubscriptions: [...WS_TOPICS],
       });
 
       // -- Incoming message handling --
@@ -87,6 +177,7 @@ class WebSocketManager {
       // -- Disconnect --
       ws.on('close', (code: number, reason: Buffer) => {
         const closedClient = this.clients.get(ws);
+        if (closedClient) this.clearThrottles(closedClient);
         this.clients.delete(ws);
         console.log(
           `WebSocket client disconnected: ${closedClient?.id ?? 'unknown'} ` +
@@ -125,9 +216,10 @@ class WebSocketManager {
   /**
    * Broadcast a typed message to all connected clients.
    * Clients that subscribed to a subset of events will only receive
-   * messages matching their subscriptions.
+   * messages matching their subscriptions, at most as often as the
+   * matching subscription's throttle allows.
    */
-  broadcast<T>(type: WSEventType, payload: T): void {
+  broadcast<T>(type: WSEventType, payload: T, options: BroadcastOptions = {}): void {
     const envelope: WSEnvelope<T> = {
       type,
       payload,
@@ -135,23 +227,34 @@ class WebSocketManager {
       sequence: this.sequence++,
     };
     const message = JSON.stringify(envelope);
+    broadcastsTotal.inc({ type });
 
     for (const [ws, info] of this.clients) {
       if (ws.readyState !== WebSocket.OPEN) continue;
 
+      if (options.statePatches !== undefined && info.statePatches !== options.statePatches) continue;
+
       // If the client has subscriptions, only send matching events
-      if (info.subscriptions.size > 0 && !info.subscriptions.has(type)) continue;
+      let throttleMs = 0;
+      if (info.subscriptions.size > 0) {
+        const subscription = this.matchSubscription(info, type);
+        if (!subscription) continue;
+        throttleMs = subscription.throttleMs;
+      }
 
-      try {
-        ws.send(message);
-      } catch {
-        // Socket may have closed between readyState check and send — safe to ignore
+      if (throttleMs > 0 && !UNTHROTTLED.has(type)) {
+        this.sendThrottled(ws, info, type, message, throttleMs);
+      } else {
+        this.sendRaw(ws, message);
       }
     }
   }
 
-  /** Send a message to a single client. */
-  send<T>(ws: WebSocket, type: WSEventType, payload: T): void {
+  /**
+   * Send a message to a single client. Pass the request's `correlationId`
+   * when replying to a client message.
+   */
+  send<T>(ws: WebSocket, type: WSEventType, payload: T, correlationId?: string): void {
     if (ws.readyState !== WebSocket.OPEN) return;
 
     const envelope: WSEnvelope<T> = {
@@ -160,10 +263,31 @@ class WebSocketManager {
       timestamp: new Date().toISOString(),
       sequence: this.sequence++,
     };
-    try {
-      ws.send(JSON.stringify(envelope));
-    } catch {
-      // Socket may have closed between readyState check and send — safe to ignore
+    if (correlationId !== undefined) envelope.correlationId = correlationId;
+    this.sendRaw(ws, JSON.stringify(envelope));
+  }
+
+  /**
+   * Register a handler for a client -> server message type. Lets core
+   * subsystems own their protocol messages without this module importing
+   * them.
+   */
+  onClientMessage(type: WSEventType, handler: ClientMessageHandler): void {
+    this.messageHandlers.set(type, handler);
+  }
+
+  /**
+   * Install the check applied to every upgrade request. Without one, every
+   * connection is accepted as this machine.
+   */
+  setAuthenticator(authenticator: ConnectionAuthenticator): void {
+    this.authenticator = authenticator;
+  }
+
+  /** Close every connection opened by a device (e.g. after it is revoked). */
+  disconnectDevice(deviceId: string, reason: string): void {
+    for (const [ws, info] of this.clients) {
+      if (info.deviceId === deviceId) ws.close(WS_CLOSE_UNAUTHORIZED, reason);
     }
   }
 
@@ -172,6 +296,40 @@ class WebSocketManager {
     return this.clients.size;
   }
 
+  /**
+   * Connection and delivery statistics for diagnostics. `bufferedBytes` is
+   * data queued in sockets but not yet sent — a slow client shows up here.
+   */
+  getStats(): {
+    clients: number;
+    subscribedClients: number;
+    statePatchClients: number;
+    bufferedBytes: number;
+    throttledPending: number;
+    messagesSent: number;
+    messagesCoalesced: number;
+  } {
+    let subscribedClients = 0;
+    let statePatchClients = 0;
+    let bufferedBytes = 0;
+    let throttledPending = 0;
+    for (const [ws, info] of this.clients) {
+      if (info.subscriptions.size > 0) subscribedClients++;
+      if (info.statePatches) statePatchClients++;
+      bufferedBytes += ws.bufferedAmount;
+      for (const slot of info.throttles.values()) if (slot.pending !== null) throttledPending++;
+    }
+    return {
+      clients: this.clients.size,
+      subscribedClients,
+      statePatchClients,
+      bufferedBytes,
+      throttledPending,
+      messagesSent: messagesSent.get(),
+      messagesCoalesced: messagesCoalesced.get(),
+    };
+  }
+
   /** Gracefully close all connections and shut down the server. */
   close(): void {
     if (!this.wss) return;
@@ -179,6 +337,9 @@ class WebSocketManager {
     for (const [ws] of this.clients) {
       ws.close(1001, 'Server shutting down');
     }
+    for (const info of this.clients.values()) {
+      this.clearThrottles(info);
+    }
     this.clients.clear();
     this.wss.close();
     this.wss = null;
@@ -199,33 +360,136 @@ class WebSocketManager {
         this.send(ws, 'connection:pong', { timestamp: new Date().toISOString() });
         break;
 
-      case 'client:subscribe': {
-        const events = (envelope.payload as { events?: WSEventType[] })?.events;
-        if (Array.isArray(events)) {
-          for (const ev of events) {
-            info.subscriptions.add(ev);
-          }
-        }
+      case 'client:subscribe':
+        this.subscribe(ws, info, envelope.payload as WSSubscriptionPayload);
         break;
-      }
 
       case 'client:unsubscribe': {
-        const events = (envelope.payload as { events?: WSEventType[] })?.events;
+        const events = (envelope.payload as { events?: string[] })?.events;
         if (Array.isArray(events)) {
           for (const ev of events) {
             info.subscriptions.delete(ev);
           }
+          this.releaseThrottles(info);
         }
         break;
       }
 
-      case 'client:command':
-        // Commands will be routed to the appropriate handler once COVAS is wired up
-        console.log(`Client command from ${info.id}:`, envelope.payload);
-        break;
+      default: {
+        const handler = this.messageHandlers.get(envelope.type);
+        if (handler) {
+          handler(ws, envelope.payload, info, envelope);
+        } else {
+          console.warn(`Unknown client message type: ${envelope.type}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Add or update subscriptions. Re-subscribing to a pattern replaces its
+   * throttle. Patterns that match no known topic are rejected with a
+   * `connection:error` so typos don't silently mute a client.
+   */
+  private subscribe(ws: WebSocket, info: ClientInfo, payload: WSSubscriptionPayload): void {
+    if (!Array.isArray(payload?.events)) return;
+
+    const throttle = Number(payload.throttleMs);
+    const throttleMs = Number.isFinite(throttle) ? Math.min(Math.max(Math.round(throttle), 0), MAX_THROTTLE_MS) : 0;
+    const unknown: string[] = [];
+
+    for (const pattern of payload.events) {
+      if (typeof pattern !== 'string' || !WS_TOPICS.some((topic) => matchesTopic(pattern, topic))) {
+        unknown.push(String(pattern));
+        continue;
+      }
+      info.subscriptions.set(pattern, { pattern, throttleMs });
+    }
+
+    if (unknown.length > 0) {
+      this.send(ws, 'connection:error', {
+        message: `Unknown subscription topic(s): ${unknown.join(', ')}`,
+        code: 'UNKNOWN_TOPIC',
+      });
+    }
+  }
+
+  /** The most specific subscription matching `type`, if any. */
+  private matchSubscription(info: ClientInfo, type: WSEventType): TopicSubscription | null {
+    let best: TopicSubscription | null = null;
+    for (const sub of info.subscriptions.values()) {
+      if (!matchesTopic(sub.pattern, type)) continue;
+      if (!best || topicSpecificity(sub.pattern) > topicSpecificity(best.pattern)) {
+        best = sub;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Send now if the interval has elapsed; otherwise hold the message and
+   * send the latest one held when it does (trailing edge), so the client
+   * always ends up with the most recent value.
+   */
+  private sendThrottled(ws: WebSocket, info: ClientInfo, type: WSEventType, message: string, throttleMs: number): void {
+    let slot = info.throttles.get(type);
+    if (!slot) {
+      slot = { lastSentAt: 0, pending: null, timer: null };
+      info.throttles.set(type, slot);
+    }
+
+    const elapsed = Date.now() - slot.lastSentAt;
+    if (!slot.timer && elapsed >= throttleMs) {
+      slot.lastSentAt = Date.now();
+      this.sendRaw(ws, message);
+      return;
+    }
+
+    if (slot.pending !== null) messagesCoalesced.inc();
+    slot.pending = message;
+    if (!slot.timer) {
+      const held = slot;
+      held.timer = setTimeout(() => {
+        held.timer = null;
+        held.lastSentAt = Date.now();
+        if (held.pending !== null && ws.readyState === WebSocket.OPEN) {
+          this.sendRaw(ws, held.pending);
+        }
+        held.pending = null;
+      }, throttleMs - elapsed);
+    }
+  }
 
-      default:
-        console.warn(`Unknown client message type: ${envelope.type}`);
+  /**
+   * Drop held messages for topics no longer throttled after an unsubscribe:
+   * those no remaining subscription matches, so the client does not get a
+   * topic it just left, and those now delivered unthrottled, so a stale
+   * message cannot follow a newer one.
+   */
+  private releaseThrottles(info: ClientInfo): void {
+    for (const [type, slot] of info.throttles) {
+      const subscription = this.matchSubscription(info, type);
+      if (subscription && subscription.throttleMs > 0) continue;
+      if (slot.timer) clearTimeout(slot.timer);
+      slot.timer = null;
+      slot.pending = null;
+      info.throttles.delete(type);
+    }
+  }
+
+  private clearThrottles(info: ClientInfo): void {
+    for (const slot of info.throttles.values()) {
+      if (slot.timer) clearTimeout(slot.timer);
+    }
+    info.throttles.clear();
+  }
+
+  private sendRaw(ws: WebSocket, message: string): void {
+    try {
+      ws.send(message);
+      messagesSent.inc();
+    } catch {
+      // Socket may have closed between readyState check and send — safe to ignore
     }
   }
 
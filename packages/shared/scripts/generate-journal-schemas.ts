@@ -0,0 +1,233 @@
+/**
+ * @vayu/shared — Journal Event Schema Generator
+ *
+ * Reads `JournalEventMap` from `src/types/journal-events.ts` with the
+ * TypeScript compiler and writes one JSON Schema per event to
+ * `src/constants/journal-schemas.ts`. Shared sub-types (`JournalFaction`,
+ * `JournalModuleEngineering`, ...) are emitted once as constants and
+ * referenced from every event that uses them.
+ *
+ * Run after changing the journal event types:
+ *   npm run generate:journal-schemas -w @vayu/shared
+ */
+
+import { writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const SOURCE = resolve(ROOT, 'src/types/journal-events.ts');
+const OUTPUT = resolve(ROOT, 'src/constants/journal-schemas.ts');
+
+// ---------------------------------------------------------------------------
+// Schema model
+// ---------------------------------------------------------------------------
+
+/** A schema being built, or a reference to a shared sub-type constant. */
+type Node =
+  | { ref: string }
+  | { schema: Record<string, unknown>; properties?: Array<[string, Node]>; items?: Node; additional?: Node; anyOf?: Node[] };
+
+const program = ts.createProgram([SOURCE], { strict: true, target: ts.ScriptTarget.ES2022 });
+const checker = program.getTypeChecker();
+const sourceFile = program.getSourceFile(SOURCE)!;
+
+/** Interfaces declared in the source file, other than events, emitted as constants. */
+const shared = new Map<string, Node>();
+
+function declaredInterface(type: ts.Type): string | undefined {
+  const decl = type.getSymbol()?.declarations?.[0];
+  if (!decl || !ts.isInterfaceDeclaration(decl) || decl.getSourceFile() !== sourceFile) return undefined;
+  const name = decl.name.text;
+  return name === 'JournalEvent' || name.endsWith('Event') ? undefined : name;
+}
+
+function convert(type: ts.Type): Node {
+  const name = declaredInterface(type);
+  if (name) {
+    if (!shared.has(name)) {
+      shared.set(name, { ref: name }); // placeholder while converting
+      shared.set(name, objectNode(type));
+    }
+    return { ref: name };
+  }
+
+  if (type.isUnion()) {
+    const members = type.types.filter((t) => !(t.flags & ts.TypeFlags.Undefined));
+    if (members.every((t) => t.flags & ts.TypeFlags.BooleanLiteral)) return { schema: { type: 'boolean' } };
+    if (members.every((t) => t.isStringLiteral() || t.isNumberLiteral())) {
+      return { schema: { enum: members.map((t) => (t as ts.LiteralType).value) } };
+    }
+    if (members.length === 1) return convert(members[0]);
+    return { schema: {}, anyOf: members.map(convert) };
+  }
+
+  if (type.isStringLiteral() || type.isNumberLiteral()) return { schema: { enum: [type.value] } };
+  if (type.flags & ts.TypeFlags.String) return { schema: { type: 'string' } };
+  if (type.flags & ts.TypeFlags.Number) return { schema: { type: 'number' } };
+  if (type.flags & ts.TypeFlags.Boolean) return { schema: { type: 'boolean' } };
+  if (type.flags & ts.TypeFlags.Null) return { schema: { type: 'null' } };
+  if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return { schema: {} };
+
+  if (checker.isTupleType(type)) {
+    const elements = checker.getTypeArguments(type as ts.TypeReference);
+    return {
+      schema: { type: 'array', minItems: elements.length, maxItems: elements.length },
+      items: convert(elements[0]),
+    };
+  }
+  if (checker.isArrayType(type)) {
+    return { schema: { type: 'array' }, items: convert(checker.getTypeArguments(type as ts.TypeReference)[0]) };
+  }
+
+  return objectNode(type);
+}
+
+function objectNode(type: ts.Type): Node {
+  const properties: Array<[string, Node]> = [];
+  const required: string[] = [];
+
+  // Inherited `timestamp` and `event` come last from the checker; list them first.
+  const props = checker.getPropertiesOfType(type);
+  const base = ['timestamp', 'event'].flatMap((name) => props.filter((p) => p.name === name));
+  for (const prop of base.length === 2 ? [...base, ...props.filter((p) => !base.includes(p))] : props) {
+    const propType = checker.getTypeOfSymbolAtLocation(prop, sourceFile);
+    properties.push([prop.name, convert(propType)]);
+    if (!(prop.flags & ts.SymbolFlags.Optional)) required.push(prop.name);
+  }
+
+  const index = checker.getIndexInfoOfType(type, ts.IndexKind.String);
+  return {
+    schema: { type: 'object', ...(required.length > 0 ? { required } : {}) },
+    ...(properties.length > 0 ? { properties } : {}),
+    ...(index ? { additional: convert(index.type) } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Printing
+// ---------------------------------------------------------------------------
+
+/** Print a node, on one line if it fits in `width`, else one property per line. */
+function print(node: Node, indent: string, width: number): string {
+  const flat = printFlat(node);
+  if (flat.length <= width || 'ref' in node) return flat;
+
+  const inner = indent + '  ';
+  const lines = Object.entries(node.schema).map(([key, value]) => `${inner}${key}: ${wrap(literal(value), inner, key.length + 3)},`);
+  if (node.properties) {
+    lines.push(`${inner}properties: {`);
+    for (const [key, value] of node.properties) {
+      const prefix = `${inner}  ${propertyKey(key)}: `;
+      lines.push(`${prefix}${print(value, inner + '  ', 100 - prefix.length)},`);
+    }
+    lines.push(`${inner}},`);
+  }
+  if (node.items) lines.push(`${inner}items: ${print(node.items, inner, 100 - inner.length - 7)},`);
+  if (node.additional) lines.push(`${inner}additionalProperties: ${print(node.additional, inner, 60)},`);
+  if (node.anyOf) lines.push(`${inner}anyOf: [${node.anyOf.map(printFlat).join(', ')}],`);
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function printFlat(node: Node): string {
+  if ('ref' in node) return node.ref;
+  const parts = Object.entries(node.schema).map(([key, value]) => `${key}: ${literal(value)}`);
+  if (node.properties) {
+    parts.push(`properties: { ${node.properties.map(([k, v]) => `${propertyKey(k)}: ${printFlat(v)}`).join(', ')} }`);
+  }
+  if (node.items) parts.push(`items: ${printFlat(node.items)}`);
+  if (node.additional) parts.push(`additionalProperties: ${printFlat(node.additional)}`);
+  if (node.anyOf) parts.push(`anyOf: [${node.anyOf.map(printFlat).join(', ')}]`);
+  return parts.length > 0 ? `{ ${parts.join(', ')} }` : '{}';
+}
+
+/** Break a long array literal (usually `required`) one item per line. */
+function wrap(text: string, indent: string, prefix: number): string {
+  if (indent.length + prefix + text.length <= 100 || !text.startsWith('[')) return text;
+  const items = text.slice(1, -1).split(', ');
+  return `[\n${items.map((item) => `${indent}  ${item},`).join('\n')}\n${indent}]`;
+}
+
+function literal(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(literal).join(', ')}]`;
+  return typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : String(value);
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+const mapSymbol = checker.getSymbolAtLocation(sourceFile)?.exports?.get(ts.escapeLeadingUnderscores('JournalEventMap'));
+if (!mapSymbol) throw new Error('JournalEventMap not found');
+
+const events = checker
+  .getPropertiesOfType(checker.getDeclaredTypeOfSymbol(mapSymbol))
+  .map((prop) => [prop.name, convert(checker.getTypeOfSymbolAtLocation(prop, sourceFile))] as const);
+
+// Shared constants must be declared before the schemas that use them.
+const order: string[] = [];
+function visit(node: Node): void {
+  if ('ref' in node) {
+    if (order.includes(node.ref)) return;
+    const target = shared.get(node.ref)!;
+    if (!('ref' in target)) visitChildren(target);
+    if (!order.includes(node.ref)) order.push(node.ref);
+    return;
+  }
+  visitChildren(node);
+}
+function visitChildren(node: Exclude<Node, { ref: string }>): void {
+  for (const [, child] of node.properties ?? []) visit(child);
+  if (node.items) visit(node.items);
+  if (node.additional) visit(node.additional);
+  for (const child of node.anyOf ?? []) visit(child);
+}
+for (const [, node] of events) visit(node);
+
+const out: string[] = [
+  '/**',
+  ' * @vayu/shared — Journal Event Schemas',
+  ' *',
+  ' * JSON Schemas for every event in `JournalEventMap`, used to check events',
+  ' * read from the journal against what VAYU models (see',
+  ' * `utils/journal-validation.ts`).',
+  ' *',
+  ' * GENERATED by `scripts/generate-journal-schemas.ts` from',
+  ' * `types/journal-events.ts` — do not edit by hand. After changing the event',
+  ' * types, run:',
+  ' *   npm run generate:journal-schemas -w @vayu/shared',
+  ' */',
+  '',
+  "import type { JsonSchema } from '../types/api.js';",
+  "import type { JournalEventMap, JournalEventName } from '../types/journal-events.js';",
+  '',
+  '// ---------------------------------------------------------------------------',
+  '// Shared sub-types',
+  '// ---------------------------------------------------------------------------',
+  '',
+];
+for (const name of order) {
+  out.push(`const ${name}: JsonSchema = ${print(shared.get(name)!, '', 100 - name.length - 24)};`, '');
+}
+out.push(
+  '// ---------------------------------------------------------------------------',
+  '// Events',
+  '// ---------------------------------------------------------------------------',
+  '',
+  '/** Schema per journal event name, one for every key of `JournalEventMap`. */',
+  'export const JOURNAL_EVENT_SCHEMAS: {',
+  '  readonly [K in JournalEventName]: JsonSchema<JournalEventMap[K]>;',
+  '} = {',
+);
+for (const [name, node] of events) {
+  out.push(`  ${name}: ${print(node, '  ', 100 - name.length - 5)},`);
+}
+out.push('};', '');
+
+writeFileSync(OUTPUT, out.join('\n'));
+console.log(`Wrote ${events.length} event schemas and ${order.length} shared sub-types to ${OUTPUT}`);
@@ -0,0 +1,1157 @@
+/**
+ * @vayu/shared — REST API Schemas
+ *
+ * JSON Schemas for request bodies and the main resources of the HTTP API,
+ * keyed by the TypeScript type each one describes (see `types/api.ts`).
+ * The server validates requests against them and publishes them as
+ * `components.schemas` in `GET /api/openapi.json`.
+ */
+
+import type {
+  AlertEvent,
+  AlertRule,
+  AlertRuleUpdateRequest,
+  AudioProfileRequest,
+  BindingUpdateRequest,
+  CarrierFuelQuery,
+  CommanderScopeQuery,
+  CommoditySearchQuery,
+  CovasEnableRequest,
+  CovasPttRequest,
+  CovasTextRequest,
+  DevicePairingRequest,
+  DevicePairRequest,
+  DeviceUpdateRequest,
+  FarmGuideQuery,
+  ForSaleQuery,
+  GalaxyImportRequest,
+  GalaxyNearbyQuery,
+  GalaxySearchQuery,
+  GraphicsProfileRequest,
+  JournalEventsQuery,
+  JournalImportRequest,
+  JournalSessionsQuery,
+  JsonSchema,
+  JumpRangeQuery,
+  LimitOffsetQuery,
+  LogbookCreateRequest,
+  LogbookEntry,
+  LogbookStats,
+  LogbookUpdateRequest,
+  MarketHistoryQuery,
+  MissionExpiringQuery,
+  MusicQueueRequest,
+  MusicRepeatRequest,
+  MusicShuffleRequest,
+  MusicTrack,
+  MusicVolumeRequest,
+  NearestServiceQuery,
+  ProfileApplyRequest,
+  QualityPresetApplyRequest,
+  ReplayLoadRequest,
+  ReplaySeekRequest,
+  ReplaySpeedRequest,
+  ReplayStepRequest,
+  RoutePlotQuery,
+  SettingsUpdateRequest,
+  TextSearchQuery,
+  TriviaAnswerRequest,
+  TriviaRandomQuery,
+  TriviaStartRequest,
+} from '../types/api.js';
+import type { BindingEntry } from '../types/bindings.js';
+import type {
+  GalaxyDatabaseStats,
+  GalaxyNearbySystem,
+  GalaxyStation,
+  GalaxySystem,
+  GalaxySystemDetail,
+  NearestServiceResult,
+  PlottedRoute,
+} from '../types/galaxy.js';
+import type { PairedDevice } from '../types/devices.js';
+import type { JumpRangeOverview, ShipJumpRange } from '../types/ship.js';
+import type { MarketEntry, MarketPricePoint, MarketSnapshot, MarketStationSummary } from '../types/market.js';
+import type {
+  CatalogueStation,
+  ExplorationOverview,
+  ExploredSystem,
+  ExploredSystemSummary,
+  ForSaleListing,
+  StationCatalogue,
+  StationItem,
+  UnsoldExplorationData,
+} from '../types/navigation.js';
+
+/** Ties a schema literal to the type it describes. */
+function schema<T>(s: JsonSchema): JsonSchema<T> {
+  return s as JsonSchema<T>;
+}
+
+// ---------------------------------------------------------------------------
+// Building blocks
+// ---------------------------------------------------------------------------
+
+const nonEmptyString: JsonSchema = { type: 'string', minLength: 1 };
+const percent: JsonSchema = { type: 'number', minimum: 0, maximum: 100 };
+const timestamp: JsonSchema = { type: 'string', format: 'date-time' };
+const nullableString: JsonSchema = { type: ['string', 'null'] };
+const tags: JsonSchema = { type: 'array', items: { type: 'string', maxLength: 64 }, maxItems: 32 };
+const deviceScopes: JsonSchema = {
+  type: 'array',
+  items: { type: 'string', enum: ['read', 'control', 'admin'] },
+  minItems: 1,
+  description: '`read` is always included.',
+};
+const commanderScope: JsonSchema = {
+  ...nonEmptyString,
+  description: 'A commander FID, `all` for every commander, or the active commander when omitted.',
+};
+const vector3: JsonSchema = { type: 'array', items: { type: 'number' }, minItems: 3, maxItems: 3 };
+const coordinates: JsonSchema = {
+  type: 'object',
+  required: ['x', 'y', 'z'],
+  properties: { x: { type: 'number' }, y: { type: 'number' }, z: { type: 'number' } },
+};
+const stationItemKind: JsonSchema = { type: 'string', enum: ['ship', 'module'] };
+const galaxyDumpKind: JsonSchema = { type: 'string', enum: ['systems', 'stations', 'bodies'] };
+const landingPadSize: JsonSchema = { type: 'string', enum: ['S', 'M', 'L'] };
+const stationServiceKind: JsonSchema = {
+  type: 'string',
+  enum: [
+    'interstellar_factors', 'material_trader_raw', 'material_trader_manufactured', 'material_trader_encoded',
+    'technology_broker_human', 'technology_broker_guardian', 'large_pad', 'fleet_carrier_vendor',
+  ],
+};
+
+const keyBinding: JsonSchema = {
+  type: 'object',
+  properties: {
+    device: { type: 'string' },
+    deviceType: { type: 'string' },
+    key: { type: 'string' },
+    modifiers: {
+      type: 'array',
+      items: { type: 'object', properties: { device: { type: 'string' }, key: { type: 'string' } } },
+    },
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Resources
+// ---------------------------------------------------------------------------
+
+const AlertRuleSchema = schema<AlertRule>({
+  type: 'object',
+  required: ['id', 'name', 'enabled', 'condition'],
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    enabled: { type: 'boolean' },
+    condition: { type: 'string', example: 'low_fuel' },
+    threshold: { type: 'number' },
+    sound: { type: 'string' },
+    tts: { type: 'boolean' },
+  },
+});
+
+const AlertEventSchema = schema<AlertEvent>({
+  type: 'object',
+  required: ['id', 'ruleId', 'ruleName', 'message', 'severity', 'timestamp', 'acknowledged'],
+  properties: {
+    id: { type: 'string' },
+    ruleId: { type: 'string' },
+    ruleName: { type: 'string' },
+    message: { type: 'string' },
+    severity: { type: 'string', enum: ['info', 'warning', 'critical'] },
+    timestamp,
+    acknowledged: { type: 'boolean' },
+  },
+});
+
+const LogbookEntrySchema = schema<LogbookEntry>({
+  type: 'object',
+  required: ['id', 'content', 'timestamp', 'system', 'body', 'station', 'ship', 'shipName', 'tags', 'source'],
+  properties: {
+    id: { type: 'string' },
+    content: { type: 'string' },
+    timestamp,
+    system: { type: 'string' },
+    body: nullableString,
+    station: nullableString,
+    ship: { type: 'string' },
+    shipName: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+    source: { type: 'string', enum: ['text', 'voice'] },
+  },
+});
+
+const LogbookStatsSchema = schema<LogbookStats>({
+  type: 'object',
+  required: ['totalEntries', 'voiceEntries', 'textEntries', 'systemsCovered'],
+  properties: {
+    totalEntries: { type: 'integer' },
+    voiceEntries: { type: 'integer' },
+    textEntries: { type: 'integer' },
+    systemsCovered: { type: 'integer' },
+  },
+});
+
+const BindingEntrySchema = schema<BindingEntry>({
+  type: 'object',
+  required: ['action', 'category', 'primary', 'secondary', 'axis'],
+  properties: {
+    action: { type: 'string' },
+    category: { type: 'string' },
+    primary: { anyOf: [keyBinding, { type: 'null' }] },
+    secondary: { anyOf: [keyBinding, { type: 'null' }] },
+    axis: {
+      anyOf: [
+        {
+          type: 'object',
+          properties: {
+            device: { type: 'string' },
+            deviceType: { type: 'string' },
+            axis: { type: 'string' },
+            inverted: { type: 'boolean' },
+            deadzone: { type: 'number' },
+          },
+        },
+        { type: 'null' },
+      ],
+    },
+  },
+});
+
+const MusicTrackSchema = schema<MusicTrack>({
+  type: 'object',
+  required: ['id', 'title'],
+  properties: {
+    id: nonEmptyString,
+    title: { type: 'string' },
+    artist: { type: 'string', default: '' },
+    duration: { type: 'string', default: '' },
+    thumbnail: { type: 'string', default: '' },
+    url: { type: 'string', default: '' },
+  },
+});
+
+const PairedDeviceSchema = schema<PairedDevice>({
+  type: 'object',
+  required: ['id', 'name', 'scopes', 'pairedAt', 'lastSeenAt', 'lastAddress'],
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    scopes: deviceScopes,
+    pairedAt: timestamp,
+    lastSeenAt: { type: ['string', 'null'], format: 'date-time' },
+    lastAddress: nullableString,
+  },
+});
+
+const MarketEntrySchema = schema<MarketEntry>({
+  type: 'object',
+  required: [
+    'id', 'name', 'nameLocalised', 'category', 'buyPrice', 'sellPrice', 'meanPrice',
+    'stock', 'stockBracket', 'demand', 'demandBracket', 'consumer', 'producer', 'rare',
+  ],
+  properties: {
+    id: { type: 'integer' },
+    name: { type: 'string', example: 'gold' },
+    nameLocalised: nullableString,
+    category: { type: 'string', example: 'Metals' },
+    buyPrice: { type: 'integer', description: 'What the station charges; 0 if it does not sell.' },
+    sellPrice: { type: 'integer', description: 'What the station pays.' },
+    meanPrice: { type: 'integer' },
+    stock: { type: 'integer' },
+    stockBracket: { type: 'integer', enum: [0, 1, 2, 3] },
+    demand: { type: 'integer' },
+    demandBracket: { type: 'integer', enum: [0, 1, 2, 3] },
+    consumer: { type: 'boolean' },
+    producer: { type: 'boolean' },
+    rare: { type: 'boolean' },
+  },
+});
+
+const MarketSnapshotSchema = schema<MarketSnapshot>({
+  type: 'object',
+  required: ['marketId', 'stationName', 'stationType', 'starSystem', 'timestamp', 'items'],
+  properties: {
+    marketId: { type: 'integer' },
+    stationName: { type: 'string' },
+    stationType: { type: 'string' },
+    starSystem: { type: 'string' },
+    timestamp,
+    items: { type: 'array', items: MarketEntrySchema },
+  },
+});
+
+const MarketStationSummarySchema = schema<MarketStationSummary>({
+  type: 'object',
+  required: ['marketId', 'stationName', 'stationType', 'starSystem', 'lastVisited', 'snapshots', 'commodities'],
+  properties: {
+    marketId: { type: 'integer' },
+    stationName: { type: 'string' },
+    stationType: { type: 'string' },
+    starSystem: { type: 'string' },
+    lastVisited: timestamp,
+    snapshots: { type: 'integer' },
+    commodities: { type: 'integer' },
+  },
+});
+
+const MarketPricePointSchema = schema<MarketPricePoint>({
+  type: 'object',
+  required: [
+    'timestamp', 'marketId', 'stationName', 'starSystem', 'commodity', 'nameLocalised',
+    'buyPrice', 'sellPrice', 'meanPrice', 'stock', 'demand',
+  ],
+  properties: {
+    timestamp,
+    marketId: { type: 'integer' },
+    stationName: { type: 'string' },
+    starSystem: { type: 'string' },
+    commodity: { type: 'string', example: 'gold' },
+    nameLocalised: nullableString,
+    buyPrice: { type: 'integer' },
+    sellPrice: { type: 'integer' },
+    meanPrice: { type: 'integer' },
+    stock: { type: 'integer' },
+    demand: { type: 'integer' },
+  },
+});
+
+const StationItemSchema = schema<StationItem>({
+  type: 'object',
+  required: ['kind', 'item', 'name', 'price'],
+  properties: {
+    kind: stationItemKind,
+    item: { type: 'string', example: 'int_hyperdrive_size5_class5' },
+    name: { type: 'string', example: '5A Frame Shift Drive' },
+    price: { type: 'integer' },
+  },
+});
+
+const catalogueStationProperties: Record<string, JsonSchema> = {
+  marketId: { type: 'integer' },
+  stationName: { type: 'string' },
+  starSystem: { type: 'string' },
+  coordinates: { ...coordinates, type: ['object', 'null'] },
+  shipyardUpdated: { type: ['string', 'null'], format: 'date-time' },
+  outfittingUpdated: { type: ['string', 'null'], format: 'date-time' },
+  ships: { type: 'integer' },
+  modules: { type: 'integer' },
+};
+
+const CatalogueStationSchema = schema<CatalogueStation>({
+  type: 'object',
+  required: Object.keys(catalogueStationProperties),
+  properties: catalogueStationProperties,
+});
+
+const StationCatalogueSchema = schema<StationCatalogue>({
+  type: 'object',
+  required: [...Object.keys(catalogueStationProperties), 'items'],
+  properties: { ...catalogueStationProperties, items: { type: 'array', items: StationItemSchema } },
+});
+
+const ForSaleListingSchema = schema<ForSaleListing>({
+  type: 'object',
+  required: ['kind', 'item', 'name', 'price', 'marketId', 'stationName', 'starSystem', 'distanceLy', 'seenAt'],
+  properties: {
+    ...StationItemSchema.properties,
+    marketId: { type: 'integer' },
+    stationName: { type: 'string' },
+    starSystem: { type: 'string' },
+    distanceLy: { type: ['number', 'null'] },
+    seenAt: timestamp,
+  },
+});
+
+const systemBody: JsonSchema = {
+  type: 'object',
+  description: 'A `SystemBody`: the Scan event fields, signals, mapping and estimated `fssValue` / `dssValue` in credits.',
+};
+
+const exploredSystemProperties: Record<string, JsonSchema> = {
+  systemAddress: { type: 'integer' },
+  name: { type: 'string' },
+  bodyCount: { type: ['integer', 'null'] },
+  nonBodyCount: { type: ['integer', 'null'] },
+  allBodiesFound: { type: 'boolean' },
+  scanned: { type: 'integer' },
+  mapped: { type: 'integer' },
+  unsold: { type: 'integer' },
+  firstScannedAt: timestamp,
+  lastScannedAt: timestamp,
+};
+
+const ExploredSystemSummarySchema = schema<ExploredSystemSummary>({
+  type: 'object',
+  required: Object.keys(exploredSystemProperties),
+  properties: exploredSystemProperties,
+});
+
+const ExploredSystemSchema = schema<ExploredSystem>({
+  type: 'object',
+  required: [...Object.keys(exploredSystemProperties), 'bodies'],
+  properties: {
+    ...exploredSystemProperties,
+    bodies: { type: 'array', items: systemBody },
+  },
+});
+
+const UnsoldExplorationDataSchema = schema<UnsoldExplorationData>({
+  type: 'object',
+  required: ['systems', 'bodies', 'mapped', 'firstDiscoveries', 'estimatedValue', 'oldestScanAt', 'bySystem', 'lastLost'],
+  properties: {
+    systems: { type: 'integer' },
+    bodies: { type: 'integer' },
+    mapped: { type: 'integer' },
+    firstDiscoveries: { type: 'integer' },
+    estimatedValue: { type: 'integer', description: 'Credits, from the community cartographics formula.' },
+    oldestScanAt: { type: ['string', 'null'], format: 'date-time' },
+    bySystem: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['systemAddress', 'name', 'bodies', 'mapped', 'estimatedValue'],
+        properties: {
+          systemAddress: { type: 'integer' },
+          name: { type: 'string' },
+          bodies: { type: 'integer' },
+          mapped: { type: 'integer' },
+          estimatedValue: { type: 'integer' },
+        },
+      },
+    },
+    lastLost: {
+      type: ['object', 'null'],
+      required: ['bodies', 'systems', 'at'],
+      properties: { bodies: { type: 'integer' }, systems: { type: 'integer' }, at: timestamp },
+    },
+  },
+});
+
+const ExplorationOverviewSchema = schema<ExplorationOverview>({
+  type: 'object',
+  required: ['current', 'worthMapping', 'unsold'],
+  properties: {
+    current: { ...ExploredSystemSchema, type: ['object', 'null'] },
+    worthMapping: { type: 'array', items: systemBody },
+    unsold: UnsoldExplorationDataSchema,
+  },
+});
+
+const galaxySystemProperties: Record<string, JsonSchema> = {
+  id64: { type: 'integer' },
+  edsmId: { type: ['integer', 'null'] },
+  name: { type: 'string' },
+  coordinates,
+  allegiance: nullableString,
+  government: nullableString,
+  economy: nullableString,
+  security: nullableString,
+  population: { type: ['integer', 'null'] },
+  primaryStar: { ...nullableString, description: 'Arrival star class, e.g. "K", "N", "DA".' },
+  updatedAt: { type: ['string', 'null'], format: 'date-time' },
+};
+
+const GalaxySystemSchema = schema<GalaxySystem>({
+  type: 'object',
+  required: Object.keys(galaxySystemProperties),
+  properties: galaxySystemProperties,
+});
+
+const GalaxyNearbySystemSchema = schema<GalaxyNearbySystem>({
+  type: 'object',
+  required: [...Object.keys(galaxySystemProperties), 'distance'],
+  properties: { ...galaxySystemProperties, distance: { type: 'number', description: 'Light years from the centre.' } },
+});
+
+const galaxyStationProperties: Record<string, JsonSchema> = {
+  id: { type: 'integer' },
+  marketId: { type: ['integer', 'null'] },
+  name: { type: 'string' },
+  type: nullableString,
+  systemId64: { type: 'integer' },
+  systemName: { type: 'string' },
+  distanceToArrival: { type: ['number', 'null'] },
+  allegiance: nullableString,
+  government: nullableString,
+  economy: nullableString,
+  hasMarket: { type: 'boolean' },
+  hasShipyard: { type: 'boolean' },
+  hasOutfitting: { type: 'boolean' },
+  services: { type: 'array', items: { type: 'string' } },
+  updatedAt: { type: ['string', 'null'], format: 'date-time' },
+};
+
+const GalaxyStationSchema = schema<GalaxyStation>({
+  type: 'object',
+  required: Object.keys(galaxyStationProperties),
+  properties: galaxyStationProperties,
+});
+
+const GalaxySystemDetailSchema = schema<GalaxySystemDetail>({
+  type: 'object',
+  required: [...Object.keys(galaxySystemProperties), 'stations', 'bodies'],
+  properties: {
+    ...galaxySystemProperties,
+    stations: { type: 'array', items: GalaxyStationSchema },
+    bodies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'bodyId', 'name', 'type', 'subType', 'systemId64', 'distanceToArrival', 'landable', 'terraformState'],
+        properties: {
+          id: { type: 'integer' },
+          bodyId: { type: ['integer', 'null'] },
+          name: { type: 'string' },
+          type: { type: 'string' },
+          subType: nullableString,
+          systemId64: { type: 'integer' },
+          distanceToArrival: { type: ['number', 'null'] },
+          landable: { type: 'boolean' },
+          terraformState: nullableString,
+        },
+      },
+    },
+  },
+});
+
+const NearestServiceResultSchema = schema<NearestServiceResult>({
+  type: 'object',
+  required: ['service', 'origin', 'searchedLy', 'stations'],
+  properties: {
+    service: stationServiceKind,
+    origin: {
+      type: 'object',
+      required: ['system', 'coordinates'],
+      properties: { system: { type: 'string' }, coordinates },
+    },
+    searchedLy: { type: 'number', description: 'Radius searched, in light years.' },
+    stations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: [...Object.keys(galaxyStationProperties), 'distance', 'maxPad'],
+        properties: {
+          ...galaxyStationProperties,
+          distance: { type: 'number', description: 'Light years from the commander.' },
+          maxPad: { type: ['string', 'null'], enum: ['S', 'M', 'L', null] },
+        },
+      },
+    },
+  },
+});
+
+const PlottedRouteSchema = schema<PlottedRoute>({
+  type: 'object',
+  required: [
+    'source', 'destination', 'waypoints', 'jumpCount', 'totalDistance', 'directDistance', 'jumpRange',
+    'refuels', 'supercharges', 'neutron', 'whiteDwarf', 'plottedAt',
+  ],
+  properties: {
+    source: { type: 'string' },
+    destination: { type: 'string' },
+    waypoints: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: [
+          'system', 'systemAddress', 'coordinates', 'starClass', 'jumpDistance', 'fuelUsed', 'fuelLeft',
+          'refuel', 'supercharged',
+        ],
+        properties: {
+          system: { type: 'string' },
+          systemAddress: { type: 'integer' },
+          coordinates,
+          starClass: { type: 'string' },
+          jumpDistance: { type: 'number' },
+          fuelUsed: { type: 'number' },
+          fuelLeft: { type: 'number' },
+          refuel: { type: 'boolean' },
+          supercharged: { type: ['string', 'null'], enum: ['neutron', 'white_dwarf', null] },
+        },
+      },
+    },
+    jumpCount: { type: 'integer' },
+    totalDistance: { type: 'number' },
+    directDistance: { type: 'number' },
+    jumpRange: { type: 'number' },
+    refuels: { type: 'integer' },
+    supercharges: { type: 'integer' },
+    neutron: { type: 'boolean' },
+    whiteDwarf: { type: 'boolean' },
+    plottedAt: timestamp,
+  },
+});
+
+const GalaxyDatabaseStatsSchema = schema<GalaxyDatabaseStats>({
+  type: 'object',
+  required: ['systems', 'stations', 'bodies', 'imports'],
+  properties: {
+    systems: { type: 'integer' },
+    stations: { type: 'integer' },
+    bodies: { type: 'integer' },
+    imports: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['source', 'kind', 'lines', 'records', 'complete', 'updatedAt'],
+        properties: {
+          source: { type: 'string' },
+          kind: galaxyDumpKind,
+          lines: { type: 'integer' },
+          records: { type: 'integer' },
+          complete: { type: 'boolean' },
+          updatedAt: timestamp,
+        },
+      },
+    },
+  },
+});
+
+const ShipJumpRangeSchema = schema<ShipJumpRange>({
+  type: 'object',
+  required: [
+    'shipId', 'ship', 'shipName', 'active', 'fsd', 'unladenMass', 'cargoCapacity', 'fuelCapacity',
+    'maxRange', 'unladenRange', 'ladenRange', 'currentRange', 'fuelPerJump', 'reportedMaxRange', 'loadoutAt',
+  ],
+  properties: {
+    shipId: { type: 'integer' },
+    ship: { type: 'string' },
+    shipName: { type: 'string' },
+    active: { type: 'boolean' },
+    fsd: {
+      type: 'object',
+      required: [
+        'item', 'class', 'rating', 'sco', 'optimalMass', 'maxFuelPerJump', 'fuelMultiplier', 'fuelPower',
+        'guardianBoost', 'source',
+      ],
+      properties: {
+        item: { type: 'string' },
+        class: { type: 'integer' },
+        rating: { type: 'string', enum: ['A', 'B', 'C', 'D', 'E'] },
+        sco: { type: 'boolean' },
+        optimalMass: { type: 'number' },
+        maxFuelPerJump: { type: 'number' },
+        fuelMultiplier: { type: 'number' },
+        fuelPower: { type: 'number' },
+        guardianBoost: { type: 'number' },
+        source: { type: 'string', enum: ['table', 'calibrated'] },
+      },
+    },
+    unladenMass: { type: 'number' },
+    cargoCapacity: { type: 'integer' },
+    fuelCapacity: { type: 'number' },
+    maxRange: { type: 'number' },
+    unladenRange: { type: 'number' },
+    ladenRange: { type: 'number' },
+    currentRange: { type: ['number', 'null'] },
+    fuelPerJump: { type: 'number' },
+    jumpFuel: {
+      type: 'object',
+      required: ['distance', 'fuel'],
+      properties: { distance: { type: 'number' }, fuel: { type: ['number', 'null'] } },
+    },
+    reportedMaxRange: { type: 'number' },
+    loadoutAt: timestamp,
+  },
+});
+
+const JumpRangeOverviewSchema = schema<JumpRangeOverview>({
+  type: 'object',
+  required: ['current', 'stored'],
+  properties: {
+    current: { anyOf: [ShipJumpRangeSchema, { type: 'null' }] },
+    stored: { type: 'array', items: ShipJumpRangeSchema },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+const LimitOffsetQuerySchema = schema<LimitOffsetQuery>({
+  type: 'object',
+  properties: {
+    limit: { type: 'integer', minimum: 1, maximum: 1000 },
+    offset: { type: 'integer', minimum: 0 },
+  },
+});
+
+const CommanderScopeQuerySchema = schema<CommanderScopeQuery>({
+  type: 'object',
+  properties: { fid: commanderScope },
+});
+
+const JournalSessionsQuerySchema = schema<JournalSessionsQuery>({
+  type: 'object',
+  properties: {
+    limit: { type: 'integer', minimum: 1, maximum: 1000, default: 50 },
+    offset: { type: 'integer', minimum: 0, default: 0 },
+    fid: commanderScope,
+  },
+});
+
+const JournalEventsQuerySchema = schema<JournalEventsQuery>({
+  type: 'object',
+  properties: {
+    events: { ...nonEmptyString, description: 'Comma-separated event types.', example: 'FSDJump,Docked' },
+    eventTypes: { ...nonEmptyString, description: 'Alias of `events`.' },
+    since: timestamp,
+    until: timestamp,
+    session: { type: 'integer', minimum: 1, description: 'Only this session; every commander unless `fid` is given.' },
+    fid: commanderScope,
+    commander: { ...nonEmptyString, description: 'Commander name.' },
+    search: { ...nonEmptyString, description: 'Text in the event data.' },
+    q: { ...nonEmptyString, description: 'Alias of `search`.' },
+    page: { type: 'integer', minimum: 1, default: 1 },
+    perPage: { type: 'integer', minimum: 1, maximum: 1000, default: 50 },
+    sortOrder: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+  },
+});
+
+const MarketHistoryQuerySchema = schema<MarketHistoryQuery>({
+  type: 'object',
+  properties: {
+    commodity: { type: 'string', minLength: 1, description: 'Only this commodity (station history).' },
+    marketId: { type: 'integer', description: 'Only this station (commodity history).' },
+    since: timestamp,
+    until: timestamp,
+    limit: { type: 'integer', minimum: 1, maximum: 5000, default: 500 },
+  },
+});
+
+const ForSaleQuerySchema = schema<ForSaleQuery>({
+  type: 'object',
+  required: ['q'],
+  properties: {
+    q: { type: 'string', minLength: 1, example: '5A FSD' },
+    kind: stationItemKind,
+    limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+  },
+});
+
+const GalaxySearchQuerySchema = schema<GalaxySearchQuery>({
+  type: 'object',
+  required: ['q'],
+  properties: {
+    q: { type: 'string', minLength: 1, example: 'Col 285' },
+    limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+  },
+});
+
+const GalaxyNearbyQuerySchema = schema<GalaxyNearbyQuery>({
+  type: 'object',
+  description: 'Give either `system` or all of `x`, `y` and `z`.',
+  properties: {
+    system: { type: 'string', minLength: 1, example: 'Sol' },
+    x: { type: 'number' },
+    y: { type: 'number' },
+    z: { type: 'number' },
+    radius: { type: 'number', minimum: 1, maximum: 500, default: 20 },
+    limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100 },
+  },
+});
+
+const NearestServiceQuerySchema = schema<NearestServiceQuery>({
+  type: 'object',
+  required: ['service'],
+  properties: {
+    service: stationServiceKind,
+    pad: { ...landingPadSize, description: 'Smallest landing pad the ship needs.' },
+    maxDistanceToArrival: { type: 'number', minimum: 0, description: 'Light seconds from the arrival star.' },
+    limit: { type: 'integer', minimum: 1, maximum: 50, default: 5 },
+  },
+});
+
+const RoutePlotQuerySchema = schema<RoutePlotQuery>({
+  type: 'object',
+  required: ['to'],
+  properties: {
+    to: { ...nonEmptyString, description: 'Destination system.', example: 'Colonia' },
+    from: { ...nonEmptyString, description: 'Start system; the current system by default.' },
+    neutron: { type: 'boolean', default: false },
+    whiteDwarf: { type: 'boolean', default: false },
+    cargo: { type: 'number', minimum: 0, description: 'Cargo in tons; the cargo on board by default.' },
+  },
+});
+
+const JumpRangeQuerySchema = schema<JumpRangeQuery>({
+  type: 'object',
+  properties: {
+    distance: { type: 'number', minimum: 0, description: 'Jump distance in light years to work out the fuel for.' },
+  },
+});
+
+const TextSearchQuerySchema = schema<TextSearchQuery>({
+  type: 'object',
+  required: ['q'],
+  properties: {
+    q: { ...nonEmptyString, example: 'Shipyard' },
+  },
+});
+
+const CommoditySearchQuerySchema = schema<CommoditySearchQuery>({
+  type: 'object',
+  required: ['commodity'],
+  properties: {
+    commodity: { ...nonEmptyString, example: 'Gold' },
+  },
+});
+
+const MissionExpiringQuerySchema = schema<MissionExpiringQuery>({
+  type: 'object',
+  properties: {
+    hours: { type: 'integer', minimum: 1, maximum: 720, default: 24 },
+  },
+});
+
+const CarrierFuelQuerySchema = schema<CarrierFuelQuery>({
+  type: 'object',
+  required: ['distance'],
+  properties: {
+    distance: { type: 'number', minimum: 1, description: 'Light years to travel.', example: 1500 },
+  },
+});
+
+const FarmGuideQuerySchema = schema<FarmGuideQuery>({
+  type: 'object',
+  properties: {
+    component: { ...nonEmptyString, description: 'Only guides for this component.', example: 'Graphene' },
+  },
+});
+
+const TriviaRandomQuerySchema = schema<TriviaRandomQuery>({
+  type: 'object',
+  properties: {
+    category: { ...nonEmptyString, description: 'Only questions from this category.' },
+  },
+});
+
+const AlertRuleUpdateRequestSchema = schema<AlertRuleUpdateRequest>({
+  type: 'object',
+  additionalProperties: false,
+  minProperties: 1,
+  properties: {
+    name: nonEmptyString,
+    enabled: { type: 'boolean' },
+    condition: nonEmptyString,
+    threshold: { type: 'number', minimum: 0 },
+    sound: { type: 'string' },
+    tts: { type: 'boolean' },
+  },
+});
+
+const BindingUpdateRequestSchema = schema<BindingUpdateRequest>({
+  type: 'object',
+  required: ['slot'],
+  additionalProperties: false,
+  description: 'Either `clear: true`, or a `device` with a `key` (button slots) or `axis` (axis slot).',
+  properties: {
+    slot: { type: 'string', enum: ['primary', 'secondary', 'axis'] },
+    clear: { type: 'boolean' },
+    device: nonEmptyString,
+    key: nonEmptyString,
+    modifiers: {
+      type: 'array',
+      maxItems: 4,
+      items: {
+        type: 'object',
+        required: ['device', 'key'],
+        additionalProperties: false,
+        properties: { device: nonEmptyString, key: nonEmptyString },
+      },
+    },
+    axis: nonEmptyString,
+    inverted: { type: 'boolean' },
+    deadzone: { type: 'number', minimum: 0, maximum: 1 },
+  },
+});
+
+const LogbookCreateRequestSchema = schema<LogbookCreateRequest>({
+  type: 'object',
+  required: ['content'],
+  additionalProperties: false,
+  properties: {
+    content: { type: 'string', minLength: 1, maxLength: 10_000 },
+    source: { type: 'string', enum: ['text', 'voice'], default: 'text' },
+    tags: { ...tags, default: [] },
+  },
+});
+
+const LogbookUpdateRequestSchema = schema<LogbookUpdateRequest>({
+  type: 'object',
+  required: ['content'],
+  additionalProperties: false,
+  properties: {
+    content: { type: 'string', minLength: 1, maxLength: 10_000 },
+    tags,
+  },
+});
+
+const CovasTextRequestSchema = schema<CovasTextRequest>({
+  type: 'object',
+  required: ['text'],
+  properties: { text: { type: 'string', minLength: 1, maxLength: 2000 } },
+});
+
+const CovasEnableRequestSchema = schema<CovasEnableRequest>({
+  type: 'object',
+  required: ['enabled'],
+  properties: { enabled: { type: 'boolean' } },
+});
+
+const CovasPttRequestSchema = schema<CovasPttRequest>({
+  type: 'object',
+  properties: { action: { type: 'string', enum: ['start', 'stop'], description: 'Omit to toggle.' } },
+});
+
+const MusicQueueRequestSchema = schema<MusicQueueRequest>({
+  type: 'object',
+  required: ['track'],
+  properties: { track: MusicTrackSchema },
+});
+
+const MusicVolumeRequestSchema = schema<MusicVolumeRequest>({
+  type: 'object',
+  required: ['volume'],
+  properties: { volume: percent },
+});
+
+const MusicRepeatRequestSchema = schema<MusicRepeatRequest>({
+  type: 'object',
+  required: ['mode'],
+  properties: { mode: { type: 'string', enum: ['none', 'one', 'all'] } },
+});
+
+const MusicShuffleRequestSchema = schema<MusicShuffleRequest>({
+  type: 'object',
+  required: ['enabled'],
+  properties: { enabled: { type: 'boolean' } },
+});
+
+const ReplayLoadRequestSchema = schema<ReplayLoadRequest>({
+  type: 'object',
+  required: ['path'],
+  additionalProperties: false,
+  properties: {
+    path: { ...nonEmptyString, description: 'Journal file or directory on the server.' },
+    speed: { type: 'number', minimum: 0.01, maximum: 1000 },
+    maxGapMs: { type: 'integer', minimum: 0 },
+    persist: { type: 'boolean' },
+    autoplay: { type: 'boolean' },
+  },
+});
+
+const ReplayStepRequestSchema = schema<ReplayStepRequest>({
+  type: 'object',
+  properties: { count: { type: 'integer', minimum: 1, maximum: 10_000, default: 1 } },
+});
+
+const ReplaySeekRequestSchema = schema<ReplaySeekRequest>({
+  description: 'position (event index) or timestamp (ISO string)',
+  anyOf: [
+    { type: 'object', required: ['position'], properties: { position: { type: 'integer', minimum: 0 } } },
+    { type: 'object', required: ['timestamp'], properties: { timestamp } },
+  ],
+});
+
+const ReplaySpeedRequestSchema = schema<ReplaySpeedRequest>({
+  type: 'object',
+  required: ['speed'],
+  properties: { speed: { type: 'number', minimum: 0.01, maximum: 1000 } },
+});
+
+const TriviaStartRequestSchema = schema<TriviaStartRequest>({
+  type: 'object',
+  properties: {
+    count: { type: 'integer', minimum: 1, maximum: 50, default: 10 },
+    category: { type: 'string' },
+    difficulty: { type: 'string', enum: ['easy', 'medium', 'hard'] },
+  },
+});
+
+const TriviaAnswerRequestSchema = schema<TriviaAnswerRequest>({
+  type: 'object',
+  required: ['questionId', 'selectedIndex'],
+  properties: {
+    questionId: { type: 'integer' },
+    selectedIndex: { type: 'integer', minimum: 0 },
+    timeMs: { type: 'number', minimum: 0, default: 0 },
+  },
+});
+
+const ProfileApplyRequestSchema = schema<ProfileApplyRequest>({
+  type: 'object',
+  required: ['profileName'],
+  properties: { profileName: nonEmptyString },
+});
+
+const QualityPresetApplyRequestSchema = schema<QualityPresetApplyRequest>({
+  type: 'object',
+  required: ['presetName'],
+  properties: { presetName: nonEmptyString },
+});
+
+const AudioProfileRequestSchema = schema<AudioProfileRequest>({
+  type: 'object',
+  required: ['name'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 64 },
+    description: { type: 'string', default: '' },
+    masterVolume: { ...percent, default: 80 },
+    gameVolume: { ...percent, default: 70 },
+    voiceVolume: { ...percent, default: 90 },
+    musicVolume: { ...percent, default: 50 },
+    ttsVolume: { ...percent, default: 85 },
+  },
+});
+
+const GraphicsProfileRequestSchema = schema<GraphicsProfileRequest>({
+  type: 'object',
+  required: ['name', 'hudMatrix'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 64 },
+    description: { type: 'string', default: '' },
+    hudMatrix: {
+      type: 'object',
+      required: ['matrixRed', 'matrixGreen', 'matrixBlue'],
+      properties: { matrixRed: vector3, matrixGreen: vector3, matrixBlue: vector3 },
+    },
+    fov: { type: ['number', 'null'], minimum: 0, default: null },
+  },
+});
+
+const JournalImportRequestSchema = schema<JournalImportRequest>({
+  type: 'object',
+  properties: { full: { type: 'boolean', default: false } },
+});
+
+const GalaxyImportRequestSchema = schema<GalaxyImportRequest>({
+  type: 'object',
+  required: ['path'],
+  properties: {
+    path: { type: 'string', minLength: 1, example: 'systemsPopulated.json.gz' },
+    kind: galaxyDumpKind,
+    full: { type: 'boolean', default: false },
+  },
+});
+
+const SettingsUpdateRequestSchema = schema<SettingsUpdateRequest>({
+  type: 'object',
+  minProperties: 1,
+  description: 'Setting keys to new values; each value is checked against that setting\'s own schema.',
+});
+
+const DevicePairRequestSchema = schema<DevicePairRequest>({
+  type: 'object',
+  required: ['code', 'name'],
+  properties: {
+    code: { type: 'string', pattern: '^\\d{6}$' },
+    name: { type: 'string', minLength: 1, maxLength: 64 },
+  },
+});
+
+const DevicePairingRequestSchema = schema<DevicePairingRequest>({
+  type: 'object',
+  properties: { scopes: { ...deviceScopes, default: ['read'] } },
+});
+
+const DeviceUpdateRequestSchema = schema<DeviceUpdateRequest>({
+  type: 'object',
+  additionalProperties: false,
+  minProperties: 1,
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 64 },
+    scopes: deviceScopes,
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Catalogue
+// ---------------------------------------------------------------------------
+
+/** Every named API schema, keyed by the type it describes. */
+export const API_SCHEMAS = {
+  AlertRule: AlertRuleSchema,
+  AlertEvent: AlertEventSchema,
+  LogbookEntry: LogbookEntrySchema,
+  LogbookStats: LogbookStatsSchema,
+  BindingEntry: BindingEntrySchema,
+  MusicTrack: MusicTrackSchema,
+  PairedDevice: PairedDeviceSchema,
+  MarketEntry: MarketEntrySchema,
+  MarketSnapshot: MarketSnapshotSchema,
+  MarketStationSummary: MarketStationSummarySchema,
+  MarketPricePoint: MarketPricePointSchema,
+  StationItem: StationItemSchema,
+  CatalogueStation: CatalogueStationSchema,
+  StationCatalogue: StationCatalogueSchema,
+  ForSaleListing: ForSaleListingSchema,
+  ExploredSystemSummary: ExploredSystemSummarySchema,
+  ExploredSystem: ExploredSystemSchema,
+  UnsoldExplorationData: UnsoldExplorationDataSchema,
+  ExplorationOverview: ExplorationOverviewSchema,
+  GalaxySystem: GalaxySystemSchema,
+  GalaxyNearbySystem: GalaxyNearbySystemSchema,
+  GalaxyStation: GalaxyStationSchema,
+  GalaxySystemDetail: GalaxySystemDetailSchema,
+  GalaxyDatabaseStats: GalaxyDatabaseStatsSchema,
+  NearestServiceResult: NearestServiceResultSchema,
+  PlottedRoute: PlottedRouteSchema,
+  ShipJumpRange: ShipJumpRangeSchema,
+  JumpRangeOverview: JumpRangeOverviewSchema,
+  LimitOffsetQuery: LimitOffsetQuerySchema,
+  CommanderScopeQuery: CommanderScopeQuerySchema,
+  JournalSessionsQuery: JournalSessionsQuerySchema,
+  JournalEventsQuery: JournalEventsQuerySchema,
+  MarketHistoryQuery: MarketHistoryQuerySchema,
+  ForSaleQuery: ForSaleQuerySchema,
+  GalaxySearchQuery: GalaxySearchQuerySchema,
+  GalaxyNearbyQuery: GalaxyNearbyQuerySchema,
+  NearestServiceQuery: NearestServiceQuerySchema,
+  RoutePlotQuery: RoutePlotQuerySchema,
+  JumpRangeQuery: JumpRangeQuerySchema,
+  TextSearchQuery: TextSearchQuerySchema,
+  CommoditySearchQuery: CommoditySearchQuerySchema,
+  MissionExpiringQuery: MissionExpiringQuerySchema,
+  CarrierFuelQuery: CarrierFuelQuerySchema,
+  FarmGuideQuery: FarmGuideQuerySchema,
+  TriviaRandomQuery: TriviaRandomQuerySchema,
+  AlertRuleUpdateRequest: AlertRuleUpdateRequestSchema,
+  BindingUpdateRequest: BindingUpdateRequestSchema,
+  LogbookCreateRequest: LogbookCreateRequestSchema,
+  LogbookUpdateRequest: LogbookUpdateRequestSchema,
+  CovasTextRequest: CovasTextRequestSchema,
+  CovasEnableRequest: CovasEnableRequestSchema,
+  CovasPttRequest: CovasPttRequestSchema,
+  MusicQueueRequest: MusicQueueRequestSchema,
+  MusicVolumeRequest: MusicVolumeRequestSchema,
+  MusicRepeatRequest: MusicRepeatRequestSchema,
+  MusicShuffleRequest: MusicShuffleRequestSchema,
+  ReplayLoadRequest: ReplayLoadRequestSchema,
+  ReplayStepRequest: ReplayStepRequestSchema,
+  ReplaySeekRequest: ReplaySeekRequestSchema,
+  ReplaySpeedRequest: ReplaySpeedRequestSchema,
+  TriviaStartRequest: TriviaStartRequestSchema,
+  TriviaAnswerRequest: TriviaAnswerRequestSchema,
+  ProfileApplyRequest: ProfileApplyRequestSchema,
+  QualityPresetApplyRequest: QualityPresetApplyRequestSchema,
+  AudioProfileRequest: AudioProfileRequestSchema,
+  GraphicsProfileRequest: GraphicsProfileRequestSchema,
+  JournalImportRequest: JournalImportRequestSchema,
+  GalaxyImportRequest: GalaxyImportRequestSchema,
+  SettingsUpdateRequest: SettingsUpdateRequestSchema,
+  DevicePairRequest: DevicePairRequestSchema,
+  DevicePairingRequest: DevicePairingRequestSchema,
+  DeviceUpdateRequest: DeviceUpdateRequestSchema,
+} as const;
+
+/** Name of a schema in `API_SCHEMAS`. */
+export type ApiSchemaName = keyof typeof API_SCHEMAS;
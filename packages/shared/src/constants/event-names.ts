@@ -93,6 +93,7 @@ export const EXPLORATION_EVENTS = [
   'FSSDiscoveryScan',
   'FSSAllBodiesFound',
   'FSSSignalDiscovered',
+  'FSSBodySignals',
   'SAASignalsFound',
   'SAAScanComplete',
   'CodexEntry',
@@ -111,3 +111,18 @@ export type {
   WizardAction,
   WizardPhase,
 } from './wizard-actions.js';
+
+// WebSocket topic catalogue
+export {
+  WS_TOPICS,
+  WS_UNTHROTTLED_TOPICS,
+  matchesTopic,
+  topicSpecificity,
+} from './ws-topics.js';
+
+// REST API schemas
+export { API_SCHEMAS } from './api-schemas.js';
+export type { ApiSchemaName } from './api-schemas.js';
+
+// Journal event schemas (generated from JournalEventMap)
+export { JOURNAL_EVENT_SCHEMAS } from './journal-schemas.js';
@@ -0,0 +1,3689 @@
+/**
+ * @vayu/shared — Journal Event Schemas
+ *
+ * JSON Schemas for every event in `JournalEventMap`, used to check events
+ * read from the journal against what VAYU models (see
+ * `utils/journal-validation.ts`).
+ *
+ * GENERATED by `scripts/generate-journal-schemas.ts` from
+ * `types/journal-events.ts` — do not edit by hand. After changing the event
+ * types, run:
+ *   npm run generate:journal-schemas -w @vayu/shared
+ */
+
+import type { JsonSchema } from '../types/api.js';
+import type { JournalEventMap, JournalEventName } from '../types/journal-events.js';
+
+// ---------------------------------------------------------------------------
+// Shared sub-types
+// ---------------------------------------------------------------------------
+
+const JournalMaterialItem: JsonSchema = {
+  type: 'object',
+  required: ['Name', 'Count'],
+  properties: {
+    Name: { type: 'string' },
+    Name_Localised: { type: 'string' },
+    Count: { type: 'number' },
+  },
+};
+
+const JournalEngineerModifier: JsonSchema = {
+  type: 'object',
+  required: ['Label', 'Value', 'OriginalValue', 'LessIsGood'],
+  properties: {
+    Label: { type: 'string' },
+    Value: { type: 'number' },
+    OriginalValue: { type: 'number' },
+    LessIsGood: { type: 'number' },
+  },
+};
+
+const JournalModuleEngineering: JsonSchema = {
+  type: 'object',
+  required: ['BlueprintName', 'BlueprintID', 'Level', 'Quality', 'Modifiers'],
+  properties: {
+    Engineer: { type: 'string' },
+    EngineerID: { type: 'number' },
+    BlueprintName: { type: 'string' },
+    BlueprintID: { type: 'number' },
+    Level: { type: 'number' },
+    Quality: { type: 'number' },
+    Modifiers: { type: 'array', items: JournalEngineerModifier },
+    ExperimentalEffect: { type: 'string' },
+    ExperimentalEffect_Localised: { type: 'string' },
+  },
+};
+
+const JournalShipModule: JsonSchema = {
+  type: 'object',
+  required: ['Slot', 'Item', 'On', 'Priority', 'Health'],
+  properties: {
+    Slot: { type: 'string' },
+    Item: { type: 'string' },
+    On: { type: 'boolean' },
+    Priority: { type: 'number' },
+    Health: { type: 'number' },
+    Value: { type: 'number' },
+    AmmoInClip: { type: 'number' },
+    AmmoInHopper: { type: 'number' },
+    Engineering: JournalModuleEngineering,
+  },
+};
+
+const JournalCargoItem: JsonSchema = {
+  type: 'object',
+  required: ['Name', 'Count', 'Stolen'],
+  properties: {
+    Name: { type: 'string' },
+    Name_Localised: { type: 'string' },
+    Count: { type: 'number' },
+    Stolen: { type: 'number' },
+    MissionID: { type: 'number' },
+  },
+};
+
+const JournalFaction: JsonSchema = {
+  type: 'object',
+  required: ['Name', 'FactionState', 'Government', 'Influence', 'Allegiance', 'Happiness'],
+  properties: {
+    Name: { type: 'string' },
+    FactionState: { type: 'string' },
+    Government: { type: 'string' },
+    Influence: { type: 'number' },
+    Allegiance: { type: 'string' },
+    Happiness: { type: 'string' },
+    Happiness_Localised: { type: 'string' },
+    MyReputation: { type: 'number' },
+    ActiveStates: {
+      type: 'array',
+      items: { type: 'object', required: ['State'], properties: { State: { type: 'string' } } },
+    },
+    PendingStates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['State', 'Trend'],
+        properties: {
+          State: { type: 'string' },
+          Trend: { type: 'number' },
+        },
+      },
+    },
+    RecoveringStates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['State', 'Trend'],
+        properties: {
+          State: { type: 'string' },
+          Trend: { type: 'number' },
+        },
+      },
+    },
+    SquadronFaction: { type: 'boolean' },
+    HappiestSystem: { type: 'boolean' },
+    HomeSystem: { type: 'boolean' },
+  },
+};
+
+const JournalConflict: JsonSchema = {
+  type: 'object',
+  required: ['WarType', 'Status', 'Faction1', 'Faction2'],
+  properties: {
+    WarType: { type: 'string' },
+    Status: { type: 'string' },
+    Faction1: {
+      type: 'object',
+      required: ['Name', 'Stake', 'WonDays'],
+      properties: {
+        Name: { type: 'string' },
+        Stake: { type: 'string' },
+        WonDays: { type: 'number' },
+      },
+    },
+    Faction2: {
+      type: 'object',
+      required: ['Name', 'Stake', 'WonDays'],
+      properties: {
+        Name: { type: 'string' },
+        Stake: { type: 'string' },
+        WonDays: { type: 'number' },
+      },
+    },
+  },
+};
+
+const JournalThargoidWar: JsonSchema = {
+  type: 'object',
+  required: [
+    'CurrentState',
+    'NextStateSuccess',
+    'NextStateFailure',
+    'SuccessStateReached',
+    'WarProgress',
+    'RemainingPorts',
+    'EstimatedRemainingTime',
+  ],
+  properties: {
+    CurrentState: { type: 'string' },
+    NextStateSuccess: { type: 'string' },
+    NextStateFailure: { type: 'string' },
+    SuccessStateReached: { type: 'boolean' },
+    WarProgress: { type: 'number' },
+    RemainingPorts: { type: 'number' },
+    EstimatedRemainingTime: { type: 'string' },
+  },
+};
+
+const JournalStationEconomy: JsonSchema = {
+  type: 'object',
+  required: ['Name', 'Proportion'],
+  properties: {
+    Name: { type: 'string' },
+    Name_Localised: { type: 'string' },
+    Proportion: { type: 'number' },
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+/** Schema per journal event name, one for every key of `JournalEventMap`. */
+export const JOURNAL_EVENT_SCHEMAS: {
+  readonly [K in JournalEventName]: JsonSchema<JournalEventMap[K]>;
+} = {
+  Fileheader: {
+    type: 'object',
+    required: ['timestamp', 'event', 'part', 'language', 'Odyssey', 'gameversion', 'build'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Fileheader'] },
+      part: { type: 'number' },
+      language: { type: 'string' },
+      Odyssey: { type: 'boolean' },
+      gameversion: { type: 'string' },
+      build: { type: 'string' },
+    },
+  },
+  Commander: {
+    type: 'object',
+    required: ['timestamp', 'event', 'FID', 'Name'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Commander'] },
+      FID: { type: 'string' },
+      Name: { type: 'string' },
+    },
+  },
+  LoadGame: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'FID',
+      'Commander',
+      'Horizons',
+      'Odyssey',
+      'Ship',
+      'ShipID',
+      'ShipName',
+      'ShipIdent',
+      'FuelLevel',
+      'FuelCapacity',
+      'GameMode',
+      'Credits',
+      'Loan',
+      'language',
+      'gameversion',
+      'build',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['LoadGame'] },
+      FID: { type: 'string' },
+      Commander: { type: 'string' },
+      Horizons: { type: 'boolean' },
+      Odyssey: { type: 'boolean' },
+      Ship: { type: 'string' },
+      Ship_Localised: { type: 'string' },
+      ShipID: { type: 'number' },
+      ShipName: { type: 'string' },
+      ShipIdent: { type: 'string' },
+      FuelLevel: { type: 'number' },
+      FuelCapacity: { type: 'number' },
+      GameMode: { type: 'string' },
+      Credits: { type: 'number' },
+      Loan: { type: 'number' },
+      language: { type: 'string' },
+      gameversion: { type: 'string' },
+      build: { type: 'string' },
+      Group: { type: 'string' },
+    },
+  },
+  Materials: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Raw', 'Manufactured', 'Encoded'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Materials'] },
+      Raw: { type: 'array', items: JournalMaterialItem },
+      Manufactured: { type: 'array', items: JournalMaterialItem },
+      Encoded: { type: 'array', items: JournalMaterialItem },
+    },
+  },
+  Rank: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'Combat',
+      'Trade',
+      'Explore',
+      'Soldier',
+      'Exobiologist',
+      'Empire',
+      'Federation',
+      'CQC',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Rank'] },
+      Combat: { type: 'number' },
+      Trade: { type: 'number' },
+      Explore: { type: 'number' },
+      Soldier: { type: 'number' },
+      Exobiologist: { type: 'number' },
+      Empire: { type: 'number' },
+      Federation: { type: 'number' },
+      CQC: { type: 'number' },
+    },
+  },
+  Progress: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'Combat',
+      'Trade',
+      'Explore',
+      'Soldier',
+      'Exobiologist',
+      'Empire',
+      'Federation',
+      'CQC',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Progress'] },
+      Combat: { type: 'number' },
+      Trade: { type: 'number' },
+      Explore: { type: 'number' },
+      Soldier: { type: 'number' },
+      Exobiologist: { type: 'number' },
+      Empire: { type: 'number' },
+      Federation: { type: 'number' },
+      CQC: { type: 'number' },
+    },
+  },
+  Reputation: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Empire', 'Federation', 'Alliance', 'Independent'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Reputation'] },
+      Empire: { type: 'number' },
+      Federation: { type: 'number' },
+      Alliance: { type: 'number' },
+      Independent: { type: 'number' },
+    },
+  },
+  Statistics: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'Bank_Account',
+      'Combat',
+      'Crime',
+      'Smuggling',
+      'Trading',
+      'Mining',
+      'Exploration',
+      'Passengers',
+      'Search_And_Rescue',
+      'Crafting',
+      'Crew',
+      'Multicrew',
+      'Material_Trader_Stats',
+      'CQC',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Statistics'] },
+      Bank_Account: { type: 'object', additionalProperties: { type: 'number' } },
+      Combat: { type: 'object', additionalProperties: { type: 'number' } },
+      Crime: { type: 'object', additionalProperties: { type: 'number' } },
+      Smuggling: { type: 'object', additionalProperties: { type: 'number' } },
+      Trading: { type: 'object', additionalProperties: { type: 'number' } },
+      Mining: { type: 'object', additionalProperties: { type: 'number' } },
+      Exploration: { type: 'object', additionalProperties: { type: 'number' } },
+      Passengers: { type: 'object', additionalProperties: { type: 'number' } },
+      Search_And_Rescue: { type: 'object', additionalProperties: { type: 'number' } },
+      Crafting: { type: 'object', additionalProperties: { type: 'number' } },
+      Crew: { type: 'object', additionalProperties: { type: 'number' } },
+      Multicrew: { type: 'object', additionalProperties: { type: 'number' } },
+      TG_ENCOUNTERS: { type: 'object', additionalProperties: { type: 'number' } },
+      Material_Trader_Stats: { type: 'object', additionalProperties: { type: 'number' } },
+      CQC: { type: 'object', additionalProperties: { type: 'number' } },
+      FLEETCARRIER: { type: 'object', additionalProperties: { type: 'number' } },
+      Exobiology: { type: 'object', additionalProperties: { type: 'number' } },
+    },
+  },
+  Loadout: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'Ship',
+      'ShipID',
+      'ShipName',
+      'ShipIdent',
+      'HullValue',
+      'ModulesValue',
+      'HullHealth',
+      'UnladenMass',
+      'CargoCapacity',
+      'MaxJumpRange',
+      'FuelCapacity',
+      'Rebuy',
+      'Modules',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Loadout'] },
+      Ship: { type: 'string' },
+      ShipID: { type: 'number' },
+      ShipName: { type: 'string' },
+      ShipIdent: { type: 'string' },
+      HullValue: { type: 'number' },
+      ModulesValue: { type: 'number' },
+      HullHealth: { type: 'number' },
+      UnladenMass: { type: 'number' },
+      CargoCapacity: { type: 'number' },
+      MaxJumpRange: { type: 'number' },
+      FuelCapacity: {
+        type: 'object',
+        required: ['Main', 'Reserve'],
+        properties: {
+          Main: { type: 'number' },
+          Reserve: { type: 'number' },
+        },
+      },
+      Rebuy: { type: 'number' },
+      Modules: { type: 'array', items: JournalShipModule },
+      Hot: { type: 'boolean' },
+    },
+  },
+  Cargo: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Vessel', 'Count', 'Inventory'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Cargo'] },
+      Vessel: { type: 'string' },
+      Count: { type: 'number' },
+      Inventory: { type: 'array', items: JournalCargoItem },
+    },
+  },
+  StoredModules: {
+    type: 'object',
+    required: ['timestamp', 'event', 'StationName', 'MarketID', 'Items'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['StoredModules'] },
+      StationName: { type: 'string' },
+      MarketID: { type: 'number' },
+      Items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: [
+            'Name',
+            'StorageSlot',
+            'StarSystem',
+            'MarketID',
+            'TransferCost',
+            'TransferTime',
+            'BuyPrice',
+            'Hot',
+          ],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            StorageSlot: { type: 'number' },
+            StarSystem: { type: 'string' },
+            MarketID: { type: 'number' },
+            TransferCost: { type: 'number' },
+            TransferTime: { type: 'number' },
+            BuyPrice: { type: 'number' },
+            Hot: { type: 'boolean' },
+            EngineerModifications: { type: 'string' },
+            Level: { type: 'number' },
+            Quality: { type: 'number' },
+          },
+        },
+      },
+    },
+  },
+  StoredShips: {
+    type: 'object',
+    required: ['timestamp', 'event', 'StationName', 'MarketID', 'ShipsHere', 'ShipsRemote'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['StoredShips'] },
+      StationName: { type: 'string' },
+      MarketID: { type: 'number' },
+      ShipsHere: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['ShipID', 'ShipType', 'Value', 'Hot'],
+          properties: {
+            ShipID: { type: 'number' },
+            ShipType: { type: 'string' },
+            ShipType_Localised: { type: 'string' },
+            Name: { type: 'string' },
+            Value: { type: 'number' },
+            Hot: { type: 'boolean' },
+          },
+        },
+      },
+      ShipsRemote: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: [
+            'ShipID',
+            'ShipType',
+            'Value',
+            'Hot',
+            'StarSystem',
+            'ShipMarketID',
+            'TransferPrice',
+            'TransferTime',
+          ],
+          properties: {
+            ShipID: { type: 'number' },
+            ShipType: { type: 'string' },
+            ShipType_Localised: { type: 'string' },
+            Name: { type: 'string' },
+            Value: { type: 'number' },
+            Hot: { type: 'boolean' },
+            StarSystem: { type: 'string' },
+            ShipMarketID: { type: 'number' },
+            TransferPrice: { type: 'number' },
+            TransferTime: { type: 'number' },
+          },
+        },
+      },
+    },
+  },
+  Missions: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Active', 'Failed', 'Complete'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Missions'] },
+      Active: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['MissionID', 'Name', 'PassengerMission', 'Expires'],
+          properties: {
+            MissionID: { type: 'number' },
+            Name: { type: 'string' },
+            PassengerMission: { type: 'boolean' },
+            Expires: { type: 'number' },
+          },
+        },
+      },
+      Failed: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['MissionID', 'Name', 'PassengerMission', 'Expires'],
+          properties: {
+            MissionID: { type: 'number' },
+            Name: { type: 'string' },
+            PassengerMission: { type: 'boolean' },
+            Expires: { type: 'number' },
+          },
+        },
+      },
+      Complete: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['MissionID', 'Name', 'PassengerMission', 'Expires'],
+          properties: {
+            MissionID: { type: 'number' },
+            Name: { type: 'string' },
+            PassengerMission: { type: 'boolean' },
+            Expires: { type: 'number' },
+          },
+        },
+      },
+    },
+  },
+  Location: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'Docked',
+      'StarSystem',
+      'SystemAddress',
+      'StarPos',
+      'SystemAllegiance',
+      'SystemEconomy',
+      'SystemSecondEconomy',
+      'SystemGovernment',
+      'SystemSecurity',
+      'Population',
+      'Body',
+      'BodyID',
+      'BodyType',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Location'] },
+      Docked: { type: 'boolean' },
+      Taxi: { type: 'boolean' },
+      Multicrew: { type: 'boolean' },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      StarPos: { type: 'array', minItems: 3, maxItems: 3, items: { type: 'number' } },
+      SystemAllegiance: { type: 'string' },
+      SystemEconomy: { type: 'string' },
+      SystemEconomy_Localised: { type: 'string' },
+      SystemSecondEconomy: { type: 'string' },
+      SystemSecondEconomy_Localised: { type: 'string' },
+      SystemGovernment: { type: 'string' },
+      SystemGovernment_Localised: { type: 'string' },
+      SystemSecurity: { type: 'string' },
+      SystemSecurity_Localised: { type: 'string' },
+      Population: { type: 'number' },
+      Body: { type: 'string' },
+      BodyID: { type: 'number' },
+      BodyType: { type: 'string' },
+      Factions: { type: 'array', items: JournalFaction },
+      SystemFaction: {
+        type: 'object',
+        required: ['Name'],
+        properties: {
+          Name: { type: 'string' },
+          FactionState: { type: 'string' },
+        },
+      },
+      Conflicts: { type: 'array', items: JournalConflict },
+      ThargoidWar: JournalThargoidWar,
+      Powers: { type: 'array', items: { type: 'string' } },
+      PowerplayState: { type: 'string' },
+      StationName: { type: 'string' },
+      StationType: { type: 'string' },
+      MarketID: { type: 'number' },
+      StationFaction: {
+        type: 'object',
+        required: ['Name'],
+        properties: {
+          Name: { type: 'string' },
+          FactionState: { type: 'string' },
+        },
+      },
+      StationGovernment: { type: 'string' },
+      StationGovernment_Localised: { type: 'string' },
+      StationAllegiance: { type: 'string' },
+      StationServices: { type: 'array', items: { type: 'string' } },
+      StationEconomies: { type: 'array', items: JournalStationEconomy },
+      DistFromStarLS: { type: 'number' },
+      Latitude: { type: 'number' },
+      Longitude: { type: 'number' },
+    },
+  },
+  FSDJump: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'StarSystem',
+      'SystemAddress',
+      'StarPos',
+      'SystemAllegiance',
+      'SystemEconomy',
+      'SystemSecondEconomy',
+      'SystemGovernment',
+      'SystemSecurity',
+      'Population',
+      'Body',
+      'BodyID',
+      'BodyType',
+      'JumpDist',
+      'FuelUsed',
+      'FuelLevel',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['FSDJump'] },
+      Taxi: { type: 'boolean' },
+      Multicrew: { type: 'boolean' },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      StarPos: { type: 'array', minItems: 3, maxItems: 3, items: { type: 'number' } },
+      SystemAllegiance: { type: 'string' },
+      SystemEconomy: { type: 'string' },
+      SystemEconomy_Localised: { type: 'string' },
+      SystemSecondEconomy: { type: 'string' },
+      SystemSecondEconomy_Localised: { type: 'string' },
+      SystemGovernment: { type: 'string' },
+      SystemGovernment_Localised: { type: 'string' },
+      SystemSecurity: { type: 'string' },
+      SystemSecurity_Localised: { type: 'string' },
+      Population: { type: 'number' },
+      Body: { type: 'string' },
+      BodyID: { type: 'number' },
+      BodyType: { type: 'string' },
+      JumpDist: { type: 'number' },
+      FuelUsed: { type: 'number' },
+      FuelLevel: { type: 'number' },
+      Factions: { type: 'array', items: JournalFaction },
+      SystemFaction: {
+        type: 'object',
+        required: ['Name'],
+        properties: {
+          Name: { type: 'string' },
+          FactionState: { type: 'string' },
+        },
+      },
+      Conflicts: { type: 'array', items: JournalConflict },
+      ThargoidWar: JournalThargoidWar,
+      Powers: { type: 'array', items: { type: 'string' } },
+      PowerplayState: { type: 'string' },
+      BoostUsed: { type: 'number' },
+    },
+  },
+  Docked: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'StationName',
+      'StationType',
+      'StarSystem',
+      'SystemAddress',
+      'MarketID',
+      'StationFaction',
+      'StationGovernment',
+      'StationServices',
+      'DistFromStarLS',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Docked'] },
+      StationName: { type: 'string' },
+      StationType: { type: 'string' },
+      Taxi: { type: 'boolean' },
+      Multicrew: { type: 'boolean' },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      MarketID: { type: 'number' },
+      StationFaction: {
+        type: 'object',
+        required: ['Name'],
+        properties: {
+          Name: { type: 'string' },
+          FactionState: { type: 'string' },
+        },
+      },
+      StationGovernment: { type: 'string' },
+      StationGovernment_Localised: { type: 'string' },
+      StationAllegiance: { type: 'string' },
+      StationServices: { type: 'array', items: { type: 'string' } },
+      StationEconomies: { type: 'array', items: JournalStationEconomy },
+      DistFromStarLS: { type: 'number' },
+      LandingPads: {
+        type: 'object',
+        required: ['Small', 'Medium', 'Large'],
+        properties: {
+          Small: { type: 'number' },
+          Medium: { type: 'number' },
+          Large: { type: 'number' },
+        },
+      },
+    },
+  },
+  Undocked: {
+    type: 'object',
+    required: ['timestamp', 'event', 'StationName', 'StationType', 'MarketID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Undocked'] },
+      StationName: { type: 'string' },
+      StationType: { type: 'string' },
+      MarketID: { type: 'number' },
+      Taxi: { type: 'boolean' },
+      Multicrew: { type: 'boolean' },
+    },
+  },
+  SupercruiseEntry: {
+    type: 'object',
+    required: ['timestamp', 'event', 'StarSystem', 'SystemAddress'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SupercruiseEntry'] },
+      Taxi: { type: 'boolean' },
+      Multicrew: { type: 'boolean' },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+    },
+  },
+  SupercruiseExit: {
+    type: 'object',
+    required: ['timestamp', 'event', 'StarSystem', 'SystemAddress', 'Body', 'BodyID', 'BodyType'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SupercruiseExit'] },
+      Taxi: { type: 'boolean' },
+      Multicrew: { type: 'boolean' },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      Body: { type: 'string' },
+      BodyID: { type: 'number' },
+      BodyType: { type: 'string' },
+    },
+  },
+  ApproachBody: {
+    type: 'object',
+    required: ['timestamp', 'event', 'StarSystem', 'SystemAddress', 'Body', 'BodyID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ApproachBody'] },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      Body: { type: 'string' },
+      BodyID: { type: 'number' },
+    },
+  },
+  LeaveBody: {
+    type: 'object',
+    required: ['timestamp', 'event', 'StarSystem', 'SystemAddress', 'Body', 'BodyID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['LeaveBody'] },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      Body: { type: 'string' },
+      BodyID: { type: 'number' },
+    },
+  },
+  ApproachSettlement: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'Name',
+      'SystemAddress',
+      'BodyID',
+      'BodyName',
+      'Latitude',
+      'Longitude',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ApproachSettlement'] },
+      Name: { type: 'string' },
+      Name_Localised: { type: 'string' },
+      MarketID: { type: 'number' },
+      SystemAddress: { type: 'number' },
+      BodyID: { type: 'number' },
+      BodyName: { type: 'string' },
+      Latitude: { type: 'number' },
+      Longitude: { type: 'number' },
+    },
+  },
+  DockingRequested: {
+    type: 'object',
+    required: ['timestamp', 'event', 'StationName', 'StationType', 'MarketID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['DockingRequested'] },
+      StationName: { type: 'string' },
+      StationType: { type: 'string' },
+      MarketID: { type: 'number' },
+      LandingPads: {
+        type: 'object',
+        required: ['Small', 'Medium', 'Large'],
+        properties: {
+          Small: { type: 'number' },
+          Medium: { type: 'number' },
+          Large: { type: 'number' },
+        },
+      },
+    },
+  },
+  DockingGranted: {
+    type: 'object',
+    required: ['timestamp', 'event', 'StationName', 'StationType', 'MarketID', 'LandingPad'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['DockingGranted'] },
+      StationName: { type: 'string' },
+      StationType: { type: 'string' },
+      MarketID: { type: 'number' },
+      LandingPad: { type: 'number' },
+    },
+  },
+  DockingDenied: {
+    type: 'object',
+    required: ['timestamp', 'event', 'StationName', 'StationType', 'MarketID', 'Reason'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['DockingDenied'] },
+      StationName: { type: 'string' },
+      StationType: { type: 'string' },
+      MarketID: { type: 'number' },
+      Reason: { type: 'string' },
+    },
+  },
+  DockingCancelled: {
+    type: 'object',
+    required: ['timestamp', 'event', 'StationName', 'StationType', 'MarketID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['DockingCancelled'] },
+      StationName: { type: 'string' },
+      StationType: { type: 'string' },
+      MarketID: { type: 'number' },
+    },
+  },
+  DockingTimeout: {
+    type: 'object',
+    required: ['timestamp', 'event', 'StationName', 'StationType', 'MarketID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['DockingTimeout'] },
+      StationName: { type: 'string' },
+      StationType: { type: 'string' },
+      MarketID: { type: 'number' },
+    },
+  },
+  FSDTarget: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name', 'SystemAddress', 'StarClass'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['FSDTarget'] },
+      Name: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      StarClass: { type: 'string' },
+      RemainingJumpsInRoute: { type: 'number' },
+    },
+  },
+  StartJump: {
+    type: 'object',
+    required: ['timestamp', 'event', 'JumpType'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['StartJump'] },
+      JumpType: { enum: ['Hyperspace', 'Supercruise'] },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      StarClass: { type: 'string' },
+    },
+  },
+  NavRoute: {
+    type: 'object',
+    required: ['timestamp', 'event'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['NavRoute'] },
+      Route: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['StarSystem', 'SystemAddress', 'StarPos', 'StarClass'],
+          properties: {
+            StarSystem: { type: 'string' },
+            SystemAddress: { type: 'number' },
+            StarPos: { type: 'array', minItems: 3, maxItems: 3, items: { type: 'number' } },
+            StarClass: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  NavRouteClear: {
+    type: 'object',
+    required: ['timestamp', 'event'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['NavRouteClear'] },
+    },
+  },
+  Bounty: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Rewards', 'Target', 'TotalReward', 'VictimFaction'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Bounty'] },
+      Rewards: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Faction', 'Reward'],
+          properties: {
+            Faction: { type: 'string' },
+            Reward: { type: 'number' },
+          },
+        },
+      },
+      Target: { type: 'string' },
+      Target_Localised: { type: 'string' },
+      TotalReward: { type: 'number' },
+      VictimFaction: { type: 'string' },
+      VictimFaction_Localised: { type: 'string' },
+      SharedWithOthers: { type: 'number' },
+    },
+  },
+  ShipTargeted: {
+    type: 'object',
+    required: ['timestamp', 'event', 'TargetLocked'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ShipTargeted'] },
+      TargetLocked: { type: 'boolean' },
+      Ship: { type: 'string' },
+      Ship_Localised: { type: 'string' },
+      ScanStage: { type: 'number' },
+      PilotName: { type: 'string' },
+      PilotName_Localised: { type: 'string' },
+      PilotRank: { type: 'string' },
+      ShieldHealth: { type: 'number' },
+      HullHealth: { type: 'number' },
+      Faction: { type: 'string' },
+      LegalStatus: { type: 'string' },
+      Bounty: { type: 'number' },
+      Subsystem: { type: 'string' },
+      Subsystem_Localised: { type: 'string' },
+      SubsystemHealth: { type: 'number' },
+      Power: { type: 'string' },
+      SquadronID: { type: 'number' },
+    },
+  },
+  Died: {
+    type: 'object',
+    required: ['timestamp', 'event'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Died'] },
+      KillerName: { type: 'string' },
+      KillerName_Localised: { type: 'string' },
+      KillerShip: { type: 'string' },
+      KillerRank: { type: 'string' },
+      Killers: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'Ship', 'Rank'],
+          properties: {
+            Name: { type: 'string' },
+            Ship: { type: 'string' },
+            Rank: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  PVPKill: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Victim', 'CombatRank'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['PVPKill'] },
+      Victim: { type: 'string' },
+      CombatRank: { type: 'number' },
+    },
+  },
+  FighterDestroyed: {
+    type: 'object',
+    required: ['timestamp', 'event'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['FighterDestroyed'] },
+      ID: { type: 'number' },
+    },
+  },
+  HullDamage: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Health', 'PlayerPilot'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['HullDamage'] },
+      Health: { type: 'number' },
+      PlayerPilot: { type: 'boolean' },
+      Fighter: { type: 'boolean' },
+    },
+  },
+  ShieldState: {
+    type: 'object',
+    required: ['timestamp', 'event', 'ShieldsUp'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ShieldState'] },
+      ShieldsUp: { type: 'boolean' },
+    },
+  },
+  UnderAttack: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Target'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['UnderAttack'] },
+      Target: { type: 'string' },
+    },
+  },
+  Interdicted: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Submitted', 'Interdictor', 'IsPlayer'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Interdicted'] },
+      Submitted: { type: 'boolean' },
+      Interdictor: { type: 'string' },
+      Interdictor_Localised: { type: 'string' },
+      IsPlayer: { type: 'boolean' },
+      CombatRank: { type: 'number' },
+      Faction: { type: 'string' },
+      Power: { type: 'string' },
+    },
+  },
+  Interdiction: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Success', 'Interdicted', 'IsPlayer'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Interdiction'] },
+      Success: { type: 'boolean' },
+      Interdicted: { type: 'string' },
+      Interdicted_Localised: { type: 'string' },
+      IsPlayer: { type: 'boolean' },
+      CombatRank: { type: 'number' },
+      Faction: { type: 'string' },
+      Power: { type: 'string' },
+    },
+  },
+  EscapeInterdiction: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Interdictor', 'IsPlayer'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['EscapeInterdiction'] },
+      Interdictor: { type: 'string' },
+      Interdictor_Localised: { type: 'string' },
+      IsPlayer: { type: 'boolean' },
+    },
+  },
+  CrewMemberJoins: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Crew'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CrewMemberJoins'] },
+      Crew: { type: 'string' },
+      Telepresence: { type: 'boolean' },
+    },
+  },
+  CrewMemberQuits: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Crew'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CrewMemberQuits'] },
+      Crew: { type: 'string' },
+      Telepresence: { type: 'boolean' },
+    },
+  },
+  CrewMemberRoleChange: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Crew', 'Role'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CrewMemberRoleChange'] },
+      Crew: { type: 'string' },
+      Role: { type: 'string' },
+      Telepresence: { type: 'boolean' },
+    },
+  },
+  Scan: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'ScanType',
+      'BodyName',
+      'BodyID',
+      'StarSystem',
+      'SystemAddress',
+      'DistanceFromArrivalLS',
+      'WasDiscovered',
+      'WasMapped',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Scan'] },
+      ScanType: { type: 'string' },
+      BodyName: { type: 'string' },
+      BodyID: { type: 'number' },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      DistanceFromArrivalLS: { type: 'number' },
+      StarType: { type: 'string' },
+      Subclass: { type: 'number' },
+      StellarMass: { type: 'number' },
+      Radius: { type: 'number' },
+      AbsoluteMagnitude: { type: 'number' },
+      Age_MY: { type: 'number' },
+      SurfaceTemperature: { type: 'number' },
+      Luminosity: { type: 'string' },
+      RotationPeriod: { type: 'number' },
+      AxialTilt: { type: 'number' },
+      Rings: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'RingClass', 'MassMT', 'InnerRad', 'OuterRad'],
+          properties: {
+            Name: { type: 'string' },
+            RingClass: { type: 'string' },
+            MassMT: { type: 'number' },
+            InnerRad: { type: 'number' },
+            OuterRad: { type: 'number' },
+          },
+        },
+      },
+      TidalLock: { type: 'boolean' },
+      TerraformState: { type: 'string' },
+      PlanetClass: { type: 'string' },
+      Atmosphere: { type: 'string' },
+      AtmosphereType: { type: 'string' },
+      AtmosphereComposition: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'Percent'],
+          properties: {
+            Name: { type: 'string' },
+            Percent: { type: 'number' },
+          },
+        },
+      },
+      Volcanism: { type: 'string' },
+      MassEM: { type: 'number' },
+      SurfaceGravity: { type: 'number' },
+      SurfacePressure: { type: 'number' },
+      Landable: { type: 'boolean' },
+      Materials: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'Percent'],
+          properties: {
+            Name: { type: 'string' },
+            Percent: { type: 'number' },
+          },
+        },
+      },
+      Composition: {
+        type: 'object',
+        required: ['Ice', 'Rock', 'Metal'],
+        properties: {
+          Ice: { type: 'number' },
+          Rock: { type: 'number' },
+          Metal: { type: 'number' },
+        },
+      },
+      SemiMajorAxis: { type: 'number' },
+      Eccentricity: { type: 'number' },
+      OrbitalInclination: { type: 'number' },
+      Periapsis: { type: 'number' },
+      OrbitalPeriod: { type: 'number' },
+      AscendingNode: { type: 'number' },
+      MeanAnomaly: { type: 'number' },
+      WasDiscovered: { type: 'boolean' },
+      WasMapped: { type: 'boolean' },
+      Parents: {
+        type: 'array',
+        items: { type: 'object', additionalProperties: { type: 'number' } },
+      },
+      ReserveLevel: { type: 'string' },
+    },
+  },
+  FSSDiscoveryScan: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'Progress',
+      'BodyCount',
+      'NonBodyCount',
+      'SystemName',
+      'SystemAddress',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['FSSDiscoveryScan'] },
+      Progress: { type: 'number' },
+      BodyCount: { type: 'number' },
+      NonBodyCount: { type: 'number' },
+      SystemName: { type: 'string' },
+      SystemAddress: { type: 'number' },
+    },
+  },
+  FSSAllBodiesFound: {
+    type: 'object',
+    required: ['timestamp', 'event', 'SystemName', 'SystemAddress', 'Count'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['FSSAllBodiesFound'] },
+      SystemName: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      Count: { type: 'number' },
+    },
+  },
+  FSSSignalDiscovered: {
+    type: 'object',
+    required: ['timestamp', 'event', 'SystemAddress', 'SignalName'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['FSSSignalDiscovered'] },
+      SystemAddress: { type: 'number' },
+      SignalName: { type: 'string' },
+      SignalName_Localised: { type: 'string' },
+      IsStation: { type: 'boolean' },
+      USSType: { type: 'string' },
+      USSType_Localised: { type: 'string' },
+      SpawningState: { type: 'string' },
+      SpawningState_Localised: { type: 'string' },
+      SpawningFaction: { type: 'string' },
+      SpawningFaction_Localised: { type: 'string' },
+      ThreatLevel: { type: 'number' },
+      TimeRemaining: { type: 'number' },
+    },
+  },
+  FSSBodySignals: {
+    type: 'object',
+    required: ['timestamp', 'event', 'BodyName', 'BodyID', 'SystemAddress', 'Signals'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['FSSBodySignals'] },
+      BodyName: { type: 'string' },
+      BodyID: { type: 'number' },
+      SystemAddress: { type: 'number' },
+      Signals: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Type', 'Count'],
+          properties: {
+            Type: { type: 'string' },
+            Type_Localised: { type: 'string' },
+            Count: { type: 'number' },
+          },
+        },
+      },
+    },
+  },
+  SAASignalsFound: {
+    type: 'object',
+    required: ['timestamp', 'event', 'BodyName', 'SystemAddress', 'BodyID', 'Signals'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SAASignalsFound'] },
+      BodyName: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      BodyID: { type: 'number' },
+      Signals: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Type', 'Count'],
+          properties: {
+            Type: { type: 'string' },
+            Type_Localised: { type: 'string' },
+            Count: { type: 'number' },
+          },
+        },
+      },
+      Genuses: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Genus'],
+          properties: {
+            Genus: { type: 'string' },
+            Genus_Localised: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  SAAScanComplete: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'BodyName',
+      'SystemAddress',
+      'BodyID',
+      'ProbesUsed',
+      'EfficiencyTarget',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SAAScanComplete'] },
+      BodyName: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      BodyID: { type: 'number' },
+      ProbesUsed: { type: 'number' },
+      EfficiencyTarget: { type: 'number' },
+    },
+  },
+  CodexEntry: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'EntryID',
+      'Name',
+      'SubCategory',
+      'Category',
+      'Region',
+      'System',
+      'SystemAddress',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CodexEntry'] },
+      EntryID: { type: 'number' },
+      Name: { type: 'string' },
+      Name_Localised: { type: 'string' },
+      SubCategory: { type: 'string' },
+      SubCategory_Localised: { type: 'string' },
+      Category: { type: 'string' },
+      Category_Localised: { type: 'string' },
+      Region: { type: 'string' },
+      Region_Localised: { type: 'string' },
+      System: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      IsNewEntry: { type: 'boolean' },
+      NewTraitsDiscovered: { type: 'boolean' },
+      Traits: { type: 'array', items: { type: 'string' } },
+      NearestDestination: { type: 'string' },
+      NearestDestination_Localised: { type: 'string' },
+      VoucherAmount: { type: 'number' },
+    },
+  },
+  MultiSellExplorationData: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Discovered', 'BaseValue', 'Bonus', 'TotalEarnings'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['MultiSellExplorationData'] },
+      Discovered: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['SystemName', 'NumBodies'],
+          properties: {
+            SystemName: { type: 'string' },
+            NumBodies: { type: 'number' },
+          },
+        },
+      },
+      BaseValue: { type: 'number' },
+      Bonus: { type: 'number' },
+      TotalEarnings: { type: 'number' },
+    },
+  },
+  SellExplorationData: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'Systems',
+      'Discovered',
+      'BaseValue',
+      'Bonus',
+      'TotalEarnings',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SellExplorationData'] },
+      Systems: { type: 'array', items: { type: 'string' } },
+      Discovered: { type: 'array', items: { type: 'string' } },
+      BaseValue: { type: 'number' },
+      Bonus: { type: 'number' },
+      TotalEarnings: { type: 'number' },
+    },
+  },
+  DiscoveryScan: {
+    type: 'object',
+    required: ['timestamp', 'event', 'SystemAddress', 'Bodies'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['DiscoveryScan'] },
+      SystemAddress: { type: 'number' },
+      Bodies: { type: 'number' },
+    },
+  },
+  MarketBuy: {
+    type: 'object',
+    required: ['timestamp', 'event', 'MarketID', 'Type', 'Count', 'BuyPrice', 'TotalCost'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['MarketBuy'] },
+      MarketID: { type: 'number' },
+      Type: { type: 'string' },
+      Type_Localised: { type: 'string' },
+      Count: { type: 'number' },
+      BuyPrice: { type: 'number' },
+      TotalCost: { type: 'number' },
+    },
+  },
+  MarketSell: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'MarketID',
+      'Type',
+      'Count',
+      'SellPrice',
+      'TotalSale',
+      'AvgPricePaid',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['MarketSell'] },
+      MarketID: { type: 'number' },
+      Type: { type: 'string' },
+      Type_Localised: { type: 'string' },
+      Count: { type: 'number' },
+      SellPrice: { type: 'number' },
+      TotalSale: { type: 'number' },
+      AvgPricePaid: { type: 'number' },
+      IllegalGoods: { type: 'boolean' },
+      StolenGoods: { type: 'boolean' },
+      BlackMarket: { type: 'boolean' },
+    },
+  },
+  BuyTradeData: {
+    type: 'object',
+    required: ['timestamp', 'event', 'System', 'Cost'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['BuyTradeData'] },
+      System: { type: 'string' },
+      Cost: { type: 'number' },
+    },
+  },
+  CollectCargo: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Type', 'Stolen'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CollectCargo'] },
+      Type: { type: 'string' },
+      Type_Localised: { type: 'string' },
+      Stolen: { type: 'boolean' },
+      MissionID: { type: 'number' },
+    },
+  },
+  EjectCargo: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Type', 'Count', 'Abandoned'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['EjectCargo'] },
+      Type: { type: 'string' },
+      Type_Localised: { type: 'string' },
+      Count: { type: 'number' },
+      Abandoned: { type: 'boolean' },
+      MissionID: { type: 'number' },
+      PowerplayOrigin: { type: 'string' },
+    },
+  },
+  Market: {
+    type: 'object',
+    required: ['timestamp', 'event', 'MarketID', 'StationName', 'StationType', 'StarSystem'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Market'] },
+      MarketID: { type: 'number' },
+      StationName: { type: 'string' },
+      StationType: { type: 'string' },
+      StarSystem: { type: 'string' },
+    },
+  },
+  MissionAccepted: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'Faction',
+      'Name',
+      'MissionID',
+      'Influence',
+      'Reputation',
+      'Reward',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['MissionAccepted'] },
+      Faction: { type: 'string' },
+      Name: { type: 'string' },
+      LocalisedName: { type: 'string' },
+      MissionID: { type: 'number' },
+      Commodity: { type: 'string' },
+      Commodity_Localised: { type: 'string' },
+      Count: { type: 'number' },
+      TargetFaction: { type: 'string' },
+      DestinationSystem: { type: 'string' },
+      DestinationStation: { type: 'string' },
+      DestinationSettlement: { type: 'string' },
+      Target: { type: 'string' },
+      Target_Localised: { type: 'string' },
+      TargetType: { type: 'string' },
+      TargetType_Localised: { type: 'string' },
+      KillCount: { type: 'number' },
+      Expiry: { type: 'string' },
+      Wing: { type: 'boolean' },
+      Influence: { type: 'string' },
+      Reputation: { type: 'string' },
+      Reward: { type: 'number' },
+      PassengerCount: { type: 'number' },
+      PassengerVIPs: { type: 'boolean' },
+      PassengerWanted: { type: 'boolean' },
+      PassengerType: { type: 'string' },
+    },
+  },
+  MissionCompleted: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Faction', 'Name', 'MissionID', 'Reward'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['MissionCompleted'] },
+      Faction: { type: 'string' },
+      Name: { type: 'string' },
+      LocalisedName: { type: 'string' },
+      MissionID: { type: 'number' },
+      Commodity: { type: 'string' },
+      Commodity_Localised: { type: 'string' },
+      Count: { type: 'number' },
+      TargetFaction: { type: 'string' },
+      DestinationSystem: { type: 'string' },
+      DestinationStation: { type: 'string' },
+      Target: { type: 'string' },
+      Target_Localised: { type: 'string' },
+      Reward: { type: 'number' },
+      FactionEffects: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Faction', 'Effects', 'Influence', 'ReputationTrend', 'Reputation'],
+          properties: {
+            Faction: { type: 'string' },
+            Effects: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['Effect', 'Trend'],
+                properties: {
+                  Effect: { type: 'string' },
+                  Effect_Localised: { type: 'string' },
+                  Trend: { type: 'string' },
+                },
+              },
+            },
+            Influence: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['SystemAddress', 'Trend', 'Influence'],
+                properties: {
+                  SystemAddress: { type: 'number' },
+                  Trend: { type: 'string' },
+                  Influence: { type: 'string' },
+                },
+              },
+            },
+            ReputationTrend: { type: 'string' },
+            Reputation: { type: 'string' },
+          },
+        },
+      },
+      MaterialsReward: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'Category', 'Count'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            Category: { type: 'string' },
+            Category_Localised: { type: 'string' },
+            Count: { type: 'number' },
+          },
+        },
+      },
+      CommodityReward: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'Count'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            Count: { type: 'number' },
+          },
+        },
+      },
+    },
+  },
+  MissionAbandoned: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name', 'MissionID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['MissionAbandoned'] },
+      Name: { type: 'string' },
+      LocalisedName: { type: 'string' },
+      MissionID: { type: 'number' },
+      Fine: { type: 'number' },
+    },
+  },
+  MissionFailed: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name', 'MissionID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['MissionFailed'] },
+      Name: { type: 'string' },
+      LocalisedName: { type: 'string' },
+      MissionID: { type: 'number' },
+      Fine: { type: 'number' },
+    },
+  },
+  MissionRedirected: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'MissionID',
+      'Name',
+      'NewDestinationStation',
+      'NewDestinationSystem',
+      'OldDestinationStation',
+      'OldDestinationSystem',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['MissionRedirected'] },
+      MissionID: { type: 'number' },
+      Name: { type: 'string' },
+      LocalisedName: { type: 'string' },
+      NewDestinationStation: { type: 'string' },
+      NewDestinationSystem: { type: 'string' },
+      OldDestinationStation: { type: 'string' },
+      OldDestinationSystem: { type: 'string' },
+    },
+  },
+  CommunityGoal: {
+    type: 'object',
+    required: ['timestamp', 'event', 'CurrentGoals'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CommunityGoal'] },
+      CurrentGoals: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: [
+            'CGID',
+            'Title',
+            'SystemName',
+            'MarketName',
+            'Expiry',
+            'IsComplete',
+            'CurrentTotal',
+            'PlayerContribution',
+            'NumContributors',
+            'TopTier',
+            'TierReached',
+            'PlayerPercentileBand',
+            'Bonus',
+          ],
+          properties: {
+            CGID: { type: 'number' },
+            Title: { type: 'string' },
+            SystemName: { type: 'string' },
+            MarketName: { type: 'string' },
+            Expiry: { type: 'string' },
+            IsComplete: { type: 'boolean' },
+            CurrentTotal: { type: 'number' },
+            PlayerContribution: { type: 'number' },
+            NumContributors: { type: 'number' },
+            TopTier: {
+              type: 'object',
+              required: ['Name', 'Bonus'],
+              properties: {
+                Name: { type: 'string' },
+                Bonus: { type: 'string' },
+              },
+            },
+            TopRankSize: { type: 'number' },
+            PlayerInTopRank: { type: 'boolean' },
+            TierReached: { type: 'string' },
+            PlayerPercentileBand: { type: 'number' },
+            Bonus: { type: 'number' },
+          },
+        },
+      },
+    },
+  },
+  EngineerCraft: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'Slot',
+      'Module',
+      'Ingredients',
+      'Engineer',
+      'EngineerID',
+      'BlueprintName',
+      'BlueprintID',
+      'Level',
+      'Quality',
+      'Modifiers',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['EngineerCraft'] },
+      Slot: { type: 'string' },
+      Module: { type: 'string' },
+      Ingredients: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'Count'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            Count: { type: 'number' },
+          },
+        },
+      },
+      Engineer: { type: 'string' },
+      EngineerID: { type: 'number' },
+      BlueprintName: { type: 'string' },
+      BlueprintID: { type: 'number' },
+      Level: { type: 'number' },
+      Quality: { type: 'number' },
+      Modifiers: { type: 'array', items: JournalEngineerModifier },
+      ExperimentalEffect: { type: 'string' },
+      ExperimentalEffect_Localised: { type: 'string' },
+    },
+  },
+  EngineerProgress: {
+    type: 'object',
+    required: ['timestamp', 'event'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['EngineerProgress'] },
+      Engineers: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Engineer', 'EngineerID', 'Progress'],
+          properties: {
+            Engineer: { type: 'string' },
+            EngineerID: { type: 'number' },
+            Progress: { type: 'string' },
+            RankProgress: { type: 'number' },
+            Rank: { type: 'number' },
+          },
+        },
+      },
+      Engineer: { type: 'string' },
+      EngineerID: { type: 'number' },
+      Progress: { type: 'string' },
+      Rank: { type: 'number' },
+    },
+  },
+  ShipyardBuy: {
+    type: 'object',
+    required: ['timestamp', 'event', 'ShipType', 'ShipPrice', 'MarketID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ShipyardBuy'] },
+      ShipType: { type: 'string' },
+      ShipType_Localised: { type: 'string' },
+      ShipPrice: { type: 'number' },
+      StoreOldShip: { type: 'string' },
+      StoreShipID: { type: 'number' },
+      SellOldShip: { type: 'string' },
+      SellShipID: { type: 'number' },
+      SellPrice: { type: 'number' },
+      MarketID: { type: 'number' },
+    },
+  },
+  ShipyardSell: {
+    type: 'object',
+    required: ['timestamp', 'event', 'ShipType', 'SellShipID', 'ShipPrice', 'MarketID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ShipyardSell'] },
+      ShipType: { type: 'string' },
+      ShipType_Localised: { type: 'string' },
+      SellShipID: { type: 'number' },
+      ShipPrice: { type: 'number' },
+      MarketID: { type: 'number' },
+      System: { type: 'string' },
+    },
+  },
+  ShipyardSwap: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'ShipType',
+      'ShipID',
+      'StoreOldShip',
+      'StoreShipID',
+      'MarketID',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ShipyardSwap'] },
+      ShipType: { type: 'string' },
+      ShipType_Localised: { type: 'string' },
+      ShipID: { type: 'number' },
+      StoreOldShip: { type: 'string' },
+      StoreShipID: { type: 'number' },
+      MarketID: { type: 'number' },
+    },
+  },
+  ShipyardTransfer: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'ShipType',
+      'ShipID',
+      'System',
+      'ShipMarketID',
+      'Distance',
+      'TransferPrice',
+      'TransferTime',
+      'MarketID',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ShipyardTransfer'] },
+      ShipType: { type: 'string' },
+      ShipType_Localised: { type: 'string' },
+      ShipID: { type: 'number' },
+      System: { type: 'string' },
+      ShipMarketID: { type: 'number' },
+      Distance: { type: 'number' },
+      TransferPrice: { type: 'number' },
+      TransferTime: { type: 'number' },
+      MarketID: { type: 'number' },
+    },
+  },
+  Outfitting: {
+    type: 'object',
+    required: ['timestamp', 'event', 'MarketID', 'StationName', 'StarSystem'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Outfitting'] },
+      MarketID: { type: 'number' },
+      StationName: { type: 'string' },
+      StarSystem: { type: 'string' },
+    },
+  },
+  ModuleBuy: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Slot', 'BuyItem', 'MarketID', 'BuyPrice', 'Ship', 'ShipID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ModuleBuy'] },
+      Slot: { type: 'string' },
+      BuyItem: { type: 'string' },
+      BuyItem_Localised: { type: 'string' },
+      MarketID: { type: 'number' },
+      BuyPrice: { type: 'number' },
+      Ship: { type: 'string' },
+      ShipID: { type: 'number' },
+      SellItem: { type: 'string' },
+      SellItem_Localised: { type: 'string' },
+      SellPrice: { type: 'number' },
+      StoredItem: { type: 'string' },
+      StoredItem_Localised: { type: 'string' },
+    },
+  },
+  ModuleSell: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Slot', 'SellItem', 'MarketID', 'SellPrice', 'Ship', 'ShipID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ModuleSell'] },
+      Slot: { type: 'string' },
+      SellItem: { type: 'string' },
+      SellItem_Localised: { type: 'string' },
+      MarketID: { type: 'number' },
+      SellPrice: { type: 'number' },
+      Ship: { type: 'string' },
+      ShipID: { type: 'number' },
+    },
+  },
+  ModuleStore: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Slot', 'StoredItem', 'MarketID', 'Ship', 'ShipID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ModuleStore'] },
+      Slot: { type: 'string' },
+      StoredItem: { type: 'string' },
+      StoredItem_Localised: { type: 'string' },
+      MarketID: { type: 'number' },
+      Ship: { type: 'string' },
+      ShipID: { type: 'number' },
+      Hot: { type: 'boolean' },
+      EngineerModifications: { type: 'string' },
+      Level: { type: 'number' },
+      Quality: { type: 'number' },
+      ReplacementItem: { type: 'string' },
+      ReplacementItem_Localised: { type: 'string' },
+    },
+  },
+  ModuleRetrieve: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Slot', 'RetrievedItem', 'MarketID', 'Ship', 'ShipID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ModuleRetrieve'] },
+      Slot: { type: 'string' },
+      RetrievedItem: { type: 'string' },
+      RetrievedItem_Localised: { type: 'string' },
+      MarketID: { type: 'number' },
+      Ship: { type: 'string' },
+      ShipID: { type: 'number' },
+      Hot: { type: 'boolean' },
+      EngineerModifications: { type: 'string' },
+      Level: { type: 'number' },
+      Quality: { type: 'number' },
+      SwapOutItem: { type: 'string' },
+      SwapOutItem_Localised: { type: 'string' },
+    },
+  },
+  ModuleSwap: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'MarketID',
+      'FromSlot',
+      'ToSlot',
+      'FromItem',
+      'Ship',
+      'ShipID',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ModuleSwap'] },
+      MarketID: { type: 'number' },
+      FromSlot: { type: 'string' },
+      ToSlot: { type: 'string' },
+      FromItem: { type: 'string' },
+      FromItem_Localised: { type: 'string' },
+      ToItem: { type: 'string' },
+      ToItem_Localised: { type: 'string' },
+      Ship: { type: 'string' },
+      ShipID: { type: 'number' },
+    },
+  },
+  SetUserShipName: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Ship', 'ShipID', 'UserShipName', 'UserShipId'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SetUserShipName'] },
+      Ship: { type: 'string' },
+      ShipID: { type: 'number' },
+      UserShipName: { type: 'string' },
+      UserShipId: { type: 'string' },
+    },
+  },
+  PayFines: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Amount', 'AllFines', 'ShipID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['PayFines'] },
+      Amount: { type: 'number' },
+      AllFines: { type: 'boolean' },
+      Faction: { type: 'string' },
+      ShipID: { type: 'number' },
+      BrokerPercentage: { type: 'number' },
+    },
+  },
+  RedeemVoucher: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Type', 'Amount'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['RedeemVoucher'] },
+      Type: { type: 'string' },
+      Amount: { type: 'number' },
+      Factions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Faction', 'Amount'],
+          properties: {
+            Faction: { type: 'string' },
+            Amount: { type: 'number' },
+          },
+        },
+      },
+      Faction: { type: 'string' },
+      BrokerPercentage: { type: 'number' },
+    },
+  },
+  RefuelAll: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Cost', 'Amount'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['RefuelAll'] },
+      Cost: { type: 'number' },
+      Amount: { type: 'number' },
+    },
+  },
+  Repair: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Item', 'Cost'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Repair'] },
+      Item: { type: 'string' },
+      Cost: { type: 'number' },
+    },
+  },
+  RepairAll: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Cost'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['RepairAll'] },
+      Cost: { type: 'number' },
+    },
+  },
+  RestockVehicle: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Type', 'Loadout', 'Cost', 'Count'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['RestockVehicle'] },
+      Type: { type: 'string' },
+      Loadout: { type: 'string' },
+      Cost: { type: 'number' },
+      Count: { type: 'number' },
+    },
+  },
+  BuyAmmo: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Cost'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['BuyAmmo'] },
+      Cost: { type: 'number' },
+    },
+  },
+  BuyDrones: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Type', 'Count', 'BuyPrice', 'TotalCost'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['BuyDrones'] },
+      Type: { type: 'string' },
+      Count: { type: 'number' },
+      BuyPrice: { type: 'number' },
+      TotalCost: { type: 'number' },
+    },
+  },
+  SellDrones: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Type', 'Count', 'SellPrice', 'TotalSale'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SellDrones'] },
+      Type: { type: 'string' },
+      Count: { type: 'number' },
+      SellPrice: { type: 'number' },
+      TotalSale: { type: 'number' },
+    },
+  },
+  ProspectedAsteroid: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Materials', 'Content', 'Remaining'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ProspectedAsteroid'] },
+      Materials: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'Proportion'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            Proportion: { type: 'number' },
+          },
+        },
+      },
+      Content: { type: 'string' },
+      Content_Localised: { type: 'string' },
+      Remaining: { type: 'number' },
+      MotherlodeMaterial: { type: 'string' },
+      MotherlodeMaterial_Localised: { type: 'string' },
+    },
+  },
+  AsteroidCracked: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Body'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['AsteroidCracked'] },
+      Body: { type: 'string' },
+    },
+  },
+  MiningRefined: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Type'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['MiningRefined'] },
+      Type: { type: 'string' },
+      Type_Localised: { type: 'string' },
+    },
+  },
+  LaunchDrone: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Type'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['LaunchDrone'] },
+      Type: { type: 'string' },
+    },
+  },
+  CarrierJumpRequest: {
+    type: 'object',
+    required: ['timestamp', 'event', 'CarrierID', 'SystemName', 'SystemAddress', 'Body', 'BodyID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierJumpRequest'] },
+      CarrierID: { type: 'number' },
+      SystemName: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      Body: { type: 'string' },
+      BodyID: { type: 'number' },
+      DepartureTime: { type: 'string' },
+    },
+  },
+  CarrierJumpCancelled: {
+    type: 'object',
+    required: ['timestamp', 'event', 'CarrierID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierJumpCancelled'] },
+      CarrierID: { type: 'number' },
+    },
+  },
+  CarrierJump: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'Docked',
+      'StationName',
+      'StationType',
+      'MarketID',
+      'StationFaction',
+      'StationGovernment',
+      'StationServices',
+      'StarSystem',
+      'SystemAddress',
+      'StarPos',
+      'SystemAllegiance',
+      'SystemEconomy',
+      'SystemSecondEconomy',
+      'SystemGovernment',
+      'SystemSecurity',
+      'Population',
+      'Body',
+      'BodyID',
+      'BodyType',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierJump'] },
+      Docked: { type: 'boolean' },
+      StationName: { type: 'string' },
+      StationType: { type: 'string' },
+      MarketID: { type: 'number' },
+      StationFaction: {
+        type: 'object',
+        required: ['Name'],
+        properties: {
+          Name: { type: 'string' },
+        },
+      },
+      StationGovernment: { type: 'string' },
+      StationGovernment_Localised: { type: 'string' },
+      StationServices: { type: 'array', items: { type: 'string' } },
+      StationEconomies: { type: 'array', items: JournalStationEconomy },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      StarPos: { type: 'array', minItems: 3, maxItems: 3, items: { type: 'number' } },
+      SystemAllegiance: { type: 'string' },
+      SystemEconomy: { type: 'string' },
+      SystemEconomy_Localised: { type: 'string' },
+      SystemSecondEconomy: { type: 'string' },
+      SystemSecondEconomy_Localised: { type: 'string' },
+      SystemGovernment: { type: 'string' },
+      SystemGovernment_Localised: { type: 'string' },
+      SystemSecurity: { type: 'string' },
+      SystemSecurity_Localised: { type: 'string' },
+      Population: { type: 'number' },
+      Body: { type: 'string' },
+      BodyID: { type: 'number' },
+      BodyType: { type: 'string' },
+      Factions: { type: 'array', items: JournalFaction },
+      SystemFaction: {
+        type: 'object',
+        required: ['Name'],
+        properties: {
+          Name: { type: 'string' },
+          FactionState: { type: 'string' },
+        },
+      },
+      Conflicts: { type: 'array', items: JournalConflict },
+      Powers: { type: 'array', items: { type: 'string' } },
+      PowerplayState: { type: 'string' },
+    },
+  },
+  CarrierStats: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'CarrierID',
+      'Callsign',
+      'Name',
+      'DockingAccess',
+      'AllowNotorious',
+      'FuelLevel',
+      'JumpRangeCurr',
+      'JumpRangeMax',
+      'PendingDecommission',
+      'SpaceUsage',
+      'Finance',
+      'Crew',
+      'ShipPacks',
+      'ModulePacks',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierStats'] },
+      CarrierID: { type: 'number' },
+      Callsign: { type: 'string' },
+      Name: { type: 'string' },
+      DockingAccess: { type: 'string' },
+      AllowNotorious: { type: 'boolean' },
+      FuelLevel: { type: 'number' },
+      JumpRangeCurr: { type: 'number' },
+      JumpRangeMax: { type: 'number' },
+      PendingDecommission: { type: 'boolean' },
+      SpaceUsage: {
+        type: 'object',
+        required: [
+          'TotalCapacity',
+          'Crew',
+          'Cargo',
+          'CargoSpaceReserved',
+          'ShipPacks',
+          'ModulePacks',
+          'FreeSpace',
+        ],
+        properties: {
+          TotalCapacity: { type: 'number' },
+          Crew: { type: 'number' },
+          Cargo: { type: 'number' },
+          CargoSpaceReserved: { type: 'number' },
+          ShipPacks: { type: 'number' },
+          ModulePacks: { type: 'number' },
+          FreeSpace: { type: 'number' },
+        },
+      },
+      Finance: {
+        type: 'object',
+        required: ['CarrierBalance', 'ReserveBalance', 'AvailableBalance', 'ReservePercent'],
+        properties: {
+          CarrierBalance: { type: 'number' },
+          ReserveBalance: { type: 'number' },
+          AvailableBalance: { type: 'number' },
+          ReservePercent: { type: 'number' },
+          TaxRate_rearm: { type: 'number' },
+          TaxRate_refuel: { type: 'number' },
+          TaxRate_repair: { type: 'number' },
+          TaxRate_pioneersupplies: { type: 'number' },
+          TaxRate_shipyard: { type: 'number' },
+          TaxRate_outfitting: { type: 'number' },
+        },
+      },
+      Crew: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['CrewRole', 'Activated', 'Enabled'],
+          properties: {
+            CrewRole: { type: 'string' },
+            Activated: { type: 'boolean' },
+            Enabled: { type: 'boolean' },
+            CrewName: { type: 'string' },
+          },
+        },
+      },
+      ShipPacks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['PackTheme', 'PackTier'],
+          properties: {
+            PackTheme: { type: 'string' },
+            PackTier: { type: 'number' },
+          },
+        },
+      },
+      ModulePacks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['PackTheme', 'PackTier'],
+          properties: {
+            PackTheme: { type: 'string' },
+            PackTier: { type: 'number' },
+          },
+        },
+      },
+    },
+  },
+  CarrierDecommission: {
+    type: 'object',
+    required: ['timestamp', 'event', 'CarrierID', 'ScrapRefund', 'ScrapTime'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierDecommission'] },
+      CarrierID: { type: 'number' },
+      ScrapRefund: { type: 'number' },
+      ScrapTime: { type: 'number' },
+    },
+  },
+  CarrierBuy: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'CarrierID',
+      'BoughtAtMarket',
+      'Location',
+      'SystemAddress',
+      'Price',
+      'Variant',
+      'Callsign',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierBuy'] },
+      CarrierID: { type: 'number' },
+      BoughtAtMarket: { type: 'number' },
+      Location: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      Price: { type: 'number' },
+      Variant: { type: 'string' },
+      Callsign: { type: 'string' },
+    },
+  },
+  CarrierDepositFuel: {
+    type: 'object',
+    required: ['timestamp', 'event', 'CarrierID', 'Amount', 'Total'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierDepositFuel'] },
+      CarrierID: { type: 'number' },
+      Amount: { type: 'number' },
+      Total: { type: 'number' },
+    },
+  },
+  CarrierDockingPermission: {
+    type: 'object',
+    required: ['timestamp', 'event', 'CarrierID', 'DockingAccess', 'AllowNotorious'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierDockingPermission'] },
+      CarrierID: { type: 'number' },
+      DockingAccess: { type: 'string' },
+      AllowNotorious: { type: 'boolean' },
+    },
+  },
+  CarrierCrewServices: {
+    type: 'object',
+    required: ['timestamp', 'event', 'CarrierID', 'CrewRole', 'Operation'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierCrewServices'] },
+      CarrierID: { type: 'number' },
+      CrewRole: { type: 'string' },
+      Operation: { type: 'string' },
+      CrewName: { type: 'string' },
+    },
+  },
+  CarrierFinance: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'CarrierID',
+      'TaxRate',
+      'CarrierBalance',
+      'ReserveBalance',
+      'AvailableBalance',
+      'ReservePercent',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierFinance'] },
+      CarrierID: { type: 'number' },
+      TaxRate: { type: 'number' },
+      CarrierBalance: { type: 'number' },
+      ReserveBalance: { type: 'number' },
+      AvailableBalance: { type: 'number' },
+      ReservePercent: { type: 'number' },
+    },
+  },
+  CarrierTradeOrder: {
+    type: 'object',
+    required: ['timestamp', 'event', 'CarrierID', 'BlackMarket', 'Commodity', 'Price'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierTradeOrder'] },
+      CarrierID: { type: 'number' },
+      BlackMarket: { type: 'boolean' },
+      Commodity: { type: 'string' },
+      Commodity_Localised: { type: 'string' },
+      PurchaseOrder: { type: 'number' },
+      SaleOrder: { type: 'number' },
+      CancelTrade: { type: 'boolean' },
+      Price: { type: 'number' },
+    },
+  },
+  CarrierModulePack: {
+    type: 'object',
+    required: ['timestamp', 'event', 'CarrierID', 'Operation', 'PackTheme', 'PackTier'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierModulePack'] },
+      CarrierID: { type: 'number' },
+      Operation: { type: 'string' },
+      PackTheme: { type: 'string' },
+      PackTier: { type: 'number' },
+      Cost: { type: 'number' },
+      Refund: { type: 'number' },
+    },
+  },
+  CarrierBankTransfer: {
+    type: 'object',
+    required: ['timestamp', 'event', 'CarrierID', 'PlayerBalance', 'CarrierBalance'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierBankTransfer'] },
+      CarrierID: { type: 'number' },
+      Deposit: { type: 'number' },
+      Withdraw: { type: 'number' },
+      PlayerBalance: { type: 'number' },
+      CarrierBalance: { type: 'number' },
+    },
+  },
+  CarrierNameChanged: {
+    type: 'object',
+    required: ['timestamp', 'event', 'CarrierID', 'Callsign', 'Name'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CarrierNameChanged'] },
+      CarrierID: { type: 'number' },
+      Callsign: { type: 'string' },
+      Name: { type: 'string' },
+    },
+  },
+  Backpack: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Items', 'Components', 'Consumables', 'Data'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Backpack'] },
+      Items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'OwnerID', 'Count'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            OwnerID: { type: 'number' },
+            MissionID: { type: 'number' },
+            Count: { type: 'number' },
+          },
+        },
+      },
+      Components: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'OwnerID', 'Count'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            OwnerID: { type: 'number' },
+            Count: { type: 'number' },
+          },
+        },
+      },
+      Consumables: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'OwnerID', 'Count'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            OwnerID: { type: 'number' },
+            Count: { type: 'number' },
+          },
+        },
+      },
+      Data: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'OwnerID', 'Count'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            OwnerID: { type: 'number' },
+            Count: { type: 'number' },
+          },
+        },
+      },
+    },
+  },
+  BackpackChange: {
+    type: 'object',
+    required: ['timestamp', 'event'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['BackpackChange'] },
+      Added: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'OwnerID', 'Count', 'Type'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            OwnerID: { type: 'number' },
+            MissionID: { type: 'number' },
+            Count: { type: 'number' },
+            Type: { type: 'string' },
+          },
+        },
+      },
+      Removed: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'OwnerID', 'Count', 'Type'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            OwnerID: { type: 'number' },
+            MissionID: { type: 'number' },
+            Count: { type: 'number' },
+            Type: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  SuitLoadout: {
+    type: 'object',
+    required: ['timestamp', 'event', 'SuitID', 'SuitName', 'LoadoutID', 'LoadoutName', 'Modules'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SuitLoadout'] },
+      SuitID: { type: 'number' },
+      SuitName: { type: 'string' },
+      SuitName_Localised: { type: 'string' },
+      SuitMods: { type: 'array', items: { type: 'string' } },
+      LoadoutID: { type: 'number' },
+      LoadoutName: { type: 'string' },
+      Modules: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['SlotName', 'SuitModuleID', 'ModuleName'],
+          properties: {
+            SlotName: { type: 'string' },
+            SuitModuleID: { type: 'number' },
+            ModuleName: { type: 'string' },
+            ModuleName_Localised: { type: 'string' },
+            Class: { type: 'number' },
+            WeaponMods: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+    },
+  },
+  SwitchSuitLoadout: {
+    type: 'object',
+    required: ['timestamp', 'event', 'SuitID', 'SuitName', 'LoadoutID', 'LoadoutName', 'Modules'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SwitchSuitLoadout'] },
+      SuitID: { type: 'number' },
+      SuitName: { type: 'string' },
+      SuitName_Localised: { type: 'string' },
+      SuitMods: { type: 'array', items: { type: 'string' } },
+      LoadoutID: { type: 'number' },
+      LoadoutName: { type: 'string' },
+      Modules: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['SlotName', 'SuitModuleID', 'ModuleName'],
+          properties: {
+            SlotName: { type: 'string' },
+            SuitModuleID: { type: 'number' },
+            ModuleName: { type: 'string' },
+            ModuleName_Localised: { type: 'string' },
+            Class: { type: 'number' },
+            WeaponMods: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+    },
+  },
+  BookDropship: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Cost', 'DestinationSystem', 'DestinationLocation'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['BookDropship'] },
+      Cost: { type: 'number' },
+      DestinationSystem: { type: 'string' },
+      DestinationLocation: { type: 'string' },
+    },
+  },
+  Disembark: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'SRV',
+      'Taxi',
+      'Multicrew',
+      'StarSystem',
+      'SystemAddress',
+      'Body',
+      'BodyID',
+      'OnStation',
+      'OnPlanet',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Disembark'] },
+      SRV: { type: 'boolean' },
+      Taxi: { type: 'boolean' },
+      Multicrew: { type: 'boolean' },
+      ID: { type: 'number' },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      Body: { type: 'string' },
+      BodyID: { type: 'number' },
+      OnStation: { type: 'boolean' },
+      OnPlanet: { type: 'boolean' },
+      StationName: { type: 'string' },
+      StationType: { type: 'string' },
+      MarketID: { type: 'number' },
+    },
+  },
+  Embark: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'SRV',
+      'Taxi',
+      'Multicrew',
+      'StarSystem',
+      'SystemAddress',
+      'Body',
+      'BodyID',
+      'OnStation',
+      'OnPlanet',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Embark'] },
+      SRV: { type: 'boolean' },
+      Taxi: { type: 'boolean' },
+      Multicrew: { type: 'boolean' },
+      ID: { type: 'number' },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      Body: { type: 'string' },
+      BodyID: { type: 'number' },
+      OnStation: { type: 'boolean' },
+      OnPlanet: { type: 'boolean' },
+      StationName: { type: 'string' },
+      StationType: { type: 'string' },
+      MarketID: { type: 'number' },
+    },
+  },
+  CollectItems: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name', 'Type', 'OwnerID', 'Count', 'Stolen'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CollectItems'] },
+      Name: { type: 'string' },
+      Name_Localised: { type: 'string' },
+      Type: { type: 'string' },
+      OwnerID: { type: 'number' },
+      Count: { type: 'number' },
+      Stolen: { type: 'boolean' },
+    },
+  },
+  DropItems: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name', 'Type', 'OwnerID', 'Count'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['DropItems'] },
+      Name: { type: 'string' },
+      Name_Localised: { type: 'string' },
+      Type: { type: 'string' },
+      OwnerID: { type: 'number' },
+      Count: { type: 'number' },
+    },
+  },
+  UseConsumable: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name', 'Type'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['UseConsumable'] },
+      Name: { type: 'string' },
+      Name_Localised: { type: 'string' },
+      Type: { type: 'string' },
+    },
+  },
+  ScanOrganic: {
+    type: 'object',
+    required: ['timestamp', 'event', 'ScanType', 'Genus', 'Species', 'SystemAddress', 'Body'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ScanOrganic'] },
+      ScanType: { enum: ['Log', 'Sample', 'Analyse'] },
+      Genus: { type: 'string' },
+      Genus_Localised: { type: 'string' },
+      Species: { type: 'string' },
+      Species_Localised: { type: 'string' },
+      Variant: { type: 'string' },
+      Variant_Localised: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      Body: { type: 'number' },
+    },
+  },
+  BuyMicroResources: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name', 'Category', 'Count', 'Price', 'MarketID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['BuyMicroResources'] },
+      Name: { type: 'string' },
+      Name_Localised: { type: 'string' },
+      Category: { type: 'string' },
+      Count: { type: 'number' },
+      Price: { type: 'number' },
+      MarketID: { type: 'number' },
+    },
+  },
+  SellMicroResources: {
+    type: 'object',
+    required: ['timestamp', 'event', 'MicroResources', 'Price', 'MarketID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SellMicroResources'] },
+      MicroResources: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'Category', 'Count'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            Category: { type: 'string' },
+            Count: { type: 'number' },
+          },
+        },
+      },
+      Price: { type: 'number' },
+      MarketID: { type: 'number' },
+    },
+  },
+  TradeMicroResources: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Offered', 'Received', 'Category', 'Count', 'MarketID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['TradeMicroResources'] },
+      Offered: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'Category', 'Count'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            Category: { type: 'string' },
+            Count: { type: 'number' },
+          },
+        },
+      },
+      Received: { type: 'string' },
+      Received_Localised: { type: 'string' },
+      Category: { type: 'string' },
+      Count: { type: 'number' },
+      MarketID: { type: 'number' },
+    },
+  },
+  PowerplayJoin: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Power'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['PowerplayJoin'] },
+      Power: { type: 'string' },
+    },
+  },
+  PowerplayLeave: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Power'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['PowerplayLeave'] },
+      Power: { type: 'string' },
+    },
+  },
+  PowerplayVote: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Power', 'Votes', 'System'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['PowerplayVote'] },
+      Power: { type: 'string' },
+      Votes: { type: 'number' },
+      System: { type: 'string' },
+    },
+  },
+  PowerplaySalary: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Power', 'Amount'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['PowerplaySalary'] },
+      Power: { type: 'string' },
+      Amount: { type: 'number' },
+    },
+  },
+  PowerplayCollect: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Power', 'Type', 'Count'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['PowerplayCollect'] },
+      Power: { type: 'string' },
+      Type: { type: 'string' },
+      Type_Localised: { type: 'string' },
+      Count: { type: 'number' },
+    },
+  },
+  PowerplayDefect: {
+    type: 'object',
+    required: ['timestamp', 'event', 'FromPower', 'ToPower'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['PowerplayDefect'] },
+      FromPower: { type: 'string' },
+      ToPower: { type: 'string' },
+    },
+  },
+  PowerplayDeliver: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Power', 'Type', 'Count'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['PowerplayDeliver'] },
+      Power: { type: 'string' },
+      Type: { type: 'string' },
+      Type_Localised: { type: 'string' },
+      Count: { type: 'number' },
+    },
+  },
+  PowerplayFastTrack: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Power', 'Cost'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['PowerplayFastTrack'] },
+      Power: { type: 'string' },
+      Cost: { type: 'number' },
+    },
+  },
+  Powerplay: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Power', 'Rank', 'Merits', 'Votes', 'TimePledged'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Powerplay'] },
+      Power: { type: 'string' },
+      Rank: { type: 'number' },
+      Merits: { type: 'number' },
+      Votes: { type: 'number' },
+      TimePledged: { type: 'number' },
+    },
+  },
+  ReceiveText: {
+    type: 'object',
+    required: ['timestamp', 'event', 'From', 'Message', 'Channel'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ReceiveText'] },
+      From: { type: 'string' },
+      From_Localised: { type: 'string' },
+      Message: { type: 'string' },
+      Message_Localised: { type: 'string' },
+      Channel: { type: 'string' },
+    },
+  },
+  SendText: {
+    type: 'object',
+    required: ['timestamp', 'event', 'To', 'Message'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SendText'] },
+      To: { type: 'string' },
+      To_Localised: { type: 'string' },
+      Message: { type: 'string' },
+    },
+  },
+  Music: {
+    type: 'object',
+    required: ['timestamp', 'event', 'MusicTrack'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Music'] },
+      MusicTrack: { type: 'string' },
+    },
+  },
+  FuelScoop: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Scooped', 'Total'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['FuelScoop'] },
+      Scooped: { type: 'number' },
+      Total: { type: 'number' },
+    },
+  },
+  JetConeBoost: {
+    type: 'object',
+    required: ['timestamp', 'event', 'BoostValue'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['JetConeBoost'] },
+      BoostValue: { type: 'number' },
+    },
+  },
+  Shutdown: {
+    type: 'object',
+    required: ['timestamp', 'event'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Shutdown'] },
+    },
+  },
+  Friends: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Status', 'Name'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Friends'] },
+      Status: { enum: ['Requested', 'Declined', 'Added', 'Lost', 'Online', 'Offline'] },
+      Name: { type: 'string' },
+    },
+  },
+  Synthesis: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name', 'Materials'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Synthesis'] },
+      Name: { type: 'string' },
+      Materials: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'Count'],
+          properties: {
+            Name: { type: 'string' },
+            Count: { type: 'number' },
+          },
+        },
+      },
+    },
+  },
+  MaterialCollected: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Category', 'Name', 'Count'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['MaterialCollected'] },
+      Category: { type: 'string' },
+      Name: { type: 'string' },
+      Name_Localised: { type: 'string' },
+      Count: { type: 'number' },
+    },
+  },
+  MaterialDiscarded: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Category', 'Name', 'Count'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['MaterialDiscarded'] },
+      Category: { type: 'string' },
+      Name: { type: 'string' },
+      Name_Localised: { type: 'string' },
+      Count: { type: 'number' },
+    },
+  },
+  MaterialTrade: {
+    type: 'object',
+    required: ['timestamp', 'event', 'MarketID', 'TraderType', 'Paid', 'Received'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['MaterialTrade'] },
+      MarketID: { type: 'number' },
+      TraderType: { type: 'string' },
+      Paid: {
+        type: 'object',
+        required: ['Material', 'Category', 'Quantity'],
+        properties: {
+          Material: { type: 'string' },
+          Material_Localised: { type: 'string' },
+          Category: { type: 'string' },
+          Quantity: { type: 'number' },
+        },
+      },
+      Received: {
+        type: 'object',
+        required: ['Material', 'Category', 'Quantity'],
+        properties: {
+          Material: { type: 'string' },
+          Material_Localised: { type: 'string' },
+          Category: { type: 'string' },
+          Quantity: { type: 'number' },
+        },
+      },
+    },
+  },
+  TechnologyBroker: {
+    type: 'object',
+    required: ['timestamp', 'event', 'BrokerType', 'MarketID', 'ItemsUnlocked'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['TechnologyBroker'] },
+      BrokerType: { type: 'string' },
+      MarketID: { type: 'number' },
+      ItemsUnlocked: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+          },
+        },
+      },
+      Commodities: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'Count'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            Count: { type: 'number' },
+          },
+        },
+      },
+      Materials: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['Name', 'Count', 'Category'],
+          properties: {
+            Name: { type: 'string' },
+            Name_Localised: { type: 'string' },
+            Count: { type: 'number' },
+            Category: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  Screenshot: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Filename', 'Width', 'Height', 'System', 'Body'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Screenshot'] },
+      Filename: { type: 'string' },
+      Width: { type: 'number' },
+      Height: { type: 'number' },
+      System: { type: 'string' },
+      Body: { type: 'string' },
+      Latitude: { type: 'number' },
+      Longitude: { type: 'number' },
+      Heading: { type: 'number' },
+      Altitude: { type: 'number' },
+    },
+  },
+  AfmuRepairs: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Module', 'FullyRepaired', 'Health'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['AfmuRepairs'] },
+      Module: { type: 'string' },
+      Module_Localised: { type: 'string' },
+      FullyRepaired: { type: 'boolean' },
+      Health: { type: 'number' },
+    },
+  },
+  RebootRepair: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Modules'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['RebootRepair'] },
+      Modules: { type: 'array', items: { type: 'string' } },
+    },
+  },
+  RepairDrone: {
+    type: 'object',
+    required: ['timestamp', 'event', 'HullRepaired'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['RepairDrone'] },
+      HullRepaired: { type: 'number' },
+      CockpitRepaired: { type: 'number' },
+      CorrosionRepaired: { type: 'number' },
+    },
+  },
+  CockpitBreached: {
+    type: 'object',
+    required: ['timestamp', 'event'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CockpitBreached'] },
+    },
+  },
+  SelfDestruct: {
+    type: 'object',
+    required: ['timestamp', 'event'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SelfDestruct'] },
+    },
+  },
+  HeatWarning: {
+    type: 'object',
+    required: ['timestamp', 'event'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['HeatWarning'] },
+    },
+  },
+  HeatDamage: {
+    type: 'object',
+    required: ['timestamp', 'event'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['HeatDamage'] },
+    },
+  },
+  LaunchSRV: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Loadout', 'ID', 'PlayerControlled', 'SRVType'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['LaunchSRV'] },
+      Loadout: { type: 'string' },
+      ID: { type: 'number' },
+      PlayerControlled: { type: 'boolean' },
+      SRVType: { type: 'string' },
+      SRVType_Localised: { type: 'string' },
+    },
+  },
+  DockSRV: {
+    type: 'object',
+    required: ['timestamp', 'event', 'ID', 'SRVType'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['DockSRV'] },
+      ID: { type: 'number' },
+      SRVType: { type: 'string' },
+      SRVType_Localised: { type: 'string' },
+    },
+  },
+  SRVDestroyed: {
+    type: 'object',
+    required: ['timestamp', 'event', 'ID', 'SRVType'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SRVDestroyed'] },
+      ID: { type: 'number' },
+      SRVType: { type: 'string' },
+      SRVType_Localised: { type: 'string' },
+    },
+  },
+  LaunchFighter: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Loadout', 'ID', 'PlayerControlled'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['LaunchFighter'] },
+      Loadout: { type: 'string' },
+      ID: { type: 'number' },
+      PlayerControlled: { type: 'boolean' },
+    },
+  },
+  DockFighter: {
+    type: 'object',
+    required: ['timestamp', 'event', 'ID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['DockFighter'] },
+      ID: { type: 'number' },
+    },
+  },
+  Touchdown: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'PlayerControlled',
+      'Latitude',
+      'Longitude',
+      'StarSystem',
+      'SystemAddress',
+      'Body',
+      'BodyID',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Touchdown'] },
+      PlayerControlled: { type: 'boolean' },
+      Latitude: { type: 'number' },
+      Longitude: { type: 'number' },
+      NearestDestination: { type: 'string' },
+      NearestDestination_Localised: { type: 'string' },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      Body: { type: 'string' },
+      BodyID: { type: 'number' },
+      OnStation: { type: 'boolean' },
+      OnPlanet: { type: 'boolean' },
+    },
+  },
+  Liftoff: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'PlayerControlled',
+      'Latitude',
+      'Longitude',
+      'StarSystem',
+      'SystemAddress',
+      'Body',
+      'BodyID',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Liftoff'] },
+      PlayerControlled: { type: 'boolean' },
+      Latitude: { type: 'number' },
+      Longitude: { type: 'number' },
+      NearestDestination: { type: 'string' },
+      NearestDestination_Localised: { type: 'string' },
+      StarSystem: { type: 'string' },
+      SystemAddress: { type: 'number' },
+      Body: { type: 'string' },
+      BodyID: { type: 'number' },
+      OnStation: { type: 'boolean' },
+      OnPlanet: { type: 'boolean' },
+    },
+  },
+  CommitCrime: {
+    type: 'object',
+    required: ['timestamp', 'event', 'CrimeType', 'Faction'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CommitCrime'] },
+      CrimeType: { type: 'string' },
+      Faction: { type: 'string' },
+      Victim: { type: 'string' },
+      Victim_Localised: { type: 'string' },
+      Fine: { type: 'number' },
+      Bounty: { type: 'number' },
+    },
+  },
+  Promotion: {
+    type: 'object',
+    required: ['timestamp', 'event'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Promotion'] },
+      Combat: { type: 'number' },
+      Trade: { type: 'number' },
+      Explore: { type: 'number' },
+      CQC: { type: 'number' },
+      Federation: { type: 'number' },
+      Empire: { type: 'number' },
+      Soldier: { type: 'number' },
+      Exobiologist: { type: 'number' },
+    },
+  },
+  ClearSavedGame: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name', 'FID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ClearSavedGame'] },
+      Name: { type: 'string' },
+      FID: { type: 'string' },
+    },
+  },
+  NewCommander: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name', 'FID', 'Package'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['NewCommander'] },
+      Name: { type: 'string' },
+      FID: { type: 'string' },
+      Package: { type: 'string' },
+    },
+  },
+  SupercruiseDestinationDrop: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Type', 'Threat'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SupercruiseDestinationDrop'] },
+      Type: { type: 'string' },
+      Threat: { type: 'number' },
+      MarketID: { type: 'number' },
+    },
+  },
+  Resurrect: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Option', 'Cost', 'Bankrupt'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['Resurrect'] },
+      Option: { type: 'string' },
+      Cost: { type: 'number' },
+      Bankrupt: { type: 'boolean' },
+    },
+  },
+  WingJoin: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Others'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['WingJoin'] },
+      Others: { type: 'array', items: { type: 'string' } },
+    },
+  },
+  WingAdd: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['WingAdd'] },
+      Name: { type: 'string' },
+    },
+  },
+  WingLeave: {
+    type: 'object',
+    required: ['timestamp', 'event'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['WingLeave'] },
+    },
+  },
+  WingInvite: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['WingInvite'] },
+      Name: { type: 'string' },
+    },
+  },
+  RefuelPartial: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Cost', 'Amount'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['RefuelPartial'] },
+      Cost: { type: 'number' },
+      Amount: { type: 'number' },
+    },
+  },
+  NpcCrewPaidWage: {
+    type: 'object',
+    required: ['timestamp', 'event', 'NpcCrewId', 'NpcCrewName', 'Amount'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['NpcCrewPaidWage'] },
+      NpcCrewId: { type: 'number' },
+      NpcCrewName: { type: 'string' },
+      Amount: { type: 'number' },
+    },
+  },
+  AppliedToSquadron: {
+    type: 'object',
+    required: ['timestamp', 'event', 'SquadronName'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['AppliedToSquadron'] },
+      SquadronName: { type: 'string' },
+    },
+  },
+  JoinedSquadron: {
+    type: 'object',
+    required: ['timestamp', 'event', 'SquadronName'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['JoinedSquadron'] },
+      SquadronName: { type: 'string' },
+    },
+  },
+  LeftSquadron: {
+    type: 'object',
+    required: ['timestamp', 'event', 'SquadronName'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['LeftSquadron'] },
+      SquadronName: { type: 'string' },
+    },
+  },
+  DatalinkScan: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Message'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['DatalinkScan'] },
+      Message: { type: 'string' },
+      Message_Localised: { type: 'string' },
+    },
+  },
+  DataScanned: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Type'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['DataScanned'] },
+      Type: { type: 'string' },
+      Type_Localised: { type: 'string' },
+    },
+  },
+  CargoDepot: {
+    type: 'object',
+    required: [
+      'timestamp',
+      'event',
+      'MissionID',
+      'UpdateType',
+      'StartMarketID',
+      'EndMarketID',
+      'ItemsCollected',
+      'ItemsDelivered',
+      'TotalItemsToDeliver',
+      'Progress',
+    ],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CargoDepot'] },
+      MissionID: { type: 'number' },
+      UpdateType: { type: 'string' },
+      CargoType: { type: 'string' },
+      CargoType_Localised: { type: 'string' },
+      Count: { type: 'number' },
+      StartMarketID: { type: 'number' },
+      EndMarketID: { type: 'number' },
+      ItemsCollected: { type: 'number' },
+      ItemsDelivered: { type: 'number' },
+      TotalItemsToDeliver: { type: 'number' },
+      Progress: { type: 'number' },
+    },
+  },
+  SearchAndRescue: {
+    type: 'object',
+    required: ['timestamp', 'event', 'MarketID', 'Name', 'Count', 'Reward'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['SearchAndRescue'] },
+      MarketID: { type: 'number' },
+      Name: { type: 'string' },
+      Name_Localised: { type: 'string' },
+      Count: { type: 'number' },
+      Reward: { type: 'number' },
+    },
+  },
+  ScientificResearch: {
+    type: 'object',
+    required: ['timestamp', 'event', 'MarketID', 'Name', 'Category', 'Count'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['ScientificResearch'] },
+      MarketID: { type: 'number' },
+      Name: { type: 'string' },
+      Category: { type: 'string' },
+      Count: { type: 'number' },
+    },
+  },
+  CrewAssign: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name', 'CrewID', 'Role'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CrewAssign'] },
+      Name: { type: 'string' },
+      CrewID: { type: 'number' },
+      Role: { type: 'string' },
+    },
+  },
+  CrewFire: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name', 'CrewID'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CrewFire'] },
+      Name: { type: 'string' },
+      CrewID: { type: 'number' },
+    },
+  },
+  CrewHire: {
+    type: 'object',
+    required: ['timestamp', 'event', 'Name', 'CrewID', 'Faction', 'Cost', 'CombatRank'],
+    properties: {
+      timestamp: { type: 'string' },
+      event: { enum: ['CrewHire'] },
+      Name: { type: 'string' },
+      CrewID: { type: 'number' },
+      Faction: { type: 'string' },
+      Cost: { type: 'number' },
+      CombatRank: { type: 'number' },
+    },
+  },
+};
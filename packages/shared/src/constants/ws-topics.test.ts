@@ -0,0 +1,42 @@
+/**
+ * AGNI — Unit tests for ws-topics.ts
+ *
+ * Tests subscription pattern matching (exact, namespace and catch-all
+ * wildcards) and the specificity that lets an exact pattern override a
+ * wildcard.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WS_TOPICS, WS_UNTHROTTLED_TOPICS, matchesTopic, topicSpecificity } from './ws-topics.js';
+
+describe('matchesTopic()', () => {
+  it('should match exact topics only', () => {
+    expect(matchesTopic('status:flags', 'status:flags')).toBe(true);
+    expect(matchesTopic('status:flags', 'status:pips')).toBe(false);
+  });
+
+  it('should match a namespace wildcard against its namespace', () => {
+    expect(matchesTopic('state:*', 'state:ship')).toBe(true);
+    expect(matchesTopic('state:*', 'state:patch')).toBe(true);
+    expect(matchesTopic('state:*', 'status:flags')).toBe(false);
+    expect(matchesTopic('state:*', 'statex:ship')).toBe(false);
+  });
+
+  it('should match every topic with *', () => {
+    expect(WS_TOPICS.every((topic) => matchesTopic('*', topic))).toBe(true);
+  });
+});
+
+describe('topicSpecificity()', () => {
+  it('should rank exact topics above namespace wildcards above *', () => {
+    expect(topicSpecificity('status:flags')).toBeGreaterThan(topicSpecificity('status:*'));
+    expect(topicSpecificity('status:*')).toBeGreaterThan(topicSpecificity('*'));
+  });
+});
+
+describe('WS_UNTHROTTLED_TOPICS', () => {
+  it('should only list catalogued topics', () => {
+    expect(WS_UNTHROTTLED_TOPICS.filter((topic) => !WS_TOPICS.includes(topic))).toEqual([]);
+    expect(WS_UNTHROTTLED_TOPICS).toContain('state:patch');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * @vayu/shared — WebSocket Topic Catalogue
+ *
+ * The server -> client event types a client can subscribe to, advertised in
+ * `connection:open` as `availableSubscriptions`. Subscriptions accept exact
+ * topics or wildcard patterns: `*` (everything) or `<namespace>:*`
+ * (e.g. `state:*`, `threat:*`).
+ */
+
+import type { WSEventType, WSTopicPattern } from '../types/websocket.js';
+
+// ---------------------------------------------------------------------------
+// Catalogue
+// ---------------------------------------------------------------------------
+
+/** Every topic the server broadcasts. */
+export const WS_TOPICS: readonly WSEventType[] = [
+  'journal:event',
+  'journal:batch',
+  'journal:backlog',
+  'commander:switched',
+  'state:full',
+  'state:patch',
+  'state:commander',
+  'state:ship',
+  'state:location',
+  'state:materials',
+  'state:missions',
+  'state:carrier',
+  'state:odyssey',
+  'state:session',
+  'covas:listening',
+  'covas:transcription',
+  'covas:command',
+  'covas:response',
+  'covas:audio',
+  'covas:error',
+  'covas:state',
+  'market:update',
+  'market:snapshot',
+  'nav:route',
+  'nav:routeClear',
+  'nav:fsdTarget',
+  'ship:power',
+  'ship:jumpRange',
+  'exploration:system',
+  'exploration:unsold',
+  'galaxy:import',
+  'galaxy:route',
+  'status:flags',
+  'status:pips',
+  'status:firegroup',
+  'status:guifocus',
+  'status:fuel',
+  'status:cargo',
+  'server:info',
+  'server:config',
+  'server:error',
+  'device:paired',
+  'device:revoked',
+  'alert:fired',
+  'alert:acknowledged',
+  'pips:update',
+  'threat:interdiction',
+  'threat:system_alert',
+  'threat:anarchy_warning',
+  'bindings:updated',
+  'mining:update',
+  'mining:prospector',
+  'music:state',
+  'music:track',
+];
+
+/**
+ * Topics whose messages are individually meaningful (events, ordered
+ * patches) rather than "latest value wins". Throttling never coalesces
+ * them, since dropping one would lose an event or break a patch sequence.
+ */
+export const WS_UNTHROTTLED_TOPICS: readonly WSEventType[] = [
+  'journal:event',
+  'journal:batch',
+  'commander:switched',
+  'state:full',
+  'state:patch',
+  'covas:transcription',
+  'covas:command',
+  'covas:response',
+  'covas:audio',
+  'covas:error',
+  'server:config',
+  'device:paired',
+  'device:revoked',
+  'alert:fired',
+  'alert:acknowledged',
+  'threat:interdiction',
+  'threat:system_alert',
+  'threat:anarchy_warning',
+  'bindings:updated',
+  'mining:prospector',
+];
+
+// ---------------------------------------------------------------------------
+// Pattern matching
+// ---------------------------------------------------------------------------
+
+/** Whether `topic` matches an exact or wildcard subscription pattern. */
+export function matchesTopic(pattern: WSTopicPattern | string, topic: string): boolean {
+  if (pattern === '*') return true;
+  if (pattern.endsWith(':*')) return topic.startsWith(pattern.slice(0, -1));
+  return pattern === topic;
+}
+
+/**
+ * How specific a pattern is, so an exact subscription (e.g. `status:flags`
+ * at 4 Hz) overrides a broader one (`status:*`). Higher is more specific.
+ */
+export function topicSpecificity(pattern: WSTopicPattern | string): number {
+  if (pattern === '*') return 0;
+  if (pattern.endsWith(':*')) return 1;
+  return 2;
+}
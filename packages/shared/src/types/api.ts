@@ -1,10 +1,18 @@
 /**
  * @vayu/shared — REST API Types
  *
- * Generic types for the VAYU HTTP API: response wrappers,
- * error shapes, and pagination.
+ * Types for the VAYU HTTP API: the response envelope every route uses,
+ * the JSON Schema subset used to validate requests and publish the OpenAPI
+ * document, request bodies, and resources without a domain module of their
+ * own. The schemas themselves live in `constants/api-schemas.ts`.
  */
 
+import type { BindingModifier } from './bindings.js';
+import type { HUDColorMatrix } from './graphics.js';
+import type { DeviceScope } from './devices.js';
+import type { StationItemKind } from './navigation.js';
+import type { GalaxyDumpKind, LandingPadSize, StationServiceKind } from './galaxy.js';
+
 // ---------------------------------------------------------------------------
 // API Response Wrappers
 // ---------------------------------------------------------------------------
@@ -13,40 +21,66 @@
 export interface ApiResponse<T> {
   /** Whether the request succeeded. */
   success: true;
-  /** Response payload. */
+  /** Response payload (omitted by routes that only acknowledge). */
   data: T;
   /** Optional human-readable message. */
   message?: string;
-  /** Server timestamp. */
-  timestamp: string;
-  /** Request duration in milliseconds. */
-  durationMs: number;
 }
 
 /** Standard error API response. */
 export interface ApiError {
   /** Whether the request succeeded (always false). */
   success: false;
-  /** Error details. */
-  error: {
-    /** Machine-readable error code. */
-    code: string;
-    /** Human-readable error message. */
-    message: string;
-    /** Additional error details. */
-    details?: Record<string, unknown>;
-    /** Stack trace (only in development). */
-    stack?: string;
-  };
-  /** Server timestamp. */
-  timestamp: string;
-  /** Request duration in milliseconds. */
-  durationMs: number;
+  /** Human-readable error message. */
+  error: string;
+  /** Underlying cause, when the route has one to report. */
+  detail?: string;
+  /** Problem per field, keyed by path (e.g. `slot`, `query.limit`). */
+  errors?: Record<string, string>;
 }
 
 /** Union type for any API response. */
 export type ApiResult<T> = ApiResponse<T> | ApiError;
 
+// ---------------------------------------------------------------------------
+// JSON Schema
+// ---------------------------------------------------------------------------
+
+/** Primitive JSON Schema types. */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+/**
+ * The subset of JSON Schema (2020-12, as used by OpenAPI 3.1) that
+ * `validateSchema()` enforces. `T` is the TypeScript type the schema
+ * describes; it only exists at compile time.
+ */
+export interface JsonSchema<T = unknown> {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: ReadonlyArray<string | number | boolean | null>;
+  default?: unknown;
+  /** Documentation only — not checked. */
+  format?: string;
+  /** Documentation only — not checked. */
+  example?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** `false` rejects unknown keys; a schema validates them. Default: allowed. */
+  additionalProperties?: boolean | JsonSchema;
+  minProperties?: number;
+  anyOf?: JsonSchema[];
+  /** Phantom field tying the schema to `T`; never set. */
+  readonly __type?: T;
+}
+
 // ---------------------------------------------------------------------------
 // Pagination
 // ---------------------------------------------------------------------------
@@ -151,3 +185,375 @@ export interface ApiRouteDefinition {
   /** Tags for grouping in documentation. */
   tags: string[];
 }
+
+// ---------------------------------------------------------------------------
+// Resources
+// ---------------------------------------------------------------------------
+
+/** A configurable alert rule (`/api/alerts/rules`). */
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** 'low_fuel' | 'low_hull' | 'mission_expiring' | 'interdiction' | 'heat_warning' | 'under_attack' | 'shield_down' | 'exploration_at_risk' | 'high_value_scan' | 'custom' */
+  condition: string;
+  /** Percentage, hours or credits, depending on the condition. */
+  threshold?: number;
+  sound?: string;
+  /** Speak the alert through COVAS. */
+  tts?: boolean;
+}
+
+/** An alert that fired (`/api/alerts/history`, `alert:fired`). */
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  message: string;
+  severity: 'info' | 'warning' | 'critical';
+  timestamp: string;
+  acknowledged: boolean;
+}
+
+/** A personal logbook entry, stamped with where it was written. */
+export interface LogbookEntry {
+  id: string;
+  content: string;
+  timestamp: string;
+  system: string;
+  body: string | null;
+  station: string | null;
+  /** Resolved ship type name. */
+  ship: string;
+  shipName: string;
+  tags: string[];
+  source: 'text' | 'voice';
+}
+
+/** Logbook totals returned alongside the entry list. */
+export interface LogbookStats {
+  totalEntries: number;
+  voiceEntries: number;
+  textEntries: number;
+  systemsCovered: number;
+}
+
+/** A music track as returned by search and held in the queue. */
+export interface MusicTrack {
+  id: string;
+  title: string;
+  artist: string;
+  duration: string;
+  thumbnail: string;
+  url: string;
+}
+
+// ---------------------------------------------------------------------------
+// Request Bodies and Queries
+// ---------------------------------------------------------------------------
+
+/** `?limit=&offset=` on list endpoints. */
+export interface LimitOffsetQuery {
+  limit?: number;
+  offset?: number;
+}
+
+/** `?fid=` on per-commander endpoints: a FID, `all` for every commander, or the active commander when omitted. */
+export interface CommanderScopeQuery {
+  fid?: string;
+}
+
+/** `?limit=&offset=&fid=` on the journal session list. */
+export interface JournalSessionsQuery extends LimitOffsetQuery, CommanderScopeQuery {}
+
+/** Filters and paging on the journal event search and counts. */
+export interface JournalEventsQuery extends CommanderScopeQuery {
+  /** Comma-separated event types, e.g. "FSDJump,Docked". */
+  events?: string;
+  /** Alias of `events`. */
+  eventTypes?: string;
+  /** Earliest event timestamp (ISO 8601). */
+  since?: string;
+  /** Latest event timestamp (ISO 8601). */
+  until?: string;
+  /** Only this session; implies every commander unless `fid` is given. */
+  session?: number;
+  /** Commander name. */
+  commander?: string;
+  /** Text in the event data. */
+  search?: string;
+  /** Alias of `search`. */
+  q?: string;
+  page?: number;
+  perPage?: number;
+  sortOrder?: 'asc' | 'desc';
+}
+
+/** `?q=&kind=&limit=` on the ship and module search. */
+export interface ForSaleQuery {
+  /** Ship or module, e.g. "Krait Mk II", "5A FSD". */
+  q: string;
+  kind?: StationItemKind;
+  limit?: number;
+}
+
+/** `?q=&limit=` on the galaxy system name search. */
+export interface GalaxySearchQuery {
+  /** Start of a system name, any case. */
+  q: string;
+  limit?: number;
+}
+
+/** Centre (a system name or coordinates) and radius of a galaxy radius search. */
+export interface GalaxyNearbyQuery {
+  system?: string;
+  x?: number;
+  y?: number;
+  z?: number;
+  /** Light years. */
+  radius?: number;
+  limit?: number;
+}
+
+/** `?service=&pad=&maxDistanceToArrival=&limit=` on the nearest-service finder. */
+export interface NearestServiceQuery {
+  service: StationServiceKind;
+  /** Smallest pad the ship needs; stations whose pad size is unknown are left out. */
+  pad?: LandingPadSize;
+  /** Furthest from the arrival star, in light seconds; stations without a distance are left out. */
+  maxDistanceToArrival?: number;
+  limit?: number;
+}
+
+/** Route plotter options: from the current system unless `from` is given. */
+export interface RoutePlotQuery {
+  to: string;
+  from?: string;
+  /** Supercharge at neutron stars. */
+  neutron?: boolean;
+  /** Supercharge at white dwarfs (damages the FSD). */
+  whiteDwarf?: boolean;
+  /** Cargo carried, in tons; the cargo on board by default. */
+  cargo?: number;
+}
+
+/** `?q=` on plain text searches (screenshots, materials). */
+export interface TextSearchQuery {
+  q: string;
+}
+
+/** `?commodity=` on the commodity price search. */
+export interface CommoditySearchQuery {
+  commodity: string;
+}
+
+/** `?hours=` on the expiring missions list. */
+export interface MissionExpiringQuery {
+  /** Missions expiring within this many hours. */
+  hours?: number;
+}
+
+/** `?distance=` on the carrier tritium calculator. */
+export interface CarrierFuelQuery {
+  /** Light years to travel. */
+  distance: number;
+}
+
+/** `?component=` on the Odyssey farming guide. */
+export interface FarmGuideQuery {
+  /** Only guides for this component. */
+  component?: string;
+}
+
+/** `?category=` on the random trivia question. */
+export interface TriviaRandomQuery {
+  /** Only questions from this category. */
+  category?: string;
+}
+
+/** `?distance=` on the jump range endpoint. */
+export interface JumpRangeQuery {
+  /** Also work out the fuel for a jump of this many light years. */
+  distance?: number;
+}
+
+/** Filters on the market price history endpoints. */
+export interface MarketHistoryQuery {
+  /** Only this commodity (station history). */
+  commodity?: string;
+  /** Only this station (commodity history). */
+  marketId?: number;
+  /** Earliest snapshot timestamp (ISO 8601). */
+  since?: string;
+  /** Latest snapshot timestamp (ISO 8601). */
+  until?: string;
+  limit?: number;
+}
+
+/** PUT /api/alerts/rules/:id */
+export type AlertRuleUpdateRequest = Partial<Omit<AlertRule, 'id'>>;
+
+/** PUT /api/bindings/:action — either `clear: true` or a device with a key/axis. */
+export interface BindingUpdateRequest {
+  slot: 'primary' | 'secondary' | 'axis';
+  clear?: boolean;
+  device?: string;
+  key?: string;
+  modifiers?: BindingModifier[];
+  axis?: string;
+  inverted?: boolean;
+  deadzone?: number;
+}
+
+/** POST /api/logbook */
+export interface LogbookCreateRequest {
+  content: string;
+  source?: LogbookEntry['source'];
+  tags?: string[];
+}
+
+/** PUT /api/logbook/:id */
+export interface LogbookUpdateRequest {
+  content: string;
+  tags?: string[];
+}
+
+/** POST /api/covas/text */
+export interface CovasTextRequest {
+  text: string;
+}
+
+/** POST /api/covas/enable */
+export interface CovasEnableRequest {
+  enabled: boolean;
+}
+
+/** POST /api/covas/ptt — without an action, toggles. */
+export interface CovasPttRequest {
+  action?: 'start' | 'stop';
+}
+
+/** POST /api/music/queue */
+export interface MusicQueueRequest {
+  track: MusicTrack;
+}
+
+/** POST /api/music/volume */
+export interface MusicVolumeRequest {
+  /** 0–100. */
+  volume: number;
+}
+
+/** POST /api/music/repeat */
+export interface MusicRepeatRequest {
+  mode: 'none' | 'one' | 'all';
+}
+
+/** POST /api/music/shuffle */
+export interface MusicShuffleRequest {
+  enabled: boolean;
+}
+
+/** POST /api/replay/load */
+export interface ReplayLoadRequest {
+  /** Journal file or directory on the server. */
+  path: string;
+  speed?: number;
+  maxGapMs?: number;
+  persist?: boolean;
+  /** Start playing as soon as the replay is loaded. */
+  autoplay?: boolean;
+}
+
+/** POST /api/replay/step */
+export interface ReplayStepRequest {
+  count?: number;
+}
+
+/** POST /api/replay/seek — an event index or an ISO timestamp. */
+export type ReplaySeekRequest = { position: number } | { timestamp: string };
+
+/** POST /api/replay/speed */
+export interface ReplaySpeedRequest {
+  speed: number;
+}
+
+/** POST /api/trivia/start */
+export interface TriviaStartRequest {
+  count?: number;
+  category?: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+}
+
+/** POST /api/trivia/answer */
+export interface TriviaAnswerRequest {
+  questionId: number;
+  selectedIndex: number;
+  /** Time taken to answer. */
+  timeMs?: number;
+}
+
+/** POST /api/audio/apply and /api/graphics/apply */
+export interface ProfileApplyRequest {
+  profileName: string;
+}
+
+/** POST /api/graphics/apply-quality */
+export interface QualityPresetApplyRequest {
+  presetName: string;
+}
+
+/** POST /api/audio/profiles — volumes are 0–100. */
+export interface AudioProfileRequest {
+  name: string;
+  description?: string;
+  masterVolume?: number;
+  gameVolume?: number;
+  voiceVolume?: number;
+  musicVolume?: number;
+  ttsVolume?: number;
+}
+
+/** POST /api/graphics/profiles */
+export interface GraphicsProfileRequest {
+  name: string;
+  description?: string;
+  hudMatrix: HUDColorMatrix;
+  fov?: number | null;
+}
+
+/** POST /api/journal/import */
+export interface JournalImportRequest {
+  /** Re-read files that were already imported. */
+  full?: boolean;
+}
+
+/** POST /api/galaxy/import */
+export interface GalaxyImportRequest {
+  /** Dump file (`.json` or `.json.gz`), relative to the server's galaxy dumps directory. */
+  path: string;
+  /** What the dump holds; guessed from the file name when omitted. */
+  kind?: GalaxyDumpKind;
+  /** Start from the beginning instead of resuming. */
+  full?: boolean;
+}
+
+/** PUT /api/settings — setting keys to values. */
+export type SettingsUpdateRequest = Record<string, unknown>;
+
+/** POST /api/devices/pair */
+export interface DevicePairRequest {
+  code: string;
+  name: string;
+}
+
+/** POST /api/devices/pairing */
+export interface DevicePairingRequest {
+  scopes?: DeviceScope[];
+}
+
+/** PATCH /api/devices/:id */
+export interface DeviceUpdateRequest {
+  name?: string;
+  scopes?: DeviceScope[];
+}
@@ -0,0 +1,68 @@
+/**
+ * @vayu/shared — Paired Device Types
+ *
+ * Types for LAN second screens (a tablet next to the HOTAS, a phone).
+ * The machine running the server is trusted; any other device pairs once
+ * with a short code shown on the desktop and then authenticates with the
+ * token it was issued.
+ */
+
+// ---------------------------------------------------------------------------
+// Scopes
+// ---------------------------------------------------------------------------
+
+/**
+ * What a paired device may do:
+ *   - `read` — GET requests and receiving WebSocket events
+ *   - `control` — everything that changes state: COVAS commands and
+ *     keypresses, binding writes, music, alerts, and other POST/PUT/DELETE
+ *     requests
+ *   - `admin` — runtime settings, plugins and device management
+ *
+ * Every device has `read`.
+ */
+export type DeviceScope = 'read' | 'control' | 'admin';
+
+// ---------------------------------------------------------------------------
+// Devices
+// ---------------------------------------------------------------------------
+
+/** A paired device. The token itself is never returned after pairing. */
+export interface PairedDevice {
+  id: string;
+  /** Name given when pairing, e.g. "Cockpit tablet". */
+  name: string;
+  scopes: DeviceScope[];
+  /** ISO 8601. */
+  pairedAt: string;
+  /** Last authenticated request or connection (ISO 8601). */
+  lastSeenAt: string | null;
+  /** Address of the last authenticated request. */
+  lastAddress: string | null;
+}
+
+/** A pairing code shown on the desktop. */
+export interface DevicePairingCode {
+  /** Six digits, entered on the new device. */
+  code: string;
+  /** Scopes the device will receive. */
+  scopes: DeviceScope[];
+  /** ISO 8601. */
+  expiresAt: string;
+}
+
+/** Response to a successful pairing. */
+export interface DevicePairResult {
+  /** Bearer token. Shown once — store it on the device. */
+  token: string;
+  device: PairedDevice;
+}
+
+/** Who the server thinks is calling (`GET /api/devices/me`). */
+export interface DeviceIdentity {
+  /** The machine running the server (all scopes, no token needed). */
+  local: boolean;
+  /** The paired device, when not local. */
+  device: PairedDevice | null;
+  scopes: DeviceScope[];
+}
@@ -0,0 +1,189 @@
+/**
+ * @vayu/shared — Galaxy Database Types
+ *
+ * Systems, stations and bodies imported from the public EDSM nightly dumps
+ * into the local galaxy database, so system lookups, "systems within N ly"
+ * and station searches work offline.
+ */
+
+import type { Coordinates, RouteWaypoint, StarClass } from './navigation.js';
+import type { FsdSupercharge } from './ship.js';
+
+/** Which dump a file holds: systems (with coordinates), stations, or bodies. */
+export type GalaxyDumpKind = 'systems' | 'stations' | 'bodies';
+
+/** A system in the galaxy database. */
+export interface GalaxySystem {
+  /** 64-bit system address. */
+  id64: number;
+  /** EDSM system ID (null when the dump did not include it). */
+  edsmId: number | null;
+  name: string;
+  coordinates: Coordinates;
+  /** Populated-system details (null when the dump did not include them). */
+  allegiance: string | null;
+  government: string | null;
+  economy: string | null;
+  security: string | null;
+  population: number | null;
+  /** Class of the arrival star, from a bodies dump (null until one with it is imported). */
+  primaryStar: StarClass | null;
+  /** When the dump's source last saw the system. */
+  updatedAt: string | null;
+}
+
+/** A system found by a radius search, with its distance from the centre. */
+export interface GalaxyNearbySystem extends GalaxySystem {
+  /** Distance from the search centre in light years. */
+  distance: number;
+}
+
+/** A station, outpost, settlement or carrier in the galaxy database. */
+export interface GalaxyStation {
+  /** EDSM station ID. */
+  id: number;
+  marketId: number | null;
+  name: string;
+  /** e.g. "Coriolis Starport", "Outpost", "Odyssey Settlement", "Drake-Class Carrier". */
+  type: string | null;
+  systemId64: number;
+  systemName: string;
+  distanceToArrival: number | null;
+  allegiance: string | null;
+  government: string | null;
+  economy: string | null;
+  hasMarket: boolean;
+  hasShipyard: boolean;
+  hasOutfitting: boolean;
+  /** Other services, e.g. "Refuel", "Repair", "Interstellar Factors Contact". */
+  services: string[];
+  updatedAt: string | null;
+}
+
+/** A star or planet in the galaxy database. */
+export interface GalaxyBody {
+  /** EDSM body ID. */
+  id: number;
+  /** Body ID within the system (null when unknown). */
+  bodyId: number | null;
+  name: string;
+  /** "Star" or "Planet". */
+  type: string;
+  /** e.g. "K (Yellow-Orange) Star", "Earth-like world". */
+  subType: string | null;
+  systemId64: number;
+  distanceToArrival: number | null;
+  landable: boolean;
+  terraformState: string | null;
+}
+
+/** A system with its stations and bodies. */
+export interface GalaxySystemDetail extends GalaxySystem {
+  stations: GalaxyStation[];
+  bodies: GalaxyBody[];
+}
+
+/** How far an import of one dump file got. */
+export interface GalaxyImportRecord {
+  /** Absolute path of the dump file. */
+  source: string;
+  kind: GalaxyDumpKind;
+  /** Lines of the decompressed dump read so far; a resumed import skips these. */
+  lines: number;
+  /** Records stored from those lines. */
+  records: number;
+  /** Whether the whole file has been read. */
+  complete: boolean;
+  updatedAt: string;
+}
+
+/** Contents of the galaxy database (`GET /api/galaxy`). */
+export interface GalaxyDatabaseStats {
+  systems: number;
+  stations: number;
+  bodies: number;
+  /** Dump files imported or partly imported, most recent first. */
+  imports: GalaxyImportRecord[];
+}
+
+/** A station found by a radius search, with its system's distance from the centre. */
+export interface GalaxyNearbyStation extends GalaxyStation {
+  /** Light years from the search centre to the station's system. */
+  distance: number;
+}
+
+// ---------------------------------------------------------------------------
+// Nearest-service finder
+// ---------------------------------------------------------------------------
+
+/** Landing pad size. */
+export type LandingPadSize = 'S' | 'M' | 'L';
+
+/** What the nearest-service finder can look for. */
+export type StationServiceKind =
+  | 'interstellar_factors'
+  | 'material_trader_raw'
+  | 'material_trader_manufactured'
+  | 'material_trader_encoded'
+  | 'technology_broker_human'
+  | 'technology_broker_guardian'
+  | 'large_pad'
+  | 'fleet_carrier_vendor';
+
+/** A station offering the service looked for. */
+export interface NearestServiceStation extends GalaxyNearbyStation {
+  /** Largest landing pad, from the station type (null when unknown, e.g. settlements). */
+  maxPad: LandingPadSize | null;
+}
+
+/** Stations offering a service nearest the commander (`GET /api/galaxy/stations/nearest`). */
+export interface NearestServiceResult {
+  service: StationServiceKind;
+  /** The system searched from: the commander's current system. */
+  origin: { system: string; coordinates: Coordinates };
+  /** Radius in light years that was searched. */
+  searchedLy: number;
+  /** Nearest first. */
+  stations: NearestServiceStation[];
+}
+
+// ---------------------------------------------------------------------------
+// Route plotter
+// ---------------------------------------------------------------------------
+
+/** A system on a plotted route. `starClass` is empty when the arrival star is unknown. */
+export interface PlottedRouteWaypoint extends RouteWaypoint {
+  /** Light years from the previous waypoint (0 for the first). */
+  jumpDistance: number;
+  /** Fuel the jump here burns, in tons. */
+  fuelUsed: number;
+  /** Fuel in the tank on arrival, before any scooping, in tons. */
+  fuelLeft: number;
+  /** Scoop fuel here: the star is scoopable and the tank is below half or short of a full jump. */
+  refuel: boolean;
+  /** The jump here was supercharged at the previous waypoint. */
+  supercharged: FsdSupercharge | null;
+}
+
+/** A route plotted over the galaxy database (`GET /api/galaxy/route`). */
+export interface PlottedRoute {
+  source: string;
+  destination: string;
+  /** Every waypoint, the source first. */
+  waypoints: PlottedRouteWaypoint[];
+  jumpCount: number;
+  /** Light years along the route. */
+  totalDistance: number;
+  /** Light years in a straight line. */
+  directDistance: number;
+  /** Range of the first jump with the fuel and cargo on board, in light years. */
+  jumpRange: number;
+  /** Fuel scoops on the way. */
+  refuels: number;
+  /** Supercharged jumps. */
+  supercharges: number;
+  /** Whether neutron stars and white dwarfs were used. */
+  neutron: boolean;
+  whiteDwarf: boolean;
+  plottedAt: string;
+}
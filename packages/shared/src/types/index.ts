@@ -71,6 +71,7 @@ export type {
   FSSDiscoveryScanEvent,
   FSSAllBodiesFoundEvent,
   FSSSignalDiscoveredEvent,
+  FSSBodySignalsEvent,
   SAASignalsFoundEvent,
   SAAScanCompleteEvent,
   CodexEntryEvent,
@@ -253,6 +254,15 @@ export type {
   OptionalModule,
   FuelState,
   CargoItem,
+  PowerRole,
+  PowerBudgetModule,
+  PowerPriorityGroup,
+  PowerPrioritySuggestion,
+  PowerBudget,
+  FsdStats,
+  FsdSupercharge,
+  ShipJumpRange,
+  JumpRangeOverview,
   ShipState,
   ShipManufacturer,
   ShipSize,
@@ -261,6 +271,13 @@ export type {
 } from './ship.js';
 export { SHIP_DISPLAY_NAMES } from './ship.js';
 
+// Status.json types
+export type {
+  StatusFlags,
+  StatusEdgeFlag,
+  StatusEdge,
+} from './status.js';
+
 // Material types
 export type {
   MaterialCategory,
@@ -282,6 +299,8 @@ export type {
   Commodity,
   MarketEntry,
   MarketSnapshot,
+  MarketStationSummary,
+  MarketPricePoint,
   TradeRoute,
   TradeResult,
   TradeSession,
@@ -301,13 +320,45 @@ export type {
   ReserveLevel,
   BodyRing,
   SystemBody,
+  BodySignal,
+  CartographicDataState,
+  ExploredSystemSummary,
+  ExploredSystem,
+  UnsoldExplorationData,
+  ExplorationOverview,
   Station,
+  StationItemKind,
+  StationItem,
+  CatalogueStation,
+  StationCatalogue,
+  ForSaleListing,
   RouteWaypoint,
   NavRoute,
+  RouteProgressWaypoint,
+  NavRouteProgress,
   LocationState,
 } from './navigation.js';
 export { StationType } from './navigation.js';
 
+// Galaxy database types
+export type {
+  GalaxyDumpKind,
+  GalaxySystem,
+  GalaxyNearbySystem,
+  GalaxyStation,
+  GalaxyBody,
+  GalaxySystemDetail,
+  GalaxyImportRecord,
+  GalaxyDatabaseStats,
+  GalaxyNearbyStation,
+  LandingPadSize,
+  StationServiceKind,
+  NearestServiceStation,
+  NearestServiceResult,
+  PlottedRouteWaypoint,
+  PlottedRoute,
+} from './galaxy.js';
+
 // Binding types
 export type {
   BindingCategory,
@@ -390,6 +441,26 @@ export type {
 } from './covas.js';
 export { CovasPipelineStage } from './covas.js';
 
+// Settings types
+export type {
+  SettingGroup,
+  SettingType,
+  SettingValue,
+  SettingSource,
+  SettingDefinition,
+  SettingState,
+  SettingChange,
+} from './settings.js';
+
+// Paired device types
+export type {
+  DeviceScope,
+  PairedDevice,
+  DevicePairingCode,
+  DevicePairResult,
+  DeviceIdentity,
+} from './devices.js';
+
 // WebSocket types
 export type {
   WSEventType,
@@ -397,11 +468,23 @@ export type {
   WSConnectionOpenPayload,
   WSConnectionClosePayload,
   WSConnectionErrorPayload,
+  WSTopicPattern,
   WSSubscriptionPayload,
   WSClientCommandPayload,
+  WSCommandErrorCode,
+  WSCommandResultPayload,
   WSServerInfoPayload,
+  WSServerConfigPayload,
+  WSDevicePairedPayload,
+  WSDeviceRevokedPayload,
+  JsonPatchOperation,
   WSStatePatchPayload,
+  WSStateFullPayload,
+  WSResyncPayload,
+  WSCommanderSwitchedPayload,
   WSJournalBatchPayload,
+  WSJournalBacklogPayload,
+  WSGalaxyImportPayload,
   WSStatusFlagsPayload,
 } from './websocket.js';
 
@@ -417,6 +500,57 @@ export type {
   TradeRouteQueryParams,
   HttpMethod,
   ApiRouteDefinition,
+  JsonSchemaType,
+  JsonSchema,
+  AlertRule,
+  AlertEvent,
+  LogbookEntry,
+  LogbookStats,
+  MusicTrack,
+  LimitOffsetQuery,
+  CommanderScopeQuery,
+  JournalSessionsQuery,
+  JournalEventsQuery,
+  MarketHistoryQuery,
+  ForSaleQuery,
+  GalaxySearchQuery,
+  GalaxyNearbyQuery,
+  NearestServiceQuery,
+  RoutePlotQuery,
+  JumpRangeQuery,
+  TextSearchQuery,
+  CommoditySearchQuery,
+  MissionExpiringQuery,
+  CarrierFuelQuery,
+  FarmGuideQuery,
+  TriviaRandomQuery,
+  AlertRuleUpdateRequest,
+  BindingUpdateRequest,
+  LogbookCreateRequest,
+  LogbookUpdateRequest,
+  CovasTextRequest,
+  CovasEnableRequest,
+  CovasPttRequest,
+  MusicQueueRequest,
+  MusicVolumeRequest,
+  MusicRepeatRequest,
+  MusicShuffleRequest,
+  ReplayLoadRequest,
+  ReplayStepRequest,
+  ReplaySeekRequest,
+  ReplaySpeedRequest,
+  TriviaStartRequest,
+  TriviaAnswerRequest,
+  ProfileApplyRequest,
+  QualityPresetApplyRequest,
+  AudioProfileRequest,
+  GraphicsProfileRequest,
+  JournalImportRequest,
+  GalaxyImportRequest,
+  SettingsUpdateRequest,
+  DevicePairRequest,
+  DevicePairingRequest,
+  DeviceUpdateRequest,
 } from './api.js';
 
 // Game State (unified)
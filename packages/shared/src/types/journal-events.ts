@@ -743,6 +743,18 @@ export interface FSSSignalDiscoveredEvent extends JournalEvent {
   TimeRemaining?: number;
 }
 
+export interface FSSBodySignalsEvent extends JournalEvent {
+  event: 'FSSBodySignals';
+  BodyName: string;
+  BodyID: number;
+  SystemAddress: number;
+  Signals: Array<{
+    Type: string;
+    Type_Localised?: string;
+    Count: number;
+  }>;
+}
+
 export interface SAASignalsFoundEvent extends JournalEvent {
   event: 'SAASignalsFound';
   BodyName: string;
@@ -2136,6 +2148,7 @@ export type AnyJournalEvent =
   | FSSDiscoveryScanEvent
   | FSSAllBodiesFoundEvent
   | FSSSignalDiscoveredEvent
+  | FSSBodySignalsEvent
   | SAASignalsFoundEvent
   | SAAScanCompleteEvent
   | CodexEntryEvent
@@ -2329,6 +2342,7 @@ export interface JournalEventMap {
   FSSDiscoveryScan: FSSDiscoveryScanEvent;
   FSSAllBodiesFound: FSSAllBodiesFoundEvent;
   FSSSignalDiscovered: FSSSignalDiscoveredEvent;
+  FSSBodySignals: FSSBodySignalsEvent;
   SAASignalsFound: SAASignalsFoundEvent;
   SAAScanComplete: SAAScanCompleteEvent;
   CodexEntry: CodexEntryEvent;
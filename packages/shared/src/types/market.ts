@@ -94,6 +94,41 @@ export interface MarketSnapshot {
   items: MarketEntry[];
 }
 
+// ---------------------------------------------------------------------------
+// Price History
+// ---------------------------------------------------------------------------
+
+/** A station market VAYU has recorded a snapshot of. */
+export interface MarketStationSummary {
+  marketId: number;
+  stationName: string;
+  stationType: string;
+  starSystem: string;
+  /** Timestamp of the latest snapshot. */
+  lastVisited: string;
+  /** Number of snapshots recorded. */
+  snapshots: number;
+  /** Commodities listed in the latest snapshot. */
+  commodities: number;
+}
+
+/** One commodity's prices at one station, as seen in one snapshot. */
+export interface MarketPricePoint {
+  /** Timestamp of the snapshot. */
+  timestamp: string;
+  marketId: number;
+  stationName: string;
+  starSystem: string;
+  /** Internal commodity name (e.g. "gold"), as used by MarketBuy/MarketSell. */
+  commodity: string;
+  nameLocalised: string | null;
+  buyPrice: number;
+  sellPrice: number;
+  meanPrice: number;
+  stock: number;
+  demand: number;
+}
+
 // ---------------------------------------------------------------------------
 // Trade Analysis
 // ---------------------------------------------------------------------------
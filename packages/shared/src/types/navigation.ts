@@ -247,6 +247,99 @@ export interface SystemBody {
   composition: { ice: number; rock: number; metal: number } | null;
   /** Surface materials and percentages. */
   materials: Array<{ name: string; percent: number }>;
+
+  // Signals & mapping
+  /** Signals on or around the body (FSSBodySignals / SAASignalsFound). */
+  signals: BodySignal[];
+  /** Biological genuses found by the surface scan. */
+  genuses: string[];
+  /** Probes used to map the body (null if not mapped). */
+  probesUsed: number | null;
+  /** Probes needed for the efficiency bonus (null if not mapped). */
+  efficiencyTarget: number | null;
+
+  // Cartographic data
+  /** When the body was last scanned. */
+  scannedAt: string;
+  /** Whether the scan data is still unsold, sold, or was lost on death. */
+  dataState: CartographicDataState;
+  /** Estimated sale value of the scan alone, in credits. */
+  fssValue: number;
+  /** Estimated sale value once mapped, in credits (null for bodies that cannot be mapped). */
+  dssValue: number | null;
+}
+
+/** A signal count on a body (e.g. biological, geological, ring hotspots). */
+export interface BodySignal {
+  /** Internal signal type (e.g. "$SAA_SignalType_Biological;"). */
+  type: string;
+  /** Display name. */
+  name: string;
+  /** Number of signals. */
+  count: number;
+}
+
+/** What happened to a body's scan data. */
+export type CartographicDataState = 'unsold' | 'sold' | 'lost';
+
+/** A system the commander has scanned bodies in. */
+export interface ExploredSystemSummary {
+  /** System address. */
+  systemAddress: number;
+  /** System name. */
+  name: string;
+  /** Bodies in the system, from the FSS discovery scan (null before one). */
+  bodyCount: number | null;
+  /** Non-body signals, from the FSS discovery scan (null before one). */
+  nonBodyCount: number | null;
+  /** Whether every body has been found in the FSS. */
+  allBodiesFound: boolean;
+  /** Bodies scanned. */
+  scanned: number;
+  /** Bodies mapped with probes. */
+  mapped: number;
+  /** Bodies whose data is unsold. */
+  unsold: number;
+  /** First scan in the system. */
+  firstScannedAt: string;
+  /** Most recent scan in the system. */
+  lastScannedAt: string;
+}
+
+/** A scanned system with its bodies. */
+export interface ExploredSystem extends ExploredSystemSummary {
+  /** Scanned bodies, by body ID. */
+  bodies: SystemBody[];
+}
+
+/** Scan data not yet sold at a Universal Cartographics contact. */
+export interface UnsoldExplorationData {
+  /** Systems with unsold data. */
+  systems: number;
+  /** Bodies with unsold data. */
+  bodies: number;
+  /** Of those, bodies mapped with probes. */
+  mapped: number;
+  /** Of those, bodies nobody had discovered before. */
+  firstDiscoveries: number;
+  /** Estimated sale value of the unsold data, in credits. */
+  estimatedValue: number;
+  /** Oldest unsold scan (null when nothing is unsold). */
+  oldestScanAt: string | null;
+  /** Unsold data per system, most recent first. */
+  bySystem: Array<{ systemAddress: number; name: string; bodies: number; mapped: number; estimatedValue: number }>;
+  /** The last time death wiped unsold data (null if it never has). */
+  lastLost: { bodies: number; systems: number; at: string } | null;
+}
+
+/** The current system's scans and the unsold data total. */
+export interface ExplorationOverview {
+  /** The current system, if anything in it has been scanned. */
+  current: ExploredSystem | null;
+  /** Unmapped bodies in the current system worth mapping, most valuable first. */
+  worthMapping: SystemBody[];
+  /** Unsold data across all systems. */
+  unsold: UnsoldExplorationData;
 }
 
 // ---------------------------------------------------------------------------
@@ -301,6 +394,53 @@ export interface Station {
   planetary: boolean;
 }
 
+/** What a station catalogue entry lists. */
+export type StationItemKind = 'ship' | 'module';
+
+/** A ship or module for sale at a station, from Shipyard.json / Outfitting.json. */
+export interface StationItem {
+  kind: StationItemKind;
+  /** Internal name, lower case (e.g. "krait_mkii", "int_hyperdrive_size5_class5"). */
+  item: string;
+  /** Display name (e.g. "Krait Mk II", "5A Frame Shift Drive"). */
+  name: string;
+  /** Price at this station in credits. */
+  price: number;
+}
+
+/** A station whose shipyard or outfitting has been seen. */
+export interface CatalogueStation {
+  marketId: number;
+  stationName: string;
+  starSystem: string;
+  /** System coordinates, when known. */
+  coordinates: Coordinates | null;
+  /** When the shipyard was last seen, or null if never. */
+  shipyardUpdated: string | null;
+  /** When outfitting was last seen, or null if never. */
+  outfittingUpdated: string | null;
+  /** Ships listed at the last visit. */
+  ships: number;
+  /** Modules listed at the last visit. */
+  modules: number;
+}
+
+/** A station and everything it had for sale at the last visit. */
+export interface StationCatalogue extends CatalogueStation {
+  items: StationItem[];
+}
+
+/** Where a ship or module was seen for sale. */
+export interface ForSaleListing extends StationItem {
+  marketId: number;
+  stationName: string;
+  starSystem: string;
+  /** Distance from the commander's current system in LY, or null if unknown. */
+  distanceLy: number | null;
+  /** When the listing was seen. */
+  seenAt: string;
+}
+
 // ---------------------------------------------------------------------------
 // Navigation Routes
 // ---------------------------------------------------------------------------
@@ -331,6 +471,46 @@ export interface NavRoute {
   destination: string;
 }
 
+/** A waypoint of the live route, with the commander's progress along it. */
+export interface RouteProgressWaypoint extends RouteWaypoint {
+  /** Distance from the previous waypoint in LY (0 for the first). */
+  jumpDistance: number;
+  /** Whether the commander has reached this waypoint. */
+  jumped: boolean;
+  /** When it was reached (ISO 8601), if it was reached by a jump. */
+  jumpedAt: string | null;
+}
+
+/** The plotted route (from NavRoute.json) and how far along it the commander is. */
+export interface NavRouteProgress {
+  /** When the route was plotted (ISO 8601). */
+  plottedAt: string;
+  /** Source system. */
+  source: string;
+  /** Destination system. */
+  destination: string;
+  /** Every waypoint, the source first. */
+  waypoints: RouteProgressWaypoint[];
+  /** Index of the last waypoint reached. */
+  currentIndex: number;
+  /** The waypoint to jump to next, or null once the destination is reached. */
+  next: RouteWaypoint | null;
+  /** Whether the commander has jumped to a system that is not on the route. */
+  offRoute: boolean;
+  /** Total distance in LY. */
+  totalDistance: number;
+  /** Number of jumps in the route. */
+  jumpCount: number;
+  /** Jumps left to the destination. */
+  remainingJumps: number;
+  /** Distance left to the destination in LY, along the route. */
+  remainingDistance: number;
+  /** Average time between jumps on this route, once two jumps have been made. */
+  averageJumpSeconds: number | null;
+  /** Estimated arrival (ISO 8601) at the average jump time, or null while unknown. */
+  eta: string | null;
+}
+
 // ---------------------------------------------------------------------------
 // Location State
 // ---------------------------------------------------------------------------
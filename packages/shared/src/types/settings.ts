@@ -0,0 +1,70 @@
+/**
+ * @vayu/shared — Runtime Settings Types
+ *
+ * Types for the server settings subsystem. Settings start from `.env` (or
+ * built-in defaults) and can be overridden at runtime; overrides are stored
+ * in SQLite and applied without a restart.
+ */
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/** Settings groups, in display order. */
+export type SettingGroup = 'paths' | 'api' | 'whisper' | 'audio' | 'backup' | 'features';
+
+/**
+ * Value kinds:
+ *   - `string` / `path` — free text (`path` is a file or directory)
+ *   - `secret` — API keys; never returned by the API, only whether set
+ *   - `number` — integer within `min`/`max`
+ *   - `boolean`
+ *   - `enum` — one of `options`
+ *   - `list` — any subset of `options`
+ */
+export type SettingType = 'string' | 'path' | 'secret' | 'number' | 'boolean' | 'enum' | 'list';
+
+/** A setting value. */
+export type SettingValue = string | number | boolean | string[];
+
+/** Where the effective value came from. */
+export type SettingSource = 'default' | 'env' | 'stored';
+
+/** A setting's schema entry. */
+export interface SettingDefinition {
+  /** Dotted key, e.g. `paths.journalDir`. */
+  key: string;
+  group: SettingGroup;
+  label: string;
+  description: string;
+  type: SettingType;
+  /** Environment variable that seeds the value. */
+  env?: string;
+  /** Allowed values (`enum`, `list`). */
+  options?: string[];
+  min?: number;
+  max?: number;
+  /** The change only takes effect after a server restart. */
+  restartRequired?: boolean;
+}
+
+/** A setting with its effective value, as returned by `GET /api/settings`. */
+export interface SettingState extends SettingDefinition {
+  /** Effective value; always `''` for secrets. */
+  value: SettingValue;
+  /** Value from `.env` or the built-in default (`''` for secrets). */
+  defaultValue: SettingValue;
+  source: SettingSource;
+  /** Whether a value is set (meaningful for secrets). */
+  configured: boolean;
+}
+
+/** One applied change, as carried by `settings:change` and `server:config`. */
+export interface SettingChange {
+  key: string;
+  /** New value (`''` for secrets). */
+  value: SettingValue;
+  /** Previous value (`''` for secrets). */
+  previous: SettingValue;
+  restartRequired: boolean;
+}
@@ -125,6 +125,170 @@ export interface CargoItem {
   missionId: number | null;
 }
 
+// ---------------------------------------------------------------------------
+// Power Budget
+// ---------------------------------------------------------------------------
+
+/** What a module is for, as far as power priorities are concerned. */
+export type PowerRole = 'essential' | 'defence' | 'weapon' | 'utility' | 'cargo-hatch';
+
+/** A powered module in the power budget. */
+export interface PowerBudgetModule {
+  /** Slot identifier (e.g. "MainEngines", "CargoHatch"). */
+  slot: string;
+  /** Internal item identifier. */
+  item: string;
+  /** Display name. */
+  name: string;
+  /** Role used for the suggested priority. */
+  role: PowerRole;
+  /** Power draw in MW. */
+  power: number;
+  /** Power priority group as shown in game (1-5). */
+  priority: number;
+  /** Suggested power priority group (1-5). */
+  suggestedPriority: number;
+  /** Whether the module is switched on (off modules draw nothing). */
+  on: boolean;
+  /** Whether the module only draws power with hardpoints deployed. */
+  deployedOnly: boolean;
+  /** Whether the module stays powered at full power plant output, hardpoints deployed. */
+  poweredAtFull: boolean;
+  /** Whether the module stays powered at 50% output (heat or damage malfunction). */
+  poweredAtHalf: boolean;
+}
+
+/** Draw of one priority group, and of it plus every group above it. */
+export interface PowerPriorityGroup {
+  /** Priority group (1-5). */
+  priority: number;
+  /** Draw of this group alone, hardpoints deployed, in MW. */
+  draw: number;
+  /** Cumulative draw of groups 1..priority, hardpoints retracted, in MW. */
+  retractedTotal: number;
+  /** Cumulative draw of groups 1..priority, hardpoints deployed, in MW. */
+  deployedTotal: number;
+  /** `deployedTotal` as a percentage of power plant capacity. */
+  deployedPercent: number;
+  /** Whether the group stays powered at full output, hardpoints deployed. */
+  poweredAtFull: boolean;
+  /** Whether the group stays powered at 50% output. */
+  poweredAtHalf: boolean;
+}
+
+/** A module whose power priority could be better assigned. */
+export interface PowerPrioritySuggestion {
+  /** Slot identifier. */
+  slot: string;
+  /** Display name. */
+  name: string;
+  /** Current priority group (1-5). */
+  current: number;
+  /** Suggested priority group (1-5). */
+  suggested: number;
+  /** Why the change is suggested. */
+  reason: string;
+}
+
+/** The ship's power budget, from ModulesInfo.json and the Loadout. */
+export interface PowerBudget {
+  /** When ModulesInfo.json was written. */
+  timestamp: string;
+  /** Internal ship type identifier. */
+  ship: string;
+  /** Power plant display name (null if not fitted or unknown). */
+  powerPlant: string | null;
+  /** Power plant output in MW (engineering included). */
+  capacity: number;
+  /** Total draw with hardpoints retracted, in MW. */
+  retractedDraw: number;
+  /** Total draw with hardpoints deployed, in MW. */
+  deployedDraw: number;
+  /** `retractedDraw` as a percentage of capacity. */
+  retractedPercent: number;
+  /** `deployedDraw` as a percentage of capacity. */
+  deployedPercent: number;
+  /** Priority groups 1-5. */
+  groups: PowerPriorityGroup[];
+  /** Powered modules, by priority then draw (largest first). */
+  modules: PowerBudgetModule[];
+  /** Suggested priority changes. */
+  suggestions: PowerPrioritySuggestion[];
+  /** Problems with the current budget (overdraw, essentials lost at 50%). */
+  warnings: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Jump Range
+// ---------------------------------------------------------------------------
+
+/** FSD supercharge from flying through a neutron star's or white dwarf's jet cone. */
+export type FsdSupercharge = 'neutron' | 'white_dwarf';
+
+/** Stats of a ship's frame shift drive after engineering. */
+export interface FsdStats {
+  /** FSD internal item identifier. */
+  item: string;
+  /** Size (2-7). */
+  class: number;
+  /** Rating (A-E). */
+  rating: string;
+  /** Whether it is a supercruise overcharge drive. */
+  sco: boolean;
+  /** Optimal mass in tons. */
+  optimalMass: number;
+  /** Maximum fuel per jump in tons. */
+  maxFuelPerJump: number;
+  fuelMultiplier: number;
+  fuelPower: number;
+  /** Range added by a Guardian FSD booster (0 without one). */
+  guardianBoost: number;
+  /** `table`: outfitting stats; `calibrated`: optimal mass solved from the game's reported range. */
+  source: 'table' | 'calibrated';
+}
+
+/** Jump ranges of one ship, from its last Loadout. */
+export interface ShipJumpRange {
+  /** Unique ship ID. */
+  shipId: number;
+  /** Internal ship type identifier. */
+  ship: string;
+  /** Player-assigned ship name. */
+  shipName: string;
+  /** Whether this is the ship being flown. */
+  active: boolean;
+  fsd: FsdStats;
+  /** Hull and modules in tons, without fuel or cargo. */
+  unladenMass: number;
+  cargoCapacity: number;
+  /** Main tank capacity in tons. */
+  fuelCapacity: number;
+  /** Longest jump: empty hold and just the fuel for it, in LY. */
+  maxRange: number;
+  /** Empty hold and full tank, in LY. */
+  unladenRange: number;
+  /** Full hold and full tank, in LY. */
+  ladenRange: number;
+  /** With the cargo and fuel on board now (null for stored ships). */
+  currentRange: number | null;
+  /** Fuel burnt by a jump of `currentRange` (of `unladenRange` for stored ships), in tons. */
+  fuelPerJump: number;
+  /** Fuel for a jump of the requested distance at the same mass (null if out of range); set when a distance is asked for. */
+  jumpFuel?: { distance: number; fuel: number | null };
+  /** MaxJumpRange reported in the game's Loadout. */
+  reportedMaxRange: number;
+  /** When the Loadout was written. */
+  loadoutAt: string;
+}
+
+/** Jump ranges of the ship being flown and of other ships, from their last Loadouts. */
+export interface JumpRangeOverview {
+  /** The ship being flown (null before its Loadout, or if its FSD is unknown). */
+  current: ShipJumpRange | null;
+  /** Other ships whose Loadout has been seen, most recently flown first. */
+  stored: ShipJumpRange[];
+}
+
 // ---------------------------------------------------------------------------
 // Ship State
 // ---------------------------------------------------------------------------
@@ -153,7 +317,7 @@ export interface ShipState {
   unladenMass: number;
   /** Maximum cargo capacity in tons. */
   cargoCapacity: number;
-  /** Maximum jump range in LY. */
+  /** Maximum jump range in LY, as reported by the Loadout (see `ShipJumpRange` for modelled ranges). */
   maxJumpRange: number;
   /** Current fuel state. */
   fuel: FuelState;
@@ -0,0 +1,149 @@
+/**
+ * @vayu/shared — Status.json Types
+ *
+ * Decoded forms of the `Flags` and `Flags2` bitfields in Status.json, and
+ * the edge events derived from them. Bit meanings follow the Journal
+ * documentation; `Flags2` bits are only written by Odyssey.
+ */
+
+// ---------------------------------------------------------------------------
+// Decoded flags
+// ---------------------------------------------------------------------------
+
+/** Every bit of Status.json `Flags` and `Flags2`, decoded. */
+export interface StatusFlags {
+  // -- Flags --
+
+  /** Docked on a landing pad. */
+  docked: boolean;
+  /** Landed on a planet surface. */
+  landed: boolean;
+  /** Landing gear down. */
+  landingGearDown: boolean;
+  /** Shields up. */
+  shieldsUp: boolean;
+  /** In supercruise. */
+  supercruise: boolean;
+  /** Flight assist off. */
+  flightAssistOff: boolean;
+  /** Hardpoints deployed. */
+  hardpointsDeployed: boolean;
+  /** In a wing. */
+  inWing: boolean;
+  /** Ship lights on. */
+  lightsOn: boolean;
+  /** Cargo scoop deployed. */
+  cargoScoopDeployed: boolean;
+  /** Silent running. */
+  silentRunning: boolean;
+  /** Scooping fuel from a star. */
+  scoopingFuel: boolean;
+  /** SRV handbrake on. */
+  srvHandbrake: boolean;
+  /** SRV using turret view. */
+  srvTurretView: boolean;
+  /** SRV turret retracted (close to the ship). */
+  srvTurretRetracted: boolean;
+  /** SRV drive assist on. */
+  srvDriveAssist: boolean;
+  /** FSD mass-locked. */
+  fsdMassLocked: boolean;
+  /** FSD charging (supercruise or hyperspace). */
+  fsdCharging: boolean;
+  /** FSD cooling down. */
+  fsdCooldown: boolean;
+  /** Fuel below 25%. */
+  lowFuel: boolean;
+  /** Ship temperature above 100%. */
+  overheating: boolean;
+  /** Latitude and longitude are present. */
+  hasLatLong: boolean;
+  /** In danger (e.g. under attack, or a threat nearby). */
+  isInDanger: boolean;
+  /** Being interdicted. */
+  beingInterdicted: boolean;
+  /** Piloting the main ship. */
+  inMainShip: boolean;
+  /** Piloting a fighter. */
+  inFighter: boolean;
+  /** Driving an SRV. */
+  inSrv: boolean;
+  /** HUD in analysis mode. */
+  hudAnalysisMode: boolean;
+  /** Night vision on. */
+  nightVision: boolean;
+  /** Altitude is measured from the average radius, not the surface. */
+  altitudeFromAverageRadius: boolean;
+  /** FSD jump in progress. */
+  fsdJump: boolean;
+  /** SRV high beam on. */
+  srvHighBeam: boolean;
+
+  // -- Flags2 (Odyssey) --
+
+  /** On foot. */
+  onFoot: boolean;
+  /** In a taxi (or dropship / shuttle). */
+  inTaxi: boolean;
+  /** In someone else's ship (multicrew). */
+  inMulticrew: boolean;
+  /** On foot inside a station. */
+  onFootInStation: boolean;
+  /** On foot on a planet. */
+  onFootOnPlanet: boolean;
+  /** Aiming down sights. */
+  aimDownSight: boolean;
+  /** Suit oxygen low. */
+  lowOxygen: boolean;
+  /** Health low. */
+  lowHealth: boolean;
+  /** Cold environment. */
+  cold: boolean;
+  /** Hot environment. */
+  hot: boolean;
+  /** Very cold environment. */
+  veryCold: boolean;
+  /** Very hot environment. */
+  veryHot: boolean;
+  /** Glide mode (falling towards a surface after disembarking). */
+  glideMode: boolean;
+  /** On foot in a hangar. */
+  onFootInHangar: boolean;
+  /** On foot in a social space. */
+  onFootSocialSpace: boolean;
+  /** On foot outside. */
+  onFootExterior: boolean;
+  /** Atmosphere is breathable. */
+  breathableAtmosphere: boolean;
+  /** Telepresence multicrew. */
+  telepresenceMulticrew: boolean;
+  /** Physical multicrew. */
+  physicalMulticrew: boolean;
+  /** FSD charging for a hyperspace jump (not supercruise). */
+  fsdHyperdriveCharging: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Edge events
+// ---------------------------------------------------------------------------
+
+/** Flags whose transitions are emitted as `status:<flag>` events. */
+export type StatusEdgeFlag =
+  | 'fsdCharging'
+  | 'overheating'
+  | 'lowFuel'
+  | 'isInDanger'
+  | 'hardpointsDeployed'
+  | 'glideMode';
+
+/** A flag turning on or off between two Status.json updates. */
+export interface StatusEdge {
+  /** The flag that changed. */
+  flag: StatusEdgeFlag;
+  /** Its new value. */
+  active: boolean;
+  /** Status.json timestamp of the change. */
+  timestamp: string;
+  /** All flags after the change. */
+  flags: StatusFlags;
+}
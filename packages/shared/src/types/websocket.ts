@@ -5,6 +5,11 @@
  * server and client. All messages use a typed envelope format.
  */
 
+import type { SettingChange } from './settings.js';
+import type { PairedDevice } from './devices.js';
+import type { StatusFlags } from './status.js';
+import type { GalaxyDumpKind } from './galaxy.js';
+
 // ---------------------------------------------------------------------------
 // Event Types
 // ---------------------------------------------------------------------------
@@ -26,6 +31,9 @@ export type WSEventType =
   | 'journal:batch'
   | 'journal:backlog'
 
+  // Commander profiles
+  | 'commander:switched'
+
   // Game state
   | 'state:full'
   | 'state:patch'
@@ -56,6 +64,18 @@ export type WSEventType =
   | 'nav:routeClear'
   | 'nav:fsdTarget'
 
+  // Ship power
+  | 'ship:power'
+  | 'ship:jumpRange'
+
+  // Exploration
+  | 'exploration:system'
+  | 'exploration:unsold'
+
+  // Galaxy database
+  | 'galaxy:import'
+  | 'galaxy:route'
+
   // Status flags (from Status.json polling)
   | 'status:flags'
   | 'status:pips'
@@ -69,6 +89,10 @@ export type WSEventType =
   | 'server:config'
   | 'server:error'
 
+  // Paired devices
+  | 'device:paired'
+  | 'device:revoked'
+
   // Alerts
   | 'alert:fired'
   | 'alert:acknowledged'
@@ -92,10 +116,14 @@ export type WSEventType =
   | 'music:state'
   | 'music:track'
 
+  // Command replies (to client:command)
+  | 'command:result'
+
   // Client requests
   | 'client:subscribe'
   | 'client:unsubscribe'
   | 'client:command'
+  | 'client:resync'
   | 'client:ping';
 
 // ---------------------------------------------------------------------------
@@ -151,10 +179,21 @@ export interface WSConnectionErrorPayload {
   code: string;
 }
 
+/**
+ * A subscription topic: an exact event type, `*` for everything, or a
+ * namespace wildcard such as `state:*`.
+ */
+export type WSTopicPattern = WSEventType | '*' | `${string}:*`;
+
 /** Payload for client:subscribe / client:unsubscribe. */
 export interface WSSubscriptionPayload {
-  /** Event types to subscribe/unsubscribe. */
-  events: WSEventType[];
+  /** Topics or wildcard patterns to subscribe/unsubscribe. */
+  events: WSTopicPattern[];
+  /**
+   * Subscribe only: deliver matching topics at most once per interval (ms),
+   * coalescing to the latest message. Omit or 0 for every update.
+   */
+  throttleMs?: number;
 }
 
 /** Payload for client:command. */
@@ -165,6 +204,33 @@ export interface WSClientCommandPayload {
   args: Record<string, unknown>;
 }
 
+/** Error codes returned in a failed command:result. */
+export type WSCommandErrorCode =
+  | 'UNKNOWN_COMMAND'
+  | 'INVALID_ARGS'
+  | 'NOT_FOUND'
+  | 'TIMEOUT'
+  | 'FORBIDDEN'
+  | 'INTERNAL';
+
+/**
+ * Payload for command:result (reply to client:command). The envelope
+ * carries the request's `correlationId`.
+ */
+export interface WSCommandResultPayload<T = unknown> {
+  /** Command name from the request. */
+  command: string;
+  /** Whether the command succeeded. */
+  ok: boolean;
+  /** Command result (when ok). */
+  data?: T;
+  /** Failure details (when not ok). */
+  error?: {
+    code: WSCommandErrorCode;
+    message: string;
+  };
+}
+
 /** Payload for server:info. */
 export interface WSServerInfoPayload {
   /** Server version. */
@@ -181,15 +247,67 @@ export interface WSServerInfoPayload {
   gameRunning: boolean;
 }
 
+/** Payload for server:config. */
+export interface WSServerConfigPayload {
+  /** Settings changed at runtime (secret values blanked). */
+  changes: SettingChange[];
+}
+
+/** Payload for device:paired. */
+export interface WSDevicePairedPayload {
+  device: PairedDevice;
+}
+
+/** Payload for device:revoked. */
+export interface WSDeviceRevokedPayload {
+  id: string;
+}
+
+/** A single JSON Patch operation (RFC 6902). */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  /** JSON Pointer (RFC 6901) into the target document. */
+  path: string;
+  value?: unknown;
+  from?: string;
+}
+
 /** Payload for state:patch (JSON Patch operations). */
 export interface WSStatePatchPayload {
-  /** JSON Patch operations (RFC 6902). */
-  operations: Array<{
-    op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
-    path: string;
-    value?: unknown;
-    from?: string;
-  }>;
+  /** GameState slice the operations apply to (e.g. 'ship'). */
+  section: string;
+  /** State sequence number; each patch is exactly one higher than the last. */
+  sequence: number;
+  /** JSON Patch operations (RFC 6902), with paths rooted at the full GameState. */
+  operations: JsonPatchOperation[];
+}
+
+/** Payload for state:full (sent in reply to client:resync). */
+export interface WSStateFullPayload {
+  /** The complete GameState. */
+  state: Record<string, unknown>;
+  /** State sequence the snapshot corresponds to; patches continue from here. */
+  sequence: number;
+  /** Server run ID; sequences are only comparable within one epoch. */
+  epoch: string;
+}
+
+/** Payload for client:resync. */
+export interface WSResyncPayload {
+  /** Last state sequence the client applied, or null for a fresh client. */
+  sequence: number | null;
+  /** Epoch of the state the client holds, or null for a fresh client. */
+  epoch: string | null;
+}
+
+/** Payload for commander:switched. */
+export interface WSCommanderSwitchedPayload {
+  /** Frontier ID of the commander now active. */
+  fid: string;
+  /** Commander name. */
+  name: string;
+  /** FID of the previously active commander (null if none was known). */
+  previousFid: string | null;
 }
 
 /** Payload for journal:batch. */
@@ -200,12 +318,60 @@ export interface WSJournalBatchPayload {
   isBacklog: boolean;
 }
 
+/** Payload for journal:backlog (historical journal import progress). */
+export interface WSJournalBacklogPayload {
+  /** Import state. */
+  status: 'running' | 'complete' | 'error';
+  /** Number of journal files selected for this run. */
+  filesTotal: number;
+  /** Number of journal files processed so far. */
+  filesDone: number;
+  /** Basename of the file being processed (null when idle). */
+  currentFile: string | null;
+  /** Events parsed from journal files so far. */
+  eventsRead: number;
+  /** Events that were new to the store. */
+  eventsStored: number;
+  /** ISO timestamp the run started. */
+  startedAt: string;
+  /** ISO timestamp the run finished (null while running). */
+  finishedAt: string | null;
+  /** Error message when status is 'error'. */
+  error?: string;
+}
+
+/** Payload for galaxy:import (galaxy dump import progress). */
+export interface WSGalaxyImportPayload {
+  /** Import state. */
+  status: 'running' | 'complete' | 'error';
+  /** Absolute path of the dump file. */
+  source: string;
+  kind: GalaxyDumpKind;
+  /** Lines skipped because an earlier run already imported them. */
+  resumedFrom: number;
+  /** Lines of the decompressed dump read so far, including skipped ones. */
+  linesRead: number;
+  /** Records stored by this run. */
+  recordsStored: number;
+  /** Bytes of the (compressed) file read so far, and its size. */
+  bytesRead: number;
+  bytesTotal: number;
+  /** ISO timestamp the run started. */
+  startedAt: string;
+  /** ISO timestamp the run finished (null while running). */
+  finishedAt: string | null;
+  /** Error message when status is 'error'. */
+  error?: string;
+}
+
 /** Payload for status:flags (from Status.json). */
 export interface WSStatusFlagsPayload {
   /** Bitfield flags from Status.json. */
   flags: number;
   /** Flags2 bitfield (Odyssey). */
   flags2: number;
+  /** Both bitfields decoded. */
+  decoded: StatusFlags;
   /** System pips [Sys, Eng, Wep]. */
   pips: [number, number, number];
   /** Active fire group index. */
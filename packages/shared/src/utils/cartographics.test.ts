@@ -0,0 +1,96 @@
+/**
+ * AGNI — Unit tests for cartographics.ts
+ *
+ * Tests the scan and mapping value estimates against reference values of
+ * the community formula, and the "worth mapping" ranking.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { estimateBodyValue, bodyDataValue, rankWorthMapping, type CartographicBody } from './cartographics.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function planet(overrides: Partial<CartographicBody> = {}): CartographicBody {
+  return {
+    starType: null,
+    stellarMass: null,
+    planetClass: 'Earthlike body',
+    terraformState: null,
+    massEM: 1,
+    wasDiscovered: true,
+    wasMapped: true,
+    mapped: false,
+    probesUsed: null,
+    efficiencyTarget: null,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// estimateBodyValue
+// ---------------------------------------------------------------------------
+
+describe('estimateBodyValue()', () => {
+  it('should value an already discovered and mapped Earth-like world', () => {
+    expect(estimateBodyValue(planet())).toEqual({ fss: 283629, dss: 1536321 });
+  });
+
+  it('should apply the first discovery and first mapping multipliers', () => {
+    expect(estimateBodyValue(planet({ wasDiscovered: false, wasMapped: false }))).toEqual({ fss: 737434, dss: 4433370 });
+    expect(estimateBodyValue(planet({ wasMapped: false })).dss).toBe(3731232);
+  });
+
+  it('should add the terraformable bonus only where it applies', () => {
+    const hmc = planet({ planetClass: 'High metal content body', massEM: 0.3 });
+    const icy = planet({ planetClass: 'Icy body', massEM: 0.01 });
+
+    expect(estimateBodyValue({ ...hmc, terraformState: 'Terraformable' }).fss).toBeGreaterThan(estimateBodyValue(hmc).fss * 10);
+    expect(estimateBodyValue(icy).fss).toBe(500);
+  });
+
+  it('should drop the efficiency bonus when mapped with too many probes', () => {
+    const efficient = estimateBodyValue(planet({ mapped: true, probesUsed: 5, efficiencyTarget: 6 }));
+    const wasteful = estimateBodyValue(planet({ mapped: true, probesUsed: 8, efficiencyTarget: 6 }));
+
+    expect(efficient.dss).toBe(1536321);
+    expect(wasteful.dss).toBe(1229057);
+  });
+
+  it('should value stars by type and mass without a mapping value', () => {
+    expect(estimateBodyValue(planet({ starType: 'G', stellarMass: 1, planetClass: null }))).toEqual({ fss: 1218, dss: null });
+    expect(estimateBodyValue(planet({ starType: 'N', stellarMass: 1.2, planetClass: null })).fss).toBe(23038);
+    expect(estimateBodyValue(planet({ starType: 'DA', stellarMass: 0.5, planetClass: null, wasDiscovered: false })).fss).toBe(36824);
+  });
+
+  it('should value belt clusters at nothing', () => {
+    expect(estimateBodyValue(planet({ planetClass: null }))).toEqual({ fss: 0, dss: null });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// bodyDataValue / rankWorthMapping
+// ---------------------------------------------------------------------------
+
+describe('bodyDataValue()', () => {
+  it('should use the mapped value once mapped', () => {
+    expect(bodyDataValue({ mapped: false, fssValue: 100, dssValue: 900 })).toBe(100);
+    expect(bodyDataValue({ mapped: true, fssValue: 100, dssValue: 900 })).toBe(900);
+  });
+});
+
+describe('rankWorthMapping()', () => {
+  it('should rank unmapped bodies over the threshold, most valuable first', () => {
+    const bodies = [
+      { name: 'gas giant', mapped: false, dssValue: 120000 },
+      { name: 'water world', mapped: false, dssValue: 700000 },
+      { name: 'star', mapped: false, dssValue: null },
+      { name: 'mapped ELW', mapped: true, dssValue: 1200000 },
+      { name: 'ELW', mapped: false, dssValue: 1200000 },
+    ];
+
+    expect(rankWorthMapping(bodies).map((b) => b.name)).toEqual(['ELW', 'water world']);
+    expect(rankWorthMapping(bodies, 100000)).toHaveLength(3);
+  });
+});
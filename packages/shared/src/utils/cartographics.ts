@@ -0,0 +1,149 @@
+/**
+ * @vayu/shared — Cartographic Value Estimates
+ *
+ * Estimates what Universal Cartographics pays for a body's scan and for
+ * mapping it, using the community formula (MattG's "Exploration value
+ * formulae", current since the 3.3 FSS update and including the Odyssey
+ * mapping bonus): a base value per star type or planet class, scaled by
+ * mass, then multiplied for mapping, first mapping, the efficiency bonus
+ * and first discovery. Estimates land within a few percent of what the game
+ * pays; the sale itself reports the exact figure.
+ */
+
+import type { SystemBody } from '../types/navigation.js';
+
+/** The body fields the estimate depends on. */
+export type CartographicBody = Pick<
+  SystemBody,
+  | 'starType'
+  | 'stellarMass'
+  | 'planetClass'
+  | 'terraformState'
+  | 'massEM'
+  | 'wasDiscovered'
+  | 'wasMapped'
+  | 'mapped'
+  | 'probesUsed'
+  | 'efficiencyTarget'
+>;
+
+/** Estimated scan (FSS) and mapping (DSS) values in credits. */
+export interface CartographicValue {
+  /** Value of the scan alone. */
+  fss: number;
+  /** Value once mapped, assuming the efficiency bonus until the body is mapped (null for stars and belts). */
+  dss: number | null;
+}
+
+/** Mapped value above which an unmapped body is worth the probes. */
+export const WORTH_MAPPING_VALUE = 500_000;
+
+// ---------------------------------------------------------------------------
+// Formula constants
+// ---------------------------------------------------------------------------
+
+/** Mass scaling factor for planets. */
+const PLANET_MASS_FACTOR = 0.56591828;
+
+/** Multiplier for first discovery (applies to stars and planets). */
+const FIRST_DISCOVERY = 2.6;
+
+/** Mapping multipliers: mapped after someone else, first mapped, and first discovered and mapped. */
+const MAPPED = 3.3333333333;
+const FIRST_MAPPED = 8.0956;
+const FIRST_DISCOVERED_AND_MAPPED = 3.699622554;
+
+/** Odyssey mapping bonus: 30% of the mapped value, at least 555 Cr. */
+const ODYSSEY_MAPPING_BONUS = 0.3;
+const ODYSSEY_MAPPING_MINIMUM = 555;
+
+const EFFICIENCY_BONUS = 1.25;
+
+/** No planet scan is worth less than this before the first-discovery multiplier. */
+const PLANET_MINIMUM = 500;
+
+// ---------------------------------------------------------------------------
+// Base values
+// ---------------------------------------------------------------------------
+
+function starBaseValue(starType: string): number {
+  if (starType === 'SupermassiveBlackHole') return 33.5678;
+  if (starType === 'N' || starType === 'H') return 22628;
+  if (starType.startsWith('D')) return 14057;
+  return 1200;
+}
+
+/** Base value of a planet class, with the terraformable bonus where it applies. */
+function planetBaseValue(planetClass: string, terraformable: boolean): number {
+  switch (planetClass) {
+    case 'Metal rich body': return 21790;
+    case 'Ammonia world': return 96932;
+    case 'Sudarsky class I gas giant': return 1656;
+    case 'High metal content body': return 9654 + (terraformable ? 100677 : 0);
+    case 'Sudarsky class II gas giant': return 9654;
+    // Earth-like worlds always carry the terraformable bonus
+    case 'Earthlike body': return 64831 + 116295;
+    case 'Water world': return 64831 + (terraformable ? 116295 : 0);
+    default: return 300 + (terraformable ? 93328 : 0);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Estimates
+// ---------------------------------------------------------------------------
+
+function planetValue(body: CartographicBody, mapped: boolean, efficient: boolean): number {
+  const k = planetBaseValue(body.planetClass!, !!body.terraformState);
+  const firstDiscovered = !body.wasDiscovered;
+
+  let multiplier = 1;
+  if (mapped) {
+    if (body.wasMapped) multiplier = MAPPED;
+    else multiplier = firstDiscovered ? FIRST_DISCOVERED_AND_MAPPED : FIRST_MAPPED;
+  }
+
+  let value = (k + k * PLANET_MASS_FACTOR * Math.pow(body.massEM ?? 1, 0.2)) * multiplier;
+  if (mapped) {
+    value += Math.max(value * ODYSSEY_MAPPING_BONUS, ODYSSEY_MAPPING_MINIMUM);
+    if (efficient) value *= EFFICIENCY_BONUS;
+  }
+  value = Math.max(PLANET_MINIMUM, value);
+  if (firstDiscovered) value *= FIRST_DISCOVERY;
+  return Math.round(value);
+}
+
+/**
+ * Estimate a body's scan and mapping values. Stars are valued by type and
+ * stellar mass and cannot be mapped; bodies that are neither stars nor
+ * planets (belt clusters) are worth nothing. The efficiency bonus counts
+ * when the body was mapped with no more probes than the target.
+ */
+export function estimateBodyValue(body: CartographicBody): CartographicValue {
+  if (body.starType) {
+    const k = starBaseValue(body.starType);
+    const value = k + ((body.stellarMass ?? 1) * k) / 66.25;
+    return { fss: Math.round(body.wasDiscovered ? value : value * FIRST_DISCOVERY), dss: null };
+  }
+  if (!body.planetClass) return { fss: 0, dss: null };
+
+  const efficient = !body.mapped || (body.probesUsed ?? Infinity) <= (body.efficiencyTarget ?? 0);
+  return { fss: planetValue(body, false, false), dss: planetValue(body, true, efficient) };
+}
+
+/** What a body's data sells for now: the mapped value once mapped, otherwise the scan value. */
+export function bodyDataValue(body: Pick<SystemBody, 'mapped' | 'fssValue' | 'dssValue'>): number {
+  return body.mapped && body.dssValue !== null ? body.dssValue : body.fssValue;
+}
+
+/**
+ * Unmapped bodies whose mapped value reaches `minValue`, most valuable
+ * first.
+ */
+export function rankWorthMapping<T extends Pick<SystemBody, 'mapped' | 'dssValue'>>(
+  bodies: T[],
+  minValue = WORTH_MAPPING_VALUE,
+): T[] {
+  return bodies
+    .filter((b) => !b.mapped && b.dssValue !== null && b.dssValue >= minValue)
+    .sort((a, b) => b.dssValue! - a.dssValue!);
+}
@@ -0,0 +1,108 @@
+/**
+ * AGNI — Unit tests for fsd.ts
+ *
+ * Tests the FSD model built from Loadout modules (outfitting tables,
+ * engineering, Guardian boosters, SCO calibration) and the jump range and
+ * fuel per jump it gives at different masses and fuel levels, with and
+ * without a neutron or white dwarf supercharge.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildFsdModel, fsdJumpRange, fsdJumpFuel, type FsdLoadout } from './fsd.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function loadout(overrides: Partial<FsdLoadout> = {}): FsdLoadout {
+  return {
+    fsdItem: 'int_hyperdrive_size5_class5',
+    modifiers: [],
+    boosterItem: null,
+    unladenMass: 400,
+    reportedMaxRange: 30.4,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// buildFsdModel
+// ---------------------------------------------------------------------------
+
+describe('buildFsdModel()', () => {
+  it('should look up standard drives by size and rating', () => {
+    expect(buildFsdModel(loadout())).toEqual({
+      class: 5, rating: 'A', sco: false, optimalMass: 1050, maxFuelPerJump: 5,
+      fuelMultiplier: 0.012, fuelPower: 2.45, guardianBoost: 0, source: 'table',
+    });
+    expect(buildFsdModel(loadout({ fsdItem: 'Int_Hyperdrive_Size2_Class1' }))).toMatchObject({
+      class: 2, rating: 'E', optimalMass: 48, maxFuelPerJump: 0.6, fuelMultiplier: 0.011, fuelPower: 2,
+    });
+  });
+
+  it('should apply engineering and a Guardian booster', () => {
+    const model = buildFsdModel(loadout({
+      modifiers: [{ label: 'FSDOptimalMass', value: 1627.5 }, { label: 'Mass', value: 26 }],
+      boosterItem: 'int_guardianfsdbooster_size5',
+    }));
+    expect(model).toMatchObject({ optimalMass: 1627.5, maxFuelPerJump: 5, guardianBoost: 10.5 });
+  });
+
+  it('should solve the optimal mass of SCO drives from the reported range', () => {
+    const model = buildFsdModel(loadout({ fsdItem: 'int_hyperdrive_overcharge_size5_class5', reportedMaxRange: 45 }))!;
+    expect(model.source).toBe('calibrated');
+    expect(model.sco).toBe(true);
+    expect(fsdJumpRange(model, 405, 32)).toBeCloseTo(45, 6);
+  });
+
+  it('should reject items that are not frame shift drives', () => {
+    expect(buildFsdModel(loadout({ fsdItem: 'int_shieldgenerator_size5_class5' }))).toBeNull();
+    expect(buildFsdModel(loadout({ fsdItem: 'int_hyperdrive_size9_class5' }))).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fsdJumpRange / fsdJumpFuel
+// ---------------------------------------------------------------------------
+
+describe('fsdJumpRange()', () => {
+  const model = buildFsdModel(loadout())!;
+
+  it('should fall with mass and with less fuel than a full jump needs', () => {
+    expect(fsdJumpRange(model, 405, 32)).toBeCloseTo(30.41, 2);
+    expect(fsdJumpRange(model, 432, 32)).toBeCloseTo(28.51, 2);
+    expect(fsdJumpRange(model, 432, 2)).toBeCloseTo(19.61, 2);
+  });
+
+  it('should add the whole booster range to the longest jump', () => {
+    const boosted = buildFsdModel(loadout({ boosterItem: 'int_guardianfsdbooster_size5' }))!;
+    expect(fsdJumpRange(boosted, 405, 32)).toBeCloseTo(fsdJumpRange(model, 405, 32) + 10.5, 6);
+  });
+
+  it('should multiply the range when supercharged', () => {
+    expect(fsdJumpRange(model, 405, 32, 'neutron')).toBeCloseTo(fsdJumpRange(model, 405, 32) * 4, 6);
+    expect(fsdJumpRange(model, 405, 32, 'white_dwarf')).toBeCloseTo(fsdJumpRange(model, 405, 32) * 1.5, 6);
+  });
+});
+
+describe('fsdJumpFuel()', () => {
+  const model = buildFsdModel(loadout({ boosterItem: 'int_guardianfsdbooster_size3' }))!;
+
+  it('should burn the maximum fuel on the longest jump and less on shorter ones', () => {
+    const longest = fsdJumpRange(model, 432, 32);
+    expect(fsdJumpFuel(model, 432, longest)).toBeCloseTo(5, 6);
+    expect(fsdJumpFuel(model, 432, longest / 2)).toBeCloseTo(5 / Math.pow(2, 2.45), 6);
+    expect(fsdJumpFuel(model, 432, 0)).toBe(0);
+  });
+
+  it('should return null beyond the range at that mass', () => {
+    expect(fsdJumpFuel(model, 432, fsdJumpRange(model, 432, 32) + 0.1)).toBeNull();
+  });
+
+  it('should burn no more for a supercharged jump than for the same jump at a quarter of the distance', () => {
+    const longest = fsdJumpRange(model, 432, 32);
+    expect(fsdJumpFuel(model, 432, longest * 4, 'neutron')).toBeCloseTo(5, 6);
+    expect(fsdJumpFuel(model, 432, longest * 2, 'neutron')).toBeCloseTo(fsdJumpFuel(model, 432, longest / 2)!, 6);
+    expect(fsdJumpFuel(model, 432, longest * 4 + 0.1, 'neutron')).toBeNull();
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * @vayu/shared — Frame Shift Drive Model
+ *
+ * Jump range and fuel per jump from a ship's fitted FSD, its engineering and
+ * any Guardian FSD booster. Drive stats come from the outfitting tables for
+ * standard drives (`int_hyperdrive_sizeN_classM`, M = 1 for E ... 5 for A),
+ * with engineered `FSDOptimalMass` / `MaxFuelPerJump` modifiers applied.
+ *
+ * Supercruise overcharge (SCO) drives are not tabulated: their optimal mass
+ * is solved from the MaxJumpRange the game reports in the Loadout, using the
+ * fuel constants of the standard drive of the same size and rating.
+ *
+ * The booster adds its range in full on the longest jump; shorter jumps
+ * scale by the same factor, so a jump of the longest range still burns the
+ * drive's maximum fuel. A supercharge multiplies the boosted range and
+ * costs no extra fuel.
+ */
+
+import type { FsdSupercharge } from '../types/ship.js';
+import { maxJumpRange } from './math.js';
+
+// ---------------------------------------------------------------------------
+// Outfitting tables
+// ---------------------------------------------------------------------------
+
+/** Rating letters by the `_classM` suffix - 1. */
+const RATINGS = ['E', 'D', 'C', 'B', 'A'];
+
+/** Optimal mass (t) of standard drives by size, then rating E..A. */
+const OPTIMAL_MASS: Record<number, number[]> = {
+  2: [48, 54, 60, 75, 90],
+  3: [80, 90, 100, 125, 150],
+  4: [280, 315, 350, 438, 525],
+  5: [560, 630, 700, 875, 1050],
+  6: [960, 1080, 1200, 1500, 1800],
+  7: [1440, 1620, 1800, 2250, 2700],
+};
+
+/** Maximum fuel per jump (t) of standard drives by size, then rating E..A. */
+const MAX_FUEL_PER_JUMP: Record<number, number[]> = {
+  2: [0.6, 0.6, 0.6, 0.8, 0.9],
+  3: [1.2, 1.2, 1.2, 1.5, 1.8],
+  4: [2, 2, 2, 2.5, 3],
+  5: [3.3, 3.3, 3.3, 4.1, 5],
+  6: [5.3, 5.3, 5.3, 6.6, 8],
+  7: [8.5, 8.5, 8.5, 10.6, 12.8],
+};
+
+/** Fuel multiplier by rating E..A. */
+const FUEL_MULTIPLIER = [0.011, 0.01, 0.008, 0.01, 0.012];
+
+/** Fuel power by size. */
+const FUEL_POWER: Record<number, number> = { 2: 2, 3: 2.15, 4: 2.3, 5: 2.45, 6: 2.6, 7: 2.75 };
+
+/** Range added by a Guardian FSD booster (ly), by size. */
+const GUARDIAN_BOOST: Record<number, number> = { 1: 4, 2: 6, 3: 7.75, 4: 9.25, 5: 10.5 };
+
+/** Range multiplier of a supercharged jump. */
+export const SUPERCHARGE_MULTIPLIER: Record<FsdSupercharge, number> = { neutron: 4, white_dwarf: 1.5 };
+
+const FSD_ITEM = /^int_hyperdrive(_overcharge)?_size(\d)_class(\d)$/i;
+const BOOSTER_ITEM = /^int_guardianfsdbooster_size(\d)$/i;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What the model needs from a Loadout. */
+export interface FsdLoadout {
+  /** Item of the module in the FrameShiftDrive slot. */
+  fsdItem: string;
+  /** Engineering modifiers of the FSD. */
+  modifiers: Array<{ label: string; value: number }>;
+  /** Item of a fitted Guardian FSD booster, if any. */
+  boosterItem: string | null;
+  /** Loadout UnladenMass: hull and modules, no fuel or cargo. */
+  unladenMass: number;
+  /** Loadout MaxJumpRange, used to solve the optimal mass of SCO drives. */
+  reportedMaxRange: number;
+}
+
+/** The drive's stats after engineering. */
+export interface FsdModel {
+  /** Size (2-7). */
+  class: number;
+  /** Rating letter (A-E). */
+  rating: string;
+  /** Supercruise overcharge drive. */
+  sco: boolean;
+  optimalMass: number;
+  maxFuelPerJump: number;
+  fuelMultiplier: number;
+  fuelPower: number;
+  /** Range added by a Guardian FSD booster on the longest jump (0 without one). */
+  guardianBoost: number;
+  /** `table` for tabulated drives, `calibrated` when the optimal mass was solved from the Loadout. */
+  source: 'table' | 'calibrated';
+}
+
+// ---------------------------------------------------------------------------
+// Model
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the FSD model for a loadout.
+ *
+ * @returns The model, or null if the item is not a frame shift drive of a known size and rating.
+ */
+export function buildFsdModel(loadout: FsdLoadout): FsdModel | null {
+  const match = FSD_ITEM.exec(loadout.fsdItem);
+  if (!match) return null;
+  const size = Number(match[2]);
+  const ratingIndex = Number(match[3]) - 1;
+  if (!OPTIMAL_MASS[size] || !RATINGS[ratingIndex]) return null;
+
+  const modifier = (label: string) => loadout.modifiers.find((m) => m.label === label)?.value;
+  const booster = loadout.boosterItem ? BOOSTER_ITEM.exec(loadout.boosterItem) : null;
+
+  const model: FsdModel = {
+    class: size,
+    rating: RATINGS[ratingIndex],
+    sco: Boolean(match[1]),
+    optimalMass: modifier('FSDOptimalMass') ?? OPTIMAL_MASS[size][ratingIndex],
+    maxFuelPerJump: modifier('MaxFuelPerJump') ?? MAX_FUEL_PER_JUMP[size][ratingIndex],
+    fuelMultiplier: FUEL_MULTIPLIER[ratingIndex],
+    fuelPower: FUEL_POWER[size],
+    guardianBoost: booster ? GUARDIAN_BOOST[Number(booster[1])] ?? 0 : 0,
+    source: 'table',
+  };
+
+  // The longest jump: empty hold, just the fuel for it
+  if (model.sco && loadout.reportedMaxRange > model.guardianBoost) {
+    const mass = loadout.unladenMass + model.maxFuelPerJump;
+    const perOptimalTon = maxJumpRange(model.maxFuelPerJump, model.fuelPower, model.fuelMultiplier, mass, 0, 1);
+    if (perOptimalTon > 0) {
+      model.optimalMass = (loadout.reportedMaxRange - model.guardianBoost) / perOptimalTon;
+      model.source = 'calibrated';
+    }
+  }
+
+  return model;
+}
+
+/** How much the booster stretches jumps at this mass: the longest jump gains `guardianBoost` ly. */
+function boostFactor(model: FsdModel, mass: number): number {
+  if (model.guardianBoost <= 0) return 1;
+  const longest = maxJumpRange(model.maxFuelPerJump, model.fuelPower, model.fuelMultiplier, mass, 0, model.optimalMass);
+  return longest > 0 ? (longest + model.guardianBoost) / longest : 1;
+}
+
+/**
+ * Range of one jump.
+ *
+ * @param mass - Total mass in tons: unladen, fuel and cargo.
+ * @param fuel - Fuel in the tank; a jump burns at most the drive's maximum.
+ * @param supercharge - The FSD is supercharged for this jump.
+ * @returns Range in light years.
+ */
+export function fsdJumpRange(model: FsdModel, mass: number, fuel: number, supercharge?: FsdSupercharge | null): number {
+  const burn = Math.min(fuel, model.maxFuelPerJump);
+  const range = maxJumpRange(burn, model.fuelPower, model.fuelMultiplier, mass, 0, model.optimalMass);
+  return range * boostFactor(model, mass) * (supercharge ? SUPERCHARGE_MULTIPLIER[supercharge] : 1);
+}
+
+/**
+ * Fuel burnt by a jump.
+ *
+ * @param mass     - Total mass in tons: unladen, fuel and cargo.
+ * @param distance - Jump distance in light years.
+ * @param supercharge - The FSD is supercharged for this jump.
+ * @returns Fuel in tons, or null if the jump is beyond the drive's range at this mass.
+ */
+export function fsdJumpFuel(
+  model: FsdModel, mass: number, distance: number, supercharge?: FsdSupercharge | null,
+): number | null {
+  if (distance <= 0) return 0;
+  const multiplier = supercharge ? SUPERCHARGE_MULTIPLIER[supercharge] : 1;
+  const unboosted = distance / multiplier / boostFactor(model, mass);
+  const fuel = model.fuelMultiplier * Math.pow((unboosted * mass) / model.optimalMass, model.fuelPower);
+  return fuel <= model.maxFuelPerJump + 1e-9 ? fuel : null;
+}
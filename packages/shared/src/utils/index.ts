@@ -50,3 +50,62 @@ export {
   lerp,
   roundTo,
 } from './math.js';
+
+// JSON Patch (RFC 6902) diff / apply for state sync
+export {
+  diffJson,
+  applyPatch,
+  escapePointerToken,
+  parsePointer,
+} from './json-patch.js';
+
+// JSON Schema validation for API requests
+export {
+  validateSchema,
+  describeSchemaErrors,
+} from './schema.js';
+export type {
+  SchemaValidationResult,
+  ValidateOptions,
+} from './schema.js';
+
+// Journal event checks against the generated schemas
+export {
+  checkJournalEvent,
+  isJournalEventName,
+} from './journal-validation.js';
+export type { JournalEventCheck } from './journal-validation.js';
+
+// Status.json Flags / Flags2 decoding
+export {
+  STATUS_FLAG_BITS,
+  STATUS_FLAGS2_BITS,
+  STATUS_EDGE_FLAGS,
+  decodeStatusFlags,
+  changedStatusFlags,
+} from './status-flags.js';
+
+// Cartographic value estimates for scanned bodies
+export {
+  WORTH_MAPPING_VALUE,
+  estimateBodyValue,
+  bodyDataValue,
+  rankWorthMapping,
+} from './cartographics.js';
+export type { CartographicBody, CartographicValue } from './cartographics.js';
+
+// FSD jump range and fuel per jump
+export {
+  SUPERCHARGE_MULTIPLIER,
+  buildFsdModel,
+  fsdJumpRange,
+  fsdJumpFuel,
+} from './fsd.js';
+export type { FsdLoadout, FsdModel } from './fsd.js';
+
+// Star classes: EDSM sub types, fuel scooping and FSD supercharges
+export {
+  starClassFromSubType,
+  isScoopableStar,
+  starSupercharge,
+} from './stars.js';
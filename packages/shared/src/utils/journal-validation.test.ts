@@ -0,0 +1,87 @@
+/**
+ * AGNI — Unit tests for journal-validation.ts
+ *
+ * Tests events that match their generated schema, wrongly typed and
+ * missing fields, fields the types do not model (including inside arrays
+ * and shared sub-types), and event types that are not modelled at all.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkJournalEvent, isJournalEventName } from './journal-validation.js';
+import { JOURNAL_EVENT_SCHEMAS } from '../constants/journal-schemas.js';
+
+const fsdJump = {
+  timestamp: '2024-08-15T18:05:12Z',
+  event: 'FSDJump',
+  StarSystem: 'Shinrarta Dezhra',
+  SystemAddress: 3932277478106,
+  StarPos: [55.71875, 17.59375, 27.15625],
+  SystemAllegiance: 'PilotsFederation',
+  SystemEconomy: '$economy_HighTech;',
+  SystemSecondEconomy: '$economy_Industrial;',
+  SystemGovernment: '$government_Democracy;',
+  SystemSecurity: '$SYSTEM_SECURITY_high;',
+  Population: 85206935,
+  Body: 'Shinrarta Dezhra',
+  BodyID: 1,
+  BodyType: 'Star',
+  JumpDist: 12.4,
+  FuelUsed: 1.2,
+  FuelLevel: 30.8,
+};
+
+describe('checkJournalEvent', () => {
+  it('should pass an event that matches its type', () => {
+    const withPowers = { ...fsdJump, Powers: ['Zachary Hudson'] };
+    expect(checkJournalEvent(withPowers))
+      .toEqual({ known: true, errors: {}, unmodelled: [] });
+    expect(checkJournalEvent({ timestamp: '2024-08-15T18:06:00Z', event: 'HeatWarning' }).errors).toEqual({});
+  });
+
+  it('should report missing and wrongly typed fields', () => {
+    const { StarSystem: _, ...withoutSystem } = fsdJump;
+    const result = checkJournalEvent({ ...withoutSystem, StarPos: [1, 2], JumpDist: '12.4' } as never);
+
+    expect(result.errors).toEqual({
+      StarSystem: 'is required',
+      StarPos: 'must have at least 3 items',
+      JumpDist: 'must be a number',
+    });
+  });
+
+  it('should list unmodelled fields once, without array indexes', () => {
+    const faction = { Name: 'Pilots Federation Local Branch', FactionState: 'None', Government: 'Democracy',
+      Influence: 0, Allegiance: 'PilotsFederation', Happiness: '', Unheard: 1 };
+    const result = checkJournalEvent({
+      ...fsdJump,
+      SystemFaction: { Name: 'Pilots Federation Local Branch', Colour: 'blue' },
+      Factions: [faction, faction],
+      Brand_New: true,
+    } as never);
+
+    expect(result.errors).toEqual({});
+    expect(result.unmodelled).toEqual(['SystemFaction.Colour', 'Factions[].Unheard', 'Brand_New']);
+  });
+
+  it('should not report keys of record fields as unmodelled', () => {
+    const result = checkJournalEvent({
+      timestamp: '2024-08-15T18:00:00Z',
+      event: 'Statistics',
+      ...Object.fromEntries(
+        (JOURNAL_EVENT_SCHEMAS.Statistics.required ?? [])
+          .filter((key) => key !== 'timestamp' && key !== 'event')
+          .map((key) => [key, { Anything_Goes: 1 }]),
+      ),
+    });
+
+    expect(result).toEqual({ known: true, errors: {}, unmodelled: [] });
+  });
+
+  it('should flag event types VAYU does not model', () => {
+    expect(checkJournalEvent({ timestamp: '2024-08-15T18:00:00Z', event: 'ColonisationConstructionDepot' }))
+      .toEqual({ known: false, errors: {}, unmodelled: [] });
+    expect(isJournalEventName('Interdicted')).toBe(true);
+    expect(isJournalEventName('InterdictedEvent')).toBe(false);
+    expect(isJournalEventName('toString')).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * @vayu/shared — Journal Event Validation
+ *
+ * Checks parsed journal events against the schemas generated from
+ * `JournalEventMap` (`constants/journal-schemas.ts`). The journal is
+ * written by the game, not by us, so nothing here rejects an event — the
+ * result says how far the event strays from what VAYU models:
+ *
+ *   - `known`      — the event type is in `JournalEventMap` at all
+ *   - `errors`     — modelled fields that are missing or of the wrong type
+ *   - `unmodelled` — fields the game wrote that the types do not declare
+ *
+ * Paths collapse array indexes (`Factions[].SquadronFaction`) so the same
+ * field reported for every element is one entry.
+ */
+
+import type { JsonSchema } from '../types/api.js';
+import type { JournalEvent, JournalEventName } from '../types/journal-events.js';
+import { JOURNAL_EVENT_SCHEMAS } from '../constants/journal-schemas.js';
+import { validateSchema } from './schema.js';
+
+/** Outcome of `checkJournalEvent()`. */
+export interface JournalEventCheck {
+  known: boolean;
+  /** Problem per field path. Empty for unknown events. */
+  errors: Record<string, string>;
+  /** Paths of fields present in the event but not in its schema. */
+  unmodelled: string[];
+}
+
+/** Whether `name` is an event type VAYU models. */
+export function isJournalEventName(name: string): name is JournalEventName {
+  return Object.prototype.hasOwnProperty.call(JOURNAL_EVENT_SCHEMAS, name);
+}
+
+/** Compare an event with the schema of its type. */
+export function checkJournalEvent(event: JournalEvent): JournalEventCheck {
+  if (!isJournalEventName(event.event)) return { known: false, errors: {}, unmodelled: [] };
+
+  const schema: JsonSchema = JOURNAL_EVENT_SCHEMAS[event.event];
+  const result = validateSchema(schema, event);
+  const errors: Record<string, string> = {};
+  if (!result.valid) {
+    for (const [path, message] of Object.entries(result.errors)) errors[collapseIndexes(path)] ??= message;
+  }
+
+  const unmodelled = new Set<string>();
+  collectUnmodelled(schema, event, '', unmodelled);
+  return { known: true, errors, unmodelled: [...unmodelled] };
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function collectUnmodelled(schema: JsonSchema, value: unknown, path: string, out: Set<string>): void {
+  if (Array.isArray(value)) {
+    if (schema.items) for (const item of value) collectUnmodelled(schema.items, item, `${path}[]`, out);
+    return;
+  }
+  if (typeof value !== 'object' || value === null || !schema.properties) return;
+
+  for (const [key, item] of Object.entries(value)) {
+    const child = path ? `${path}.${key}` : key;
+    const propSchema = schema.properties[key];
+    if (propSchema) {
+      collectUnmodelled(propSchema, item, child, out);
+    } else if (typeof schema.additionalProperties === 'object') {
+      collectUnmodelled(schema.additionalProperties, item, child, out);
+    } else if (schema.additionalProperties === undefined) {
+      out.add(child);
+    }
+  }
+}
+
+function collapseIndexes(path: string): string {
+  return path.replace(/\[\d+\]/g, '[]');
+}
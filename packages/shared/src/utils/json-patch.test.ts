@@ -0,0 +1,109 @@
+/**
+ * AGNI — Unit tests for json-patch.ts
+ *
+ * Tests diff generation for objects, arrays and type changes, pointer
+ * escaping, immutable application, and that applying a diff always
+ * reproduces the target document.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffJson, applyPatch, escapePointerToken, parsePointer } from './json-patch.js';
+
+// ---------------------------------------------------------------------------
+// diffJson
+// ---------------------------------------------------------------------------
+
+describe('diffJson', () => {
+  it('should return no operations for equal documents', () => {
+    expect(diffJson({ a: 1, b: [1, 2] }, { a: 1, b: [1, 2] })).toEqual([]);
+  });
+
+  it('should emit a single replace for a nested primitive change', () => {
+    const prev = { ship: { fuel: { main: 10, reserve: 0.5 }, modules: [{ slot: 'A' }, { slot: 'B' }] } };
+    const next = { ship: { fuel: { main: 9.2, reserve: 0.5 }, modules: [{ slot: 'A' }, { slot: 'B' }] } };
+    expect(diffJson(prev, next)).toEqual([{ op: 'replace', path: '/ship/fuel/main', value: 9.2 }]);
+  });
+
+  it('should add and remove object keys', () => {
+    expect(diffJson({ a: 1, b: 2 }, { a: 1, c: 3 })).toEqual([
+      { op: 'remove', path: '/b' },
+      { op: 'add', path: '/c', value: 3 },
+    ]);
+  });
+
+  it('should append and truncate arrays from the end', () => {
+    expect(diffJson([1, 2], [1, 2, 3, 4])).toEqual([
+      { op: 'add', path: '/2', value: 3 },
+      { op: 'add', path: '/3', value: 4 },
+    ]);
+    expect(diffJson([1, 2, 3, 4], [1])).toEqual([
+      { op: 'remove', path: '/3' },
+      { op: 'remove', path: '/2' },
+      { op: 'remove', path: '/1' },
+    ]);
+  });
+
+  it('should replace when the value type changes', () => {
+    expect(diffJson({ carrier: null }, { carrier: { callsign: 'X' } })).toEqual([
+      { op: 'replace', path: '/carrier', value: { callsign: 'X' } },
+    ]);
+  });
+
+  it('should prefix paths with basePath and escape keys', () => {
+    expect(diffJson({ 'a/b': 1 }, { 'a/b': 2 }, '/ship')).toEqual([
+      { op: 'replace', path: '/ship/a~1b', value: 2 },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// applyPatch
+// ---------------------------------------------------------------------------
+
+describe('applyPatch', () => {
+  it('should reproduce the target document from a diff', () => {
+    const prev = { a: 1, list: [{ x: 1 }, { x: 2 }, { x: 3 }], nested: { keep: true, drop: 'y' }, n: null };
+    const next = { a: 2, list: [{ x: 1 }, { x: 5 }], nested: { keep: true, add: [1] }, n: { now: 'obj' } };
+    expect(applyPatch(prev, diffJson(prev, next))).toEqual(next);
+  });
+
+  it('should not mutate the input and share untouched branches', () => {
+    const doc = { ship: { fuel: 1 }, location: { system: 'Sol' } };
+    const result = applyPatch(doc, [{ op: 'replace', path: '/ship/fuel', value: 2 }]);
+
+    expect(doc.ship.fuel).toBe(1);
+    expect(result.ship.fuel).toBe(2);
+    expect(result.location).toBe(doc.location);
+  });
+
+  it('should support move, copy, test and array append', () => {
+    const doc = { a: [1], b: { v: 'x' } };
+    const result = applyPatch(doc, [
+      { op: 'test', path: '/b/v', value: 'x' },
+      { op: 'add', path: '/a/-', value: 2 },
+      { op: 'copy', from: '/b', path: '/c' },
+      { op: 'move', from: '/b/v', path: '/d' },
+    ]);
+    expect(result).toEqual({ a: [1, 2], b: {}, c: { v: 'x' }, d: 'x' });
+  });
+
+  it('should throw on a failed test or missing path', () => {
+    expect(() => applyPatch({ a: 1 }, [{ op: 'test', path: '/a', value: 2 }])).toThrow(/test failed/);
+    expect(() => applyPatch({ a: 1 }, [{ op: 'remove', path: '/b' }])).toThrow(/not found/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Pointers
+// ---------------------------------------------------------------------------
+
+describe('JSON Pointer helpers', () => {
+  it('should round-trip escaped tokens', () => {
+    const key = 'a/b~c';
+    expect(parsePointer(`/${escapePointerToken(key)}/0`)).toEqual([key, '0']);
+  });
+
+  it('should reject pointers without a leading slash', () => {
+    expect(() => parsePointer('a/b')).toThrow(/Invalid JSON Pointer/);
+  });
+});
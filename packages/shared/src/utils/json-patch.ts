@@ -0,0 +1,213 @@
+/**
+ * @vayu/shared — JSON Patch Utilities
+ *
+ * Minimal RFC 6902 support for syncing GameState over WebSocket: the server
+ * diffs each state slice against what it last sent and broadcasts the
+ * operations; the client applies them to its copy.
+ *
+ * Only plain JSON values are supported (objects, arrays, strings, numbers,
+ * booleans, null). Diffs use `add`, `remove` and `replace`; `applyPatch`
+ * additionally understands `move`, `copy` and `test`.
+ */
+
+import type { JsonPatchOperation } from '../types/websocket.js';
+
+// ---------------------------------------------------------------------------
+// JSON Pointer
+// ---------------------------------------------------------------------------
+
+/** Escape a single key for use in a JSON Pointer (RFC 6901). */
+export function escapePointerToken(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/** Split a JSON Pointer into unescaped tokens. `''` is the whole document. */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer: ${pointer}`);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((t) => t.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute the operations that turn `prev` into `next`.
+ *
+ * Objects are diffed key by key and arrays index by index (extra elements
+ * are added or removed at the end), so a change to one module in a
+ * 40-module loadout yields a single `replace`.
+ *
+ * @param prev     - The document the receiver currently holds.
+ * @param next     - The desired document.
+ * @param basePath - JSON Pointer prefix for every generated path.
+ * @returns Operations in application order (empty if equal).
+ */
+export function diffJson(prev: unknown, next: unknown, basePath = ''): JsonPatchOperation[] {
+  const ops: JsonPatchOperation[] = [];
+  diffInto(prev, next, basePath, ops);
+  return ops;
+}
+
+function diffInto(prev: unknown, next: unknown, path: string, ops: JsonPatchOperation[]): void {
+  if (prev === next) return;
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const common = Math.min(prev.length, next.length);
+    for (let i = 0; i < common; i++) {
+      diffInto(prev[i], next[i], `${path}/${i}`, ops);
+    }
+    for (let i = common; i < next.length; i++) {
+      ops.push({ op: 'add', path: `${path}/${i}`, value: next[i] });
+    }
+    // Remove from the end so earlier indices stay valid.
+    for (let i = prev.length - 1; i >= common; i--) {
+      ops.push({ op: 'remove', path: `${path}/${i}` });
+    }
+    return;
+  }
+
+  if (isObject(prev) && isObject(next)) {
+    for (const key of Object.keys(prev)) {
+      if (!(key in next)) {
+        ops.push({ op: 'remove', path: `${path}/${escapePointerToken(key)}` });
+      }
+    }
+    for (const [key, value] of Object.entries(next)) {
+      const childPath = `${path}/${escapePointerToken(key)}`;
+      if (key in prev) {
+        diffInto(prev[key], value, childPath, ops);
+      } else {
+        ops.push({ op: 'add', path: childPath, value });
+      }
+    }
+    return;
+  }
+
+  // Primitive change or type change (object <-> array <-> primitive).
+  ops.push({ op: 'replace', path, value: next });
+}
+
+// ---------------------------------------------------------------------------
+// Apply
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply operations to a document without mutating it.
+ *
+ * Containers along each modified path are copied; untouched branches are
+ * shared with the input, so the result is cheap and works with
+ * reference-equality change detection (e.g. React/zustand selectors).
+ *
+ * @throws If an operation targets a missing path or a `test` fails.
+ */
+export function applyPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  let doc: unknown = document;
+  for (const op of operations) {
+    doc = applyOperation(doc, op);
+  }
+  return doc as T;
+}
+
+function applyOperation(doc: unknown, op: JsonPatchOperation): unknown {
+  switch (op.op) {
+    case 'add':
+      return setAt(doc, parsePointer(op.path), op.value, 'add');
+    case 'replace':
+      return setAt(doc, parsePointer(op.path), op.value, 'replace');
+    case 'remove':
+      return removeAt(doc, parsePointer(op.path));
+    case 'copy':
+      return setAt(doc, parsePointer(op.path), getAt(doc, parsePointer(op.from ?? '')), 'add');
+    case 'move': {
+      const from = parsePointer(op.from ?? '');
+      const value = getAt(doc, from);
+      return setAt(removeAt(doc, from), parsePointer(op.path), value, 'add');
+    }
+    case 'test':
+      if (JSON.stringify(getAt(doc, parsePointer(op.path))) !== JSON.stringify(op.value)) {
+        throw new Error(`JSON Patch test failed at ${op.path}`);
+      }
+      return doc;
+  }
+}
+
+/** Read the value at a pointer. */
+function getAt(doc: unknown, tokens: string[]): unknown {
+  let current = doc;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      current = current[Number(token)];
+    } else if (isObject(current) && token in current) {
+      current = current[token];
+    } else {
+      throw new Error(`JSON Patch path not found: /${tokens.join('/')}`);
+    }
+  }
+  return current;
+}
+
+/** Return a copy of `doc` with `value` written at the pointer. */
+function setAt(doc: unknown, tokens: string[], value: unknown, mode: 'add' | 'replace'): unknown {
+  if (tokens.length === 0) return value;
+  const [head, ...rest] = tokens;
+
+  if (Array.isArray(doc)) {
+    const copy = [...doc];
+    const index = head === '-' ? copy.length : Number(head);
+    if (!Number.isInteger(index) || index < 0 || index > copy.length) {
+      throw new Error(`JSON Patch array index out of range: ${head}`);
+    }
+    if (rest.length > 0) {
+      copy[index] = setAt(copy[index], rest, value, mode);
+    } else if (mode === 'add') {
+      copy.splice(index, 0, value);
+    } else {
+      copy[index] = value;
+    }
+    return copy;
+  }
+
+  if (isObject(doc)) {
+    if (rest.length > 0 && !(head in doc)) {
+      throw new Error(`JSON Patch path not found: ${head}`);
+    }
+    return { ...doc, [head]: rest.length > 0 ? setAt(doc[head], rest, value, mode) : value };
+  }
+
+  throw new Error(`JSON Patch cannot write into a primitive at ${head}`);
+}
+
+/** Return a copy of `doc` with the value at the pointer removed. */
+function removeAt(doc: unknown, tokens: string[]): unknown {
+  if (tokens.length === 0) {
+    throw new Error('JSON Patch cannot remove the document root');
+  }
+  const [head, ...rest] = tokens;
+
+  if (Array.isArray(doc)) {
+    const copy = [...doc];
+    const index = Number(head);
+    if (rest.length > 0) copy[index] = removeAt(copy[index], rest);
+    else copy.splice(index, 1);
+    return copy;
+  }
+
+  if (isObject(doc) && head in doc) {
+    if (rest.length > 0) return { ...doc, [head]: removeAt(doc[head], rest) };
+    const { [head]: _removed, ...remaining } = doc;
+    return remaining;
+  }
+
+  throw new Error(`JSON Patch path not found: ${head}`);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -56,26 +56,21 @@ export function fuelCost(
 /**
  * Calculate the maximum single-jump range for an FSD.
  *
- * Derived by inverting the fuel formula:
- *   MaxRange = ( MaxFuelPerJump / FuelMultiplier ) ^ (1 / FuelPower) / (ShipMass + FuelMass)^(1/FuelPower) * (ShipMass + FuelMass)^(1/FuelPower)
+ * The game's fuel formula accounts for the ship's total mass:
+ *   FuelUsed = FuelMultiplier * (distance * totalMass / OptimalMass)^FuelPower
  *
- * Simplified standard formula used by the community:
- *   MaxRange = (MaxFuelPerJump / FuelMultiplier)^(1 / FuelPower)
+ * Inverted for the longest jump the FSD allows:
+ *   MaxRange = OptimalMass / totalMass * (MaxFuelPerJump / FuelMultiplier)^(1 / FuelPower)
  *
- * The game's actual formula accounts for the ship's total mass:
- *   FuelUsed = FuelMultiplier * (distance * (shipMass + fuelMass) / OptimalMass)^FuelPower
+ * This is the FSD alone; see `fsd.ts` for drive stats, engineering and
+ * Guardian FSD boosters.
  *
- * For a simplified calculation that matches community tools:
- *   MaxRange = OptimalMass / (shipMass + fuelMass) * (MaxFuelPerJump / FuelMultiplier)^(1/FuelPower)
- *
- * This function uses the simplified form; for full accuracy the caller
- * should also factor in the FSD's OptimalMass.
- *
- * @param fsdMaxFuelPerJump - Maximum fuel per single jump (tons).
+ * @param fsdMaxFuelPerJump - Maximum fuel per single jump (tons), or less if the tank holds less.
  * @param fuelPower         - FSD fuel power exponent.
  * @param fuelMultiplier    - FSD fuel multiplier constant.
- * @param shipMass          - Dry mass of the ship (tons, unladen).
+ * @param shipMass          - Mass of the ship without fuel (tons, unladen plus cargo).
  * @param fuelMass          - Current fuel in the tank (tons).
+ * @param optimalMass       - FSD optimal mass (tons).
  * @returns Maximum jump range in light years.
  */
 export function maxJumpRange(
@@ -84,15 +79,14 @@ export function maxJumpRange(
   fuelMultiplier: number,
   shipMass: number,
   fuelMass: number,
+  optimalMass: number,
 ): number {
-  if (fuelMultiplier <= 0 || fuelPower <= 0 || shipMass + fuelMass <= 0) {
+  if (fuelMultiplier <= 0 || fuelPower <= 0 || shipMass + fuelMass <= 0 || fsdMaxFuelPerJump <= 0) {
     return 0;
   }
 
-  // Simplified formula: range = (maxFuel / multiplier)^(1/power) / totalMass * optimalMass
-  // Since we don't have optimalMass here, we use the most basic form.
   const totalMass = shipMass + fuelMass;
-  const range = Math.pow(fsdMaxFuelPerJump / fuelMultiplier, 1 / fuelPower) / totalMass;
+  const range = (optimalMass / totalMass) * Math.pow(fsdMaxFuelPerJump / fuelMultiplier, 1 / fuelPower);
 
   return Math.max(0, range);
 }
@@ -0,0 +1,75 @@
+/**
+ * AGNI — Unit tests for schema.ts
+ *
+ * Tests type, range and enum checks against the real API schemas, error
+ * paths for nested values, defaults, query string coercion and anyOf.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateSchema, describeSchemaErrors } from './schema.js';
+import { API_SCHEMAS } from '../constants/api-schemas.js';
+
+describe('validateSchema', () => {
+  it('should accept a valid body and return a copy with defaults applied', () => {
+    const input = { content: 'Found a Guardian site' };
+    const result = validateSchema(API_SCHEMAS.LogbookCreateRequest, input);
+
+    expect(result).toEqual({ valid: true, value: { content: 'Found a Guardian site', source: 'text', tags: [] } });
+    expect(input).toEqual({ content: 'Found a Guardian site' });
+  });
+
+  it('should report every problem keyed by its path', () => {
+    const result = validateSchema(API_SCHEMAS.BindingUpdateRequest, {
+      slot: 'tertiary',
+      device: 'Keyboard',
+      deadzone: 2,
+      modifiers: [{ device: 'Keyboard' }],
+      extra: true,
+    });
+
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.errors).toEqual({
+      slot: 'must be one of "primary", "secondary", "axis"',
+      deadzone: 'must be at most 1',
+      'modifiers[0].key': 'is required',
+      extra: 'is not allowed',
+    });
+    expect(describeSchemaErrors({ slot: 'is required', '': 'must be an object' }))
+      .toBe('slot (is required), must be an object');
+  });
+
+  it('should coerce query strings only when asked', () => {
+    expect(validateSchema(API_SCHEMAS.LimitOffsetQuery, { limit: '20', offset: '0' }, { coerce: true }))
+      .toEqual({ valid: true, value: { limit: 20, offset: 0 } });
+    expect(validateSchema(API_SCHEMAS.LimitOffsetQuery, { limit: '20' }).valid).toBe(false);
+    expect(validateSchema(API_SCHEMAS.LimitOffsetQuery, { limit: 'all' }, { coerce: true }))
+      .toEqual({ valid: false, errors: { limit: 'must be an integer' } });
+  });
+
+  it('should accept any matching anyOf branch', () => {
+    const schema = API_SCHEMAS.ReplaySeekRequest;
+    expect(validateSchema(schema, { position: 12 }).valid).toBe(true);
+    expect(validateSchema(schema, { timestamp: '2024-08-15T19:00:00Z' }).valid).toBe(true);
+    expect(validateSchema(schema, { position: -1 })).toEqual({
+      valid: false,
+      errors: { '': 'must match: position (event index) or timestamp (ISO string)' },
+    });
+  });
+
+  it('should check strings, nullables and empty objects', () => {
+    expect(validateSchema(API_SCHEMAS.DevicePairRequest, { code: '12345', name: '' })).toEqual({
+      valid: false,
+      errors: { code: 'must match ^\\d{6}$', name: 'must not be empty' },
+    });
+    expect(validateSchema(API_SCHEMAS.GraphicsProfileRequest, {
+      name: 'Blue HUD',
+      hudMatrix: { matrixRed: [0, 0, 1], matrixGreen: [0, 1, 0], matrixBlue: [1, 0, 0] },
+      fov: null,
+    }).valid).toBe(true);
+    expect(validateSchema(API_SCHEMAS.AlertRuleUpdateRequest, {})).toEqual({
+      valid: false,
+      errors: { '': 'must not be empty' },
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @vayu/shared — Schema Validation
+ *
+ * A small validator for the JSON Schema subset in `JsonSchema`. The server
+ * checks request bodies, query strings and path parameters against the
+ * schemas in `constants/api-schemas.ts`, and the same schemas are published
+ * in the OpenAPI document, so what is documented is what is enforced.
+ *
+ * Errors are keyed by the path of the offending value (`slot`,
+ * `modifiers[0].key`, or `''` for the value itself) — the same
+ * `Record<string, string>` shape the settings service returns.
+ */
+
+import type { JsonSchema, JsonSchemaType } from '../types/api.js';
+
+/** Outcome of `validateSchema()`. */
+export type SchemaValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: Record<string, string> };
+
+export interface ValidateOptions {
+  /**
+   * Convert strings to the numbers and booleans the schema asks for. Query
+   * strings and path parameters only ever arrive as strings.
+   */
+  coerce?: boolean;
+}
+
+/**
+ * Validate `value` against `schema`. On success `value` is a copy with
+ * defaults filled in (and, with `coerce`, strings converted); the input is
+ * never modified.
+ */
+export function validateSchema<T>(
+  schema: JsonSchema<T>,
+  value: unknown,
+  options: ValidateOptions = {},
+): SchemaValidationResult<T> {
+  const errors: Record<string, string> = {};
+  const result = check(schema, value, '', errors, options.coerce ?? false);
+  if (Object.keys(errors).length > 0) return { valid: false, errors };
+  return { valid: true, value: result as T };
+}
+
+/** One-line summary of validation errors: `slot (must be ...), key (...)`. */
+export function describeSchemaErrors(errors: Record<string, string>): string {
+  return Object.entries(errors)
+    .map(([path, message]) => (path ? `${path} (${message})` : message))
+    .join(', ');
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function check(
+  schema: JsonSchema,
+  input: unknown,
+  path: string,
+  errors: Record<string, string>,
+  coerce: boolean,
+): unknown {
+  if (schema.anyOf) {
+    for (const option of schema.anyOf) {
+      const optionErrors: Record<string, string> = {};
+      const value = check(option, input, path, optionErrors, coerce);
+      if (Object.keys(optionErrors).length === 0) return value;
+    }
+    errors[path] = schema.description
+      ? `must match: ${schema.description}`
+      : 'does not match any allowed shape';
+    return input;
+  }
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  let value = coerce && typeof input === 'string' ? coerceString(input, types) : input;
+
+  if (types.length > 0 && !types.some((t) => isType(value, t))) {
+    errors[path] = `must be ${types.map(article).join(' or ')}`;
+    return value;
+  }
+
+  if (schema.enum && !schema.enum.some((allowed) => allowed === value)) {
+    errors[path] = `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`;
+    return value;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors[path] = `must be at least ${schema.minimum}`;
+    else if (schema.maximum !== undefined && value > schema.maximum) errors[path] = `must be at most ${schema.maximum}`;
+  } else if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors[path] = schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`;
+    } else if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors[path] = `must be at most ${schema.maxLength} characters`;
+    } else if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors[path] = `must match ${schema.pattern}`;
+    }
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors[path] = `must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`;
+    } else if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors[path] = `must have at most ${schema.maxItems} items`;
+    } else if (schema.items) {
+      const items = schema.items;
+      value = value.map((item, i) => check(items, item, `${path}[${i}]`, errors, coerce));
+    }
+  } else if (isPlainObject(value)) {
+    value = checkObject(schema, value, path, errors, coerce);
+  }
+
+  return value;
+}
+
+function checkObject(
+  schema: JsonSchema,
+  input: Record<string, unknown>,
+  path: string,
+  errors: Record<string, string>,
+  coerce: boolean,
+): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  const properties = schema.properties ?? {};
+
+  for (const key of schema.required ?? []) {
+    if (input[key] === undefined) errors[join(path, key)] = 'is required';
+  }
+
+  for (const [key, propSchema] of Object.entries(properties)) {
+    if (input[key] !== undefined) {
+      out[key] = check(propSchema, input[key], join(path, key), errors, coerce);
+    } else if (propSchema.default !== undefined) {
+      out[key] = JSON.parse(JSON.stringify(propSchema.default));
+    }
+  }
+
+  for (const [key, item] of Object.entries(input)) {
+    if (key in properties || item === undefined) continue;
+    if (schema.additionalProperties === false) {
+      errors[join(path, key)] = 'is not allowed';
+    } else if (typeof schema.additionalProperties === 'object') {
+      out[key] = check(schema.additionalProperties, item, join(path, key), errors, coerce);
+    } else {
+      out[key] = item;
+    }
+  }
+
+  if (schema.minProperties !== undefined && Object.keys(out).length < schema.minProperties) {
+    errors[path] = schema.minProperties === 1 ? 'must not be empty' : `must have at least ${schema.minProperties} properties`;
+  }
+
+  return out;
+}
+
+function isType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return isPlainObject(value);
+    case 'null': return value === null;
+  }
+}
+
+function coerceString(value: string, types: JsonSchemaType[]): unknown {
+  if (types.includes('string')) return value;
+  if ((types.includes('number') || types.includes('integer')) && value.trim() !== '') {
+    const n = Number(value);
+    if (!Number.isNaN(n)) return n;
+  }
+  if (types.includes('boolean') && (value === 'true' || value === 'false')) return value === 'true';
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function article(type: JsonSchemaType): string {
+  switch (type) {
+    case 'integer': return 'an integer';
+    case 'array': return 'an array';
+    case 'object': return 'an object';
+    case 'null': return 'null';
+    default: return `a ${type}`;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * AGNI — Unit tests for stars.ts
+ *
+ * Tests the EDSM sub type to star class mapping and which classes can be
+ * fuel scooped or supercharge the FSD.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { starClassFromSubType, isScoopableStar, starSupercharge } from './stars.js';
+
+describe('starClassFromSubType()', () => {
+  it('should map main-sequence, giant and brown dwarf stars', () => {
+    expect(starClassFromSubType('K (Yellow-Orange) Star')).toBe('K');
+    expect(starClassFromSubType('B (Blue-White) Star')).toBe('B');
+    expect(starClassFromSubType('M (Red giant) Star')).toBe('M_RedGiant');
+    expect(starClassFromSubType('L (Brown dwarf) Star')).toBe('L');
+  });
+
+  it('should map remnants and other special stars', () => {
+    expect(starClassFromSubType('Neutron Star')).toBe('N');
+    expect(starClassFromSubType('White Dwarf (DAB) Star')).toBe('DAB');
+    expect(starClassFromSubType('Black Hole')).toBe('H');
+    expect(starClassFromSubType('T Tauri Star')).toBe('TTS');
+    expect(starClassFromSubType('Wolf-Rayet NC Star')).toBe('WNC');
+  });
+
+  it('should return null for planets and missing sub types', () => {
+    expect(starClassFromSubType('Earth-like world')).toBeNull();
+    expect(starClassFromSubType(null)).toBeNull();
+  });
+});
+
+describe('isScoopableStar()', () => {
+  it('should accept the KGBFOAM classes, giants included', () => {
+    for (const c of ['K', 'G', 'B', 'F', 'O', 'A', 'M', 'M_RedGiant', 'A_BlueWhiteSuperGiant']) {
+      expect(isScoopableStar(c)).toBe(true);
+    }
+  });
+
+  it('should reject everything else', () => {
+    for (const c of ['L', 'T', 'Y', 'TTS', 'N', 'DA', 'H', 'W', 'C', 'MS', 'S', '', null]) {
+      expect(isScoopableStar(c)).toBe(false);
+    }
+  });
+});
+
+describe('starSupercharge()', () => {
+  it('should supercharge at neutron stars and white dwarfs only', () => {
+    expect(starSupercharge('N')).toBe('neutron');
+    expect(starSupercharge('DA')).toBe('white_dwarf');
+    expect(starSupercharge('D')).toBe('white_dwarf');
+    expect(starSupercharge('K')).toBeNull();
+    expect(starSupercharge(null)).toBeNull();
+  });
+});
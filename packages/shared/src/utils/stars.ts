@@ -0,0 +1,70 @@
+/**
+ * @vayu/shared — Star Classes
+ *
+ * Journal-style star class codes (`StarClass`: "K", "M_RedGiant", "DA",
+ * "N", ...) from the sub type names the EDSM dumps use ("K (Yellow-Orange)
+ * Star", "White Dwarf (DA) Star", "Neutron Star", ...), and what a star
+ * means for the next jump: fuel can be scooped from the KGBFOAM classes,
+ * giants included, and a neutron star or white dwarf supercharges the FSD.
+ */
+
+import type { StarClass } from '../types/navigation.js';
+import type { FsdSupercharge } from '../types/ship.js';
+
+/** Classes fuel can be scooped from. */
+const SCOOPABLE = new Set(['K', 'G', 'B', 'F', 'O', 'A', 'M']);
+
+/** EDSM sub types that are not "<class> (<colour>) Star". */
+const SUB_TYPES: Record<string, StarClass> = {
+  'K (Yellow-Orange giant) Star': 'K_OrangeGiant',
+  'M (Red giant) Star': 'M_RedGiant',
+  'M (Red super giant) Star': 'M_RedSuperGiant',
+  'A (Blue-White super giant) Star': 'A_BlueWhiteSuperGiant',
+  'B (Blue-White super giant) Star': 'B_BlueWhiteSuperGiant',
+  'F (White super giant) Star': 'F_WhiteSuperGiant',
+  'G (White-Yellow super giant) Star': 'G_WhiteSuperGiant',
+  'T Tauri Star': 'TTS',
+  'Herbig Ae/Be Star': 'AeBe',
+  'Wolf-Rayet Star': 'W',
+  'Wolf-Rayet N Star': 'WN',
+  'Wolf-Rayet NC Star': 'WNC',
+  'Wolf-Rayet C Star': 'WC',
+  'Wolf-Rayet O Star': 'WO',
+  'C Star': 'C',
+  'CN Star': 'CN',
+  'CJ Star': 'CJ',
+  'CH Star': 'CH',
+  'CHd Star': 'CHd',
+  'MS-type Star': 'MS',
+  'S-type Star': 'S',
+  'Neutron Star': 'N',
+  'Black Hole': 'H',
+  'Supermassive Black Hole': 'SupermassiveBlackHole',
+};
+
+/** "K (Yellow-Orange) Star", "L (Brown dwarf) Star". */
+const LETTER_CLASS = /^([OBAFGKMLTY]) \([^)]*\) Star$/;
+/** "White Dwarf (DA) Star". */
+const WHITE_DWARF = /^White Dwarf \((D[A-Z]*)\) Star$/;
+
+/**
+ * Star class code of an EDSM star sub type.
+ *
+ * @returns The code, or null if the sub type is not a known star.
+ */
+export function starClassFromSubType(subType: string | null | undefined): StarClass | null {
+  if (!subType) return null;
+  return SUB_TYPES[subType] ?? LETTER_CLASS.exec(subType)?.[1] ?? WHITE_DWARF.exec(subType)?.[1] ?? null;
+}
+
+/** Whether fuel can be scooped from a star of this class. */
+export function isScoopableStar(starClass: StarClass | null | undefined): boolean {
+  return !!starClass && SCOOPABLE.has(starClass.split('_')[0]);
+}
+
+/** The supercharge a star of this class gives the FSD, or null. */
+export function starSupercharge(starClass: StarClass | null | undefined): FsdSupercharge | null {
+  if (starClass === 'N') return 'neutron';
+  if (starClass?.startsWith('D')) return 'white_dwarf';
+  return null;
+}
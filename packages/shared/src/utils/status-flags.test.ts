@@ -0,0 +1,82 @@
+/**
+ * AGNI — Unit tests for status-flags.ts
+ *
+ * Tests decoding of the Status.json Flags / Flags2 bitfields, including the
+ * top bit, and the comparison used for edge events.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  STATUS_FLAG_BITS,
+  STATUS_FLAGS2_BITS,
+  decodeStatusFlags,
+  changedStatusFlags,
+} from './status-flags.js';
+
+// ---------------------------------------------------------------------------
+// decodeStatusFlags
+// ---------------------------------------------------------------------------
+
+describe('decodeStatusFlags()', () => {
+  it('should decode a docked ship', () => {
+    // Docked, landing gear down, shields up, in main ship, FSD mass-locked
+    const flags = decodeStatusFlags(16842765);
+
+    expect(flags).toMatchObject({
+      docked: true,
+      landingGearDown: true,
+      shieldsUp: true,
+      fsdMassLocked: true,
+      inMainShip: true,
+      supercruise: false,
+      silentRunning: false,
+      onFoot: false,
+    });
+  });
+
+  it('should decode the flags named in the Journal documentation', () => {
+    expect(decodeStatusFlags(2 ** 10).silentRunning).toBe(true);
+    expect(decodeStatusFlags(2 ** 19).lowFuel).toBe(true);
+    expect(decodeStatusFlags(2 ** 20).overheating).toBe(true);
+    expect(decodeStatusFlags(2 ** 22).isInDanger).toBe(true);
+    expect(decodeStatusFlags(2 ** 31).srvHighBeam).toBe(true);
+    expect(decodeStatusFlags(0, 2 ** 1).inTaxi).toBe(true);
+    expect(decodeStatusFlags(0, 2 ** 12).glideMode).toBe(true);
+  });
+
+  it('should decode Odyssey on-foot bits from Flags2', () => {
+    // On foot, on foot on planet, breathable atmosphere
+    const flags = decodeStatusFlags(0, 1 + 16 + 65536);
+
+    expect(flags).toMatchObject({ onFoot: true, onFootOnPlanet: true, breathableAtmosphere: true, inTaxi: false });
+  });
+
+  it('should default Flags2 to nothing set', () => {
+    const flags = decodeStatusFlags(0);
+
+    expect(STATUS_FLAGS2_BITS.every((name) => flags[name] === false)).toBe(true);
+  });
+
+  it('should name every bit exactly once', () => {
+    const names = [...STATUS_FLAG_BITS, ...STATUS_FLAGS2_BITS];
+
+    expect(STATUS_FLAG_BITS).toHaveLength(32);
+    expect(new Set(names).size).toBe(names.length);
+    expect(Object.keys(decodeStatusFlags(0, 0))).toHaveLength(names.length);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// changedStatusFlags
+// ---------------------------------------------------------------------------
+
+describe('changedStatusFlags()', () => {
+  it('should list the flags that differ', () => {
+    const before = decodeStatusFlags(2 ** 24);
+    const after = decodeStatusFlags(2 ** 24 + 2 ** 17 + 2 ** 6);
+
+    expect(changedStatusFlags(before, after)).toEqual(['hardpointsDeployed', 'fsdCharging']);
+    expect(changedStatusFlags(before, after, ['lowFuel', 'fsdCharging'])).toEqual(['fsdCharging']);
+    expect(changedStatusFlags(after, after)).toEqual([]);
+  });
+});
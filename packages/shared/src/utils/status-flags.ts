@@ -0,0 +1,114 @@
+/**
+ * @vayu/shared — Status.json Flag Decoding
+ *
+ * Decodes the `Flags` and `Flags2` bitfields of Status.json into named
+ * booleans, and compares two decoded states for the flags that changed.
+ */
+
+import type { StatusEdgeFlag, StatusFlags } from '../types/status.js';
+
+// ---------------------------------------------------------------------------
+// Bit tables
+// ---------------------------------------------------------------------------
+
+/** `Flags` bits, in bit order (index = bit number). */
+export const STATUS_FLAG_BITS: readonly (keyof StatusFlags)[] = [
+  'docked',
+  'landed',
+  'landingGearDown',
+  'shieldsUp',
+  'supercruise',
+  'flightAssistOff',
+  'hardpointsDeployed',
+  'inWing',
+  'lightsOn',
+  'cargoScoopDeployed',
+  'silentRunning',
+  'scoopingFuel',
+  'srvHandbrake',
+  'srvTurretView',
+  'srvTurretRetracted',
+  'srvDriveAssist',
+  'fsdMassLocked',
+  'fsdCharging',
+  'fsdCooldown',
+  'lowFuel',
+  'overheating',
+  'hasLatLong',
+  'isInDanger',
+  'beingInterdicted',
+  'inMainShip',
+  'inFighter',
+  'inSrv',
+  'hudAnalysisMode',
+  'nightVision',
+  'altitudeFromAverageRadius',
+  'fsdJump',
+  'srvHighBeam',
+];
+
+/** `Flags2` (Odyssey) bits, in bit order (index = bit number). */
+export const STATUS_FLAGS2_BITS: readonly (keyof StatusFlags)[] = [
+  'onFoot',
+  'inTaxi',
+  'inMulticrew',
+  'onFootInStation',
+  'onFootOnPlanet',
+  'aimDownSight',
+  'lowOxygen',
+  'lowHealth',
+  'cold',
+  'hot',
+  'veryCold',
+  'veryHot',
+  'glideMode',
+  'onFootInHangar',
+  'onFootSocialSpace',
+  'onFootExterior',
+  'breathableAtmosphere',
+  'telepresenceMulticrew',
+  'physicalMulticrew',
+  'fsdHyperdriveCharging',
+];
+
+/** Flags whose transitions are worth an event of their own. */
+export const STATUS_EDGE_FLAGS: readonly StatusEdgeFlag[] = [
+  'fsdCharging',
+  'overheating',
+  'lowFuel',
+  'isInDanger',
+  'hardpointsDeployed',
+  'glideMode',
+];
+
+// ---------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode Status.json `Flags` and `Flags2` into named booleans.
+ *
+ * @param flags - The `Flags` bitfield (0 when absent).
+ * @param flags2 - The `Flags2` bitfield; Horizons does not write it.
+ */
+export function decodeStatusFlags(flags: number, flags2 = 0): StatusFlags {
+  const decoded = {} as StatusFlags;
+  STATUS_FLAG_BITS.forEach((name, bit) => { decoded[name] = ((flags >>> bit) & 1) === 1; });
+  STATUS_FLAGS2_BITS.forEach((name, bit) => { decoded[name] = ((flags2 >>> bit) & 1) === 1; });
+  return decoded;
+}
+
+/**
+ * The flags that differ between two decoded states.
+ *
+ * @param previous - The earlier state.
+ * @param current - The later state.
+ * @param names - Flags to compare (all of them by default).
+ */
+export function changedStatusFlags<K extends keyof StatusFlags>(
+  previous: StatusFlags,
+  current: StatusFlags,
+  names: readonly K[] = [...STATUS_FLAG_BITS, ...STATUS_FLAGS2_BITS] as K[],
+): K[] {
+  return names.filter((name) => previous[name] !== current[name]);
+}